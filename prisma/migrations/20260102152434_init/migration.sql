@@ -1,153 +0,0 @@
--- CreateTable
-CREATE TABLE "Article" (
-    "id" TEXT NOT NULL PRIMARY KEY,
-    "title" TEXT NOT NULL,
-    "abstract" TEXT NOT NULL,
-    "conclusion" TEXT,
-    "year" INTEGER NOT NULL,
-    "date" TEXT NOT NULL,
-    "dateAdded" TEXT NOT NULL,
-    "journal" TEXT,
-    "doi" TEXT,
-    "language" TEXT NOT NULL DEFAULT 'English',
-    "numPages" INTEGER NOT NULL DEFAULT 0,
-    "researchQuestion" TEXT,
-    "methodology" TEXT,
-    "dataUsed" TEXT,
-    "results" TEXT,
-    "limitations" TEXT,
-    "firstImp" TEXT,
-    "notes" TEXT,
-    "comment" TEXT,
-    "rating" INTEGER NOT NULL DEFAULT 0,
-    "read" BOOLEAN NOT NULL DEFAULT false,
-    "favorite" BOOLEAN NOT NULL DEFAULT false,
-    "fileName" TEXT NOT NULL,
-    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    "updatedAt" DATETIME NOT NULL
-);
-
--- CreateTable
-CREATE TABLE "Author" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-    "name" TEXT NOT NULL
-);
-
--- CreateTable
-CREATE TABLE "ArticleAuthor" (
-    "articleId" TEXT NOT NULL,
-    "authorId" INTEGER NOT NULL,
-
-    PRIMARY KEY ("articleId", "authorId"),
-    CONSTRAINT "ArticleAuthor_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
-    CONSTRAINT "ArticleAuthor_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "Author" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
-);
-
--- CreateTable
-CREATE TABLE "Keyword" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-    "name" TEXT NOT NULL
-);
-
--- CreateTable
-CREATE TABLE "ArticleKeyword" (
-    "articleId" TEXT NOT NULL,
-    "keywordId" INTEGER NOT NULL,
-
-    PRIMARY KEY ("articleId", "keywordId"),
-    CONSTRAINT "ArticleKeyword_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
-    CONSTRAINT "ArticleKeyword_keywordId_fkey" FOREIGN KEY ("keywordId") REFERENCES "Keyword" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
-);
-
--- CreateTable
-CREATE TABLE "Subject" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-    "name" TEXT NOT NULL
-);
-
--- CreateTable
-CREATE TABLE "ArticleSubject" (
-    "articleId" TEXT NOT NULL,
-    "subjectId" INTEGER NOT NULL,
-
-    PRIMARY KEY ("articleId", "subjectId"),
-    CONSTRAINT "ArticleSubject_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
-    CONSTRAINT "ArticleSubject_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
-);
-
--- CreateTable
-CREATE TABLE "Tag" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-    "name" TEXT NOT NULL
-);
-
--- CreateTable
-CREATE TABLE "ArticleTag" (
-    "articleId" TEXT NOT NULL,
-    "tagId" INTEGER NOT NULL,
-
-    PRIMARY KEY ("articleId", "tagId"),
-    CONSTRAINT "ArticleTag_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
-    CONSTRAINT "ArticleTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
-);
-
--- CreateTable
-CREATE TABLE "University" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-    "name" TEXT NOT NULL
-);
-
--- CreateTable
-CREATE TABLE "ArticleUniversity" (
-    "articleId" TEXT NOT NULL,
-    "universityId" INTEGER NOT NULL,
-
-    PRIMARY KEY ("articleId", "universityId"),
-    CONSTRAINT "ArticleUniversity_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
-    CONSTRAINT "ArticleUniversity_universityId_fkey" FOREIGN KEY ("universityId") REFERENCES "University" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
-);
-
--- CreateTable
-CREATE TABLE "Company" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-    "name" TEXT NOT NULL
-);
-
--- CreateTable
-CREATE TABLE "ArticleCompany" (
-    "articleId" TEXT NOT NULL,
-    "companyId" INTEGER NOT NULL,
-
-    PRIMARY KEY ("articleId", "companyId"),
-    CONSTRAINT "ArticleCompany_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
-    CONSTRAINT "ArticleCompany_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
-);
-
--- CreateTable
-CREATE TABLE "UserSettings" (
-    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-    "theme" TEXT NOT NULL DEFAULT 'light',
-    "language" TEXT NOT NULL DEFAULT 'en',
-    "pdfViewer" TEXT NOT NULL DEFAULT 'system',
-    "fontSize" INTEGER NOT NULL DEFAULT 14,
-    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    "updatedAt" DATETIME NOT NULL
-);
-
--- CreateIndex
-CREATE UNIQUE INDEX "Author_name_key" ON "Author"("name");
-
--- CreateIndex
-CREATE UNIQUE INDEX "Keyword_name_key" ON "Keyword"("name");
-
--- CreateIndex
-CREATE UNIQUE INDEX "Subject_name_key" ON "Subject"("name");
-
--- CreateIndex
-CREATE UNIQUE INDEX "Tag_name_key" ON "Tag"("name");
-
--- CreateIndex
-CREATE UNIQUE INDEX "University_name_key" ON "University"("name");
-
--- CreateIndex
-CREATE UNIQUE INDEX "Company_name_key" ON "Company"("name");
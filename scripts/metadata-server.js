@@ -0,0 +1,63 @@
+/**
+ * Stand-in for the Crossref and DataCite APIs, to use metadata lookup offline
+ *
+ * Serves the JSON files of scripts/metadata-fixtures:
+ *   GET /works/{doi}  -> crossref/{doi with "/" replaced by "_"}.json
+ *   GET /dois/{doi}   -> datacite/{doi with "/" replaced by "_"}.json
+ * Unknown DOIs get a 404, like the real APIs.
+ *
+ * Usage: npm run metadata-server [-- --port 4500] [-- --fixtures path/to/dir]
+ * Then set both API URLs to http://localhost:4500 in Settings > Metadata lookup.
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const PORT = Number(option('port', 4500));
+const FIXTURES_DIR = path.resolve(option('fixtures', path.join(__dirname, 'metadata-fixtures')));
+
+const ROUTES = [
+  { prefix: '/works/', folder: 'crossref' },
+  { prefix: '/dois/', folder: 'datacite' },
+];
+
+function fixturePath(folder, doi) {
+  const fileName = doi.toLowerCase().replace(/\//g, '_') + '.json';
+  return path.join(FIXTURES_DIR, folder, fileName);
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const route = ROUTES.find(({ prefix }) => url.pathname.startsWith(prefix));
+
+  const send = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    console.log(`${req.method} ${url.pathname} -> ${status}`);
+  };
+
+  if (req.method !== 'GET' || !route) {
+    send(404, { status: 'error', message: 'Unknown endpoint' });
+    return;
+  }
+
+  const doi = decodeURIComponent(url.pathname.slice(route.prefix.length));
+  const file = fixturePath(route.folder, doi);
+  if (!fs.existsSync(file)) {
+    send(404, { status: 'error', message: `No fixture for ${doi} (${path.relative(FIXTURES_DIR, file)})` });
+    return;
+  }
+
+  send(200, fs.readFileSync(file, 'utf8'));
+});
+
+server.listen(PORT, () => {
+  console.log(`Metadata stand-in server on http://localhost:${PORT}`);
+  console.log(`Fixtures: ${FIXTURES_DIR}`);
+});
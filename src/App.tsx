@@ -7,6 +7,11 @@ import AddArticle from './pages/AddArticle';
 import EditArticle from './pages/EditArticle';
 import ArticlePage from './pages/ArticlePage';
 import Settings from './pages/Settings';
+import Duplicates from './pages/Duplicates';
+import Trash from './pages/Trash';
+import Taxonomy from './pages/Taxonomy';
+import Collections from './pages/Collections';
+import RelationGraph from './pages/RelationGraph';
 
 const router = createHashRouter([
   {
@@ -16,8 +21,13 @@ const router = createHashRouter([
       { index: true, element: <Dashboard /> },
       { path: 'library', element: <Library /> },
       { path: 'add', element: <AddArticle /> },
+      { path: 'collections', element: <Collections /> },
       { path: 'edit/:id', element: <EditArticle /> },
       { path: 'article/:id', element: <ArticlePage /> },
+      { path: 'graph', element: <RelationGraph /> },
+      { path: 'duplicates', element: <Duplicates /> },
+      { path: 'trash', element: <Trash /> },
+      { path: 'taxonomy', element: <Taxonomy /> },
       { path: 'settings', element: <Settings /> },
     ],
   },
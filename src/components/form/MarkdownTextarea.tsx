@@ -0,0 +1,81 @@
+/**
+ * MarkdownTextarea Component
+ * CleanTextarea for the research note fields, which are written in Markdown,
+ * with a Write / Preview toggle. The preview is the same rendering as the article page.
+ */
+
+import React, { useState } from 'react';
+import { CleanTextarea } from './CleanTextarea';
+import { MarkdownView } from '../markdown/MarkdownView';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface MarkdownTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  required?: boolean;
+  id?: string;
+}
+
+export function MarkdownTextarea({
+  value,
+  onChange,
+  placeholder,
+  rows = 4,
+  className = '',
+  required = false,
+  id,
+}: MarkdownTextareaProps) {
+  const { t } = useTranslation();
+  const [preview, setPreview] = useState(false);
+
+  const tabClass = (active: boolean) =>
+    `px-2 py-0.5 text-xs rounded transition-colors ${
+      active
+        ? 'bg-primary text-white'
+        : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 mb-1">
+        <button type="button" onClick={() => setPreview(false)} className={tabClass(!preview)}>
+          ✏️ {t('markdown.write')}
+        </button>
+        <button type="button" onClick={() => setPreview(true)} className={tabClass(preview)}>
+          👁️ {t('markdown.preview')}
+        </button>
+        <span className="ml-auto text-xs text-gray-400" title={t('markdown.hint')}>
+          Markdown
+        </span>
+      </div>
+      {preview ? (
+        <div
+          className={`${className} overflow-y-auto`}
+          style={{ minHeight: `${rows * 1.5 + 1}rem` }}
+          onDoubleClick={() => setPreview(false)}
+        >
+          {value.trim() ? (
+            <MarkdownView text={value} />
+          ) : (
+            <span className="text-gray-400 italic text-sm">{t('markdown.empty')}</span>
+          )}
+        </div>
+      ) : (
+        <CleanTextarea
+          id={id}
+          value={value}
+          onChange={onChange}
+          placeholder={placeholder}
+          rows={rows}
+          className={className}
+          required={required}
+        />
+      )}
+    </div>
+  );
+}
+
+export default MarkdownTextarea;
@@ -0,0 +1,170 @@
+/**
+ * HistoryPanel Component
+ * Revisions of an article (one per creation, save, restore, merge or undelete), newest first.
+ * Each one lists the fields it changed, with a word diff for texts, and can be restored.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { revisionsApi } from '../../services/api';
+import { useTranslation } from '../../hooks/useTranslation';
+import { formatDateTime } from '../../utils/text';
+import { changedFields, diffWords, isTextField, FieldChange } from '../../lib/revisions';
+import { Article } from '../../types/article';
+import { ArticleRevision } from '../../types/revision';
+
+interface HistoryPanelProps {
+  articleId: string;
+  version: string; // Changes when the article is saved: the history is loaded again
+  readOnly: boolean; // No restore while the article is being edited
+  onRestored: (article: Article) => void;
+}
+
+// SQLite datetime('now') is UTC without a zone
+function revisionDate(createdAt: string): string {
+  return formatDateTime(createdAt.replace(' ', 'T') + 'Z');
+}
+
+function ChangeDiff({ change }: { change: FieldChange }) {
+  const { t } = useTranslation();
+
+  if (!isTextField(change.field)) {
+    return (
+      <p className="text-sm">
+        <span className="line-through text-red-600 dark:text-red-400">{change.before || t('history.empty')}</span>
+        {' → '}
+        <span className="text-green-700 dark:text-green-400">{change.after || t('history.empty')}</span>
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {diffWords(change.before, change.after).map((part, i) => {
+        if (part.type === 'added') {
+          return <ins key={i} className="no-underline bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-200">{part.text}</ins>;
+        }
+        if (part.type === 'removed') {
+          return <del key={i} className="bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300">{part.text}</del>;
+        }
+        return <span key={i}>{part.text}</span>;
+      })}
+    </p>
+  );
+}
+
+export function HistoryPanel({ articleId, version, readOnly, onRestored }: HistoryPanelProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<ArticleRevision[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    try {
+      setRevisions(await revisionsApi.list(articleId));
+    } catch (err) {
+      console.error('Error loading history:', err);
+    }
+  };
+
+  // Loaded when the panel is opened, and again after each save
+  useEffect(() => {
+    if (open) loadRevisions();
+  }, [open, articleId, version]);
+
+  useEffect(() => {
+    setExpanded(null);
+    setError(null);
+  }, [articleId]);
+
+  const handleRestore = async (revision: ArticleRevision) => {
+    if (!window.confirm(t('history.restoreConfirm', { date: revisionDate(revision.createdAt) }))) return;
+
+    setRestoring(true);
+    setError(null);
+    try {
+      const article = await revisionsApi.restore(revision.id);
+      onRestored(article);
+      setExpanded(null);
+    } catch (err) {
+      setError(t('history.restoreFailed') + ': ' + (err as Error).message);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <details
+      className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6"
+      onToggle={(e) => setOpen(e.currentTarget.open)}
+    >
+      <summary className="text-lg font-semibold cursor-pointer">
+        🕘 {t('history.title')}
+        {revisions.length > 0 && <span className="ml-2 text-sm font-normal text-gray-500">({revisions.length})</span>}
+      </summary>
+
+      <div className="mt-4">
+        {error && <p className="mb-2 text-sm text-red-500">{error}</p>}
+        {revisions.length === 0 && <p className="text-sm text-gray-400 italic">{t('history.none')}</p>}
+
+        <ol className="space-y-2">
+          {revisions.map((revision, index) => {
+            // Compared with the revision before it (the next one in this newest-first list)
+            const previous = revisions[index + 1]?.snapshot || null;
+            const changes = changedFields(previous, revision.snapshot);
+            const isCurrent = index === 0;
+
+            return (
+              <li key={revision.id} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+                <button
+                  type="button"
+                  onClick={() => setExpanded(expanded === revision.id ? null : revision.id)}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                >
+                  <span className="px-2 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700">
+                    {t(`history.action.${revision.action}`)}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">{revisionDate(revision.createdAt)}</span>
+                  {isCurrent && <span className="text-xs text-green-600">{t('history.current')}</span>}
+                  <span className="flex-1 truncate text-xs text-gray-500">
+                    {previous ? changes.map((change) => t(`field.${change.field}`)).join(', ') : ''}
+                  </span>
+                  <span className="text-gray-400">{expanded === revision.id ? '▲' : '▼'}</span>
+                </button>
+
+                {expanded === revision.id && (
+                  <div className="px-3 pb-3 space-y-3 border-t border-gray-200 dark:border-gray-700">
+                    {previous && changes.length === 0 && (
+                      <p className="pt-2 text-sm text-gray-400 italic">{t('history.noChanges')}</p>
+                    )}
+                    {previous && changes.map((change) => (
+                      <div key={change.field} className="pt-2">
+                        <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">{t(`field.${change.field}`)}</h4>
+                        <ChangeDiff change={change} />
+                      </div>
+                    ))}
+                    {!previous && <p className="pt-2 text-sm text-gray-500">{t('history.firstRevision')}</p>}
+
+                    {!isCurrent && !readOnly && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoring}
+                        className="px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+                      >
+                        ↩️ {t('history.restore')}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </details>
+  );
+}
+
+export default HistoryPanel;
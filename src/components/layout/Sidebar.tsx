@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useSettingsStore } from '../../store/settings';
+import { useCollectionsStore } from '../../store/collections';
+import { useSavedViewsStore } from '../../store/savedViews';
+import { flattenCollectionTree } from '../../lib/collections';
+import { parseQuery, serializeQuery } from '../../lib/libraryQuery';
 import { useTranslation } from '../../hooks/useTranslation';
+import { articlesApi } from '../../services/api';
 import { cn } from '../../lib/utils';
 
 export default function Sidebar() {
@@ -12,16 +17,42 @@ export default function Sidebar() {
     hasUnsavedChanges,
     unsavedChangesCallback,
     clearUnsavedChanges,
-    activeQuickFilter,
-    setActiveQuickFilter,
-    libraryFilterRead,
-    libraryFilterFavorite,
-    setLibraryFilterRead,
-    setLibraryFilterFavorite,
+    libraryQuery,
+    setLibraryQuery,
   } = useSettingsStore();
+  const { collections, loadCollections } = useCollectionsStore();
+  const { views, loadViews } = useSavedViewsStore();
 
   const { t } = useTranslation();
 
+  useEffect(() => {
+    loadCollections();
+    loadViews();
+  }, [loadCollections, loadViews]);
+
+  // Number of articles in each view, counted by the main process (again on each page change: articles may have changed)
+  const [viewCounts, setViewCounts] = useState<Map<number, number>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadCounts = async () => {
+      const counts = new Map<number, number>();
+      for (const view of views) {
+        try {
+          const result = await articlesApi.query({ query: parseQuery(view.query), limit: 0 });
+          counts.set(view.id, result.total);
+        } catch (error) {
+          console.error('Error counting saved view:', error);
+        }
+      }
+      if (!cancelled) setViewCounts(counts);
+    };
+    loadCounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [views, location.pathname]);
+
   // Modal state for unsaved changes warning
   const [showUnsavedModal, setShowUnsavedModal] = useState(false);
   const [pendingPath, setPendingPath] = useState<string | null>(null);
@@ -66,6 +97,11 @@ export default function Sidebar() {
     { path: '/', label: t('nav.dashboard'), icon: '🏠' },
     { path: '/library', label: t('nav.library'), icon: '📚' },
     { path: '/add', label: t('nav.addArticle'), icon: '➕' },
+    { path: '/collections', label: t('nav.collections'), icon: '📂' },
+    { path: '/graph', label: t('nav.graph'), icon: '🕸️' },
+    { path: '/duplicates', label: t('nav.duplicates'), icon: '🧬' },
+    { path: '/trash', label: t('nav.trash'), icon: '🗑️' },
+    { path: '/taxonomy', label: t('nav.taxonomy'), icon: '🏷️' },
   ];
 
   // Quick filter handler - modifies Library filters directly and navigates
@@ -78,13 +114,15 @@ export default function Sidebar() {
 
     if (filter === 'favorites') {
       // Toggle: if already 'favorites', reset to 'all'; otherwise set 'favorites'
-      setLibraryFilterFavorite(libraryFilterFavorite === 'favorites' ? 'all' : 'favorites');
+      setLibraryQuery({ favorite: libraryQuery.favorite === 'favorites' ? 'all' : 'favorites' });
     } else if (filter === 'read') {
       // Toggle: if already 'read', reset to 'all'; otherwise set 'read'
-      setLibraryFilterRead(libraryFilterRead === 'read' ? 'all' : 'read');
+      setLibraryQuery({ read: libraryQuery.read === 'read' ? 'all' : 'read' });
     } else if (filter === 'recent') {
-      // Recent is a sort, not a filter - toggle activeQuickFilter
-      setActiveQuickFilter(activeQuickFilter === 'recent' ? 'none' : 'recent');
+      // Recent is a sort, not a filter - last modified first
+      setLibraryQuery(isFilterActive('recent')
+        ? { sortColumn: null, sortDirection: 'asc' }
+        : { sortColumn: 'updatedAt', sortDirection: 'desc' });
     }
 
     navigate('/library');
@@ -96,11 +134,38 @@ export default function Sidebar() {
     { filter: 'recent' as const, label: t('nav.recent'), icon: '🕐', color: 'blue' },
   ];
 
+  // Collection entries - toggle the Library filter like the quick filters
+  const handleCollectionFilter = (collectionId: number) => {
+    if (hasUnsavedChanges) {
+      setPendingPath('/library');
+      setShowUnsavedModal(true);
+      return;
+    }
+
+    setLibraryQuery({ collectionId: libraryQuery.collectionId === collectionId ? null : collectionId });
+    navigate('/library');
+  };
+
+  // Saved views - the Library reads the query from the URL
+  const handleSavedView = (query: string) => {
+    const path = `/library?${query}`;
+    if (hasUnsavedChanges) {
+      setPendingPath(path);
+      setShowUnsavedModal(true);
+      return;
+    }
+    navigate(path);
+  };
+
+  // The view whose query is the one shown in the Library
+  const currentQuery = serializeQuery(libraryQuery);
+  const isViewActive = (query: string) => location.pathname === '/library' && query === currentQuery;
+
   // Check if a quick filter is currently active (for visual feedback)
   const isFilterActive = (filter: 'favorites' | 'read' | 'recent') => {
-    if (filter === 'favorites') return libraryFilterFavorite === 'favorites';
-    if (filter === 'read') return libraryFilterRead === 'read';
-    if (filter === 'recent') return activeQuickFilter === 'recent';
+    if (filter === 'favorites') return libraryQuery.favorite === 'favorites';
+    if (filter === 'read') return libraryQuery.read === 'read';
+    if (filter === 'recent') return libraryQuery.sortColumn === 'updatedAt' && libraryQuery.sortDirection === 'desc';
     return false;
   };
 
@@ -169,6 +234,65 @@ export default function Sidebar() {
                   </button>
                 ))}
               </div>
+
+              {/* Saved views (counts are live, PDF text aside) */}
+              {views.length > 0 && (
+                <>
+                  <div className="mt-6 mb-2 px-3 text-sm font-semibold text-gray-500">
+                    {t('nav.savedViews')}
+                  </div>
+                  <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {views.map((view) => (
+                      <button
+                        key={view.id}
+                        onClick={() => handleSavedView(view.query)}
+                        title={decodeURIComponent(view.query.replace(/\+/g, ' '))}
+                        className={cn(
+                          'w-full flex items-center gap-2 px-3 py-1.5 rounded-lg transition-colors text-left text-sm',
+                          isViewActive(view.query)
+                            ? 'bg-indigo-500 text-white'
+                            : 'hover:bg-hover text-text'
+                        )}
+                      >
+                        <span>🔖</span>
+                        <span className="flex-1 truncate">{view.name}</span>
+                        {viewCounts.has(view.id) && (
+                          <span className="text-xs opacity-70">{viewCounts.get(view.id)}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {/* Collections */}
+              {collections.length > 0 && (
+                <>
+                  <div className="mt-6 mb-2 px-3 text-sm font-semibold text-gray-500">
+                    {t('nav.collections')}
+                  </div>
+                  <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {flattenCollectionTree(collections).map(({ collection, depth }) => (
+                      <button
+                        key={collection.id}
+                        onClick={() => handleCollectionFilter(collection.id)}
+                        title={collection.description || collection.name}
+                        style={{ paddingLeft: `${0.75 + depth * 1}rem` }}
+                        className={cn(
+                          'w-full flex items-center gap-2 pr-3 py-1.5 rounded-lg transition-colors text-left text-sm',
+                          libraryQuery.collectionId === collection.id
+                            ? 'bg-purple-500 text-white'
+                            : 'hover:bg-hover text-text'
+                        )}
+                      >
+                        <span>{depth === 0 ? '📁' : '📂'}</span>
+                        <span className="flex-1 truncate">{collection.name}</span>
+                        <span className="text-xs opacity-70">{collection.articleIds.length}</span>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
             </>
           )}
 
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useSettingsStore } from '../../store/settings';
 import { useTranslation } from '../../hooks/useTranslation';
+import { QueryInput } from '../search/QueryInput';
 
 export default function TopBar() {
   const navigate = useNavigate();
@@ -11,8 +12,8 @@ export default function TopBar() {
     theme,
     toggleTheme,
     toggleSidebar,
-    globalSearchText,
-    setGlobalSearchText,
+    libraryQuery,
+    setLibraryQuery,
     hasUnsavedChanges,
     unsavedChangesCallback,
     clearUnsavedChanges,
@@ -22,8 +23,9 @@ export default function TopBar() {
   const [showUnsavedModal, setShowUnsavedModal] = useState(false);
 
   // Handle Enter key to navigate to library with search
+  // The text is the Library query's own search text, so the other filters stay as they are
   const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && globalSearchText.trim()) {
+    if (e.key === 'Enter' && libraryQuery.text.trim()) {
       if (location.pathname !== '/library') {
         if (hasUnsavedChanges) {
           setShowUnsavedModal(true);
@@ -81,15 +83,13 @@ export default function TopBar() {
 
       {/* Center: Search bar */}
       <div className="flex-1 max-w-2xl mx-4">
-        <div className="relative">
-          <input
-            type="text"
-            value={globalSearchText}
-            onChange={(e) => setGlobalSearchText(e.target.value)}
-            onKeyDown={handleSearchKeyDown}
-            placeholder={t('library.searchPlaceholder')}
-            className="w-full px-4 py-2 pl-10 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-          />
+        <QueryInput
+          value={libraryQuery.text}
+          onChange={(text) => setLibraryQuery({ text })}
+          onKeyDown={handleSearchKeyDown}
+          placeholder={t('library.searchPlaceholder')}
+          className="w-full px-4 py-2 pl-10 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+        >
           <svg
             className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
             fill="none"
@@ -103,9 +103,9 @@ export default function TopBar() {
               d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
             />
           </svg>
-          {globalSearchText && (
+          {libraryQuery.text && (
             <button
-              onClick={() => setGlobalSearchText('')}
+              onClick={() => setLibraryQuery({ text: '' })}
               className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -113,7 +113,7 @@ export default function TopBar() {
               </svg>
             </button>
           )}
-        </div>
+        </QueryInput>
       </div>
 
       {/* Right: Theme toggle */}
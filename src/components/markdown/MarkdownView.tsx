@@ -0,0 +1,175 @@
+/**
+ * MarkdownView Component
+ * Renders a research note field written in Markdown: formulas are rendered with KaTeX,
+ * [[0042]] links show the title of the article they point to (looked up once per ID).
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { articlesApi } from '../../services/api';
+import { collectArticleLinks, parseMarkdown } from '../../lib/markdown';
+import { useTranslation } from '../../hooks/useTranslation';
+import { MarkdownBlock, MarkdownInline } from '../../types/markdown';
+
+interface MarkdownViewProps {
+  text: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = ['text-xl font-bold', 'text-lg font-bold', 'text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+
+// Formula rendered with KaTeX - a TeX error shows the source in red instead of failing the note
+function Formula({ tex, display }: { tex: string; display: boolean }) {
+  const html = useMemo(() => katex.renderToString(tex, { displayMode: display, throwOnError: false }), [tex, display]);
+  return <span dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+export function MarkdownView({ text, className = '' }: MarkdownViewProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  // Linked articles by the ID written in the link (null: no such article); links to merged
+  // articles lead to the article they were merged into
+  const [linked, setLinked] = useState<Record<string, { id: string; title: string } | null>>({});
+
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  // Look up the articles of new links once typing pauses
+  useEffect(() => {
+    const ids = [...new Set(collectArticleLinks(blocks).map((link) => link.id))].filter((id) => !(id in linked));
+    if (ids.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const articles = await Promise.all(ids.map((id) => articlesApi.getById(id)));
+        if (cancelled) return;
+        setLinked((current) => {
+          const next = { ...current };
+          ids.forEach((id, index) => {
+            const article = articles[index];
+            next[id] = article ? { id: article.id, title: article.title } : null;
+          });
+          return next;
+        });
+      } catch (error) {
+        console.error('Error loading linked articles:', error);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [blocks]);
+
+  const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <React.Fragment key={index}>{node.text}</React.Fragment>;
+        case 'bold':
+          return <strong key={index}>{renderInline(node.children)}</strong>;
+        case 'italic':
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case 'strike':
+          return <del key={index}>{renderInline(node.children)}</del>;
+        case 'code':
+          return (
+            <code key={index} className="px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-700 font-mono text-sm">
+              {node.text}
+            </code>
+          );
+        case 'link':
+          return (
+            <a
+              key={index}
+              href={node.url}
+              onClick={(e) => {
+                e.preventDefault();
+                articlesApi.openUrl(node.url);
+              }}
+              className="text-primary underline hover:opacity-80"
+            >
+              {renderInline(node.children)}
+            </a>
+          );
+        case 'articleLink': {
+          const article = linked[node.id];
+          if (article === undefined) {
+            return <React.Fragment key={index}>[[{node.id}]]</React.Fragment>;
+          }
+          return article ? (
+            <button
+              key={index}
+              type="button"
+              onClick={() => navigate(`/article/${article.id}`)}
+              title={article.title}
+              className="text-primary hover:underline"
+            >
+              📄 {article.id} – {article.title}
+            </button>
+          ) : (
+            <span key={index} title={t('markdown.missingArticle')} className="text-red-500 line-through">
+              [[{node.id}]]
+            </span>
+          );
+        }
+        case 'math':
+          return <Formula key={index} tex={node.tex} display={node.display} />;
+        case 'break':
+          return <br key={index} />;
+      }
+    });
+
+  const renderBlocks = (items: MarkdownBlock[]): React.ReactNode[] =>
+    items.map((block, index) => {
+      switch (block.type) {
+        case 'heading':
+          return (
+            <div key={index} className={`${HEADING_CLASSES[block.level - 1]} mt-2 mb-1`}>
+              {renderInline(block.children)}
+            </div>
+          );
+        case 'paragraph':
+          return <p key={index} className="mb-2 last:mb-0">{renderInline(block.children)}</p>;
+        case 'list': {
+          const children = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderBlocks(item)}</li>);
+          return block.ordered ? (
+            <ol key={index} start={block.start} className="list-decimal pl-6 mb-2 space-y-0.5">{children}</ol>
+          ) : (
+            <ul key={index} className="list-disc pl-6 mb-2 space-y-0.5">{children}</ul>
+          );
+        }
+        case 'code':
+          return (
+            <pre key={index} className="mb-2 p-3 rounded-lg bg-gray-100 dark:bg-gray-900 overflow-x-auto text-sm font-mono">
+              <code>{block.text}</code>
+            </pre>
+          );
+        case 'quote':
+          return (
+            <blockquote key={index} className="mb-2 pl-3 border-l-4 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300">
+              {renderBlocks(block.children)}
+            </blockquote>
+          );
+        case 'math':
+          return (
+            <div key={index} className="my-2 overflow-x-auto">
+              <Formula tex={block.tex} display />
+            </div>
+          );
+        case 'rule':
+          return <hr key={index} className="my-3 border-gray-300 dark:border-gray-600" />;
+      }
+    });
+
+  return (
+    <div className={`text-gray-900 dark:text-white break-words ${className}`}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+}
+
+export default MarkdownView;
@@ -0,0 +1,746 @@
+/**
+ * PdfReader Component
+ * PDF reader built on pdfjs: pages drawn on canvases under a selectable text layer,
+ * with colored highlights, sticky notes and page bookmarks stored in the Annotation table.
+ * Annotations are listed in a sidebar, clicking one scrolls the reader to it.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask, TextLayer } from 'pdfjs-dist';
+import { annotationsApi } from '../../services/api';
+import { useTranslation } from '../../hooks/useTranslation';
+import { Annotation, AnnotationColor, AnnotationDigestFormat, AnnotationInput, AnnotationRect } from '../../types/annotation';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjs: PdfJs | null = null;
+
+// Load pdfjs lazily, with its worker in-process like the main process does (see electron/pdfText.ts)
+async function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjs) {
+    (globalThis as any).pdfjsWorker = await import('pdfjs-dist/build/pdf.worker.mjs');
+    pdfjs = await import('pdfjs-dist');
+  }
+  return pdfjs;
+}
+
+// Highlight fill and swatch of each color
+export const ANNOTATION_COLORS: Record<AnnotationColor, { fill: string; swatch: string }> = {
+  yellow: { fill: 'rgba(250, 204, 21, 0.4)', swatch: '#facc15' },
+  green: { fill: 'rgba(74, 222, 128, 0.4)', swatch: '#4ade80' },
+  blue: { fill: 'rgba(96, 165, 250, 0.4)', swatch: '#60a5fa' },
+  pink: { fill: 'rgba(244, 114, 182, 0.4)', swatch: '#f472b6' },
+  purple: { fill: 'rgba(192, 132, 252, 0.4)', swatch: '#c084fc' },
+};
+
+const TYPE_ICONS = { highlight: '🖍️', note: '📝', bookmark: '🔖' };
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+
+// Selected text waiting for a color, cut by page
+interface PendingHighlight {
+  parts: Array<{ page: number; rects: AnnotationRect[]; text: string }>;
+  left: number; // Where to show the color menu (viewport coordinates)
+  top: number;
+}
+
+interface PdfReaderProps {
+  articleId: string;
+  data: string; // PDF content, base64
+  onOpenExternal?: () => void;
+}
+
+// Merge the rects of a selection that sit side by side on the same line
+function mergeLineRects(rects: AnnotationRect[]): AnnotationRect[] {
+  const sorted = [...rects].sort((a, b) => a.y - b.y || a.x - b.x);
+  const merged: AnnotationRect[] = [];
+
+  sorted.forEach((rect) => {
+    const last = merged[merged.length - 1];
+    const sameLine = last && Math.abs(last.y - rect.y) < last.height / 2 && rect.x <= last.x + last.width + 0.01;
+    if (sameLine) {
+      const right = Math.max(last.x + last.width, rect.x + rect.width);
+      const bottom = Math.max(last.y + last.height, rect.y + rect.height);
+      last.y = Math.min(last.y, rect.y);
+      last.width = right - last.x;
+      last.height = bottom - last.y;
+    } else {
+      merged.push({ ...rect });
+    }
+  });
+
+  return merged;
+}
+
+interface PdfPageProps {
+  doc: PDFDocumentProxy;
+  pageNumber: number;
+  width: number; // At scale 1
+  height: number;
+  scale: number;
+  annotations: Annotation[];
+  activeId: number | null;
+  containerRef: React.RefObject<HTMLDivElement>;
+  pageRef: (element: HTMLDivElement | null) => void;
+  onSelectAnnotation: (id: number) => void;
+}
+
+// One page: drawn when it comes near the visible part of the reader, released when it goes away
+function PdfPage({
+  doc,
+  pageNumber,
+  width,
+  height,
+  scale,
+  annotations,
+  activeId,
+  containerRef,
+  pageRef,
+  onSelectAnnotation,
+}: PdfPageProps) {
+  const elementRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(
+      (entries) => setVisible(entries[0].isIntersecting),
+      { root: containerRef.current, rootMargin: '100% 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    const render = async () => {
+      const pdfjsLib = await loadPdfJs();
+      const page = await doc.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      const textContainer = textRef.current;
+      if (cancelled || !canvas || !textContainer) return;
+
+      // Sharp on high density screens
+      const viewport = page.getViewport({ scale });
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      renderTask = page.render({
+        canvas,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      await renderTask.promise;
+      if (cancelled) return;
+
+      textContainer.replaceChildren();
+      textLayer = new pdfjsLib.TextLayer({ textContentSource: page.streamTextContent(), container: textContainer, viewport });
+      await textLayer.render();
+    };
+
+    render().catch((error) => {
+      if (error?.name !== 'RenderingCancelledException') {
+        console.error(`Error rendering PDF page ${pageNumber}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+      // Free the page bitmap
+      if (canvasRef.current) {
+        canvasRef.current.width = 0;
+        canvasRef.current.height = 0;
+      }
+      textRef.current?.replaceChildren();
+    };
+  }, [visible, scale, doc]);
+
+  return (
+    <div
+      ref={(element) => {
+        elementRef.current = element;
+        pageRef(element);
+      }}
+      data-page={pageNumber}
+      className="relative mx-auto mb-4 bg-white shadow"
+      style={{
+        width: width * scale,
+        height: height * scale,
+        ['--scale-factor' as any]: scale,
+        ['--total-scale-factor' as any]: scale,
+      }}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+      {/* Highlights, under the text so that it stays selectable */}
+      {annotations
+        .filter((annotation) => annotation.type === 'highlight')
+        .flatMap((annotation) =>
+          annotation.rects.map((rect, i) => (
+            <div
+              key={`${annotation.id}-${i}`}
+              className={`absolute pointer-events-none ${annotation.id === activeId ? 'ring-2 ring-blue-500' : ''}`}
+              style={{
+                left: `${rect.x * 100}%`,
+                top: `${rect.y * 100}%`,
+                width: `${rect.width * 100}%`,
+                height: `${rect.height * 100}%`,
+                // Imported highlights are already drawn by the PDF itself
+                backgroundColor: annotation.source === 'pdf' ? 'transparent' : ANNOTATION_COLORS[annotation.color].fill,
+                mixBlendMode: 'multiply',
+              }}
+            />
+          ))
+        )}
+
+      <div ref={textRef} className="textLayer" />
+
+      {/* Sticky notes, over the text */}
+      {annotations
+        .filter((annotation) => annotation.type === 'note' && annotation.rects.length > 0)
+        .map((annotation) => (
+          <button
+            key={annotation.id}
+            onClick={() => onSelectAnnotation(annotation.id)}
+            title={annotation.comment || ''}
+            className={`absolute z-10 -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded shadow text-sm flex items-center justify-center ${
+              annotation.id === activeId ? 'ring-2 ring-blue-500' : ''
+            }`}
+            style={{
+              left: `${annotation.rects[0].x * 100}%`,
+              top: `${annotation.rects[0].y * 100}%`,
+              backgroundColor: ANNOTATION_COLORS[annotation.color].swatch,
+            }}
+          >
+            📝
+          </button>
+        ))}
+
+      {annotations.some((annotation) => annotation.type === 'bookmark') && (
+        <div className="absolute top-0 right-4 z-10 text-2xl pointer-events-none">🔖</div>
+      )}
+    </div>
+  );
+}
+
+export function PdfReader({ articleId, data, onOpenExternal }: PdfReaderProps) {
+  const { t } = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageElements = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<Array<{ width: number; height: number }>>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [scale, setScale] = useState(1.25);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [color, setColor] = useState<AnnotationColor>('yellow');
+  const [noteTool, setNoteTool] = useState(false);
+  const [showSidebar, setShowSidebar] = useState(true);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [pending, setPending] = useState<PendingHighlight | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exportMenu, setExportMenu] = useState(false);
+  const [exported, setExported] = useState<string | null>(null);
+
+  // Open the document and measure its pages
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    const open = async () => {
+      try {
+        const pdfjsLib = await loadPdfJs();
+        const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+        loaded = await pdfjsLib.getDocument({ data: bytes, isEvalSupported: false }).promise;
+
+        const sizes: Array<{ width: number; height: number }> = [];
+        for (let pageNumber = 1; pageNumber <= loaded.numPages; pageNumber++) {
+          const viewport = (await loaded.getPage(pageNumber)).getViewport({ scale: 1 });
+          sizes.push({ width: viewport.width, height: viewport.height });
+        }
+        if (cancelled) return;
+        setPageSizes(sizes);
+        setDoc(loaded);
+      } catch (err) {
+        console.error('Error opening PDF:', err);
+        if (!cancelled) setLoadFailed(true);
+      }
+    };
+
+    open();
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [data]);
+
+  useEffect(() => {
+    annotationsApi.list(articleId).then(setAnnotations).catch((err) => console.error('Error loading annotations:', err));
+  }, [articleId]);
+
+  const showError = (message: string) => {
+    setError(message);
+    setTimeout(() => setError(null), 5000);
+  };
+
+  // Import the annotations made in other readers again, replacing the ones imported before
+  const rescan = async () => {
+    setExportMenu(false);
+    try {
+      await annotationsApi.rescan(articleId);
+      setAnnotations(await annotationsApi.list(articleId));
+    } catch (err: any) {
+      showError(t('reader.rescanFailed') + ': ' + err.message);
+    }
+  };
+
+  // Annotated copy of the PDF, or digest of the annotations (the save dialog picks the file)
+  const runExport = async (format: 'pdf' | AnnotationDigestFormat) => {
+    setExportMenu(false);
+    try {
+      const savedPath = format === 'pdf'
+        ? await annotationsApi.exportPdf(articleId)
+        : await annotationsApi.exportDigest(articleId, format);
+      if (!savedPath) return;
+      setExported(savedPath);
+      setTimeout(() => setExported(null), 5000);
+    } catch (err: any) {
+      showError(t('reader.exportFailed') + ': ' + err.message);
+    }
+  };
+
+  // Page shown at the top third of the reader
+  const handleScroll = () => {
+    setPending(null);
+    const container = containerRef.current;
+    if (!container) return;
+    const mark = container.scrollTop + container.clientHeight / 3;
+    let page = 1;
+    pageElements.current.forEach((element, pageNumber) => {
+      if (element.offsetTop <= mark && pageNumber > page) page = pageNumber;
+    });
+    setCurrentPage(page);
+  };
+
+  const scrollToPage = (page: number, y = 0) => {
+    const container = containerRef.current;
+    const element = pageElements.current.get(page);
+    if (!container || !element) return;
+    container.scrollTo({ top: element.offsetTop + y * element.offsetHeight - 40, behavior: 'smooth' });
+  };
+
+  const jumpTo = (annotation: Annotation) => {
+    setActiveId(annotation.id);
+    scrollToPage(annotation.page, annotation.rects[0]?.y ?? 0);
+  };
+
+  const createAnnotation = async (input: AnnotationInput): Promise<Annotation | null> => {
+    try {
+      const created = await annotationsApi.create(articleId, input);
+      setAnnotations((prev) =>
+        [...prev, created].sort((a, b) => a.page - b.page || (a.rects[0]?.y ?? 0) - (b.rects[0]?.y ?? 0))
+      );
+      return created;
+    } catch (err: any) {
+      showError(t('reader.saveFailed') + ': ' + err.message);
+      return null;
+    }
+  };
+
+  const updateAnnotation = async (id: number, changes: { color?: AnnotationColor; comment?: string | null }) => {
+    try {
+      const updated = await annotationsApi.update(id, changes);
+      setAnnotations((prev) => prev.map((annotation) => (annotation.id === id ? updated : annotation)));
+    } catch (err: any) {
+      showError(t('reader.saveFailed') + ': ' + err.message);
+    }
+  };
+
+  const deleteAnnotation = async (id: number) => {
+    try {
+      await annotationsApi.delete(id);
+      setAnnotations((prev) => prev.filter((annotation) => annotation.id !== id));
+      if (activeId === id) setActiveId(null);
+    } catch (err: any) {
+      showError(t('reader.saveFailed') + ': ' + err.message);
+    }
+  };
+
+  // Page element under a point of the screen
+  const pageAt = (x: number, y: number): [number, DOMRect] | null => {
+    for (const [pageNumber, element] of pageElements.current) {
+      const box = element.getBoundingClientRect();
+      if (x >= box.left && x <= box.right && y >= box.top && y <= box.bottom) return [pageNumber, box];
+    }
+    return null;
+  };
+
+  // Text selected in the pages: offer to highlight it, cut by page
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+      setPending(null);
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    const parts = new Map<number, { rects: AnnotationRect[]; range: Range }>();
+    Array.from(range.getClientRects()).forEach((rect) => {
+      if (rect.width < 1 || rect.height < 1) return;
+      const hit = pageAt(rect.left + rect.width / 2, rect.top + rect.height / 2);
+      if (!hit) return;
+      const [pageNumber, box] = hit;
+      if (!parts.has(pageNumber)) parts.set(pageNumber, { rects: [], range: range.cloneRange() });
+      parts.get(pageNumber)!.rects.push({
+        x: (rect.left - box.left) / box.width,
+        y: (rect.top - box.top) / box.height,
+        width: rect.width / box.width,
+        height: rect.height / box.height,
+      });
+    });
+    if (parts.size === 0) return;
+
+    // Text of each page's part of the selection
+    const pages = Array.from(parts.keys()).sort((a, b) => a - b);
+    const pendingParts = pages.map((pageNumber) => {
+      const part = parts.get(pageNumber)!;
+      const textLayer = pageElements.current.get(pageNumber)?.querySelector('.textLayer');
+      if (textLayer && pageNumber !== pages[0]) part.range.setStartBefore(textLayer.firstChild || textLayer);
+      if (textLayer && pageNumber !== pages[pages.length - 1]) part.range.setEndAfter(textLayer.lastChild || textLayer);
+      return {
+        page: pageNumber,
+        rects: mergeLineRects(part.rects),
+        text: part.range.toString().replace(/\s+/g, ' ').trim(),
+      };
+    });
+
+    setPending({ parts: pendingParts, left: e.clientX, top: e.clientY + 12 });
+  };
+
+  const highlightSelection = async (highlightColor: AnnotationColor, withComment: boolean) => {
+    if (!pending) return;
+    setColor(highlightColor);
+    let first: Annotation | null = null;
+    for (const part of pending.parts) {
+      const created = await createAnnotation({ type: 'highlight', color: highlightColor, ...part });
+      first = first || created;
+    }
+    setPending(null);
+    window.getSelection()?.removeAllRanges();
+    if (first) {
+      setActiveId(first.id);
+      if (withComment) setShowSidebar(true);
+    }
+  };
+
+  // Note tool: pin a note where the page is clicked, or select the highlight clicked
+  const handlePageClick = async (e: React.MouseEvent) => {
+    const hit = pageAt(e.clientX, e.clientY);
+    if (!hit) return;
+    const [pageNumber, box] = hit;
+    const x = (e.clientX - box.left) / box.width;
+    const y = (e.clientY - box.top) / box.height;
+
+    if (noteTool) {
+      setNoteTool(false);
+      const created = await createAnnotation({ type: 'note', page: pageNumber, rects: [{ x, y, width: 0, height: 0 }], color });
+      if (created) {
+        setActiveId(created.id);
+        setShowSidebar(true);
+      }
+      return;
+    }
+
+    const clicked = annotations.find((annotation) =>
+      annotation.page === pageNumber && annotation.type === 'highlight' &&
+      annotation.rects.some((rect) => x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height)
+    );
+    if (clicked && window.getSelection()?.isCollapsed !== false) setActiveId(clicked.id);
+  };
+
+  const pageBookmark = annotations.find((annotation) => annotation.type === 'bookmark' && annotation.page === currentPage);
+  const toggleBookmark = async () => {
+    if (pageBookmark) {
+      await deleteAnnotation(pageBookmark.id);
+    } else {
+      await createAnnotation({ type: 'bookmark', page: currentPage, rects: [], color });
+    }
+  };
+
+  if (loadFailed) {
+    return (
+      <p className="text-gray-600 dark:text-gray-400 text-center p-4">
+        {t('article.unableToDisplayPdf')}{' '}
+        {onOpenExternal && (
+          <button onClick={onOpenExternal} className="text-blue-500 underline">{t('article.openInExternalViewer')}</button>
+        )}
+      </p>
+    );
+  }
+
+  if (!doc) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-600 dark:text-gray-400">{t('article.loadingPdf')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Toolbar */}
+      <div className="h-10 px-2 flex items-center gap-1 bg-gray-100 dark:bg-gray-800 border-b border-gray-300 dark:border-gray-700 text-sm shrink-0">
+        <button
+          onClick={() => setScale((prev) => Math.max(MIN_SCALE, prev - 0.25))}
+          title={t('reader.zoomOut')}
+          className="px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          −
+        </button>
+        <span className="w-12 text-center text-gray-600 dark:text-gray-300">{Math.round(scale * 100)}%</span>
+        <button
+          onClick={() => setScale((prev) => Math.min(MAX_SCALE, prev + 0.25))}
+          title={t('reader.zoomIn')}
+          className="px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          +
+        </button>
+        <span className="mx-2 text-gray-600 dark:text-gray-300">{currentPage} / {doc.numPages}</span>
+
+        <div className="flex-1" />
+
+        {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setColor(option)}
+            className={`w-5 h-5 rounded-full border-2 ${option === color ? 'border-gray-800 dark:border-white' : 'border-transparent'}`}
+            style={{ backgroundColor: ANNOTATION_COLORS[option].swatch }}
+          />
+        ))}
+        <button
+          onClick={() => setNoteTool(!noteTool)}
+          title={t('reader.noteTool')}
+          className={`ml-2 px-2 py-1 rounded ${noteTool ? 'bg-blue-600 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+        >
+          📝
+        </button>
+        <button
+          onClick={toggleBookmark}
+          title={pageBookmark ? t('reader.removeBookmark') : t('reader.bookmarkPage')}
+          className={`px-2 py-1 rounded ${pageBookmark ? 'bg-blue-600 text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+        >
+          🔖
+        </button>
+        <button
+          onClick={() => setShowSidebar(!showSidebar)}
+          title={t('reader.toggleAnnotations')}
+          className={`px-2 py-1 rounded ${showSidebar ? 'bg-gray-300 dark:bg-gray-600' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+        >
+          ☰ {annotations.length}
+        </button>
+      </div>
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Pages */}
+        <div
+          ref={containerRef}
+          onScroll={handleScroll}
+          onMouseUp={handleMouseUp}
+          onClick={handlePageClick}
+          className={`flex-1 overflow-auto p-4 ${noteTool ? 'cursor-crosshair' : ''}`}
+        >
+          {pageSizes.map((size, index) => (
+            <PdfPage
+              key={index + 1}
+              doc={doc}
+              pageNumber={index + 1}
+              width={size.width}
+              height={size.height}
+              scale={scale}
+              annotations={annotations.filter((annotation) => annotation.page === index + 1)}
+              activeId={activeId}
+              containerRef={containerRef}
+              pageRef={(element) => {
+                if (element) {
+                  pageElements.current.set(index + 1, element);
+                } else {
+                  pageElements.current.delete(index + 1);
+                }
+              }}
+              onSelectAnnotation={(id) => {
+                setActiveId(id);
+                setShowSidebar(true);
+              }}
+            />
+          ))}
+        </div>
+
+        {/* Annotations */}
+        {showSidebar && (
+          <div className="w-64 shrink-0 overflow-y-auto border-l border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm">
+            <div className="relative px-3 py-2 flex items-center justify-between font-medium border-b border-gray-200 dark:border-gray-700">
+              <span>{t('reader.annotations')} ({annotations.length})</span>
+              <button
+                onClick={() => setExportMenu(!exportMenu)}
+                title={t('reader.export')}
+                className="px-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+              >
+                📤
+              </button>
+              {exportMenu && (
+                <div className="absolute right-2 top-full mt-1 z-10 w-56 py-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded shadow-lg font-normal">
+                  {annotations.length > 0 && (
+                    <>
+                      <button onClick={() => runExport('pdf')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600">
+                        📄 {t('reader.exportPdf')}
+                      </button>
+                      <button onClick={() => runExport('markdown')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600">
+                        📝 {t('reader.exportMarkdown')}
+                      </button>
+                      <button onClick={() => runExport('docx')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600">
+                        📘 {t('reader.exportDocx')}
+                      </button>
+                    </>
+                  )}
+                  <button onClick={rescan} title={t('reader.rescanHint')} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600">
+                    🔄 {t('reader.rescan')}
+                  </button>
+                </div>
+              )}
+            </div>
+            {error && <div className="px-3 py-2 text-red-600 dark:text-red-400">⚠️ {error}</div>}
+            {exported && (
+              <div className="px-3 py-2 text-green-700 dark:text-green-400 break-all">✅ {t('reader.exported', { path: exported })}</div>
+            )}
+            {annotations.length === 0 && (
+              <p className="px-3 py-4 text-gray-500 dark:text-gray-400">{t('reader.noAnnotations')}</p>
+            )}
+            {annotations.map((annotation, index) => (
+              <React.Fragment key={annotation.id}>
+                {annotations[index - 1]?.page !== annotation.page && (
+                  <div className="px-3 pt-3 pb-1 text-xs uppercase text-gray-500 dark:text-gray-400">
+                    {t('reader.page', { page: annotation.page })}
+                  </div>
+                )}
+                <div
+                  onClick={() => jumpTo(annotation)}
+                  className={`mx-2 mb-2 p-2 rounded border cursor-pointer ${
+                    annotation.id === activeId
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    <span>{TYPE_ICONS[annotation.type]}</span>
+                    <div className="flex-1 min-w-0">
+                      {annotation.source === 'pdf' && (
+                        <span title={t('reader.importedHint')} className="float-right ml-1 px-1 text-xs rounded bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300">
+                          PDF
+                        </span>
+                      )}
+                      {annotation.text && (
+                        <p
+                          className="line-clamp-3 italic px-1 rounded"
+                          style={{ backgroundColor: ANNOTATION_COLORS[annotation.color].fill }}
+                        >
+                          {annotation.text}
+                        </p>
+                      )}
+                      {annotation.type === 'bookmark' && !annotation.comment && (
+                        <p className="text-gray-500 dark:text-gray-400">{t('reader.page', { page: annotation.page })}</p>
+                      )}
+                      {annotation.id !== activeId && annotation.comment && (
+                        <p className="mt-1 whitespace-pre-wrap">{annotation.comment}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteAnnotation(annotation.id);
+                      }}
+                      title={t('reader.deleteAnnotation')}
+                      className="text-gray-400 hover:text-red-500"
+                    >
+                      ✕
+                    </button>
+                  </div>
+
+                  {annotation.id === activeId && (
+                    <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                      <textarea
+                        key={annotation.id}
+                        defaultValue={annotation.comment || ''}
+                        autoFocus={annotation.type === 'note'}
+                        onBlur={(e) => {
+                          if (e.target.value !== (annotation.comment || '')) {
+                            updateAnnotation(annotation.id, { comment: e.target.value });
+                          }
+                        }}
+                        placeholder={t('reader.commentPlaceholder')}
+                        rows={3}
+                        className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded text-sm"
+                      />
+                      {annotation.type !== 'bookmark' && (
+                        <div className="flex gap-1 mt-1">
+                          {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map((option) => (
+                            <button
+                              key={option}
+                              onClick={() => updateAnnotation(annotation.id, { color: option })}
+                              className={`w-4 h-4 rounded-full border-2 ${
+                                option === annotation.color ? 'border-gray-800 dark:border-white' : 'border-transparent'
+                              }`}
+                              style={{ backgroundColor: ANNOTATION_COLORS[option].swatch }}
+                            />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Colors offered for the selected text */}
+      {pending && (
+        <div
+          className="fixed z-50 flex items-center gap-1 p-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg"
+          style={{ left: pending.left, top: pending.top }}
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <span className="px-1 text-xs text-gray-600 dark:text-gray-300">🖍️ {t('reader.highlight')}</span>
+          {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => highlightSelection(option, false)}
+              className="w-5 h-5 rounded-full"
+              style={{ backgroundColor: ANNOTATION_COLORS[option].swatch }}
+            />
+          ))}
+          <button
+            onClick={() => highlightSelection(color, true)}
+            title={t('reader.highlightWithComment')}
+            className="px-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+          >
+            💬
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * ReferencesPanel Component
+ * Reference list of the article's PDF, read when the panel is first opened.
+ * Each entry shows whether it is in the library, and can be added as a new article
+ * (AddArticle is opened with the fields guessed from the entry).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { articlesApi, relationsApi } from '../../services/api';
+import { useTranslation } from '../../hooks/useTranslation';
+import { ArticleReferences, ReferenceEntry } from '../../types/reference';
+
+interface ReferencesPanelProps {
+  articleId: string;
+}
+
+type ReferenceFilter = 'all' | 'matched' | 'missing';
+
+// Authors as in a citation: the first three, then "et al."
+function shortAuthors(authors: string[]): string {
+  return authors.length > 3 ? `${authors.slice(0, 3).join(', ')} et al.` : authors.join(', ');
+}
+
+export function ReferencesPanel({ articleId }: ReferencesPanelProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [references, setReferences] = useState<ArticleReferences | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ReferenceFilter>('all');
+
+  useEffect(() => {
+    setReferences(null);
+    setError(null);
+  }, [articleId]);
+
+  const loadReferences = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReferences(await relationsApi.references(articleId));
+    } catch (err) {
+      setError(t('references.loadFailed') + ': ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The PDF is only read when the list is looked at
+  const handleToggle = (e: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (e.currentTarget.open && !references && !loading) loadReferences();
+  };
+
+  // Open AddArticle filled with the entry; the new article will be cited by this one
+  const handleAdd = (entry: ReferenceEntry) => {
+    navigate('/add', { state: { reference: entry, citedBy: articleId } });
+  };
+
+  const entries = references?.entries || [];
+  const matched = entries.filter((entry) => entry.match).length;
+  const shown = entries.filter((entry) =>
+    filter === 'all' || (filter === 'matched' ? entry.match : !entry.match));
+
+  return (
+    <details className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6" onToggle={handleToggle}>
+      <summary className="text-lg font-semibold cursor-pointer">
+        📑 {t('references.title')}
+        {entries.length > 0 && (
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {t('references.summary', { count: entries.length, matched })}
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-4">
+        {loading && <p className="text-sm text-gray-500">{t('references.reading')}</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {references && !references.hasPdfText && (
+          <p className="text-sm text-gray-400 italic">{t('references.noPdfText')}</p>
+        )}
+        {references && references.hasPdfText && entries.length === 0 && (
+          <p className="text-sm text-gray-400 italic">{t('relations.noReferenceList')}</p>
+        )}
+
+        {entries.length > 0 && (
+          <>
+            <div className="flex items-center gap-2 mb-3">
+              {(['all', 'matched', 'missing'] as ReferenceFilter[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFilter(value)}
+                  className={`px-3 py-1 text-xs rounded-full ${filter === value
+                    ? 'bg-primary text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                >
+                  {t(`references.filter.${value}`)}
+                </button>
+              ))}
+              <div className="flex-1" />
+              <button
+                type="button"
+                onClick={loadReferences}
+                disabled={loading}
+                className="text-xs text-gray-500 hover:text-primary disabled:opacity-50"
+              >
+                🔄 {t('references.reload')}
+              </button>
+            </div>
+
+            <ol className="space-y-2">
+              {shown.map((entry) => (
+                <li key={entry.index} className="flex items-start gap-3 text-sm" title={entry.raw}>
+                  <span className="w-8 shrink-0 text-right font-mono text-xs text-gray-500 pt-0.5">{entry.index}.</span>
+                  <div className="flex-1 min-w-0">
+                    {entry.title ? (
+                      <>
+                        <p className="font-medium">{entry.title}</p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">
+                          {shortAuthors(entry.authors)}
+                          {entry.year && ` (${entry.year})`}
+                          {entry.venue && <> · <i>{entry.venue}</i></>}
+                          {entry.doi && (
+                            <>
+                              {' · '}
+                              <button
+                                type="button"
+                                onClick={() => articlesApi.openUrl(`https://doi.org/${entry.doi}`)}
+                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                {entry.doi}
+                              </button>
+                            </>
+                          )}
+                        </p>
+                      </>
+                    ) : (
+                      // Fields could not be told apart: the entry as written
+                      <p className="text-gray-600 dark:text-gray-400">{entry.raw}</p>
+                    )}
+                  </div>
+
+                  {entry.match ? (
+                    <button
+                      type="button"
+                      onClick={() => navigate(`/article/${entry.match?.articleId}`)}
+                      className="shrink-0 px-2 py-0.5 text-xs rounded bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 hover:opacity-80"
+                      title={`${entry.match.title} (${t(`references.matchBy.${entry.match.by}`)})`}
+                    >
+                      ✓ {t('references.inLibrary')} · {entry.match.articleId}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleAdd(entry)}
+                      className="shrink-0 px-2 py-0.5 text-xs rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600"
+                      title={t('references.notInLibrary')}
+                    >
+                      ➕ {t('references.addArticle')}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+export default ReferencesPanel;
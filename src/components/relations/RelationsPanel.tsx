@@ -0,0 +1,306 @@
+/**
+ * RelationsPanel Component
+ * Relations of an article with the rest of the library (cites / cited by, extends,
+ * contradicts, replicates, same dataset), saved as soon as they are added or removed.
+ * Citations can also be found in the reference list of the PDF.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { articlesApi, relationsApi } from '../../services/api';
+import { useTranslation } from '../../hooks/useTranslation';
+import { RELATION_COLORS, RELATION_TYPES, isDirected, relationLabelKey } from '../../lib/relations';
+import { ArticleRelations, RelatedArticle, RelationType } from '../../types/relation';
+
+interface RelationsPanelProps {
+  articleId: string;
+}
+
+type Direction = 'outgoing' | 'incoming';
+
+// Choices of the "add" form: every type seen from this article, then the reverse of the directed ones
+const RELATION_CHOICES: Array<{ type: RelationType; direction: Direction }> = [
+  ...RELATION_TYPES.map((type) => ({ type, direction: 'outgoing' as const })),
+  ...RELATION_TYPES.filter(isDirected).map((type) => ({ type, direction: 'incoming' as const })),
+];
+
+interface ArticleOption {
+  id: string;
+  title: string;
+}
+
+export function RelationsPanel({ articleId }: RelationsPanelProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [relations, setRelations] = useState<ArticleRelations | null>(null);
+  const [choice, setChoice] = useState(0);
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<ArticleOption[]>([]);
+  const [target, setTarget] = useState<ArticleOption | null>(null);
+  const [note, setNote] = useState('');
+  const [detecting, setDetecting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadRelations = async () => {
+    try {
+      setRelations(await relationsApi.list(articleId));
+    } catch (error) {
+      console.error('Error loading relations:', error);
+    }
+  };
+
+  useEffect(() => {
+    setRelations(null);
+    setTarget(null);
+    setQuery('');
+    setMessage(null);
+    loadRelations();
+  }, [articleId]);
+
+  // Articles matching what is typed (ID or words of the title / authors)
+  useEffect(() => {
+    if (!query.trim() || target) {
+      setOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const found: ArticleOption[] = [];
+        if (/^\d+$/.test(query.trim())) {
+          const article = await articlesApi.getById(query.trim().padStart(4, '0'));
+          if (article) found.push({ id: article.id, title: article.title });
+        }
+        const results = await articlesApi.search(query, { fields: ['title', 'authors'], limit: 8 });
+        results.forEach((result) => {
+          if (!found.some((option) => option.id === result.articleId)) {
+            found.push({ id: result.articleId, title: result.title.map((segment) => segment.text).join('') });
+          }
+        });
+        if (!cancelled) setOptions(found.filter((option) => option.id !== articleId));
+      } catch (error) {
+        console.error('Error searching articles:', error);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, target, articleId]);
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 4000);
+  };
+
+  const handleAdd = async () => {
+    if (!target) return;
+    const { type, direction } = RELATION_CHOICES[choice];
+    try {
+      if (direction === 'outgoing') {
+        await relationsApi.add(articleId, target.id, type, note);
+      } else {
+        await relationsApi.add(target.id, articleId, type, note);
+      }
+      setTarget(null);
+      setQuery('');
+      setNote('');
+      await loadRelations();
+    } catch (error) {
+      showMessage('error', (error as Error).message || t('relations.addFailed'));
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await relationsApi.delete(id);
+      await loadRelations();
+    } catch (error) {
+      showMessage('error', (error as Error).message || t('relations.deleteFailed'));
+    }
+  };
+
+  const handleDetect = async () => {
+    setDetecting(true);
+    try {
+      const report = await relationsApi.detect(articleId);
+      await loadRelations();
+      showMessage('success', report.articles === 0
+        ? t('relations.noReferenceList')
+        : t('relations.detected', { count: report.added }));
+    } catch (error) {
+      showMessage('error', (error as Error).message || t('relations.detectFailed'));
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  // Groups in a fixed order: Cites, Cited by, Extends, Extended by...
+  const groups = RELATION_TYPES.flatMap((type) => (['outgoing', 'incoming'] as Direction[]).map((direction) => ({
+    key: relationLabelKey(type, direction),
+    type,
+    items: (relations?.[direction] || []).filter((related) => related.relation.type === type),
+  })))
+    // same-dataset reads the same from both ends: one group
+    .reduce<Array<{ key: string; type: RelationType; items: RelatedArticle[] }>>((merged, group) => {
+      const existing = merged.find((entry) => entry.key === group.key);
+      if (existing) existing.items.push(...group.items);
+      else merged.push(group);
+      return merged;
+    }, [])
+    .filter((group) => group.items.length > 0);
+
+  const total = relations ? relations.outgoing.length + relations.incoming.length : 0;
+
+  return (
+    <details className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6" open={total > 0}>
+      <summary className="text-lg font-semibold cursor-pointer">
+        🔗 {t('relations.title')} {total > 0 && <span className="text-sm text-gray-500">({total})</span>}
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        {/* Relations, grouped by type and direction */}
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">{t('relations.none')}</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {groups.map((group) => (
+              <div key={group.key}>
+                <h4 className="text-xs font-semibold uppercase tracking-wide mb-1" style={{ color: RELATION_COLORS[group.type] }}>
+                  {t(group.key)} ({group.items.length})
+                </h4>
+                <ul className="space-y-1">
+                  {group.items.map((related) => (
+                    <li key={related.relation.id} className="group flex items-start gap-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/article/${related.id}`)}
+                        className="flex-1 text-left hover:text-primary"
+                      >
+                        <span className="font-mono text-xs text-gray-500 mr-1">{related.id}</span>
+                        {related.title}
+                        <span className="text-gray-500"> ({related.year})</span>
+                        {related.relation.note && (
+                          <span className="block text-xs italic text-gray-500">{related.relation.note}</span>
+                        )}
+                      </button>
+                      {related.relation.source === 'auto' && (
+                        <span
+                          className="px-1.5 py-0.5 text-[10px] rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                          title={t('relations.autoHint')}
+                        >
+                          PDF
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(related.relation.id)}
+                        className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                        title={t('common.delete')}
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Add a relation */}
+        <div className="flex flex-wrap items-start gap-2 pt-3 border-t border-gray-200 dark:border-gray-700">
+          <select
+            value={choice}
+            onChange={(e) => setChoice(Number(e.target.value))}
+            className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-lg"
+          >
+            {RELATION_CHOICES.map((option, index) => (
+              <option key={`${option.direction}-${option.type}`} value={index}>
+                {t(relationLabelKey(option.type, option.direction))}
+              </option>
+            ))}
+          </select>
+
+          <div className="relative flex-1 min-w-[200px]">
+            {target ? (
+              <div className="flex items-center gap-2 px-2 py-1.5 text-sm border border-primary rounded-lg">
+                <span className="font-mono text-xs text-gray-500">{target.id}</span>
+                <span className="flex-1 truncate">{target.title}</span>
+                <button type="button" onClick={() => setTarget(null)} className="text-gray-400 hover:text-red-500">✕</button>
+              </div>
+            ) : (
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('relations.searchArticle')}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            )}
+            {options.length > 0 && (
+              <ul className="absolute z-20 left-0 right-0 mt-1 max-h-60 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+                {options.map((option) => (
+                  <li key={option.id}>
+                    <button
+                      type="button"
+                      onClick={() => setTarget(option)}
+                      className="w-full text-left px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <span className="font-mono text-xs text-gray-500 mr-2">{option.id}</span>
+                      {option.title}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('relations.note')}
+            className="w-48 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!target}
+            className="px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+          >
+            ➕ {t('relations.add')}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handleDetect}
+            disabled={detecting}
+            className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            🔍 {detecting ? t('relations.detecting') : t('relations.detect')}
+          </button>
+          <button
+            type="button"
+            onClick={() => navigate('/graph')}
+            className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            🕸️ {t('relations.openGraph')}
+          </button>
+          {message && (
+            <span className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-500'}`}>
+              {message.text}
+            </span>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+}
+
+export default RelationsPanel;
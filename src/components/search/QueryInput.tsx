@@ -0,0 +1,183 @@
+/**
+ * QueryInput Component
+ * Search input for the query language (author:"Smith" year:2018..2022 -read ...).
+ * The main process checks the query while typing: syntax errors are highlighted
+ * in the text and fields/values are suggested from the entity tables.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { articlesApi } from '../../services/api';
+import { useTranslation } from '../../hooks/useTranslation';
+import { QueryAnalysis, QuerySuggestion, QuerySyntaxError } from '../../types/search';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  placeholder?: string;
+  className?: string;
+  children?: React.ReactNode; // Icons and buttons placed over the input
+}
+
+// Split the query into plain and erroneous parts (overlapping errors are merged)
+function errorSegments(text: string, errors: QuerySyntaxError[]): Array<{ text: string; error: boolean }> {
+  const ranges = [...errors].sort((a, b) => a.start - b.start);
+  const segments: Array<{ text: string; error: boolean }> = [];
+  let position = 0;
+
+  ranges.forEach((range) => {
+    const start = Math.max(range.start, position);
+    const end = Math.min(range.end, text.length);
+    if (end <= start) return;
+    if (start > position) segments.push({ text: text.slice(position, start), error: false });
+    segments.push({ text: text.slice(start, end), error: true });
+    position = end;
+  });
+
+  if (position < text.length) segments.push({ text: text.slice(position), error: false });
+  return segments;
+}
+
+export function QueryInput({ value, onChange, onKeyDown, placeholder, className = '', children }: QueryInputProps) {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [analysis, setAnalysis] = useState<QueryAnalysis | null>(null);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  // Ask the main process for errors and suggestions while typing
+  useEffect(() => {
+    if (!value.trim()) {
+      setAnalysis(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await articlesApi.analyzeQuery(value, cursor);
+        if (!cancelled) {
+          setAnalysis(result);
+          setHighlighted(-1);
+        }
+      } catch (error) {
+        console.error('Query analysis failed:', error);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, cursor]);
+
+  const errors = analysis?.errors || [];
+  const suggestions = focused ? analysis?.suggestions || [] : [];
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const next = value.slice(0, suggestion.from) + suggestion.insert + value.slice(suggestion.to);
+    const nextCursor = suggestion.from + suggestion.insert.length;
+    onChange(next);
+    setCursor(nextCursor);
+    setAnalysis(null);
+
+    // Put the cursor after the inserted text once React has updated the input
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((prev) => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && highlighted >= 0)) {
+        e.preventDefault();
+        applySuggestion(suggestions[Math.max(highlighted, 0)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setAnalysis(analysis && { ...analysis, suggestions: [] });
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  const updateCursor = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateCursor(e);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        placeholder={placeholder}
+        title={t('search.syntaxHelp')}
+        className={`${className} ${errors.length > 0 ? 'border-red-500 dark:border-red-500' : ''}`}
+        spellCheck={false}
+      />
+      {children}
+
+      {focused && (errors.length > 0 || suggestions.length > 0) && (
+        <div className="absolute z-50 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg text-sm overflow-hidden">
+          {errors.length > 0 && (
+            <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+              <div className="font-mono text-xs mb-2 whitespace-pre-wrap break-all">
+                {errorSegments(value, errors).map((segment, i) =>
+                  segment.error ? (
+                    <span
+                      key={i}
+                      className="bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 underline decoration-wavy decoration-red-500"
+                    >
+                      {segment.text}
+                    </span>
+                  ) : (
+                    <span key={i}>{segment.text}</span>
+                  )
+                )}
+              </div>
+              {errors.map((error, i) => (
+                <div key={i} className="text-red-600 dark:text-red-400">
+                  ⚠️ {error.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={`${suggestion.label}-${index}`}
+              // Keep the focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applySuggestion(suggestion)}
+              className={`w-full px-3 py-2 text-left flex items-center justify-between gap-3 ${
+                index === highlighted ? 'bg-blue-50 dark:bg-blue-900' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              <span className="font-mono truncate">{suggestion.label}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{suggestion.detail}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
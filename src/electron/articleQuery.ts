@@ -0,0 +1,466 @@
+/**
+ * Library listing in SQL (articles:query): filters, sort, pages and facet counts
+ * Evaluates the Library query model (src/types/query.ts) so the renderer only receives
+ * the page it shows. Articles are loaded with their relations in a few batched queries.
+ */
+
+import { getDb } from './database';
+import { buildMatchQuery, RANK_EXPRESSION } from './search';
+import { compileQueryText, escapeLike } from './queryLanguage';
+import { Article } from '../types/article';
+import {
+  ArticleQueryRequest,
+  ArticleQueryResult,
+  FacetCount,
+  LibraryFacetKey,
+  LibraryFacets,
+  LibraryQuery,
+  LibrarySortColumn,
+} from '../types/query';
+import { QuerySyntaxError } from '../types/search';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Keeps the number of SQL variables of a batch well under SQLite's limit
+const BATCH_SIZE = 500;
+
+type RelationKey = 'authors' | 'keywords' | 'subjects' | 'tags' | 'universities' | 'companies';
+
+const RELATION_TABLES: Array<[RelationKey, string]> = [
+  ['authors', 'Author'],
+  ['keywords', 'Keyword'],
+  ['subjects', 'Subject'],
+  ['tags', 'Tag'],
+  ['universities', 'University'],
+  ['companies', 'Company'],
+];
+
+// Text columns searched by a plain (non structured) search, one by one from the "Search In" selector
+const TEXT_COLUMNS = [
+  'title', 'abstract', 'conclusion', 'journal', 'doi', 'researchQuestion', 'methodology',
+  'dataUsed', 'results', 'limitations', 'firstImp', 'notes', 'comment',
+];
+// "All fields" also looks at these
+const EXTRA_COLUMNS = ['id', 'language', 'fileName', 'year', 'rating', 'numPages'];
+
+const SORT_EXPRESSIONS: Record<LibrarySortColumn, string> = {
+  id: 'CAST(a.id AS INTEGER)',
+  title: 'a.title COLLATE NOCASE',
+  year: 'a.year',
+  createdAt: 'a.createdAt',
+  // Never updated = updated when created
+  updatedAt: 'coalesce(a.updatedAt, a.createdAt)',
+};
+
+// Default order: newest first, then by ID
+const DEFAULT_ORDER = 'a.createdAt DESC, CAST(a.id AS INTEGER)';
+
+function entityIdColumn(table: string): string {
+  return `${table.toLowerCase()}Id`;
+}
+
+function toArticle(row: any, relations: Record<RelationKey, Array<{ id: number; name: string }>>): Article {
+  return {
+    id: row.id,
+    title: row.title,
+    abstract: row.abstract,
+    conclusion: row.conclusion || undefined,
+    year: row.year,
+    date: row.date,
+    dateAdded: row.dateAdded,
+    journal: row.journal || undefined,
+    doi: row.doi || undefined,
+    language: row.language || undefined,
+    numPages: row.numPages || undefined,
+    researchQuestion: row.researchQuestion || undefined,
+    methodology: row.methodology || undefined,
+    dataUsed: row.dataUsed || undefined,
+    results: row.results || undefined,
+    limitations: row.limitations || undefined,
+    firstImp: row.firstImp || undefined,
+    notes: row.notes || undefined,
+    comment: row.comment || undefined,
+    rating: row.rating,
+    read: Boolean(row.read),
+    favorite: Boolean(row.favorite),
+    fileName: row.fileName,
+    createdAt: row.createdAt || undefined,
+    updatedAt: row.updatedAt || undefined,
+    ...relations,
+  };
+}
+
+/**
+ * Load articles with their authors, keywords, subjects, tags, universities and companies
+ * Two queries per batch of articles instead of seven per article
+ * @param ids Article IDs; the result keeps their order and skips unknown and trashed IDs
+ */
+export function loadArticles(ids: string[]): Article[] {
+  const db = getDb();
+  const byId = new Map<string, Article>();
+
+  for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+    const batch = ids.slice(start, start + BATCH_SIZE);
+    const placeholders = batch.map(() => '?').join(',');
+
+    const rows = db.prepare(`SELECT * FROM Article WHERE id IN (${placeholders}) AND deletedAt IS NULL`).all(...batch) as any[];
+
+    // Entities in ID order, like the first author used for citation keys
+    const links = db.prepare(
+      RELATION_TABLES.map(([key, table]) => `
+        SELECT j.articleId, '${key}' as relation, e.id, e.name
+        FROM Article${table} j JOIN ${table} e ON e.id = j.${entityIdColumn(table)}
+        WHERE j.articleId IN (${placeholders})
+      `).join(' UNION ALL ') + ' ORDER BY 3'
+    ).all(...RELATION_TABLES.flatMap(() => batch)) as Array<{ articleId: string; relation: RelationKey; id: number; name: string }>;
+
+    const relations = new Map<string, Record<RelationKey, Array<{ id: number; name: string }>>>();
+    rows.forEach((row) => {
+      relations.set(row.id, { authors: [], keywords: [], subjects: [], tags: [], universities: [], companies: [] });
+    });
+    links.forEach((link) => {
+      relations.get(link.articleId)?.[link.relation].push({ id: link.id, name: link.name });
+    });
+
+    rows.forEach((row) => byId.set(row.id, toArticle(row, relations.get(row.id)!)));
+  }
+
+  return ids.map((id) => byId.get(id)).filter((article): article is Article => Boolean(article));
+}
+
+// A condition of the WHERE clause, tagged with the filter it comes from
+interface Condition {
+  facet: string;
+  sql: string;
+  params: unknown[];
+}
+
+// Local calendar day of a timestamp, as YYYY-MM-DD (the format of Article.dateAdded)
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function entityCondition(table: string, nameSql: string): string {
+  return `EXISTS (
+    SELECT 1 FROM Article${table} j JOIN ${table} e ON e.id = j.${entityIdColumn(table)}
+    WHERE j.articleId = a.id AND ${nameSql}
+  )`;
+}
+
+// Plain text search: substring of the selected fields, plus full-text index hits (incl. PDF text)
+function plainTextCondition(text: string, fields: string[]): { condition: Condition; match: string | null } {
+  const all = fields.includes('all');
+  const pattern = `%${escapeLike(text)}%`;
+  const parts: string[] = [];
+  const params: unknown[] = [];
+
+  const columns = all ? [...TEXT_COLUMNS, ...EXTRA_COLUMNS] : TEXT_COLUMNS.filter((column) => fields.includes(column));
+  columns.forEach((column) => {
+    parts.push(`CAST(coalesce(a.${column}, '') AS TEXT) LIKE ? ESCAPE '\\'`);
+    params.push(pattern);
+  });
+
+  RELATION_TABLES.filter(([key]) => all || fields.includes(key)).forEach(([, table]) => {
+    parts.push(entityCondition(table, `e.name LIKE ? ESCAPE '\\'`));
+    params.push(pattern);
+  });
+
+  let match: string | null = null;
+  if (all || fields.includes('pdfText')) {
+    const words = buildMatchQuery(text);
+    if (words) {
+      match = all ? words : `{pdfText} : (${words})`;
+      parts.push(`a.id IN (SELECT articleId FROM ArticleSearch WHERE ArticleSearch MATCH ?)`);
+      params.push(match);
+    }
+  }
+
+  return {
+    condition: { facet: 'text', sql: parts.length > 0 ? `(${parts.join(' OR ')})` : '0', params },
+    match,
+  };
+}
+
+// The collection and its subcollections
+function collectionCondition(collectionId: number): Condition {
+  return {
+    facet: 'collection',
+    sql: `a.id IN (
+      WITH RECURSIVE tree(id) AS (
+        SELECT ? UNION ALL SELECT c.id FROM Collection c JOIN tree ON c.parentId = tree.id
+      )
+      SELECT articleId FROM CollectionArticle WHERE collectionId IN (SELECT id FROM tree)
+    )`,
+    params: [collectionId],
+  };
+}
+
+function rangeConditions(facet: string, column: string, min: number | string | '', max: number | string | ''): Condition[] {
+  const conditions: Condition[] = [];
+  if (min !== '') conditions.push({ facet, sql: `${column} >= ?`, params: [min] });
+  if (max !== '') conditions.push({ facet, sql: `${column} <= ?`, params: [max] });
+  return conditions;
+}
+
+/**
+ * Turn a Library query into WHERE conditions
+ * @returns The conditions, whether the text uses the query language and its errors,
+ *          and the full-text expression to rank results by (plain text search only)
+ */
+function buildConditions(query: LibraryQuery): {
+  conditions: Condition[];
+  structured: boolean;
+  errors: QuerySyntaxError[];
+  match: string | null;
+} {
+  const db = getDb();
+  const conditions: Condition[] = [];
+  let structured = false;
+  let errors: QuerySyntaxError[] = [];
+  let match: string | null = null;
+
+  const text = query.text.trim();
+  if (text) {
+    const compiled = compileQueryText(text);
+    if (compiled.structured) {
+      // A query with errors matches nothing
+      structured = true;
+      errors = compiled.errors;
+      conditions.push({ facet: 'text', sql: compiled.where || '0', params: compiled.params });
+    } else {
+      const plain = plainTextCondition(text, query.searchFields);
+      conditions.push(plain.condition);
+      match = plain.match;
+    }
+  }
+
+  if (query.read !== 'all') {
+    conditions.push({ facet: 'read', sql: `a.read = ?`, params: [query.read === 'read' ? 1 : 0] });
+  }
+  if (query.favorite !== 'all') {
+    conditions.push({ facet: 'favorite', sql: `a.favorite = ?`, params: [query.favorite === 'favorites' ? 1 : 0] });
+  }
+
+  // A collection that no longer exists filters nothing
+  if (query.collectionId !== null && db.prepare(`SELECT 1 FROM Collection WHERE id = ?`).get(query.collectionId)) {
+    conditions.push(collectionCondition(query.collectionId));
+  }
+
+  conditions.push(...rangeConditions('year', 'a.year', query.yearMin, query.yearMax));
+  conditions.push(...rangeConditions(
+    'dateAdded',
+    'a.dateAdded',
+    query.dateAddedMin === '' ? '' : formatDay(query.dateAddedMin),
+    query.dateAddedMax === '' ? '' : formatDay(query.dateAddedMax)
+  ));
+  conditions.push(...rangeConditions('rating', 'coalesce(a.rating, 0)', query.ratingMin, query.ratingMax));
+  // Articles without a page count are never filtered out by the page range
+  rangeConditions('pages', 'a.numPages', query.pagesMin, query.pagesMax).forEach((condition) => {
+    conditions.push({ ...condition, sql: `(coalesce(a.numPages, 0) = 0 OR ${condition.sql})` });
+  });
+
+  // List filters: articles with any of the selected values, or all of them (matchAll)
+  RELATION_TABLES.forEach(([key, table]) => {
+    const selected = query[key];
+    if (selected.length === 0) return;
+    const names = `e.name IN (${selected.map(() => '?').join(',')})`;
+    if (query.matchAll.includes(key)) {
+      conditions.push({
+        facet: key,
+        sql: `(
+          SELECT COUNT(DISTINCT e.name) FROM Article${table} j JOIN ${table} e ON e.id = j.${entityIdColumn(table)}
+          WHERE j.articleId = a.id AND ${names}
+        ) = ?`,
+        params: [...selected, new Set(selected).size],
+      });
+    } else {
+      conditions.push({ facet: key, sql: entityCondition(table, names), params: selected });
+    }
+  });
+  // An article has a single journal: always any of them
+  if (query.journals.length > 0) {
+    conditions.push({
+      facet: 'journals',
+      sql: `coalesce(a.journal, '') IN (${query.journals.map(() => '?').join(',')})`,
+      params: query.journals,
+    });
+  }
+
+  return { conditions, structured, errors, match };
+}
+
+// WHERE clause of some conditions (all of them, or all but one filter's); trashed articles never match
+function whereClause(conditions: Condition[], exceptFacet?: string): { where: string; params: unknown[] } {
+  const used = conditions.filter((condition) => condition.facet !== exceptFacet);
+  return {
+    where: `WHERE ${['a.deletedAt IS NULL', ...used.map((condition) => condition.sql)].join(' AND ')}`,
+    params: used.flatMap((condition) => condition.params),
+  };
+}
+
+// Position of each article in a collection as a sortable key, its subcollections' articles after
+// (tree paths are made of fixed-width numbers, and an article key sorts before the paths below it)
+const COLLECTION_POSITIONS = `
+  SELECT ca.articleId, MIN(tree.path || ' ' || printf('%010d', ca.position) || coalesce(ca.addedAt, '')) as position
+  FROM (
+    WITH RECURSIVE tree(id, path) AS (
+      SELECT ?, ''
+      UNION ALL
+      SELECT c.id, tree.path || '/' || printf('%010d%010d', c.position, c.id) FROM Collection c JOIN tree ON c.parentId = tree.id
+    )
+    SELECT id, path FROM tree
+  ) tree
+  JOIN CollectionArticle ca ON ca.collectionId = tree.id
+  GROUP BY ca.articleId
+`;
+
+/**
+ * Matches in the order shown, as a SELECT of their IDs to page with LIMIT/OFFSET
+ * Without a sort column: search relevance first, then the collection's manual order, then newest first
+ */
+function orderedSelect(query: LibraryQuery, conditions: Condition[], match: string | null): { sql: string; params: unknown[] } {
+  const { where, params } = whereClause(conditions);
+
+  if (query.sortColumn) {
+    const direction = query.sortDirection === 'desc' ? 'DESC' : 'ASC';
+    return {
+      sql: `SELECT a.id FROM Article a ${where} ORDER BY ${SORT_EXPRESSIONS[query.sortColumn]} ${direction}, CAST(a.id AS INTEGER)`,
+      params,
+    };
+  }
+
+  const joins: string[] = [];
+  const joinParams: unknown[] = [];
+  const order: string[] = [];
+  if (match) {
+    joins.push(`LEFT JOIN (
+      SELECT articleId, ${RANK_EXPRESSION} as rank FROM ArticleSearch WHERE ArticleSearch MATCH ?
+    ) s ON s.articleId = a.id`);
+    joinParams.push(match);
+    order.push('s.rank IS NULL', 's.rank');
+  }
+  if (conditions.some((condition) => condition.facet === 'collection')) {
+    joins.push(`LEFT JOIN (${COLLECTION_POSITIONS}) cp ON cp.articleId = a.id`);
+    joinParams.push(query.collectionId);
+    order.push('cp.position');
+  }
+  order.push(DEFAULT_ORDER);
+
+  return {
+    sql: `SELECT a.id FROM Article a ${joins.join(' ')} ${where} ORDER BY ${order.join(', ')}`,
+    params: [...joinParams, ...params],
+  };
+}
+
+/**
+ * Count every facet, each without its own filter so other values can still be picked
+ * Lists matched with AND keep theirs: a value counts the articles left once it is added.
+ */
+function countFacets(conditions: Condition[], matchAll: LibraryFacetKey[]): LibraryFacets {
+  const db = getDb();
+
+  const lists = {} as Record<LibraryFacetKey, FacetCount[]>;
+  RELATION_TABLES.forEach(([key, table]) => {
+    const { where, params } = whereClause(conditions, matchAll.includes(key) ? undefined : key);
+    lists[key] = db.prepare(`
+      SELECT e.name as value, COUNT(m.id) as count
+      FROM ${table} e
+      JOIN Article${table} j ON j.${entityIdColumn(table)} = e.id
+      LEFT JOIN (SELECT a.id FROM Article a ${where}) m ON m.id = j.articleId
+      GROUP BY e.id
+      ORDER BY e.name COLLATE NOCASE
+    `).all(...params) as FacetCount[];
+  });
+
+  const journals = whereClause(conditions, 'journals');
+  lists.journals = db.prepare(`
+    SELECT j.journal as value, COUNT(m.id) as count
+    FROM Article j
+    LEFT JOIN (SELECT a.id FROM Article a ${journals.where}) m ON m.id = j.id
+    WHERE coalesce(j.journal, '') != '' AND j.deletedAt IS NULL
+    GROUP BY j.journal
+    ORDER BY j.journal COLLATE NOCASE
+  `).all(...journals.params) as FacetCount[];
+
+  const read = whereClause(conditions, 'read');
+  const readCounts = db.prepare(`
+    SELECT coalesce(SUM(a.read = 1), 0) as read, coalesce(SUM(a.read = 0), 0) as unread FROM Article a ${read.where}
+  `).get(...read.params) as { read: number; unread: number };
+
+  const favorite = whereClause(conditions, 'favorite');
+  const favoriteCounts = db.prepare(`
+    SELECT coalesce(SUM(a.favorite = 1), 0) as favorites, coalesce(SUM(a.favorite = 0), 0) as nonFavorites
+    FROM Article a ${favorite.where}
+  `).get(...favorite.params) as { favorites: number; nonFavorites: number };
+
+  const rating = whereClause(conditions, 'rating');
+  const ratingRows = db.prepare(`
+    SELECT coalesce(a.rating, 0) as value, COUNT(*) as count FROM Article a ${rating.where} GROUP BY 1
+  `).all(...rating.params) as Array<{ value: number; count: number }>;
+  const ratings = [0, 1, 2, 3, 4, 5].map((value) => ({
+    value: String(value),
+    count: ratingRows.find((row) => row.value === value)?.count || 0,
+  }));
+
+  const all = whereClause(conditions);
+  const recent = db.prepare(`
+    SELECT
+      coalesce(SUM(a.createdAt >= datetime('now', '-1 month')), 0) as added,
+      coalesce(SUM(a.updatedAt >= datetime('now', '-1 month')), 0) as updated
+    FROM Article a ${all.where}
+  `).get(...all.params) as { added: number; updated: number };
+
+  const ranges = db.prepare(`
+    SELECT
+      MIN(year) as yearMin, MAX(year) as yearMax,
+      MIN(dateAdded) as dateAddedMin, MAX(dateAdded) as dateAddedMax,
+      MAX(numPages) as pagesMax
+    FROM Article
+    WHERE deletedAt IS NULL
+  `).get() as LibraryFacets['ranges'];
+
+  return {
+    lists,
+    ...readCounts,
+    ...favoriteCounts,
+    ratings,
+    addedLast30Days: recent.added,
+    updatedLast30Days: recent.updated,
+    ranges,
+  };
+}
+
+/**
+ * One page of the Library
+ * @param request Query, cursor of the page (from the previous page), page size, whether to count facets
+ * and to list the IDs of every match
+ */
+export function queryArticles(request: ArticleQueryRequest): ArticleQueryResult {
+  const db = getDb();
+  const limit = request.limit ?? DEFAULT_PAGE_SIZE;
+  const { conditions, structured, errors, match } = buildConditions(request.query);
+
+  const { where, params } = whereClause(conditions);
+  const { total } = db.prepare(`SELECT COUNT(*) as total FROM Article a ${where}`).get(...params) as { total: number };
+
+  const ordered = orderedSelect(request.query, conditions, match);
+  const offset = Math.max(0, Number(request.cursor) || 0);
+  const pageIds = limit > 0
+    ? (db.prepare(`${ordered.sql} LIMIT ? OFFSET ?`).all(...ordered.params, limit, offset) as Array<{ id: string }>).map((row) => row.id)
+    : [];
+  const end = offset + pageIds.length;
+
+  return {
+    articles: loadArticles(pageIds),
+    total,
+    nextCursor: limit > 0 && end < total ? String(end) : null,
+    articleIds: request.ids
+      ? (db.prepare(ordered.sql).all(...ordered.params) as Array<{ id: string }>).map((row) => row.id)
+      : null,
+    facets: request.facets ? countFacets(conditions, request.query.matchAll) : null,
+    structured,
+    errors,
+  };
+}
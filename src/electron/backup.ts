@@ -0,0 +1,378 @@
+/**
+ * Backups of the library
+ * A backup is a folder of StoragePaths.backups named after its date. It holds a copy of the
+ * database made with SQLite's online backup (consistent while the app keeps using it),
+ * optionally the PDFs and notes (trash included), and a manifest with the checksum of every file.
+ * A restore is only prepared while the app runs: the files are swapped at the next startup,
+ * before the database is opened.
+ */
+
+import Database from 'better-sqlite3';
+import { app } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDb } from './database';
+import { StoragePaths } from './paths';
+import {
+  BackupFile,
+  BackupInfo,
+  BackupManifest,
+  BackupSchedule,
+  BackupSettings,
+  BackupTrigger,
+  BackupVerification,
+} from '../types/backup';
+
+const MANIFEST_FILE = 'manifest.json';
+const DATABASE_FILE = 'articles.db';
+const MANIFEST_VERSION = 1;
+
+// Written by prepareRestore, read (and removed) at the next startup
+const PENDING_RESTORE_FILE = 'restore-pending.json';
+
+// Storage folders copied when a backup includes files (the trash too: a restore brings back trashed articles)
+const FILE_FOLDERS = ['pdfs', 'notes', 'trash'];
+
+// Backups are written under this suffix and renamed once complete
+const PARTIAL_SUFFIX = '.partial';
+
+const DAY = 24 * 60 * 60 * 1000;
+const SCHEDULE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = { schedule: 'daily', includeFiles: false, keep: 10 };
+
+const SCHEDULES: BackupSchedule[] = ['off', 'startup', 'daily'];
+
+// Backup in progress: backups are written one at a time, a second request waits for it
+let running: Promise<BackupInfo> | null = null;
+
+export function getBackupSettings(): BackupSettings {
+  const row = getDb().prepare(`SELECT backupSchedule, backupIncludeFiles, backupKeep FROM UserSettings LIMIT 1`).get() as {
+    backupSchedule: string | null;
+    backupIncludeFiles: number | null;
+    backupKeep: number | null;
+  } | undefined;
+
+  return {
+    schedule: SCHEDULES.includes(row?.backupSchedule as BackupSchedule)
+      ? row?.backupSchedule as BackupSchedule
+      : DEFAULT_BACKUP_SETTINGS.schedule,
+    includeFiles: row?.backupIncludeFiles == null ? DEFAULT_BACKUP_SETTINGS.includeFiles : Boolean(row.backupIncludeFiles),
+    keep: row?.backupKeep ?? DEFAULT_BACKUP_SETTINGS.keep,
+  };
+}
+
+// Folder of a backup; IDs come from the renderer, so nothing but a plain folder name is accepted
+function backupFolder(id: string): string {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid backup: ${id}`);
+  }
+  return path.join(StoragePaths.backups, id);
+}
+
+// Folder name of a new backup: its local date and time, with a number if that one is taken
+function newBackupId(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const base = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_` +
+    `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+
+  let id = base;
+  for (let n = 2; fs.existsSync(path.join(StoragePaths.backups, id)); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+async function describeFile(folder: string, relativePath: string): Promise<BackupFile> {
+  const filePath = path.join(folder, relativePath);
+  const { size } = await fs.promises.stat(filePath);
+  return { path: relativePath.split(path.sep).join('/'), size, sha256: await hashFile(filePath) };
+}
+
+// Copy a storage folder into the backup, file by file, adding each one to the manifest list
+async function copyFolder(source: string, backup: string, relative: string, files: BackupFile[]): Promise<void> {
+  if (!fs.existsSync(source)) return;
+
+  await fs.promises.mkdir(path.join(backup, relative), { recursive: true });
+  for (const entry of await fs.promises.readdir(source, { withFileTypes: true })) {
+    const entryRelative = path.join(relative, entry.name);
+    if (entry.isDirectory()) {
+      await copyFolder(path.join(source, entry.name), backup, entryRelative, files);
+    } else if (entry.isFile()) {
+      await fs.promises.copyFile(path.join(source, entry.name), path.join(backup, entryRelative));
+      files.push(await describeFile(backup, entryRelative));
+    }
+  }
+}
+
+function readManifest(folder: string): BackupManifest {
+  return JSON.parse(fs.readFileSync(path.join(folder, MANIFEST_FILE), 'utf-8'));
+}
+
+function toBackupInfo(id: string, manifest: BackupManifest): BackupInfo {
+  return {
+    id,
+    createdAt: manifest.createdAt,
+    trigger: manifest.trigger,
+    appVersion: manifest.appVersion,
+    articles: manifest.articles,
+    includesFiles: manifest.includesFiles,
+    fileCount: manifest.files.length,
+    size: manifest.files.reduce((total, file) => total + file.size, 0),
+  };
+}
+
+// Problem with a database file, or null if SQLite finds it intact
+function checkDatabaseFile(filePath: string): string | null {
+  let database: Database.Database | null = null;
+  try {
+    database = new Database(filePath, { readonly: true, fileMustExist: true });
+    const result = database.pragma('integrity_check', { simple: true });
+    if (result !== 'ok') return `Database integrity check failed: ${result}`;
+    if (!database.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'Article'`).get()) {
+      return 'The database has no Article table';
+    }
+    return null;
+  } catch (error) {
+    return `Cannot open the database: ${(error as Error).message}`;
+  } finally {
+    database?.close();
+  }
+}
+
+// Backups, newest first (folders without a readable manifest are left out)
+export function listBackups(): BackupInfo[] {
+  if (!fs.existsSync(StoragePaths.backups)) return [];
+
+  return fs.readdirSync(StoragePaths.backups, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.endsWith(PARTIAL_SUFFIX))
+    .map((entry) => {
+      try {
+        return toBackupInfo(entry.name, readManifest(path.join(StoragePaths.backups, entry.name)));
+      } catch (error) {
+        console.error(`Unreadable backup ${entry.name}:`, error);
+        return null;
+      }
+    })
+    .filter((backup): backup is BackupInfo => Boolean(backup))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Check a backup: every file of the manifest is there with the same size and checksum,
+ * and SQLite's integrity check passes on the database
+ */
+export async function verifyBackup(id: string): Promise<BackupVerification> {
+  const folder = backupFolder(id);
+  const errors: string[] = [];
+
+  let manifest: BackupManifest;
+  try {
+    manifest = readManifest(folder);
+  } catch (error) {
+    return { ok: false, errors: [`Unreadable manifest: ${(error as Error).message}`] };
+  }
+
+  for (const file of manifest.files) {
+    const filePath = path.join(folder, ...file.path.split('/'));
+    if (!fs.existsSync(filePath)) {
+      errors.push(`Missing file: ${file.path}`);
+      continue;
+    }
+    const actual = await describeFile(folder, path.join(...file.path.split('/')));
+    if (actual.size !== file.size || actual.sha256 !== file.sha256) {
+      errors.push(`Changed file: ${file.path}`);
+    }
+  }
+
+  const databaseError = checkDatabaseFile(path.join(folder, DATABASE_FILE));
+  if (databaseError) errors.push(databaseError);
+
+  return { ok: errors.length === 0, errors };
+}
+
+export function deleteBackup(id: string): void {
+  fs.rmSync(backupFolder(id), { recursive: true, force: true });
+  console.log(`Deleted backup ${id}`);
+}
+
+// Keep the most recent backups only
+function pruneBackups(keep: number): void {
+  if (keep <= 0) return;
+  listBackups().slice(keep).forEach((backup) => deleteBackup(backup.id));
+}
+
+// Articles in the library; a database not migrated yet may have no trash (deletedAt) column
+function countArticles(): number {
+  const db = getDb();
+  const hasTrash = (db.prepare(`PRAGMA table_info(Article)`).all() as Array<{name: string}>)
+    .some(col => col.name === 'deletedAt');
+  const row = db.prepare(`SELECT COUNT(*) as count FROM Article${hasTrash ? ' WHERE deletedAt IS NULL' : ''}`).get() as { count: number };
+  return row.count;
+}
+
+async function writeBackup(trigger: BackupTrigger, includeFiles: boolean): Promise<BackupInfo> {
+  const db = getDb();
+  const id = newBackupId(new Date());
+  const partial = path.join(StoragePaths.backups, id + PARTIAL_SUFFIX);
+
+  try {
+    await fs.promises.mkdir(partial, { recursive: true });
+    await db.backup(path.join(partial, DATABASE_FILE));
+
+    const files = [await describeFile(partial, DATABASE_FILE)];
+    if (includeFiles) {
+      for (const folder of FILE_FOLDERS) {
+        await copyFolder(path.join(StoragePaths.root, folder), partial, folder, files);
+      }
+    }
+
+    const count = countArticles();
+    const manifest: BackupManifest = {
+      version: MANIFEST_VERSION,
+      createdAt: new Date().toISOString(),
+      trigger,
+      appVersion: app.getVersion(),
+      articles: count,
+      includesFiles: includeFiles,
+      files,
+    };
+    await fs.promises.writeFile(path.join(partial, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+    await fs.promises.rename(partial, backupFolder(id));
+  } catch (error) {
+    fs.rmSync(partial, { recursive: true, force: true });
+    throw error;
+  }
+
+  const verification = await verifyBackup(id);
+  if (!verification.ok) {
+    deleteBackup(id);
+    throw new Error(`Backup failed verification: ${verification.errors.join('; ')}`);
+  }
+
+  const backup = toBackupInfo(id, readManifest(backupFolder(id)));
+  console.log(`Backup ${id} (${trigger}): ${backup.fileCount} file(s), ${backup.size} bytes`);
+  return backup;
+}
+
+/**
+ * Back up the library now
+ * @param trigger What asked for it (shown in the list)
+ * @param includeFiles PDFs and notes too; defaults to the setting
+ */
+export async function createBackup(trigger: BackupTrigger, includeFiles?: boolean): Promise<BackupInfo> {
+  // Not reused: the backup in progress may have another trigger or leave out the files
+  while (running) {
+    await running.catch((): null => null);
+  }
+
+  const current = writeBackup(trigger, includeFiles ?? getBackupSettings().includeFiles);
+  running = current;
+  try {
+    const backup = await current;
+    // Safety copies don't prune: the one made before a restore must not push out the backup being
+    // restored, and before a migration the settings columns may not exist yet
+    if (trigger !== 'pre-restore' && trigger !== 'pre-migration') pruneBackups(getBackupSettings().keep);
+    return backup;
+  } finally {
+    if (running === current) running = null;
+  }
+}
+
+/**
+ * Restore a backup at the next startup
+ * The backup is checked first, and the current library is backed up so the restore can be undone.
+ */
+export async function prepareRestore(id: string): Promise<void> {
+  const verification = await verifyBackup(id);
+  if (!verification.ok) {
+    throw new Error(`The backup cannot be restored: ${verification.errors.join('; ')}`);
+  }
+
+  const manifest = readManifest(backupFolder(id));
+  await createBackup('pre-restore', manifest.includesFiles);
+
+  fs.writeFileSync(path.join(StoragePaths.backups, PENDING_RESTORE_FILE), JSON.stringify({ id }), 'utf-8');
+  console.log(`Backup ${id} will be restored at the next startup`);
+}
+
+/**
+ * Startup, before the database is opened: put back the backup chosen in Settings
+ * The database is copied next to the current one, then renamed over it.
+ */
+export function applyPendingRestore(): void {
+  const pendingFile = path.join(StoragePaths.backups, PENDING_RESTORE_FILE);
+  if (!fs.existsSync(pendingFile)) return;
+
+  try {
+    const { id } = JSON.parse(fs.readFileSync(pendingFile, 'utf-8')) as { id: string };
+    // Removed first: a restore that fails must not be tried again at every startup
+    fs.unlinkSync(pendingFile);
+
+    const folder = backupFolder(id);
+    const databaseError = checkDatabaseFile(path.join(folder, DATABASE_FILE));
+    if (databaseError) {
+      throw new Error(databaseError);
+    }
+
+    const target = StoragePaths.databaseFile;
+    fs.copyFileSync(path.join(folder, DATABASE_FILE), target + '.restore');
+    for (const suffix of ['-wal', '-shm']) {
+      fs.rmSync(target + suffix, { force: true });
+    }
+    fs.renameSync(target + '.restore', target);
+
+    if (readManifest(folder).includesFiles) {
+      for (const name of FILE_FOLDERS) {
+        const storageFolder = path.join(StoragePaths.root, name);
+        fs.rmSync(storageFolder, { recursive: true, force: true });
+        if (fs.existsSync(path.join(folder, name))) {
+          fs.cpSync(path.join(folder, name), storageFolder, { recursive: true });
+        } else {
+          fs.mkdirSync(storageFolder, { recursive: true });
+        }
+      }
+    }
+
+    console.log(`Restored backup ${id}`);
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+  }
+}
+
+// Automatic backup if the schedule asks for one now
+async function runScheduledBackup(atStartup: boolean): Promise<void> {
+  const { schedule } = getBackupSettings();
+
+  if (schedule === 'startup' && atStartup) {
+    await createBackup('startup');
+  } else if (schedule === 'daily') {
+    const latest = listBackups()[0];
+    if (!latest || Date.now() - new Date(latest.createdAt).getTime() >= DAY) {
+      await createBackup('daily');
+    }
+  }
+}
+
+// Startup: automatic backup now if due, then a daily check while the app stays open
+export function startBackupSchedule(): void {
+  const run = (atStartup: boolean) => {
+    runScheduledBackup(atStartup).catch((error) => {
+      console.error('Error making automatic backup:', error);
+    });
+  };
+
+  run(true);
+  setInterval(() => run(false), SCHEDULE_CHECK_INTERVAL);
+}
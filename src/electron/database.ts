@@ -27,8 +27,9 @@ export function getDb(): Database.Database {
 export { db };
 
 /**
- * Initialize database schema
+ * Open the database
  * Must be called AFTER app 'ready' event (when app.getPath() is available)
+ * The schema is created and updated by migrateDatabase() (see ./migrations)
  */
 export function initializeDatabase(): Database.Database {
   if (db) {
@@ -45,200 +46,10 @@ export function initializeDatabase(): Database.Database {
   // Enable foreign keys
   db.pragma('foreign_keys = ON');
 
-  db.exec(`
-    -- Main Article table
-    CREATE TABLE IF NOT EXISTS Article (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      abstract TEXT NOT NULL,
-      conclusion TEXT,
-      year INTEGER NOT NULL,
-      date TEXT NOT NULL,
-      dateAdded TEXT NOT NULL,
-      journal TEXT,
-      doi TEXT,
-      language TEXT DEFAULT 'English',
-      numPages INTEGER DEFAULT 0,
-      researchQuestion TEXT,
-      methodology TEXT,
-      dataUsed TEXT,
-      results TEXT,
-      limitations TEXT,
-      firstImp TEXT,
-      notes TEXT,
-      comment TEXT,
-      rating INTEGER DEFAULT 0,
-      read INTEGER DEFAULT 0,
-      favorite INTEGER DEFAULT 0,
-      fileName TEXT NOT NULL,
-      createdAt TEXT DEFAULT (datetime('now')),
-      updatedAt TEXT DEFAULT (datetime('now'))
-    );
-
-    -- Authors table
-    CREATE TABLE IF NOT EXISTS Author (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL
-    );
-
-    -- Article-Author junction table
-    CREATE TABLE IF NOT EXISTS ArticleAuthor (
-      articleId TEXT NOT NULL,
-      authorId INTEGER NOT NULL,
-      PRIMARY KEY (articleId, authorId),
-      FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
-      FOREIGN KEY (authorId) REFERENCES Author(id)
-    );
-
-    -- Keywords table
-    CREATE TABLE IF NOT EXISTS Keyword (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL
-    );
-
-    -- Article-Keyword junction table
-    CREATE TABLE IF NOT EXISTS ArticleKeyword (
-      articleId TEXT NOT NULL,
-      keywordId INTEGER NOT NULL,
-      PRIMARY KEY (articleId, keywordId),
-      FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
-      FOREIGN KEY (keywordId) REFERENCES Keyword(id)
-    );
-
-    -- Subjects table
-    CREATE TABLE IF NOT EXISTS Subject (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL
-    );
-
-    -- Article-Subject junction table
-    CREATE TABLE IF NOT EXISTS ArticleSubject (
-      articleId TEXT NOT NULL,
-      subjectId INTEGER NOT NULL,
-      PRIMARY KEY (articleId, subjectId),
-      FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
-      FOREIGN KEY (subjectId) REFERENCES Subject(id)
-    );
-
-    -- Tags table
-    CREATE TABLE IF NOT EXISTS Tag (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL
-    );
-
-    -- Article-Tag junction table
-    CREATE TABLE IF NOT EXISTS ArticleTag (
-      articleId TEXT NOT NULL,
-      tagId INTEGER NOT NULL,
-      PRIMARY KEY (articleId, tagId),
-      FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
-      FOREIGN KEY (tagId) REFERENCES Tag(id)
-    );
-
-    -- Universities table
-    CREATE TABLE IF NOT EXISTS University (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL
-    );
-
-    -- Article-University junction table
-    CREATE TABLE IF NOT EXISTS ArticleUniversity (
-      articleId TEXT NOT NULL,
-      universityId INTEGER NOT NULL,
-      PRIMARY KEY (articleId, universityId),
-      FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
-      FOREIGN KEY (universityId) REFERENCES University(id)
-    );
-
-    -- Companies table
-    CREATE TABLE IF NOT EXISTS Company (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL
-    );
-
-    -- Article-Company junction table
-    CREATE TABLE IF NOT EXISTS ArticleCompany (
-      articleId TEXT NOT NULL,
-      companyId INTEGER NOT NULL,
-      PRIMARY KEY (articleId, companyId),
-      FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
-      FOREIGN KEY (companyId) REFERENCES Company(id)
-    );
-
-    -- User settings table
-    CREATE TABLE IF NOT EXISTS UserSettings (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      theme TEXT DEFAULT 'light',
-      language TEXT DEFAULT 'en',
-      pdfViewer TEXT DEFAULT 'system',
-      fontSize INTEGER DEFAULT 14,
-      storagePath TEXT,
-      createdAt TEXT DEFAULT (datetime('now')),
-      updatedAt TEXT DEFAULT (datetime('now'))
-    );
-
-    -- ID Counter table to avoid duplicate IDs after deletion
-    CREATE TABLE IF NOT EXISTS IdCounter (
-      name TEXT PRIMARY KEY,
-      nextId INTEGER NOT NULL DEFAULT 1
-    );
-
-    -- Create indexes for better performance
-    CREATE INDEX IF NOT EXISTS idx_article_year ON Article(year);
-    CREATE INDEX IF NOT EXISTS idx_article_read ON Article(read);
-    CREATE INDEX IF NOT EXISTS idx_article_favorite ON Article(favorite);
-    CREATE INDEX IF NOT EXISTS idx_article_rating ON Article(rating);
-  `);
-
-  console.log('Database schema initialized successfully');
-
-  // Migration: Add storagePath column if it doesn't exist
-  try {
-    const tableInfo = db.prepare(`PRAGMA table_info(UserSettings)`).all() as Array<{name: string}>;
-    const hasStoragePath = tableInfo.some(col => col.name === 'storagePath');
-
-    if (!hasStoragePath) {
-      db.exec(`ALTER TABLE UserSettings ADD COLUMN storagePath TEXT`);
-      console.log('Migration: Added storagePath column to UserSettings');
-    }
-  } catch (error) {
-    console.log('Storage path column migration skipped or already exists');
-  }
-
-  // Migration: Add externalStoragePath and useExternalStorage columns
-  try {
-    const tableInfo = db.prepare(`PRAGMA table_info(UserSettings)`).all() as Array<{name: string}>;
-    const hasExternalStoragePath = tableInfo.some(col => col.name === 'externalStoragePath');
-    const hasUseExternalStorage = tableInfo.some(col => col.name === 'useExternalStorage');
-
-    if (!hasExternalStoragePath) {
-      db.exec(`ALTER TABLE UserSettings ADD COLUMN externalStoragePath TEXT`);
-      console.log('Migration: Added externalStoragePath column to UserSettings');
-    }
-
-    if (!hasUseExternalStorage) {
-      db.exec(`ALTER TABLE UserSettings ADD COLUMN useExternalStorage INTEGER DEFAULT 0`);
-      console.log('Migration: Added useExternalStorage column to UserSettings');
-    }
-  } catch (error) {
-    console.log('External storage columns migration skipped or already exists');
-  }
-
-  // Migration: Initialize article ID counter if not exists
-  try {
-    const counter = db.prepare(`SELECT nextId FROM IdCounter WHERE name = 'article'`).get() as { nextId: number } | undefined;
-
-    if (!counter) {
-      // Get the highest existing article ID to initialize the counter
-      const lastArticle = db.prepare(`SELECT id FROM Article ORDER BY CAST(id AS INTEGER) DESC LIMIT 1`).get() as { id: string } | undefined;
-      const nextId = lastArticle ? parseInt(lastArticle.id) + 1 : 1;
-
-      db.prepare(`INSERT INTO IdCounter (name, nextId) VALUES ('article', ?)`).run(nextId);
-      console.log(`Migration: Initialized article ID counter to ${nextId}`);
-    }
-  } catch (error) {
-    console.log('ID counter migration error:', error);
-  }
+  // Title comparison key, Unicode-aware (SQLite's lower() only folds ASCII)
+  db.function('titleKey', { deterministic: true }, (title: unknown) =>
+    typeof title === 'string' ? title.toLowerCase().trim() : null
+  );
 
   // Close database on exit
   process.on('exit', () => {
@@ -251,6 +62,7 @@ export function initializeDatabase(): Database.Database {
 }
 
 // Helper function to get or create entity (Author, Keyword, etc.)
+// A name registered as an alias (case-insensitive) gives the entity it points to
 export function getOrCreateEntity(
   tableName: string,
   name: string
@@ -259,6 +71,14 @@ export function getOrCreateEntity(
   const selectStmt = database.prepare(`SELECT id, name FROM ${tableName} WHERE name = ?`);
   let entity = selectStmt.get(name) as { id: number; name: string } | undefined;
 
+  if (!entity) {
+    entity = database.prepare(`
+      SELECT e.id, e.name FROM EntityAlias al
+      JOIN ${tableName} e ON e.id = al.entityId
+      WHERE al.entityType = ? AND al.alias = ?
+    `).get(tableName, name.trim()) as { id: number; name: string } | undefined;
+  }
+
   if (!entity) {
     const insertStmt = database.prepare(`INSERT INTO ${tableName} (name) VALUES (?)`);
     const result = insertStmt.run(name);
@@ -309,3 +129,49 @@ export function getNextArticleId(): string {
   const nextId = getAndIncrement();
   return String(nextId).padStart(4, '0');
 }
+
+// One ArticleSearch row per article: entity names joined, note fields and annotations grouped in `content`
+const SEARCH_INDEX_SELECT = `
+  SELECT
+    a.id,
+    a.title,
+    (SELECT group_concat(e.name, ', ') FROM Author e JOIN ArticleAuthor j ON e.id = j.authorId WHERE j.articleId = a.id),
+    a.abstract,
+    (SELECT group_concat(e.name, ', ') FROM Keyword e JOIN ArticleKeyword j ON e.id = j.keywordId WHERE j.articleId = a.id),
+    (SELECT group_concat(e.name, ', ') FROM Tag e JOIN ArticleTag j ON e.id = j.tagId WHERE j.articleId = a.id),
+    (SELECT group_concat(e.name, ', ') FROM Subject e JOIN ArticleSubject j ON e.id = j.subjectId WHERE j.articleId = a.id),
+    coalesce(a.journal, '') || char(10) || coalesce(a.doi, '') || char(10) ||
+      coalesce(a.conclusion, '') || char(10) || coalesce(a.researchQuestion, '') || char(10) ||
+      coalesce(a.methodology, '') || char(10) || coalesce(a.dataUsed, '') || char(10) ||
+      coalesce(a.results, '') || char(10) || coalesce(a.limitations, '') || char(10) ||
+      coalesce(a.firstImp, '') || char(10) || coalesce(a.notes, '') || char(10) ||
+      coalesce(a.comment, '') || char(10) ||
+      coalesce((SELECT group_concat(e.name, ', ') FROM University e JOIN ArticleUniversity j ON e.id = j.universityId WHERE j.articleId = a.id), '') || char(10) ||
+      coalesce((SELECT group_concat(e.name, ', ') FROM Company e JOIN ArticleCompany j ON e.id = j.companyId WHERE j.articleId = a.id), '') || char(10) ||
+      coalesce((SELECT group_concat(coalesce(n.text, '') || ' ' || coalesce(n.comment, ''), char(10)) FROM Annotation n WHERE n.articleId = a.id AND n.deletedAt IS NULL), ''),
+    (SELECT p.text FROM ArticlePdfText p WHERE p.articleId = a.id)
+  FROM Article a
+`;
+
+// Refresh the search index row of an article (removes it if the article no longer exists or is in the trash)
+export function updateSearchIndex(articleId: string) {
+  const database = getDb();
+  database.prepare(`DELETE FROM ArticleSearch WHERE articleId = ?`).run(articleId);
+  database.prepare(`
+    INSERT INTO ArticleSearch (articleId, title, authors, abstract, keywords, tags, subjects, content, pdfText)
+    ${SEARCH_INDEX_SELECT} WHERE a.id = ? AND a.deletedAt IS NULL
+  `).run(articleId);
+}
+
+// Rebuild the whole search index from the Article table
+export function rebuildSearchIndex() {
+  const database = getDb();
+  const rebuild = database.transaction(() => {
+    database.prepare(`DELETE FROM ArticleSearch`).run();
+    database.prepare(`
+      INSERT INTO ArticleSearch (articleId, title, authors, abstract, keywords, tags, subjects, content, pdfText)
+      ${SEARCH_INDEX_SELECT} WHERE a.deletedAt IS NULL
+    `).run();
+  });
+  rebuild();
+}
@@ -0,0 +1,183 @@
+/**
+ * Duplicate detection over the whole library
+ * Two articles are flagged when they share a DOI, or when their titles are
+ * nearly identical (casing, punctuation, accents and small edits ignored)
+ * and their author lists overlap - e.g. a preprint and its published version.
+ */
+
+import { getDb } from './database';
+import { cleanDoi } from './formats/fields';
+import { splitName } from './formats/names';
+import { DuplicateCandidate, DuplicateReason } from '../types/duplicates';
+
+// Title similarity from which two articles are duplicates on their own (authors unknown on one side)
+const SAME_TITLE = 0.95;
+// Title similarity that is enough when the authors overlap too
+const SIMILAR_TITLE = 0.8;
+// Share of the shorter author list that must appear in the other
+const AUTHOR_OVERLAP = 0.5;
+
+// Separates names in the group_concat below (never typed in a name)
+const NAME_SEPARATOR = '\u001f';
+
+interface ComparedArticle {
+  id: string;
+  doi: string;
+  words: string[];
+  bigrams: Map<string, number>;
+  authors: Set<string>;
+}
+
+// Lowercase, no accents, punctuation as spaces
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Character pairs of the title, spaces removed so "data set" and "dataset" match
+function titleBigrams(normalized: string): Map<string, number> {
+  const compact = normalized.replace(/ /g, '');
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  return bigrams;
+}
+
+// Dice coefficient of two bigram multisets (1 = same characters in the same order)
+function diceSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+  a.forEach((count, bigram) => {
+    sizeA += count;
+    shared += Math.min(count, b.get(bigram) || 0);
+  });
+  b.forEach((count) => {
+    sizeB += count;
+  });
+  return sizeA + sizeB === 0 ? 0 : (2 * shared) / (sizeA + sizeB);
+}
+
+// Family names only: "J. Smith" and "John Smith" are the same author here
+function authorKey(name: string): string {
+  return normalizeTitle(splitName(name).family).replace(/ /g, '');
+}
+
+function authorOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((author) => {
+    if (b.has(author)) shared++;
+  });
+  return shared / Math.min(a.size, b.size);
+}
+
+/**
+ * Compare two articles
+ * @returns The candidate, or null if they don't look like the same work
+ */
+function compare(a: ComparedArticle, b: ComparedArticle): DuplicateCandidate | null {
+  const titleSimilarity = diceSimilarity(a.bigrams, b.bigrams);
+  const overlap = authorOverlap(a.authors, b.authors);
+  const sameDoi = Boolean(a.doi) && a.doi === b.doi;
+  const oneSideWithoutAuthors = a.authors.size === 0 || b.authors.size === 0;
+
+  const isDuplicate =
+    sameDoi ||
+    (titleSimilarity >= SIMILAR_TITLE && overlap >= AUTHOR_OVERLAP) ||
+    (titleSimilarity >= SAME_TITLE && oneSideWithoutAuthors);
+  if (!isDuplicate) return null;
+
+  const reasons: DuplicateReason[] = [];
+  if (sameDoi) reasons.push('doi');
+  if (titleSimilarity >= SIMILAR_TITLE) reasons.push('title');
+  if (overlap >= AUTHOR_OVERLAP) reasons.push('authors');
+
+  const ids = [a.id, b.id].sort((x, y) => parseInt(x) - parseInt(y)) as [string, string];
+  return {
+    articleIds: ids,
+    score: sameDoi ? 1 : 0.7 * titleSimilarity + 0.3 * (oneSideWithoutAuthors ? titleSimilarity : overlap),
+    titleSimilarity,
+    authorOverlap: overlap,
+    reasons,
+  };
+}
+
+/**
+ * Find likely duplicate pairs in the library, most certain first
+ * Only pairs sharing a DOI or enough title words are compared in full.
+ */
+export function findDuplicates(): DuplicateCandidate[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT
+      a.id,
+      a.title,
+      a.doi,
+      (SELECT group_concat(au.name, '${NAME_SEPARATOR}') FROM Author au JOIN ArticleAuthor aa ON au.id = aa.authorId
+       WHERE aa.articleId = a.id) as authors
+    FROM Article a
+    WHERE a.deletedAt IS NULL
+    ORDER BY CAST(a.id AS INTEGER)
+  `).all() as Array<{ id: string; title: string; doi: string | null; authors: string | null }>;
+
+  const articles: ComparedArticle[] = rows.map((row) => {
+    const normalized = normalizeTitle(row.title);
+    return {
+      id: row.id,
+      doi: cleanDoi(row.doi || '').toLowerCase(),
+      words: Array.from(new Set(normalized.split(' ').filter((word) => word.length > 2))),
+      bigrams: titleBigrams(normalized),
+      authors: new Set((row.authors || '').split(NAME_SEPARATOR).map(authorKey).filter(Boolean)),
+    };
+  });
+
+  // Articles by DOI and by title word, to avoid comparing every pair
+  const byDoi = new Map<string, number[]>();
+  const byWord = new Map<string, number[]>();
+  const addTo = (index: Map<string, number[]>, key: string, position: number) => {
+    const positions = index.get(key);
+    if (positions) {
+      positions.push(position);
+    } else {
+      index.set(key, [position]);
+    }
+  };
+  articles.forEach((article, position) => {
+    if (article.doi) addTo(byDoi, article.doi, position);
+    article.words.forEach((word) => addTo(byWord, word, position));
+  });
+
+  const candidates: DuplicateCandidate[] = [];
+  articles.forEach((article, index) => {
+    // Title words shared with each later article
+    const sharedWords = new Map<number, number>();
+    article.words.forEach((word) => {
+      (byWord.get(word) || []).forEach((other) => {
+        if (other > index) sharedWords.set(other, (sharedWords.get(other) || 0) + 1);
+      });
+    });
+
+    const toCompare = new Set<number>();
+    sharedWords.forEach((count, other) => {
+      const fewestWords = Math.min(article.words.length, articles[other].words.length);
+      if (count >= fewestWords / 2) toCompare.add(other);
+    });
+    if (article.doi) {
+      (byDoi.get(article.doi) || []).filter((other) => other > index).forEach((other) => toCompare.add(other));
+    }
+
+    toCompare.forEach((other) => {
+      const candidate = compare(article, articles[other]);
+      if (candidate) candidates.push(candidate);
+    });
+  });
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
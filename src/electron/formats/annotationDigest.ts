@@ -0,0 +1,133 @@
+/**
+ * Writers for the annotation digest of an article: its highlights and notes from the
+ * integrated reader, grouped by page then color - as Markdown, Word (.docx) or plain text
+ * (the plain text one is appended to the generated note)
+ */
+
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { Annotation, AnnotationColor } from '../../types/annotation';
+
+const COLOR_ORDER: AnnotationColor[] = ['yellow', 'green', 'blue', 'pink', 'purple'];
+
+const COLOR_NAMES: Record<AnnotationColor, string> = {
+  yellow: 'Yellow',
+  green: 'Green',
+  blue: 'Blue',
+  pink: 'Pink',
+  purple: 'Purple',
+};
+
+interface DigestPage {
+  page: number;
+  bookmark: string | null; // Comment of the page bookmark ('' when it has none)
+  colors: Array<{ color: AnnotationColor; annotations: Annotation[] }>;
+}
+
+// Pages in order, each with its highlights and notes by color (in reading order)
+function groupAnnotations(annotations: Annotation[]): DigestPage[] {
+  const pages = new Map<number, DigestPage>();
+  const sorted = [...annotations].sort((a, b) => a.page - b.page || (a.rects[0]?.y ?? 0) - (b.rects[0]?.y ?? 0));
+
+  for (const annotation of sorted) {
+    if (!pages.has(annotation.page)) pages.set(annotation.page, { page: annotation.page, bookmark: null, colors: [] });
+    const page = pages.get(annotation.page)!;
+
+    if (annotation.type === 'bookmark') {
+      page.bookmark = annotation.comment || '';
+      continue;
+    }
+    let group = page.colors.find((entry) => entry.color === annotation.color);
+    if (!group) {
+      group = { color: annotation.color, annotations: [] };
+      page.colors.push(group);
+    }
+    group.annotations.push(annotation);
+  }
+
+  const result = [...pages.values()];
+  result.forEach((page) => page.colors.sort((a, b) => COLOR_ORDER.indexOf(a.color) - COLOR_ORDER.indexOf(b.color)));
+  return result;
+}
+
+// Highlighted text collapsed on one line (selections keep the line breaks of the PDF)
+function quote(text: string | null): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+// Plain text, for the {{annotations}} placeholder of the note template ('' when there is nothing)
+export function annotationDigestToText(annotations: Annotation[]): string {
+  const blocks = groupAnnotations(annotations).map((page) => {
+    const lines = [page.bookmark ? `Page ${page.page} 🔖 ${page.bookmark}` : `Page ${page.page}`];
+    for (const group of page.colors) {
+      lines.push(`  ${COLOR_NAMES[group.color]}`);
+      for (const annotation of group.annotations) {
+        if (annotation.type === 'highlight') {
+          lines.push(`  • « ${quote(annotation.text)} »`);
+          if (annotation.comment) lines.push(`    ${annotation.comment.replace(/\n/g, '\n    ')}`);
+        } else {
+          lines.push(`  📝 ${annotation.comment || ''}`);
+        }
+      }
+    }
+    return lines.join('\n');
+  });
+  return blocks.join('\n\n');
+}
+
+// Markdown file: a section per page, a sub-section per color, highlights as quotes
+export function annotationDigestToMarkdown(title: string, annotations: Annotation[]): string {
+  const lines = [`# ${title}`, ''];
+
+  for (const page of groupAnnotations(annotations)) {
+    lines.push(`## Page ${page.page}`, '');
+    if (page.bookmark !== null) {
+      lines.push(page.bookmark ? `🔖 ${page.bookmark}` : '🔖', '');
+    }
+    for (const group of page.colors) {
+      lines.push(`### ${COLOR_NAMES[group.color]}`, '');
+      for (const annotation of group.annotations) {
+        if (annotation.type === 'highlight') {
+          lines.push(`> ${quote(annotation.text)}`, '');
+          if (annotation.comment) lines.push(annotation.comment, '');
+        } else {
+          lines.push(`📝 ${annotation.comment || ''}`, '');
+        }
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+// Word document with the same layout as the Markdown file
+export async function annotationDigestToDocx(title: string, annotations: Annotation[]): Promise<Buffer> {
+  const children: Paragraph[] = [new Paragraph({ text: title, heading: HeadingLevel.HEADING_1 })];
+
+  for (const page of groupAnnotations(annotations)) {
+    children.push(new Paragraph({ text: `Page ${page.page}`, heading: HeadingLevel.HEADING_2 }));
+    if (page.bookmark !== null) {
+      children.push(new Paragraph({ text: page.bookmark ? `🔖 ${page.bookmark}` : '🔖' }));
+    }
+    for (const group of page.colors) {
+      children.push(new Paragraph({ text: COLOR_NAMES[group.color], heading: HeadingLevel.HEADING_3 }));
+      for (const annotation of group.annotations) {
+        if (annotation.type === 'highlight') {
+          children.push(new Paragraph({
+            children: [new TextRun({ text: `« ${quote(annotation.text)} »`, italics: true })],
+            indent: { left: 360 },
+          }));
+          if (annotation.comment) children.push(new Paragraph({ text: annotation.comment, indent: { left: 720 } }));
+        } else {
+          children.push(new Paragraph({ text: `📝 ${annotation.comment || ''}`, indent: { left: 360 } }));
+        }
+      }
+    }
+  }
+
+  const document = new Document({
+    styles: {
+      default: { document: { run: { font: 'Calibri', size: 22 } } },
+    },
+    sections: [{ children }],
+  });
+  return Packer.toBuffer(document);
+}
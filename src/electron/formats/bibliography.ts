@@ -0,0 +1,69 @@
+/**
+ * Writers for formatted references: plain text, HTML and Word (.docx)
+ */
+
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { CitationStyle } from '../../types/citation';
+import { CitationPart, BIBLIOGRAPHY_TITLES } from './citationStyles';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function referenceToText(parts: CitationPart[]): string {
+  return parts.map((part) => part.text).join('');
+}
+
+export function referenceToHtml(parts: CitationPart[]): string {
+  return parts.map((part) => (part.italic ? `<i>${escapeHtml(part.text)}</i>` : escapeHtml(part.text))).join('');
+}
+
+// One reference per paragraph, separated by a blank line
+export function bibliographyToText(references: CitationPart[][]): string {
+  return references.map(referenceToText).join('\n\n') + '\n';
+}
+
+// Standalone HTML page with hanging indents
+export function bibliographyToHtml(references: CitationPart[][], style: CitationStyle): string {
+  const title = BIBLIOGRAPHY_TITLES[style];
+  const entries = references.map((parts) => `  <p class="reference">${referenceToHtml(parts)}</p>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: "Times New Roman", serif; font-size: 12pt; line-height: 2; max-width: 48em; margin: 2em auto; }
+    h1 { font-size: 12pt; text-align: center; }
+    .reference { padding-left: 0.5in; text-indent: -0.5in; margin: 0; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+${entries}
+</body>
+</html>
+`;
+}
+
+// Word document with the same layout as the HTML page
+export async function bibliographyToDocx(references: CitationPart[][], style: CitationStyle): Promise<Buffer> {
+  const document = new Document({
+    styles: {
+      default: { document: { run: { font: 'Times New Roman', size: 24 } } },
+    },
+    sections: [{
+      children: [
+        new Paragraph({ text: BIBLIOGRAPHY_TITLES[style], heading: HeadingLevel.HEADING_1 }),
+        ...references.map((parts) => new Paragraph({
+          children: parts.map((part) => new TextRun({ text: part.text, italics: part.italic })),
+          indent: { left: 720, hanging: 720 }, // 0.5 inch hanging indent
+          spacing: { after: 240 },
+        })),
+      ],
+    }],
+  });
+
+  return Packer.toBuffer(document);
+}
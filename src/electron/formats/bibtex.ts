@@ -0,0 +1,379 @@
+/**
+ * BibTeX conversion: Article -> @article entries, .bib file -> ArticleFormData
+ */
+
+import { Article, ArticleFormData } from '../../types/article';
+import { ImportParseResult } from '../../types/interchange';
+import { splitName, joinName } from './names';
+import { importedFormData, cleanDoi, pageRangeCount, languageName, dateParts, partsToDate } from './fields';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Combining marks for LaTeX accent commands (\'e, \"o, \c{c}...)
+const ACCENTS: Record<string, string> = {
+  '`': '\u0300', "'": '\u0301', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307', '"': '\u0308',
+  u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327', k: '\u0328', r: '\u030A',
+};
+
+// Letters LaTeX writes as commands
+const SPECIAL_LETTERS: Record<string, string> = {
+  ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', o: 'ø', O: 'Ø', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+};
+
+// ============= EXPORT =============
+
+// Escape LaTeX special characters in a field value
+function escapeLatex(text: string): string {
+  return text
+    .replace(/\\/g, '\\textbackslash ')
+    .replace(/([{}&%$#_])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}')
+    .replace(/\\textbackslash /g, '\\textbackslash{}');
+}
+
+// Protect acronyms and mixed-case words ("DNA", "iPhone") from bibliography styles lowercasing them
+function protectCase(title: string): string {
+  return title
+    .split(' ')
+    .map((word) => (/[A-Z]/.test(word.slice(1)) ? `{${word}}` : word))
+    .join(' ');
+}
+
+// "Jane Q. Smith" -> "Smith, Jane Q."
+function bibtexName(name: string): string {
+  const { family, given } = splitName(name);
+  return given ? `${family}, ${given}` : family;
+}
+
+/**
+ * Convert articles to a .bib file
+ * @param articles Articles to export
+ * @param keys Citation keys by article ID (see getLibraryCitationKeys)
+ */
+export function articlesToBibtex(articles: Article[], keys: Map<string, string>): string {
+  return articles.map((article) => articleToBibtex(article, keys.get(article.id) || article.id)).join('\n\n') + '\n';
+}
+
+function articleToBibtex(article: Article, key: string): string {
+  const fields: Array<[string, string]> = [];
+  const add = (name: string, value: string | undefined) => {
+    if (value && value.trim()) fields.push([name, `{${value.trim()}}`]);
+  };
+
+  add('author', (article.authors || []).map((author) => escapeLatex(bibtexName(author.name))).join(' and '));
+  add('title', protectCase(escapeLatex(article.title)));
+  add('journal', article.journal && escapeLatex(article.journal));
+  if (article.year) fields.push(['year', `{${article.year}}`]);
+
+  // Month only when the publication date is in the publication year
+  const [, month] = dateParts(article.date, article.year);
+  if (month) fields.push(['month', MONTHS[month - 1]]);
+
+  add('doi', article.doi);
+  add('keywords', (article.keywords || []).map((keyword) => escapeLatex(keyword.name)).join(', '));
+  add('abstract', article.abstract && escapeLatex(article.abstract));
+  add('language', article.language && escapeLatex(article.language));
+
+  const body = fields.map(([name, value]) => `  ${name} = ${value}`).join(',\n');
+  return `@article{${key},\n${body}\n}`;
+}
+
+// ============= IMPORT =============
+
+interface BibEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+// Turn LaTeX markup into plain text
+function latexToText(value: string): string {
+  const OPEN = '\u0001';
+  const CLOSE = '\u0004';
+
+  let text = value
+    // Unescaped ~ is a non-breaking space
+    .replace(/(^|[^\\])~/g, '$1 ')
+    // Accents: \'e, \'{e}, {\'e}, \c{c}, \c c
+    .replace(/\\([`'^~=."])\s*(?:\{\s*(\\?[a-zA-Z])\s*\}|(\\?[a-zA-Z]))/g, (_m, accent, braced, bare) =>
+      (braced || bare).replace('\\', '') + ACCENTS[accent])
+    .replace(/\\([uvHckr])\s*(?:\{\s*(\\?[a-zA-Z])\s*\}|\s+(\\?[a-zA-Z]))/g, (_m, accent, braced, bare) =>
+      (braced || bare).replace('\\', '') + ACCENTS[accent])
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i|j)(?![a-zA-Z])\s*(\{\})?/g, (_m, letter) => SPECIAL_LETTERS[letter])
+    .replace(/\\textbackslash(\{\})?/g, '\\\\')
+    .replace(/\\textasciitilde(\{\})?/g, '~')
+    .replace(/\\textasciicircum(\{\})?/g, '^')
+    // Escaped characters - braces are kept aside so they survive the brace removal below
+    .replace(/\\\{/g, OPEN)
+    .replace(/\\\}/g, CLOSE)
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/\\\\/g, '\\')
+    // Formatting commands keep their argument: \emph{x} -> x
+    .replace(/\\[a-zA-Z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/``/g, '“')
+    .replace(/''/g, '”');
+
+  text = text.split(OPEN).join('{').split(CLOSE).join('}');
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+// Split on a separator word/char only outside braces
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+
+    if (depth === 0) {
+      const rest = value.slice(i);
+      const match = separator.exec(rest);
+      if (match && match.index === 0) {
+        parts.push(current);
+        current = '';
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+// BibTeX author list -> names in the "Given Family" form used by the library
+function parseAuthors(value: string): string[] {
+  return splitTopLevel(value, /^\s+and\s+/i)
+    .filter((name) => name.toLowerCase() !== 'others')
+    .map((name) => {
+      // Fully braced names are institutions: keep them verbatim
+      if (/^\{.*\}$/.test(name)) return latexToText(name);
+
+      const parts = splitTopLevel(name, /^,/).map(latexToText);
+      if (parts.length >= 3) {
+        // "von Last, Jr, First"
+        return `${parts[2]} ${parts[0]} ${parts[1]}`;
+      }
+      if (parts.length === 2) {
+        return joinName({ family: parts[0], given: parts[1] });
+      }
+      return parts[0] || '';
+    })
+    .filter(Boolean);
+}
+
+// Low-level .bib reader: entries with raw (still LaTeX) field values
+class BibReader {
+  private pos = 0;
+  private macros: Record<string, string> = {};
+  entries: BibEntry[] = [];
+  errors: string[] = [];
+
+  constructor(private text: string) {
+    MONTHS.forEach((month, index) => {
+      this.macros[month] = String(index + 1);
+    });
+  }
+
+  read(): void {
+    for (;;) {
+      const at = this.text.indexOf('@', this.pos);
+      if (at < 0) return;
+      this.pos = at + 1;
+
+      const type = this.readIdentifier().toLowerCase();
+      this.skipWhitespace();
+      const open = this.text[this.pos];
+      if (!type || (open !== '{' && open !== '(')) continue;
+      const close = open === '{' ? '}' : ')';
+      this.pos++;
+
+      try {
+        if (type === 'comment' || type === 'preamble') {
+          this.skipBlock(close);
+        } else if (type === 'string') {
+          this.readFields(close, this.macros);
+        } else {
+          this.readEntry(type, close);
+        }
+      } catch (error: any) {
+        this.errors.push(`@${type} at character ${at}: ${error.message}`);
+      }
+    }
+  }
+
+  private readEntry(type: string, close: string): void {
+    this.skipWhitespace();
+    const keyStart = this.pos;
+    while (this.pos < this.text.length && !/[,\s]/.test(this.text[this.pos]) && this.text[this.pos] !== close) {
+      this.pos++;
+    }
+    const key = this.text.slice(keyStart, this.pos);
+    this.skipWhitespace();
+    if (this.text[this.pos] === ',') this.pos++;
+
+    const fields: Record<string, string> = {};
+    this.readFields(close, fields);
+    this.entries.push({ type, key, fields });
+  }
+
+  // Read "name = value" pairs until the closing character of the entry
+  private readFields(close: string, target: Record<string, string>): void {
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.text.length) throw new Error('unexpected end of file');
+      if (this.text[this.pos] === close) {
+        this.pos++;
+        return;
+      }
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const name = this.readIdentifier().toLowerCase();
+      if (!name) throw new Error(`unexpected character "${this.text[this.pos]}"`);
+      this.skipWhitespace();
+      if (this.text[this.pos] !== '=') throw new Error(`missing "=" after ${name}`);
+      this.pos++;
+      target[name] = this.readValue(close);
+    }
+  }
+
+  // Value: parts joined with #, each {braced}, "quoted", a number or a @string macro
+  private readValue(close: string): string {
+    let value = '';
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+
+      if (char === '{') {
+        value += this.readDelimited('}');
+      } else if (char === '"') {
+        value += this.readDelimited('"');
+      } else {
+        const word = this.readIdentifier();
+        if (!word) throw new Error('missing value');
+        value += /^\d+$/.test(word) ? word : (this.macros[word.toLowerCase()] ?? word);
+      }
+
+      this.skipWhitespace();
+      if (this.text[this.pos] === '#') {
+        this.pos++;
+        continue;
+      }
+      if (this.text[this.pos] !== ',' && this.text[this.pos] !== close) {
+        throw new Error(`unexpected character "${this.text[this.pos]}"`);
+      }
+      return value;
+    }
+  }
+
+  // Content between delimiters, keeping nested braces
+  private readDelimited(close: string): string {
+    this.pos++;
+    const start = this.pos;
+    let depth = 0;
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (depth === 0 && char === close) break;
+      if (char === '{') depth++;
+      else if (char === '}') depth--;
+      this.pos++;
+    }
+    if (this.pos >= this.text.length) throw new Error('unbalanced braces');
+
+    const content = this.text.slice(start, this.pos);
+    this.pos++;
+    return content;
+  }
+
+  private skipBlock(close: string): void {
+    const open = close === '}' ? '{' : '(';
+    let depth = 1;
+    while (this.pos < this.text.length && depth > 0) {
+      if (this.text[this.pos] === open) depth++;
+      if (this.text[this.pos] === close) depth--;
+      this.pos++;
+    }
+  }
+
+  private readIdentifier(): string {
+    const match = /^[^\s"#%'(),={}]+/.exec(this.text.slice(this.pos, this.pos + 200));
+    if (!match) return '';
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+}
+
+// Month field: macro already turned into a number, or a written month name
+function parseMonth(value: string | undefined): number | null {
+  if (!value) return null;
+  const number = parseInt(value, 10);
+  if (number >= 1 && number <= 12) return number;
+  const index = MONTHS.indexOf(value.trim().slice(0, 3).toLowerCase());
+  return index >= 0 ? index + 1 : null;
+}
+
+function entryToFormData(entry: BibEntry): ArticleFormData {
+  const field = (name: string) => (entry.fields[name] !== undefined ? latexToText(entry.fields[name]) : '');
+
+  const title = field('title');
+  if (!title) throw new Error('missing title');
+
+  // biblatex uses "date" (YYYY or YYYY-MM-DD) instead of year/month
+  const dateField = field('date');
+  const year = parseInt(field('year'), 10) || parseInt(dateField, 10) || new Date().getFullYear();
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(dateField)
+    ? dateField
+    : partsToDate(year, parseMonth(field('month')) || parseInt(dateField.slice(5, 7), 10));
+
+  return importedFormData({
+    title,
+    abstract: field('abstract'),
+    year,
+    date,
+    journal: field('journal') || field('journaltitle') || field('booktitle') || field('publisher') || field('school') || field('institution'),
+    doi: cleanDoi(field('doi')),
+    language: languageName(field('language') || field('langid')),
+    numPages: parseInt(field('pagetotal') || field('numpages'), 10) || pageRangeCount(field('pages')),
+    authors: parseAuthors(entry.fields.author || entry.fields.editor || ''),
+    keywords: field('keywords').split(/[,;]/).map((keyword) => keyword.trim()).filter(Boolean),
+  });
+}
+
+/**
+ * Parse a .bib file into article form data
+ * Every entry type is accepted (@article, @inproceedings...), @string macros are expanded
+ */
+export function parseBibtex(text: string): ImportParseResult {
+  const reader = new BibReader(text);
+  reader.read();
+
+  const result: ImportParseResult = { articles: [], errors: [...reader.errors] };
+  for (const entry of reader.entries) {
+    try {
+      result.articles.push(entryToFormData(entry));
+    } catch (error: any) {
+      result.errors.push(`${entry.key || '@' + entry.type}: ${error.message}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,67 @@
+/**
+ * Stable citation keys ("smith2020deep") for BibTeX, RIS and CSL-JSON exports
+ *
+ * Keys are computed over the whole library so exporting one article or the
+ * full library gives the same key. When two articles share a key, the one
+ * with the lowest ID keeps it and the others get a letter suffix.
+ */
+
+import { getDb } from '../database';
+import { splitName } from './names';
+
+// Skipped when picking the title word of the key
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'to', 'with', 'from', 'at', 'by', 'towards', 'toward', 'is', 'are',
+]);
+
+// Lowercase ASCII only: accents removed, everything else dropped
+function asciiWord(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// Key before collision handling: family name of the first author + year + first meaningful title word
+export function citationKeyBase(firstAuthor: string | undefined, year: number | undefined, title: string): string {
+  const author = firstAuthor ? asciiWord(splitName(firstAuthor).family) : '';
+  const titleWord = title
+    .split(/\s+/)
+    .map(asciiWord)
+    .find((word) => word && !STOP_WORDS.has(word)) || '';
+
+  return `${author || 'anon'}${year || ''}${titleWord}`;
+}
+
+/**
+ * Citation keys of every article in the library, by article ID
+ */
+export function getLibraryCitationKeys(): Map<string, string> {
+  const db = getDb();
+  // First author in the same order getArticleWithRelations returns them
+  const rows = db.prepare(`
+    SELECT
+      a.id,
+      a.title,
+      a.year,
+      (SELECT au.name FROM Author au JOIN ArticleAuthor aa ON au.id = aa.authorId
+       WHERE aa.articleId = a.id ORDER BY au.id LIMIT 1) as firstAuthor
+    FROM Article a
+    ORDER BY CAST(a.id AS INTEGER)
+  `).all() as Array<{ id: string; title: string; year: number; firstAuthor: string | null }>;
+
+  const keys = new Map<string, string>();
+  const used = new Map<string, number>();
+
+  for (const row of rows) {
+    const base = citationKeyBase(row.firstAuthor || undefined, row.year, row.title);
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    // 2nd article with the same base gets "b", 3rd "c"... then numbers past "z"
+    const suffix = count === 0 ? '' : count < 26 ? String.fromCharCode(97 + count) : String(count + 1);
+    keys.set(row.id, base + suffix);
+  }
+
+  return keys;
+}
@@ -0,0 +1,238 @@
+/**
+ * Reference formatting in the usual citation styles
+ * APA 7th, MLA 9th, Chicago 17th (author-date), IEEE and Harvard (Cite Them Right)
+ *
+ * A reference is built as a list of parts so the same output can be written
+ * as plain text, HTML or a Word document (journal names are in italics).
+ */
+
+import { Article } from '../../types/article';
+import { CitationStyle } from '../../types/citation';
+import { PersonName, splitName, initials } from './names';
+
+export interface CitationPart {
+  text: string;
+  italic?: boolean;
+}
+
+// Heading of the reference list, as each style names it
+export const BIBLIOGRAPHY_TITLES: Record<CitationStyle, string> = {
+  apa: 'References',
+  mla: 'Works Cited',
+  chicago: 'References',
+  ieee: 'References',
+  harvard: 'Reference list',
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+// Add closing punctuation unless the text already ends with some ("Why?" stays "Why?")
+function close(text: string, mark = '.'): string {
+  const trimmed = text.trim();
+  if (!trimmed) return '';
+  return /[.?!]$/.test(trimmed) ? trimmed : trimmed + mark;
+}
+
+function doiUrl(doi: string | undefined): string {
+  if (!doi) return '';
+  return doi.startsWith('http') ? doi : `https://doi.org/${doi}`;
+}
+
+function people(article: Article): PersonName[] {
+  return (article.authors || []).map((author) => splitName(author.name)).filter((person) => person.family);
+}
+
+// "A, B and C" with the connector the style puts before the last name
+function joinList(items: string[], lastSeparator: string, pairSeparator = lastSeparator): string {
+  if (items.length <= 1) return items.join('');
+  if (items.length === 2) return items.join(pairSeparator);
+  return items.slice(0, -1).join(', ') + lastSeparator + items[items.length - 1];
+}
+
+// "Smith, J. Q." (APA, Harvard)
+function familyInitials(person: PersonName, separator = ' '): string {
+  const given = initials(person.given, separator);
+  return given ? `${person.family}, ${given}` : person.family;
+}
+
+// "J. Q. Smith" (IEEE)
+function initialsFamily(person: PersonName): string {
+  const given = initials(person.given);
+  return given ? `${given} ${person.family}` : person.family;
+}
+
+// "Smith, Jane" / "Jane Smith" (MLA, Chicago)
+function familyGiven(person: PersonName): string {
+  return person.given ? `${person.family}, ${person.given}` : person.family;
+}
+
+function givenFamily(person: PersonName): string {
+  return person.given ? `${person.given} ${person.family}` : person.family;
+}
+
+// ============================================
+// Author lists
+// ============================================
+
+// APA: up to 20 authors, then the first 19, an ellipsis and the last one
+function apaAuthors(list: PersonName[]): string {
+  const names = list.map((person) => familyInitials(person));
+  if (names.length > 20) {
+    return `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`;
+  }
+  return joinList(names, ', & ');
+}
+
+// MLA: one or two authors in full, three or more as first author "et al."
+function mlaAuthors(list: PersonName[]): string {
+  if (list.length >= 3) return `${familyGiven(list[0])}, et al.`;
+  if (list.length === 2) return `${familyGiven(list[0])}, and ${givenFamily(list[1])}`;
+  return list.length === 1 ? familyGiven(list[0]) : '';
+}
+
+// Chicago: up to 10 authors in full, more than 10 as the first seven "et al."
+function chicagoAuthors(list: PersonName[]): string {
+  const names = list.map((person, index) => (index === 0 ? familyGiven(person) : givenFamily(person)));
+  if (names.length > 10) return `${names.slice(0, 7).join(', ')}, et al.`;
+  return joinList(names, ', and ');
+}
+
+// IEEE: up to six authors in full, more than six as first author "et al."
+function ieeeAuthors(list: PersonName[]): string {
+  if (list.length > 6) return `${initialsFamily(list[0])} et al.`;
+  return joinList(list.map(initialsFamily), ', and ', ' and ');
+}
+
+// Harvard: up to three authors, four or more as first author "et al."
+function harvardAuthors(list: PersonName[]): string {
+  if (list.length >= 4) return `${familyInitials(list[0], '')} et al.`;
+  return joinList(list.map((person) => familyInitials(person, '')), ' and ');
+}
+
+// ============================================
+// Styles
+// ============================================
+
+function apa(article: Article): CitationPart[] {
+  const authors = apaAuthors(people(article));
+  const year = `(${article.year || 'n.d.'}).`;
+  const title = close(article.title);
+  const parts: CitationPart[] = [];
+
+  // Without authors the title takes their place
+  parts.push({ text: authors ? `${close(authors)} ${year} ${title}` : `${title} ${year}` });
+  if (article.journal) {
+    parts.push({ text: ' ' });
+    parts.push({ text: article.journal, italic: true });
+    parts.push({ text: '.' });
+  }
+  if (article.doi) parts.push({ text: ` ${doiUrl(article.doi)}` });
+  return parts;
+}
+
+function mla(article: Article): CitationPart[] {
+  const authors = mlaAuthors(people(article));
+  const parts: CitationPart[] = [{ text: `${authors ? close(authors) + ' ' : ''}“${close(article.title)}”` }];
+
+  const details: string[] = [];
+  if (article.year) details.push(String(article.year));
+  if (article.doi) details.push(doiUrl(article.doi));
+
+  if (article.journal) {
+    parts.push({ text: ' ' });
+    parts.push({ text: article.journal, italic: true });
+    parts.push({ text: details.length > 0 ? `, ${details.join(', ')}.` : '.' });
+  } else if (details.length > 0) {
+    parts.push({ text: ` ${details.join(', ')}.` });
+  }
+  return parts;
+}
+
+function chicago(article: Article): CitationPart[] {
+  const authors = chicagoAuthors(people(article));
+  const year = article.year ? `${article.year}.` : 'n.d.';
+  const parts: CitationPart[] = [{ text: `${authors ? close(authors) + ' ' : ''}${year} “${close(article.title)}”` }];
+
+  if (article.journal) {
+    parts.push({ text: ' ' });
+    parts.push({ text: article.journal, italic: true });
+    parts.push({ text: '.' });
+  }
+  if (article.doi) parts.push({ text: ` ${doiUrl(article.doi)}.` });
+  return parts;
+}
+
+function ieee(article: Article, index: number): CitationPart[] {
+  const authors = ieeeAuthors(people(article));
+  const parts: CitationPart[] = [{ text: `[${index + 1}] ${authors ? authors + ', ' : ''}“${close(article.title, ',')}”` }];
+
+  const details: string[] = [];
+  if (article.year) details.push(String(article.year));
+  if (article.doi) details.push(`doi: ${article.doi}`);
+
+  if (article.journal) {
+    parts.push({ text: ' ' });
+    parts.push({ text: article.journal, italic: true });
+    parts.push({ text: details.length > 0 ? `, ${details.join(', ')}.` : '.' });
+  } else {
+    parts.push({ text: details.length > 0 ? ` ${details.join(', ')}.` : '' });
+  }
+  return parts;
+}
+
+function harvard(article: Article): CitationPart[] {
+  const authors = harvardAuthors(people(article));
+  const year = `(${article.year || 'no date'})`;
+  // Harvard puts the title in single quotes followed by a comma, punctuation moves inside
+  const title = `‘${article.title.trim()}’`;
+  const parts: CitationPart[] = [{ text: authors ? `${authors} ${year} ${title}` : `${title} ${year}` }];
+
+  if (article.journal) {
+    parts.push({ text: ', ' });
+    parts.push({ text: article.journal, italic: true });
+  }
+  parts.push({ text: '.' });
+  if (article.doi) parts.push({ text: ` Available at: ${doiUrl(article.doi)}.` });
+  return parts;
+}
+
+/**
+ * Format one article as a reference
+ * @param index Position in the reference list (IEEE numbers its entries)
+ */
+export function formatReference(article: Article, style: CitationStyle, index = 0): CitationPart[] {
+  switch (style) {
+    case 'apa':
+      return apa(article);
+    case 'mla':
+      return mla(article);
+    case 'chicago':
+      return chicago(article);
+    case 'ieee':
+      return ieee(article, index);
+    case 'harvard':
+      return harvard(article);
+    default:
+      throw new Error(`Unknown citation style: ${style}`);
+  }
+}
+
+/**
+ * Format a reference list
+ * IEEE keeps the given order (numbered), the other styles sort by author then year
+ */
+export function formatBibliography(articles: Article[], style: CitationStyle): CitationPart[][] {
+  const sorted = style === 'ieee'
+    ? articles
+    : [...articles].sort((a, b) => {
+        const sortKey = (article: Article) => {
+          const first = people(article)[0];
+          return (first ? `${first.family} ${first.given}` : article.title).toLowerCase();
+        };
+        return sortKey(a).localeCompare(sortKey(b)) || (a.year || 0) - (b.year || 0);
+      });
+
+  return sorted.map((article, index) => formatReference(article, style, index));
+}
@@ -0,0 +1,162 @@
+/**
+ * CSL-JSON conversion: Article -> article-journal items, CSL-JSON file -> ArticleFormData
+ * CSL-JSON is the format of citeproc, Zotero and Pandoc ("--citeproc --bibliography x.json")
+ */
+
+import { Article, ArticleFormData } from '../../types/article';
+import { ImportParseResult } from '../../types/interchange';
+import { splitName, joinName } from './names';
+import { importedFormData, cleanDoi, pageRangeCount, languageName, dateParts, partsToDate } from './fields';
+
+interface CslName {
+  family?: string;
+  given?: string;
+  'non-dropping-particle'?: string;
+  'dropping-particle'?: string;
+  suffix?: string;
+  literal?: string;
+}
+
+interface CslDate {
+  'date-parts'?: Array<Array<number | string>>;
+  raw?: string;
+  literal?: string;
+}
+
+// Only the variables this app reads or writes
+interface CslItem {
+  id?: string | number;
+  type?: string;
+  title?: string;
+  author?: CslName[];
+  editor?: CslName[];
+  'container-title'?: string | string[];
+  'collection-title'?: string;
+  publisher?: string;
+  issued?: CslDate;
+  DOI?: string;
+  URL?: string;
+  keyword?: string;
+  abstract?: string;
+  language?: string;
+  page?: string;
+  'number-of-pages'?: number | string;
+}
+
+// ============================================
+// Export
+// ============================================
+
+function articleToCsl(article: Article, key: string): CslItem {
+  const item: CslItem = {
+    id: key,
+    type: 'article-journal',
+    title: article.title,
+    author: (article.authors || []).map((author) => {
+      const { family, given } = splitName(author.name);
+      return given ? { family, given } : { literal: family };
+    }),
+  };
+
+  if (article.journal) item['container-title'] = article.journal;
+  if (article.year) item.issued = { 'date-parts': [dateParts(article.date, article.year)] };
+  if (article.doi) item.DOI = article.doi;
+  // CSL has a single keyword variable, comma separated
+  if (article.keywords?.length) item.keyword = article.keywords.map((keyword) => keyword.name).join(', ');
+  if (article.abstract) item.abstract = article.abstract;
+  if (article.language) item.language = article.language;
+  if (article.numPages) item['number-of-pages'] = article.numPages;
+
+  return item;
+}
+
+/**
+ * Convert articles to the content of a CSL-JSON file (an array of items)
+ * @param keys Citation key per article ID (see getLibraryCitationKeys)
+ */
+export function articlesToCsl(articles: Article[], keys: Map<string, string>): string {
+  const items = articles.map((article) => articleToCsl(article, keys.get(article.id) || article.id));
+  return JSON.stringify(items, null, 2) + '\n';
+}
+
+// ============================================
+// Import
+// ============================================
+
+function cslNameToText(name: CslName): string {
+  if (name.literal) return name.literal.trim();
+  const family = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+  const given = [name.given, name['dropping-particle']].filter(Boolean).join(' ');
+  return joinName(splitName(given ? `${family}, ${given}` : family));
+}
+
+// Date parts of an issued date, from date-parts or a raw "2020-05-17" string
+function parseCslDate(issued: CslDate | undefined): { year: number; month?: number; day?: number } | null {
+  if (!issued) return null;
+
+  const parts = issued['date-parts']?.[0];
+  if (parts && parts.length > 0 && Number(parts[0])) {
+    return { year: Number(parts[0]), month: Number(parts[1]) || undefined, day: Number(parts[2]) || undefined };
+  }
+
+  const match = /(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?/.exec(issued.raw || issued.literal || '');
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]) || undefined, day: Number(match[3]) || undefined };
+}
+
+function itemToFormData(item: CslItem): ArticleFormData {
+  const title = String(item.title || '').trim();
+  if (!title) throw new Error('missing title');
+
+  const date = parseCslDate(item.issued);
+  const year = date?.year || new Date().getFullYear();
+  const container = Array.isArray(item['container-title']) ? item['container-title'][0] : item['container-title'];
+  const names = item.author?.length ? item.author : item.editor || [];
+
+  return importedFormData({
+    title,
+    abstract: item.abstract || '',
+    year,
+    date: partsToDate(year, date?.month, date?.day),
+    journal: container || item['collection-title'] || item.publisher || '',
+    doi: cleanDoi(item.DOI || (/doi\.org\//i.test(item.URL || '') ? item.URL : '')),
+    language: languageName(item.language),
+    numPages: Number(item['number-of-pages']) || pageRangeCount(item.page),
+    authors: names.map(cslNameToText).filter(Boolean),
+    keywords: (item.keyword || '').split(/[,;]/).map((keyword) => keyword.trim()).filter(Boolean),
+  });
+}
+
+/**
+ * Parse a CSL-JSON file into article form data
+ * Accepts an array of items, a single item, or an object with an "items" array
+ */
+export function parseCsl(text: string): ImportParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error: any) {
+    return { articles: [], errors: [`Invalid JSON: ${error.message}`] };
+  }
+
+  const items: unknown[] = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { items?: unknown }).items)
+      ? (data as { items: unknown[] }).items
+      : [data];
+
+  const result: ImportParseResult = { articles: [], errors: [] };
+  items.forEach((item, index) => {
+    const label = (item as CslItem)?.id !== undefined ? String((item as CslItem).id) : `Item ${index + 1}`;
+    if (!item || typeof item !== 'object') {
+      result.errors.push(`${label}: not a CSL-JSON item`);
+      return;
+    }
+    try {
+      result.articles.push(itemToFormData(item as CslItem));
+    } catch (error: any) {
+      result.errors.push(`${label}: ${error.message}`);
+    }
+  });
+  return result;
+}
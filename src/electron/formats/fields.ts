@@ -0,0 +1,65 @@
+/**
+ * Field helpers shared by the interchange formats (BibTeX, RIS, CSL-JSON)
+ */
+
+import { ArticleFormData } from '../../types/article';
+
+// Form data for an imported article: only the bibliographic fields are filled, the rest is left to the user
+export function importedFormData(fields: Partial<ArticleFormData> & { title: string }): ArticleFormData {
+  const year = fields.year || new Date().getFullYear();
+  return {
+    abstract: '',
+    date: `${year}-01-01`,
+    journal: '',
+    doi: '',
+    language: 'English',
+    numPages: 0,
+    rating: 0,
+    read: false,
+    favorite: false,
+    authors: [],
+    keywords: [],
+    subjects: [],
+    tags: [],
+    universities: [],
+    companies: [],
+    ...fields,
+    year,
+  };
+}
+
+// "10.1000/xyz", "doi:10.1000/xyz" or "https://doi.org/10.1000/xyz" -> "10.1000/xyz"
+export function cleanDoi(value: string | undefined): string {
+  return (value || '').trim().replace(/^(doi:\s*|https?:\/\/(dx\.)?doi\.org\/)/i, '');
+}
+
+// "123--145" or "123-145" -> 23
+export function pageRangeCount(pages: string | undefined): number {
+  const range = /(\d+)\s*[-–]+\s*(\d+)/.exec(pages || '');
+  if (!range) return 0;
+  const count = Number(range[2]) - Number(range[1]) + 1;
+  return count > 0 ? count : 0;
+}
+
+// "english" -> "English"
+export function languageName(value: string | undefined): string {
+  const language = (value || '').trim();
+  return language ? language.charAt(0).toUpperCase() + language.slice(1) : 'English';
+}
+
+// Year, month and day of the stored publication date, month/day only when it's in the publication year
+export function dateParts(date: string | undefined, year: number): number[] {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date || '');
+  if (!match || Number(match[1]) !== year) return [year];
+
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  // Imports without a day are stored as the 1st of the month: don't invent a day on export
+  return day > 1 ? [year, month, day] : [year, month];
+}
+
+// Build a YYYY-MM-DD date from parts, missing month/day default to 1
+export function partsToDate(year: number, month?: number, day?: number): string {
+  const pad = (value: number | undefined) => String(value && value > 0 ? value : 1).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
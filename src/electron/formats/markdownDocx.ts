@@ -0,0 +1,186 @@
+/**
+ * Word rendering of the Markdown note fields, as literal XML for docx-templates
+ * Each field placeholder sits alone in a "normal2" paragraph of the note template: the value
+ * closes the placeholder run, writes its own runs and paragraphs, and reopens a run so that
+ * the rest of the template paragraph stays valid. Formulas are written as Office Math (see ./omml).
+ */
+
+import { MarkdownBlock, MarkdownInline } from '../../types/markdown';
+import { texToOmml } from './omml';
+
+// Delimiter of literal XML in docx-templates values (passed to createReport)
+export const LITERAL_XML_DELIMITER = '||';
+
+const PARAGRAPH_STYLE = 'normal2';
+const CODE_FONT = 'Consolas';
+const INDENT_STEP = 360; // Twips (a quarter inch)
+
+// Heading sizes (half-points) - smaller than the section titles of the template
+const HEADING_SIZES = [28, 26, 24, 22, 22, 22];
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+  size?: number;
+  color?: string;
+}
+
+interface WordParagraph {
+  keepNext?: boolean;
+  border?: 'left' | 'bottom';
+  shading?: boolean;
+  indent?: { left: number; hanging?: number };
+  content: string; // Runs and formulas
+}
+
+// Text escaped for XML ("|" too, so that it can't close the literal XML)
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\|/g, '&#124;');
+}
+
+function runProperties(style: RunStyle): string {
+  const properties = [
+    style.link ? '<w:rStyle w:val="Lienhypertexte"/>' : '',
+    style.code ? `<w:rFonts w:ascii="${CODE_FONT}" w:hAnsi="${CODE_FONT}" w:cs="${CODE_FONT}"/>` : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.strike ? '<w:strike/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : '',
+    style.code ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : '',
+  ].join('');
+  return properties ? `<w:rPr>${properties}</w:rPr>` : '';
+}
+
+function textRun(text: string, style: RunStyle): string {
+  return `<w:r>${runProperties(style)}<w:t xml:space="preserve">${escape(text)}</w:t></w:r>`;
+}
+
+function paragraphProperties(paragraph: WordParagraph): string {
+  // Child order of w:pPr is fixed by the schema
+  return [
+    `<w:pStyle w:val="${PARAGRAPH_STYLE}"/>`,
+    paragraph.keepNext ? '<w:keepNext/>' : '',
+    paragraph.border === 'left' ? '<w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="BFBFBF"/></w:pBdr>' : '',
+    paragraph.border === 'bottom' ? '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>' : '',
+    paragraph.shading ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : '',
+    paragraph.indent
+      ? `<w:ind w:left="${paragraph.indent.left}"${paragraph.indent.hanging ? ` w:hanging="${paragraph.indent.hanging}"` : ''}/>`
+      : '',
+  ].join('');
+}
+
+// ---- Inline content ----
+
+function inlineToXml(nodes: MarkdownInline[], style: RunStyle = {}): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return textRun(node.text, style);
+      case 'bold':
+        return inlineToXml(node.children, { ...style, bold: true });
+      case 'italic':
+        return inlineToXml(node.children, { ...style, italic: true });
+      case 'strike':
+        return inlineToXml(node.children, { ...style, strike: true });
+      case 'code':
+        return textRun(node.text, { ...style, code: true });
+      case 'link':
+        return `<w:fldSimple w:instr=" HYPERLINK &quot;${escape(node.url)}&quot; ">${inlineToXml(node.children, { ...style, link: true })}</w:fldSimple>`;
+      case 'articleLink':
+        return textRun(node.title ? `${node.id} – ${node.title}` : `[[${node.id}]]`, { ...style, italic: true });
+      case 'math':
+        return texToOmml(node.tex, node.display);
+      case 'break':
+        return '<w:r><w:br/></w:r>';
+    }
+  }).join('');
+}
+
+// ---- Blocks ----
+
+function blocksToParagraphs(blocks: MarkdownBlock[], indent = 0, style: RunStyle = {}): WordParagraph[] {
+  const paragraphs: WordParagraph[] = [];
+  const indented = (paragraph: WordParagraph): WordParagraph =>
+    indent && !paragraph.indent ? { ...paragraph, indent: { left: indent } } : paragraph;
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'paragraph':
+        paragraphs.push(indented({ content: inlineToXml(block.children, style) }));
+        break;
+      case 'heading':
+        paragraphs.push(indented({
+          keepNext: true,
+          content: inlineToXml(block.children, { ...style, bold: true, size: HEADING_SIZES[block.level - 1] }),
+        }));
+        break;
+      case 'list':
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${block.start + index}.` : '•';
+          const left = indent + INDENT_STEP * 1.5;
+          const itemParagraphs = blocksToParagraphs(item, left, style);
+          const markerRuns = `${textRun(marker, style)}<w:r><w:tab/></w:r>`;
+          // The marker goes in front of the first paragraph, in the hanging indent
+          if (itemParagraphs.length === 0 || item[0].type !== 'paragraph') {
+            itemParagraphs.unshift({ content: '' });
+          }
+          itemParagraphs[0] = {
+            ...itemParagraphs[0],
+            indent: { left, hanging: INDENT_STEP },
+            content: markerRuns + itemParagraphs[0].content,
+          };
+          paragraphs.push(...itemParagraphs);
+        });
+        break;
+      case 'code': {
+        const lines = block.text.split('\n').map((line) => textRun(line, { ...style, code: true }));
+        paragraphs.push(indented({ shading: true, content: lines.join('<w:r><w:br/></w:r>') }));
+        break;
+      }
+      case 'quote':
+        paragraphs.push(...blocksToParagraphs(block.children, indent + INDENT_STEP, { ...style, color: '595959' })
+          .map((paragraph) => ({ ...paragraph, border: 'left' as const })));
+        break;
+      case 'math':
+        paragraphs.push(indented({ content: `<m:oMathPara>${texToOmml(block.tex, true)}</m:oMathPara>` }));
+        break;
+      case 'rule':
+        paragraphs.push({ border: 'bottom', content: '' });
+        break;
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Value of a note field placeholder ('' for an empty field)
+ * The first paragraph without special layout is written into the template paragraph itself,
+ * the last one is left open for the end of the template paragraph.
+ */
+export function markdownToWordXml(blocks: MarkdownBlock[]): string {
+  const paragraphs = blocksToParagraphs(blocks);
+  if (paragraphs.length === 0) return '';
+
+  const first = paragraphs[0];
+  const inTemplateParagraph = !first.keepNext && !first.border && !first.shading && !first.indent;
+  const rest = inTemplateParagraph ? paragraphs.slice(1) : paragraphs;
+
+  let xml = '</w:t></w:r>';
+  if (inTemplateParagraph) xml += first.content;
+  for (const paragraph of rest) {
+    xml += `</w:p><w:p><w:pPr>${paragraphProperties(paragraph)}</w:pPr>${paragraph.content}`;
+  }
+  xml += '<w:r><w:t xml:space="preserve">';
+
+  return `${LITERAL_XML_DELIMITER}${xml}${LITERAL_XML_DELIMITER}`;
+}
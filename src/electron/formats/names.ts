@@ -0,0 +1,66 @@
+/**
+ * Person name helpers shared by the interchange formats and citation styles
+ * Author names are stored free-form ("Jane Q. Smith" or "Smith, Jane Q.")
+ */
+
+export interface PersonName {
+  family: string;
+  given: string;
+}
+
+// Lowercase particles that belong to the family name ("van der Berg", "de la Cruz")
+const PARTICLES = ['van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'du', 'la', 'le', 'ten', 'ter'];
+
+/**
+ * Split a stored author name into family and given names
+ * "Smith, Jane" and "Jane Smith" both give { family: 'Smith', given: 'Jane' }
+ */
+export function splitName(name: string): PersonName {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+
+  if (trimmed.includes(',')) {
+    const [family, ...rest] = trimmed.split(',');
+    return { family: family.trim(), given: rest.join(',').trim() };
+  }
+
+  const words = trimmed.split(' ');
+  if (words.length === 1) {
+    return { family: trimmed, given: '' };
+  }
+
+  // Family name starts at the first particle, or is the last word
+  let familyStart = words.length - 1;
+  for (let i = 1; i < words.length - 1; i++) {
+    if (PARTICLES.includes(words[i].toLowerCase())) {
+      familyStart = i;
+      break;
+    }
+  }
+
+  return {
+    family: words.slice(familyStart).join(' '),
+    given: words.slice(0, familyStart).join(' '),
+  };
+}
+
+// Back to the "Given Family" form used when storing authors
+export function joinName(person: PersonName): string {
+  return [person.given, person.family].filter(Boolean).join(' ');
+}
+
+/**
+ * Initials of the given names: "Jane Quinn" -> "J. Q.", "Jean-Paul" -> "J.-P."
+ * @param separator Put between initials (' ' gives "J. Q.", '' gives "J.Q.")
+ */
+export function initials(given: string, separator = ' '): string {
+  return given
+    .split(/[\s.]+/)
+    .filter(Boolean)
+    .map((part) =>
+      part
+        .split('-')
+        .map((piece) => (piece ? piece.charAt(0).toUpperCase() + '.' : ''))
+        .join('-')
+    )
+    .join(separator);
+}
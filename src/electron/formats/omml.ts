@@ -0,0 +1,174 @@
+/**
+ * Office Math (OMML) for the formulas of the Word notes
+ * KaTeX renders the TeX as MathML, whose elements map onto OMML: this module only reads
+ * the MathML KaTeX writes (no attributes quoted with ', no comments).
+ */
+
+import katex from 'katex';
+
+interface MathElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: (MathElement | string)[];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Spacing accents KaTeX writes to the combining characters Word expects
+const OMML_ACCENTS: Record<string, string> = {
+  '^': '̂',
+  'ˉ': '̅',
+  '‾': '̅',
+  '~': '̃',
+  '˙': '̇',
+  '¨': '̈',
+  '→': '⃗',
+};
+
+// Operators written as n-ary objects (limits above and below) rather than as scripts
+const NARY_OPERATORS = new Set(['∑', '∏', '∐', '∫', '∬', '∭', '∮', '⋃', '⋂', '⋁', '⋀', '⨁', '⨂']);
+
+// Font styles of mathvariant (sty = plain or bold, scr = script family)
+const VARIANTS: Record<string, string> = {
+  normal: '<m:sty m:val="p"/>',
+  bold: '<m:sty m:val="b"/>',
+  'bold-italic': '<m:sty m:val="bi"/>',
+  'double-struck': '<m:scr m:val="double-struck"/><m:sty m:val="p"/>',
+  fraktur: '<m:scr m:val="fraktur"/><m:sty m:val="p"/>',
+  script: '<m:scr m:val="script"/><m:sty m:val="p"/>',
+  'sans-serif': '<m:scr m:val="sans-serif"/><m:sty m:val="p"/>',
+  monospace: '<m:scr m:val="monospace"/><m:sty m:val="p"/>',
+};
+
+function decode(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+function parseMathml(xml: string): MathElement {
+  const root: MathElement = { tag: '', attributes: {}, children: [] };
+  const stack = [root];
+  const token = /<(\/?)([\w:-]+)((?:\s+[\w:-]+="[^"]*")*)\s*(\/?)>|([^<]+)/g;
+
+  for (let match = token.exec(xml); match; match = token.exec(xml)) {
+    const [, closing, tag, attributeText, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.children.push(decode(text));
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else {
+      const attributes: Record<string, string> = {};
+      for (const attribute of attributeText.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+        attributes[attribute[1]] = decode(attribute[2]);
+      }
+      const element: MathElement = { tag, attributes, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\|/g, '&#124;');
+}
+
+function mathRun(text: string, properties = ''): string {
+  return `<m:r>${properties ? `<m:rPr>${properties}</m:rPr>` : ''}<m:t xml:space="preserve">${escape(text)}</m:t></m:r>`;
+}
+
+function textOf(node: MathElement | string): string {
+  return typeof node === 'string' ? node : node.children.map(textOf).join('');
+}
+
+function elements(node: MathElement): MathElement[] {
+  return node.children.filter((child): child is MathElement => typeof child !== 'string');
+}
+
+function toOmml(node: MathElement | string): string {
+  if (typeof node === 'string') return mathRun(node);
+
+  const [first, second, third] = elements(node).map(toOmml);
+  switch (node.tag) {
+    case 'annotation':
+    case 'mphantom':
+    case 'mspace':
+      return '';
+    case 'mi': {
+      // Single letters are italic, names (sin, lim...) and \mathrm upright
+      const text = textOf(node);
+      const variant = node.attributes.mathvariant ?? ([...text].length > 1 ? 'normal' : '');
+      return mathRun(text, VARIANTS[variant] ?? '');
+    }
+    case 'mn':
+    case 'mo':
+      return mathRun(textOf(node), VARIANTS[node.attributes.mathvariant] ?? '');
+    case 'mtext':
+      return mathRun(textOf(node), '<m:nor/>');
+    case 'mfrac': {
+      const noBar = node.attributes.linethickness === '0px' ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : '';
+      return `<m:f>${noBar}<m:num>${first}</m:num><m:den>${second}</m:den></m:f>`;
+    }
+    case 'msqrt':
+      return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${elements(node).map(toOmml).join('')}</m:e></m:rad>`;
+    case 'mroot':
+      return `<m:rad><m:deg>${second}</m:deg><m:e>${first}</m:e></m:rad>`;
+    case 'msub':
+      return `<m:sSub><m:e>${first}</m:e><m:sub>${second}</m:sub></m:sSub>`;
+    case 'msup':
+      return `<m:sSup><m:e>${first}</m:e><m:sup>${second}</m:sup></m:sSup>`;
+    case 'msubsup':
+      return `<m:sSubSup><m:e>${first}</m:e><m:sub>${second}</m:sub><m:sup>${third}</m:sup></m:sSubSup>`;
+    case 'mover':
+    case 'munder':
+    case 'munderover': {
+      const [base, lower, upper] = node.tag === 'mover' ? [first, '', second] : [first, second, third ?? ''];
+      const baseText = textOf(elements(node)[0]).trim();
+
+      if (node.tag === 'mover' && node.attributes.accent === 'true') {
+        const accent = textOf(elements(node)[1]).trim();
+        return `<m:acc><m:accPr><m:chr m:val="${escape(OMML_ACCENTS[accent] || accent)}"/></m:accPr><m:e>${base}</m:e></m:acc>`;
+      }
+      if (NARY_OPERATORS.has(baseText)) {
+        const hidden = `${lower ? '' : '<m:subHide m:val="1"/>'}${upper ? '' : '<m:supHide m:val="1"/>'}`;
+        return `<m:nary><m:naryPr><m:chr m:val="${escape(baseText)}"/><m:limLoc m:val="undOvr"/>${hidden}</m:naryPr>` +
+          `<m:sub>${lower}</m:sub><m:sup>${upper}</m:sup><m:e/></m:nary>`;
+      }
+      const withLower = lower ? `<m:limLow><m:e>${base}</m:e><m:lim>${lower}</m:lim></m:limLow>` : base;
+      return upper ? `<m:limUpp><m:e>${withLower}</m:e><m:lim>${upper}</m:lim></m:limUpp>` : withLower;
+    }
+    case 'mtable': {
+      const rows = elements(node).map((row) =>
+        `<m:mr>${elements(row).map((cell) => `<m:e>${toOmml(cell)}</m:e>`).join('')}</m:mr>`
+      );
+      return `<m:m>${rows.join('')}</m:m>`;
+    }
+    default:
+      // math, semantics, mrow, mstyle, mpadded, mtd...: their content in order
+      return node.children.map(toOmml).join('');
+  }
+}
+
+/**
+ * A TeX formula as an OMML <m:oMath> (display: limits above and below, as in a $$ formula)
+ * TeX that KaTeX can't read is written as it is, in red.
+ */
+export function texToOmml(tex: string, display: boolean): string {
+  try {
+    const mathml = katex.renderToString(tex, { displayMode: display, output: 'mathml', throwOnError: true });
+    return `<m:oMath>${toOmml(parseMathml(mathml))}</m:oMath>`;
+  } catch {
+    return `<w:r><w:rPr><w:color w:val="CC0000"/></w:rPr><w:t xml:space="preserve">${escape(tex)}</w:t></w:r>`;
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Reference list of an article, found in the text extracted from its PDF (ArticlePdfText)
+ * The list starts at the last "References" / "Bibliography" heading and ends at the
+ * next back-matter heading (appendix, acknowledgements...) or at the end of the text.
+ * Entries are then split and their fields guessed from the usual styles
+ * (APA / Harvard, IEEE, Vancouver, Chicago).
+ */
+
+import { ParsedReference } from '../../types/reference';
+import { joinName } from './names';
+
+// Heading line of a reference list, optionally numbered ("7. References")
+const REFERENCE_HEADING = new RegExp(
+  '^\\s*(?:[0-9]+\\.?|[IVX]+\\.)?\\s*(' + [
+    'references', 'reference list', 'references and notes', 'bibliography', 'works cited', 'literature cited',
+    'cited literature', 'literature', 'références', 'références bibliographiques', 'bibliographie',
+    'referencias', 'referencias bibliográficas', 'bibliografía', 'bibliografia', 'riferimenti bibliografici',
+    'literaturverzeichnis', 'literatur', 'список литературы', 'литература', '参考文献', 'المراجع', 'מקורות',
+  ].join('|') + ')\\s*:?\\s*$',
+  'imu',
+);
+
+// Headings after the reference list
+const END_HEADING = /^\s*(?:[A-Z]\.?|[0-9]+\.?)?\s*(appendix|appendices|supplementary (?:material|information|data)|acknowledg(?:e)?ments?|annexes?|anhang|about the authors?|author contributions|biographies)\b.{0,40}$/imu;
+
+// Page separator of the extracted text
+const PAGE_SEPARATOR = '\f';
+
+/**
+ * Text of the reference list, or null when no heading is found
+ * The last heading wins: the first ones are usually in a table of contents.
+ */
+export function findReferenceSection(text: string): string | null {
+  const flat = text.split(PAGE_SEPARATOR).join('\n');
+  const headings = [...flat.matchAll(new RegExp(REFERENCE_HEADING.source, 'gimu'))];
+  if (headings.length === 0) return null;
+
+  const last = headings[headings.length - 1];
+  const section = flat.slice((last.index ?? 0) + last[0].length);
+  const end = END_HEADING.exec(section);
+  const references = (end ? section.slice(0, end.index) : section).trim();
+  return references || null;
+}
+
+// DOIs written in the text, lowercased ("https://doi.org/10.1/x." gives "10.1/x")
+export function findDois(text: string): string[] {
+  // A DOI cut at the end of a line continues on the next one
+  const joined = text.replace(/(10\.\d{4,9}\/\S*[-/._])\n(\S)/g, '$1$2');
+  const dois = new Set<string>();
+  for (const match of joined.matchAll(/10\.\d{4,9}\/[^\s"<>]+/g)) {
+    dois.add(match[0].replace(/[.,;:)\]}>]+$/, '').toLowerCase());
+  }
+  return [...dois];
+}
+
+// "[12] ..." or "12. ..." at the start of an entry
+const NUMBER_MARKER = /^\s*(?:\[(\d{1,3})\]|(\d{1,3})[.)])\s+/;
+
+// Line starting like an author list: "Smith, J.", "Smith JA,", "J. Smith,", "van der Berg, A."
+const AUTHOR_START = /^(?:(?:\p{Ll}+ )*\p{Lu}[\p{L}'’-]+(?: \p{Lu}[\p{L}'’-]+)?,\s*\p{Lu}|\p{Lu}[\p{L}'’-]+ \p{Lu}{1,3}[,.]|(?:\p{Lu}\.\s?-?)+\s?\p{Lu}[\p{L}'’-]+,)/u;
+
+// Publication year, possibly with a letter ("2020b")
+const YEAR = /\b((?:19|20)\d{2})[a-z]?\b/;
+
+// Words ending with a period that don't end a sentence
+const ABBREVIATIONS = ['vol', 'no', 'nos', 'pp', 'p', 'ed', 'eds', 'jr', 'sr', 'inc', 'vs', 'eg', 'ie', 'st', 'dr', 'dept', 'univ'];
+
+// An entry shorter than this is a page number, a running header...
+const MIN_ENTRY_LENGTH = 20;
+const MAX_ENTRY_LENGTH = 1500;
+
+// Add a line to an entry: words cut at the end of a line are joined, and so are cut DOIs and links
+function appendLine(entry: string, line: string): string {
+  if (!entry) return line;
+  const lastWord = entry.slice(entry.lastIndexOf(' ') + 1);
+  if (/^(?:https?:|doi:|10\.\d)/i.test(lastWord) && /[-/._]$/.test(lastWord)) return entry + line;
+  if (/\p{L}-$/u.test(entry) && /^\p{Ll}/u.test(line)) return entry.slice(0, -1) + line;
+  return `${entry} ${line}`;
+}
+
+// Entry starts of a numbered list ("[1]" or "1." in sequence), or null when the list isn't numbered
+function numberedStarts(lines: string[]): number[] | null {
+  const bracketed = lines.map((line, i) => (/^\s*\[\d{1,3}\]/.test(line) ? i : -1)).filter((i) => i >= 0);
+  if (bracketed.length >= 2) return bracketed;
+
+  // "1." lines only count when they follow each other, other numbers are volumes or pages
+  const starts: number[] = [];
+  let expected = 1;
+  lines.forEach((line, i) => {
+    const match = NUMBER_MARKER.exec(line);
+    if (match && parseInt(match[2]) === expected) {
+      starts.push(i);
+      expected++;
+    }
+  });
+  return starts.length >= 3 ? starts : null;
+}
+
+/**
+ * Entries of a reference list, each on one line
+ * Numbered lists are split at the numbers; otherwise an entry starts at a line that
+ * looks like an author list, once the current entry has its year or final period.
+ */
+export function splitReferences(section: string): string[] {
+  const lines = section
+    .split('\n')
+    .map((line) => line.trim())
+    // Page numbers of the extracted text
+    .filter((line) => line && !/^\d{1,4}$/.test(line));
+
+  const entries: string[] = [];
+  const numbered = numberedStarts(lines);
+
+  if (numbered) {
+    numbered.forEach((start, i) => {
+      const end = i + 1 < numbered.length ? numbered[i + 1] : lines.length;
+      entries.push(lines.slice(start, end).reduce(appendLine, ''));
+    });
+  } else {
+    let current = '';
+    for (const line of lines) {
+      const complete = YEAR.test(current) || /\.$/.test(current);
+      if (current && complete && AUTHOR_START.test(line)) {
+        entries.push(current);
+        current = '';
+      }
+      current = appendLine(current, line);
+    }
+    if (current) entries.push(current);
+  }
+
+  return entries
+    .map((entry) => entry.replace(/\s+/g, ' ').trim())
+    .filter((entry) => entry.length >= MIN_ENTRY_LENGTH && entry.length <= MAX_ENTRY_LENGTH);
+}
+
+// Whether a period ends a sentence, from the words before it
+// "J." and "vol." don't, unless the initial follows a family name ("Doe B. Title": Vancouver authors)
+function endsSentence(word: string, previous: string): boolean {
+  const bare = word.replace(/^[("“‘]+/, '').replace(/\.$/, '');
+  if (/^\p{Lu}$/u.test(bare)) return /^\p{Lu}[\p{Ll}'’-]+$/u.test(previous);
+  if (/^(?:\p{Lu}\.-?)+\p{Lu}$/u.test(bare) || /^\p{Lu}-\p{Lu}$/u.test(bare)) return false;
+  return !ABBREVIATIONS.includes(bare.toLowerCase());
+}
+
+// Sentences of an entry, split at ". ", "? " and "! " (questions keep their mark)
+function sentences(text: string): string[] {
+  const result: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/([.?!])\s+(?=\S)/g)) {
+    const end = match.index ?? 0;
+    const words = text.slice(0, end + 1).split(' ');
+    if (match[1] === '.' && !endsSentence(words[words.length - 1], words[words.length - 2] || '')) continue;
+    result.push(text.slice(start, match[1] === '.' ? end : end + 1).trim());
+    start = end + match[0].length;
+  }
+  result.push(text.slice(start).replace(/\.$/, '').trim());
+  return result.filter(Boolean);
+}
+
+// Title without its quotes and trailing punctuation
+function cleanTitle(title: string): string {
+  return title.replace(/^[\s"“”'‘’]+/, '').replace(/[\s"“”'‘’,.;:]+$/, '').trim();
+}
+
+// Journal or conference name without volume, issue and pages ("Nature 521, 436-444" -> "Nature")
+function cleanVenue(venue: string): string {
+  return venue
+    .replace(/^(?:in:?\s+)/i, '')
+    .replace(/(?:[,;:.]\s*|\s+)(?:vol\.?\s*|volume\s*)?\d+\s*(?:\(|[,:;.]|$).*$/i, '')
+    .replace(/[\s,.;:]+$/, '')
+    .trim();
+}
+
+// Stored form of an author as written in a reference ("Smith JA" -> "J. A. Smith")
+function authorName(name: string): string {
+  const vancouver = /^(.+?)\s+(\p{Lu}{1,3})$/u.exec(name);
+  if (vancouver) return joinName({ family: vancouver[1], given: vancouver[2].split('').map((letter) => `${letter}.`).join(' ') });
+  return name;
+}
+
+// Initials of given names ("J.", "J. A.", "J.-P.", "JA")
+function isInitials(text: string): boolean {
+  return /^(?:\p{Lu}\.?[\s-]?)+$/u.test(text);
+}
+
+// Author names of the author part of an entry
+function parseAuthors(text: string): string[] {
+  const list = text
+    .replace(/\bet al\.?/gi, '')
+    .replace(/\s*\((?:eds?\.?)\)/gi, '')
+    .replace(/\s*(?:,\s*)?(?:&|\band\b)\s*/g, ', ')
+    .replace(/[\s,;]+$/, '')
+    .trim();
+  if (!list) return [];
+
+  let names: string[];
+  if (list.includes(';')) {
+    names = list.split(';');
+  } else {
+    const parts = list.split(',').map((part) => part.trim()).filter(Boolean);
+    if (parts.length >= 2 && parts.every((part, i) => i % 2 === 0 || isInitials(part))) {
+      // "Smith, J. A., Doe, B." - family names followed by initials
+      names = [];
+      for (let i = 0; i < parts.length; i += 2) {
+        names.push(joinName({ family: parts[i], given: parts[i + 1] || '' }));
+      }
+    } else if (parts.length >= 2 && !parts[0].includes(' ') && parts[1].split(' ').length <= 2 && !isInitials(parts[1])) {
+      // "Smith, John, Jane Doe" - only the first author is inverted (Chicago, MLA)
+      names = [joinName({ family: parts[0], given: parts[1] }), ...parts.slice(2)];
+    } else {
+      names = parts;
+    }
+  }
+
+  return names
+    .map((name) => authorName(name.trim().replace(/(\p{L}{2,})\.$/u, '$1')))
+    .filter((name) => name.length > 1);
+}
+
+/**
+ * Fields of a reference list entry, guessed from its punctuation
+ * - a quoted title (IEEE): authors before it, venue after it
+ * - a year right after the authors (APA, Harvard, Chicago): title and venue follow
+ * - otherwise authors, title and venue are the first sentences (Vancouver)
+ */
+export function parseReference(entry: string): ParsedReference {
+  const raw = entry.replace(/\s+/g, ' ').trim();
+  const text = raw.replace(NUMBER_MARKER, '');
+  const doi = findDois(text)[0] || '';
+
+  // Links and identifiers are not part of the title or venue
+  const body = text
+    .replace(/(?:https?:\/\/)?(?:dx\.)?doi\.org\/\S+/gi, '')
+    .replace(/\bdoi:?\s*10\.\S+/gi, '')
+    .replace(/\b10\.\d{4,9}\/\S+/g, '')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/\b(?:available (?:at|from)|retrieved from|accessed)\b.*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const reference: ParsedReference = { raw, authors: [], title: '', year: null, venue: '', doi };
+  const yearMatch = YEAR.exec(body);
+  reference.year = yearMatch ? parseInt(yearMatch[1]) : null;
+
+  const quoted = /[“"]([^”"]{5,})[”"]/.exec(body);
+  if (quoted) {
+    // Chicago puts the year between the authors and the title
+    const before = body.slice(0, quoted.index);
+    const year = YEAR.exec(before);
+    reference.authors = parseAuthors(year ? before.slice(0, year.index) : before);
+    reference.title = cleanTitle(quoted[1]);
+    const after = body.slice((quoted.index ?? 0) + quoted[0].length).replace(/^[\s,.]+/, '');
+    reference.venue = cleanVenue(after.split(',')[0]);
+    return reference;
+  }
+
+  const beforeYear = yearMatch ? body.slice(0, yearMatch.index).replace(/[\s(]+$/, '') : '';
+  if (yearMatch && sentences(beforeYear).length <= 1) {
+    reference.authors = parseAuthors(beforeYear);
+    const rest = body.slice((yearMatch.index ?? 0) + yearMatch[0].length).replace(/^[\s).,:;]+/, '');
+    const [title = '', ...venue] = sentences(rest);
+    reference.title = cleanTitle(title);
+    reference.venue = cleanVenue(venue.join('. '));
+    return reference;
+  }
+
+  const [authors = '', title = '', ...venue] = sentences(body);
+  reference.authors = parseAuthors(authors);
+  reference.title = cleanTitle(title);
+  reference.venue = cleanVenue(venue.join('. '));
+  return reference;
+}
@@ -0,0 +1,172 @@
+/**
+ * RIS conversion: Article -> JOUR records, .ris file -> ArticleFormData
+ * Tag lines are "TY  - JOUR": two-letter tag, two spaces, dash, space, value.
+ */
+
+import { Article, ArticleFormData } from '../../types/article';
+import { ImportParseResult } from '../../types/interchange';
+import { splitName, joinName } from './names';
+import { importedFormData, cleanDoi, pageRangeCount, languageName, dateParts, partsToDate } from './fields';
+
+const TAG_LINE = /^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/;
+
+// ============================================
+// Export
+// ============================================
+
+function articleToRis(article: Article, key: string): string {
+  const lines: string[] = [];
+  // Line breaks would end the value early
+  const add = (tag: string, value: string | number | undefined) => {
+    const text = String(value ?? '').replace(/\s*\n\s*/g, ' ').trim();
+    if (text) lines.push(`${tag}  - ${text}`);
+  };
+
+  add('TY', 'JOUR');
+  add('ID', key);
+  for (const author of article.authors || []) {
+    const { family, given } = splitName(author.name);
+    add('AU', given ? `${family}, ${given}` : family);
+  }
+  add('TI', article.title);
+  add('T2', article.journal);
+  add('PY', article.year);
+
+  // RIS dates are YYYY/MM/DD/ with empty parts when unknown
+  const [year, month, day] = dateParts(article.date, article.year);
+  if (month) {
+    const pad = (value: number | undefined) => (value ? String(value).padStart(2, '0') : '');
+    add('DA', `${year}/${pad(month)}/${pad(day)}/`);
+  }
+
+  add('DO', article.doi);
+  for (const keyword of article.keywords || []) add('KW', keyword.name);
+  add('AB', article.abstract);
+  add('LA', article.language);
+  if (article.numPages) add('SP', `1-${article.numPages}`);
+  lines.push('ER  - ');
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert articles to the content of a .ris file
+ * @param keys Citation key per article ID (see getLibraryCitationKeys)
+ */
+export function articlesToRis(articles: Article[], keys: Map<string, string>): string {
+  return articles.map((article) => articleToRis(article, keys.get(article.id) || article.id)).join('\n\n') + '\n';
+}
+
+// ============================================
+// Import
+// ============================================
+
+interface RisRecord {
+  type: string;
+  tags: Record<string, string[]>;
+  line: number; // Line of the TY tag, for error messages
+}
+
+// Split the file into records: TY starts one, ER ends it, untagged lines continue the previous value
+function readRecords(text: string): { records: RisRecord[]; errors: string[] } {
+  const records: RisRecord[] = [];
+  const errors: string[] = [];
+  let current: RisRecord | null = null;
+  let lastTag: string | null = null;
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].replace(/\s+$/, '');
+    const match = TAG_LINE.exec(line);
+
+    if (!match) {
+      // Continuation of a long abstract or title
+      if (current && lastTag && line.trim()) {
+        const values = current.tags[lastTag];
+        values[values.length - 1] = `${values[values.length - 1]} ${line.trim()}`.trim();
+      }
+      continue;
+    }
+
+    const [, tag, value = ''] = match;
+    if (tag === 'TY') {
+      if (current) errors.push(`Line ${current.line}: record not closed with ER`);
+      current = { type: value.trim(), tags: {}, line: index + 1 };
+      lastTag = null;
+      continue;
+    }
+    if (!current) continue;
+    if (tag === 'ER') {
+      records.push(current);
+      current = null;
+      lastTag = null;
+      continue;
+    }
+
+    (current.tags[tag] = current.tags[tag] || []).push(value.trim());
+    lastTag = tag;
+  }
+
+  // A missing ER at the end of the file is common: keep the record
+  if (current) records.push(current);
+  return { records, errors };
+}
+
+// "2020/05/17/", "2020///Spring" or "2020-05-17" -> date parts
+function parseRisDate(value: string | undefined): { year: number; month?: number; day?: number } | null {
+  const match = /^(\d{4})(?:[/-](\d{1,2})?(?:[/-](\d{1,2})?)?)?/.exec((value || '').trim());
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]) || undefined, day: Number(match[3]) || undefined };
+}
+
+function recordToFormData(record: RisRecord): ArticleFormData {
+  const all = (...tags: string[]) => tags.flatMap((tag) => record.tags[tag] || []).filter(Boolean);
+  const first = (...tags: string[]) => all(...tags)[0] || '';
+
+  const title = first('TI', 'T1', 'CT', 'BT');
+  if (!title) throw new Error('missing title');
+
+  const date = parseRisDate(first('DA')) || parseRisDate(first('PY', 'Y1'));
+  const year = parseRisDate(first('PY', 'Y1'))?.year || date?.year || new Date().getFullYear();
+
+  // DOI tag, or a doi.org link in UR
+  const doiLink = all('UR', 'L3').find((url) => /doi\.org\//i.test(url));
+
+  // Pages as SP "123-145" or SP 123 + EP 145
+  const startPage = first('SP');
+  const endPage = first('EP');
+  const pages = endPage ? `${startPage}-${endPage}` : startPage;
+
+  return importedFormData({
+    title,
+    abstract: first('AB', 'N2'),
+    year,
+    date: date && date.year === year ? partsToDate(year, date.month, date.day) : partsToDate(year),
+    journal: first('JF', 'T2', 'JO', 'JA', 'J2', 'PB'),
+    doi: cleanDoi(first('DO') || doiLink),
+    language: languageName(first('LA')),
+    numPages: pageRangeCount(pages),
+    // Editors only when there is no author (edited books)
+    authors: (all('AU', 'A1').length > 0 ? all('AU', 'A1') : all('A2', 'ED')).map((name) => joinName(splitName(name))),
+    // Some tools put several keywords on one KW line
+    keywords: all('KW').flatMap((keyword) => keyword.split(/;/)).map((keyword) => keyword.trim()).filter(Boolean),
+  });
+}
+
+/**
+ * Parse a .ris file into article form data
+ * Every record type is accepted (JOUR, CONF, BOOK...)
+ */
+export function parseRis(text: string): ImportParseResult {
+  const { records, errors } = readRecords(text);
+
+  const result: ImportParseResult = { articles: [], errors };
+  for (const record of records) {
+    try {
+      result.articles.push(recordToFormData(record));
+    } catch (error: any) {
+      result.errors.push(`${record.tags.ID?.[0] || `Line ${record.line}`}: ${error.message}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,103 @@
+/**
+ * IPC Handlers for PDF annotations (integrated reader)
+ * Handles: list, create, update (color/comment), delete
+ * Rects are stored as JSON, in fractions of the page size.
+ * Highlighted text and comments are part of the article's search index row.
+ * Changes to annotations imported from the PDF are marked, so that the next import keeps them.
+ */
+
+import { ipcMain } from 'electron';
+import { getDb, updateSearchIndex } from '../database';
+import { getArticleAnnotations, toAnnotation } from '../pdfAnnotations';
+import { Annotation, AnnotationInput, AnnotationUpdate } from '../../types/annotation';
+
+const TYPES = ['highlight', 'note', 'bookmark'];
+const COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'];
+
+function getAnnotation(id: number): Annotation {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM Annotation WHERE id = ?`).get(id);
+  if (!row) {
+    throw new Error(`Annotation ${id} not found`);
+  }
+  return toAnnotation(row);
+}
+
+// List the annotations of an article, in reading order
+ipcMain.handle('annotations:list', async (_event, articleId: string) => {
+  try {
+    return getArticleAnnotations(articleId);
+  } catch (error) {
+    console.error('Error listing annotations:', error);
+    throw error;
+  }
+});
+
+// Add an annotation to an article
+ipcMain.handle('annotations:create', async (_event, articleId: string, input: AnnotationInput) => {
+  try {
+    const db = getDb();
+    if (!TYPES.includes(input.type)) {
+      throw new Error(`Unknown annotation type: ${input.type}`);
+    }
+    if (!Number.isInteger(input.page) || input.page < 1) {
+      throw new Error(`Invalid page: ${input.page}`);
+    }
+
+    const result = db.prepare(`
+      INSERT INTO Annotation (articleId, type, page, rects, color, text, comment)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      articleId,
+      input.type,
+      input.page,
+      JSON.stringify(input.rects || []),
+      COLORS.includes(input.color) ? input.color : 'yellow',
+      input.text || null,
+      input.comment || null
+    );
+    updateSearchIndex(articleId);
+    return getAnnotation(result.lastInsertRowid as number);
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    throw error;
+  }
+});
+
+// Change the color or comment of an annotation
+ipcMain.handle('annotations:update', async (_event, id: number, changes: AnnotationUpdate) => {
+  try {
+    const db = getDb();
+    const annotation = getAnnotation(id);
+    const color = changes.color && COLORS.includes(changes.color) ? changes.color : annotation.color;
+    const comment = changes.comment !== undefined ? changes.comment || null : annotation.comment;
+
+    db.prepare(`
+      UPDATE Annotation SET color = ?, comment = ?, updatedAt = datetime('now'),
+        editedAt = CASE WHEN source = 'pdf' THEN datetime('now') ELSE editedAt END
+      WHERE id = ?
+    `).run(color, comment, id);
+    updateSearchIndex(annotation.articleId);
+    return getAnnotation(id);
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    throw error;
+  }
+});
+
+// Delete an annotation - one imported from the PDF is kept as deleted, to be removed from the PDF on export
+ipcMain.handle('annotations:delete', async (_event, id: number) => {
+  try {
+    const db = getDb();
+    const annotation = getAnnotation(id);
+    if (annotation.source === 'pdf' && annotation.pdfAnnotationId) {
+      db.prepare(`UPDATE Annotation SET deletedAt = datetime('now') WHERE id = ?`).run(id);
+    } else {
+      db.prepare(`DELETE FROM Annotation WHERE id = ?`).run(id);
+    }
+    updateSearchIndex(annotation.articleId);
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    throw error;
+  }
+});
@@ -6,112 +6,124 @@
 import { ipcMain } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Article, ArticleFormData } from '../../types/article';
-import { getDb, getOrCreateEntity, linkArticleEntity, clearArticleRelations, getNextArticleId } from '../database';
+import { Article, ArticleFormData, BulkArticleUpdate, BulkRelation } from '../../types/article';
+import { ArticleSearchOptions } from '../../types/search';
+import { ArticleQueryRequest } from '../../types/query';
+import { ArticleMergeRequest, MergeField } from '../../types/duplicates';
+import { getDb, getOrCreateEntity, linkArticleEntity, clearArticleRelations, getNextArticleId, updateSearchIndex } from '../database';
+import { searchArticles } from '../search';
+import { runStructuredQuery, analyzeQuery } from '../queryLanguage';
+import { loadArticles, queryArticles } from '../articleQuery';
+import { findDuplicates } from '../duplicates';
 import { StoragePaths } from '../paths';
+import { recordRevision } from '../revisions';
+import { deleteStoredFiles, findStoredFile, makeName, storageFolders } from '../storedFiles';
+import { emptyTrash, getTrashedArticles, purgeArticle, restoreTrashedArticle, trashArticle } from '../trash';
 
-// Utility function to transform DB result to Article type with relations
+// Load an article with its relations (authors, keywords...)
 function getArticleWithRelations(id: string): Article | null {
-  const db = getDb();
-  const articleStmt = db.prepare(`SELECT * FROM Article WHERE id = ?`);
-  const article = articleStmt.get(id) as any;
-
-  if (!article) return null;
-
-  // Get related entities
-  const authors = db.prepare(`
-    SELECT a.id, a.name FROM Author a
-    JOIN ArticleAuthor aa ON a.id = aa.authorId
-    WHERE aa.articleId = ?
-  `).all(id) as Array<{ id: number; name: string }>;
-
-  const keywords = db.prepare(`
-    SELECT k.id, k.name FROM Keyword k
-    JOIN ArticleKeyword ak ON k.id = ak.keywordId
-    WHERE ak.articleId = ?
-  `).all(id) as Array<{ id: number; name: string }>;
-
-  const subjects = db.prepare(`
-    SELECT s.id, s.name FROM Subject s
-    JOIN ArticleSubject as_join ON s.id = as_join.subjectId
-    WHERE as_join.articleId = ?
-  `).all(id) as Array<{ id: number; name: string }>;
-
-  const tags = db.prepare(`
-    SELECT t.id, t.name FROM Tag t
-    JOIN ArticleTag at ON t.id = at.tagId
-    WHERE at.articleId = ?
-  `).all(id) as Array<{ id: number; name: string }>;
-
-  const universities = db.prepare(`
-    SELECT u.id, u.name FROM University u
-    JOIN ArticleUniversity au ON u.id = au.universityId
-    WHERE au.articleId = ?
-  `).all(id) as Array<{ id: number; name: string }>;
-
-  const companies = db.prepare(`
-    SELECT c.id, c.name FROM Company c
-    JOIN ArticleCompany ac ON c.id = ac.companyId
-    WHERE ac.articleId = ?
-  `).all(id) as Array<{ id: number; name: string }>;
-
-  return {
-    id: article.id,
-    title: article.title,
-    abstract: article.abstract,
-    conclusion: article.conclusion || undefined,
-    year: article.year,
-    date: article.date,
-    dateAdded: article.dateAdded,
-    journal: article.journal || undefined,
-    doi: article.doi || undefined,
-    language: article.language || undefined,
-    numPages: article.numPages || undefined,
-    researchQuestion: article.researchQuestion || undefined,
-    methodology: article.methodology || undefined,
-    dataUsed: article.dataUsed || undefined,
-    results: article.results || undefined,
-    limitations: article.limitations || undefined,
-    firstImp: article.firstImp || undefined,
-    notes: article.notes || undefined,
-    comment: article.comment || undefined,
-    rating: article.rating,
-    read: Boolean(article.read),
-    favorite: Boolean(article.favorite),
-    fileName: article.fileName,
-    createdAt: article.createdAt || undefined,
-    updatedAt: article.updatedAt || undefined,
-    authors,
-    keywords,
-    subjects,
-    tags,
-    universities,
-    companies,
-  };
+  return loadArticles([id])[0] || null;
 }
 
 // Get all articles
 ipcMain.handle('articles:getAll', async () => {
   try {
     const db = getDb();
-    const articleIds = db.prepare(`SELECT id FROM Article ORDER BY dateAdded DESC`).all() as Array<{ id: string }>;
-    return articleIds.map(({ id }) => getArticleWithRelations(id)).filter(Boolean);
+    const articleIds = db.prepare(`SELECT id FROM Article WHERE deletedAt IS NULL ORDER BY dateAdded DESC`).all() as Array<{ id: string }>;
+    return loadArticles(articleIds.map(({ id }) => id));
   } catch (error) {
     console.error('Error getting articles:', error);
     throw error;
   }
 });
 
-// Get article by ID
+// One page of the Library: filters, sort, page cursor - with the total and facet counts
+ipcMain.handle('articles:query', async (_event, request: ArticleQueryRequest) => {
+  try {
+    return queryArticles(request);
+  } catch (error) {
+    console.error('Error querying articles:', error);
+    throw error;
+  }
+});
+
+// Several articles by ID, in the order given (actions on a selection that isn't loaded)
+ipcMain.handle('articles:getByIds', async (_event, ids: string[]) => {
+  try {
+    return loadArticles(ids);
+  } catch (error) {
+    console.error('Error getting articles:', error);
+    throw error;
+  }
+});
+
+// Articles with one of these titles (case and surrounding spaces ignored), to spot duplicates before an import
+ipcMain.handle('articles:findByTitles', async (_event, titles: string[]) => {
+  try {
+    const db = getDb();
+    const keys = [...new Set(titles.map((title) => title.toLowerCase().trim()).filter(Boolean))];
+    const ids: string[] = [];
+    for (let start = 0; start < keys.length; start += 500) {
+      const batch = keys.slice(start, start + 500);
+      const rows = db.prepare(
+        `SELECT id FROM Article WHERE titleKey(title) IN (${batch.map(() => '?').join(',')}) AND deletedAt IS NULL`
+      ).all(...batch) as Array<{ id: string }>;
+      ids.push(...rows.map(({ id }) => id));
+    }
+    return loadArticles(ids);
+  } catch (error) {
+    console.error('Error finding articles by title:', error);
+    throw error;
+  }
+});
+
+// Current ID of an article: retired IDs of merged duplicates lead to the article they were merged into
+function resolveArticleId(id: string): string {
+  const db = getDb();
+  const redirect = db.prepare(`SELECT toId FROM ArticleRedirect WHERE fromId = ?`).get(id) as { toId: string } | undefined;
+  return redirect ? redirect.toId : id;
+}
+
+// Get article by ID (the returned article has another ID if the requested one was merged)
 ipcMain.handle('articles:getById', async (_event, id: string) => {
   try {
-    return getArticleWithRelations(id);
+    return getArticleWithRelations(id) || getArticleWithRelations(resolveArticleId(id));
   } catch (error) {
     console.error('Error getting article:', error);
     throw error;
   }
 });
 
+// Full-text search (fields + PDF text), best matches first
+ipcMain.handle('articles:search', async (_event, query: string, options?: ArticleSearchOptions) => {
+  try {
+    return searchArticles(query, options);
+  } catch (error) {
+    console.error('Error searching articles:', error);
+    throw error;
+  }
+});
+
+// Search bar query language (author:"Smith" year:2018..2022 -read ...), evaluated in SQL
+ipcMain.handle('articles:structuredSearch', async (_event, query: string) => {
+  try {
+    return runStructuredQuery(query);
+  } catch (error) {
+    console.error('Error running search query:', error);
+    throw error;
+  }
+});
+
+// Errors and autocomplete for a query being typed
+ipcMain.handle('articles:analyzeQuery', async (_event, query: string, cursor: number) => {
+  try {
+    return analyzeQuery(query, cursor);
+  } catch (error) {
+    console.error('Error analyzing search query:', error);
+    throw error;
+  }
+});
+
 // Create new article
 ipcMain.handle('articles:create', async (_event, formData: ArticleFormData) => {
   try {
@@ -121,7 +133,7 @@ ipcMain.handle('articles:create', async (_event, formData: ArticleFormData) => {
       SELECT a.id FROM Article a
       JOIN ArticleAuthor aa ON a.id = aa.articleId
       JOIN Author au ON aa.authorId = au.id
-      WHERE a.title = ? AND au.name IN (${formData.authors.map(() => '?').join(',')})
+      WHERE a.title = ? AND a.deletedAt IS NULL AND au.name IN (${formData.authors.map(() => '?').join(',')})
       GROUP BY a.id
     `);
     const exists = duplicateCheck.get(formData.title, ...formData.authors);
@@ -209,6 +221,9 @@ ipcMain.handle('articles:create', async (_event, formData: ArticleFormData) => {
         const company = getOrCreateEntity('Company', name);
         linkArticleEntity('ArticleCompany', nextId, company.id);
       });
+
+      updateSearchIndex(nextId);
+      recordRevision(nextId, 'create');
     });
 
     createArticle();
@@ -366,6 +381,9 @@ ipcMain.handle('articles:update', async (_event, id: string, formData: Partial<A
           linkArticleEntity('ArticleCompany', id, company.id);
         });
       }
+
+      updateSearchIndex(id);
+      recordRevision(id, 'update');
     });
 
     updateArticle();
@@ -377,98 +395,264 @@ ipcMain.handle('articles:update', async (_event, id: string, formData: Partial<A
   }
 });
 
-// Delete article
-// Helper to generate file name from ID and title (same logic as files.ts)
-function makeName(id: string, title: string): string {
-  const cleanTitle = title
-    .replace(/[<>:"/\\|?*]/g, '-')
-    .replace(/_/g, ' ')
-    .trim();
-  const baseName = `${id} - ${cleanTitle}`;
-  const maxLength = 200;
-  if (baseName.length > maxLength) {
-    return baseName.substring(0, maxLength).trim();
+// Entity table and junction table behind each relation a bulk edit can change
+const BULK_RELATION_TABLES: Record<BulkRelation, { table: string; junction: string; column: string }> = {
+  tags: { table: 'Tag', junction: 'ArticleTag', column: 'tagId' },
+  keywords: { table: 'Keyword', junction: 'ArticleKeyword', column: 'keywordId' },
+  subjects: { table: 'Subject', junction: 'ArticleSubject', column: 'subjectId' },
+};
+
+// Apply the same change to many articles in one transaction (Library bulk actions)
+ipcMain.handle('articles:bulkUpdate', async (_event, ids: string[], changes: BulkArticleUpdate) => {
+  try {
+    if (ids.length === 0) return [];
+
+    const db = getDb();
+    const placeholders = ids.map(() => '?').join(',');
+
+    const bulkUpdate = db.transaction(() => {
+      const updates: string[] = [];
+      const values: any[] = [];
+
+      if (changes.read !== undefined) {
+        updates.push('read = ?');
+        values.push(changes.read ? 1 : 0);
+      }
+      if (changes.favorite !== undefined) {
+        updates.push('favorite = ?');
+        values.push(changes.favorite ? 1 : 0);
+      }
+      if (changes.rating !== undefined) {
+        updates.push('rating = ?');
+        values.push(changes.rating);
+      }
+
+      (Object.keys(BULK_RELATION_TABLES) as BulkRelation[]).forEach((relation) => {
+        const { table, junction, column } = BULK_RELATION_TABLES[relation];
+
+        (changes.add?.[relation] || []).forEach((name) => {
+          const entity = getOrCreateEntity(table, name);
+          ids.forEach((id) => linkArticleEntity(junction, id, entity.id));
+        });
+
+        const removed = changes.remove?.[relation] || [];
+        if (removed.length > 0) {
+          db.prepare(`
+            DELETE FROM ${junction}
+            WHERE articleId IN (${placeholders})
+              AND ${column} IN (SELECT id FROM ${table} WHERE name IN (${removed.map(() => '?').join(',')}))
+          `).run(...ids, ...removed);
+        }
+      });
+
+      updates.push(`updatedAt = datetime('now')`);
+      db.prepare(`UPDATE Article SET ${updates.join(', ')} WHERE id IN (${placeholders})`).run(...values, ...ids);
+
+      ids.forEach((id) => {
+        updateSearchIndex(id);
+        recordRevision(id, 'update');
+      });
+    });
+
+    bulkUpdate();
+
+    return loadArticles(ids);
+  } catch (error) {
+    console.error('Error bulk updating articles:', error);
+    throw error;
   }
-  return baseName;
-}
+});
 
+// Delete article (it goes to the trash)
 ipcMain.handle('articles:delete', async (_event, id: string) => {
   try {
-    const db = getDb();
+    trashArticle(id);
+  } catch (error) {
+    console.error('Error deleting article:', error);
+    throw error;
+  }
+});
 
-    // Get article title for file name lookup
-    const article = db.prepare(`SELECT title FROM Article WHERE id = ?`).get(id) as { title: string } | undefined;
-    const title = article?.title || '';
+// Delete several articles with one confirmation (Library bulk delete)
+ipcMain.handle('articles:deleteMany', async (_event, ids: string[]) => {
+  try {
+    ids.forEach((id) => trashArticle(id));
+  } catch (error) {
+    console.error('Error deleting articles:', error);
+    throw error;
+  }
+});
 
-    // Use centralized StoragePaths for storage location
-    const storagePath = StoragePaths.root;
+// Articles in the trash, most recently deleted first
+ipcMain.handle('articles:trash', async () => {
+  try {
+    return getTrashedArticles();
+  } catch (error) {
+    console.error('Error listing trashed articles:', error);
+    throw error;
+  }
+});
 
-    // Try to delete PDF with new format first, then old format
-    const newPdfName = makeName(id, title) + '.pdf';
-    const oldPdfName = `${id}.pdf`;
+// Bring an article back from the trash
+ipcMain.handle('articles:undelete', async (_event, id: string) => {
+  try {
+    restoreTrashedArticle(id);
+    console.log(`Restored article ${id} from the trash`);
+    return getArticleWithRelations(id);
+  } catch (error) {
+    console.error('Error restoring article:', error);
+    throw error;
+  }
+});
 
-    const newPdfPath = path.join(storagePath, 'pdfs', newPdfName);
-    const oldPdfPath = path.join(storagePath, 'pdfs', oldPdfName);
+// Delete trashed articles for good
+ipcMain.handle('articles:purge', async (_event, ids: string[]) => {
+  try {
+    ids.forEach((id) => purgeArticle(id));
+  } catch (error) {
+    console.error('Error purging articles:', error);
+    throw error;
+  }
+});
 
-    if (fs.existsSync(newPdfPath)) {
-      fs.unlinkSync(newPdfPath);
-      console.log(`Deleted PDF: ${newPdfPath}`);
-    } else if (fs.existsSync(oldPdfPath)) {
-      fs.unlinkSync(oldPdfPath);
-      console.log(`Deleted PDF (old format): ${oldPdfPath}`);
-    }
+// Delete every article in the trash for good
+ipcMain.handle('articles:emptyTrash', async () => {
+  try {
+    return emptyTrash();
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    throw error;
+  }
+});
+
+// Find likely duplicates (same DOI, or similar title and authors)
+ipcMain.handle('articles:findDuplicates', async () => {
+  try {
+    return findDuplicates();
+  } catch (error) {
+    console.error('Error finding duplicates:', error);
+    throw error;
+  }
+});
 
-    // Try to delete Note with new format first, then old format
-    const newNoteName = makeName(id, title) + '.docx';
-    const oldNoteName = `${id}.docx`;
+// Article columns a merge can take from the retired article
+const MERGE_FIELDS: MergeField[] = [
+  'title', 'abstract', 'conclusion', 'year', 'date', 'journal', 'doi', 'language', 'numPages',
+  'researchQuestion', 'methodology', 'dataUsed', 'results', 'limitations', 'firstImp', 'notes', 'comment',
+  'rating', 'read', 'favorite',
+];
 
-    const newNotePath = path.join(storagePath, 'notes', newNoteName);
-    const oldNotePath = path.join(storagePath, 'notes', oldNoteName);
+const JUNCTION_TABLES = ['ArticleAuthor', 'ArticleKeyword', 'ArticleSubject', 'ArticleTag', 'ArticleUniversity', 'ArticleCompany'];
 
-    if (fs.existsSync(newNotePath)) {
-      fs.unlinkSync(newNotePath);
-      console.log(`Deleted Note: ${newNotePath}`);
-    } else if (fs.existsSync(oldNotePath)) {
-      fs.unlinkSync(oldNotePath);
-      console.log(`Deleted Note (old format): ${oldNotePath}`);
+/**
+ * Merge a duplicate into another article
+ * Picked field values are copied, relations are unioned, one PDF is kept and the
+ * retired ID is redirected. The Word note has to be generated again afterwards.
+ */
+ipcMain.handle('articles:merge', async (_event, request: ArticleMergeRequest) => {
+  try {
+    const db = getDb();
+    const { keepId, retireId } = request;
+
+    if (keepId === retireId) {
+      throw new Error('Cannot merge an article with itself');
+    }
+
+    const keep = db.prepare(`SELECT * FROM Article WHERE id = ? AND deletedAt IS NULL`).get(keepId) as Record<string, any> | undefined;
+    const retire = db.prepare(`SELECT * FROM Article WHERE id = ? AND deletedAt IS NULL`).get(retireId) as Record<string, any> | undefined;
+    if (!keep || !retire) {
+      throw new Error(`Article ${keep ? retireId : keepId} not found`);
     }
 
-    // Also delete from external storage if configured
-    const settings = db.prepare(`SELECT externalStoragePath, useExternalStorage FROM UserSettings LIMIT 1`).get() as {
-      externalStoragePath: string | null;
-      useExternalStorage: number | null;
-    } | undefined;
+    const picked = MERGE_FIELDS.filter((field) => request.fields[field] === 'retire');
+    const finalTitle: string = picked.includes('title') ? retire.title : keep.title;
+
+    // The PDF asked for, or the other one if that article has none
+    const internalPdfs = path.join(StoragePaths.root, 'pdfs');
+    const retireHasPdf = Boolean(findStoredFile(internalPdfs, retireId, retire.title, '.pdf'));
+    const keepHasPdf = Boolean(findStoredFile(internalPdfs, keepId, keep.title, '.pdf'));
+    const pdfFromRetired = request.pdf === 'retire' ? retireHasPdf : !keepHasPdf && retireHasPdf;
+
+    const mergeArticles = db.transaction(() => {
+      if (picked.length > 0) {
+        db.prepare(`
+          UPDATE Article SET ${picked.map((field) => `${field} = ?`).join(', ')}, updatedAt = datetime('now')
+          WHERE id = ?
+        `).run(...picked.map((field) => retire[field]), keepId);
+      }
 
-    if (settings?.useExternalStorage && settings?.externalStoragePath) {
-      // Try new format first
-      const extNewPdfPath = path.join(settings.externalStoragePath, 'pdfs', newPdfName);
-      const extOldPdfPath = path.join(settings.externalStoragePath, 'pdfs', oldPdfName);
+      // Union of authors, keywords, subjects, tags, universities and companies
+      JUNCTION_TABLES.forEach((junctionTable) => {
+        const column = `${junctionTable.replace('Article', '').toLowerCase()}Id`;
+        db.prepare(`
+          INSERT OR IGNORE INTO ${junctionTable} (articleId, ${column})
+          SELECT ?, ${column} FROM ${junctionTable} WHERE articleId = ?
+        `).run(keepId, retireId);
+      });
 
-      if (fs.existsSync(extNewPdfPath)) {
-        fs.unlinkSync(extNewPdfPath);
-        console.log(`Deleted external PDF: ${extNewPdfPath}`);
-      } else if (fs.existsSync(extOldPdfPath)) {
-        fs.unlinkSync(extOldPdfPath);
-        console.log(`Deleted external PDF (old format): ${extOldPdfPath}`);
+      // Collections of the retired article get the kept one, in the same place
+      db.prepare(`
+        INSERT OR IGNORE INTO CollectionArticle (collectionId, articleId, position, addedAt)
+        SELECT collectionId, ?, position, addedAt FROM CollectionArticle WHERE articleId = ?
+      `).run(keepId, retireId);
+
+      // Relations of the retired article move to the kept one (unless it has the same, or it would point to itself)
+      db.prepare(`UPDATE OR IGNORE ArticleRelation SET fromId = ? WHERE fromId = ?`).run(keepId, retireId);
+      db.prepare(`UPDATE OR IGNORE ArticleRelation SET toId = ? WHERE toId = ?`).run(keepId, retireId);
+      db.prepare(`DELETE FROM ArticleRelation WHERE fromId = toId`).run();
+
+      // The extracted text and the annotations follow the PDF: annotations made on the discarded one
+      // would point at pages of a file they were never made on
+      if (pdfFromRetired) {
+        db.prepare(`DELETE FROM ArticlePdfText WHERE articleId = ?`).run(keepId);
+        db.prepare(`UPDATE ArticlePdfText SET articleId = ? WHERE articleId = ?`).run(keepId, retireId);
+        db.prepare(`DELETE FROM Annotation WHERE articleId = ?`).run(keepId);
+        db.prepare(`UPDATE Annotation SET articleId = ? WHERE articleId = ?`).run(keepId, retireId);
+      } else {
+        db.prepare(`DELETE FROM Annotation WHERE articleId = ?`).run(retireId);
       }
 
-      const extNewNotePath = path.join(settings.externalStoragePath, 'notes', newNoteName);
-      const extOldNotePath = path.join(settings.externalStoragePath, 'notes', oldNoteName);
+      // Old links to the retired article (and to articles merged into it before) lead to the kept one
+      db.prepare(`UPDATE ArticleRedirect SET toId = ? WHERE toId = ?`).run(keepId, retireId);
+      db.prepare(`INSERT OR REPLACE INTO ArticleRedirect (fromId, toId) VALUES (?, ?)`).run(retireId, keepId);
+
+      recordRevision(retireId, 'merge');
+      db.prepare(`DELETE FROM Article WHERE id = ?`).run(retireId);
+      updateSearchIndex(keepId);
+      updateSearchIndex(retireId);
+      recordRevision(keepId, 'update');
+    });
+
+    mergeArticles();
 
-      if (fs.existsSync(extNewNotePath)) {
-        fs.unlinkSync(extNewNotePath);
-        console.log(`Deleted external Note: ${extNewNotePath}`);
-      } else if (fs.existsSync(extOldNotePath)) {
-        fs.unlinkSync(extOldNotePath);
-        console.log(`Deleted external Note (old format): ${extOldNotePath}`);
+    // Keep one PDF, named after the final title (in internal and external storage)
+    for (const folder of storageFolders('pdfs')) {
+      const keptFile = findStoredFile(folder, keepId, keep.title, '.pdf');
+      const retiredFile = findStoredFile(folder, retireId, retire.title, '.pdf');
+      const survivor = pdfFromRetired ? retiredFile : keptFile;
+      const discarded = pdfFromRetired ? keptFile : retiredFile;
+
+      if (discarded) {
+        fs.unlinkSync(discarded);
+        console.log(`Deleted merged PDF: ${discarded}`);
+      }
+      if (survivor) {
+        const finalPath = path.join(folder, makeName(keepId, finalTitle) + '.pdf');
+        if (survivor !== finalPath) {
+          fs.renameSync(survivor, finalPath);
+          console.log(`Moved PDF: ${survivor} → ${finalPath}`);
+        }
       }
     }
 
-    // CASCADE DELETE will handle relations automatically due to foreign keys
-    const deleteStmt = db.prepare(`DELETE FROM Article WHERE id = ?`);
-    deleteStmt.run(id);
+    // Both notes describe the articles before the merge
+    deleteStoredFiles('notes', keepId, keep.title);
+    deleteStoredFiles('notes', retireId, retire.title);
+
+    console.log(`Merged article ${retireId} into ${keepId}`);
+    return getArticleWithRelations(keepId);
   } catch (error) {
-    console.error('Error deleting article:', error);
+    console.error('Error merging articles:', error);
     throw error;
   }
 });
@@ -0,0 +1,106 @@
+/**
+ * IPC Handlers for backups of the library
+ * Handles: listing, creating, verifying, deleting and restoring backups, backup settings
+ */
+
+import { ipcMain } from 'electron';
+import { getDb } from '../database';
+import {
+  createBackup,
+  deleteBackup,
+  getBackupSettings,
+  listBackups,
+  prepareRestore,
+  verifyBackup,
+} from '../backup';
+import { BackupInfo, BackupSettings, BackupVerification } from '../../types/backup';
+
+// Backups, newest first
+ipcMain.handle('backups:list', async (): Promise<BackupInfo[]> => {
+  try {
+    return listBackups();
+  } catch (error) {
+    console.error('Error listing backups:', error);
+    throw error;
+  }
+});
+
+// Back up the library now (PDFs and notes too if the setting says so)
+ipcMain.handle('backups:create', async (): Promise<BackupInfo> => {
+  try {
+    return await createBackup('manual');
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw error;
+  }
+});
+
+// Check the files of a backup against its manifest, and the integrity of its database
+ipcMain.handle('backups:verify', async (_event, id: string): Promise<BackupVerification> => {
+  try {
+    return await verifyBackup(id);
+  } catch (error) {
+    console.error('Error verifying backup:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('backups:delete', async (_event, id: string) => {
+  try {
+    deleteBackup(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting backup:', error);
+    throw error;
+  }
+});
+
+// Restore a backup at the next startup (the renderer then restarts the app)
+ipcMain.handle('backups:restore', async (_event, id: string) => {
+  try {
+    await prepareRestore(id);
+    return { success: true };
+  } catch (error) {
+    console.error('Error preparing backup restore:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('backups:getSettings', async (): Promise<BackupSettings> => {
+  try {
+    return getBackupSettings();
+  } catch (error) {
+    console.error('Error getting backup settings:', error);
+    throw error;
+  }
+});
+
+// Update the schedule, whether PDFs and notes are included, and how many backups are kept
+ipcMain.handle('backups:updateSettings', async (_event, settings: Partial<BackupSettings>): Promise<BackupSettings> => {
+  try {
+    const db = getDb();
+    const existing = db.prepare(`SELECT id FROM UserSettings LIMIT 1`).get() as { id: number } | undefined;
+    if (!existing) {
+      db.prepare(`INSERT INTO UserSettings (theme, language, fontSize, pdfViewer) VALUES ('light', 'English', 14, 'system')`).run();
+    }
+
+    const current = getBackupSettings();
+    const schedule = settings.schedule ?? current.schedule;
+    if (!['off', 'startup', 'daily'].includes(schedule)) {
+      throw new Error(`Unknown backup schedule: ${schedule}`);
+    }
+    const keep = settings.keep !== undefined
+      ? Math.max(0, Math.round(Number(settings.keep) || 0))
+      : current.keep;
+
+    db.prepare(`
+      UPDATE UserSettings SET backupSchedule = ?, backupIncludeFiles = ?, backupKeep = ?, updatedAt = datetime('now')
+      WHERE id = (SELECT id FROM UserSettings LIMIT 1)
+    `).run(schedule, (settings.includeFiles ?? current.includeFiles) ? 1 : 0, keep);
+
+    return getBackupSettings();
+  } catch (error) {
+    console.error('Error updating backup settings:', error);
+    throw error;
+  }
+});
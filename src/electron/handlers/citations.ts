@@ -0,0 +1,41 @@
+/**
+ * IPC Handlers for formatted citations and bibliographies
+ * Handles: citation for one article, bibliography as text, HTML or .docx
+ */
+
+import { ipcMain } from 'electron';
+import { Article } from '../../types/article';
+import { BibliographyFormat, CitationStyle, FormattedCitation } from '../../types/citation';
+import { formatReference, formatBibliography } from '../formats/citationStyles';
+import { referenceToText, referenceToHtml, bibliographyToText, bibliographyToHtml, bibliographyToDocx } from '../formats/bibliography';
+
+// Format one article (text and HTML, for the clipboard)
+ipcMain.handle('citations:format', async (_event, article: Article, style: CitationStyle): Promise<FormattedCitation> => {
+  try {
+    const parts = formatReference(article, style);
+    return { text: referenceToText(parts), html: referenceToHtml(parts) };
+  } catch (error) {
+    console.error('Error formatting citation:', error);
+    throw error;
+  }
+});
+
+// Build a bibliography file - text/HTML content as a string, .docx as bytes
+ipcMain.handle('citations:bibliography', async (_event, articles: Article[], style: CitationStyle, format: BibliographyFormat) => {
+  try {
+    const references = formatBibliography(articles, style);
+    switch (format) {
+      case 'text':
+        return bibliographyToText(references);
+      case 'html':
+        return bibliographyToHtml(references, style);
+      case 'docx':
+        return await bibliographyToDocx(references, style);
+      default:
+        throw new Error(`Unknown bibliography format: ${format}`);
+    }
+  } catch (error) {
+    console.error('Error generating bibliography:', error);
+    throw error;
+  }
+});
@@ -0,0 +1,243 @@
+/**
+ * IPC Handlers for collections (reading lists)
+ * Handles: listing, create/rename/delete, nesting and ordering, adding/removing/reordering articles
+ */
+
+import { ipcMain } from 'electron';
+import { getDb } from '../database';
+import { Collection, CollectionUpdate } from '../../types/collection';
+
+interface CollectionRow {
+  id: number;
+  name: string;
+  description: string | null;
+  parentId: number | null;
+  position: number;
+  createdAt: string | null;
+}
+
+function getCollection(id: number): Collection {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM Collection WHERE id = ?`).get(id) as CollectionRow | undefined;
+  if (!row) {
+    throw new Error(`Collection ${id} not found`);
+  }
+
+  const articles = db.prepare(`
+    SELECT c.articleId FROM CollectionArticle c JOIN Article a ON a.id = c.articleId
+    WHERE c.collectionId = ? AND a.deletedAt IS NULL
+    ORDER BY c.position, c.addedAt
+  `).all(id) as Array<{ articleId: string }>;
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    parentId: row.parentId,
+    position: row.position,
+    articleIds: articles.map((article) => article.articleId),
+    createdAt: row.createdAt || undefined,
+  };
+}
+
+// IDs of the collections under a parent (null = top level), in order
+function getChildIds(parentId: number | null): number[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT id FROM Collection WHERE parentId IS ? ORDER BY position, id
+  `).all(parentId) as Array<{ id: number }>;
+  return rows.map((row) => row.id);
+}
+
+// Store the order of a list of sibling collections
+function setPositions(ids: number[]) {
+  const db = getDb();
+  const update = db.prepare(`UPDATE Collection SET position = ? WHERE id = ?`);
+  ids.forEach((id, position) => update.run(position, id));
+}
+
+// Store the order of the articles of a collection
+function setArticlePositions(collectionId: number, articleIds: string[]) {
+  const db = getDb();
+  const update = db.prepare(`UPDATE CollectionArticle SET position = ? WHERE collectionId = ? AND articleId = ?`);
+  articleIds.forEach((articleId, position) => update.run(position, collectionId, articleId));
+}
+
+// A collection can't be moved into itself or one of its subcollections
+function isSelfOrDescendant(id: number, candidateId: number | null): boolean {
+  const db = getDb();
+  let current = candidateId;
+  while (current !== null) {
+    if (current === id) return true;
+    const row = db.prepare(`SELECT parentId FROM Collection WHERE id = ?`).get(current) as { parentId: number | null } | undefined;
+    current = row ? row.parentId : null;
+  }
+  return false;
+}
+
+// List all collections, siblings in order (the tree is rebuilt from parentId in the renderer)
+ipcMain.handle('collections:list', async () => {
+  try {
+    const db = getDb();
+    const rows = db.prepare(`SELECT id FROM Collection ORDER BY position, id`).all() as Array<{ id: number }>;
+    return rows.map((row) => getCollection(row.id));
+  } catch (error) {
+    console.error('Error listing collections:', error);
+    throw error;
+  }
+});
+
+// Create a collection at the end of its parent's list
+ipcMain.handle('collections:create', async (_event, name: string, parentId: number | null = null) => {
+  try {
+    const db = getDb();
+    const cleanName = name.trim();
+    if (!cleanName) {
+      throw new Error('Name cannot be empty');
+    }
+    if (parentId !== null) {
+      getCollection(parentId);
+    }
+
+    const result = db.prepare(`
+      INSERT INTO Collection (name, parentId, position) VALUES (?, ?, ?)
+    `).run(cleanName, parentId, getChildIds(parentId).length);
+
+    return getCollection(result.lastInsertRowid as number);
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    throw error;
+  }
+});
+
+// Rename a collection or change its description
+ipcMain.handle('collections:update', async (_event, id: number, changes: CollectionUpdate) => {
+  try {
+    const db = getDb();
+    const collection = getCollection(id);
+    const name = changes.name !== undefined ? changes.name.trim() : collection.name;
+    if (!name) {
+      throw new Error('Name cannot be empty');
+    }
+
+    db.prepare(`UPDATE Collection SET name = ?, description = ? WHERE id = ?`).run(
+      name,
+      changes.description !== undefined ? changes.description : collection.description,
+      id
+    );
+    return getCollection(id);
+  } catch (error) {
+    console.error('Error updating collection:', error);
+    throw error;
+  }
+});
+
+// Move a collection under another parent (null = top level), at a position among its new siblings
+ipcMain.handle('collections:move', async (_event, id: number, parentId: number | null, position: number) => {
+  try {
+    const db = getDb();
+    const collection = getCollection(id);
+    if (isSelfOrDescendant(id, parentId)) {
+      throw new Error('A collection cannot be moved into itself or one of its subcollections');
+    }
+
+    const move = db.transaction(() => {
+      // Close the gap in the old list, then insert into the new one
+      setPositions(getChildIds(collection.parentId).filter((childId) => childId !== id));
+
+      const siblings = getChildIds(parentId).filter((childId) => childId !== id);
+      siblings.splice(Math.max(0, Math.min(position, siblings.length)), 0, id);
+      db.prepare(`UPDATE Collection SET parentId = ? WHERE id = ?`).run(parentId, id);
+      setPositions(siblings);
+    });
+
+    move();
+  } catch (error) {
+    console.error('Error moving collection:', error);
+    throw error;
+  }
+});
+
+// Delete a collection - its subcollections take its place, its articles stay in the library
+ipcMain.handle('collections:delete', async (_event, id: number) => {
+  try {
+    const db = getDb();
+    const collection = getCollection(id);
+
+    const deleteCollection = db.transaction(() => {
+      const siblings = getChildIds(collection.parentId);
+      const children = getChildIds(id);
+      siblings.splice(siblings.indexOf(id), 1, ...children);
+
+      db.prepare(`UPDATE Collection SET parentId = ? WHERE parentId = ?`).run(collection.parentId, id);
+      // CASCADE DELETE removes the CollectionArticle rows
+      db.prepare(`DELETE FROM Collection WHERE id = ?`).run(id);
+      setPositions(siblings);
+    });
+
+    deleteCollection();
+    console.log(`Deleted collection ${id} (${collection.name})`);
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    throw error;
+  }
+});
+
+// Add articles at the end of a collection (articles already in it keep their place)
+ipcMain.handle('collections:addArticles', async (_event, id: number, articleIds: string[]) => {
+  try {
+    const db = getDb();
+    const collection = getCollection(id);
+
+    const add = db.transaction(() => {
+      const insert = db.prepare(`INSERT OR IGNORE INTO CollectionArticle (collectionId, articleId, position) VALUES (?, ?, ?)`);
+      let position = collection.articleIds.length;
+      articleIds.forEach((articleId) => {
+        if (insert.run(id, articleId, position).changes > 0) position++;
+      });
+    });
+
+    add();
+    return getCollection(id);
+  } catch (error) {
+    console.error('Error adding articles to collection:', error);
+    throw error;
+  }
+});
+
+// Remove articles from a collection (not from the library)
+ipcMain.handle('collections:removeArticles', async (_event, id: number, articleIds: string[]) => {
+  try {
+    const db = getDb();
+    const collection = getCollection(id);
+
+    const remove = db.transaction(() => {
+      const deleteStmt = db.prepare(`DELETE FROM CollectionArticle WHERE collectionId = ? AND articleId = ?`);
+      articleIds.forEach((articleId) => deleteStmt.run(id, articleId));
+      setArticlePositions(id, collection.articleIds.filter((articleId) => !articleIds.includes(articleId)));
+    });
+
+    remove();
+    return getCollection(id);
+  } catch (error) {
+    console.error('Error removing articles from collection:', error);
+    throw error;
+  }
+});
+
+// Set the manual order of a collection's articles (IDs not given keep their relative order, after the others)
+ipcMain.handle('collections:reorderArticles', async (_event, id: number, articleIds: string[]) => {
+  try {
+    const db = getDb();
+    const collection = getCollection(id);
+    const ordered = articleIds.filter((articleId) => collection.articleIds.includes(articleId));
+    const rest = collection.articleIds.filter((articleId) => !ordered.includes(articleId));
+
+    const reorder = db.transaction(() => setArticlePositions(id, [...ordered, ...rest]));
+    reorder();
+    return getCollection(id);
+  } catch (error) {
+    console.error('Error reordering collection:', error);
+    throw error;
+  }
+});
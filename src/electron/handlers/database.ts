@@ -3,25 +3,67 @@
  * Handles database statistics, optimization, export/import
  */
 
-import { ipcMain } from 'electron';
-import { getDb } from '../database';
+import { ipcMain, dialog, app } from 'electron';
+import * as fs from 'fs';
+import { getDb, rebuildSearchIndex } from '../database';
+import {
+  LibraryImportOptions,
+  LibraryImportReport,
+  LibraryExportResult,
+} from '../../types/database';
+
+// Identifies our JSON dumps - bump the version when the layout of `tables` changes
+const LIBRARY_FORMAT = 'research-article-manager/library';
+const LIBRARY_FORMAT_VERSION = 1;
+
+// Entity tables and the junction table linking each of them to Article
+const ENTITY_JUNCTIONS = [
+  { entity: 'Author', junction: 'ArticleAuthor', column: 'authorId' },
+  { entity: 'Keyword', junction: 'ArticleKeyword', column: 'keywordId' },
+  { entity: 'Subject', junction: 'ArticleSubject', column: 'subjectId' },
+  { entity: 'Tag', junction: 'ArticleTag', column: 'tagId' },
+  { entity: 'University', junction: 'ArticleUniversity', column: 'universityId' },
+  { entity: 'Company', junction: 'ArticleCompany', column: 'companyId' },
+];
+
+// Other user tables, copied row for row
+const RECORD_TABLES = [
+  'EntityAlias', 'Collection', 'CollectionArticle', 'SavedView', 'Annotation',
+  'ArticleRelation', 'ArticleRevision', 'ArticleRedirect', 'ArticlePdfText',
+];
+
+type Row = Record<string, unknown>;
+
+interface LibraryFile {
+  format: string;
+  version: number;
+  exportedAt?: string;
+  tables: Record<string, Row[]>;
+}
+
+// Thrown at the end of a dry run to roll the transaction back
+class DryRunRollback extends Error {
+  constructor(public report: LibraryImportReport) {
+    super('Dry run rollback');
+  }
+}
 
 // Get database statistics
 ipcMain.handle('database:getStats', async () => {
   try {
     const db = getDb();
-    const articlesCount = db.prepare(`SELECT COUNT(*) as count FROM Article`).get() as { count: number };
+    const articlesCount = db.prepare(`SELECT COUNT(*) as count FROM Article WHERE deletedAt IS NULL`).get() as { count: number };
     const authorsCount = db.prepare(`SELECT COUNT(*) as count FROM Author`).get() as { count: number };
     const keywordsCount = db.prepare(`SELECT COUNT(*) as count FROM Keyword`).get() as { count: number };
     const subjectsCount = db.prepare(`SELECT COUNT(*) as count FROM Subject`).get() as { count: number };
     const tagsCount = db.prepare(`SELECT COUNT(*) as count FROM Tag`).get() as { count: number };
     const universitiesCount = db.prepare(`SELECT COUNT(*) as count FROM University`).get() as { count: number };
     const companiesCount = db.prepare(`SELECT COUNT(*) as count FROM Company`).get() as { count: number };
-    const readCount = db.prepare(`SELECT COUNT(*) as count FROM Article WHERE read = 1`).get() as { count: number };
-    const favoriteCount = db.prepare(`SELECT COUNT(*) as count FROM Article WHERE favorite = 1`).get() as { count: number };
+    const readCount = db.prepare(`SELECT COUNT(*) as count FROM Article WHERE read = 1 AND deletedAt IS NULL`).get() as { count: number };
+    const favoriteCount = db.prepare(`SELECT COUNT(*) as count FROM Article WHERE favorite = 1 AND deletedAt IS NULL`).get() as { count: number };
 
     // Get average rating
-    const avgRating = db.prepare(`SELECT AVG(rating) as avg FROM Article`).get() as { avg: number | null };
+    const avgRating = db.prepare(`SELECT AVG(rating) as avg FROM Article WHERE deletedAt IS NULL`).get() as { avg: number | null };
 
     return {
       articles: articlesCount.count,
@@ -54,24 +96,420 @@ ipcMain.handle('database:optimize', async () => {
   }
 });
 
-// Export database (placeholder - to be implemented)
-ipcMain.handle('database:export', async (_event, exportPath: string) => {
+// Build the full JSON dump of the library: every table, rows as stored
+function dumpLibrary(): LibraryFile & { appVersion: string } {
+  const db = getDb();
+  const tables: Record<string, Row[]> = {};
+
+  tables.Article = db.prepare(`SELECT * FROM Article ORDER BY CAST(id AS INTEGER)`).all() as Row[];
+  for (const { entity, junction } of ENTITY_JUNCTIONS) {
+    tables[entity] = db.prepare(`SELECT * FROM ${entity} ORDER BY id`).all() as Row[];
+    tables[junction] = db.prepare(`SELECT * FROM ${junction}`).all() as Row[];
+  }
+  tables.UserSettings = db.prepare(`SELECT * FROM UserSettings ORDER BY id`).all() as Row[];
+  tables.IdCounter = db.prepare(`SELECT * FROM IdCounter`).all() as Row[];
+
+  tables.EntityAlias = db.prepare(`SELECT * FROM EntityAlias ORDER BY entityType, alias`).all() as Row[];
+  tables.Collection = db.prepare(`SELECT * FROM Collection ORDER BY id`).all() as Row[];
+  tables.CollectionArticle = db.prepare(`SELECT * FROM CollectionArticle ORDER BY collectionId, position`).all() as Row[];
+  tables.SavedView = db.prepare(`SELECT * FROM SavedView ORDER BY position, id`).all() as Row[];
+  tables.Annotation = db.prepare(`SELECT * FROM Annotation ORDER BY id`).all() as Row[];
+  tables.ArticleRelation = db.prepare(`SELECT * FROM ArticleRelation ORDER BY id`).all() as Row[];
+  tables.ArticleRevision = db.prepare(`SELECT * FROM ArticleRevision ORDER BY id`).all() as Row[];
+  tables.ArticleRedirect = db.prepare(`SELECT * FROM ArticleRedirect ORDER BY fromId`).all() as Row[];
+  tables.ArticlePdfText = db.prepare(`SELECT * FROM ArticlePdfText ORDER BY articleId`).all() as Row[];
+
+  return {
+    format: LIBRARY_FORMAT,
+    version: LIBRARY_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    appVersion: app.getVersion(),
+    tables,
+  };
+}
+
+// Read and validate a JSON dump produced by dumpLibrary()
+function readLibraryFile(importPath: string, warnings: string[]): LibraryFile {
+  let parsed: any;
   try {
-    // TODO: Implement database export to JSON
-    console.log('Export to:', exportPath);
-    throw new Error('Export not yet implemented');
+    parsed = JSON.parse(fs.readFileSync(importPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not read library file: ${error.message}`);
+  }
+
+  if (!parsed || parsed.format !== LIBRARY_FORMAT || typeof parsed.tables !== 'object') {
+    throw new Error('Not a Research Article Manager library export');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > LIBRARY_FORMAT_VERSION) {
+    throw new Error(`Unsupported library export version: ${parsed.version}`);
+  }
+  if (!Array.isArray(parsed.tables.Article)) {
+    throw new Error('Library export has no Article table');
+  }
+
+  const expected = ['Article', ...ENTITY_JUNCTIONS.flatMap(({ entity, junction }) => [entity, junction]), 'UserSettings', 'IdCounter'];
+  for (const table of [...expected, ...RECORD_TABLES]) {
+    if (!Array.isArray(parsed.tables[table])) {
+      warnings.push(`Table ${table} missing from export, treated as empty`);
+      parsed.tables[table] = [];
+    }
+  }
+
+  // Drop article rows that can't satisfy the NOT NULL constraints
+  const articles = (parsed.tables.Article as Row[]).filter((row) => row && row.id && row.title);
+  if (articles.length !== parsed.tables.Article.length) {
+    warnings.push(`${parsed.tables.Article.length - articles.length} article row(s) without id/title ignored`);
+  }
+  parsed.tables.Article = articles.map((row) => ({ ...row, id: String(row.id) }));
+
+  return parsed as LibraryFile;
+}
+
+// Column names of a table, used to only insert the columns both sides know about
+function getColumns(table: string): string[] {
+  const db = getDb();
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((col) => col.name);
+}
+
+function insertRow(table: string, columns: string[], row: Row): number {
+  const db = getDb();
+  const keys = columns.filter((col) => row[col] !== undefined);
+  const result = db
+    .prepare(`INSERT INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`)
+    .run(...keys.map((key) => row[key]));
+  return result.lastInsertRowid as number;
+}
+
+// Insert a row of a table with an INTEGER PRIMARY KEY id, keeping the id when it's free
+function insertWithId(table: string, columns: string[], row: Row): number {
+  const db = getDb();
+  const idTaken = row.id === undefined || db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(row.id);
+  return insertRow(table, idTaken ? columns.filter((col) => col !== 'id') : columns, row);
+}
+
+/**
+ * Collections, parents before their children; in merge mode a collection with the same name
+ * under the same parent is reused. Returns the new ID of each collection of the file.
+ */
+function importCollections(rows: Row[], report: LibraryImportReport): Map<number, number> {
+  const db = getDb();
+  const columns = getColumns('Collection');
+  const idMap = new Map<number, number>();
+  const fileIds = new Set(rows.map((row) => row.id as number));
+
+  let pending = rows.filter((row) => typeof row.name === 'string');
+  while (pending.length > 0) {
+    const ready = pending.filter((row) => row.parentId == null || !fileIds.has(row.parentId as number) || idMap.has(row.parentId as number));
+    if (ready.length === 0) {
+      report.warnings.push(`${pending.length} collection(s) in a parent loop were ignored`);
+      break;
+    }
+
+    for (const row of ready) {
+      const parentId = row.parentId == null ? null : idMap.get(row.parentId as number) ?? null;
+      const existing = db.prepare(`SELECT id FROM Collection WHERE name = ? AND parentId IS ?`).get(row.name, parentId) as
+        { id: number } | undefined;
+      if (existing) {
+        idMap.set(row.id as number, existing.id);
+        continue;
+      }
+      idMap.set(row.id as number, insertWithId('Collection', columns, { ...row, parentId }));
+      report.records.Collection++;
+    }
+    pending = pending.filter((row) => !ready.includes(row));
+  }
+  return idMap;
+}
+
+/**
+ * Everything else that belongs to the articles: aliases, collections, saved views, annotations,
+ * relations, history, redirects and PDF text. Rows tied to an article are only imported with it.
+ */
+function importRecords(tables: Record<string, Row[]>, importedIds: Set<string>, entityIds: Map<string, Map<number, number>>, report: LibraryImportReport) {
+  const db = getDb();
+  const articleExists = db.prepare(`SELECT 1 FROM Article WHERE id = ?`);
+  const fileArticleIds = new Set(tables.Article.map((row) => row.id as string));
+  RECORD_TABLES.forEach((table) => { report.records[table] = 0; });
+  const count = (table: string, changes: number) => { report.records[table] += changes; };
+
+  // Aliases follow the imported entities (a name already used as an alias here keeps its entity)
+  const addAlias = db.prepare(`INSERT OR IGNORE INTO EntityAlias (entityType, alias, entityId) VALUES (?, ?, ?)`);
+  for (const row of tables.EntityAlias) {
+    const entityId = entityIds.get(row.entityType as string)?.get(row.entityId as number);
+    if (entityId !== undefined && typeof row.alias === 'string') {
+      count('EntityAlias', addAlias.run(row.entityType, row.alias, entityId).changes);
+    }
+  }
+
+  const collectionIds = importCollections(tables.Collection, report);
+  const addToCollection = db.prepare(`
+    INSERT OR IGNORE INTO CollectionArticle (collectionId, articleId, position, addedAt) VALUES (?, ?, ?, coalesce(?, datetime('now')))
+  `);
+  for (const row of tables.CollectionArticle) {
+    const collectionId = collectionIds.get(row.collectionId as number);
+    if (collectionId !== undefined && importedIds.has(String(row.articleId))) {
+      count('CollectionArticle', addToCollection.run(collectionId, String(row.articleId), row.position ?? 0, row.addedAt ?? null).changes);
+    }
+  }
+
+  // Saved views are only queries: one with the same name and query is not added twice
+  const viewColumns = getColumns('SavedView');
+  for (const row of tables.SavedView) {
+    if (typeof row.name !== 'string' || typeof row.query !== 'string') continue;
+    if (db.prepare(`SELECT 1 FROM SavedView WHERE name = ? AND query = ?`).get(row.name, row.query)) continue;
+    insertWithId('SavedView', viewColumns, row);
+    count('SavedView', 1);
+  }
+
+  const annotationColumns = getColumns('Annotation');
+  for (const row of tables.Annotation) {
+    if (!importedIds.has(String(row.articleId))) continue;
+    insertWithId('Annotation', annotationColumns, { ...row, articleId: String(row.articleId) });
+    count('Annotation', 1);
+  }
+
+  // Relations need both articles; at least one of them comes from the file
+  const relationColumns = getColumns('ArticleRelation').filter((col) => col !== 'id');
+  for (const row of tables.ArticleRelation) {
+    const fromId = String(row.fromId);
+    const toId = String(row.toId);
+    if (!importedIds.has(fromId) && !importedIds.has(toId)) continue;
+    if (!articleExists.get(fromId) || !articleExists.get(toId)) continue;
+    const keys = relationColumns.filter((col) => row[col] !== undefined);
+    count('ArticleRelation', db.prepare(`INSERT OR IGNORE INTO ArticleRelation (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`)
+      .run(...keys.map((key) => key === 'fromId' ? fromId : key === 'toId' ? toId : row[key])).changes);
+  }
+
+  // History of the imported articles, and of the articles merged away (no longer articles in the file)
+  const revisionColumns = getColumns('ArticleRevision');
+  for (const row of tables.ArticleRevision) {
+    const articleId = String(row.articleId);
+    const mergedAway = !fileArticleIds.has(articleId) && !articleExists.get(articleId);
+    if (!importedIds.has(articleId) && !mergedAway) continue;
+    insertWithId('ArticleRevision', revisionColumns, { ...row, articleId });
+    count('ArticleRevision', 1);
+  }
+
+  const addRedirect = db.prepare(`INSERT OR IGNORE INTO ArticleRedirect (fromId, toId, mergedAt) VALUES (?, ?, coalesce(?, datetime('now')))`);
+  for (const row of tables.ArticleRedirect) {
+    const toId = String(row.toId);
+    if (importedIds.has(toId)) {
+      count('ArticleRedirect', addRedirect.run(String(row.fromId), toId, row.mergedAt ?? null).changes);
+    }
+  }
+
+  const pdfTextColumns = getColumns('ArticlePdfText');
+  for (const row of tables.ArticlePdfText) {
+    if (!importedIds.has(String(row.articleId)) || typeof row.text !== 'string') continue;
+    insertRow('ArticlePdfText', pdfTextColumns, { ...row, articleId: String(row.articleId) });
+    count('ArticlePdfText', 1);
+  }
+}
+
+// Raise counters to what the imported data needs, never lower them
+function restoreIdCounters(counters: Row[]): number {
+  const db = getDb();
+  for (const counter of counters) {
+    if (typeof counter.name !== 'string' || typeof counter.nextId !== 'number') continue;
+    db.prepare(`
+      INSERT INTO IdCounter (name, nextId) VALUES (?, ?)
+      ON CONFLICT(name) DO UPDATE SET nextId = MAX(nextId, excluded.nextId)
+    `).run(counter.name, counter.nextId);
+  }
+
+  // The counter must stay ahead of the highest article ID whatever the file said
+  const maxId = db.prepare(`SELECT MAX(CAST(id AS INTEGER)) as maxId FROM Article`).get() as { maxId: number | null };
+  db.prepare(`
+    INSERT INTO IdCounter (name, nextId) VALUES ('article', ?)
+    ON CONFLICT(name) DO UPDATE SET nextId = MAX(nextId, excluded.nextId)
+  `).run((maxId.maxId || 0) + 1);
+
+  const counter = db.prepare(`SELECT nextId FROM IdCounter WHERE name = 'article'`).get() as { nextId: number };
+  return counter.nextId;
+}
+
+// Apply a parsed dump to the database. Must run inside a transaction.
+function applyLibraryFile(file: LibraryFile, options: LibraryImportOptions, warnings: string[]): LibraryImportReport {
+  const db = getDb();
+  const { tables } = file;
+  const report: LibraryImportReport = {
+    mode: options.mode,
+    dryRun: Boolean(options.dryRun),
+    exportedAt: file.exportedAt || null,
+    articles: { total: tables.Article.length, imported: 0, skippedIds: [] },
+    entities: {},
+    relations: 0,
+    records: {},
+    settingsRestored: false,
+    nextArticleId: 0,
+    warnings,
+  };
+
+  if (options.mode === 'replace') {
+    // Junctions first: entity foreign keys have no cascade
+    for (const { entity, junction } of ENTITY_JUNCTIONS) {
+      db.prepare(`DELETE FROM ${junction}`).run();
+      db.prepare(`DELETE FROM ${entity}`).run();
+    }
+    // Everything else is replaced by the file too (aliases point at entity IDs of this library:
+    // kept, they would match unrelated imported entities)
+    for (const table of RECORD_TABLES) {
+      db.prepare(`DELETE FROM ${table}`).run();
+    }
+    db.prepare(`DELETE FROM Article`).run();
+    db.prepare(`DELETE FROM UserSettings`).run();
+    db.prepare(`DELETE FROM IdCounter`).run();
+  }
+
+  // Articles keep their IDs; in merge mode an ID already in use is skipped
+  const articleColumns = getColumns('Article');
+  const importedIds = new Set<string>();
+  for (const row of tables.Article) {
+    const id = row.id as string;
+    const exists = db.prepare(`SELECT 1 FROM Article WHERE id = ?`).get(id);
+    if (exists) {
+      report.articles.skippedIds.push(id);
+      continue;
+    }
+    insertRow('Article', articleColumns, row);
+    importedIds.add(id);
+    report.articles.imported++;
+  }
+
+  const entityIds = new Map<string, Map<number, number>>();
+  for (const { entity, junction, column } of ENTITY_JUNCTIONS) {
+    const entityReport = { total: tables[entity].length, created: 0, matched: 0 };
+    const idMap = new Map<number, number>();
+    entityIds.set(entity, idMap);
+
+    for (const row of tables[entity]) {
+      if (typeof row.name !== 'string' || !row.name) continue;
+      // Entities are unique by name: reuse the local row so junctions point at it
+      const existing = db.prepare(`SELECT id FROM ${entity} WHERE name = ?`).get(row.name) as { id: number } | undefined;
+      if (existing) {
+        idMap.set(row.id as number, existing.id);
+        entityReport.matched++;
+        continue;
+      }
+
+      // Preserve the original ID when it's free, otherwise let SQLite assign one
+      const idTaken = db.prepare(`SELECT 1 FROM ${entity} WHERE id = ?`).get(row.id);
+      const newId = idTaken
+        ? insertRow(entity, ['name'], row)
+        : insertRow(entity, ['id', 'name'], row);
+      idMap.set(row.id as number, newId);
+      entityReport.created++;
+    }
+    report.entities[entity] = entityReport;
+
+    let orphans = 0;
+    const link = db.prepare(`INSERT OR IGNORE INTO ${junction} (articleId, ${column}) VALUES (?, ?)`);
+    for (const row of tables[junction]) {
+      const articleId = String(row.articleId);
+      if (!importedIds.has(articleId)) continue;
+
+      const entityId = idMap.get(row[column] as number);
+      if (entityId === undefined) {
+        orphans++;
+        continue;
+      }
+      report.relations += link.run(articleId, entityId).changes;
+    }
+    if (orphans > 0) {
+      warnings.push(`${orphans} ${junction} row(s) reference unknown ${entity} entries and were ignored`);
+    }
+  }
+
+  importRecords(tables, importedIds, entityIds, report);
+
+  // Settings are only restored when replacing: merging keeps this machine's setup
+  if (options.mode === 'replace' && tables.UserSettings.length > 0) {
+    insertRow('UserSettings', getColumns('UserSettings'), tables.UserSettings[0]);
+    report.settingsRestored = true;
+  }
+
+  report.nextArticleId = restoreIdCounters(tables.IdCounter);
+  rebuildSearchIndex();
+  return report;
+}
+
+// Choose where to write the JSON export
+ipcMain.handle('database:chooseExportFile', async () => {
+  try {
+    const result = await dialog.showSaveDialog({
+      title: 'Export Library',
+      defaultPath: `library_export_${new Date().toISOString().split('T')[0]}.json`,
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    return result.filePath;
+  } catch (error) {
+    console.error('Error choosing export file:', error);
+    throw error;
+  }
+});
+
+// Choose a JSON export to import
+ipcMain.handle('database:chooseImportFile', async () => {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: 'Import Library',
+      properties: ['openFile'],
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+    return result.filePaths[0];
+  } catch (error) {
+    console.error('Error choosing import file:', error);
+    throw error;
+  }
+});
+
+// Export the whole library (all tables, IDs included) to a JSON file
+ipcMain.handle('database:export', async (_event, exportPath: string): Promise<LibraryExportResult> => {
+  try {
+    const dump = dumpLibrary();
+    fs.writeFileSync(exportPath, JSON.stringify(dump, null, 2), 'utf-8');
+    console.log(`Library exported to: ${exportPath}`);
+
+    return { path: exportPath, articles: dump.tables.Article.length };
   } catch (error) {
     console.error('Error exporting database:', error);
     throw error;
   }
 });
 
-// Import database (placeholder - to be implemented)
-ipcMain.handle('database:import', async (_event, importPath: string) => {
+// Import a JSON export, preserving article IDs
+ipcMain.handle('database:import', async (_event, importPath: string, options: LibraryImportOptions): Promise<LibraryImportReport> => {
   try {
-    // TODO: Implement database import from JSON
-    console.log('Import from:', importPath);
-    throw new Error('Import not yet implemented');
+    const db = getDb();
+    const warnings: string[] = [];
+    const file = readLibraryFile(importPath, warnings);
+
+    const runImport = db.transaction(() => {
+      const report = applyLibraryFile(file, options, warnings);
+      if (options.dryRun) {
+        throw new DryRunRollback(report);
+      }
+      return report;
+    });
+
+    try {
+      const report = runImport();
+      console.log(`Library imported from: ${importPath} (${options.mode}, ${report.articles.imported} articles)`);
+      return report;
+    } catch (error) {
+      if (error instanceof DryRunRollback) {
+        return error.report;
+      }
+      throw error;
+    }
   } catch (error) {
     console.error('Error importing database:', error);
     throw error;
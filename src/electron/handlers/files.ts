@@ -1,17 +1,29 @@
 /**
  * IPC Handlers for File operations
- * Handles PDF uploads, Word note generation, and file opening
+ * Handles PDF uploads, Word note generation, annotation exports, and file opening
  *
  * Word generation uses template-based approach similar to make_note in old/utils.py
  */
 
-import { ipcMain, shell } from 'electron';
+import { ipcMain, shell, dialog } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
 import createReport from 'docx-templates';
 import { Article } from '../../types/article';
+import { AnnotationDigestFormat } from '../../types/annotation';
+import { CitationStyle } from '../../types/citation';
+import { BundleExportResult } from '../../types/collection';
+import { ArticleReferences } from '../../types/reference';
 import { getDb } from '../database';
 import { StoragePaths, getTemplatePath } from '../paths';
+import { indexArticlePdf, getArticlesWithoutPdfText } from '../search';
+import { formatBibliography } from '../formats/citationStyles';
+import { bibliographyToText, bibliographyToDocx } from '../formats/bibliography';
+import { annotationDigestToDocx, annotationDigestToMarkdown, annotationDigestToText } from '../formats/annotationDigest';
+import { LITERAL_XML_DELIMITER, markdownToWordXml } from '../formats/markdownDocx';
+import { parseNoteMarkdown } from '../noteMarkdown';
+import { getArticleAnnotations, importPdfAnnotations, writeAnnotatedPdf } from '../pdfAnnotations';
+import { detectArticleCitations, getArticleReferences } from '../relations';
 
 /**
  * Generate file name from article ID and title
@@ -102,6 +114,20 @@ ipcMain.handle('files:uploadPdf', async (_event, articleId: string, articleTitle
     // Copy to external storage if enabled
     copyToExternalIfEnabled(pdfPath, 'pdfs', pdfFileName);
 
+    // Index the PDF text for search, then import its annotations and (if enabled) detect its citations,
+    // in the background - upload doesn't wait for it
+    indexArticlePdf(articleId, pdfPath)
+      .then(() => {
+        if (relationDetectionEnabled()) detectArticleCitations(articleId);
+      })
+      .catch((error) => {
+        console.error('Error indexing PDF text:', error);
+      })
+      .then(() => importPdfAnnotations(articleId, pdfPath))
+      .catch((error) => {
+        console.error('Error importing PDF annotations:', error);
+      });
+
     return pdfFileName;
   } catch (error) {
     console.error('Error uploading PDF:', error);
@@ -166,6 +192,24 @@ function findNoteFile(articleId: string): string | null {
   return null;
 }
 
+// Extract the text of PDFs that aren't in the search index yet (one at a time, in background)
+async function indexMissingPdfText(): Promise<void> {
+  for (const articleId of getArticlesWithoutPdfText()) {
+    const pdfPath = findPdfFile(articleId);
+    if (!pdfPath) continue;
+
+    try {
+      await indexArticlePdf(articleId, pdfPath);
+    } catch (error) {
+      console.error(`Error indexing PDF text for article ${articleId}:`, error);
+    }
+  }
+}
+
+indexMissingPdfText().catch((error) => {
+  console.error('Error indexing PDF text:', error);
+});
+
 // Open PDF with system default application
 ipcMain.handle('files:openPdf', async (_event, articleId: string) => {
   try {
@@ -230,6 +274,10 @@ ipcMain.handle('files:openNote', async (_event, articleId: string) => {
 // Open URL in system default browser
 ipcMain.handle('files:openUrl', async (_event, url: string) => {
   try {
+    // Only web and mail links: shell.openExternal would also run file: and other handlers
+    if (!/^(https?:\/\/|mailto:)/i.test(url)) {
+      throw new Error(`Not a web or mail link: ${url}`);
+    }
     await shell.openExternal(url);
   } catch (error) {
     console.error('Error opening URL:', error);
@@ -262,6 +310,9 @@ function prepareTemplateData(article: Article): Record<string, string> {
     return arr.map((item) => item.name).join(', ');
   };
 
+  // Research note fields are Markdown: written as Word paragraphs, lists and formulas
+  const markdown = (text: string | undefined): string => markdownToWordXml(parseNoteMarkdown(text || ''));
+
   // Build replacement data object
   // Keys match the {{placeholder}} in the Word template
   return {
@@ -282,14 +333,14 @@ function prepareTemplateData(article: Article): Record<string, string> {
     universities: joinNames(article.universities),
     companies: joinNames(article.companies),
     tags: joinNames(article.tags),
-    research_question: article.researchQuestion || '',
-    methodology: article.methodology || '',
-    data_used: article.dataUsed || '',
-    results: article.results || '',
-    limitations: article.limitations || '',
-    first_imp: article.firstImp || '',
-    notes: article.notes || '',
-    comment: article.comment || '',
+    research_question: markdown(article.researchQuestion),
+    methodology: markdown(article.methodology),
+    data_used: markdown(article.dataUsed),
+    results: markdown(article.results),
+    limitations: markdown(article.limitations),
+    first_imp: markdown(article.firstImp),
+    notes: markdown(article.notes),
+    comment: markdown(article.comment),
     rating: String(rating),
     rating_stars: ratingStars,
     display_favorite: displayFavorite,
@@ -308,61 +359,267 @@ function prepareTemplateData(article: Article): Record<string, string> {
   };
 }
 
+// Whether citations are looked for in the reference list of uploaded PDFs
+function relationDetectionEnabled(): boolean {
+  try {
+    const db = getDb();
+    const row = db.prepare(`SELECT detectRelations FROM UserSettings LIMIT 1`).get() as { detectRelations: number | null } | undefined;
+    return Boolean(row?.detectRelations);
+  } catch (error) {
+    console.error('Error getting relation detection setting:', error);
+    return false;
+  }
+}
+
+// Whether the annotation digest is appended to generated notes
+function noteAnnotationsEnabled(): boolean {
+  try {
+    const db = getDb();
+    const row = db.prepare(`SELECT noteAnnotations FROM UserSettings LIMIT 1`).get() as { noteAnnotations: number | null } | undefined;
+    return Boolean(row?.noteAnnotations);
+  } catch (error) {
+    console.error('Error getting note annotations setting:', error);
+    return false;
+  }
+}
+
 /**
  * Generate Word note from article using template
  * Replicates the logic of make_note function from old/utils.py
  */
+async function writeNote(article: Article): Promise<void> {
+  const noteFileName = makeName(article.id, article.title) + '.docx';
+  const notesDir = getNotesDir();
+  const notePath = path.join(notesDir, noteFileName);
+
+  // Ensure notes directory exists
+  if (!fs.existsSync(notesDir)) {
+    fs.mkdirSync(notesDir, { recursive: true });
+  }
+
+  // Get template path
+  const templatePath = getTemplateFilePath();
+
+  // Check if template exists
+  if (!fs.existsSync(templatePath)) {
+    console.error(`Template not found at: ${templatePath}`);
+    throw new Error(`Word template not found: ${templatePath}`);
+  }
+
+  // Read template file
+  const template = fs.readFileSync(templatePath);
+
+  // Prepare data for template (like make_note prepares replacements)
+  // The annotation digest is only filled in when enabled in the settings
+  const data = {
+    ...prepareTemplateData(article),
+    annotations: noteAnnotationsEnabled() ? annotationDigestToText(getArticleAnnotations(article.id)) : '',
+  };
+
+  // Generate document using docx-templates
+  // This replaces {{placeholder}} tags in the template with actual values
+  // failFast: false - continue if a placeholder is not found (allows template flexibility)
+  // rejectNullish: false - accept null/undefined values (replace with empty string)
+  // literalXmlDelimiter - values wrapped in it are Word XML (the Markdown fields)
+  const buffer = await createReport({
+    template,
+    data,
+    cmdDelimiter: ['{{', '}}'],
+    literalXmlDelimiter: LITERAL_XML_DELIMITER,
+    failFast: false,
+    rejectNullish: false,
+  });
+
+  // Remove existing file if present (like make_note does)
+  if (fs.existsSync(notePath)) {
+    fs.unlinkSync(notePath);
+  }
+
+  // Save generated document
+  fs.writeFileSync(notePath, buffer);
+  console.log(`Note generated from template: ${notePath}`);
+
+  // Copy to external storage if enabled
+  copyToExternalIfEnabled(notePath, 'notes', noteFileName);
+}
+
 ipcMain.handle('files:generateNote', async (_event, article: Article) => {
   try {
-    const noteFileName = makeName(article.id, article.title) + '.docx';
-    const notesDir = getNotesDir();
-    const notePath = path.join(notesDir, noteFileName);
+    await writeNote(article);
+  } catch (error) {
+    console.error('Error generating note:', error);
+    throw error;
+  }
+});
 
-    // Ensure notes directory exists
-    if (!fs.existsSync(notesDir)) {
-      fs.mkdirSync(notesDir, { recursive: true });
+// Generate the notes of several articles in one call (bulk edits), one failure doesn't stop the others
+ipcMain.handle('files:generateNotes', async (_event, articles: Article[]) => {
+  const errors: string[] = [];
+  let generated = 0;
+
+  for (const article of articles) {
+    try {
+      await writeNote(article);
+      generated++;
+    } catch (error) {
+      console.error(`Error generating note for article ${article.id}:`, error);
+      errors.push(`${article.id}: ${error instanceof Error ? error.message : String(error)}`);
     }
+  }
 
-    // Get template path
-    const templatePath = getTemplateFilePath();
+  return { generated, errors };
+});
 
-    // Check if template exists
-    if (!fs.existsSync(templatePath)) {
-      console.error(`Template not found at: ${templatePath}`);
-      throw new Error(`Word template not found: ${templatePath}`);
+// Export some articles as a folder: numbered PDFs and notes (in the given order) plus a bibliography
+ipcMain.handle('files:exportBundle', async (_event, name: string, articles: Article[], style: CitationStyle): Promise<BundleExportResult | null> => {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: 'Export Collection',
+      properties: ['openDirectory', 'createDirectory'],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
     }
 
-    // Read template file
-    const template = fs.readFileSync(templatePath);
-
-    // Prepare data for template (like make_note prepares replacements)
-    const data = prepareTemplateData(article);
-
-    // Generate document using docx-templates
-    // This replaces {{placeholder}} tags in the template with actual values
-    // failFast: false - continue if a placeholder is not found (allows template flexibility)
-    // rejectNullish: false - accept null/undefined values (replace with empty string)
-    const buffer = await createReport({
-      template,
-      data,
-      cmdDelimiter: ['{{', '}}'],
-      failFast: false,
-      rejectNullish: false,
+    // A new folder named after the collection, never overwriting an earlier export
+    const baseName = name.replace(/[<>:"/\\|?*]/g, '-').trim() || 'Collection';
+    let bundleDir = path.join(result.filePaths[0], baseName);
+    for (let copy = 2; fs.existsSync(bundleDir); copy++) {
+      bundleDir = path.join(result.filePaths[0], `${baseName} (${copy})`);
+    }
+    fs.mkdirSync(path.join(bundleDir, 'pdfs'), { recursive: true });
+    fs.mkdirSync(path.join(bundleDir, 'notes'), { recursive: true });
+
+    // Number prefix keeps the collection order in file explorers
+    const digits = String(articles.length).length;
+    let pdfs = 0;
+    let notes = 0;
+    articles.forEach((article, index) => {
+      const prefix = String(index + 1).padStart(digits, '0');
+      const pdfPath = findPdfFile(article.id);
+      if (pdfPath) {
+        fs.copyFileSync(pdfPath, path.join(bundleDir, 'pdfs', `${prefix} - ${path.basename(pdfPath)}`));
+        pdfs++;
+      }
+      const notePath = findNoteFile(article.id);
+      if (notePath) {
+        fs.copyFileSync(notePath, path.join(bundleDir, 'notes', `${prefix} - ${path.basename(notePath)}`));
+        notes++;
+      }
     });
 
-    // Remove existing file if present (like make_note does)
-    if (fs.existsSync(notePath)) {
-      fs.unlinkSync(notePath);
+    const references = formatBibliography(articles, style);
+    fs.writeFileSync(path.join(bundleDir, 'bibliography.docx'), await bibliographyToDocx(references, style));
+    fs.writeFileSync(path.join(bundleDir, 'bibliography.txt'), bibliographyToText(references), 'utf-8');
+
+    console.log(`Exported ${articles.length} articles to: ${bundleDir}`);
+    return { path: bundleDir, articles: articles.length, pdfs, notes };
+  } catch (error) {
+    console.error('Error exporting bundle:', error);
+    throw error;
+  }
+});
+
+// Read the annotations of the article's PDF again (updates the ones imported before, except the ones the user changed)
+ipcMain.handle('files:importPdfAnnotations', async (_event, articleId: string): Promise<number> => {
+  try {
+    const pdfPath = findPdfFile(articleId);
+
+    if (!pdfPath) {
+      throw new Error(`PDF not found for article ${articleId}`);
     }
 
-    // Save generated document
-    fs.writeFileSync(notePath, buffer);
-    console.log(`Note generated from template: ${notePath}`);
+    return await importPdfAnnotations(articleId, pdfPath);
+  } catch (error) {
+    console.error('Error importing PDF annotations:', error);
+    throw error;
+  }
+});
 
-    // Copy to external storage if enabled
-    copyToExternalIfEnabled(notePath, 'notes', noteFileName);
+// Reference list of the article's PDF, each entry parsed and matched against the library
+// The PDF text is extracted first when it wasn't yet (PDF added while indexing was off, or failed)
+ipcMain.handle('files:extractReferences', async (_event, articleId: string): Promise<ArticleReferences> => {
+  try {
+    let entries = getArticleReferences(articleId);
+
+    if (entries === null) {
+      const pdfPath = findPdfFile(articleId);
+      if (pdfPath) {
+        await indexArticlePdf(articleId, pdfPath);
+        entries = getArticleReferences(articleId);
+      }
+    }
+
+    return { hasPdfText: entries !== null, entries: entries || [] };
   } catch (error) {
-    console.error('Error generating note:', error);
+    console.error('Error extracting references:', error);
+    throw error;
+  }
+});
+
+// Save a copy of the article's PDF with its highlights and notes as PDF annotations
+ipcMain.handle('files:exportAnnotatedPdf', async (_event, articleId: string): Promise<string | null> => {
+  try {
+    const pdfPath = findPdfFile(articleId);
+
+    if (!pdfPath) {
+      throw new Error(`PDF not found for article ${articleId}`);
+    }
+
+    const result = await dialog.showSaveDialog({
+      title: 'Export Annotated PDF',
+      defaultPath: `${path.basename(pdfPath, '.pdf')} (annotated).pdf`,
+      filters: [{ name: 'PDF', extensions: ['pdf'] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    const content = await writeAnnotatedPdf(articleId, pdfPath);
+    fs.writeFileSync(result.filePath, content);
+    console.log(`Annotated PDF exported to: ${result.filePath}`);
+    return result.filePath;
+  } catch (error) {
+    console.error('Error exporting annotated PDF:', error);
+    throw error;
+  }
+});
+
+// Save the annotation digest of an article (grouped by page and color) as Markdown or Word
+ipcMain.handle('files:exportAnnotationDigest', async (_event, articleId: string, format: AnnotationDigestFormat): Promise<string | null> => {
+  try {
+    const title = getArticleTitle(articleId);
+
+    if (!title) {
+      throw new Error(`Article ${articleId} not found`);
+    }
+
+    const extension = format === 'docx' ? 'docx' : 'md';
+    const result = await dialog.showSaveDialog({
+      title: 'Export Annotations',
+      defaultPath: `${makeName(articleId, title)} - Annotations.${extension}`,
+      filters: [format === 'docx'
+        ? { name: 'Word Document', extensions: ['docx'] }
+        : { name: 'Markdown', extensions: ['md'] }],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    const annotations = getArticleAnnotations(articleId);
+    const heading = `${articleId} - ${title}`;
+    if (format === 'docx') {
+      fs.writeFileSync(result.filePath, await annotationDigestToDocx(heading, annotations));
+    } else {
+      fs.writeFileSync(result.filePath, annotationDigestToMarkdown(heading, annotations), 'utf-8');
+    }
+    console.log(`Annotation digest exported to: ${result.filePath}`);
+    return result.filePath;
+  } catch (error) {
+    console.error('Error exporting annotation digest:', error);
     throw error;
   }
 });
@@ -0,0 +1,72 @@
+/**
+ * IPC Handlers for bibliographic import/export (BibTeX, RIS, CSL-JSON)
+ * Exports return the file content - the renderer saves it like the CSV export.
+ * Imports return parsed form data - duplicates are checked by the renderer.
+ */
+
+import { ipcMain } from 'electron';
+import { Article } from '../../types/article';
+import { articlesToBibtex, parseBibtex } from '../formats/bibtex';
+import { articlesToRis, parseRis } from '../formats/ris';
+import { articlesToCsl, parseCsl } from '../formats/csl';
+import { getLibraryCitationKeys } from '../formats/citationKeys';
+
+// Export articles as a .bib file
+ipcMain.handle('export:bibtex', async (_event, articles: Article[]) => {
+  try {
+    return articlesToBibtex(articles, getLibraryCitationKeys());
+  } catch (error) {
+    console.error('Error exporting BibTeX:', error);
+    throw error;
+  }
+});
+
+// Parse a .bib file
+ipcMain.handle('import:bibtex', async (_event, content: string) => {
+  try {
+    return parseBibtex(content);
+  } catch (error) {
+    console.error('Error parsing BibTeX:', error);
+    throw error;
+  }
+});
+
+// Export articles as a .ris file
+ipcMain.handle('export:ris', async (_event, articles: Article[]) => {
+  try {
+    return articlesToRis(articles, getLibraryCitationKeys());
+  } catch (error) {
+    console.error('Error exporting RIS:', error);
+    throw error;
+  }
+});
+
+// Parse a .ris file
+ipcMain.handle('import:ris', async (_event, content: string) => {
+  try {
+    return parseRis(content);
+  } catch (error) {
+    console.error('Error parsing RIS:', error);
+    throw error;
+  }
+});
+
+// Export articles as a CSL-JSON file
+ipcMain.handle('export:csl', async (_event, articles: Article[]) => {
+  try {
+    return articlesToCsl(articles, getLibraryCitationKeys());
+  } catch (error) {
+    console.error('Error exporting CSL-JSON:', error);
+    throw error;
+  }
+});
+
+// Parse a CSL-JSON file
+ipcMain.handle('import:csl', async (_event, content: string) => {
+  try {
+    return parseCsl(content);
+  } catch (error) {
+    console.error('Error parsing CSL-JSON:', error);
+    throw error;
+  }
+});
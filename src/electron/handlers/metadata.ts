@@ -0,0 +1,62 @@
+/**
+ * IPC Handlers for online metadata lookup (Crossref, DataCite)
+ * Handles: DOI/arXiv resolution, resolver base URLs
+ */
+
+import { ipcMain } from 'electron';
+import { getDb } from '../database';
+import { MetadataResolverSettings } from '../../types/metadata';
+import { resolveMetadata, getResolverSettings } from '../resolvers';
+import { DEFAULT_CROSSREF_URL } from '../resolvers/crossref';
+import { DEFAULT_DATACITE_URL } from '../resolvers/datacite';
+
+// Look up a DOI or arXiv ID
+ipcMain.handle('metadata:resolve', async (_event, identifier: string) => {
+  try {
+    return await resolveMetadata(identifier);
+  } catch (error) {
+    console.error('Error resolving metadata:', error);
+    throw error;
+  }
+});
+
+// Get the resolver base URLs
+ipcMain.handle('metadata:getSettings', async () => {
+  try {
+    return getResolverSettings();
+  } catch (error) {
+    console.error('Error getting metadata settings:', error);
+    throw error;
+  }
+});
+
+// Update the resolver base URLs (empty = default API)
+ipcMain.handle('metadata:updateSettings', async (_event, settings: Partial<MetadataResolverSettings>) => {
+  try {
+    const db = getDb();
+    const existing = db.prepare(`SELECT id FROM UserSettings LIMIT 1`).get() as { id: number } | undefined;
+    if (!existing) {
+      db.prepare(`INSERT INTO UserSettings (theme, language, fontSize, pdfViewer) VALUES ('light', 'English', 14, 'system')`).run();
+    }
+
+    // Stored as NULL when it's the default, so a future default change applies
+    const normalize = (url: string | undefined, fallback: string) => {
+      const trimmed = (url || '').trim().replace(/\/+$/, '');
+      if (trimmed && !/^https?:\/\//i.test(trimmed)) throw new Error(`Not an http(s) URL: ${trimmed}`);
+      return trimmed && trimmed !== fallback ? trimmed : null;
+    };
+
+    db.prepare(`
+      UPDATE UserSettings SET crossrefUrl = ?, dataciteUrl = ?, updatedAt = datetime('now')
+      WHERE id = (SELECT id FROM UserSettings LIMIT 1)
+    `).run(
+      normalize(settings.crossrefUrl, DEFAULT_CROSSREF_URL),
+      normalize(settings.dataciteUrl, DEFAULT_DATACITE_URL)
+    );
+
+    return getResolverSettings();
+  } catch (error) {
+    console.error('Error updating metadata settings:', error);
+    throw error;
+  }
+});
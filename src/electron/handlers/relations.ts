@@ -0,0 +1,70 @@
+/**
+ * IPC Handlers for relations between articles
+ * Handles: relations of an article, add/delete, citation graph, detection from the PDF reference lists
+ */
+
+import { ipcMain } from 'electron';
+import { getDb } from '../database';
+import { addRelation, detectArticleCitations, detectLibraryCitations, getArticleRelations, getRelationGraph } from '../relations';
+import { ArticleRelation, ArticleRelations, RelationDetectionReport, RelationGraph, RelationType } from '../../types/relation';
+
+// Relations from and to an article
+ipcMain.handle('relations:list', async (_event, articleId: string): Promise<ArticleRelations> => {
+  try {
+    return getArticleRelations(articleId);
+  } catch (error) {
+    console.error('Error listing relations:', error);
+    throw error;
+  }
+});
+
+// Add a relation "fromId <type> toId"
+ipcMain.handle('relations:add', async (_event, fromId: string, toId: string, type: RelationType, note?: string): Promise<ArticleRelation> => {
+  try {
+    return addRelation(fromId, toId, type, note?.trim() || null);
+  } catch (error) {
+    console.error('Error adding relation:', error);
+    throw error;
+  }
+});
+
+// Delete a relation
+ipcMain.handle('relations:delete', async (_event, id: number) => {
+  try {
+    const db = getDb();
+    db.prepare(`DELETE FROM ArticleRelation WHERE id = ?`).run(id);
+  } catch (error) {
+    console.error('Error deleting relation:', error);
+    throw error;
+  }
+});
+
+// Graph of the whole library (null) or of one collection
+ipcMain.handle('relations:graph', async (_event, collectionId: number | null): Promise<RelationGraph> => {
+  try {
+    return getRelationGraph(collectionId);
+  } catch (error) {
+    console.error('Error building relation graph:', error);
+    throw error;
+  }
+});
+
+// Find "cites" relations in the reference list of one article's PDF (and of the others citing it)
+ipcMain.handle('relations:detect', async (_event, articleId: string): Promise<RelationDetectionReport> => {
+  try {
+    return detectArticleCitations(articleId);
+  } catch (error) {
+    console.error('Error detecting citations:', error);
+    throw error;
+  }
+});
+
+// Same for every PDF of the library
+ipcMain.handle('relations:detectAll', async (): Promise<RelationDetectionReport> => {
+  try {
+    return detectLibraryCitations();
+  } catch (error) {
+    console.error('Error detecting citations:', error);
+    throw error;
+  }
+});
@@ -0,0 +1,31 @@
+/**
+ * IPC Handlers for the edit history of articles
+ * Handles: revisions of an article, restoring a revision
+ */
+
+import { ipcMain } from 'electron';
+import { loadArticles } from '../articleQuery';
+import { getArticleRevisions, restoreRevision } from '../revisions';
+import { Article } from '../../types/article';
+import { ArticleRevision } from '../../types/revision';
+
+// Revisions of an article, newest first
+ipcMain.handle('revisions:list', async (_event, articleId: string): Promise<ArticleRevision[]> => {
+  try {
+    return getArticleRevisions(articleId);
+  } catch (error) {
+    console.error('Error listing revisions:', error);
+    throw error;
+  }
+});
+
+// Put the article back in the state of a revision, returns the updated article
+ipcMain.handle('revisions:restore', async (_event, revisionId: number): Promise<Article> => {
+  try {
+    const articleId = restoreRevision(revisionId);
+    return loadArticles([articleId])[0];
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    throw error;
+  }
+});
@@ -0,0 +1,91 @@
+/**
+ * IPC Handlers for saved views (named Library queries)
+ * Handles: list, create, rename/update query, delete, reorder
+ * Queries are stored as query strings and evaluated by the renderer, so views stay live.
+ */
+
+import { ipcMain } from 'electron';
+import { getDb } from '../database';
+import { SavedView } from '../../types/query';
+
+function getSavedView(id: number): SavedView {
+  const db = getDb();
+  const view = db.prepare(`SELECT id, name, query, position, createdAt FROM SavedView WHERE id = ?`).get(id) as SavedView | undefined;
+  if (!view) {
+    throw new Error(`Saved view ${id} not found`);
+  }
+  return view;
+}
+
+// List saved views in order
+ipcMain.handle('savedViews:list', async () => {
+  try {
+    const db = getDb();
+    return db.prepare(`SELECT id, name, query, position, createdAt FROM SavedView ORDER BY position, id`).all() as SavedView[];
+  } catch (error) {
+    console.error('Error listing saved views:', error);
+    throw error;
+  }
+});
+
+// Save a query under a name, at the end of the list
+ipcMain.handle('savedViews:create', async (_event, name: string, query: string) => {
+  try {
+    const db = getDb();
+    const cleanName = name.trim();
+    if (!cleanName) {
+      throw new Error('Name cannot be empty');
+    }
+
+    const count = db.prepare(`SELECT COUNT(*) as count FROM SavedView`).get() as { count: number };
+    const result = db.prepare(`INSERT INTO SavedView (name, query, position) VALUES (?, ?, ?)`).run(cleanName, query, count.count);
+    return getSavedView(result.lastInsertRowid as number);
+  } catch (error) {
+    console.error('Error creating saved view:', error);
+    throw error;
+  }
+});
+
+// Rename a view or replace its query
+ipcMain.handle('savedViews:update', async (_event, id: number, changes: { name?: string; query?: string }) => {
+  try {
+    const db = getDb();
+    const view = getSavedView(id);
+    const name = changes.name !== undefined ? changes.name.trim() : view.name;
+    if (!name) {
+      throw new Error('Name cannot be empty');
+    }
+
+    db.prepare(`UPDATE SavedView SET name = ?, query = ? WHERE id = ?`).run(name, changes.query ?? view.query, id);
+    return getSavedView(id);
+  } catch (error) {
+    console.error('Error updating saved view:', error);
+    throw error;
+  }
+});
+
+// Delete a view
+ipcMain.handle('savedViews:delete', async (_event, id: number) => {
+  try {
+    const db = getDb();
+    db.prepare(`DELETE FROM SavedView WHERE id = ?`).run(id);
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+    throw error;
+  }
+});
+
+// Store the order of the views (IDs in their new order)
+ipcMain.handle('savedViews:reorder', async (_event, ids: number[]) => {
+  try {
+    const db = getDb();
+    const reorder = db.transaction(() => {
+      const update = db.prepare(`UPDATE SavedView SET position = ? WHERE id = ?`);
+      ids.forEach((id, position) => update.run(position, id));
+    });
+    reorder();
+  } catch (error) {
+    console.error('Error reordering saved views:', error);
+    throw error;
+  }
+});
@@ -59,6 +59,18 @@ ipcMain.handle('settings:update', async (_event, newSettings: any) => {
         updates.push('pdfViewer = ?');
         values.push(newSettings.pdfViewer);
       }
+      if (newSettings.noteAnnotations !== undefined) {
+        updates.push('noteAnnotations = ?');
+        values.push(newSettings.noteAnnotations ? 1 : 0);
+      }
+      if (newSettings.detectRelations !== undefined) {
+        updates.push('detectRelations = ?');
+        values.push(newSettings.detectRelations ? 1 : 0);
+      }
+      if (newSettings.trashRetentionDays !== undefined) {
+        updates.push('trashRetentionDays = ?');
+        values.push(Math.max(0, Math.round(Number(newSettings.trashRetentionDays) || 0)));
+      }
 
       updates.push('updatedAt = datetime("now")');
       values.push(existing.id);
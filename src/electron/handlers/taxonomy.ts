@@ -0,0 +1,208 @@
+/**
+ * IPC Handlers for the entity tables (authors, keywords, subjects, tags, universities, companies)
+ * Handles: usage counts, rename, merge, deleting unused entities, aliases
+ */
+
+import { ipcMain } from 'electron';
+import { getDb, updateSearchIndex } from '../database';
+import { EntityType, TaxonomyEntity } from '../../types/taxonomy';
+
+const ENTITY_TYPES: EntityType[] = ['Author', 'Keyword', 'Subject', 'Tag', 'University', 'Company'];
+
+// Table names are put in the SQL, so only the six known tables are accepted
+function entityTables(type: EntityType): { table: string; junction: string; column: string } {
+  if (!ENTITY_TYPES.includes(type)) {
+    throw new Error(`Unknown entity type: ${type}`);
+  }
+  return { table: type, junction: `Article${type}`, column: `${type.toLowerCase()}Id` };
+}
+
+// Refresh the search index of the articles linked to some entities (names are indexed)
+function reindexArticles(type: EntityType, entityIds: number[]) {
+  const db = getDb();
+  const { junction, column } = entityTables(type);
+  const rows = db.prepare(`
+    SELECT DISTINCT articleId FROM ${junction} WHERE ${column} IN (${entityIds.map(() => '?').join(',')})
+  `).all(...entityIds) as Array<{ articleId: string }>;
+  rows.forEach((row) => updateSearchIndex(row.articleId));
+}
+
+// Throw if a name is already used by another entity or alias of this type
+function checkNameAvailable(type: EntityType, name: string, entityId: number) {
+  const db = getDb();
+  const { table } = entityTables(type);
+
+  const entity = db.prepare(`SELECT id FROM ${table} WHERE name = ? AND id != ?`).get(name, entityId);
+  if (entity) {
+    throw new Error(`"${name}" already exists - merge the two entries instead`);
+  }
+  const alias = db.prepare(`SELECT entityId FROM EntityAlias WHERE entityType = ? AND alias = ? AND entityId != ?`).get(type, name, entityId);
+  if (alias) {
+    throw new Error(`"${name}" is already an alias of another entry`);
+  }
+}
+
+// List the entities of a table with their usage counts and aliases
+ipcMain.handle('taxonomy:list', async (_event, type: EntityType) => {
+  try {
+    const db = getDb();
+    const { table, junction, column } = entityTables(type);
+
+    const rows = db.prepare(`
+      SELECT e.id, e.name, (SELECT COUNT(*) FROM ${junction} j WHERE j.${column} = e.id) as usageCount
+      FROM ${table} e
+      ORDER BY e.name COLLATE NOCASE
+    `).all() as Array<{ id: number; name: string; usageCount: number }>;
+
+    const aliases = db.prepare(`SELECT entityId, alias FROM EntityAlias WHERE entityType = ? ORDER BY alias`).all(type) as Array<{
+      entityId: number;
+      alias: string;
+    }>;
+
+    return rows.map((row): TaxonomyEntity => ({
+      ...row,
+      aliases: aliases.filter((alias) => alias.entityId === row.id).map((alias) => alias.alias),
+    }));
+  } catch (error) {
+    console.error('Error listing entities:', error);
+    throw error;
+  }
+});
+
+// Rename an entity (the old name becomes an alias, so imports with the old spelling still match)
+ipcMain.handle('taxonomy:rename', async (_event, type: EntityType, id: number, newName: string) => {
+  try {
+    const db = getDb();
+    const { table } = entityTables(type);
+    const name = newName.trim();
+    if (!name) {
+      throw new Error('Name cannot be empty');
+    }
+
+    const entity = db.prepare(`SELECT name FROM ${table} WHERE id = ?`).get(id) as { name: string } | undefined;
+    if (!entity) {
+      throw new Error(`Entity ${id} not found`);
+    }
+    if (entity.name === name) return;
+
+    checkNameAvailable(type, name, id);
+
+    const rename = db.transaction(() => {
+      db.prepare(`UPDATE ${table} SET name = ? WHERE id = ?`).run(name, id);
+      db.prepare(`DELETE FROM EntityAlias WHERE entityType = ? AND alias = ?`).run(type, name);
+      // Only a change of spelling, not of case, needs an alias (aliases ignore case)
+      if (entity.name.toLowerCase() !== name.toLowerCase()) {
+        db.prepare(`INSERT OR REPLACE INTO EntityAlias (entityType, alias, entityId) VALUES (?, ?, ?)`).run(type, entity.name, id);
+      }
+      reindexArticles(type, [id]);
+    });
+
+    rename();
+  } catch (error) {
+    console.error('Error renaming entity:', error);
+    throw error;
+  }
+});
+
+// Merge entities into another one: articles are relinked, merged names become aliases
+ipcMain.handle('taxonomy:merge', async (_event, type: EntityType, sourceIds: number[], targetId: number) => {
+  try {
+    const db = getDb();
+    const { table, junction, column } = entityTables(type);
+    const sources = sourceIds.filter((id) => id !== targetId);
+
+    const target = db.prepare(`SELECT id FROM ${table} WHERE id = ?`).get(targetId);
+    if (!target) {
+      throw new Error(`Entity ${targetId} not found`);
+    }
+
+    const merge = db.transaction(() => {
+      sources.forEach((sourceId) => {
+        const source = db.prepare(`SELECT name FROM ${table} WHERE id = ?`).get(sourceId) as { name: string } | undefined;
+        if (!source) return;
+
+        // Articles linked to both keep a single link
+        db.prepare(`
+          INSERT OR IGNORE INTO ${junction} (articleId, ${column})
+          SELECT articleId, ? FROM ${junction} WHERE ${column} = ?
+        `).run(targetId, sourceId);
+        db.prepare(`DELETE FROM ${junction} WHERE ${column} = ?`).run(sourceId);
+
+        db.prepare(`UPDATE EntityAlias SET entityId = ? WHERE entityType = ? AND entityId = ?`).run(targetId, type, sourceId);
+        db.prepare(`INSERT OR REPLACE INTO EntityAlias (entityType, alias, entityId) VALUES (?, ?, ?)`).run(type, source.name, targetId);
+        db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(sourceId);
+      });
+
+      reindexArticles(type, [targetId]);
+    });
+
+    merge();
+    console.log(`Merged ${sources.length} ${type} entries into ${targetId}`);
+  } catch (error) {
+    console.error('Error merging entities:', error);
+    throw error;
+  }
+});
+
+// Delete entities no article uses (all of them, or only the given IDs)
+ipcMain.handle('taxonomy:deleteUnused', async (_event, type: EntityType, ids?: number[]) => {
+  try {
+    const db = getDb();
+    const { table, junction, column } = entityTables(type);
+
+    const onlyIds = ids ? ` AND id IN (${ids.map(() => '?').join(',') || 'NULL'})` : '';
+    const unused = db.prepare(`
+      SELECT id FROM ${table}
+      WHERE id NOT IN (SELECT ${column} FROM ${junction})${onlyIds}
+    `).all(...(ids || [])) as Array<{ id: number }>;
+
+    const deleteUnused = db.transaction(() => {
+      unused.forEach(({ id }) => {
+        db.prepare(`DELETE FROM EntityAlias WHERE entityType = ? AND entityId = ?`).run(type, id);
+        db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+      });
+    });
+
+    deleteUnused();
+    console.log(`Deleted ${unused.length} unused ${type} entries`);
+    return unused.length;
+  } catch (error) {
+    console.error('Error deleting unused entities:', error);
+    throw error;
+  }
+});
+
+// Add an alias: future inserts of this spelling link to the entity
+ipcMain.handle('taxonomy:addAlias', async (_event, type: EntityType, id: number, alias: string) => {
+  try {
+    const db = getDb();
+    const { table } = entityTables(type);
+    const name = alias.trim();
+    if (!name) {
+      throw new Error('Alias cannot be empty');
+    }
+
+    const entity = db.prepare(`SELECT name FROM ${table} WHERE id = ?`).get(id) as { name: string } | undefined;
+    if (!entity) {
+      throw new Error(`Entity ${id} not found`);
+    }
+
+    checkNameAvailable(type, name, id);
+    db.prepare(`INSERT OR REPLACE INTO EntityAlias (entityType, alias, entityId) VALUES (?, ?, ?)`).run(type, name, id);
+  } catch (error) {
+    console.error('Error adding alias:', error);
+    throw error;
+  }
+});
+
+// Remove an alias
+ipcMain.handle('taxonomy:removeAlias', async (_event, type: EntityType, alias: string) => {
+  try {
+    const db = getDb();
+    entityTables(type);
+    db.prepare(`DELETE FROM EntityAlias WHERE entityType = ? AND alias = ?`).run(type, alias);
+  } catch (error) {
+    console.error('Error removing alias:', error);
+    throw error;
+  }
+});
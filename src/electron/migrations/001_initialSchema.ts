@@ -0,0 +1,183 @@
+/**
+ * Migration 1: the schema of the versions of the app before migrations
+ * Their databases have no schema_version table and may lack the storage columns they added
+ * to UserSettings over time, so the tables are created if missing and those columns added
+ * if missing. Every later change is a migration of its own.
+ */
+
+import { Migration, addColumn } from './migration';
+
+// Columns added to UserSettings by the versions of the app before migrations (all present in the CREATE statement)
+const LEGACY_COLUMNS: Array<[table: string, column: string, definition: string]> = [
+  ['UserSettings', 'storagePath', 'TEXT'],
+  ['UserSettings', 'externalStoragePath', 'TEXT'],
+  ['UserSettings', 'useExternalStorage', 'INTEGER DEFAULT 0'],
+];
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial schema',
+
+  up(db) {
+    db.exec(`
+      -- Main Article table
+      CREATE TABLE IF NOT EXISTS Article (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        abstract TEXT NOT NULL,
+        conclusion TEXT,
+        year INTEGER NOT NULL,
+        date TEXT NOT NULL,
+        dateAdded TEXT NOT NULL,
+        journal TEXT,
+        doi TEXT,
+        language TEXT DEFAULT 'English',
+        numPages INTEGER DEFAULT 0,
+        researchQuestion TEXT,
+        methodology TEXT,
+        dataUsed TEXT,
+        results TEXT,
+        limitations TEXT,
+        firstImp TEXT,
+        notes TEXT,
+        comment TEXT,
+        rating INTEGER DEFAULT 0,
+        read INTEGER DEFAULT 0,
+        favorite INTEGER DEFAULT 0,
+        fileName TEXT NOT NULL,
+        createdAt TEXT DEFAULT (datetime('now')),
+        updatedAt TEXT DEFAULT (datetime('now'))
+      );
+
+      -- Authors table
+      CREATE TABLE IF NOT EXISTS Author (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL
+      );
+
+      -- Article-Author junction table
+      CREATE TABLE IF NOT EXISTS ArticleAuthor (
+        articleId TEXT NOT NULL,
+        authorId INTEGER NOT NULL,
+        PRIMARY KEY (articleId, authorId),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
+        FOREIGN KEY (authorId) REFERENCES Author(id)
+      );
+
+      -- Keywords table
+      CREATE TABLE IF NOT EXISTS Keyword (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL
+      );
+
+      -- Article-Keyword junction table
+      CREATE TABLE IF NOT EXISTS ArticleKeyword (
+        articleId TEXT NOT NULL,
+        keywordId INTEGER NOT NULL,
+        PRIMARY KEY (articleId, keywordId),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
+        FOREIGN KEY (keywordId) REFERENCES Keyword(id)
+      );
+
+      -- Subjects table
+      CREATE TABLE IF NOT EXISTS Subject (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL
+      );
+
+      -- Article-Subject junction table
+      CREATE TABLE IF NOT EXISTS ArticleSubject (
+        articleId TEXT NOT NULL,
+        subjectId INTEGER NOT NULL,
+        PRIMARY KEY (articleId, subjectId),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
+        FOREIGN KEY (subjectId) REFERENCES Subject(id)
+      );
+
+      -- Tags table
+      CREATE TABLE IF NOT EXISTS Tag (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL
+      );
+
+      -- Article-Tag junction table
+      CREATE TABLE IF NOT EXISTS ArticleTag (
+        articleId TEXT NOT NULL,
+        tagId INTEGER NOT NULL,
+        PRIMARY KEY (articleId, tagId),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
+        FOREIGN KEY (tagId) REFERENCES Tag(id)
+      );
+
+      -- Universities table
+      CREATE TABLE IF NOT EXISTS University (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL
+      );
+
+      -- Article-University junction table
+      CREATE TABLE IF NOT EXISTS ArticleUniversity (
+        articleId TEXT NOT NULL,
+        universityId INTEGER NOT NULL,
+        PRIMARY KEY (articleId, universityId),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
+        FOREIGN KEY (universityId) REFERENCES University(id)
+      );
+
+      -- Companies table
+      CREATE TABLE IF NOT EXISTS Company (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL
+      );
+
+      -- Article-Company junction table
+      CREATE TABLE IF NOT EXISTS ArticleCompany (
+        articleId TEXT NOT NULL,
+        companyId INTEGER NOT NULL,
+        PRIMARY KEY (articleId, companyId),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE,
+        FOREIGN KEY (companyId) REFERENCES Company(id)
+      );
+
+      -- User settings table
+      CREATE TABLE IF NOT EXISTS UserSettings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        theme TEXT DEFAULT 'light',
+        language TEXT DEFAULT 'en',
+        pdfViewer TEXT DEFAULT 'system',
+        fontSize INTEGER DEFAULT 14,
+        storagePath TEXT,
+        externalStoragePath TEXT,
+        useExternalStorage INTEGER DEFAULT 0,
+        createdAt TEXT DEFAULT (datetime('now')),
+        updatedAt TEXT DEFAULT (datetime('now'))
+      );
+
+      -- ID Counter table to avoid duplicate IDs after deletion
+      CREATE TABLE IF NOT EXISTS IdCounter (
+        name TEXT PRIMARY KEY,
+        nextId INTEGER NOT NULL DEFAULT 1
+      );
+
+      -- Create indexes for better performance
+      CREATE INDEX IF NOT EXISTS idx_article_year ON Article(year);
+      CREATE INDEX IF NOT EXISTS idx_article_read ON Article(read);
+      CREATE INDEX IF NOT EXISTS idx_article_favorite ON Article(favorite);
+      CREATE INDEX IF NOT EXISTS idx_article_rating ON Article(rating);
+    `);
+
+    for (const [table, column, definition] of LEGACY_COLUMNS) {
+      addColumn(db, table, column, definition);
+    }
+
+    // Article ID counter, from the highest existing ID (IDs of deleted articles are never reused)
+    const counter = db.prepare(`SELECT nextId FROM IdCounter WHERE name = 'article'`).get() as { nextId: number } | undefined;
+    if (!counter) {
+      const lastArticle = db.prepare(`SELECT id FROM Article ORDER BY CAST(id AS INTEGER) DESC LIMIT 1`).get() as { id: string } | undefined;
+      const nextId = lastArticle ? parseInt(lastArticle.id) + 1 : 1;
+
+      db.prepare(`INSERT INTO IdCounter (name, nextId) VALUES ('article', ?)`).run(nextId);
+      console.log(`Migration: Initialized article ID counter to ${nextId}`);
+    }
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Migration 2: the full-text search index and the text extracted from the PDFs
+ * (filled by checkSearchIndex once the migrations are applied)
+ */
+
+import { Migration } from './migration';
+
+export const searchIndex: Migration = {
+  version: 2,
+  name: 'full-text search',
+
+  up(db) {
+    db.exec(`
+      -- Text extracted from each article's PDF (pages separated by form feeds)
+      CREATE TABLE ArticlePdfText (
+        articleId TEXT PRIMARY KEY,
+        text TEXT NOT NULL,
+        numPages INTEGER NOT NULL DEFAULT 0,
+        extractedAt TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE
+      );
+
+      -- Full-text search index (one row per article, see updateSearchIndex)
+      CREATE VIRTUAL TABLE ArticleSearch USING fts5(
+        articleId UNINDEXED,
+        title,
+        authors,
+        abstract,
+        keywords,
+        tags,
+        subjects,
+        content,
+        pdfText,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `);
+  },
+};
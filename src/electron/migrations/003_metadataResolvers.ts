@@ -0,0 +1,15 @@
+/**
+ * Migration 3: addresses of the DOI metadata resolvers (empty for the default ones)
+ */
+
+import { Migration, addColumn } from './migration';
+
+export const metadataResolvers: Migration = {
+  version: 3,
+  name: 'metadata resolvers',
+
+  up(db) {
+    addColumn(db, 'UserSettings', 'crossrefUrl', 'TEXT');
+    addColumn(db, 'UserSettings', 'dataciteUrl', 'TEXT');
+  },
+};
@@ -0,0 +1,21 @@
+/**
+ * Migration 4: IDs of the articles merged into another one
+ */
+
+import { Migration } from './migration';
+
+export const articleRedirects: Migration = {
+  version: 4,
+  name: 'article redirects',
+
+  up(db) {
+    db.exec(`
+      -- Retired article IDs (merged duplicates) and the article they now lead to
+      CREATE TABLE ArticleRedirect (
+        fromId TEXT PRIMARY KEY,
+        toId TEXT NOT NULL,
+        mergedAt TEXT DEFAULT (datetime('now'))
+      );
+    `);
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * Migration 5: other spellings of the authors, keywords... (taxonomy management)
+ */
+
+import { Migration } from './migration';
+
+export const entityAliases: Migration = {
+  version: 5,
+  name: 'entity aliases',
+
+  up(db) {
+    db.exec(`
+      -- Other spellings of an entity ("J. Smith" for "John Smith"), see getOrCreateEntity
+      CREATE TABLE EntityAlias (
+        entityType TEXT NOT NULL,
+        alias TEXT NOT NULL COLLATE NOCASE,
+        entityId INTEGER NOT NULL,
+        PRIMARY KEY (entityType, alias)
+      );
+    `);
+  },
+};
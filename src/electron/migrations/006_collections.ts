@@ -0,0 +1,36 @@
+/**
+ * Migration 6: nested, ordered collections of articles
+ */
+
+import { Migration } from './migration';
+
+export const collections: Migration = {
+  version: 6,
+  name: 'collections',
+
+  up(db) {
+    db.exec(`
+      -- Collections (reading lists), nested through parentId and ordered among their siblings
+      CREATE TABLE Collection (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT,
+        parentId INTEGER,
+        position INTEGER NOT NULL DEFAULT 0,
+        createdAt TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (parentId) REFERENCES Collection(id)
+      );
+
+      -- Collection-Article junction table, in manual order
+      CREATE TABLE CollectionArticle (
+        collectionId INTEGER NOT NULL,
+        articleId TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        addedAt TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (collectionId, articleId),
+        FOREIGN KEY (collectionId) REFERENCES Collection(id) ON DELETE CASCADE,
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE
+      );
+    `);
+  },
+};
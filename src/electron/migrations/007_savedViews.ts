@@ -0,0 +1,23 @@
+/**
+ * Migration 7: saved Library queries
+ */
+
+import { Migration } from './migration';
+
+export const savedViews: Migration = {
+  version: 7,
+  name: 'saved views',
+
+  up(db) {
+    db.exec(`
+      -- Saved Library queries (smart views), query as a query string - see src/lib/libraryQuery.ts
+      CREATE TABLE SavedView (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        query TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        createdAt TEXT DEFAULT (datetime('now'))
+      );
+    `);
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Migration 8: annotations of the PDF reader, the ones imported from the PDFs,
+ * and whether the note of an article includes them
+ */
+
+import { Migration, addColumn } from './migration';
+
+export const annotations: Migration = {
+  version: 8,
+  name: 'annotations',
+
+  up(db) {
+    db.exec(`
+      -- Annotations made in the PDF reader, rects as JSON (fractions of the page size), or imported from
+      -- the PDF (source 'pdf'): editedAt and deletedAt keep the user's changes over later imports
+      CREATE TABLE Annotation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        articleId TEXT NOT NULL,
+        type TEXT NOT NULL,
+        page INTEGER NOT NULL,
+        rects TEXT NOT NULL DEFAULT '[]',
+        color TEXT NOT NULL DEFAULT 'yellow',
+        text TEXT,
+        comment TEXT,
+        source TEXT NOT NULL DEFAULT 'reader',
+        pdfAnnotationId TEXT,
+        editedAt TEXT,
+        deletedAt TEXT,
+        createdAt TEXT DEFAULT (datetime('now')),
+        updatedAt TEXT DEFAULT (datetime('now')),
+        FOREIGN KEY (articleId) REFERENCES Article(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_annotation_article ON Annotation(articleId, page);
+    `);
+    addColumn(db, 'UserSettings', 'noteAnnotations', 'INTEGER DEFAULT 0');
+  },
+};
@@ -0,0 +1,31 @@
+/**
+ * Migration 9: typed links between articles, detected from the PDF reference lists if enabled
+ */
+
+import { Migration, addColumn } from './migration';
+
+export const articleRelations: Migration = {
+  version: 9,
+  name: 'article relations',
+
+  up(db) {
+    db.exec(`
+      -- Typed links between articles ("fromId cites toId"...), 'auto' ones come from the PDF reference lists
+      CREATE TABLE ArticleRelation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        fromId TEXT NOT NULL,
+        toId TEXT NOT NULL,
+        type TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual',
+        note TEXT,
+        createdAt TEXT DEFAULT (datetime('now')),
+        UNIQUE (fromId, toId, type),
+        FOREIGN KEY (fromId) REFERENCES Article(id) ON DELETE CASCADE,
+        FOREIGN KEY (toId) REFERENCES Article(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_relation_to ON ArticleRelation(toId);
+    `);
+    addColumn(db, 'UserSettings', 'detectRelations', 'INTEGER DEFAULT 0');
+  },
+};
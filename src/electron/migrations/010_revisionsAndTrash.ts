@@ -0,0 +1,28 @@
+/**
+ * Migration 10: article revisions, and the trash (deleted articles kept for trashRetentionDays)
+ */
+
+import { Migration, addColumn } from './migration';
+
+export const revisionsAndTrash: Migration = {
+  version: 10,
+  name: 'revisions and trash',
+
+  up(db) {
+    db.exec(`
+      -- Snapshots of an article (fields and relation names, as JSON) after each change, kept after it is deleted
+      CREATE TABLE ArticleRevision (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        articleId TEXT NOT NULL,
+        action TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        createdAt TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX idx_revision_article ON ArticleRevision(articleId, id);
+    `);
+    addColumn(db, 'Article', 'deletedAt', 'TEXT');
+    db.exec(`CREATE INDEX idx_article_deleted ON Article(deletedAt)`);
+    addColumn(db, 'UserSettings', 'trashRetentionDays', 'INTEGER DEFAULT 30');
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * Migration 11: schedule and retention of the backups, and whether they include the PDFs and notes
+ */
+
+import { Migration, addColumn } from './migration';
+
+export const backupSettings: Migration = {
+  version: 11,
+  name: 'backup settings',
+
+  up(db) {
+    addColumn(db, 'UserSettings', 'backupSchedule', "TEXT DEFAULT 'daily'");
+    addColumn(db, 'UserSettings', 'backupIncludeFiles', 'INTEGER DEFAULT 0');
+    addColumn(db, 'UserSettings', 'backupKeep', 'INTEGER DEFAULT 10');
+  },
+};
@@ -0,0 +1,123 @@
+/**
+ * Database schema migrations
+ * The schema version is the highest version recorded in schema_version. At startup, the
+ * migrations above it are applied in order, each in its own transaction, after a backup
+ * of the database. A new schema change is a new module added at the end of MIGRATIONS.
+ */
+
+import * as path from 'path';
+import { getDb, rebuildSearchIndex } from '../database';
+import { createBackup } from '../backup';
+import { StoragePaths } from '../paths';
+import { Migration, MigrationError, hasTable } from './migration';
+import { initialSchema } from './001_initialSchema';
+import { searchIndex } from './002_searchIndex';
+import { metadataResolvers } from './003_metadataResolvers';
+import { articleRedirects } from './004_articleRedirects';
+import { entityAliases } from './005_entityAliases';
+import { collections } from './006_collections';
+import { savedViews } from './007_savedViews';
+import { annotations } from './008_annotations';
+import { articleRelations } from './009_articleRelations';
+import { revisionsAndTrash } from './010_revisionsAndTrash';
+import { backupSettings } from './011_backupSettings';
+
+// In version order, without gaps
+const MIGRATIONS: Migration[] = [
+  initialSchema,
+  searchIndex,
+  metadataResolvers,
+  articleRedirects,
+  entityAliases,
+  collections,
+  savedViews,
+  annotations,
+  articleRelations,
+  revisionsAndTrash,
+  backupSettings,
+];
+
+export { MigrationError };
+
+export function getSchemaVersion(): number {
+  const row = getDb().prepare(`SELECT MAX(version) as version FROM schema_version`).get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+// Articles added by a version of the app without the full-text index, or missing from it for another reason
+function checkSearchIndex(): void {
+  try {
+    const db = getDb();
+    const indexed = db.prepare(`SELECT COUNT(*) as count FROM ArticleSearch`).get() as { count: number };
+    const total = db.prepare(`SELECT COUNT(*) as count FROM Article WHERE deletedAt IS NULL`).get() as { count: number };
+
+    if (indexed.count !== total.count) {
+      rebuildSearchIndex();
+      console.log(`Rebuilt search index (${total.count} articles)`);
+    }
+  } catch (error) {
+    console.log('Search index check error:', error);
+  }
+}
+
+/**
+ * Bring the database schema up to date
+ * Throws a MigrationError (shown by the startup error screen) when the database cannot be used:
+ * the backup or a migration failed, or it was updated by a newer version of the app.
+ */
+export async function migrateDatabase(): Promise<void> {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT DEFAULT (datetime('now'))
+    )
+  `);
+
+  const current = getSchemaVersion();
+  const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+  if (current > latest) {
+    throw new MigrationError(
+      `The database is at schema version ${current}, but this version of the app only knows up to version ${latest}. ` +
+      'It was probably opened by a newer version of the app.',
+      null,
+      null
+    );
+  }
+
+  const pending = MIGRATIONS.filter((migration) => migration.version > current);
+  if (pending.length === 0) {
+    checkSearchIndex();
+    return;
+  }
+
+  // A new database has nothing to back up
+  let backupPath: string | null = null;
+  if (hasTable(db, 'Article')) {
+    try {
+      const backup = await createBackup('pre-migration', false);
+      backupPath = path.join(StoragePaths.backups, backup.id);
+    } catch (error) {
+      throw new MigrationError(`The database could not be backed up before updating it: ${(error as Error).message}`, null, null);
+    }
+  }
+
+  const record = db.prepare(`INSERT INTO schema_version (version, name) VALUES (?, ?)`);
+  for (const migration of pending) {
+    const label = `${migration.version} (${migration.name})`;
+    try {
+      const apply = db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name);
+      });
+      apply();
+      console.log(`Applied migration ${label}`);
+    } catch (error) {
+      console.error(`Error applying migration ${label}:`, error);
+      throw new MigrationError((error as Error).message, label, backupPath);
+    }
+  }
+
+  checkSearchIndex();
+}
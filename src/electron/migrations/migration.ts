@@ -0,0 +1,40 @@
+/**
+ * Common pieces of the schema migrations
+ */
+
+import Database from 'better-sqlite3';
+
+/**
+ * One step of the database schema
+ * up() runs inside a transaction with the schema_version update: it is applied entirely or not at all.
+ */
+export interface Migration {
+  readonly version: number;
+  readonly name: string;
+  up(db: Database.Database): void;
+}
+
+// A migration failed (and was rolled back), or the database is newer than this version of the app
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    readonly migration: string | null,
+    readonly backupPath: string | null
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export function hasTable(db: Database.Database, table: string): boolean {
+  return Boolean(db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table));
+}
+
+// Add a column unless it is already there (databases made before versioning may have it)
+export function addColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  const tableInfo = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{name: string}>;
+  if (!tableInfo.some(col => col.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Migration: Added ${column} column to ${table}`);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Markdown of the research note fields, with the [[0042]] article links resolved
+ * against the library, for the Word notes
+ */
+
+import { getDb } from './database';
+import { collectArticleLinks, parseMarkdown } from '../lib/markdown';
+import { MarkdownBlock } from '../types/markdown';
+
+// Blocks of a note field; links to merged articles point to the article they were merged into
+export function parseNoteMarkdown(text: string): MarkdownBlock[] {
+  const blocks = parseMarkdown(text);
+  const links = collectArticleLinks(blocks);
+  if (links.length === 0) return blocks;
+
+  const db = getDb();
+  const getTitle = db.prepare(`SELECT title FROM Article WHERE id = ?`);
+  const getRedirect = db.prepare(`SELECT toId FROM ArticleRedirect WHERE fromId = ?`);
+
+  for (const link of links) {
+    let article = getTitle.get(link.id) as { title: string } | undefined;
+    if (!article) {
+      const redirect = getRedirect.get(link.id) as { toId: string } | undefined;
+      if (redirect) {
+        link.id = redirect.toId;
+        article = getTitle.get(link.id) as { title: string } | undefined;
+      }
+    }
+    link.title = article ? article.title : null;
+  }
+  return blocks;
+}
@@ -47,6 +47,14 @@ export const StoragePaths = {
   get notes(): string {
     return path.join(getStorageRoot(), 'notes');
   },
+  // Quarantine for the PDFs and notes of deleted articles (same pdfs/ and notes/ layout)
+  get trash(): string {
+    return path.join(getStorageRoot(), 'trash');
+  },
+  // Backups of the database (and optionally of pdfs/, notes/ and trash/), one folder each
+  get backups(): string {
+    return path.join(getStorageRoot(), 'backups');
+  },
   get root(): string {
     return getStorageRoot();
   }
@@ -76,7 +84,9 @@ export function ensureStorageDirectories(): void {
     StoragePaths.root,
     StoragePaths.database,
     StoragePaths.pdfs,
-    StoragePaths.notes
+    StoragePaths.notes,
+    StoragePaths.trash,
+    StoragePaths.backups
   ];
 
   for (const dir of dirs) {
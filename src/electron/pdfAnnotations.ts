@@ -0,0 +1,394 @@
+/**
+ * Annotations of the integrated reader (Annotation table), and their export into a PDF
+ * as standard annotation objects that open in any viewer: Highlight with a popup for the
+ * comment, FreeText for sticky notes. pdfjs saves them like its own editor's annotations:
+ * an incremental update appended to the original file, which is left untouched otherwise.
+ * The other way round, the annotations already in a PDF (made in another reader) are
+ * imported with source 'pdf' and the id of the PDF annotation. The user's changes to them
+ * are kept by later imports, and written over the original ones on export.
+ */
+
+import * as fs from 'fs';
+import { Annotation, AnnotationColor, AnnotationInput, AnnotationRect, AnnotationType } from '../types/annotation';
+import { getDb, updateSearchIndex } from './database';
+import { loadPdfJs } from './pdfText';
+
+// Same colors as the reader's swatches
+const COLOR_RGB: Record<AnnotationColor, [number, number, number]> = {
+  yellow: [250, 204, 21],
+  green: [74, 222, 128],
+  blue: [96, 165, 250],
+  pink: [244, 114, 182],
+  purple: [192, 132, 252],
+};
+
+// Prefix pdfjs gives to the annotations created by its editor (the ones it saves)
+// The values written to annotationStorage below are the serialized form of pdfjs's editors
+// (HIGHLIGHT, FREETEXT, deleted annotations), which is not a public API and can change in any
+// release without an error: pdfjs-dist is pinned to an exact version in package.json for this.
+// Check the exported PDFs in another viewer before upgrading it.
+const EDITOR_PREFIX = 'pdfjs_internal_editor_';
+
+// PDF annotation subtypes that are imported, and what they become
+const IMPORTED_SUBTYPES: Record<string, AnnotationType> = {
+  Highlight: 'highlight',
+  Underline: 'highlight',
+  Squiggly: 'highlight',
+  StrikeOut: 'highlight',
+  Text: 'note',
+  FreeText: 'note',
+  Ink: 'note',
+};
+
+const NOTE_FONT_SIZE = 10;
+const NOTE_LINE_LENGTH = 48;
+
+// Rects are stored as JSON
+export function toAnnotation(row: any): Annotation {
+  return { ...row, rects: JSON.parse(row.rects || '[]') };
+}
+
+// Annotations of an article in reading order: by page, then top to bottom
+// (imported annotations the user deleted are only kept to remove them from the PDF)
+export function getArticleAnnotations(articleId: string): Annotation[] {
+  const db = getDb();
+  const rows = db.prepare(`SELECT * FROM Annotation WHERE articleId = ? AND deletedAt IS NULL ORDER BY page, id`).all(articleId);
+  return rows.map(toAnnotation).sort((a, b) =>
+    a.page - b.page || (a.rects[0]?.y ?? 0) - (b.rects[0]?.y ?? 0)
+  );
+}
+
+// An annotation read from a PDF, with the id it has in the file
+export interface PdfAnnotationInput extends AnnotationInput {
+  pdfAnnotationId: string;
+}
+
+interface ImportedAnnotationRow {
+  id: number;
+  page: number;
+  pdfAnnotationId: string | null;
+  editedAt: string | null;
+  deletedAt: string | null;
+}
+
+// Sticky note text cut in lines, FreeText annotations don't wrap
+function wrapNote(text: string): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      if (line && line.length + word.length + 1 > NOTE_LINE_LENGTH) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Copy of a PDF with the highlights and notes of an article (bookmarks have no equivalent)
+ * Imported annotations the user deleted are removed from the copy, the ones they edited are
+ * replaced by the edited version, the others are already in the file.
+ * @param pdfPath Absolute path to the stored PDF
+ * @returns The content of the annotated PDF
+ */
+export async function writeAnnotatedPdf(articleId: string, pdfPath: string): Promise<Uint8Array> {
+  const annotations = getArticleAnnotations(articleId);
+  const replaced = getDb().prepare(`
+    SELECT id, page, pdfAnnotationId, editedAt, deletedAt FROM Annotation
+    WHERE articleId = ? AND source = 'pdf' AND pdfAnnotationId IS NOT NULL AND (editedAt IS NOT NULL OR deletedAt IS NOT NULL)
+  `).all(articleId) as ImportedAnnotationRow[];
+
+  const pdfjsLib = await loadPdfJs();
+  const data = new Uint8Array(fs.readFileSync(pdfPath));
+
+  const pdf = await pdfjsLib.getDocument({
+    data,
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    let count = 0;
+
+    // The original of an edited or deleted annotation goes, with its popup and the replies merged into its comment
+    for (const row of replaced) {
+      if (row.page < 1 || row.page > pdf.numPages) continue;
+      const page = await pdf.getPage(row.page);
+      const pageAnnotations = (await page.getAnnotations()) as any[];
+      const original = pageAnnotations.find((annotation) => annotation.id === row.pdfAnnotationId);
+      if (original) {
+        for (const annotation of [original, ...pageAnnotations.filter((reply) => reply.inReplyTo === original.id)]) {
+          pdf.annotationStorage.setValue(`${EDITOR_PREFIX}pdf_${annotation.id}`, {
+            id: annotation.id,
+            popupRef: annotation.popupRef,
+            pageIndex: row.page - 1,
+            deleted: true,
+          });
+          count++;
+        }
+      }
+      page.cleanup();
+    }
+
+    for (const annotation of annotations) {
+      // Imported annotations are already in the file, unless the user changed them
+      if (annotation.source === 'pdf' && !(annotation.editedAt && annotation.pdfAnnotationId)) continue;
+      if (annotation.type === 'bookmark' || annotation.rects.length === 0) continue;
+      if (annotation.type === 'note' && !annotation.comment?.trim()) continue;
+      if (annotation.page < 1 || annotation.page > pdf.numPages) continue;
+
+      // Rects are fractions of the page as displayed (rotated): the viewport converts them to PDF points
+      const page = await pdf.getPage(annotation.page);
+      const viewport = page.getViewport({ scale: 1 });
+      const toPdf = (x: number, y: number) => viewport.convertToPdfPoint(x * viewport.width, y * viewport.height) as number[];
+
+      if (annotation.type === 'highlight') {
+        const quadPoints: number[] = [];
+        const outlines: number[][] = [];
+        for (const rect of annotation.rects) {
+          const [ulx, uly] = toPdf(rect.x, rect.y);
+          const [urx, ury] = toPdf(rect.x + rect.width, rect.y);
+          const [llx, lly] = toPdf(rect.x, rect.y + rect.height);
+          const [lrx, lry] = toPdf(rect.x + rect.width, rect.y + rect.height);
+          quadPoints.push(ulx, uly, urx, ury, llx, lly, lrx, lry);
+          outlines.push([ulx, uly, urx, ury, lrx, lry, llx, lly]);
+        }
+        const xs = quadPoints.filter((_value, i) => i % 2 === 0);
+        const ys = quadPoints.filter((_value, i) => i % 2 === 1);
+        const rect = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+
+        pdf.annotationStorage.setValue(`${EDITOR_PREFIX}${annotation.id}`, {
+          annotationType: pdfjsLib.AnnotationEditorType.HIGHLIGHT,
+          pageIndex: annotation.page - 1,
+          color: COLOR_RGB[annotation.color],
+          rotation: 0,
+          opacity: 0.4,
+          rect,
+          quadPoints,
+          outlines,
+          // The comment opens in a popup next to the highlight
+          popup: annotation.comment
+            ? { contents: annotation.comment, rect: [rect[2], rect[3] - 100, rect[2] + 200, rect[3]], deleted: false }
+            : undefined,
+        });
+      } else {
+        const lines = wrapNote((annotation.comment || '').trim());
+        const width = (Math.max(...lines.map((line) => line.length)) * NOTE_FONT_SIZE * 0.55 + 8) / viewport.width;
+        const height = (lines.length * NOTE_FONT_SIZE * 1.35 + 6) / viewport.height;
+        const { x, y } = annotation.rects[0];
+        const [x1, y1] = toPdf(x, y);
+        const [x2, y2] = toPdf(x + width, y + height);
+
+        pdf.annotationStorage.setValue(`${EDITOR_PREFIX}${annotation.id}`, {
+          annotationType: pdfjsLib.AnnotationEditorType.FREETEXT,
+          pageIndex: annotation.page - 1,
+          color: [0, 0, 0],
+          fontSize: NOTE_FONT_SIZE,
+          rect: [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)],
+          rotation: page.rotate,
+          value: lines.join('\n'),
+        });
+      }
+      page.cleanup();
+      count++;
+    }
+
+    // Nothing to add: a plain copy (pdfjs took over the data buffer)
+    if (count === 0) return new Uint8Array(fs.readFileSync(pdfPath));
+    return await pdf.saveDocument();
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Reader color closest to a PDF annotation color
+function nearestColor(rgb: ArrayLike<number> | null): AnnotationColor {
+  if (!rgb || rgb.length < 3) return 'yellow';
+  let nearest: AnnotationColor = 'yellow';
+  let best = Infinity;
+  for (const [color, [r, g, b]] of Object.entries(COLOR_RGB) as Array<[AnnotationColor, number[]]>) {
+    const distance = (rgb[0] - r) ** 2 + (rgb[1] - g) ** 2 + (rgb[2] - b) ** 2;
+    if (distance < best) {
+      best = distance;
+      nearest = color;
+    }
+  }
+  return nearest;
+}
+
+// Text of the page under a rectangle of PDF points (parts of the text items it covers)
+function textUnder(items: any[], [x1, y1, x2, y2]: number[]): string {
+  const parts: string[] = [];
+  for (const item of items) {
+    if (!item.str || !item.width) continue;
+    const [a, b, c, d, x, y] = item.transform;
+    // Only horizontal text is matched
+    if (Math.abs(b) > 0.01 || Math.abs(c) > 0.01 || a <= 0) continue;
+
+    const height = item.height || Math.abs(d);
+    const middle = y + height / 2;
+    if (middle < y1 || middle > y2 || x > x2 || x + item.width < x1) continue;
+
+    // Characters are assumed to have the same width
+    const start = Math.max(0, (x1 - x) / item.width);
+    const end = Math.min(1, (x2 - x) / item.width);
+    parts.push(item.str.slice(Math.round(start * item.str.length), Math.round(end * item.str.length)));
+  }
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Highlights, notes and drawings already in a PDF, as reader annotations
+ * @param pdfPath Absolute path to the stored PDF
+ */
+export async function readPdfAnnotations(pdfPath: string): Promise<PdfAnnotationInput[]> {
+  const pdfjsLib = await loadPdfJs();
+  const data = new Uint8Array(fs.readFileSync(pdfPath));
+
+  const pdf = await pdfjsLib.getDocument({
+    data,
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    const imported: PdfAnnotationInput[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const annotations = (await page.getAnnotations()) as any[];
+      if (!annotations.some((annotation) => IMPORTED_SUBTYPES[annotation.subtype])) {
+        page.cleanup();
+        continue;
+      }
+
+      const viewport = page.getViewport({ scale: 1 });
+      const items = (await page.getTextContent()).items;
+      // Area in PDF points to a rect in fractions of the page as displayed
+      const toRect = ([x1, y1, x2, y2]: number[]): AnnotationRect => {
+        const [left, top, right, bottom] = viewport.convertToViewportRectangle([x1, y1, x2, y2]);
+        return {
+          x: Math.min(left, right) / viewport.width,
+          y: Math.min(top, bottom) / viewport.height,
+          width: Math.abs(right - left) / viewport.width,
+          height: Math.abs(bottom - top) / viewport.height,
+        };
+      };
+
+      const byId = new Map<string, PdfAnnotationInput>();
+      for (const annotation of annotations) {
+        const type = IMPORTED_SUBTYPES[annotation.subtype];
+        const comment = annotation.contentsObj?.str?.trim() || null;
+
+        // Replies to another annotation are added to its comment
+        const parent = annotation.inReplyTo ? byId.get(annotation.inReplyTo) : undefined;
+        if (parent) {
+          if (comment) parent.comment = parent.comment ? `${parent.comment}\n${comment}` : comment;
+          continue;
+        }
+        if (!type) continue;
+
+        let input: PdfAnnotationInput;
+        if (type === 'highlight') {
+          // One area per line (quadPoints) or the whole annotation
+          const quadPoints: number[] = annotation.quadPoints ? Array.from(annotation.quadPoints) : [];
+          const areas: number[][] = [];
+          for (let i = 0; i + 8 <= quadPoints.length; i += 8) {
+            const xs = [quadPoints[i], quadPoints[i + 2], quadPoints[i + 4], quadPoints[i + 6]];
+            const ys = [quadPoints[i + 1], quadPoints[i + 3], quadPoints[i + 5], quadPoints[i + 7]];
+            areas.push([Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]);
+          }
+          if (areas.length === 0) areas.push(annotation.rect);
+
+          input = {
+            type,
+            page: pageNumber,
+            rects: areas.map(toRect),
+            color: nearestColor(annotation.color),
+            text: areas.map((area) => textUnder(items, area)).filter(Boolean).join(' ') || null,
+            comment,
+            pdfAnnotationId: annotation.id,
+          };
+        } else {
+          // Notes and drawings are pinned at their top-left corner
+          const { x, y } = toRect(annotation.rect);
+          input = {
+            type,
+            page: pageNumber,
+            rects: [{ x, y, width: 0, height: 0 }],
+            color: nearestColor(annotation.color),
+            text: null,
+            comment: comment || (annotation.subtype === 'FreeText' ? annotation.textContent?.join('\n') || null : null),
+            pdfAnnotationId: annotation.id,
+          };
+        }
+        byId.set(annotation.id, input);
+        imported.push(input);
+      }
+      page.cleanup();
+    }
+    return imported;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Bring the imported annotations of an article in line with the ones currently in its PDF
+ * (the ones made in the reader are kept) and refresh its search index row
+ * An annotation still in the PDF is updated in place, unless the user edited or deleted it;
+ * one no longer in the PDF goes, unless the user edited it (it then becomes theirs).
+ * @returns Number of annotations in the PDF
+ */
+export async function importPdfAnnotations(articleId: string, pdfPath: string): Promise<number> {
+  const imported = await readPdfAnnotations(pdfPath);
+
+  const db = getDb();
+  // The article may have been deleted while the PDF was being read
+  const exists = db.prepare(`SELECT 1 FROM Article WHERE id = ?`).get(articleId);
+  if (!exists) return 0;
+
+  const insert = db.prepare(`
+    INSERT INTO Annotation (articleId, type, page, rects, color, text, comment, source, pdfAnnotationId)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'pdf', ?)
+  `);
+  const update = db.prepare(`
+    UPDATE Annotation SET type = ?, rects = ?, color = ?, text = ?, comment = ?, updatedAt = datetime('now')
+    WHERE id = ?
+  `);
+  db.transaction(() => {
+    const rows = db.prepare(`
+      SELECT id, page, pdfAnnotationId, editedAt, deletedAt FROM Annotation WHERE articleId = ? AND source = 'pdf'
+    `).all(articleId) as ImportedAnnotationRow[];
+    const existing = new Map(rows.map((row) => [`${row.page}:${row.pdfAnnotationId}`, row]));
+
+    for (const input of imported) {
+      const key = `${input.page}:${input.pdfAnnotationId}`;
+      const row = existing.get(key);
+      existing.delete(key);
+      if (!row) {
+        insert.run(articleId, input.type, input.page, JSON.stringify(input.rects), input.color, input.text ?? null, input.comment ?? null, input.pdfAnnotationId);
+      } else if (!row.editedAt && !row.deletedAt) {
+        update.run(input.type, JSON.stringify(input.rects), input.color, input.text ?? null, input.comment ?? null, row.id);
+      }
+    }
+
+    for (const row of existing.values()) {
+      if (row.editedAt && !row.deletedAt) {
+        db.prepare(`UPDATE Annotation SET source = 'reader', pdfAnnotationId = NULL, editedAt = NULL WHERE id = ?`).run(row.id);
+      } else {
+        db.prepare(`DELETE FROM Annotation WHERE id = ?`).run(row.id);
+      }
+    }
+  })();
+
+  updateSearchIndex(articleId);
+  console.log(`Imported ${imported.length} PDF annotations for article ${articleId}`);
+  return imported.length;
+}
@@ -0,0 +1,57 @@
+/**
+ * PDF text extraction for the main process
+ * Uses the legacy pdfjs-dist build (the modern one needs browser globals such as
+ * DOMMatrix) with an in-process worker (no Web Worker in Node)
+ */
+
+import * as fs from 'fs';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjs: PdfJs | null = null;
+
+// Load pdfjs lazily - it's only needed when a PDF is indexed or exported
+export async function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjs) {
+    // Registering the worker module on globalThis makes pdfjs run it in-process
+    (globalThis as any).pdfjsWorker = await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
+    pdfjs = (await import('pdfjs-dist/legacy/build/pdf.mjs')) as PdfJs;
+  }
+  return pdfjs;
+}
+
+/**
+ * Extract the text of every page of a PDF
+ * @param pdfPath Absolute path to the PDF file
+ * @returns One string per page, in page order
+ */
+export async function extractPdfPages(pdfPath: string): Promise<string[]> {
+  const pdfjsLib = await loadPdfJs();
+  const data = new Uint8Array(fs.readFileSync(pdfPath));
+
+  const pdf = await pdfjsLib.getDocument({
+    data,
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let text = '';
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        text += item.str + (item.hasEOL ? '\n' : ' ');
+      }
+      pages.push(text.replace(/[ \t]+/g, ' ').trim());
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
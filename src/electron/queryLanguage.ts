@@ -0,0 +1,530 @@
+/**
+ * Query language of the search bar, evaluated against the database
+ *
+ *   author:"Smith" year:2018..2022 tag:ml -read rating>=4 "exact phrase" OR (keyword:nlp journal:Nature)
+ *
+ * Terms are ANDed, OR binds looser than AND, parentheses group, a leading "-" negates.
+ * Bare words and "phrases" go through the full-text index, `read` and `favorite` are flags.
+ */
+
+import { getDb } from './database';
+import { buildMatchQuery } from './search';
+import { QueryAnalysis, QuerySuggestion, QuerySyntaxError, StructuredSearchResult } from '../types/search';
+
+type FieldKind = 'entity' | 'text' | 'number' | 'date' | 'collection';
+
+interface FieldSpec {
+  kind: FieldKind;
+  sql: string; // Entity table for 'entity', column expression otherwise
+  description: string;
+}
+
+const NOTE_COLUMNS = ['researchQuestion', 'methodology', 'dataUsed', 'results', 'limitations', 'firstImp', 'notes', 'comment'];
+
+const FIELDS: Record<string, FieldSpec> = {
+  author: { kind: 'entity', sql: 'Author', description: 'Author name' },
+  keyword: { kind: 'entity', sql: 'Keyword', description: 'Keyword' },
+  tag: { kind: 'entity', sql: 'Tag', description: 'Tag' },
+  subject: { kind: 'entity', sql: 'Subject', description: 'Subject' },
+  university: { kind: 'entity', sql: 'University', description: 'University' },
+  company: { kind: 'entity', sql: 'Company', description: 'Company' },
+  title: { kind: 'text', sql: 'a.title', description: 'Title contains' },
+  abstract: { kind: 'text', sql: 'a.abstract', description: 'Abstract contains' },
+  journal: { kind: 'text', sql: 'a.journal', description: 'Journal' },
+  doi: { kind: 'text', sql: 'a.doi', description: 'DOI' },
+  language: { kind: 'text', sql: 'a.language', description: 'Language' },
+  note: {
+    kind: 'text',
+    sql: `(${NOTE_COLUMNS.map((column) => `coalesce(a.${column}, '')`).join(` || char(10) || `)})`,
+    description: 'Research note fields contain',
+  },
+  year: { kind: 'number', sql: 'a.year', description: 'Publication year, e.g. 2018..2022' },
+  rating: { kind: 'number', sql: 'a.rating', description: 'Rating (0-5), e.g. rating>=4' },
+  pages: { kind: 'number', sql: 'a.numPages', description: 'Number of pages' },
+  id: { kind: 'number', sql: 'CAST(a.id AS INTEGER)', description: 'Article ID' },
+  added: { kind: 'date', sql: 'a.dateAdded', description: 'Date added, e.g. added>=2024-01' },
+  collection: { kind: 'collection', sql: 'Collection', description: 'In a collection' },
+};
+
+// Plurals and short forms people are likely to type
+const FIELD_ALIASES: Record<string, string> = {
+  authors: 'author',
+  keywords: 'keyword',
+  kw: 'keyword',
+  tags: 'tag',
+  subjects: 'subject',
+  universities: 'university',
+  companies: 'company',
+  notes: 'note',
+  lang: 'language',
+  page: 'pages',
+};
+
+const FLAGS: Record<string, string> = {
+  read: 'a.read = 1',
+  favorite: 'a.favorite = 1',
+};
+
+type Operator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string; phrase: boolean }
+  | { type: 'flag'; flag: string }
+  | { type: 'field'; field: string; op: Operator; value: string; phrase: boolean; start: number; end: number };
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'or' | 'not'; start: number; end: number }
+  | { type: 'word' | 'phrase'; value: string; start: number; end: number }
+  | { type: 'field'; field: string; op: Operator; value: string; phrase: boolean; start: number; end: number };
+
+const FIELD_PREFIX = /^([A-Za-z]+)(>=|<=|:|=|>|<)/;
+const DATE_VALUE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+function resolveField(name: string): string | null {
+  const lower = name.toLowerCase();
+  const field = FIELD_ALIASES[lower] || lower;
+  return FIELDS[field] ? field : null;
+}
+
+// Read a "quoted" value starting at `start` (on the quote) - an unclosed quote runs to the end
+function readQuoted(text: string, start: number): { value: string; end: number } {
+  const close = text.indexOf('"', start + 1);
+  if (close < 0) return { value: text.slice(start + 1), end: text.length };
+  return { value: text.slice(start + 1, close), end: close + 1 };
+}
+
+// Read an unquoted word: up to whitespace, a parenthesis or a quote
+function readWord(text: string, start: number): { value: string; end: number } {
+  let end = start;
+  while (end < text.length && !/[\s()"]/.test(text[end])) end++;
+  return { value: text.slice(start, end), end };
+}
+
+function tokenize(text: string, errors: QuerySyntaxError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      const { value, end } = readQuoted(text, i);
+      tokens.push({ type: 'phrase', value, start: i, end });
+      i = end;
+      continue;
+    }
+    // "-" only negates when it is glued to what follows ("-read", "-(...)")
+    if (char === '-' && i + 1 < text.length && !/\s/.test(text[i + 1])) {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const fieldMatch = FIELD_PREFIX.exec(text.slice(i));
+    if (fieldMatch) {
+      const start = i;
+      const valueStart = i + fieldMatch[0].length;
+      const quoted = text[valueStart] === '"';
+      const { value, end } = quoted ? readQuoted(text, valueStart) : readWord(text, valueStart);
+      const field = resolveField(fieldMatch[1]);
+
+      if (!field) {
+        errors.push({
+          message: `Unknown field "${fieldMatch[1]}" - put the text in quotes to search for it`,
+          start,
+          end: start + fieldMatch[1].length,
+        });
+      } else if (!value.trim()) {
+        errors.push({ message: `Missing value after ${fieldMatch[0]}`, start, end: Math.max(end, valueStart) });
+      } else {
+        tokens.push({ type: 'field', field, op: fieldMatch[2] as Operator, value: value.trim(), phrase: quoted, start, end });
+      }
+      i = Math.max(end, valueStart);
+      continue;
+    }
+
+    const { value, end } = readWord(text, i);
+    if (value === 'OR') {
+      tokens.push({ type: 'or', start: i, end });
+    } else if (value !== 'AND') {
+      tokens.push({ type: 'word', value, start: i, end });
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+// Check that a field term makes sense (operator allowed, numbers and dates valid)
+function validateField(token: Extract<Token, { type: 'field' }>, errors: QuerySyntaxError[]) {
+  const spec = FIELDS[token.field];
+  const at = { start: token.start, end: token.end };
+  const comparison = token.op !== ':' && token.op !== '=';
+
+  if ((spec.kind === 'entity' || spec.kind === 'text' || spec.kind === 'collection') && comparison) {
+    errors.push({ ...at, message: `${token.field} can't be compared with ${token.op} - use ${token.field}:value` });
+    return;
+  }
+  if (spec.kind !== 'number' && spec.kind !== 'date') return;
+
+  const isRange = token.value.includes('..');
+  if (isRange && comparison) {
+    errors.push({ ...at, message: `A range can't be combined with ${token.op}` });
+    return;
+  }
+
+  const bounds = isRange ? token.value.split('..') : [token.value];
+  if (bounds.length > 2 || bounds.every((bound) => bound === '')) {
+    errors.push({ ...at, message: `Invalid range "${token.value}" - expected min..max` });
+    return;
+  }
+
+  for (const bound of bounds.filter(Boolean)) {
+    if (spec.kind === 'number' && !/^\d+(\.\d+)?$/.test(bound)) {
+      errors.push({ ...at, message: `"${bound}" is not a number` });
+      return;
+    }
+    if (spec.kind === 'date' && !DATE_VALUE.test(bound)) {
+      errors.push({ ...at, message: `"${bound}" is not a date - expected YYYY, YYYY-MM or YYYY-MM-DD` });
+      return;
+    }
+  }
+}
+
+/**
+ * Recursive descent over the tokens
+ *   or    := and ("OR" and)*
+ *   and   := unary+
+ *   unary := "-" unary | "(" or ")" | term
+ */
+function parseTokens(tokens: Token[], text: string, errors: QuerySyntaxError[]): QueryNode | null {
+  let position = 0;
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    let node = parseAnd();
+    if (node) children.push(node);
+
+    while (position < tokens.length && tokens[position].type === 'or') {
+      const orToken = tokens[position++];
+      if (!node) {
+        errors.push({ message: 'OR needs a term before it', start: orToken.start, end: orToken.end });
+      }
+      node = parseAnd();
+      if (node) {
+        children.push(node);
+      } else {
+        errors.push({ message: 'OR needs a term after it', start: orToken.start, end: orToken.end });
+      }
+    }
+
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (position < tokens.length && tokens[position].type !== 'or' && tokens[position].type !== 'rparen') {
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++];
+
+    if (token.type === 'not') {
+      const next = tokens[position];
+      if (!next || next.type === 'or' || next.type === 'rparen') {
+        errors.push({ message: 'Nothing to exclude after "-"', start: token.start, end: token.end });
+        return null;
+      }
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+
+    if (token.type === 'lparen') {
+      const node = parseOr();
+      if (tokens[position]?.type === 'rparen') {
+        position++;
+      } else {
+        errors.push({ message: 'Missing closing parenthesis', start: token.start, end: text.length });
+      }
+      if (!node) {
+        errors.push({ message: 'Empty parentheses', start: token.start, end: token.end });
+      }
+      return node;
+    }
+
+    if (token.type === 'field') {
+      validateField(token, errors);
+      return { type: 'field', field: token.field, op: token.op, value: token.value, phrase: token.phrase, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'word') {
+      const flag = token.value.toLowerCase();
+      return FLAGS[flag] ? { type: 'flag', flag } : { type: 'text', value: token.value, phrase: false };
+    }
+
+    if (token.type === 'phrase') {
+      return token.value.trim() ? { type: 'text', value: token.value, phrase: true } : null;
+    }
+
+    // 'or' and 'rparen' never reach here (parseAnd stops on them)
+    return null;
+  };
+
+  const root = parseOr();
+  while (position < tokens.length) {
+    const token = tokens[position++];
+    errors.push({ message: 'Unmatched closing parenthesis', start: token.start, end: token.end });
+  }
+  return root;
+}
+
+// Parse a query, errors point at the offending part of the text
+function parseQueryText(text: string): { node: QueryNode | null; errors: QuerySyntaxError[] } {
+  const errors: QuerySyntaxError[] = [];
+  const tokens = tokenize(text, errors);
+  const node = parseTokens(tokens, text, errors);
+  return { node, errors };
+}
+
+// Plain words and phrases keep the Library's usual search, anything else is a structured query
+function isStructured(node: QueryNode | null): boolean {
+  if (!node) return false;
+  if (node.type === 'text') return false;
+  if (node.type === 'and') return node.children.some(isStructured);
+  return true;
+}
+
+// Escape LIKE wildcards (used with ESCAPE '\\')
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// ':' matches part of the value, '=' the whole value (both ignore case)
+function likePattern(op: Operator, value: string): string {
+  return op === '=' ? escapeLike(value) : `%${escapeLike(value)}%`;
+}
+
+function compileField(node: Extract<QueryNode, { type: 'field' }>, params: unknown[]): string {
+  const spec = FIELDS[node.field];
+
+  switch (spec.kind) {
+    case 'entity': {
+      const pattern = likePattern(node.op, node.value);
+      params.push(pattern, spec.sql, pattern);
+      // Aliases match too, so old spellings still find the articles
+      return `EXISTS (
+        SELECT 1 FROM Article${spec.sql} j JOIN ${spec.sql} e ON e.id = j.${spec.sql.toLowerCase()}Id
+        WHERE j.articleId = a.id AND (
+          e.name LIKE ? ESCAPE '\\'
+          OR EXISTS (SELECT 1 FROM EntityAlias al WHERE al.entityType = ? AND al.entityId = e.id AND al.alias LIKE ? ESCAPE '\\')
+        )
+      )`;
+    }
+
+    case 'text':
+      params.push(likePattern(node.op, node.value));
+      return `coalesce(${spec.sql}, '') LIKE ? ESCAPE '\\'`;
+
+    case 'collection':
+      params.push(likePattern(node.op, node.value));
+      return `a.id IN (
+        SELECT ca.articleId FROM CollectionArticle ca JOIN Collection c ON c.id = ca.collectionId
+        WHERE c.name LIKE ? ESCAPE '\\'
+      )`;
+
+    case 'number':
+    case 'date': {
+      // Dates compare on as many characters as were typed: added:2024 is the whole year
+      const column = (bound: string) => (spec.kind === 'date' ? `substr(${spec.sql}, 1, ${bound.length})` : spec.sql);
+      const typed = (bound: string) => (spec.kind === 'date' ? bound : Number(bound));
+
+      if (node.value.includes('..')) {
+        const [min, max] = node.value.split('..');
+        const conditions: string[] = [];
+        if (min) {
+          conditions.push(`${column(min)} >= ?`);
+          params.push(typed(min));
+        }
+        if (max) {
+          conditions.push(`${column(max)} <= ?`);
+          params.push(typed(max));
+        }
+        return conditions.join(' AND ');
+      }
+
+      params.push(typed(node.value));
+      return `${column(node.value)} ${node.op === ':' ? '=' : node.op} ?`;
+    }
+  }
+}
+
+function compileNode(node: QueryNode, params: unknown[]): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return `(${node.children.map((child) => compileNode(child, params)).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+    case 'not':
+      return `NOT (${compileNode(node.child, params)})`;
+    case 'flag':
+      return FLAGS[node.flag];
+    case 'text': {
+      const match = buildMatchQuery(node.phrase ? `"${node.value}"` : node.value);
+      if (!match) return '1';
+      params.push(match);
+      return `a.id IN (SELECT articleId FROM ArticleSearch WHERE ArticleSearch MATCH ?)`;
+    }
+    case 'field':
+      return compileField(node, params);
+  }
+}
+
+/**
+ * Compile a search bar query to an SQL condition on the Article table (aliased `a`)
+ * @param text Query as typed
+ * @returns where is null when the query is empty or has errors
+ */
+export function compileQueryText(text: string): {
+  where: string | null;
+  params: unknown[];
+  structured: boolean;
+  errors: QuerySyntaxError[];
+} {
+  const { node, errors } = parseQueryText(text);
+  const structured = isStructured(node) || errors.length > 0;
+  const params: unknown[] = [];
+
+  if (!node || errors.length > 0) {
+    return { where: null, params, structured, errors };
+  }
+  return { where: compileNode(node, params), params, structured, errors };
+}
+
+/**
+ * Evaluate a search bar query
+ * @param text Query as typed
+ * @returns Matching article IDs in ID order; none if the query has errors
+ */
+export function runStructuredQuery(text: string): StructuredSearchResult {
+  const { where, params, structured, errors } = compileQueryText(text);
+  if (!where) {
+    return { structured, articleIds: [], errors };
+  }
+
+  const rows = getDb().prepare(`
+    SELECT a.id FROM Article a WHERE a.deletedAt IS NULL AND (${where}) ORDER BY CAST(a.id AS INTEGER)
+  `).all(...params) as Array<{ id: string }>;
+
+  return { structured, articleIds: rows.map((row) => row.id), errors };
+}
+
+const MAX_SUGGESTIONS = 8;
+
+function quoteIfNeeded(value: string): string {
+  return /[\s()"]/.test(value) || value.startsWith('-') ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+// Values of a field starting with or containing what was typed, most used first
+function suggestValues(field: string, typed: string): Array<{ value: string; count: number }> {
+  const db = getDb();
+  const spec = FIELDS[field];
+  const pattern = `%${escapeLike(typed)}%`;
+  const prefix = `${escapeLike(typed)}%`;
+
+  if (spec.kind === 'entity') {
+    return db.prepare(`
+      SELECT e.name as value,
+        (SELECT COUNT(*) FROM Article${spec.sql} j WHERE j.${spec.sql.toLowerCase()}Id = e.id) as count
+      FROM ${spec.sql} e
+      WHERE e.name LIKE ? ESCAPE '\\'
+      ORDER BY e.name LIKE ? ESCAPE '\\' DESC, count DESC, e.name COLLATE NOCASE
+      LIMIT ${MAX_SUGGESTIONS}
+    `).all(pattern, prefix) as Array<{ value: string; count: number }>;
+  }
+  if (spec.kind === 'collection') {
+    return db.prepare(`
+      SELECT c.name as value, (SELECT COUNT(*) FROM CollectionArticle ca WHERE ca.collectionId = c.id) as count
+      FROM Collection c
+      WHERE c.name LIKE ? ESCAPE '\\'
+      ORDER BY c.name LIKE ? ESCAPE '\\' DESC, c.name COLLATE NOCASE
+      LIMIT ${MAX_SUGGESTIONS}
+    `).all(pattern, prefix) as Array<{ value: string; count: number }>;
+  }
+  if (field === 'journal' || field === 'language') {
+    return db.prepare(`
+      SELECT ${spec.sql} as value, COUNT(*) as count
+      FROM Article a
+      WHERE a.deletedAt IS NULL AND coalesce(${spec.sql}, '') != '' AND ${spec.sql} LIKE ? ESCAPE '\\'
+      GROUP BY ${spec.sql}
+      ORDER BY ${spec.sql} LIKE ? ESCAPE '\\' DESC, count DESC
+      LIMIT ${MAX_SUGGESTIONS}
+    `).all(pattern, prefix) as Array<{ value: string; count: number }>;
+  }
+  return [];
+}
+
+// Autocomplete at the cursor: field names while typing a word, values after "field:"
+function suggest(text: string, cursor: number): QuerySuggestion[] {
+  const before = text.slice(0, cursor);
+  // The rest of the word under the cursor is replaced too
+  const after = /^[^\s()]*/.exec(text.slice(cursor))?.[0] || '';
+  const to = cursor + after.length;
+
+  const valueMatch = /(^|[\s(-])([A-Za-z]+)(>=|<=|:|=|>|<)("?)([^"]*)$/.exec(before);
+  if (valueMatch && (valueMatch[4] || !/\s/.test(valueMatch[5]))) {
+    const field = resolveField(valueMatch[2]);
+    if (!field) return [];
+    const from = valueMatch.index + valueMatch[1].length;
+
+    return suggestValues(field, valueMatch[5]).map(({ value, count }) => ({
+      label: value,
+      detail: String(count),
+      insert: `${valueMatch[2]}${valueMatch[3]}${quoteIfNeeded(value)} `,
+      from,
+      to,
+    }));
+  }
+
+  const wordMatch = /(^|[\s(-])([A-Za-z]+)$/.exec(before);
+  if (!wordMatch) return [];
+  const typed = wordMatch[2].toLowerCase();
+  const from = wordMatch.index + wordMatch[1].length;
+
+  const fields = Object.keys(FIELDS)
+    .filter((field) => field.startsWith(typed) && field !== typed)
+    .map((field) => ({ label: `${field}:`, detail: FIELDS[field].description, insert: `${field}:`, from, to }));
+  const flags = Object.keys(FLAGS)
+    .filter((flag) => flag.startsWith(typed) && flag !== typed)
+    .map((flag) => ({ label: flag, detail: `Only ${flag} articles (-${flag} for the others)`, insert: `${flag} `, from, to }));
+
+  return [...fields, ...flags].slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Check a query while it is being typed
+ * @param text Query as typed
+ * @param cursor Cursor position in the text, for autocomplete
+ */
+export function analyzeQuery(text: string, cursor: number): QueryAnalysis {
+  const { node, errors } = parseQueryText(text);
+  return {
+    structured: isStructured(node) || errors.length > 0,
+    errors,
+    suggestions: suggest(text, Math.max(0, Math.min(cursor, text.length))),
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Typed relations between articles (ArticleRelation) and the citation graph
+ * "cites" relations can also be found automatically: the reference list of each
+ * stored PDF is matched against the DOIs and titles of the library.
+ * The same matching tells which entries of a reference list are in the library.
+ */
+
+import { getDb } from './database';
+import { normalizeTitle } from './duplicates';
+import { cleanDoi } from './formats/fields';
+import { findDois, findReferenceSection, parseReference, splitReferences } from './formats/references';
+import {
+  ArticleRelation,
+  ArticleRelations,
+  RelatedArticle,
+  RelationDetectionReport,
+  RelationGraph,
+  RelationType,
+} from '../types/relation';
+import { ParsedReference, ReferenceEntry, ReferenceMatch } from '../types/reference';
+
+const RELATION_TYPES: RelationType[] = ['cites', 'extends', 'contradicts', 'replicates', 'same-dataset'];
+
+// Titles shorter than this (normalized) are too generic to be looked for in a reference list
+const MIN_TITLE_LENGTH = 20;
+const MIN_TITLE_WORDS = 3;
+
+// Library article as looked for in reference lists: by DOI, or by a specific enough title (both normalized)
+interface CitableArticle {
+  id: string;
+  doi: string;
+  title: string;
+}
+
+function toRelation(row: any): ArticleRelation {
+  return {
+    id: row.id,
+    fromId: row.fromId,
+    toId: row.toId,
+    type: row.type,
+    source: row.source,
+    note: row.note,
+    createdAt: row.createdAt,
+  };
+}
+
+// Relations of an article, with the title and year of the article at the other end
+export function getArticleRelations(articleId: string): ArticleRelations {
+  const db = getDb();
+  const related = (column: 'fromId' | 'toId', other: 'fromId' | 'toId') =>
+    (db.prepare(`
+      SELECT r.*, a.title AS otherTitle, a.year AS otherYear FROM ArticleRelation r
+      JOIN Article a ON a.id = r.${other}
+      WHERE r.${column} = ? AND a.deletedAt IS NULL
+      ORDER BY r.type, a.year DESC, a.title
+    `).all(articleId) as any[]).map((row): RelatedArticle => ({
+      relation: toRelation(row),
+      id: row[other],
+      title: row.otherTitle,
+      year: row.otherYear,
+    }));
+
+  return { outgoing: related('fromId', 'toId'), incoming: related('toId', 'fromId') };
+}
+
+// Add a relation; an existing one of the same type between the same articles is kept (and becomes manual)
+export function addRelation(fromId: string, toId: string, type: RelationType, note: string | null = null): ArticleRelation {
+  if (!RELATION_TYPES.includes(type)) {
+    throw new Error(`Unknown relation type: ${type}`);
+  }
+  if (fromId === toId) {
+    throw new Error('An article cannot be related to itself');
+  }
+
+  const db = getDb();
+  for (const id of [fromId, toId]) {
+    if (!db.prepare(`SELECT 1 FROM Article WHERE id = ? AND deletedAt IS NULL`).get(id)) {
+      throw new Error(`Article ${id} not found`);
+    }
+  }
+
+  // same-dataset has no direction: look for it both ways
+  const existing = db.prepare(`
+    SELECT * FROM ArticleRelation
+    WHERE type = ? AND ((fromId = ? AND toId = ?) OR (? = 'same-dataset' AND fromId = ? AND toId = ?))
+  `).get(type, fromId, toId, type, toId, fromId) as { id: number } | undefined;
+  if (existing) {
+    // Confirmed by hand: it is no longer an automatic guess
+    db.prepare(`UPDATE ArticleRelation SET source = 'manual', note = coalesce(?, note) WHERE id = ?`).run(note, existing.id);
+    return toRelation(db.prepare(`SELECT * FROM ArticleRelation WHERE id = ?`).get(existing.id));
+  }
+
+  const result = db.prepare(`
+    INSERT INTO ArticleRelation (fromId, toId, type, source, note) VALUES (?, ?, ?, 'manual', ?)
+  `).run(fromId, toId, type, note);
+  return toRelation(db.prepare(`SELECT * FROM ArticleRelation WHERE id = ?`).get(result.lastInsertRowid));
+}
+
+/**
+ * Articles and relations to draw
+ * Whole library: only articles with at least one relation. Collection: all of its articles
+ * (subcollections included), with the relations between them.
+ */
+export function getRelationGraph(collectionId: number | null): RelationGraph {
+  const db = getDb();
+  let articleIds: string[] | null = null;
+
+  if (collectionId !== null) {
+    const rows = db.prepare(`
+      WITH RECURSIVE tree(id) AS (
+        SELECT ?
+        UNION ALL
+        SELECT c.id FROM Collection c JOIN tree ON c.parentId = tree.id
+      )
+      SELECT DISTINCT articleId FROM CollectionArticle WHERE collectionId IN (SELECT id FROM tree)
+    `).all(collectionId) as Array<{ articleId: string }>;
+    articleIds = rows.map((row) => row.articleId);
+  }
+
+  // Relations with a trashed article are left out
+  const allEdges = (db.prepare(`
+    SELECT r.id, r.fromId, r.toId, r.type, r.source FROM ArticleRelation r
+    JOIN Article f ON f.id = r.fromId AND f.deletedAt IS NULL
+    JOIN Article t ON t.id = r.toId AND t.deletedAt IS NULL
+    ORDER BY r.id
+  `).all() as RelationGraph['edges']);
+  const scope = articleIds ? new Set(articleIds) : null;
+  const edges = scope ? allEdges.filter((edge) => scope.has(edge.fromId) && scope.has(edge.toId)) : allEdges;
+
+  const nodeIds = scope || new Set(edges.flatMap((edge) => [edge.fromId, edge.toId]));
+  const getArticle = db.prepare(`SELECT id, title, year, read, favorite FROM Article WHERE id = ? AND deletedAt IS NULL`);
+  const nodes = [...nodeIds]
+    .map((id) => getArticle.get(id) as { id: string; title: string; year: number; read: number; favorite: number } | undefined)
+    .filter((row): row is { id: string; title: string; year: number; read: number; favorite: number } => Boolean(row))
+    .map((row) => ({ id: row.id, title: row.title, year: row.year, read: Boolean(row.read), favorite: Boolean(row.favorite) }));
+
+  return { nodes, edges };
+}
+
+// Every article, to look for in reference lists
+function getCitableArticles(): CitableArticle[] {
+  const db = getDb();
+  const rows = db.prepare(`SELECT id, doi, title FROM Article WHERE deletedAt IS NULL`).all() as Array<{ id: string; doi: string | null; title: string }>;
+  return rows.map((row) => ({ id: row.id, doi: cleanDoi(row.doi || '').toLowerCase(), title: normalizeTitle(row.title) }));
+}
+
+// Whether a (normalized) title is specific enough to be looked for in free text
+function isSpecificTitle(title: string): boolean {
+  return title.length >= MIN_TITLE_LENGTH && title.split(' ').length >= MIN_TITLE_WORDS;
+}
+
+// IDs of the library articles found in the reference list of a PDF text (null: no list found)
+function findCitedArticles(articleId: string, pdfText: string, citable: CitableArticle[]): string[] | null {
+  const section = findReferenceSection(pdfText);
+  if (!section) return null;
+
+  const dois = new Set(findDois(section));
+  // Words cut at the end of a line ("distri-\nbution") are joined before comparing titles
+  const normalized = ` ${normalizeTitle(section.replace(/(\w)-\n(\w)/g, '$1$2'))} `;
+
+  return citable
+    .filter((article) => article.id !== articleId)
+    .filter((article) =>
+      (article.doi && dois.has(article.doi)) ||
+      (isSpecificTitle(article.title) && normalized.includes(` ${article.title} `)))
+    .map((article) => article.id);
+}
+
+// Ignored when the relation already exists (added by hand or found before)
+function insertAutoCitation(fromId: string, toId: string): boolean {
+  const db = getDb();
+  return db.prepare(`
+    INSERT OR IGNORE INTO ArticleRelation (fromId, toId, type, source) VALUES (?, ?, 'cites', 'auto')
+  `).run(fromId, toId).changes > 0;
+}
+
+// Replace the automatic "cites" relations of some articles by the ones found in their PDF now
+function detectForArticles(articleIds: string[]): RelationDetectionReport {
+  const db = getDb();
+  const citable = getCitableArticles();
+  const report: RelationDetectionReport = { articles: 0, added: 0 };
+
+  const getText = db.prepare(`SELECT text FROM ArticlePdfText WHERE articleId = ?`);
+  const selectAuto = db.prepare(`SELECT toId FROM ArticleRelation WHERE fromId = ? AND type = 'cites' AND source = 'auto'`);
+  const deleteAuto = db.prepare(`DELETE FROM ArticleRelation WHERE fromId = ? AND type = 'cites' AND source = 'auto'`);
+
+  const detect = db.transaction(() => {
+    for (const articleId of articleIds) {
+      const row = getText.get(articleId) as { text: string } | undefined;
+      const cited = row ? findCitedArticles(articleId, row.text, citable) : null;
+      if (cited === null) continue;
+
+      report.articles++;
+      const previous = new Set((selectAuto.all(articleId) as Array<{ toId: string }>).map((auto) => auto.toId));
+      deleteAuto.run(articleId);
+      for (const toId of cited) {
+        if (insertAutoCitation(articleId, toId) && !previous.has(toId)) report.added++;
+      }
+    }
+  });
+  detect();
+
+  return report;
+}
+
+/**
+ * Detect the citations of one article (after its PDF was indexed, or on demand),
+ * and look for it in the reference lists of the other PDFs
+ */
+export function detectArticleCitations(articleId: string): RelationDetectionReport {
+  const report = detectForArticles([articleId]);
+
+  const db = getDb();
+  const target = getCitableArticles().filter((article) => article.id === articleId);
+  const others = db.prepare(`
+    SELECT p.articleId, p.text FROM ArticlePdfText p JOIN Article a ON a.id = p.articleId
+    WHERE p.articleId != ? AND a.deletedAt IS NULL
+  `).all(articleId) as Array<{ articleId: string; text: string }>;
+  const detect = db.transaction(() => {
+    for (const other of others) {
+      const cited = findCitedArticles(other.articleId, other.text, target);
+      if (cited && cited.length > 0 && insertAutoCitation(other.articleId, articleId)) report.added++;
+    }
+  });
+  detect();
+
+  return report;
+}
+
+// Detect the citations of every article with an indexed PDF
+export function detectLibraryCitations(): RelationDetectionReport {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT p.articleId FROM ArticlePdfText p JOIN Article a ON a.id = p.articleId
+    WHERE a.deletedAt IS NULL
+    ORDER BY CAST(p.articleId AS INTEGER)
+  `).all() as Array<{ articleId: string }>;
+  return detectForArticles(rows.map((row) => row.articleId));
+}
+
+// Library article a reference list entry refers to: same DOI, else same title (or the title within the entry)
+function matchReference(reference: ParsedReference, citable: CitableArticle[]): ReferenceMatch | null {
+  const byDoi = reference.doi ? citable.find((article) => article.doi === reference.doi) : undefined;
+  const title = normalizeTitle(reference.title);
+  const entry = ` ${normalizeTitle(reference.raw)} `;
+  const byTitle = byDoi ? undefined : citable.find((article) =>
+    (title && article.title === title) || (isSpecificTitle(article.title) && entry.includes(` ${article.title} `)));
+
+  const found = byDoi || byTitle;
+  if (!found) return null;
+  const row = getDb().prepare(`SELECT title FROM Article WHERE id = ?`).get(found.id) as { title: string };
+  return { articleId: found.id, title: row.title, by: byDoi ? 'doi' : 'title' };
+}
+
+/**
+ * Entries of the reference list in an article's PDF text, with their library match
+ * Null when the PDF text was never extracted; empty when no reference list was found.
+ */
+export function getArticleReferences(articleId: string): ReferenceEntry[] | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT text FROM ArticlePdfText WHERE articleId = ?`).get(articleId) as { text: string } | undefined;
+  if (!row) return null;
+
+  const section = findReferenceSection(row.text);
+  if (!section) return [];
+
+  const citable = getCitableArticles().filter((article) => article.id !== articleId);
+  return splitReferences(section).map((raw, i) => {
+    const reference = parseReference(raw);
+    return { ...reference, index: i + 1, match: matchReference(reference, citable) };
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Crossref resolver: DOIs registered by journal publishers
+ * API: GET {baseUrl}/works/{doi} -> { status, message: work }
+ */
+
+import { ArticleFormData } from '../../types/article';
+import { MetadataIdentifier, ResolvedMetadata } from '../../types/metadata';
+import { importedFormData, cleanDoi, pageRangeCount, partsToDate } from '../formats/fields';
+import { MetadataResolver, MetadataNotFoundError, fetchJson, joinUrl, languageFromCode, stripMarkup } from './resolver';
+
+export const DEFAULT_CROSSREF_URL = 'https://api.crossref.org';
+
+interface CrossrefDate {
+  'date-parts'?: Array<Array<number | null>>;
+}
+
+// Only the parts of a Crossref work this app reads
+export interface CrossrefWork {
+  DOI?: string;
+  title?: string[];
+  subtitle?: string[];
+  author?: Array<{ given?: string; family?: string; name?: string }>;
+  editor?: Array<{ given?: string; family?: string; name?: string }>;
+  'container-title'?: string[];
+  publisher?: string;
+  issued?: CrossrefDate;
+  'published-print'?: CrossrefDate;
+  'published-online'?: CrossrefDate;
+  abstract?: string;
+  page?: string;
+  language?: string;
+  subject?: string[];
+}
+
+/**
+ * Convert a Crossref work to article form data
+ */
+export function parseCrossrefWork(work: CrossrefWork): ArticleFormData {
+  const title = [work.title?.[0], work.subtitle?.[0]].filter(Boolean).join(': ').replace(/\s+/g, ' ').trim();
+  if (!title) throw new Error('Crossref record has no title');
+
+  // "issued" is the earliest of print and online publication
+  const parts = [work.issued, work['published-print'], work['published-online']]
+    .map((date) => date?.['date-parts']?.[0])
+    .find((date) => date && date[0]) as number[] | undefined;
+  const year = parts?.[0] || new Date().getFullYear();
+
+  const people = work.author?.length ? work.author : work.editor || [];
+
+  return importedFormData({
+    title: stripMarkup(title), // Titles may contain <i>, <sub>...
+    abstract: stripMarkup(work.abstract),
+    year,
+    date: partsToDate(year, parts?.[1] || undefined, parts?.[2] || undefined),
+    journal: work['container-title']?.[0] || '',
+    doi: cleanDoi(work.DOI),
+    language: languageFromCode(work.language),
+    numPages: pageRangeCount(work.page),
+    authors: people
+      .map((person) => person.name || [person.given, person.family].filter(Boolean).join(' '))
+      .filter(Boolean),
+    // Crossref subjects describe the journal, not the article: they're not used as keywords
+  });
+}
+
+export class CrossrefResolver implements MetadataResolver {
+  readonly name = 'crossref';
+
+  constructor(private readonly baseUrl: string, private readonly userAgent: string) {}
+
+  canResolve(identifier: MetadataIdentifier): boolean {
+    return identifier.type === 'doi';
+  }
+
+  async resolve(identifier: MetadataIdentifier): Promise<ResolvedMetadata> {
+    const body = await fetchJson(joinUrl(this.baseUrl, `works/${encodeURIComponent(identifier.value)}`), this.userAgent);
+    const work = (body as { message?: CrossrefWork } | null)?.message;
+    if (!work) throw new MetadataNotFoundError(identifier, 'Crossref');
+
+    return { source: 'crossref', identifier, article: parseCrossrefWork(work) };
+  }
+}
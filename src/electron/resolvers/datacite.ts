@@ -0,0 +1,98 @@
+/**
+ * DataCite resolver: DOIs of datasets, preprints (arXiv), theses, reports...
+ * API: GET {baseUrl}/dois/{doi} -> { data: { attributes } } (JSON:API)
+ */
+
+import { ArticleFormData } from '../../types/article';
+import { MetadataIdentifier, ResolvedMetadata } from '../../types/metadata';
+import { importedFormData, cleanDoi, partsToDate } from '../formats/fields';
+import { identifierDoi } from './identifiers';
+import { MetadataResolver, MetadataNotFoundError, fetchJson, joinUrl, languageFromCode, stripMarkup } from './resolver';
+
+export const DEFAULT_DATACITE_URL = 'https://api.datacite.org';
+
+interface DataCiteCreator {
+  name?: string;
+  givenName?: string;
+  familyName?: string;
+  nameType?: 'Personal' | 'Organizational';
+}
+
+// Only the attributes this app reads
+export interface DataCiteAttributes {
+  doi?: string;
+  titles?: Array<{ title?: string; titleType?: string }>;
+  creators?: DataCiteCreator[];
+  publisher?: string | { name?: string };
+  container?: { title?: string };
+  publicationYear?: number | string;
+  dates?: Array<{ date?: string; dateType?: string }>;
+  descriptions?: Array<{ description?: string; descriptionType?: string }>;
+  subjects?: Array<{ subject?: string; subjectScheme?: string }>;
+  language?: string;
+}
+
+function creatorName(creator: DataCiteCreator): string {
+  if (creator.givenName || creator.familyName) {
+    return [creator.givenName, creator.familyName].filter(Boolean).join(' ');
+  }
+  // Personal names without parts are "Family, Given"
+  const name = (creator.name || '').trim();
+  const comma = name.indexOf(',');
+  return creator.nameType !== 'Organizational' && comma > 0
+    ? `${name.slice(comma + 1).trim()} ${name.slice(0, comma).trim()}`
+    : name;
+}
+
+/**
+ * Convert DataCite DOI attributes to article form data
+ */
+export function parseDataCiteAttributes(attributes: DataCiteAttributes): ArticleFormData {
+  // Main title has no titleType (others are Subtitle, TranslatedTitle...)
+  const title = (attributes.titles?.find((item) => !item.titleType) || attributes.titles?.[0])?.title?.trim();
+  if (!title) throw new Error('DataCite record has no title');
+
+  const issued = attributes.dates?.find((item) => item.dateType === 'Issued')?.date
+    || attributes.dates?.find((item) => item.dateType === 'Available')?.date;
+  const dateMatch = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/.exec(issued || '');
+  const year = Number(attributes.publicationYear) || Number(dateMatch?.[1]) || new Date().getFullYear();
+  const sameYear = dateMatch && Number(dateMatch[1]) === year;
+
+  const publisher = typeof attributes.publisher === 'string' ? attributes.publisher : attributes.publisher?.name;
+  const abstract = attributes.descriptions?.find((item) => item.descriptionType === 'Abstract')?.description;
+
+  return importedFormData({
+    title,
+    abstract: stripMarkup(abstract),
+    year,
+    date: sameYear ? partsToDate(year, Number(dateMatch[2]) || undefined, Number(dateMatch[3]) || undefined) : partsToDate(year),
+    journal: attributes.container?.title || publisher || '',
+    doi: cleanDoi(attributes.doi),
+    language: languageFromCode(attributes.language),
+    authors: (attributes.creators || []).map(creatorName).filter(Boolean),
+    // Free keywords only - classification codes ("FOS: ...", ACM, arXiv categories) are skipped
+    keywords: (attributes.subjects || [])
+      .filter((item) => !item.subjectScheme && item.subject && !/^FOS:|\([a-z-]+\.[A-Z]{2}\)$/.test(item.subject))
+      .map((item) => (item.subject as string).trim()),
+  });
+}
+
+export class DataCiteResolver implements MetadataResolver {
+  readonly name = 'datacite';
+
+  constructor(private readonly baseUrl: string, private readonly userAgent: string) {}
+
+  // arXiv preprints are registered with DataCite
+  canResolve(): boolean {
+    return true;
+  }
+
+  async resolve(identifier: MetadataIdentifier): Promise<ResolvedMetadata> {
+    const doi = identifierDoi(identifier);
+    const body = await fetchJson(joinUrl(this.baseUrl, `dois/${encodeURIComponent(doi)}`), this.userAgent);
+    const attributes = (body as { data?: { attributes?: DataCiteAttributes } } | null)?.data?.attributes;
+    if (!attributes) throw new MetadataNotFoundError(identifier, 'DataCite');
+
+    return { source: 'datacite', identifier, article: parseDataCiteAttributes(attributes) };
+  }
+}
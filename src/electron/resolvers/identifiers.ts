@@ -0,0 +1,50 @@
+/**
+ * Recognize DOIs and arXiv IDs in what the user pasted
+ * Accepts bare identifiers, "doi:"/"arXiv:" prefixes and doi.org / arxiv.org links
+ */
+
+import { MetadataIdentifier } from '../../types/metadata';
+
+// arXiv DOIs registered with DataCite: 10.48550/arXiv.2101.00001
+export const ARXIV_DOI_PREFIX = '10.48550/arXiv.';
+
+// New style "2101.00001" and old style "hep-th/9901001", both with an optional version
+const ARXIV_ID = /^(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(v\d+)?$/i;
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+export function parseIdentifier(input: string): MetadataIdentifier | null {
+  const text = decode(input.trim())
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, 'doi:')
+    .replace(/^https?:\/\/(export\.)?arxiv\.org\/(abs|pdf)\//i, 'arxiv:')
+    .replace(/\.pdf$/i, '');
+
+  const arxiv = /^arxiv:\s*(.+)$/i.exec(text);
+  if (arxiv) {
+    const match = ARXIV_ID.exec(arxiv[1].trim());
+    return match ? { type: 'arxiv', value: match[1] } : null;
+  }
+
+  const doi = /^(?:doi:\s*)?(10\.\d{4,9}\/\S+)$/i.exec(text);
+  if (doi) {
+    // An arXiv DOI is the arXiv ID in disguise
+    if (doi[1].toLowerCase().startsWith(ARXIV_DOI_PREFIX.toLowerCase())) {
+      return parseIdentifier(`arxiv:${doi[1].slice(ARXIV_DOI_PREFIX.length)}`);
+    }
+    return { type: 'doi', value: doi[1].replace(/[.,;]+$/, '') };
+  }
+
+  const bare = ARXIV_ID.exec(text);
+  return bare ? { type: 'arxiv', value: bare[1] } : null;
+}
+
+// DOI to look up for an identifier
+export function identifierDoi(identifier: MetadataIdentifier): string {
+  return identifier.type === 'arxiv' ? ARXIV_DOI_PREFIX + identifier.value : identifier.value;
+}
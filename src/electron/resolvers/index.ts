@@ -0,0 +1,56 @@
+/**
+ * Metadata lookup: DOI or arXiv ID -> article form data
+ * Resolvers are tried in order until one knows the identifier.
+ * Their base URLs come from the settings so a stand-in server can replace
+ * the real APIs (see scripts/metadata-server.js).
+ */
+
+import { app } from 'electron';
+import { getDb } from '../database';
+import { MetadataResolverSettings, ResolvedMetadata } from '../../types/metadata';
+import { parseIdentifier } from './identifiers';
+import { MetadataResolver, MetadataNotFoundError } from './resolver';
+import { CrossrefResolver, DEFAULT_CROSSREF_URL } from './crossref';
+import { DataCiteResolver, DEFAULT_DATACITE_URL } from './datacite';
+
+export function getResolverSettings(): MetadataResolverSettings {
+  const db = getDb();
+  const row = db.prepare(`SELECT crossrefUrl, dataciteUrl FROM UserSettings LIMIT 1`).get() as
+    { crossrefUrl: string | null; dataciteUrl: string | null } | undefined;
+
+  return {
+    crossrefUrl: row?.crossrefUrl || DEFAULT_CROSSREF_URL,
+    dataciteUrl: row?.dataciteUrl || DEFAULT_DATACITE_URL,
+  };
+}
+
+// Crossref first (most journal articles), then DataCite (preprints, datasets)
+function createResolvers(): MetadataResolver[] {
+  const settings = getResolverSettings();
+  const userAgent = `${app.getName()}/${app.getVersion()}`;
+  return [
+    new CrossrefResolver(settings.crossrefUrl, userAgent),
+    new DataCiteResolver(settings.dataciteUrl, userAgent),
+  ];
+}
+
+/**
+ * Look up the metadata of a DOI or arXiv ID
+ * @param input Identifier as typed or pasted (bare, prefixed or as a link)
+ */
+export async function resolveMetadata(input: string): Promise<ResolvedMetadata> {
+  const identifier = parseIdentifier(input);
+  if (!identifier) throw new Error(`Not a DOI or arXiv ID: ${input}`);
+
+  let notFound: Error | null = null;
+  for (const resolver of createResolvers()) {
+    if (!resolver.canResolve(identifier)) continue;
+    try {
+      return await resolver.resolve(identifier);
+    } catch (error) {
+      if (!(error instanceof MetadataNotFoundError)) throw error;
+      notFound = error;
+    }
+  }
+  throw notFound || new Error(`No resolver for ${input}`);
+}
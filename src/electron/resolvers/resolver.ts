@@ -0,0 +1,74 @@
+/**
+ * Common pieces of the metadata resolvers
+ */
+
+import { MetadataIdentifier, ResolvedMetadata } from '../../types/metadata';
+
+/**
+ * Looks an identifier up in one registry
+ * resolve() throws MetadataNotFoundError when the registry doesn't know the identifier,
+ * so the next resolver can be tried
+ */
+export interface MetadataResolver {
+  readonly name: ResolvedMetadata['source'];
+  canResolve(identifier: MetadataIdentifier): boolean;
+  resolve(identifier: MetadataIdentifier): Promise<ResolvedMetadata>;
+}
+
+export class MetadataNotFoundError extends Error {
+  constructor(identifier: MetadataIdentifier, registry: string) {
+    super(`${identifier.type === 'doi' ? 'DOI' : 'arXiv ID'} ${identifier.value} not found in ${registry}`);
+    this.name = 'MetadataNotFoundError';
+  }
+}
+
+const REQUEST_TIMEOUT = 15000;
+
+/**
+ * GET a JSON document
+ * @returns null on 404, the parsed body otherwise
+ */
+export async function fetchJson(url: string, userAgent: string): Promise<unknown | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', 'User-Agent': userAgent },
+      signal: controller.signal,
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`${url} answered ${response.status} ${response.statusText}`);
+    return await response.json();
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw new Error(`${url} did not answer within ${REQUEST_TIMEOUT / 1000} s`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// "https://api.crossref.org/" + "works/x" without a double slash
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path}`;
+}
+
+// Registries give ISO 639 codes, the article form uses names
+export function languageFromCode(code: string | undefined): string {
+  const language = (code || '').toLowerCase().split(/[-_]/)[0];
+  if (!language || language === 'en' || language === 'eng') return 'English';
+  if (language === 'fr' || language === 'fre' || language === 'fra') return 'French';
+  return 'Other';
+}
+
+// Crossref abstracts are JATS XML: "<jats:p>Text</jats:p>" -> "Text"
+export function stripMarkup(text: string | undefined): string {
+  return (text || '')
+    .replace(/<jats:title>[^<]*<\/jats:title>/gi, '') // "Abstract" heading
+    .replace(/<\/(jats:)?p>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
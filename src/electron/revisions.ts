@@ -0,0 +1,178 @@
+/**
+ * Edit history of articles (ArticleRevision)
+ * Every create, update and delete stores a snapshot of the article's fields and
+ * relation names, so a cleared text can be restored.
+ * Snapshots are kept as JSON, until the article is deleted for good (see trash.ts).
+ */
+
+import { getDb, getOrCreateEntity, linkArticleEntity, clearArticleRelations, updateSearchIndex } from './database';
+import { ArticleRevision, ArticleSnapshot, RevisionAction } from '../types/revision';
+
+// Article columns kept in a snapshot
+const SNAPSHOT_COLUMNS = [
+  'title', 'abstract', 'conclusion', 'year', 'date', 'journal', 'doi', 'language', 'numPages',
+  'researchQuestion', 'methodology', 'dataUsed', 'results', 'limitations', 'firstImp', 'notes', 'comment',
+  'rating', 'read', 'favorite',
+] as const;
+
+// Relation lists kept in a snapshot, with their entity and junction tables
+const SNAPSHOT_RELATIONS = {
+  authors: { table: 'Author', junction: 'ArticleAuthor', column: 'authorId' },
+  keywords: { table: 'Keyword', junction: 'ArticleKeyword', column: 'keywordId' },
+  subjects: { table: 'Subject', junction: 'ArticleSubject', column: 'subjectId' },
+  tags: { table: 'Tag', junction: 'ArticleTag', column: 'tagId' },
+  universities: { table: 'University', junction: 'ArticleUniversity', column: 'universityId' },
+  companies: { table: 'Company', junction: 'ArticleCompany', column: 'companyId' },
+} as const;
+
+type SnapshotRelation = keyof typeof SNAPSHOT_RELATIONS;
+
+// Article row as read from SQLite (booleans are stored as 0 / 1)
+type ArticleRow = Omit<Pick<ArticleSnapshot, typeof SNAPSHOT_COLUMNS[number] | 'dateAdded'>, 'read' | 'favorite'> & {
+  read: number;
+  favorite: number;
+};
+
+interface RevisionRow {
+  id: number;
+  articleId: string;
+  action: RevisionAction;
+  snapshot: string;
+  createdAt: string;
+}
+
+function toRevision(row: RevisionRow): ArticleRevision {
+  return {
+    id: row.id,
+    articleId: row.articleId,
+    action: row.action,
+    snapshot: JSON.parse(row.snapshot),
+    createdAt: row.createdAt,
+  };
+}
+
+// Current state of an article, or null if it doesn't exist
+export function snapshotArticle(articleId: string): ArticleSnapshot | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM Article WHERE id = ?`).get(articleId) as ArticleRow | undefined;
+  if (!row) return null;
+
+  const relationNames = (relation: SnapshotRelation): string[] => {
+    const { table, junction, column } = SNAPSHOT_RELATIONS[relation];
+    const rows = db.prepare(`
+      SELECT e.name FROM ${junction} j JOIN ${table} e ON e.id = j.${column}
+      WHERE j.articleId = ? ORDER BY j.rowid
+    `).all(articleId) as Array<{ name: string }>;
+    return rows.map((entity) => entity.name);
+  };
+
+  return {
+    title: row.title,
+    abstract: row.abstract || '',
+    conclusion: row.conclusion || '',
+    year: row.year,
+    date: row.date,
+    journal: row.journal || '',
+    doi: row.doi || '',
+    language: row.language || '',
+    numPages: row.numPages || 0,
+    researchQuestion: row.researchQuestion || '',
+    methodology: row.methodology || '',
+    dataUsed: row.dataUsed || '',
+    results: row.results || '',
+    limitations: row.limitations || '',
+    firstImp: row.firstImp || '',
+    notes: row.notes || '',
+    comment: row.comment || '',
+    rating: row.rating || 0,
+    read: Boolean(row.read),
+    favorite: Boolean(row.favorite),
+    authors: relationNames('authors'),
+    keywords: relationNames('keywords'),
+    subjects: relationNames('subjects'),
+    tags: relationNames('tags'),
+    universities: relationNames('universities'),
+    companies: relationNames('companies'),
+    dateAdded: row.dateAdded,
+  };
+}
+
+/**
+ * Store the current state of an article (call it inside the transaction that changes it)
+ * An update that changed nothing (form saved as is) doesn't add a revision.
+ */
+export function recordRevision(articleId: string, action: RevisionAction): void {
+  const snapshot = snapshotArticle(articleId);
+  if (!snapshot) return;
+
+  const db = getDb();
+  const json = JSON.stringify(snapshot);
+  if (action === 'update') {
+    const last = db.prepare(`
+      SELECT snapshot FROM ArticleRevision WHERE articleId = ? ORDER BY id DESC LIMIT 1
+    `).get(articleId) as { snapshot: string } | undefined;
+    if (last?.snapshot === json) return;
+  }
+
+  db.prepare(`INSERT INTO ArticleRevision (articleId, action, snapshot) VALUES (?, ?, ?)`).run(articleId, action, json);
+}
+
+// History of an article, newest first
+export function getArticleRevisions(articleId: string): ArticleRevision[] {
+  const db = getDb();
+  const rows = db.prepare(`SELECT * FROM ArticleRevision WHERE articleId = ? ORDER BY id DESC`).all(articleId) as RevisionRow[];
+  return rows.map(toRevision);
+}
+
+export function getRevision(revisionId: number): ArticleRevision | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM ArticleRevision WHERE id = ?`).get(revisionId) as RevisionRow | undefined;
+  return row ? toRevision(row) : null;
+}
+
+// Relation lists of a snapshot, replacing the current ones
+function writeSnapshotRelations(articleId: string, snapshot: ArticleSnapshot): void {
+  (Object.keys(SNAPSHOT_RELATIONS) as SnapshotRelation[]).forEach((relation) => {
+    const { table, junction } = SNAPSHOT_RELATIONS[relation];
+    clearArticleRelations(junction, articleId);
+    (snapshot[relation] || []).forEach((name) => {
+      const entity = getOrCreateEntity(table, name);
+      linkArticleEntity(junction, articleId, entity.id);
+    });
+  });
+}
+
+function columnValue(snapshot: ArticleSnapshot, column: typeof SNAPSHOT_COLUMNS[number]): string | number {
+  const value = snapshot[column];
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value ?? '';
+}
+
+/**
+ * Put an article back in the state of one of its revisions
+ * The restore itself becomes a revision, so it can be undone the same way.
+ */
+export function restoreRevision(revisionId: number): string {
+  const revision = getRevision(revisionId);
+  if (!revision) {
+    throw new Error(`Revision ${revisionId} not found`);
+  }
+
+  const db = getDb();
+  const { articleId, snapshot } = revision;
+  if (!db.prepare(`SELECT 1 FROM Article WHERE id = ? AND deletedAt IS NULL`).get(articleId)) {
+    throw new Error(`Article ${articleId} not found`);
+  }
+
+  const restore = db.transaction(() => {
+    db.prepare(`
+      UPDATE Article SET ${SNAPSHOT_COLUMNS.map((column) => `${column} = ?`).join(', ')}, updatedAt = datetime('now')
+      WHERE id = ?
+    `).run(...SNAPSHOT_COLUMNS.map((column) => columnValue(snapshot, column)), articleId);
+    writeSnapshotRelations(articleId, snapshot);
+    updateSearchIndex(articleId);
+    recordRevision(articleId, 'restore');
+  });
+  restore();
+
+  return articleId;
+}
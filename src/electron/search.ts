@@ -0,0 +1,189 @@
+/**
+ * Full-text search over articles using the ArticleSearch FTS5 index
+ * Also keeps the extracted PDF text (ArticlePdfText) used by the index
+ */
+
+import { getDb, updateSearchIndex } from './database';
+import { extractPdfPages } from './pdfText';
+import { ArticleSearchOptions, ArticleSearchResult, SearchField, SearchTextSegment } from '../types/search';
+
+// Column order of ArticleSearch (articleId is column 0)
+const SEARCH_FIELDS: SearchField[] = ['title', 'authors', 'abstract', 'keywords', 'tags', 'subjects', 'content', 'pdfText'];
+
+// bm25 weights per column, articleId first - a hit in the title counts more than one in the PDF
+const COLUMN_WEIGHTS = [0, 10, 6, 3, 5, 4, 4, 2, 1];
+
+// Relevance of a row of ArticleSearch (lower is better)
+export const RANK_EXPRESSION = `bm25(ArticleSearch, ${COLUMN_WEIGHTS.join(', ')})`;
+
+const TITLE_COLUMN = 1;
+const PDF_COLUMN = 8;
+
+// Control characters used as highlight markers (never present in indexed text)
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+const ELLIPSIS = '…';
+
+// Pages of the extracted PDF text are separated by form feeds
+const PAGE_SEPARATOR = '\f';
+
+const DEFAULT_LIMIT = 200;
+
+/**
+ * Turn what the user typed into a safe FTS5 MATCH expression
+ * Words are ANDed, "quoted text" is kept as a phrase, the last word is a prefix
+ * so results show up while typing. FTS5 operators are not exposed.
+ */
+export function buildMatchQuery(text: string): string | null {
+  const parts: string[] = [];
+  const tokenRegex = /"([^"]*)"?|([^\s"]+)/g;
+  let lastIsWord = false;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(text)) !== null) {
+    if (match[1] !== undefined) {
+      const phrase = match[1].trim();
+      if (phrase) {
+        parts.push(`"${phrase.replace(/"/g, '""')}"`);
+        lastIsWord = false;
+      }
+      continue;
+    }
+
+    // Same split as the unicode61 tokenizer: anything that isn't a letter or digit
+    const words = match[2].split(/[^0-9A-Za-z\u00C0-\uFFFF]+/).filter(Boolean);
+    for (const word of words) {
+      parts.push(`"${word}"`);
+      lastIsWord = true;
+    }
+  }
+
+  if (parts.length === 0) return null;
+
+  if (lastIsWord && !/\s$/.test(text)) {
+    parts[parts.length - 1] += '*';
+  }
+  return parts.join(' ');
+}
+
+// Split text containing highlight markers into segments
+function toSegments(marked: string | null): SearchTextSegment[] {
+  if (!marked) return [];
+
+  const segments: SearchTextSegment[] = [];
+  const normalized = marked.replace(/\s+/g, ' ');
+  const pieces = normalized.split(MARK_START);
+
+  pieces.forEach((piece, index) => {
+    if (index === 0) {
+      if (piece) segments.push({ text: piece, highlight: false });
+      return;
+    }
+    const [highlighted, rest] = piece.split(MARK_END);
+    if (highlighted) segments.push({ text: highlighted, highlight: true });
+    if (rest) segments.push({ text: rest, highlight: false });
+  });
+
+  return segments;
+}
+
+// Find which page of the stored PDF text the first highlighted term is on (1-based)
+function findSnippetPage(articleId: string, snippet: string): number | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT text FROM ArticlePdfText WHERE articleId = ?`).get(articleId) as { text: string } | undefined;
+  if (!row) return null;
+
+  // Snippets are verbatim slices of the indexed text, minus the markers and ellipses
+  const unmarked = snippet.replace(new RegExp(`^${ELLIPSIS}|${ELLIPSIS}$`, 'g'), '');
+  const plain = unmarked.split(MARK_START).join('').split(MARK_END).join('');
+  const position = row.text.indexOf(plain);
+  if (position < 0) return null;
+
+  const termOffset = Math.max(unmarked.indexOf(MARK_START), 0);
+  return row.text.slice(0, position + termOffset).split(PAGE_SEPARATOR).length;
+}
+
+/**
+ * Search articles, best matches first
+ * @param query Text typed by the user
+ * @param options Fields to search in and maximum number of results
+ */
+export function searchArticles(query: string, options: ArticleSearchOptions = {}): ArticleSearchResult[] {
+  const matchQuery = buildMatchQuery(query);
+  if (!matchQuery) return [];
+
+  const fields = (options.fields || []).filter((field) => SEARCH_FIELDS.includes(field));
+  const expression = fields.length > 0 ? `{${fields.join(' ')}} : (${matchQuery})` : matchQuery;
+
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT
+      articleId,
+      ${RANK_EXPRESSION} as rank,
+      highlight(ArticleSearch, ${TITLE_COLUMN}, ?, ?) as title,
+      snippet(ArticleSearch, -1, ?, ?, '${ELLIPSIS}', 24) as snippet,
+      snippet(ArticleSearch, ${PDF_COLUMN}, ?, ?, '${ELLIPSIS}', 24) as pdfSnippet
+    FROM ArticleSearch
+    WHERE ArticleSearch MATCH ?
+    ORDER BY rank
+    LIMIT ?
+  `).all(
+    MARK_START, MARK_END,
+    MARK_START, MARK_END,
+    MARK_START, MARK_END,
+    expression,
+    options.limit || DEFAULT_LIMIT
+  ) as Array<{ articleId: string; rank: number; title: string; snippet: string | null; pdfSnippet: string | null }>;
+
+  return rows.map((row) => {
+    const pdfMatched = Boolean(row.pdfSnippet && row.pdfSnippet.includes(MARK_START));
+
+    return {
+      articleId: row.articleId,
+      score: -row.rank,
+      title: toSegments(row.title),
+      snippet: toSegments(row.snippet),
+      pdfMatch: pdfMatched
+        ? { page: findSnippetPage(row.articleId, row.pdfSnippet as string), snippet: toSegments(row.pdfSnippet) }
+        : null,
+    };
+  });
+}
+
+/**
+ * Extract the text of an article's PDF and add it to the search index
+ * @param articleId Article the PDF belongs to
+ * @param pdfPath Absolute path to the stored PDF
+ */
+export async function indexArticlePdf(articleId: string, pdfPath: string): Promise<void> {
+  const pages = await extractPdfPages(pdfPath);
+
+  const db = getDb();
+  // The article may have been deleted while the PDF was being read
+  const exists = db.prepare(`SELECT 1 FROM Article WHERE id = ?`).get(articleId);
+  if (!exists) return;
+
+  db.prepare(`
+    INSERT INTO ArticlePdfText (articleId, text, numPages, extractedAt)
+    VALUES (?, ?, ?, datetime('now'))
+    ON CONFLICT(articleId) DO UPDATE SET
+      text = excluded.text,
+      numPages = excluded.numPages,
+      extractedAt = excluded.extractedAt
+  `).run(articleId, pages.join(PAGE_SEPARATOR), pages.length);
+
+  updateSearchIndex(articleId);
+  console.log(`Indexed PDF text for article ${articleId} (${pages.length} pages)`);
+}
+
+// IDs of articles whose PDF text has never been extracted
+export function getArticlesWithoutPdfText(): string[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT a.id FROM Article a
+    LEFT JOIN ArticlePdfText p ON p.articleId = a.id
+    WHERE p.articleId IS NULL AND a.deletedAt IS NULL
+    ORDER BY CAST(a.id AS INTEGER)
+  `).all() as Array<{ id: string }>;
+  return rows.map((row) => row.id);
+}
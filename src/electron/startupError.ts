@@ -0,0 +1,101 @@
+/**
+ * Startup error screen
+ * Shown instead of the main window when the database cannot be opened or updated, so the
+ * app doesn't run on a half-migrated schema. It is a static page: its two links are handled here.
+ * The language chosen in the app is only known to the renderer, so the page is in the
+ * system language when the app has it, in English otherwise.
+ */
+
+import { app, BrowserWindow, shell } from 'electron';
+import { StoragePaths } from './paths';
+import { MigrationError } from './migrations';
+import { Language, rtlLanguages, translations } from '../i18n/translations';
+
+const OPEN_BACKUPS_URL = 'app://open-backups';
+const QUIT_URL = 'app://quit';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// First of the user's system languages the app is translated in
+function systemLanguage(): Language {
+  for (const locale of app.getPreferredSystemLanguages()) {
+    const language = locale.split('-')[0].toLowerCase();
+    if (language in translations) return language as Language;
+  }
+  return 'en';
+}
+
+function renderPage(error: Error): string {
+  const language = systemLanguage();
+  // Same lookup as useTranslation, the strings escaped for the page
+  const t = (key: string): string => escapeHtml(translations[language][key] || translations.en[key] || key);
+
+  const migrationError = error instanceof MigrationError ? error : null;
+  const details = [
+    migrationError?.migration && `<dt>${t('startup.migration')}</dt><dd>${escapeHtml(migrationError.migration)}</dd>`,
+    `<dt>${t('startup.error')}</dt><dd><code>${escapeHtml(error.message)}</code></dd>`,
+    `<dt>${t('startup.database')}</dt><dd><code>${escapeHtml(StoragePaths.databaseFile)}</code></dd>`,
+    migrationError?.backupPath && `<dt>${t('startup.backup')}</dt><dd><code>${escapeHtml(migrationError.backupPath)}</code></dd>`,
+  ].filter(Boolean).join('');
+
+  const explanation = migrationError?.migration ? t('startup.migrationFailed') : t('startup.openFailed');
+  const advice = migrationError?.backupPath
+    ? t('startup.backupAdvice').replace('{file}', '<code>articles.db</code>')
+    : t('startup.noBackupAdvice');
+
+  return `<!DOCTYPE html>
+<html lang="${language}" dir="${rtlLanguages.includes(language) ? 'rtl' : 'ltr'}">
+<head>
+  <meta charset="utf-8">
+  <title>Research Article Manager</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0; padding: 32px; color: #1f2937; background: #f9fafb; }
+    h1 { font-size: 22px; color: #b91c1c; margin-top: 0; }
+    p { line-height: 1.5; }
+    dl { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; }
+    dt { font-weight: 600; font-size: 13px; color: #6b7280; }
+    dd { margin: 0 0 12px; word-break: break-all; }
+    code { font-size: 13px; }
+    a { display: inline-block; margin-inline-end: 8px; padding: 8px 16px; border-radius: 8px; text-decoration: none; color: #fff; background: #2563eb; }
+    a.secondary { color: #1f2937; background: #e5e7eb; }
+  </style>
+</head>
+<body>
+  <h1>⚠️ ${t('startup.title')}</h1>
+  <p>${explanation}</p>
+  <dl>${details}</dl>
+  <p>${advice}</p>
+  <a href="${OPEN_BACKUPS_URL}">📂 ${t('startup.openBackups')}</a>
+  <a class="secondary" href="${QUIT_URL}">${t('startup.quit')}</a>
+</body>
+</html>`;
+}
+
+export function showStartupError(error: unknown): void {
+  const shown = error instanceof Error ? error : new Error(String(error));
+  console.error('Startup error:', shown);
+
+  const window = new BrowserWindow({
+    width: 760,
+    height: 600,
+    autoHideMenuBar: true,
+    webPreferences: { contextIsolation: true, nodeIntegration: false },
+  });
+
+  window.webContents.on('will-navigate', (event, url) => {
+    event.preventDefault();
+    if (url === OPEN_BACKUPS_URL) {
+      shell.openPath(StoragePaths.backups);
+    } else if (url === QUIT_URL) {
+      app.quit();
+    }
+  });
+
+  window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(renderPage(shown))}`);
+}
@@ -0,0 +1,66 @@
+/**
+ * Where an article's PDF and Word note are stored
+ * Internal storage (StoragePaths.root), mirrored to the external folder when it is enabled.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDb } from './database';
+import { StoragePaths } from './paths';
+
+export type StoredFileKind = 'pdfs' | 'notes';
+
+export function storedFileExtension(kind: StoredFileKind): '.pdf' | '.docx' {
+  return kind === 'pdfs' ? '.pdf' : '.docx';
+}
+
+// File name from ID and title (same logic as files.ts)
+export function makeName(id: string, title: string): string {
+  const cleanTitle = title
+    .replace(/[<>:"/\\|?*]/g, '-')
+    .replace(/_/g, ' ')
+    .trim();
+  const baseName = `${id} - ${cleanTitle}`;
+  const maxLength = 200;
+  if (baseName.length > maxLength) {
+    return baseName.substring(0, maxLength).trim();
+  }
+  return baseName;
+}
+
+// Folders holding a kind of article file: internal storage, plus the external copy if enabled
+export function storageFolders(kind: StoredFileKind): string[] {
+  const db = getDb();
+  const settings = db.prepare(`SELECT externalStoragePath, useExternalStorage FROM UserSettings LIMIT 1`).get() as {
+    externalStoragePath: string | null;
+    useExternalStorage: number | null;
+  } | undefined;
+
+  // Use centralized StoragePaths for storage location
+  const folders = [path.join(StoragePaths.root, kind)];
+  if (settings?.useExternalStorage && settings?.externalStoragePath) {
+    folders.push(path.join(settings.externalStoragePath, kind));
+  }
+  return folders;
+}
+
+// Find an article file in a folder: new format ("0001 - Title.pdf") first, then old format ("0001.pdf")
+export function findStoredFile(folder: string, id: string, title: string, extension: '.pdf' | '.docx'): string | null {
+  const newPath = path.join(folder, makeName(id, title) + extension);
+  const oldPath = path.join(folder, id + extension);
+
+  if (fs.existsSync(newPath)) return newPath;
+  if (fs.existsSync(oldPath)) return oldPath;
+  return null;
+}
+
+// Delete an article's PDF or Note from internal and external storage
+export function deleteStoredFiles(kind: StoredFileKind, id: string, title: string) {
+  for (const folder of storageFolders(kind)) {
+    const filePath = findStoredFile(folder, id, title, storedFileExtension(kind));
+    if (filePath) {
+      fs.unlinkSync(filePath);
+      console.log(`Deleted ${kind === 'pdfs' ? 'PDF' : 'Note'}: ${filePath}`);
+    }
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Trash of deleted articles
+ * A deleted article keeps its row (with a deletedAt date) and everything linked to it, but is
+ * left out of the library, search and counts. Its PDF and note move to StoragePaths.trash.
+ * It can be restored as it was, or deleted for good: by hand, or at startup once the
+ * retention period has passed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDb, updateSearchIndex } from './database';
+import { StoragePaths } from './paths';
+import { recordRevision } from './revisions';
+import { StoredFileKind, findStoredFile, makeName, storageFolders, storedFileExtension } from './storedFiles';
+import { TrashedArticle } from '../types/revision';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Days a trashed article is kept (0: until the trash is emptied)
+export function getTrashRetentionDays(): number {
+  const row = getDb().prepare(`SELECT trashRetentionDays FROM UserSettings LIMIT 1`).get() as {
+    trashRetentionDays: number | null;
+  } | undefined;
+  return row?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+function getTrashedTitle(id: string): string {
+  const row = getDb().prepare(`SELECT title FROM Article WHERE id = ? AND deletedAt IS NOT NULL`).get(id) as
+    { title: string } | undefined;
+  if (!row) {
+    throw new Error(`Article ${id} is not in the trash`);
+  }
+  return row.title;
+}
+
+/**
+ * Move an article's PDF or Note to the trash folder
+ * The external copy is only a mirror: it is removed, and copied again on restore.
+ */
+function moveToTrash(kind: StoredFileKind, id: string, title: string) {
+  const extension = storedFileExtension(kind);
+  const [internal, ...external] = storageFolders(kind);
+
+  const filePath = findStoredFile(internal, id, title, extension);
+  if (filePath) {
+    const trashFolder = path.join(StoragePaths.trash, kind);
+    fs.mkdirSync(trashFolder, { recursive: true });
+    const trashPath = path.join(trashFolder, path.basename(filePath));
+    fs.renameSync(filePath, trashPath);
+    console.log(`Moved ${kind === 'pdfs' ? 'PDF' : 'Note'} to trash: ${trashPath}`);
+  }
+
+  for (const folder of external) {
+    const copyPath = findStoredFile(folder, id, title, extension);
+    if (copyPath) fs.unlinkSync(copyPath);
+  }
+}
+
+// Put a restored article's PDF or Note back in storage (and in the external copy)
+function moveFromTrash(kind: StoredFileKind, id: string, title: string) {
+  const extension = storedFileExtension(kind);
+  const trashPath = findStoredFile(path.join(StoragePaths.trash, kind), id, title, extension);
+  if (!trashPath) return;
+
+  const [internal, ...external] = storageFolders(kind);
+  const restoredPath = path.join(internal, makeName(id, title) + extension);
+  fs.renameSync(trashPath, restoredPath);
+  for (const folder of external) {
+    fs.mkdirSync(folder, { recursive: true });
+    fs.copyFileSync(restoredPath, path.join(folder, path.basename(restoredPath)));
+  }
+  console.log(`Restored ${kind === 'pdfs' ? 'PDF' : 'Note'}: ${restoredPath}`);
+}
+
+// Move an article to the trash; its last state is kept in the history
+export function trashArticle(id: string): void {
+  const db = getDb();
+  const article = db.prepare(`SELECT title FROM Article WHERE id = ? AND deletedAt IS NULL`).get(id) as
+    { title: string } | undefined;
+  if (!article) {
+    throw new Error(`Article ${id} not found`);
+  }
+
+  moveToTrash('pdfs', id, article.title);
+  moveToTrash('notes', id, article.title);
+
+  const trash = db.transaction(() => {
+    recordRevision(id, 'delete');
+    db.prepare(`UPDATE Article SET deletedAt = datetime('now') WHERE id = ?`).run(id);
+    updateSearchIndex(id);
+  });
+  trash();
+}
+
+// Bring an article back from the trash, with its files, collections, annotations and relations
+export function restoreTrashedArticle(id: string): void {
+  const db = getDb();
+  const title = getTrashedTitle(id);
+
+  const restore = db.transaction(() => {
+    db.prepare(`UPDATE Article SET deletedAt = NULL WHERE id = ?`).run(id);
+    updateSearchIndex(id);
+    recordRevision(id, 'undelete');
+  });
+  restore();
+
+  moveFromTrash('notes', id, title);
+  moveFromTrash('pdfs', id, title);
+}
+
+/**
+ * Delete a trashed article for good: its row (CASCADE removes what is linked to it),
+ * its history, the IDs merged into it and its files in the trash folder
+ */
+export function purgeArticle(id: string): void {
+  const db = getDb();
+  const title = getTrashedTitle(id);
+
+  const purge = db.transaction(() => {
+    db.prepare(`DELETE FROM Article WHERE id = ?`).run(id);
+    db.prepare(`DELETE FROM ArticleRedirect WHERE toId = ?`).run(id);
+    db.prepare(`DELETE FROM ArticleRevision WHERE articleId = ?`).run(id);
+  });
+  purge();
+
+  (['pdfs', 'notes'] as StoredFileKind[]).forEach((kind) => {
+    const trashPath = findStoredFile(path.join(StoragePaths.trash, kind), id, title, storedFileExtension(kind));
+    if (trashPath) {
+      fs.unlinkSync(trashPath);
+      console.log(`Deleted ${kind === 'pdfs' ? 'PDF' : 'Note'}: ${trashPath}`);
+    }
+  });
+}
+
+// Trashed articles, most recently deleted first
+export function getTrashedArticles(): TrashedArticle[] {
+  const db = getDb();
+  const retentionDays = getTrashRetentionDays();
+  const rows = db.prepare(`
+    SELECT a.id, a.title, a.year, a.deletedAt,
+      (SELECT group_concat(name, char(31)) FROM (
+        SELECT e.name FROM ArticleAuthor j JOIN Author e ON e.id = j.authorId WHERE j.articleId = a.id ORDER BY e.id
+      )) as authors
+    FROM Article a
+    WHERE a.deletedAt IS NOT NULL
+    ORDER BY a.deletedAt DESC, CAST(a.id AS INTEGER) DESC
+  `).all() as Array<{ id: string; title: string; year: number; deletedAt: string; authors: string | null }>;
+
+  const purgeAt = db.prepare(`SELECT datetime(?, ?) as date`);
+  return rows.map((row) => ({
+    id: row.id,
+    title: row.title,
+    authors: row.authors ? row.authors.split('\u001f') : [],
+    year: row.year,
+    deletedAt: row.deletedAt,
+    purgeAt: retentionDays > 0
+      ? (purgeAt.get(row.deletedAt, `+${retentionDays} days`) as { date: string }).date
+      : null,
+    hasPdf: Boolean(findStoredFile(path.join(StoragePaths.trash, 'pdfs'), row.id, row.title, '.pdf')),
+    hasNote: Boolean(findStoredFile(path.join(StoragePaths.trash, 'notes'), row.id, row.title, '.docx')),
+  }));
+}
+
+// Delete every trashed article for good; returns how many there were
+export function emptyTrash(): number {
+  const ids = getDb().prepare(`SELECT id FROM Article WHERE deletedAt IS NOT NULL`).all() as Array<{ id: string }>;
+  ids.forEach(({ id }) => purgeArticle(id));
+  return ids.length;
+}
+
+// Startup (once the database is migrated): delete the articles trashed longer ago than the retention period
+export function purgeExpiredTrash(): void {
+  try {
+    const retentionDays = getTrashRetentionDays();
+    if (retentionDays <= 0) return;
+
+    const ids = getDb().prepare(`
+      SELECT id FROM Article WHERE deletedAt IS NOT NULL AND deletedAt <= datetime('now', ?)
+    `).all(`-${retentionDays} days`) as Array<{ id: string }>;
+    ids.forEach(({ id }) => purgeArticle(id));
+    if (ids.length > 0) console.log(`Purged ${ids.length} article(s) from the trash`);
+  } catch (error) {
+    console.error('Error purging trash:', error);
+  }
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { articlesApi } from '../services/api';
+import { Article } from '../types/article';
+import { LibraryFacets, LibraryQuery } from '../types/query';
+import { QuerySyntaxError } from '../types/search';
+
+interface ArticleQueryOptions {
+  pageSize?: number; // 0 to only count
+  facets?: boolean;
+  ids?: boolean; // Also list the IDs of every match (articleIds)
+}
+
+/**
+ * Articles matching a Library query, filtered and sorted by the main process.
+ * The first page is loaded when the query changes, the next ones with loadMore;
+ * reload runs the query again keeping as many rows loaded (after edits, deletions...).
+ */
+export function useArticleQuery(query: LibraryQuery, { pageSize = 100, facets = false, ids = false }: ArticleQueryOptions = {}) {
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [articleIds, setArticleIds] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facetCounts, setFacetCounts] = useState<LibraryFacets | null>(null);
+  const [structured, setStructured] = useState(false);
+  const [errors, setErrors] = useState<QuerySyntaxError[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reloads, setReloads] = useState(0);
+
+  // Answers to an older query or page request are dropped
+  const requestRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const loadedRef = useRef(0);
+  const serializedQuery = JSON.stringify(query);
+
+  // A new query starts from the first page again
+  useEffect(() => {
+    loadedRef.current = 0;
+  }, [serializedQuery]);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    loadingMoreRef.current = false;
+    setLoading(true);
+
+    // Typing in the search bar changes the query on every key
+    const timer = setTimeout(async () => {
+      try {
+        const result = await articlesApi.query({
+          query,
+          limit: pageSize > 0 ? Math.max(pageSize, loadedRef.current) : 0,
+          facets,
+          ids,
+        });
+        if (request !== requestRef.current) return;
+        setArticles(result.articles);
+        loadedRef.current = result.articles.length;
+        setArticleIds(result.articleIds ?? []);
+        setTotal(result.total);
+        setFacetCounts(result.facets);
+        setStructured(result.structured);
+        setErrors(result.errors);
+        setNextCursor(result.nextCursor);
+      } catch (error) {
+        console.error('Error querying articles:', error);
+      } finally {
+        if (request === requestRef.current) setLoading(false);
+      }
+    }, 150);
+
+    return () => clearTimeout(timer);
+  }, [serializedQuery, pageSize, facets, ids, reloads]);
+
+  /**
+   * Load the next pages
+   * @param untilIndex - Row that must be loaded (a jump down the scrollbar loads everything up to it)
+   */
+  const loadMore = useCallback(async (untilIndex = 0) => {
+    if (nextCursor === null || loadingMoreRef.current) return;
+    const request = requestRef.current;
+    loadingMoreRef.current = true;
+
+    try {
+      const result = await articlesApi.query({
+        query,
+        cursor: nextCursor,
+        limit: Math.max(pageSize, untilIndex + 1 - loadedRef.current),
+      });
+      if (request !== requestRef.current) return;
+      setArticles((prev) => {
+        const next = [...prev, ...result.articles];
+        loadedRef.current = next.length;
+        return next;
+      });
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      console.error('Error loading more articles:', error);
+    } finally {
+      if (request === requestRef.current) loadingMoreRef.current = false;
+    }
+  }, [serializedQuery, nextCursor, pageSize]);
+
+  const reload = useCallback(() => setReloads((prev) => prev + 1), []);
+
+  // Show a change to a loaded article right away, before the next reload
+  const patchArticle = useCallback((id: string, changes: Partial<Article>) => {
+    setArticles((prev) => prev.map((article) => (article.id === id ? { ...article, ...changes } : article)));
+  }, []);
+
+  return {
+    articles,
+    articleIds,
+    total,
+    facets: facetCounts,
+    structured,
+    errors,
+    hasMore: nextCursor !== null,
+    loading,
+    loadMore,
+    reload,
+    patchArticle,
+  };
+}
@@ -0,0 +1,68 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualRowsOptions {
+  estimatedRowHeight?: number;
+  overscan?: number; // Rows rendered above and below the visible ones
+}
+
+/**
+ * Rows of a long table to render: only the ones visible in the scroll container (plus overscan).
+ * The space of the others is kept by two spacer rows (paddingTop / paddingBottom);
+ * the row height is the average of the rendered rows, marked with data-row.
+ */
+export function useVirtualRows(count: number, { estimatedRowHeight = 64, overscan = 10 }: VirtualRowsOptions = {}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleScroll = () => setScrollTop(container.scrollTop);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    container.addEventListener('scroll', handleScroll);
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+    };
+  }, []);
+
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  // Rows grow with snippets and long titles: follow their actual height
+  useLayoutEffect(() => {
+    const rows = bodyRef.current?.querySelectorAll<HTMLElement>('tr[data-row]');
+    if (!rows || rows.length === 0) return;
+
+    let height = 0;
+    rows.forEach((row) => {
+      height += row.offsetHeight;
+    });
+    const average = height / rows.length;
+    if (Math.abs(average - rowHeight) > 1) setRowHeight(average);
+  });
+
+  // Back to the top when the rows change completely (new query)
+  const scrollToTop = () => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  return {
+    containerRef,
+    bodyRef,
+    start,
+    end,
+    rowHeight,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+    scrollToTop,
+  };
+}
@@ -202,7 +202,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': 'Copying files to external storage...',
     'storage.copyFailed': 'Copy failed',
     'storage.copyConfirm': 'This will copy all existing PDFs and Notes to:\n{path}\n\nContinue?',
-    'importExport.selectCsvFile': 'Please select a CSV file',
 
     // File Migration
     'migration.title': 'File Migration',
@@ -222,10 +221,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': 'Exporting...',
     'importExport.import': 'Import Data',
     'importExport.importing': 'Importing...',
-    'importExport.selectFile': 'Click to select CSV file',
     'importExport.csvFormat': 'CSV format: First row must contain column headers matching the database fields. Use semicolon (;) to separate multiple values in authors, keywords, etc.',
     'importExport.viewColumns': 'View column names for CSV import',
-    'importExport.analysis': 'CSV Analysis',
+    'importExport.analysis': 'Import Analysis',
     'importExport.total': 'Total articles found:',
     'importExport.toImport': 'To import:',
     'importExport.duplicates': 'Duplicates:',
@@ -311,9 +309,410 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': 'Not Favorite',
     'preview.delete': 'Delete',
     'preview.deleteTitle': 'Delete Article',
-    'preview.deleteWarning': 'Are you sure you want to delete this article? This action is permanent and cannot be undone.',
+    'preview.deleteWarning': 'Are you sure you want to delete this article? It will be moved to the Trash with its PDF and note, and can be restored from there.',
     'preview.typeIdToConfirm': 'To confirm deletion, please type the article ID below:',
     'preview.typeIdPlaceholder': 'Type article ID here',
+
+    // Full library JSON export/import
+    'libraryJson.title': 'Full library (JSON)',
+    'libraryJson.description': 'Complete copy of the library: every article with its ID, authors, keywords, subjects, tags, universities, companies, collections, saved views, annotations, relations, history, extracted PDF text, settings and ID counter. PDFs and notes are not included.',
+    'libraryJson.exportBtn': 'Export library as JSON',
+    'libraryJson.importBtn': 'Import library JSON...',
+    'libraryJson.modeMerge': 'Merge',
+    'libraryJson.modeReplace': 'Replace',
+    'libraryJson.modeMergeHelp': 'Merge: keeps the current library and adds articles whose ID is not used yet.',
+    'libraryJson.modeReplaceHelp': 'Replace: deletes the current library and restores the file exactly, settings included.',
+    'libraryJson.report': 'Import report (dry run)',
+    'libraryJson.mode': 'Mode:',
+    'libraryJson.exportedAt': 'Exported on:',
+    'libraryJson.skippedIds': 'IDs already in use (skipped):',
+    'libraryJson.entityCounts': '{created} new, {matched} existing',
+    'libraryJson.relations': 'Links restored:',
+    'libraryJson.nextId': 'Next article ID:',
+    'libraryJson.replaceWarning': 'All current articles and their links will be deleted before the import.',
+    'libraryJson.exportSuccess': 'Exported {count} articles to JSON!',
+    'libraryJson.exportError': 'JSON export failed',
+    'libraryJson.importSuccess': 'Library import complete! {count} articles imported',
+    'libraryJson.importError': 'JSON import failed',
+
+    // Full-text search
+    'library.pdfText': 'PDF full text',
+    'library.pdfPage': 'PDF p. {page}',
+
+    // Bibliographic formats
+    'importExport.exportFormat': 'Export {format}',
+    'importExport.selectAnyFile': 'Click to select a file ({formats})',
+    'importExport.unsupportedFile': 'Unsupported file type. Supported: {formats}',
+    'importExport.unreadable': '{count} entries could not be read',
+    'library.exportSelection': 'Export {format} ({count})',
+    'library.exportSelectionHint': 'Export the checked articles, or all filtered articles when none are checked',
+    'article.exportFormat': 'Export {format}',
+
+    // Citations & bibliography
+    'article.citation': 'Citation',
+    'article.copyCitation': 'Copy citation',
+    'article.citationCopied': 'Copied',
+    'article.copyCitationFailed': 'Failed to copy citation',
+    'library.bibliography': 'Bibliography ({count})',
+    'library.bibliographyTitle': 'Generate bibliography',
+    'library.bibliographyDescription': 'Reference list of the {count} articles currently shown (filters applied).',
+    'library.citationStyle': 'Citation style',
+    'library.bibliographyFormat': 'File format',
+    'library.bibliographyFormat.text': 'Plain text',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': 'Generate',
+    'library.generating': 'Generating...',
+    'library.bibliographyFailed': 'Bibliography generation failed',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': 'Reading the PDF metadata...',
+    'addArticle.suggestions': 'Suggested values',
+    'addArticle.suggestionsHint': 'Found in the PDF or by the DOI lookup. Check each value before accepting it.',
+    'addArticle.acceptAll': 'Accept all',
+    'addArticle.rejectAll': 'Reject all',
+    'addArticle.accept': 'Accept',
+    'addArticle.reject': 'Reject',
+    'addArticle.replaces': 'Replaces: {value}',
+    'addArticle.confidenceHigh': 'High',
+    'addArticle.confidenceMedium': 'Medium',
+    'addArticle.confidenceLow': 'Low',
+    'addArticle.source.xmp': 'Publisher metadata (XMP)',
+    'addArticle.source.info': 'Document properties',
+    'addArticle.source.text': 'First page text',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': 'Fill from DOI',
+    'addArticle.fillFromDoiHint': 'Look up the DOI or arXiv ID on Crossref and DataCite',
+    'addArticle.fillingFromDoi': 'Looking up...',
+    'addArticle.doiLookupFailed': 'DOI lookup failed',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': 'Refresh metadata ({count})',
+    'library.refreshMetadataHint': 'Look up the DOI of every article shown and review the differences',
+    'library.refreshMetadataTitle': 'Refresh metadata',
+    'library.refreshMetadataProgress': 'Looking up {done} of {total} articles...',
+    'library.refreshMetadataDone': '{count} articles looked up, {changed} with differences or errors. Untick the changes you don\'t want.',
+    'library.refreshMetadataFailed': 'Failed to apply metadata changes',
+    'library.applyChanges': 'Apply {count} change(s)',
+    'library.applying': 'Applying...',
+    'metadataLookup.title': 'Metadata lookup',
+    'metadataLookup.description': 'DOIs and arXiv IDs are looked up on Crossref first, then DataCite. Change the URLs to use a mirror or a local server.',
+    'metadataLookup.crossrefUrl': 'Crossref API URL',
+    'metadataLookup.dataciteUrl': 'DataCite API URL',
+    'metadataLookup.localServerHint': 'Offline: run "npm run metadata-server" and use http://localhost:4500 for both.',
+    'metadataLookup.save': 'Save Lookup Settings',
+    'metadataLookup.reset': 'Reset to defaults',
+    'metadataLookup.saved': 'Metadata lookup settings saved!',
+
+    // Duplicates
+    'nav.duplicates': 'Duplicates',
+    'duplicates.title': 'Duplicates',
+    'duplicates.description': 'Articles with the same DOI, or a similar title and shared authors (e.g. a preprint and its published version).',
+    'duplicates.scan': 'Scan again',
+    'duplicates.scanning': 'Scanning...',
+    'duplicates.scanFailed': 'Duplicate scan failed',
+    'duplicates.none': 'No duplicates found',
+    'duplicates.review': 'Review & merge',
+    'duplicates.reason.doi': 'Same DOI',
+    'duplicates.reason.title': 'Similar title',
+    'duplicates.reason.authors': 'Shared authors',
+    'duplicates.mergeTitle': 'Merge duplicates',
+    'duplicates.mergeDescription': 'Pick the value to keep for each field that differs. #{retire} will be removed and its ID will open #{keep}.',
+    'duplicates.keep': 'Keep #{id}',
+    'duplicates.noPdf': 'No PDF',
+    'duplicates.identicalFields': '{count} identical fields not shown',
+    'duplicates.unionHint': 'Relations of both articles are kept:',
+    'duplicates.merge': 'Merge #{retire} into #{keep}',
+    'duplicates.merging': 'Merging...',
+    'duplicates.mergeFailed': 'Merge failed',
+    'duplicates.pdfAnnotationsHint': 'Annotations follow the PDF kept: those made on the other PDF are deleted.',
+
+    // Manage taxonomy
+    'nav.taxonomy': 'Taxonomy',
+    'taxonomy.title': 'Manage Taxonomy',
+    'taxonomy.description': 'Clean up spelling variants: rename, merge entries into one, delete unused ones. Aliases are other spellings linked to an entry when articles are added or imported.',
+    'taxonomy.filter': 'Filter by name or alias...',
+    'taxonomy.unusedOnly': 'Unused only',
+    'taxonomy.mergeSelected': 'Merge selected ({count})',
+    'taxonomy.deleteUnused': 'Delete unused ({count})',
+    'taxonomy.usage': 'Articles',
+    'taxonomy.aliases': 'Aliases',
+    'taxonomy.addAlias': '+ alias',
+    'taxonomy.rename': 'Rename',
+    'taxonomy.empty': 'No entries',
+    'taxonomy.renamed': 'Renamed',
+    'taxonomy.merged': '{count} entries merged',
+    'taxonomy.deleted': '{count} unused entries deleted',
+    'taxonomy.mergeTitle': 'Merge entries',
+    'taxonomy.mergeDescription': 'Keep this entry. The others are removed, their articles are linked to it and their names become aliases.',
+    'taxonomy.merge': 'Merge',
+    'taxonomy.deleteUnusedTitle': 'Delete unused entries',
+    'taxonomy.deleteUnusedConfirm': 'Delete {count} entries that no article uses? Their aliases are deleted too.',
+
+    // Library bulk actions
+    'library.bulkSelected': '{count} selected',
+    'library.bulkSelectAll': 'Select all articles shown',
+    'library.bulkEditRelations': 'Tags / keywords / subjects',
+    'library.bulkMode.add': 'Add',
+    'library.bulkMode.remove': 'Remove',
+    'library.bulkRelationPlaceholder': 'Names, separated by commas',
+    'library.bulkMarkRead': 'Mark read',
+    'library.bulkMarkUnread': 'Mark unread',
+    'library.bulkFavorite': 'Favorite',
+    'library.bulkUnfavorite': 'Unfavorite',
+    'library.bulkSetRating': 'Set rating…',
+    'library.bulkRegenerateNotes': 'Regenerate notes',
+    'library.bulkWorking': 'Working...',
+    'library.bulkClear': 'Clear selection',
+    'library.bulkFailed': 'Bulk update failed',
+    'library.bulkNotesFailed': '{count} note(s) could not be generated',
+    'library.bulkDeleteTitle': 'Delete articles',
+    'library.bulkDeleteConfirm': 'Delete {count} article(s)? They will be moved to the Trash with their PDFs and notes.',
+    'library.bulkDeleteButton': 'Delete {count} article(s)',
+
+    // Collections
+    'nav.collections': 'Collections',
+    'collections.title': 'Collections',
+    'collections.description': 'Named, ordered reading lists (a thesis chapter, a review paper...). Collections can be nested and are shown in the sidebar.',
+    'collections.newPlaceholder': 'New collection name',
+    'collections.createInside': '➕ Create inside "{name}"',
+    'collections.empty': 'No collections yet',
+    'collections.selectHint': 'Select or create a collection',
+    'collections.moveUp': 'Move up',
+    'collections.moveDown': 'Move down',
+    'collections.indent': 'Indent',
+    'collections.indentHint': 'Move into the collection above',
+    'collections.outdent': 'Outdent',
+    'collections.outdentHint': 'Move out of the parent collection',
+    'collections.showInLibrary': 'Show in Library',
+    'collections.descriptionPlaceholder': 'Description (optional)',
+    'collections.exportHint': 'Export a folder with the PDFs, notes and a bibliography (subcollections included)',
+    'collections.export': 'Export bundle',
+    'collections.exporting': 'Exporting...',
+    'collections.exported': '{count} article(s) exported ({pdfs} PDFs, {notes} notes) to {path}',
+    'collections.addPlaceholder': 'Add an article: search by ID, title or author',
+    'collections.articles': 'Articles ({count})',
+    'collections.noArticles': 'No articles in this collection yet',
+    'collections.removeArticle': 'Remove from the collection',
+    'collections.deleteTitle': 'Delete collection',
+    'collections.deleteConfirm': 'Delete the collection "{name}"? Its articles stay in the library and its subcollections move up one level.',
+    'library.collectionFilter': 'Collection: {name}',
+    'library.manageCollection': 'Manage',
+    'library.showAllArticles': 'Show all articles',
+    'library.bulkAddToCollection': 'Add to collection…',
+
+    // Saved views
+    'nav.savedViews': 'Saved views',
+    'library.saveView': 'Save view',
+    'library.saveViewTitle': 'Save the current view',
+    'library.viewNamePlaceholder': 'View name...',
+    'library.viewQuery': 'Filters, search and sort',
+    'library.viewQueryEmpty': '(all articles)',
+    'library.updateView': 'Save changes to "{name}"',
+    'library.deleteView': 'Delete view',
+
+    // Search query language
+    'search.syntaxHelp': 'Words and "exact phrases", or fields: author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - read / favorite flags, -term excludes, OR, (groups). Tab completes.',
+
+    // Library facets
+    'library.matchAny': 'Any',
+    'library.matchAll': 'All',
+    'library.matchAnyHint': 'Articles with any of the selected values',
+    'library.matchAllHint': 'Articles with all of the selected values',
+    'library.hideEmptyFacets': 'Hide filter options that match no article',
+
+    // PDF reader
+    'reader.annotations': 'Annotations',
+    'reader.noAnnotations': 'Select text to highlight it, or use 📝 to pin a note on a page.',
+    'reader.highlight': 'Highlight',
+    'reader.highlightWithComment': 'Highlight and comment',
+    'reader.noteTool': 'Sticky note: click on the page where to pin it',
+    'reader.bookmarkPage': 'Bookmark this page',
+    'reader.removeBookmark': 'Remove the bookmark of this page',
+    'reader.toggleAnnotations': 'Show or hide the annotations',
+    'reader.page': 'Page {page}',
+    'reader.zoomIn': 'Zoom in',
+    'reader.zoomOut': 'Zoom out',
+    'reader.commentPlaceholder': 'Add a comment...',
+    'reader.deleteAnnotation': 'Delete the annotation',
+    'reader.saveFailed': 'Failed to save the annotation',
+
+    // Annotation exports
+    'reader.export': 'Export annotations',
+    'reader.exportPdf': 'Annotated PDF',
+    'reader.exportMarkdown': 'Digest (Markdown)',
+    'reader.exportDocx': 'Digest (Word)',
+    'reader.exported': 'Saved to {path}',
+    'reader.exportFailed': 'Export failed',
+    'settings.noteAnnotations': 'Annotations in generated notes',
+    'settings.noteAnnotations.desc': 'Append the highlights and notes of the PDF reader to the Word note, grouped by page and color',
+
+    // PDF annotation import
+    'reader.rescan': 'Rescan PDF annotations',
+    'reader.rescanHint': 'Import the highlights and notes made in other readers again (the ones you edited or deleted stay as they are)',
+    'reader.rescanFailed': 'Failed to read the PDF annotations',
+    'reader.importedHint': 'Imported from the PDF file',
+
+    // Markdown note fields
+    'markdown.write': 'Write',
+    'markdown.preview': 'Preview',
+    'markdown.empty': 'Nothing to preview',
+    'markdown.hint': '# Heading, **bold**, *italic*, - list, `code`, ```code block```, $formula$, [[0042]] link to an article',
+    'markdown.missingArticle': 'No article with this ID',
+
+    // Relations & citation graph
+    'nav.graph': 'Citation graph',
+    'relations.title': 'Related articles',
+    'relations.none': 'No related articles yet',
+    'relations.outgoing.cites': 'Cites',
+    'relations.outgoing.extends': 'Extends',
+    'relations.outgoing.contradicts': 'Contradicts',
+    'relations.outgoing.replicates': 'Replicates',
+    'relations.incoming.cites': 'Cited by',
+    'relations.incoming.extends': 'Extended by',
+    'relations.incoming.contradicts': 'Contradicted by',
+    'relations.incoming.replicates': 'Replicated by',
+    'relations.same-dataset': 'Same dataset',
+    'relations.searchArticle': 'Search an article by ID, title or author...',
+    'relations.note': 'Note (optional)',
+    'relations.add': 'Add',
+    'relations.addFailed': 'Could not add the relation',
+    'relations.deleteFailed': 'Could not delete the relation',
+    'relations.detect': 'Find citations in the PDF',
+    'relations.detecting': 'Searching...',
+    'relations.detected': '{count} new citation(s) found',
+    'relations.noReferenceList': 'No reference list found in the PDF text',
+    'relations.detectFailed': 'Citation detection failed',
+    'relations.autoHint': 'Found in the reference list of the PDF',
+    'relations.openGraph': 'Open the citation graph',
+    'graph.title': 'Citation graph',
+    'graph.description': 'Relations between the articles of the library. Click an article to open it, drag to move it, scroll to zoom.',
+    'graph.detectAll': 'Find citations in all PDFs',
+    'graph.detected': '{articles} reference list(s) read, {count} new citation(s)',
+    'graph.loadFailed': 'Could not load the graph',
+    'graph.wholeLibrary': 'Whole library',
+    'graph.counts': '{articles} articles, {relations} relations',
+    'graph.empty': 'No relations yet. Add them from an article page, or find citations in the PDFs.',
+    'graph.emptyCollection': 'This collection has no articles',
+    'graph.legend': 'Filled: read · Orange ring: favorite · Dashed: found in a PDF reference list',
+    'settings.detectRelations': 'Find citations in uploaded PDFs',
+    'settings.detectRelations.desc': 'Match the reference list of each uploaded PDF against the DOIs and titles of the library',
+
+    // Reference list of the PDF
+    'references.title': 'References in the PDF',
+    'references.summary': '{count} entries, {matched} in the library',
+    'references.reading': 'Reading the reference list...',
+    'references.loadFailed': 'Could not read the reference list',
+    'references.noPdfText': 'No PDF text to read: add a PDF to this article first',
+    'references.reload': 'Read again',
+    'references.filter.all': 'All',
+    'references.filter.matched': 'In library',
+    'references.filter.missing': 'Not in library',
+    'references.inLibrary': 'In library',
+    'references.notInLibrary': 'Not in the library yet',
+    'references.matchBy.doi': 'same DOI',
+    'references.matchBy.title': 'same title',
+    'references.addArticle': 'Add as new article',
+    'addArticle.fromReference': 'Filled from the reference list of article {id}',
+    'addArticle.fromReferenceHint': 'Fields were guessed from the entry below: check them before saving.',
+    'addArticle.fromReferenceDoiHint': 'Fields were guessed from the entry below: use "Fill from DOI" to get the registered metadata.',
+
+    // History and Trash
+    'nav.trash': 'Trash',
+    'history.title': 'History',
+    'history.none': 'No revisions recorded yet.',
+    'history.empty': '(empty)',
+    'history.current': 'current',
+    'history.noChanges': 'No field changed.',
+    'history.firstRevision': 'First recorded version of the article.',
+    'history.restore': 'Restore this version',
+    'history.restoreConfirm': 'Restore the fields and lists of the article as they were on {date}? The current version stays in the history.',
+    'history.restoreFailed': 'Failed to restore the version',
+    'history.action.create': 'Created',
+    'history.action.update': 'Edited',
+    'history.action.restore': 'Restored',
+    'history.action.delete': 'Deleted',
+    'history.action.undelete': 'Undeleted',
+    'history.action.merge': 'Merged',
+    'trash.title': 'Trash',
+    'trash.description': 'Deleted articles, with their PDFs and notes. They can be restored as they were, with their collections, annotations and relations, until the retention period set in Settings is over.',
+    'trash.empty': 'The trash is empty.',
+    'trash.open': 'Open',
+    'trash.restore': 'Restore',
+    'trash.restored': 'Article {id} restored.',
+    'trash.restoreFailed': 'Failed to restore the article',
+    'trash.loadFailed': 'Failed to load the trash',
+    'trash.deletedAt': 'deleted on {date}',
+    'trash.pdfKept': 'PDF kept',
+    'trash.noPdf': 'No PDF',
+    'trash.noteKept': 'Note kept',
+    'trash.noNote': 'No note',
+
+    // Trash: permanent delete and retention
+    'trash.purge': 'Delete permanently',
+    'trash.purgeConfirm': 'Delete article {id} "{title}" permanently, with its PDF, note and history? This cannot be undone.',
+    'trash.purged': 'Article {id} deleted permanently.',
+    'trash.purgeFailed': 'Failed to delete permanently',
+    'trash.empty.button': 'Empty trash',
+    'trash.emptying': 'Emptying...',
+    'trash.emptyConfirm': 'Delete the {count} article(s) in the trash permanently, with their PDFs, notes and history? This cannot be undone.',
+    'trash.emptied': '{count} article(s) deleted permanently.',
+    'trash.purgeAt': 'deleted permanently after {date}',
+    'settings.trashRetention': 'Keep deleted articles in the trash',
+    'settings.trashRetention.days': '{days} days',
+    'settings.trashRetention.never': 'Until the trash is emptied',
+    'settings.trashRetention.desc': 'Articles older than this are deleted permanently when the app starts.',
+
+    // Backups
+    'backup.title': 'Backups',
+    'backup.description': 'Copies of the database (and optionally of the PDFs and notes) are kept in the backups folder of the storage. Each backup is checked when it is made; restoring one restarts the app.',
+    'backup.schedule': 'Automatic backup',
+    'backup.schedule.daily': 'Once a day',
+    'backup.schedule.startup': 'At every startup',
+    'backup.schedule.off': 'Never',
+    'backup.keep': 'Backups kept',
+    'backup.keep.count': 'The last {count}',
+    'backup.keep.all': 'All',
+    'backup.includeFiles': 'Include PDFs and notes',
+    'backup.includeFiles.desc': 'Larger backups, but a restore also brings back the files',
+    'backup.create': 'Back up now',
+    'backup.creating': 'Backing up...',
+    'backup.created': 'Backup created ({size})',
+    'backup.createFailed': 'Backup failed',
+    'backup.list': 'Backups ({count})',
+    'backup.none': 'No backup yet',
+    'backup.trigger.manual': 'Manual',
+    'backup.trigger.startup': 'Startup',
+    'backup.trigger.daily': 'Daily',
+    'backup.trigger.pre-migration': 'Before update',
+    'backup.trigger.pre-restore': 'Before restore',
+    'backup.details': '{articles} articles · {size}',
+    'backup.withFiles': '{count} files',
+    'backup.verify': 'Verify',
+    'backup.verified': 'The backup is intact',
+    'backup.verifyFailed': 'The backup is damaged',
+    'backup.restore': 'Restore',
+    'backup.restoreConfirm': 'Replace the library with the backup of {date}? The current library is backed up first, and the app restarts.',
+    'backup.restoreConfirmFiles': 'Replace the library, PDFs and notes with the backup of {date}? The current library is backed up first, and the app restarts.',
+    'backup.restarting': 'Backup ready, restarting...',
+    'backup.restoreFailed': 'Restore failed',
+    'backup.delete': 'Delete backup',
+    'backup.deleteConfirm': 'Delete the backup of {date}?',
+    'backup.deleteFailed': 'Delete failed',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': 'The library could not be opened',
+    'startup.migrationFailed': 'Updating the database to this version of the app failed. The update was rolled back, so the database is as it was before.',
+    'startup.openFailed': 'The database could not be opened or updated, so the app was not started to avoid damaging your library.',
+    'startup.backupAdvice': 'The database was backed up just before the update. Try again with the latest version of the app, or put the {file} of the backup folder in place of the database file.',
+    'startup.noBackupAdvice': 'Try again with the latest version of the app. The automatic backups are in the backups folder.',
+    'startup.migration': 'Migration',
+    'startup.error': 'Error',
+    'startup.database': 'Database',
+    'startup.backup': 'Backup',
+    'startup.openBackups': 'Open backups folder',
+    'startup.quit': 'Quit',
   },
 
   fr: {
@@ -514,7 +913,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': 'Copie des fichiers vers le stockage externe...',
     'storage.copyFailed': 'Échec de la copie',
     'storage.copyConfirm': 'Ceci va copier tous les PDFs et Notes existants vers :\n{path}\n\nContinuer ?',
-    'importExport.selectCsvFile': 'Veuillez sélectionner un fichier CSV',
 
     // File Migration
     'migration.title': 'Migration des fichiers',
@@ -534,10 +932,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': 'Export en cours...',
     'importExport.import': 'Importer des données',
     'importExport.importing': 'Import en cours...',
-    'importExport.selectFile': 'Cliquez pour sélectionner un fichier CSV',
     'importExport.csvFormat': 'Format CSV : La première ligne doit contenir les en-têtes. Utilisez le point-virgule (;) pour séparer les valeurs multiples.',
     'importExport.viewColumns': 'Voir les noms de colonnes pour l\'import CSV',
-    'importExport.analysis': 'Analyse CSV',
+    'importExport.analysis': 'Analyse de l\'import',
     'importExport.total': 'Total d\'articles trouvés :',
     'importExport.toImport': 'À importer :',
     'importExport.duplicates': 'Doublons :',
@@ -623,9 +1020,410 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': 'Non favori',
     'preview.delete': 'Supprimer',
     'preview.deleteTitle': 'Supprimer l\'article',
-    'preview.deleteWarning': 'Êtes-vous sûr de vouloir supprimer cet article ? Cette action est permanente et irréversible.',
+    'preview.deleteWarning': 'Êtes-vous sûr de vouloir supprimer cet article ? Il sera placé dans la corbeille avec son PDF et sa note, d\'où il pourra être restauré.',
     'preview.typeIdToConfirm': 'Pour confirmer la suppression, tapez l\'ID de l\'article ci-dessous :',
     'preview.typeIdPlaceholder': 'Tapez l\'ID de l\'article ici',
+
+    // Full library JSON export/import
+    'libraryJson.title': 'Bibliothèque complète (JSON)',
+    'libraryJson.description': 'Copie complète de la bibliothèque : chaque article avec son ID, auteurs, mots-clés, sujets, tags, universités, entreprises, collections, vues enregistrées, annotations, relations, historique, texte extrait des PDF, paramètres et compteur d\'ID. Les PDF et notes ne sont pas inclus.',
+    'libraryJson.exportBtn': 'Exporter la bibliothèque en JSON',
+    'libraryJson.importBtn': 'Importer un JSON de bibliothèque...',
+    'libraryJson.modeMerge': 'Fusionner',
+    'libraryJson.modeReplace': 'Remplacer',
+    'libraryJson.modeMergeHelp': 'Fusionner : conserve la bibliothèque actuelle et ajoute les articles dont l\'ID n\'est pas encore utilisé.',
+    'libraryJson.modeReplaceHelp': 'Remplacer : supprime la bibliothèque actuelle et restaure le fichier à l\'identique, paramètres compris.',
+    'libraryJson.report': 'Rapport d\'import (simulation)',
+    'libraryJson.mode': 'Mode :',
+    'libraryJson.exportedAt': 'Exporté le :',
+    'libraryJson.skippedIds': 'IDs déjà utilisés (ignorés) :',
+    'libraryJson.entityCounts': '{created} nouveaux, {matched} existants',
+    'libraryJson.relations': 'Liens restaurés :',
+    'libraryJson.nextId': 'Prochain ID d\'article :',
+    'libraryJson.replaceWarning': 'Tous les articles actuels et leurs liens seront supprimés avant l\'import.',
+    'libraryJson.exportSuccess': '{count} articles exportés en JSON !',
+    'libraryJson.exportError': 'Échec de l\'export JSON',
+    'libraryJson.importSuccess': 'Import de la bibliothèque terminé ! {count} articles importés',
+    'libraryJson.importError': 'Échec de l\'import JSON',
+
+    // Full-text search
+    'library.pdfText': 'Texte intégral du PDF',
+    'library.pdfPage': 'PDF p. {page}',
+
+    // Bibliographic formats
+    'importExport.exportFormat': 'Exporter {format}',
+    'importExport.selectAnyFile': 'Cliquez pour sélectionner un fichier ({formats})',
+    'importExport.unsupportedFile': 'Type de fichier non pris en charge. Formats acceptés : {formats}',
+    'importExport.unreadable': '{count} entrées n\'ont pas pu être lues',
+    'library.exportSelection': 'Exporter {format} ({count})',
+    'library.exportSelectionHint': 'Exporter les articles cochés, ou tous les articles filtrés si aucun n\'est coché',
+    'article.exportFormat': 'Exporter {format}',
+
+    // Citations & bibliography
+    'article.citation': 'Citation',
+    'article.copyCitation': 'Copier la citation',
+    'article.citationCopied': 'Copiée',
+    'article.copyCitationFailed': 'Échec de la copie de la citation',
+    'library.bibliography': 'Bibliographie ({count})',
+    'library.bibliographyTitle': 'Générer une bibliographie',
+    'library.bibliographyDescription': 'Liste des références des {count} articles affichés (filtres appliqués).',
+    'library.citationStyle': 'Style de citation',
+    'library.bibliographyFormat': 'Format du fichier',
+    'library.bibliographyFormat.text': 'Texte brut',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': 'Générer',
+    'library.generating': 'Génération...',
+    'library.bibliographyFailed': 'Échec de la génération de la bibliographie',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': 'Lecture des métadonnées du PDF...',
+    'addArticle.suggestions': 'Valeurs suggérées',
+    'addArticle.suggestionsHint': 'Trouvées dans le PDF ou par la recherche du DOI. Vérifiez chaque valeur avant de l\'accepter.',
+    'addArticle.acceptAll': 'Tout accepter',
+    'addArticle.rejectAll': 'Tout rejeter',
+    'addArticle.accept': 'Accepter',
+    'addArticle.reject': 'Rejeter',
+    'addArticle.replaces': 'Remplace : {value}',
+    'addArticle.confidenceHigh': 'Élevée',
+    'addArticle.confidenceMedium': 'Moyenne',
+    'addArticle.confidenceLow': 'Faible',
+    'addArticle.source.xmp': 'Métadonnées de l\'éditeur (XMP)',
+    'addArticle.source.info': 'Propriétés du document',
+    'addArticle.source.text': 'Texte de la première page',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': 'Remplir depuis le DOI',
+    'addArticle.fillFromDoiHint': 'Rechercher le DOI ou l\'identifiant arXiv sur Crossref et DataCite',
+    'addArticle.fillingFromDoi': 'Recherche...',
+    'addArticle.doiLookupFailed': 'Échec de la recherche du DOI',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': 'Actualiser les métadonnées ({count})',
+    'library.refreshMetadataHint': 'Rechercher le DOI de chaque article affiché et vérifier les différences',
+    'library.refreshMetadataTitle': 'Actualiser les métadonnées',
+    'library.refreshMetadataProgress': 'Recherche de {done} sur {total} articles...',
+    'library.refreshMetadataDone': '{count} articles recherchés, {changed} avec des différences ou des erreurs. Décochez les modifications que vous ne voulez pas.',
+    'library.refreshMetadataFailed': 'Échec de l\'application des modifications',
+    'library.applyChanges': 'Appliquer {count} modification(s)',
+    'library.applying': 'Application...',
+    'metadataLookup.title': 'Recherche de métadonnées',
+    'metadataLookup.description': 'Les DOI et identifiants arXiv sont recherchés sur Crossref, puis DataCite. Modifiez les URL pour utiliser un miroir ou un serveur local.',
+    'metadataLookup.crossrefUrl': 'URL de l\'API Crossref',
+    'metadataLookup.dataciteUrl': 'URL de l\'API DataCite',
+    'metadataLookup.localServerHint': 'Hors ligne : lancez "npm run metadata-server" et utilisez http://localhost:4500 pour les deux.',
+    'metadataLookup.save': 'Enregistrer les paramètres de recherche',
+    'metadataLookup.reset': 'Valeurs par défaut',
+    'metadataLookup.saved': 'Paramètres de recherche enregistrés !',
+
+    // Duplicates
+    'nav.duplicates': 'Doublons',
+    'duplicates.title': 'Doublons',
+    'duplicates.description': 'Articles avec le même DOI, ou un titre proche et des auteurs communs (par ex. une prépublication et sa version publiée).',
+    'duplicates.scan': 'Relancer l\'analyse',
+    'duplicates.scanning': 'Analyse...',
+    'duplicates.scanFailed': 'Échec de la recherche de doublons',
+    'duplicates.none': 'Aucun doublon trouvé',
+    'duplicates.review': 'Examiner et fusionner',
+    'duplicates.reason.doi': 'Même DOI',
+    'duplicates.reason.title': 'Titre proche',
+    'duplicates.reason.authors': 'Auteurs communs',
+    'duplicates.mergeTitle': 'Fusionner les doublons',
+    'duplicates.mergeDescription': 'Choisissez la valeur à garder pour chaque champ différent. #{retire} sera supprimé et son ID ouvrira #{keep}.',
+    'duplicates.keep': 'Garder #{id}',
+    'duplicates.noPdf': 'Pas de PDF',
+    'duplicates.identicalFields': '{count} champs identiques non affichés',
+    'duplicates.unionHint': 'Les relations des deux articles sont conservées :',
+    'duplicates.merge': 'Fusionner #{retire} dans #{keep}',
+    'duplicates.merging': 'Fusion...',
+    'duplicates.mergeFailed': 'Échec de la fusion',
+    'duplicates.pdfAnnotationsHint': 'Les annotations suivent le PDF conservé : celles faites sur l\'autre PDF sont supprimées.',
+
+    // Manage taxonomy
+    'nav.taxonomy': 'Taxonomie',
+    'taxonomy.title': 'Gérer la taxonomie',
+    'taxonomy.description': 'Nettoyez les variantes d\'écriture : renommez, fusionnez des entrées, supprimez celles qui ne servent pas. Les alias sont d\'autres écritures liées à une entrée lors de l\'ajout ou de l\'import d\'articles.',
+    'taxonomy.filter': 'Filtrer par nom ou alias...',
+    'taxonomy.unusedOnly': 'Inutilisées seulement',
+    'taxonomy.mergeSelected': 'Fusionner la sélection ({count})',
+    'taxonomy.deleteUnused': 'Supprimer les inutilisées ({count})',
+    'taxonomy.usage': 'Articles',
+    'taxonomy.aliases': 'Alias',
+    'taxonomy.addAlias': '+ alias',
+    'taxonomy.rename': 'Renommer',
+    'taxonomy.empty': 'Aucune entrée',
+    'taxonomy.renamed': 'Renommé',
+    'taxonomy.merged': '{count} entrées fusionnées',
+    'taxonomy.deleted': '{count} entrées inutilisées supprimées',
+    'taxonomy.mergeTitle': 'Fusionner des entrées',
+    'taxonomy.mergeDescription': 'Gardez cette entrée. Les autres sont supprimées, leurs articles y sont liés et leurs noms deviennent des alias.',
+    'taxonomy.merge': 'Fusionner',
+    'taxonomy.deleteUnusedTitle': 'Supprimer les entrées inutilisées',
+    'taxonomy.deleteUnusedConfirm': 'Supprimer {count} entrées qu\'aucun article n\'utilise ? Leurs alias sont aussi supprimés.',
+
+    // Library bulk actions
+    'library.bulkSelected': '{count} sélectionné(s)',
+    'library.bulkSelectAll': 'Sélectionner tous les articles affichés',
+    'library.bulkEditRelations': 'Tags / mots-clés / sujets',
+    'library.bulkMode.add': 'Ajouter',
+    'library.bulkMode.remove': 'Retirer',
+    'library.bulkRelationPlaceholder': 'Noms, séparés par des virgules',
+    'library.bulkMarkRead': 'Marquer lu',
+    'library.bulkMarkUnread': 'Marquer non lu',
+    'library.bulkFavorite': 'Favori',
+    'library.bulkUnfavorite': 'Retirer des favoris',
+    'library.bulkSetRating': 'Définir la note…',
+    'library.bulkRegenerateNotes': 'Régénérer les notes',
+    'library.bulkWorking': 'En cours...',
+    'library.bulkClear': 'Effacer la sélection',
+    'library.bulkFailed': 'Échec de la modification groupée',
+    'library.bulkNotesFailed': '{count} note(s) n\'ont pas pu être générées',
+    'library.bulkDeleteTitle': 'Supprimer les articles',
+    'library.bulkDeleteConfirm': 'Supprimer {count} article(s) ? Ils seront placés dans la corbeille avec leurs PDF et notes.',
+    'library.bulkDeleteButton': 'Supprimer {count} article(s)',
+
+    // Collections
+    'nav.collections': 'Collections',
+    'collections.title': 'Collections',
+    'collections.description': 'Listes de lecture nommées et ordonnées (un chapitre de thèse, une revue de littérature...). Les collections peuvent être imbriquées et apparaissent dans la barre latérale.',
+    'collections.newPlaceholder': 'Nom de la nouvelle collection',
+    'collections.createInside': '➕ Créer dans « {name} »',
+    'collections.empty': 'Aucune collection',
+    'collections.selectHint': 'Sélectionnez ou créez une collection',
+    'collections.moveUp': 'Monter',
+    'collections.moveDown': 'Descendre',
+    'collections.indent': 'Imbriquer',
+    'collections.indentHint': 'Déplacer dans la collection au-dessus',
+    'collections.outdent': 'Désimbriquer',
+    'collections.outdentHint': 'Sortir de la collection parente',
+    'collections.showInLibrary': 'Afficher dans la bibliothèque',
+    'collections.descriptionPlaceholder': 'Description (facultative)',
+    'collections.exportHint': 'Exporter un dossier avec les PDF, les notes et une bibliographie (sous-collections incluses)',
+    'collections.export': 'Exporter le dossier',
+    'collections.exporting': 'Export en cours...',
+    'collections.exported': '{count} article(s) exporté(s) ({pdfs} PDF, {notes} notes) vers {path}',
+    'collections.addPlaceholder': 'Ajouter un article : rechercher par ID, titre ou auteur',
+    'collections.articles': 'Articles ({count})',
+    'collections.noArticles': 'Aucun article dans cette collection',
+    'collections.removeArticle': 'Retirer de la collection',
+    'collections.deleteTitle': 'Supprimer la collection',
+    'collections.deleteConfirm': 'Supprimer la collection « {name} » ? Ses articles restent dans la bibliothèque et ses sous-collections remontent d\'un niveau.',
+    'library.collectionFilter': 'Collection : {name}',
+    'library.manageCollection': 'Gérer',
+    'library.showAllArticles': 'Afficher tous les articles',
+    'library.bulkAddToCollection': 'Ajouter à une collection…',
+
+    // Saved views
+    'nav.savedViews': 'Vues enregistrées',
+    'library.saveView': 'Enregistrer la vue',
+    'library.saveViewTitle': 'Enregistrer la vue actuelle',
+    'library.viewNamePlaceholder': 'Nom de la vue...',
+    'library.viewQuery': 'Filtres, recherche et tri',
+    'library.viewQueryEmpty': '(tous les articles)',
+    'library.updateView': 'Enregistrer les modifications dans « {name} »',
+    'library.deleteView': 'Supprimer la vue',
+
+    // Search query language
+    'search.syntaxHelp': 'Mots et "phrases exactes", ou champs : author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - indicateurs read / favorite, -terme exclut, OR, (groupes). Tab complète.',
+
+    // Library facets
+    'library.matchAny': 'Au moins un',
+    'library.matchAll': 'Tous',
+    'library.matchAnyHint': 'Articles ayant au moins une des valeurs sélectionnées',
+    'library.matchAllHint': 'Articles ayant toutes les valeurs sélectionnées',
+    'library.hideEmptyFacets': 'Masquer les options de filtre sans article',
+
+    // PDF reader
+    'reader.annotations': 'Annotations',
+    'reader.noAnnotations': 'Sélectionnez du texte pour le surligner, ou utilisez 📝 pour épingler une note sur une page.',
+    'reader.highlight': 'Surligner',
+    'reader.highlightWithComment': 'Surligner et commenter',
+    'reader.noteTool': 'Note : cliquez sur la page à l\'endroit où l\'épingler',
+    'reader.bookmarkPage': 'Ajouter un signet à cette page',
+    'reader.removeBookmark': 'Retirer le signet de cette page',
+    'reader.toggleAnnotations': 'Afficher ou masquer les annotations',
+    'reader.page': 'Page {page}',
+    'reader.zoomIn': 'Zoom avant',
+    'reader.zoomOut': 'Zoom arrière',
+    'reader.commentPlaceholder': 'Ajouter un commentaire...',
+    'reader.deleteAnnotation': 'Supprimer l\'annotation',
+    'reader.saveFailed': 'Échec de l\'enregistrement de l\'annotation',
+
+    // Annotation exports
+    'reader.export': 'Exporter les annotations',
+    'reader.exportPdf': 'PDF annoté',
+    'reader.exportMarkdown': 'Synthèse (Markdown)',
+    'reader.exportDocx': 'Synthèse (Word)',
+    'reader.exported': 'Enregistré dans {path}',
+    'reader.exportFailed': 'Échec de l\'export',
+    'settings.noteAnnotations': 'Annotations dans les notes générées',
+    'settings.noteAnnotations.desc': 'Ajouter les surlignages et notes du lecteur PDF à la note Word, groupés par page et par couleur',
+
+    // PDF annotation import
+    'reader.rescan': 'Relire les annotations du PDF',
+    'reader.rescanHint': 'Importer à nouveau les surlignages et notes faits dans d\'autres lecteurs (ceux que vous avez modifiés ou supprimés restent tels quels)',
+    'reader.rescanFailed': 'Impossible de lire les annotations du PDF',
+    'reader.importedHint': 'Importée depuis le fichier PDF',
+
+    // Markdown note fields
+    'markdown.write': 'Écrire',
+    'markdown.preview': 'Aperçu',
+    'markdown.empty': 'Rien à afficher',
+    'markdown.hint': '# Titre, **gras**, *italique*, - liste, `code`, ```bloc de code```, $formule$, [[0042]] lien vers un article',
+    'markdown.missingArticle': 'Aucun article avec cet ID',
+
+    // Relations & citation graph
+    'nav.graph': 'Graphe des citations',
+    'relations.title': 'Articles liés',
+    'relations.none': 'Aucun article lié pour l\'instant',
+    'relations.outgoing.cites': 'Cite',
+    'relations.outgoing.extends': 'Prolonge',
+    'relations.outgoing.contradicts': 'Contredit',
+    'relations.outgoing.replicates': 'Réplique',
+    'relations.incoming.cites': 'Cité par',
+    'relations.incoming.extends': 'Prolongé par',
+    'relations.incoming.contradicts': 'Contredit par',
+    'relations.incoming.replicates': 'Répliqué par',
+    'relations.same-dataset': 'Mêmes données',
+    'relations.searchArticle': 'Rechercher un article par ID, titre ou auteur...',
+    'relations.note': 'Note (facultatif)',
+    'relations.add': 'Ajouter',
+    'relations.addFailed': 'Impossible d\'ajouter la relation',
+    'relations.deleteFailed': 'Impossible de supprimer la relation',
+    'relations.detect': 'Trouver les citations dans le PDF',
+    'relations.detecting': 'Recherche...',
+    'relations.detected': '{count} nouvelle(s) citation(s) trouvée(s)',
+    'relations.noReferenceList': 'Aucune bibliographie trouvée dans le texte du PDF',
+    'relations.detectFailed': 'Échec de la détection des citations',
+    'relations.autoHint': 'Trouvé dans la bibliographie du PDF',
+    'relations.openGraph': 'Ouvrir le graphe des citations',
+    'graph.title': 'Graphe des citations',
+    'graph.description': 'Relations entre les articles de la bibliothèque. Cliquez sur un article pour l\'ouvrir, faites-le glisser pour le déplacer, utilisez la molette pour zoomer.',
+    'graph.detectAll': 'Trouver les citations dans tous les PDF',
+    'graph.detected': '{articles} bibliographie(s) lue(s), {count} nouvelle(s) citation(s)',
+    'graph.loadFailed': 'Impossible de charger le graphe',
+    'graph.wholeLibrary': 'Toute la bibliothèque',
+    'graph.counts': '{articles} articles, {relations} relations',
+    'graph.empty': 'Aucune relation pour l\'instant. Ajoutez-en depuis la page d\'un article, ou cherchez les citations dans les PDF.',
+    'graph.emptyCollection': 'Cette collection ne contient aucun article',
+    'graph.legend': 'Plein : lu · Anneau orange : favori · Pointillés : trouvé dans la bibliographie d\'un PDF',
+    'settings.detectRelations': 'Trouver les citations dans les PDF importés',
+    'settings.detectRelations.desc': 'Comparer la bibliographie de chaque PDF importé aux DOI et aux titres de la bibliothèque',
+
+    // Reference list of the PDF
+    'references.title': 'Références du PDF',
+    'references.summary': '{count} entrées, {matched} dans la bibliothèque',
+    'references.reading': 'Lecture de la bibliographie...',
+    'references.loadFailed': 'Impossible de lire la bibliographie',
+    'references.noPdfText': 'Aucun texte de PDF à lire : ajoutez d\'abord un PDF à cet article',
+    'references.reload': 'Relire',
+    'references.filter.all': 'Toutes',
+    'references.filter.matched': 'Dans la bibliothèque',
+    'references.filter.missing': 'Hors bibliothèque',
+    'references.inLibrary': 'Dans la bibliothèque',
+    'references.notInLibrary': 'Pas encore dans la bibliothèque',
+    'references.matchBy.doi': 'même DOI',
+    'references.matchBy.title': 'même titre',
+    'references.addArticle': 'Ajouter comme nouvel article',
+    'addArticle.fromReference': 'Rempli depuis la bibliographie de l\'article {id}',
+    'addArticle.fromReferenceHint': 'Les champs ont été devinés à partir de l\'entrée ci-dessous : vérifiez-les avant d\'enregistrer.',
+    'addArticle.fromReferenceDoiHint': 'Les champs ont été devinés à partir de l\'entrée ci-dessous : utilisez « Remplir depuis le DOI » pour obtenir les métadonnées enregistrées.',
+
+    // History and Trash
+    'nav.trash': 'Corbeille',
+    'history.title': 'Historique',
+    'history.none': 'Aucune version enregistrée pour l\'instant.',
+    'history.empty': '(vide)',
+    'history.current': 'actuelle',
+    'history.noChanges': 'Aucun champ modifié.',
+    'history.firstRevision': 'Première version enregistrée de l\'article.',
+    'history.restore': 'Restaurer cette version',
+    'history.restoreConfirm': 'Restaurer les champs et listes de l\'article tels qu\'ils étaient le {date} ? La version actuelle reste dans l\'historique.',
+    'history.restoreFailed': 'Échec de la restauration de la version',
+    'history.action.create': 'Créé',
+    'history.action.update': 'Modifié',
+    'history.action.restore': 'Restauré',
+    'history.action.delete': 'Supprimé',
+    'history.action.undelete': 'Récupéré',
+    'history.action.merge': 'Fusionné',
+    'trash.title': 'Corbeille',
+    'trash.description': 'Articles supprimés, avec leurs PDF et notes. Ils peuvent être restaurés tels quels, avec leurs collections, annotations et relations, jusqu\'à la fin de la durée de conservation définie dans les paramètres.',
+    'trash.empty': 'La corbeille est vide.',
+    'trash.open': 'Ouvrir',
+    'trash.restore': 'Restaurer',
+    'trash.restored': 'Article {id} restauré.',
+    'trash.restoreFailed': 'Échec de la restauration de l\'article',
+    'trash.loadFailed': 'Échec du chargement de la corbeille',
+    'trash.deletedAt': 'supprimé le {date}',
+    'trash.pdfKept': 'PDF conservé',
+    'trash.noPdf': 'Pas de PDF',
+    'trash.noteKept': 'Note conservée',
+    'trash.noNote': 'Pas de note',
+
+    // Trash: permanent delete and retention
+    'trash.purge': 'Supprimer définitivement',
+    'trash.purgeConfirm': 'Supprimer définitivement l\'article {id} « {title} », avec son PDF, sa note et son historique ? Cette action est irréversible.',
+    'trash.purged': 'Article {id} supprimé définitivement.',
+    'trash.purgeFailed': 'Échec de la suppression définitive',
+    'trash.empty.button': 'Vider la corbeille',
+    'trash.emptying': 'Vidage...',
+    'trash.emptyConfirm': 'Supprimer définitivement les {count} article(s) de la corbeille, avec leurs PDF, notes et historique ? Cette action est irréversible.',
+    'trash.emptied': '{count} article(s) supprimé(s) définitivement.',
+    'trash.purgeAt': 'supprimé définitivement après le {date}',
+    'settings.trashRetention': 'Conserver les articles supprimés dans la corbeille',
+    'settings.trashRetention.days': '{days} jours',
+    'settings.trashRetention.never': 'Jusqu\'à ce que la corbeille soit vidée',
+    'settings.trashRetention.desc': 'Les articles plus anciens sont supprimés définitivement au démarrage de l\'application.',
+
+    // Backups
+    'backup.title': 'Sauvegardes',
+    'backup.description': 'Des copies de la base de données (et éventuellement des PDF et des notes) sont conservées dans le dossier backups du stockage. Chaque sauvegarde est vérifiée à sa création ; en restaurer une redémarre l\'application.',
+    'backup.schedule': 'Sauvegarde automatique',
+    'backup.schedule.daily': 'Une fois par jour',
+    'backup.schedule.startup': 'À chaque démarrage',
+    'backup.schedule.off': 'Jamais',
+    'backup.keep': 'Sauvegardes conservées',
+    'backup.keep.count': 'Les {count} dernières',
+    'backup.keep.all': 'Toutes',
+    'backup.includeFiles': 'Inclure les PDF et les notes',
+    'backup.includeFiles.desc': 'Sauvegardes plus volumineuses, mais une restauration récupère aussi les fichiers',
+    'backup.create': 'Sauvegarder maintenant',
+    'backup.creating': 'Sauvegarde...',
+    'backup.created': 'Sauvegarde créée ({size})',
+    'backup.createFailed': 'Échec de la sauvegarde',
+    'backup.list': 'Sauvegardes ({count})',
+    'backup.none': 'Aucune sauvegarde',
+    'backup.trigger.manual': 'Manuelle',
+    'backup.trigger.startup': 'Démarrage',
+    'backup.trigger.daily': 'Quotidienne',
+    'backup.trigger.pre-migration': 'Avant mise à jour',
+    'backup.trigger.pre-restore': 'Avant restauration',
+    'backup.details': '{articles} articles · {size}',
+    'backup.withFiles': '{count} fichiers',
+    'backup.verify': 'Vérifier',
+    'backup.verified': 'La sauvegarde est intacte',
+    'backup.verifyFailed': 'La sauvegarde est endommagée',
+    'backup.restore': 'Restaurer',
+    'backup.restoreConfirm': 'Remplacer la bibliothèque par la sauvegarde du {date} ? La bibliothèque actuelle est d\'abord sauvegardée, puis l\'application redémarre.',
+    'backup.restoreConfirmFiles': 'Remplacer la bibliothèque, les PDF et les notes par la sauvegarde du {date} ? La bibliothèque actuelle est d\'abord sauvegardée, puis l\'application redémarre.',
+    'backup.restarting': 'Sauvegarde prête, redémarrage...',
+    'backup.restoreFailed': 'Échec de la restauration',
+    'backup.delete': 'Supprimer la sauvegarde',
+    'backup.deleteConfirm': 'Supprimer la sauvegarde du {date} ?',
+    'backup.deleteFailed': 'Échec de la suppression',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': 'La bibliothèque n\'a pas pu être ouverte',
+    'startup.migrationFailed': 'La mise à jour de la base de données pour cette version de l\'application a échoué. Elle a été annulée : la base de données est telle qu\'avant.',
+    'startup.openFailed': 'La base de données n\'a pas pu être ouverte ou mise à jour : l\'application n\'a pas été lancée pour ne pas endommager votre bibliothèque.',
+    'startup.backupAdvice': 'La base de données a été sauvegardée juste avant la mise à jour. Réessayez avec la dernière version de l\'application, ou remplacez le fichier de la base de données par le {file} du dossier de la sauvegarde.',
+    'startup.noBackupAdvice': 'Réessayez avec la dernière version de l\'application. Les sauvegardes automatiques se trouvent dans le dossier des sauvegardes.',
+    'startup.migration': 'Migration',
+    'startup.error': 'Erreur',
+    'startup.database': 'Base de données',
+    'startup.backup': 'Sauvegarde',
+    'startup.openBackups': 'Ouvrir le dossier des sauvegardes',
+    'startup.quit': 'Quitter',
   },
 
   es: {
@@ -826,7 +1624,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': 'Copiando archivos al almacenamiento externo...',
     'storage.copyFailed': 'Error en la copia',
     'storage.copyConfirm': 'Esto copiará todos los PDFs y Notas existentes a:\n{path}\n\n¿Continuar?',
-    'importExport.selectCsvFile': 'Por favor, seleccione un archivo CSV',
 
     // File Migration
     'migration.title': 'Migración de archivos',
@@ -846,10 +1643,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': 'Exportando...',
     'importExport.import': 'Importar datos',
     'importExport.importing': 'Importando...',
-    'importExport.selectFile': 'Haga clic para seleccionar archivo CSV',
     'importExport.csvFormat': 'Formato CSV: La primera fila debe contener los encabezados. Use punto y coma (;) para separar valores múltiples.',
     'importExport.viewColumns': 'Ver nombres de columnas para importación CSV',
-    'importExport.analysis': 'Análisis CSV',
+    'importExport.analysis': 'Análisis de importación',
     'importExport.total': 'Total de artículos encontrados:',
     'importExport.toImport': 'A importar:',
     'importExport.duplicates': 'Duplicados:',
@@ -935,9 +1731,410 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': 'No favorito',
     'preview.delete': 'Eliminar',
     'preview.deleteTitle': 'Eliminar artículo',
-    'preview.deleteWarning': '¿Está seguro de que desea eliminar este artículo? Esta acción es permanente e irreversible.',
+    'preview.deleteWarning': '¿Está seguro de que desea eliminar este artículo? Se moverá a la papelera con su PDF y su nota, desde donde podrá restaurarse.',
     'preview.typeIdToConfirm': 'Para confirmar la eliminación, escriba el ID del artículo:',
     'preview.typeIdPlaceholder': 'Escriba el ID del artículo aquí',
+
+    // Full library JSON export/import
+    'libraryJson.title': 'Biblioteca completa (JSON)',
+    'libraryJson.description': 'Copia completa de la biblioteca: cada artículo con su ID, autores, palabras clave, temas, etiquetas, universidades, empresas, colecciones, vistas guardadas, anotaciones, relaciones, historial, texto extraído de los PDF, ajustes y contador de ID. Los PDF y notas no se incluyen.',
+    'libraryJson.exportBtn': 'Exportar biblioteca como JSON',
+    'libraryJson.importBtn': 'Importar JSON de biblioteca...',
+    'libraryJson.modeMerge': 'Combinar',
+    'libraryJson.modeReplace': 'Reemplazar',
+    'libraryJson.modeMergeHelp': 'Combinar: conserva la biblioteca actual y añade los artículos cuyo ID aún no está en uso.',
+    'libraryJson.modeReplaceHelp': 'Reemplazar: elimina la biblioteca actual y restaura el archivo tal cual, ajustes incluidos.',
+    'libraryJson.report': 'Informe de importación (simulación)',
+    'libraryJson.mode': 'Modo:',
+    'libraryJson.exportedAt': 'Exportado el:',
+    'libraryJson.skippedIds': 'IDs ya en uso (omitidos):',
+    'libraryJson.entityCounts': '{created} nuevos, {matched} existentes',
+    'libraryJson.relations': 'Vínculos restaurados:',
+    'libraryJson.nextId': 'Siguiente ID de artículo:',
+    'libraryJson.replaceWarning': 'Todos los artículos actuales y sus vínculos se eliminarán antes de importar.',
+    'libraryJson.exportSuccess': '¡{count} artículos exportados a JSON!',
+    'libraryJson.exportError': 'Error al exportar JSON',
+    'libraryJson.importSuccess': '¡Importación de la biblioteca completada! {count} artículos importados',
+    'libraryJson.importError': 'Error al importar JSON',
+
+    // Full-text search
+    'library.pdfText': 'Texto completo del PDF',
+    'library.pdfPage': 'PDF p. {page}',
+
+    // Bibliographic formats
+    'importExport.exportFormat': 'Exportar {format}',
+    'importExport.selectAnyFile': 'Haga clic para seleccionar un archivo ({formats})',
+    'importExport.unsupportedFile': 'Tipo de archivo no compatible. Compatibles: {formats}',
+    'importExport.unreadable': 'No se pudieron leer {count} entradas',
+    'library.exportSelection': 'Exportar {format} ({count})',
+    'library.exportSelectionHint': 'Exportar los artículos marcados, o todos los filtrados si no hay ninguno marcado',
+    'article.exportFormat': 'Exportar {format}',
+
+    // Citations & bibliography
+    'article.citation': 'Cita',
+    'article.copyCitation': 'Copiar cita',
+    'article.citationCopied': 'Copiada',
+    'article.copyCitationFailed': 'No se pudo copiar la cita',
+    'library.bibliography': 'Bibliografía ({count})',
+    'library.bibliographyTitle': 'Generar bibliografía',
+    'library.bibliographyDescription': 'Lista de referencias de los {count} artículos mostrados (filtros aplicados).',
+    'library.citationStyle': 'Estilo de cita',
+    'library.bibliographyFormat': 'Formato de archivo',
+    'library.bibliographyFormat.text': 'Texto plano',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': 'Generar',
+    'library.generating': 'Generando...',
+    'library.bibliographyFailed': 'Error al generar la bibliografía',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': 'Leyendo los metadatos del PDF...',
+    'addArticle.suggestions': 'Valores sugeridos',
+    'addArticle.suggestionsHint': 'Encontrados en el PDF o mediante la búsqueda del DOI. Revise cada valor antes de aceptarlo.',
+    'addArticle.acceptAll': 'Aceptar todo',
+    'addArticle.rejectAll': 'Rechazar todo',
+    'addArticle.accept': 'Aceptar',
+    'addArticle.reject': 'Rechazar',
+    'addArticle.replaces': 'Reemplaza: {value}',
+    'addArticle.confidenceHigh': 'Alta',
+    'addArticle.confidenceMedium': 'Media',
+    'addArticle.confidenceLow': 'Baja',
+    'addArticle.source.xmp': 'Metadatos del editor (XMP)',
+    'addArticle.source.info': 'Propiedades del documento',
+    'addArticle.source.text': 'Texto de la primera página',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': 'Completar desde el DOI',
+    'addArticle.fillFromDoiHint': 'Buscar el DOI o el ID de arXiv en Crossref y DataCite',
+    'addArticle.fillingFromDoi': 'Buscando...',
+    'addArticle.doiLookupFailed': 'Error al buscar el DOI',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': 'Actualizar metadatos ({count})',
+    'library.refreshMetadataHint': 'Buscar el DOI de cada artículo mostrado y revisar las diferencias',
+    'library.refreshMetadataTitle': 'Actualizar metadatos',
+    'library.refreshMetadataProgress': 'Buscando {done} de {total} artículos...',
+    'library.refreshMetadataDone': '{count} artículos buscados, {changed} con diferencias o errores. Desmarque los cambios que no quiera.',
+    'library.refreshMetadataFailed': 'Error al aplicar los cambios de metadatos',
+    'library.applyChanges': 'Aplicar {count} cambio(s)',
+    'library.applying': 'Aplicando...',
+    'metadataLookup.title': 'Búsqueda de metadatos',
+    'metadataLookup.description': 'Los DOI e ID de arXiv se buscan primero en Crossref y después en DataCite. Cambie las URL para usar un espejo o un servidor local.',
+    'metadataLookup.crossrefUrl': 'URL de la API de Crossref',
+    'metadataLookup.dataciteUrl': 'URL de la API de DataCite',
+    'metadataLookup.localServerHint': 'Sin conexión: ejecute "npm run metadata-server" y use http://localhost:4500 para ambas.',
+    'metadataLookup.save': 'Guardar ajustes de búsqueda',
+    'metadataLookup.reset': 'Restablecer valores',
+    'metadataLookup.saved': '¡Ajustes de búsqueda guardados!',
+
+    // Duplicates
+    'nav.duplicates': 'Duplicados',
+    'duplicates.title': 'Duplicados',
+    'duplicates.description': 'Artículos con el mismo DOI, o un título similar y autores en común (p. ej. un preprint y su versión publicada).',
+    'duplicates.scan': 'Volver a analizar',
+    'duplicates.scanning': 'Analizando...',
+    'duplicates.scanFailed': 'Error al buscar duplicados',
+    'duplicates.none': 'No se encontraron duplicados',
+    'duplicates.review': 'Revisar y fusionar',
+    'duplicates.reason.doi': 'Mismo DOI',
+    'duplicates.reason.title': 'Título similar',
+    'duplicates.reason.authors': 'Autores en común',
+    'duplicates.mergeTitle': 'Fusionar duplicados',
+    'duplicates.mergeDescription': 'Elija el valor que desea conservar en cada campo distinto. #{retire} se eliminará y su ID abrirá #{keep}.',
+    'duplicates.keep': 'Conservar #{id}',
+    'duplicates.noPdf': 'Sin PDF',
+    'duplicates.identicalFields': '{count} campos idénticos no mostrados',
+    'duplicates.unionHint': 'Se conservan las relaciones de ambos artículos:',
+    'duplicates.merge': 'Fusionar #{retire} en #{keep}',
+    'duplicates.merging': 'Fusionando...',
+    'duplicates.mergeFailed': 'Error al fusionar',
+    'duplicates.pdfAnnotationsHint': 'Las anotaciones siguen al PDF conservado: las hechas en el otro PDF se eliminan.',
+
+    // Manage taxonomy
+    'nav.taxonomy': 'Taxonomía',
+    'taxonomy.title': 'Gestionar taxonomía',
+    'taxonomy.description': 'Limpie las variantes de escritura: renombre, fusione entradas y elimine las que no se usan. Los alias son otras formas de escribir que se vinculan a una entrada al añadir o importar artículos.',
+    'taxonomy.filter': 'Filtrar por nombre o alias...',
+    'taxonomy.unusedOnly': 'Solo sin usar',
+    'taxonomy.mergeSelected': 'Fusionar selección ({count})',
+    'taxonomy.deleteUnused': 'Eliminar sin usar ({count})',
+    'taxonomy.usage': 'Artículos',
+    'taxonomy.aliases': 'Alias',
+    'taxonomy.addAlias': '+ alias',
+    'taxonomy.rename': 'Renombrar',
+    'taxonomy.empty': 'Sin entradas',
+    'taxonomy.renamed': 'Renombrado',
+    'taxonomy.merged': '{count} entradas fusionadas',
+    'taxonomy.deleted': '{count} entradas sin usar eliminadas',
+    'taxonomy.mergeTitle': 'Fusionar entradas',
+    'taxonomy.mergeDescription': 'Se conserva esta entrada. Las demás se eliminan, sus artículos se vinculan a ella y sus nombres pasan a ser alias.',
+    'taxonomy.merge': 'Fusionar',
+    'taxonomy.deleteUnusedTitle': 'Eliminar entradas sin usar',
+    'taxonomy.deleteUnusedConfirm': '¿Eliminar {count} entradas que ningún artículo usa? Sus alias también se eliminan.',
+
+    // Library bulk actions
+    'library.bulkSelected': '{count} seleccionado(s)',
+    'library.bulkSelectAll': 'Seleccionar todos los artículos mostrados',
+    'library.bulkEditRelations': 'Etiquetas / palabras clave / temas',
+    'library.bulkMode.add': 'Añadir',
+    'library.bulkMode.remove': 'Quitar',
+    'library.bulkRelationPlaceholder': 'Nombres, separados por comas',
+    'library.bulkMarkRead': 'Marcar leído',
+    'library.bulkMarkUnread': 'Marcar no leído',
+    'library.bulkFavorite': 'Favorito',
+    'library.bulkUnfavorite': 'Quitar de favoritos',
+    'library.bulkSetRating': 'Definir valoración…',
+    'library.bulkRegenerateNotes': 'Regenerar notas',
+    'library.bulkWorking': 'Procesando...',
+    'library.bulkClear': 'Borrar selección',
+    'library.bulkFailed': 'Error en la edición masiva',
+    'library.bulkNotesFailed': 'No se pudieron generar {count} nota(s)',
+    'library.bulkDeleteTitle': 'Eliminar artículos',
+    'library.bulkDeleteConfirm': '¿Eliminar {count} artículo(s)? Se moverán a la papelera con sus PDF y notas.',
+    'library.bulkDeleteButton': 'Eliminar {count} artículo(s)',
+
+    // Collections
+    'nav.collections': 'Colecciones',
+    'collections.title': 'Colecciones',
+    'collections.description': 'Listas de lectura con nombre y orden (un capítulo de tesis, una revisión...). Las colecciones se pueden anidar y aparecen en la barra lateral.',
+    'collections.newPlaceholder': 'Nombre de la nueva colección',
+    'collections.createInside': '➕ Crear dentro de "{name}"',
+    'collections.empty': 'Aún no hay colecciones',
+    'collections.selectHint': 'Seleccione o cree una colección',
+    'collections.moveUp': 'Subir',
+    'collections.moveDown': 'Bajar',
+    'collections.indent': 'Anidar',
+    'collections.indentHint': 'Mover dentro de la colección de arriba',
+    'collections.outdent': 'Desanidar',
+    'collections.outdentHint': 'Sacar de la colección padre',
+    'collections.showInLibrary': 'Mostrar en la biblioteca',
+    'collections.descriptionPlaceholder': 'Descripción (opcional)',
+    'collections.exportHint': 'Exportar una carpeta con los PDF, las notas y una bibliografía (subcolecciones incluidas)',
+    'collections.export': 'Exportar paquete',
+    'collections.exporting': 'Exportando...',
+    'collections.exported': '{count} artículo(s) exportado(s) ({pdfs} PDF, {notes} notas) a {path}',
+    'collections.addPlaceholder': 'Añadir un artículo: buscar por ID, título o autor',
+    'collections.articles': 'Artículos ({count})',
+    'collections.noArticles': 'Aún no hay artículos en esta colección',
+    'collections.removeArticle': 'Quitar de la colección',
+    'collections.deleteTitle': 'Eliminar colección',
+    'collections.deleteConfirm': '¿Eliminar la colección "{name}"? Sus artículos permanecen en la biblioteca y sus subcolecciones suben un nivel.',
+    'library.collectionFilter': 'Colección: {name}',
+    'library.manageCollection': 'Gestionar',
+    'library.showAllArticles': 'Mostrar todos los artículos',
+    'library.bulkAddToCollection': 'Añadir a colección…',
+
+    // Saved views
+    'nav.savedViews': 'Vistas guardadas',
+    'library.saveView': 'Guardar vista',
+    'library.saveViewTitle': 'Guardar la vista actual',
+    'library.viewNamePlaceholder': 'Nombre de la vista...',
+    'library.viewQuery': 'Filtros, búsqueda y orden',
+    'library.viewQueryEmpty': '(todos los artículos)',
+    'library.updateView': 'Guardar cambios en "{name}"',
+    'library.deleteView': 'Eliminar vista',
+
+    // Search query language
+    'search.syntaxHelp': 'Palabras y "frases exactas", o campos: author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - indicadores read / favorite, -término excluye, OR, (grupos). Tab completa.',
+
+    // Library facets
+    'library.matchAny': 'Alguno',
+    'library.matchAll': 'Todos',
+    'library.matchAnyHint': 'Artículos con alguno de los valores seleccionados',
+    'library.matchAllHint': 'Artículos con todos los valores seleccionados',
+    'library.hideEmptyFacets': 'Ocultar las opciones de filtro sin artículos',
+
+    // PDF reader
+    'reader.annotations': 'Anotaciones',
+    'reader.noAnnotations': 'Selecciona texto para resaltarlo, o usa 📝 para fijar una nota en una página.',
+    'reader.highlight': 'Resaltar',
+    'reader.highlightWithComment': 'Resaltar y comentar',
+    'reader.noteTool': 'Nota: haz clic en la página donde fijarla',
+    'reader.bookmarkPage': 'Marcar esta página',
+    'reader.removeBookmark': 'Quitar el marcador de esta página',
+    'reader.toggleAnnotations': 'Mostrar u ocultar las anotaciones',
+    'reader.page': 'Página {page}',
+    'reader.zoomIn': 'Acercar',
+    'reader.zoomOut': 'Alejar',
+    'reader.commentPlaceholder': 'Añadir un comentario...',
+    'reader.deleteAnnotation': 'Eliminar la anotación',
+    'reader.saveFailed': 'No se pudo guardar la anotación',
+
+    // Annotation exports
+    'reader.export': 'Exportar anotaciones',
+    'reader.exportPdf': 'PDF anotado',
+    'reader.exportMarkdown': 'Resumen (Markdown)',
+    'reader.exportDocx': 'Resumen (Word)',
+    'reader.exported': 'Guardado en {path}',
+    'reader.exportFailed': 'Error al exportar',
+    'settings.noteAnnotations': 'Anotaciones en las notas generadas',
+    'settings.noteAnnotations.desc': 'Añadir los resaltados y notas del lector PDF a la nota Word, agrupados por página y color',
+
+    // PDF annotation import
+    'reader.rescan': 'Volver a leer las anotaciones del PDF',
+    'reader.rescanHint': 'Importar de nuevo los resaltados y notas hechos en otros lectores (los que editó o eliminó se quedan como están)',
+    'reader.rescanFailed': 'No se pudieron leer las anotaciones del PDF',
+    'reader.importedHint': 'Importada del archivo PDF',
+
+    // Markdown note fields
+    'markdown.write': 'Escribir',
+    'markdown.preview': 'Vista previa',
+    'markdown.empty': 'Nada que mostrar',
+    'markdown.hint': '# Título, **negrita**, *cursiva*, - lista, `código`, ```bloque de código```, $fórmula$, [[0042]] enlace a un artículo',
+    'markdown.missingArticle': 'Ningún artículo con este ID',
+
+    // Relations & citation graph
+    'nav.graph': 'Grafo de citas',
+    'relations.title': 'Artículos relacionados',
+    'relations.none': 'Aún no hay artículos relacionados',
+    'relations.outgoing.cites': 'Cita',
+    'relations.outgoing.extends': 'Amplía',
+    'relations.outgoing.contradicts': 'Contradice',
+    'relations.outgoing.replicates': 'Replica',
+    'relations.incoming.cites': 'Citado por',
+    'relations.incoming.extends': 'Ampliado por',
+    'relations.incoming.contradicts': 'Contradicho por',
+    'relations.incoming.replicates': 'Replicado por',
+    'relations.same-dataset': 'Mismos datos',
+    'relations.searchArticle': 'Buscar un artículo por ID, título o autor...',
+    'relations.note': 'Nota (opcional)',
+    'relations.add': 'Añadir',
+    'relations.addFailed': 'No se pudo añadir la relación',
+    'relations.deleteFailed': 'No se pudo eliminar la relación',
+    'relations.detect': 'Buscar citas en el PDF',
+    'relations.detecting': 'Buscando...',
+    'relations.detected': '{count} cita(s) nueva(s) encontrada(s)',
+    'relations.noReferenceList': 'No se encontró una lista de referencias en el texto del PDF',
+    'relations.detectFailed': 'Falló la detección de citas',
+    'relations.autoHint': 'Encontrado en la lista de referencias del PDF',
+    'relations.openGraph': 'Abrir el grafo de citas',
+    'graph.title': 'Grafo de citas',
+    'graph.description': 'Relaciones entre los artículos de la biblioteca. Haga clic en un artículo para abrirlo, arrástrelo para moverlo, use la rueda para hacer zoom.',
+    'graph.detectAll': 'Buscar citas en todos los PDF',
+    'graph.detected': '{articles} lista(s) de referencias leída(s), {count} cita(s) nueva(s)',
+    'graph.loadFailed': 'No se pudo cargar el grafo',
+    'graph.wholeLibrary': 'Toda la biblioteca',
+    'graph.counts': '{articles} artículos, {relations} relaciones',
+    'graph.empty': 'Aún no hay relaciones. Añádalas desde la página de un artículo o busque citas en los PDF.',
+    'graph.emptyCollection': 'Esta colección no tiene artículos',
+    'graph.legend': 'Relleno: leído · Anillo naranja: favorito · Discontinuo: encontrado en la lista de referencias de un PDF',
+    'settings.detectRelations': 'Buscar citas en los PDF subidos',
+    'settings.detectRelations.desc': 'Comparar la lista de referencias de cada PDF subido con los DOI y títulos de la biblioteca',
+
+    // Reference list of the PDF
+    'references.title': 'Referencias del PDF',
+    'references.summary': '{count} entradas, {matched} en la biblioteca',
+    'references.reading': 'Leyendo la lista de referencias...',
+    'references.loadFailed': 'No se pudo leer la lista de referencias',
+    'references.noPdfText': 'No hay texto de PDF para leer: primero añada un PDF a este artículo',
+    'references.reload': 'Volver a leer',
+    'references.filter.all': 'Todas',
+    'references.filter.matched': 'En la biblioteca',
+    'references.filter.missing': 'Fuera de la biblioteca',
+    'references.inLibrary': 'En la biblioteca',
+    'references.notInLibrary': 'Aún no está en la biblioteca',
+    'references.matchBy.doi': 'mismo DOI',
+    'references.matchBy.title': 'mismo título',
+    'references.addArticle': 'Añadir como artículo nuevo',
+    'addArticle.fromReference': 'Completado desde la lista de referencias del artículo {id}',
+    'addArticle.fromReferenceHint': 'Los campos se dedujeron de la entrada siguiente: revíselos antes de guardar.',
+    'addArticle.fromReferenceDoiHint': 'Los campos se dedujeron de la entrada siguiente: use "Completar desde el DOI" para obtener los metadatos registrados.',
+
+    // History and Trash
+    'nav.trash': 'Papelera',
+    'history.title': 'Historial',
+    'history.none': 'Aún no hay versiones registradas.',
+    'history.empty': '(vacío)',
+    'history.current': 'actual',
+    'history.noChanges': 'Ningún campo modificado.',
+    'history.firstRevision': 'Primera versión registrada del artículo.',
+    'history.restore': 'Restaurar esta versión',
+    'history.restoreConfirm': '¿Restaurar los campos y listas del artículo tal como estaban el {date}? La versión actual permanece en el historial.',
+    'history.restoreFailed': 'Error al restaurar la versión',
+    'history.action.create': 'Creado',
+    'history.action.update': 'Editado',
+    'history.action.restore': 'Restaurado',
+    'history.action.delete': 'Eliminado',
+    'history.action.undelete': 'Recuperado',
+    'history.action.merge': 'Fusionado',
+    'trash.title': 'Papelera',
+    'trash.description': 'Artículos eliminados, con sus PDF y notas. Pueden restaurarse tal como estaban, con sus colecciones, anotaciones y relaciones, hasta que termine el periodo de conservación definido en Configuración.',
+    'trash.empty': 'La papelera está vacía.',
+    'trash.open': 'Abrir',
+    'trash.restore': 'Restaurar',
+    'trash.restored': 'Artículo {id} restaurado.',
+    'trash.restoreFailed': 'Error al restaurar el artículo',
+    'trash.loadFailed': 'Error al cargar la papelera',
+    'trash.deletedAt': 'eliminado el {date}',
+    'trash.pdfKept': 'PDF conservado',
+    'trash.noPdf': 'Sin PDF',
+    'trash.noteKept': 'Nota conservada',
+    'trash.noNote': 'Sin nota',
+
+    // Trash: permanent delete and retention
+    'trash.purge': 'Eliminar definitivamente',
+    'trash.purgeConfirm': '¿Eliminar definitivamente el artículo {id} "{title}", con su PDF, nota e historial? Esta acción no se puede deshacer.',
+    'trash.purged': 'Artículo {id} eliminado definitivamente.',
+    'trash.purgeFailed': 'Error al eliminar definitivamente',
+    'trash.empty.button': 'Vaciar papelera',
+    'trash.emptying': 'Vaciando...',
+    'trash.emptyConfirm': '¿Eliminar definitivamente los {count} artículo(s) de la papelera, con sus PDF, notas e historial? Esta acción no se puede deshacer.',
+    'trash.emptied': '{count} artículo(s) eliminado(s) definitivamente.',
+    'trash.purgeAt': 'se eliminará definitivamente después del {date}',
+    'settings.trashRetention': 'Conservar los artículos eliminados en la papelera',
+    'settings.trashRetention.days': '{days} días',
+    'settings.trashRetention.never': 'Hasta vaciar la papelera',
+    'settings.trashRetention.desc': 'Los artículos más antiguos se eliminan definitivamente al iniciar la aplicación.',
+
+    // Backups
+    'backup.title': 'Copias de seguridad',
+    'backup.description': 'Se guardan copias de la base de datos (y opcionalmente de los PDF y las notas) en la carpeta backups del almacenamiento. Cada copia se verifica al crearla; restaurar una reinicia la aplicación.',
+    'backup.schedule': 'Copia automática',
+    'backup.schedule.daily': 'Una vez al día',
+    'backup.schedule.startup': 'En cada inicio',
+    'backup.schedule.off': 'Nunca',
+    'backup.keep': 'Copias conservadas',
+    'backup.keep.count': 'Las últimas {count}',
+    'backup.keep.all': 'Todas',
+    'backup.includeFiles': 'Incluir PDF y notas',
+    'backup.includeFiles.desc': 'Copias más grandes, pero al restaurar también se recuperan los archivos',
+    'backup.create': 'Crear copia ahora',
+    'backup.creating': 'Creando copia...',
+    'backup.created': 'Copia creada ({size})',
+    'backup.createFailed': 'Error al crear la copia',
+    'backup.list': 'Copias de seguridad ({count})',
+    'backup.none': 'Aún no hay copias',
+    'backup.trigger.manual': 'Manual',
+    'backup.trigger.startup': 'Inicio',
+    'backup.trigger.daily': 'Diaria',
+    'backup.trigger.pre-migration': 'Antes de actualizar',
+    'backup.trigger.pre-restore': 'Antes de restaurar',
+    'backup.details': '{articles} artículos · {size}',
+    'backup.withFiles': '{count} archivos',
+    'backup.verify': 'Verificar',
+    'backup.verified': 'La copia está intacta',
+    'backup.verifyFailed': 'La copia está dañada',
+    'backup.restore': 'Restaurar',
+    'backup.restoreConfirm': '¿Reemplazar la biblioteca por la copia del {date}? Primero se guarda la biblioteca actual y luego la aplicación se reinicia.',
+    'backup.restoreConfirmFiles': '¿Reemplazar la biblioteca, los PDF y las notas por la copia del {date}? Primero se guarda la biblioteca actual y luego la aplicación se reinicia.',
+    'backup.restarting': 'Copia lista, reiniciando...',
+    'backup.restoreFailed': 'Error al restaurar',
+    'backup.delete': 'Eliminar copia',
+    'backup.deleteConfirm': '¿Eliminar la copia del {date}?',
+    'backup.deleteFailed': 'Error al eliminar',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': 'No se pudo abrir la biblioteca',
+    'startup.migrationFailed': 'La actualización de la base de datos a esta versión de la aplicación falló. Se deshizo, así que la base de datos está como antes.',
+    'startup.openFailed': 'No se pudo abrir ni actualizar la base de datos, así que la aplicación no se inició para no dañar su biblioteca.',
+    'startup.backupAdvice': 'Se hizo una copia de seguridad de la base de datos justo antes de la actualización. Vuelva a intentarlo con la última versión de la aplicación, o sustituya el archivo de la base de datos por el {file} de la carpeta de la copia.',
+    'startup.noBackupAdvice': 'Vuelva a intentarlo con la última versión de la aplicación. Las copias de seguridad automáticas están en la carpeta de copias.',
+    'startup.migration': 'Migración',
+    'startup.error': 'Error',
+    'startup.database': 'Base de datos',
+    'startup.backup': 'Copia de seguridad',
+    'startup.openBackups': 'Abrir la carpeta de copias',
+    'startup.quit': 'Salir',
   },
 
   zh: {
@@ -1138,7 +2335,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': '正在复制文件到外部存储...',
     'storage.copyFailed': '复制失败',
     'storage.copyConfirm': '这将把所有现有的PDF和笔记复制到：\n{path}\n\n继续？',
-    'importExport.selectCsvFile': '请选择CSV文件',
 
     // File Migration
     'migration.title': '文件迁移',
@@ -1158,10 +2354,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': '导出中...',
     'importExport.import': '导入数据',
     'importExport.importing': '导入中...',
-    'importExport.selectFile': '点击选择CSV文件',
     'importExport.csvFormat': 'CSV格式：第一行必须包含列标题。使用分号（;）分隔多个值。',
     'importExport.viewColumns': '查看CSV导入的列名',
-    'importExport.analysis': 'CSV分析',
+    'importExport.analysis': '导入分析',
     'importExport.total': '找到的文章总数：',
     'importExport.toImport': '待导入：',
     'importExport.duplicates': '重复：',
@@ -1247,9 +2442,410 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': '取消收藏',
     'preview.delete': '删除',
     'preview.deleteTitle': '删除文章',
-    'preview.deleteWarning': '确定要删除此文章吗？此操作不可逆。',
+    'preview.deleteWarning': '确定要删除此文章吗？它将连同 PDF 和笔记一起移至回收站，可从回收站恢复。',
     'preview.typeIdToConfirm': '请在下方输入文章ID以确认删除：',
     'preview.typeIdPlaceholder': '在此输入文章ID',
+
+    // Full library JSON export/import
+    'libraryJson.title': '完整文献库 (JSON)',
+    'libraryJson.description': '文献库的完整副本：每篇文章及其 ID、作者、关键词、主题、标签、大学、公司、收藏集、已保存视图、批注、关联、历史记录、提取的 PDF 文本、设置和 ID 计数器。不包含 PDF 和笔记。',
+    'libraryJson.exportBtn': '导出文献库为 JSON',
+    'libraryJson.importBtn': '导入文献库 JSON...',
+    'libraryJson.modeMerge': '合并',
+    'libraryJson.modeReplace': '替换',
+    'libraryJson.modeMergeHelp': '合并：保留当前文献库，并添加 ID 尚未使用的文章。',
+    'libraryJson.modeReplaceHelp': '替换：删除当前文献库，并按原样恢复文件（包括设置）。',
+    'libraryJson.report': '导入报告（试运行）',
+    'libraryJson.mode': '模式：',
+    'libraryJson.exportedAt': '导出时间：',
+    'libraryJson.skippedIds': '已被占用的 ID（已跳过）：',
+    'libraryJson.entityCounts': '{created} 个新建，{matched} 个已存在',
+    'libraryJson.relations': '已恢复的关联：',
+    'libraryJson.nextId': '下一个文章 ID：',
+    'libraryJson.replaceWarning': '导入前将删除所有当前文章及其关联。',
+    'libraryJson.exportSuccess': '已导出 {count} 篇文章到 JSON！',
+    'libraryJson.exportError': 'JSON 导出失败',
+    'libraryJson.importSuccess': '文献库导入完成！已导入 {count} 篇文章',
+    'libraryJson.importError': 'JSON 导入失败',
+
+    // Full-text search
+    'library.pdfText': 'PDF 全文',
+    'library.pdfPage': 'PDF 第 {page} 页',
+
+    // Bibliographic formats
+    'importExport.exportFormat': '导出 {format}',
+    'importExport.selectAnyFile': '点击选择文件 ({formats})',
+    'importExport.unsupportedFile': '不支持的文件类型。支持：{formats}',
+    'importExport.unreadable': '{count} 个条目无法读取',
+    'library.exportSelection': '导出 {format} ({count})',
+    'library.exportSelectionHint': '导出勾选的文章；未勾选时导出所有筛选后的文章',
+    'article.exportFormat': '导出 {format}',
+
+    // Citations & bibliography
+    'article.citation': '引用',
+    'article.copyCitation': '复制引用',
+    'article.citationCopied': '已复制',
+    'article.copyCitationFailed': '复制引用失败',
+    'library.bibliography': '参考文献 ({count})',
+    'library.bibliographyTitle': '生成参考文献',
+    'library.bibliographyDescription': '当前显示的 {count} 篇文章的参考文献列表（已应用筛选）。',
+    'library.citationStyle': '引用格式',
+    'library.bibliographyFormat': '文件格式',
+    'library.bibliographyFormat.text': '纯文本',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': '生成',
+    'library.generating': '生成中...',
+    'library.bibliographyFailed': '生成参考文献失败',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': '正在读取 PDF 元数据...',
+    'addArticle.suggestions': '建议值',
+    'addArticle.suggestionsHint': '从 PDF 或 DOI 查询中找到。接受前请核对每个值。',
+    'addArticle.acceptAll': '全部接受',
+    'addArticle.rejectAll': '全部拒绝',
+    'addArticle.accept': '接受',
+    'addArticle.reject': '拒绝',
+    'addArticle.replaces': '将替换：{value}',
+    'addArticle.confidenceHigh': '高',
+    'addArticle.confidenceMedium': '中',
+    'addArticle.confidenceLow': '低',
+    'addArticle.source.xmp': '出版商元数据 (XMP)',
+    'addArticle.source.info': '文档属性',
+    'addArticle.source.text': '首页文本',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': '从 DOI 填写',
+    'addArticle.fillFromDoiHint': '在 Crossref 和 DataCite 上查询 DOI 或 arXiv ID',
+    'addArticle.fillingFromDoi': '查询中...',
+    'addArticle.doiLookupFailed': 'DOI 查询失败',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': '刷新元数据 ({count})',
+    'library.refreshMetadataHint': '查询所显示的每篇文章的 DOI 并检查差异',
+    'library.refreshMetadataTitle': '刷新元数据',
+    'library.refreshMetadataProgress': '正在查询第 {done} / {total} 篇文章...',
+    'library.refreshMetadataDone': '已查询 {count} 篇文章，其中 {changed} 篇有差异或错误。取消勾选不需要的更改。',
+    'library.refreshMetadataFailed': '应用元数据更改失败',
+    'library.applyChanges': '应用 {count} 项更改',
+    'library.applying': '正在应用...',
+    'metadataLookup.title': '元数据查询',
+    'metadataLookup.description': 'DOI 和 arXiv ID 先在 Crossref 上查询，然后在 DataCite 上查询。修改 URL 可使用镜像或本地服务器。',
+    'metadataLookup.crossrefUrl': 'Crossref API 地址',
+    'metadataLookup.dataciteUrl': 'DataCite API 地址',
+    'metadataLookup.localServerHint': '离线：运行 "npm run metadata-server"，两者都使用 http://localhost:4500。',
+    'metadataLookup.save': '保存查询设置',
+    'metadataLookup.reset': '恢复默认',
+    'metadataLookup.saved': '查询设置已保存！',
+
+    // Duplicates
+    'nav.duplicates': '重复项',
+    'duplicates.title': '重复项',
+    'duplicates.description': 'DOI 相同，或标题相近且作者相同的文章（例如预印本及其正式发表版本）。',
+    'duplicates.scan': '重新扫描',
+    'duplicates.scanning': '扫描中...',
+    'duplicates.scanFailed': '查找重复项失败',
+    'duplicates.none': '未发现重复项',
+    'duplicates.review': '检查并合并',
+    'duplicates.reason.doi': 'DOI 相同',
+    'duplicates.reason.title': '标题相近',
+    'duplicates.reason.authors': '作者相同',
+    'duplicates.mergeTitle': '合并重复项',
+    'duplicates.mergeDescription': '为每个不同的字段选择要保留的值。#{retire} 将被删除，其 ID 将打开 #{keep}。',
+    'duplicates.keep': '保留 #{id}',
+    'duplicates.noPdf': '无 PDF',
+    'duplicates.identicalFields': '未显示 {count} 个相同字段',
+    'duplicates.unionHint': '两篇文章的关联都会保留：',
+    'duplicates.merge': '将 #{retire} 合并到 #{keep}',
+    'duplicates.merging': '合并中...',
+    'duplicates.mergeFailed': '合并失败',
+    'duplicates.pdfAnnotationsHint': '批注随保留的 PDF 一起保留：另一个 PDF 上的批注将被删除。',
+
+    // Manage taxonomy
+    'nav.taxonomy': '分类管理',
+    'taxonomy.title': '管理分类',
+    'taxonomy.description': '清理拼写变体：重命名、合并条目、删除未使用的条目。别名是添加或导入文章时关联到某个条目的其他写法。',
+    'taxonomy.filter': '按名称或别名筛选...',
+    'taxonomy.unusedOnly': '仅未使用',
+    'taxonomy.mergeSelected': '合并所选 ({count})',
+    'taxonomy.deleteUnused': '删除未使用 ({count})',
+    'taxonomy.usage': '文章',
+    'taxonomy.aliases': '别名',
+    'taxonomy.addAlias': '+ 别名',
+    'taxonomy.rename': '重命名',
+    'taxonomy.empty': '没有条目',
+    'taxonomy.renamed': '已重命名',
+    'taxonomy.merged': '已合并 {count} 个条目',
+    'taxonomy.deleted': '已删除 {count} 个未使用的条目',
+    'taxonomy.mergeTitle': '合并条目',
+    'taxonomy.mergeDescription': '保留此条目。其他条目将被删除，其文章关联到此条目，其名称成为别名。',
+    'taxonomy.merge': '合并',
+    'taxonomy.deleteUnusedTitle': '删除未使用的条目',
+    'taxonomy.deleteUnusedConfirm': '删除 {count} 个没有文章使用的条目？其别名也会被删除。',
+
+    // Library bulk actions
+    'library.bulkSelected': '已选择 {count} 项',
+    'library.bulkSelectAll': '选择所有显示的文章',
+    'library.bulkEditRelations': '标签 / 关键词 / 主题',
+    'library.bulkMode.add': '添加',
+    'library.bulkMode.remove': '移除',
+    'library.bulkRelationPlaceholder': '名称，用逗号分隔',
+    'library.bulkMarkRead': '标记为已读',
+    'library.bulkMarkUnread': '标记为未读',
+    'library.bulkFavorite': '收藏',
+    'library.bulkUnfavorite': '取消收藏',
+    'library.bulkSetRating': '设置评分…',
+    'library.bulkRegenerateNotes': '重新生成笔记',
+    'library.bulkWorking': '处理中...',
+    'library.bulkClear': '清除选择',
+    'library.bulkFailed': '批量修改失败',
+    'library.bulkNotesFailed': '{count} 个笔记无法生成',
+    'library.bulkDeleteTitle': '删除文章',
+    'library.bulkDeleteConfirm': '删除 {count} 篇文章？它们将连同 PDF 和笔记一起移至回收站。',
+    'library.bulkDeleteButton': '删除 {count} 篇文章',
+
+    // Collections
+    'nav.collections': '合集',
+    'collections.title': '合集',
+    'collections.description': '有名称、有顺序的阅读列表（论文章节、综述等）。合集可以嵌套，并显示在侧边栏中。',
+    'collections.newPlaceholder': '新合集名称',
+    'collections.createInside': '➕ 在“{name}”中创建',
+    'collections.empty': '暂无合集',
+    'collections.selectHint': '选择或创建一个合集',
+    'collections.moveUp': '上移',
+    'collections.moveDown': '下移',
+    'collections.indent': '缩进',
+    'collections.indentHint': '移入上方的合集',
+    'collections.outdent': '取消缩进',
+    'collections.outdentHint': '移出父合集',
+    'collections.showInLibrary': '在文献库中显示',
+    'collections.descriptionPlaceholder': '描述（可选）',
+    'collections.exportHint': '导出包含 PDF、笔记和参考文献的文件夹（包括子合集）',
+    'collections.export': '导出文件包',
+    'collections.exporting': '导出中...',
+    'collections.exported': '已导出 {count} 篇文章（{pdfs} 个 PDF，{notes} 个笔记）到 {path}',
+    'collections.addPlaceholder': '添加文章：按 ID、标题或作者搜索',
+    'collections.articles': '文章（{count}）',
+    'collections.noArticles': '此合集中还没有文章',
+    'collections.removeArticle': '从合集中移除',
+    'collections.deleteTitle': '删除合集',
+    'collections.deleteConfirm': '删除合集“{name}”？其文章仍保留在文献库中，子合集将上移一级。',
+    'library.collectionFilter': '合集：{name}',
+    'library.manageCollection': '管理',
+    'library.showAllArticles': '显示所有文章',
+    'library.bulkAddToCollection': '添加到合集…',
+
+    // Saved views
+    'nav.savedViews': '已保存视图',
+    'library.saveView': '保存视图',
+    'library.saveViewTitle': '保存当前视图',
+    'library.viewNamePlaceholder': '视图名称...',
+    'library.viewQuery': '筛选、搜索和排序',
+    'library.viewQueryEmpty': '（所有文章）',
+    'library.updateView': '将更改保存到“{name}”',
+    'library.deleteView': '删除视图',
+
+    // Search query language
+    'search.syntaxHelp': '词语和"精确短语"，或字段：author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - 标志 read / favorite，-词 表示排除，OR，(分组)。按 Tab 补全。',
+
+    // Library facets
+    'library.matchAny': '任一',
+    'library.matchAll': '全部',
+    'library.matchAnyHint': '包含任一所选值的文章',
+    'library.matchAllHint': '包含所有所选值的文章',
+    'library.hideEmptyFacets': '隐藏没有匹配文章的筛选选项',
+
+    // PDF reader
+    'reader.annotations': '批注',
+    'reader.noAnnotations': '选择文本即可高亮，或使用 📝 在页面上添加便签。',
+    'reader.highlight': '高亮',
+    'reader.highlightWithComment': '高亮并评论',
+    'reader.noteTool': '便签：点击页面上要放置的位置',
+    'reader.bookmarkPage': '为此页添加书签',
+    'reader.removeBookmark': '移除此页的书签',
+    'reader.toggleAnnotations': '显示或隐藏批注',
+    'reader.page': '第 {page} 页',
+    'reader.zoomIn': '放大',
+    'reader.zoomOut': '缩小',
+    'reader.commentPlaceholder': '添加评论...',
+    'reader.deleteAnnotation': '删除批注',
+    'reader.saveFailed': '保存批注失败',
+
+    // Annotation exports
+    'reader.export': '导出批注',
+    'reader.exportPdf': '带批注的 PDF',
+    'reader.exportMarkdown': '摘要 (Markdown)',
+    'reader.exportDocx': '摘要 (Word)',
+    'reader.exported': '已保存到 {path}',
+    'reader.exportFailed': '导出失败',
+    'settings.noteAnnotations': '在生成的笔记中包含批注',
+    'settings.noteAnnotations.desc': '将 PDF 阅读器中的高亮和笔记按页码和颜色分组附加到 Word 笔记',
+
+    // PDF annotation import
+    'reader.rescan': '重新扫描 PDF 批注',
+    'reader.rescanHint': '重新导入在其他阅读器中添加的高亮和笔记（您编辑或删除过的保持不变）',
+    'reader.rescanFailed': '无法读取 PDF 批注',
+    'reader.importedHint': '从 PDF 文件导入',
+
+    // Markdown note fields
+    'markdown.write': '编写',
+    'markdown.preview': '预览',
+    'markdown.empty': '没有可预览的内容',
+    'markdown.hint': '# 标题, **粗体**, *斜体*, - 列表, `代码`, ```代码块```, $公式$, [[0042]] 链接到文章',
+    'markdown.missingArticle': '没有此 ID 的文章',
+
+    // Relations & citation graph
+    'nav.graph': '引用图谱',
+    'relations.title': '相关文章',
+    'relations.none': '暂无相关文章',
+    'relations.outgoing.cites': '引用',
+    'relations.outgoing.extends': '扩展',
+    'relations.outgoing.contradicts': '反驳',
+    'relations.outgoing.replicates': '复现',
+    'relations.incoming.cites': '被引用',
+    'relations.incoming.extends': '被扩展',
+    'relations.incoming.contradicts': '被反驳',
+    'relations.incoming.replicates': '被复现',
+    'relations.same-dataset': '相同数据集',
+    'relations.searchArticle': '按 ID、标题或作者搜索文章...',
+    'relations.note': '备注（可选）',
+    'relations.add': '添加',
+    'relations.addFailed': '无法添加关系',
+    'relations.deleteFailed': '无法删除关系',
+    'relations.detect': '在 PDF 中查找引用',
+    'relations.detecting': '查找中...',
+    'relations.detected': '找到 {count} 条新引用',
+    'relations.noReferenceList': 'PDF 文本中未找到参考文献列表',
+    'relations.detectFailed': '引用检测失败',
+    'relations.autoHint': '来自 PDF 的参考文献列表',
+    'relations.openGraph': '打开引用图谱',
+    'graph.title': '引用图谱',
+    'graph.description': '文库中文章之间的关系。点击文章打开，拖动以移动，滚动鼠标滚轮缩放。',
+    'graph.detectAll': '在所有 PDF 中查找引用',
+    'graph.detected': '已读取 {articles} 个参考文献列表，{count} 条新引用',
+    'graph.loadFailed': '无法加载图谱',
+    'graph.wholeLibrary': '整个文库',
+    'graph.counts': '{articles} 篇文章，{relations} 个关系',
+    'graph.empty': '暂无关系。可在文章页面添加，或在 PDF 中查找引用。',
+    'graph.emptyCollection': '此收藏夹中没有文章',
+    'graph.legend': '实心：已读 · 橙色圆环：收藏 · 虚线：来自 PDF 参考文献列表',
+    'settings.detectRelations': '在上传的 PDF 中查找引用',
+    'settings.detectRelations.desc': '将每个上传 PDF 的参考文献列表与文库中的 DOI 和标题进行匹配',
+
+    // Reference list of the PDF
+    'references.title': 'PDF 中的参考文献',
+    'references.summary': '{count} 条，{matched} 条已在文库中',
+    'references.reading': '正在读取参考文献列表...',
+    'references.loadFailed': '无法读取参考文献列表',
+    'references.noPdfText': '没有可读取的 PDF 文本：请先为此文章添加 PDF',
+    'references.reload': '重新读取',
+    'references.filter.all': '全部',
+    'references.filter.matched': '在文库中',
+    'references.filter.missing': '不在文库中',
+    'references.inLibrary': '在文库中',
+    'references.notInLibrary': '尚未加入文库',
+    'references.matchBy.doi': 'DOI 相同',
+    'references.matchBy.title': '标题相同',
+    'references.addArticle': '添加为新文章',
+    'addArticle.fromReference': '根据文章 {id} 的参考文献列表填写',
+    'addArticle.fromReferenceHint': '字段是根据下面的条目推测的：保存前请检查。',
+    'addArticle.fromReferenceDoiHint': '字段是根据下面的条目推测的：使用“从 DOI 填写”获取登记的元数据。',
+
+    // History and Trash
+    'nav.trash': '回收站',
+    'history.title': '历史记录',
+    'history.none': '尚无记录的版本。',
+    'history.empty': '（空）',
+    'history.current': '当前',
+    'history.noChanges': '没有字段被修改。',
+    'history.firstRevision': '文章的第一个记录版本。',
+    'history.restore': '恢复此版本',
+    'history.restoreConfirm': '将文章的字段和列表恢复为 {date} 时的状态？当前版本将保留在历史记录中。',
+    'history.restoreFailed': '恢复版本失败',
+    'history.action.create': '已创建',
+    'history.action.update': '已编辑',
+    'history.action.restore': '已恢复',
+    'history.action.delete': '已删除',
+    'history.action.undelete': '已还原',
+    'history.action.merge': '已合并',
+    'trash.title': '回收站',
+    'trash.description': '已删除的文章及其 PDF 和笔记。在设置中的保留期结束之前，可以按原样恢复，包括其收藏集、批注和关联。',
+    'trash.empty': '回收站为空。',
+    'trash.open': '打开',
+    'trash.restore': '恢复',
+    'trash.restored': '文章 {id} 已恢复。',
+    'trash.restoreFailed': '恢复文章失败',
+    'trash.loadFailed': '加载回收站失败',
+    'trash.deletedAt': '删除于 {date}',
+    'trash.pdfKept': '已保留 PDF',
+    'trash.noPdf': '无 PDF',
+    'trash.noteKept': '已保留笔记',
+    'trash.noNote': '无笔记',
+
+    // Trash: permanent delete and retention
+    'trash.purge': '永久删除',
+    'trash.purgeConfirm': '永久删除文章 {id}“{title}”及其 PDF、笔记和历史记录？此操作无法撤销。',
+    'trash.purged': '文章 {id} 已永久删除。',
+    'trash.purgeFailed': '永久删除失败',
+    'trash.empty.button': '清空回收站',
+    'trash.emptying': '正在清空...',
+    'trash.emptyConfirm': '永久删除回收站中的 {count} 篇文章及其 PDF、笔记和历史记录？此操作无法撤销。',
+    'trash.emptied': '已永久删除 {count} 篇文章。',
+    'trash.purgeAt': '将于 {date} 后永久删除',
+    'settings.trashRetention': '已删除文章在回收站中的保留时间',
+    'settings.trashRetention.days': '{days} 天',
+    'settings.trashRetention.never': '直到清空回收站',
+    'settings.trashRetention.desc': '超过此时间的文章会在应用启动时被永久删除。',
+
+    // Backups
+    'backup.title': '备份',
+    'backup.description': '数据库（以及可选的 PDF 和笔记）的副本保存在存储目录的 backups 文件夹中。每个备份在创建时都会被校验；恢复备份会重启应用。',
+    'backup.schedule': '自动备份',
+    'backup.schedule.daily': '每天一次',
+    'backup.schedule.startup': '每次启动时',
+    'backup.schedule.off': '从不',
+    'backup.keep': '保留的备份',
+    'backup.keep.count': '最近 {count} 个',
+    'backup.keep.all': '全部',
+    'backup.includeFiles': '包含 PDF 和笔记',
+    'backup.includeFiles.desc': '备份更大，但恢复时也会找回文件',
+    'backup.create': '立即备份',
+    'backup.creating': '正在备份...',
+    'backup.created': '备份已创建（{size}）',
+    'backup.createFailed': '备份失败',
+    'backup.list': '备份（{count}）',
+    'backup.none': '暂无备份',
+    'backup.trigger.manual': '手动',
+    'backup.trigger.startup': '启动',
+    'backup.trigger.daily': '每日',
+    'backup.trigger.pre-migration': '更新前',
+    'backup.trigger.pre-restore': '恢复前',
+    'backup.details': '{articles} 篇文章 · {size}',
+    'backup.withFiles': '{count} 个文件',
+    'backup.verify': '校验',
+    'backup.verified': '备份完好',
+    'backup.verifyFailed': '备份已损坏',
+    'backup.restore': '恢复',
+    'backup.restoreConfirm': '用 {date} 的备份替换文献库？将先备份当前文献库，然后重启应用。',
+    'backup.restoreConfirmFiles': '用 {date} 的备份替换文献库、PDF 和笔记？将先备份当前文献库，然后重启应用。',
+    'backup.restarting': '备份已就绪，正在重启...',
+    'backup.restoreFailed': '恢复失败',
+    'backup.delete': '删除备份',
+    'backup.deleteConfirm': '删除 {date} 的备份？',
+    'backup.deleteFailed': '删除失败',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': '无法打开文献库',
+    'startup.migrationFailed': '将数据库更新到此版本的应用失败。更新已回滚，数据库保持原样。',
+    'startup.openFailed': '无法打开或更新数据库，为避免损坏您的文献库，应用未启动。',
+    'startup.backupAdvice': '更新前已备份数据库。请使用最新版本的应用重试，或用备份文件夹中的 {file} 替换数据库文件。',
+    'startup.noBackupAdvice': '请使用最新版本的应用重试。自动备份位于备份文件夹中。',
+    'startup.migration': '迁移',
+    'startup.error': '错误',
+    'startup.database': '数据库',
+    'startup.backup': '备份',
+    'startup.openBackups': '打开备份文件夹',
+    'startup.quit': '退出',
   },
 
   ar: {
@@ -1450,7 +3046,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': 'جاري نسخ الملفات إلى التخزين الخارجي...',
     'storage.copyFailed': 'فشل النسخ',
     'storage.copyConfirm': 'سيتم نسخ جميع ملفات PDF والملاحظات الموجودة إلى:\n{path}\n\nمتابعة؟',
-    'importExport.selectCsvFile': 'يرجى تحديد ملف CSV',
 
     // File Migration
     'migration.title': 'ترحيل الملفات',
@@ -1470,10 +3065,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': 'جاري التصدير...',
     'importExport.import': 'استيراد البيانات',
     'importExport.importing': 'جاري الاستيراد...',
-    'importExport.selectFile': 'انقر لاختيار ملف CSV',
     'importExport.csvFormat': 'تنسيق CSV: يجب أن يحتوي الصف الأول على رؤوس الأعمدة. استخدم الفاصلة المنقوطة (;) لفصل القيم المتعددة.',
     'importExport.viewColumns': 'عرض أسماء الأعمدة للاستيراد',
-    'importExport.analysis': 'تحليل CSV',
+    'importExport.analysis': 'تحليل الاستيراد',
     'importExport.total': 'إجمالي المقالات الموجودة:',
     'importExport.toImport': 'للاستيراد:',
     'importExport.duplicates': 'مكررة:',
@@ -1559,9 +3153,410 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': 'غير مفضل',
     'preview.delete': 'حذف',
     'preview.deleteTitle': 'حذف المقال',
-    'preview.deleteWarning': 'هل أنت متأكد من حذف هذا المقال؟ هذا الإجراء دائم ولا يمكن التراجع عنه.',
+    'preview.deleteWarning': 'هل أنت متأكد من حذف هذا المقال؟ سيُنقل إلى سلة المحذوفات مع ملف PDF والملاحظة، ويمكن استعادته من هناك.',
     'preview.typeIdToConfirm': 'للتأكيد، اكتب معرف المقال أدناه:',
     'preview.typeIdPlaceholder': 'اكتب معرف المقال هنا',
+
+    // Full library JSON export/import
+    'libraryJson.title': 'المكتبة الكاملة (JSON)',
+    'libraryJson.description': 'نسخة كاملة من المكتبة: كل مقال بمعرّفه والمؤلفين والكلمات المفتاحية والمواضيع والوسوم والجامعات والشركات والمجموعات وطرق العرض المحفوظة والتعليقات التوضيحية والعلاقات والسجل ونص PDF المستخرج والإعدادات وعداد المعرّفات. لا تتضمن ملفات PDF والملاحظات.',
+    'libraryJson.exportBtn': 'تصدير المكتبة بصيغة JSON',
+    'libraryJson.importBtn': 'استيراد ملف JSON للمكتبة...',
+    'libraryJson.modeMerge': 'دمج',
+    'libraryJson.modeReplace': 'استبدال',
+    'libraryJson.modeMergeHelp': 'دمج: يحتفظ بالمكتبة الحالية ويضيف المقالات التي لم يُستخدم معرّفها بعد.',
+    'libraryJson.modeReplaceHelp': 'استبدال: يحذف المكتبة الحالية ويستعيد الملف كما هو، بما في ذلك الإعدادات.',
+    'libraryJson.report': 'تقرير الاستيراد (تجربة)',
+    'libraryJson.mode': 'الوضع:',
+    'libraryJson.exportedAt': 'تاريخ التصدير:',
+    'libraryJson.skippedIds': 'معرّفات مستخدمة بالفعل (تم تخطيها):',
+    'libraryJson.entityCounts': '{created} جديد، {matched} موجود',
+    'libraryJson.relations': 'الروابط المستعادة:',
+    'libraryJson.nextId': 'معرّف المقال التالي:',
+    'libraryJson.replaceWarning': 'سيتم حذف جميع المقالات الحالية وروابطها قبل الاستيراد.',
+    'libraryJson.exportSuccess': 'تم تصدير {count} مقالات إلى JSON!',
+    'libraryJson.exportError': 'فشل تصدير JSON',
+    'libraryJson.importSuccess': 'اكتمل استيراد المكتبة! تم استيراد {count} مقالات',
+    'libraryJson.importError': 'فشل استيراد JSON',
+
+    // Full-text search
+    'library.pdfText': 'النص الكامل لملف PDF',
+    'library.pdfPage': 'PDF ص. {page}',
+
+    // Bibliographic formats
+    'importExport.exportFormat': 'تصدير {format}',
+    'importExport.selectAnyFile': 'انقر لاختيار ملف ({formats})',
+    'importExport.unsupportedFile': 'نوع ملف غير مدعوم. المدعوم: {formats}',
+    'importExport.unreadable': 'تعذرت قراءة {count} إدخالات',
+    'library.exportSelection': 'تصدير {format} ({count})',
+    'library.exportSelectionHint': 'تصدير المقالات المحددة، أو كل المقالات المصفاة إذا لم يُحدد أي منها',
+    'article.exportFormat': 'تصدير {format}',
+
+    // Citations & bibliography
+    'article.citation': 'الاستشهاد',
+    'article.copyCitation': 'نسخ الاستشهاد',
+    'article.citationCopied': 'تم النسخ',
+    'article.copyCitationFailed': 'فشل نسخ الاستشهاد',
+    'library.bibliography': 'قائمة المراجع ({count})',
+    'library.bibliographyTitle': 'إنشاء قائمة المراجع',
+    'library.bibliographyDescription': 'قائمة مراجع المقالات المعروضة حاليًا ({count}) مع تطبيق عوامل التصفية.',
+    'library.citationStyle': 'نمط الاستشهاد',
+    'library.bibliographyFormat': 'تنسيق الملف',
+    'library.bibliographyFormat.text': 'نص عادي',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': 'إنشاء',
+    'library.generating': 'جارٍ الإنشاء...',
+    'library.bibliographyFailed': 'فشل إنشاء قائمة المراجع',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': 'جارٍ قراءة بيانات PDF الوصفية...',
+    'addArticle.suggestions': 'القيم المقترحة',
+    'addArticle.suggestionsHint': 'مأخوذة من ملف PDF أو من البحث عن DOI. تحقق من كل قيمة قبل قبولها.',
+    'addArticle.acceptAll': 'قبول الكل',
+    'addArticle.rejectAll': 'رفض الكل',
+    'addArticle.accept': 'قبول',
+    'addArticle.reject': 'رفض',
+    'addArticle.replaces': 'يستبدل: {value}',
+    'addArticle.confidenceHigh': 'عالية',
+    'addArticle.confidenceMedium': 'متوسطة',
+    'addArticle.confidenceLow': 'منخفضة',
+    'addArticle.source.xmp': 'بيانات الناشر الوصفية (XMP)',
+    'addArticle.source.info': 'خصائص المستند',
+    'addArticle.source.text': 'نص الصفحة الأولى',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': 'ملء من DOI',
+    'addArticle.fillFromDoiHint': 'البحث عن DOI أو معرّف arXiv في Crossref وDataCite',
+    'addArticle.fillingFromDoi': 'جارٍ البحث...',
+    'addArticle.doiLookupFailed': 'فشل البحث عن DOI',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': 'تحديث البيانات الوصفية ({count})',
+    'library.refreshMetadataHint': 'البحث عن DOI لكل مقالة معروضة ومراجعة الاختلافات',
+    'library.refreshMetadataTitle': 'تحديث البيانات الوصفية',
+    'library.refreshMetadataProgress': 'جارٍ البحث {done} من {total} مقالة...',
+    'library.refreshMetadataDone': 'تم البحث عن {count} مقالة، {changed} منها بها اختلافات أو أخطاء. ألغِ تحديد التغييرات التي لا تريدها.',
+    'library.refreshMetadataFailed': 'فشل تطبيق تغييرات البيانات الوصفية',
+    'library.applyChanges': 'تطبيق {count} تغيير',
+    'library.applying': 'جارٍ التطبيق...',
+    'metadataLookup.title': 'البحث عن البيانات الوصفية',
+    'metadataLookup.description': 'يتم البحث عن DOI ومعرّفات arXiv في Crossref أولاً ثم في DataCite. غيّر العناوين لاستخدام مرآة أو خادم محلي.',
+    'metadataLookup.crossrefUrl': 'عنوان واجهة Crossref',
+    'metadataLookup.dataciteUrl': 'عنوان واجهة DataCite',
+    'metadataLookup.localServerHint': 'دون اتصال: شغّل "npm run metadata-server" واستخدم http://localhost:4500 لكليهما.',
+    'metadataLookup.save': 'حفظ إعدادات البحث',
+    'metadataLookup.reset': 'استعادة الافتراضي',
+    'metadataLookup.saved': 'تم حفظ إعدادات البحث!',
+
+    // Duplicates
+    'nav.duplicates': 'التكرارات',
+    'duplicates.title': 'التكرارات',
+    'duplicates.description': 'مقالات لها نفس DOI، أو عنوان متشابه ومؤلفون مشتركون (مثل نسخة أولية ونسختها المنشورة).',
+    'duplicates.scan': 'إعادة الفحص',
+    'duplicates.scanning': 'جارٍ الفحص...',
+    'duplicates.scanFailed': 'فشل البحث عن التكرارات',
+    'duplicates.none': 'لم يتم العثور على تكرارات',
+    'duplicates.review': 'مراجعة ودمج',
+    'duplicates.reason.doi': 'نفس DOI',
+    'duplicates.reason.title': 'عنوان متشابه',
+    'duplicates.reason.authors': 'مؤلفون مشتركون',
+    'duplicates.mergeTitle': 'دمج التكرارات',
+    'duplicates.mergeDescription': 'اختر القيمة التي تريد الاحتفاظ بها لكل حقل مختلف. سيتم حذف #{retire} وسيفتح معرّفه #{keep}.',
+    'duplicates.keep': 'الاحتفاظ بـ #{id}',
+    'duplicates.noPdf': 'لا يوجد PDF',
+    'duplicates.identicalFields': '{count} حقول متطابقة غير معروضة',
+    'duplicates.unionHint': 'يتم الاحتفاظ بعلاقات المقالتين:',
+    'duplicates.merge': 'دمج #{retire} في #{keep}',
+    'duplicates.merging': 'جارٍ الدمج...',
+    'duplicates.mergeFailed': 'فشل الدمج',
+    'duplicates.pdfAnnotationsHint': 'تتبع التعليقات التوضيحية ملف PDF المحتفظ به: تُحذف تلك التي أُنشئت على ملف PDF الآخر.',
+
+    // Manage taxonomy
+    'nav.taxonomy': 'التصنيف',
+    'taxonomy.title': 'إدارة التصنيف',
+    'taxonomy.description': 'نظّف اختلافات الكتابة: أعد التسمية، ادمج الإدخالات، احذف غير المستخدمة. الأسماء البديلة هي كتابات أخرى تُربط بإدخال عند إضافة المقالات أو استيرادها.',
+    'taxonomy.filter': 'تصفية حسب الاسم أو الاسم البديل...',
+    'taxonomy.unusedOnly': 'غير المستخدمة فقط',
+    'taxonomy.mergeSelected': 'دمج المحدد ({count})',
+    'taxonomy.deleteUnused': 'حذف غير المستخدمة ({count})',
+    'taxonomy.usage': 'المقالات',
+    'taxonomy.aliases': 'الأسماء البديلة',
+    'taxonomy.addAlias': '+ اسم بديل',
+    'taxonomy.rename': 'إعادة تسمية',
+    'taxonomy.empty': 'لا توجد إدخالات',
+    'taxonomy.renamed': 'تمت إعادة التسمية',
+    'taxonomy.merged': 'تم دمج {count} إدخالات',
+    'taxonomy.deleted': 'تم حذف {count} إدخالات غير مستخدمة',
+    'taxonomy.mergeTitle': 'دمج الإدخالات',
+    'taxonomy.mergeDescription': 'يتم الاحتفاظ بهذا الإدخال. تُحذف الإدخالات الأخرى، وتُربط مقالاتها به وتصبح أسماؤها أسماء بديلة.',
+    'taxonomy.merge': 'دمج',
+    'taxonomy.deleteUnusedTitle': 'حذف الإدخالات غير المستخدمة',
+    'taxonomy.deleteUnusedConfirm': 'حذف {count} إدخالات لا تستخدمها أي مقالة؟ تُحذف أسماؤها البديلة أيضاً.',
+
+    // Library bulk actions
+    'library.bulkSelected': '{count} محدد',
+    'library.bulkSelectAll': 'تحديد كل المقالات المعروضة',
+    'library.bulkEditRelations': 'الوسوم / الكلمات المفتاحية / المواضيع',
+    'library.bulkMode.add': 'إضافة',
+    'library.bulkMode.remove': 'إزالة',
+    'library.bulkRelationPlaceholder': 'أسماء مفصولة بفواصل',
+    'library.bulkMarkRead': 'تعليم كمقروء',
+    'library.bulkMarkUnread': 'تعليم كغير مقروء',
+    'library.bulkFavorite': 'مفضلة',
+    'library.bulkUnfavorite': 'إزالة من المفضلة',
+    'library.bulkSetRating': 'تحديد التقييم…',
+    'library.bulkRegenerateNotes': 'إعادة إنشاء الملاحظات',
+    'library.bulkWorking': 'جارٍ العمل...',
+    'library.bulkClear': 'مسح التحديد',
+    'library.bulkFailed': 'فشل التعديل الجماعي',
+    'library.bulkNotesFailed': 'تعذر إنشاء {count} ملاحظة',
+    'library.bulkDeleteTitle': 'حذف المقالات',
+    'library.bulkDeleteConfirm': 'حذف {count} مقالة؟ ستُنقل إلى سلة المحذوفات مع ملفات PDF والملاحظات.',
+    'library.bulkDeleteButton': 'حذف {count} مقالة',
+
+    // Collections
+    'nav.collections': 'المجموعات',
+    'collections.title': 'المجموعات',
+    'collections.description': 'قوائم قراءة مسماة ومرتبة (فصل من أطروحة، مقالة مراجعة...). يمكن تداخل المجموعات وتظهر في الشريط الجانبي.',
+    'collections.newPlaceholder': 'اسم المجموعة الجديدة',
+    'collections.createInside': '➕ إنشاء داخل "{name}"',
+    'collections.empty': 'لا توجد مجموعات بعد',
+    'collections.selectHint': 'اختر مجموعة أو أنشئ واحدة',
+    'collections.moveUp': 'تحريك لأعلى',
+    'collections.moveDown': 'تحريك لأسفل',
+    'collections.indent': 'إزاحة للداخل',
+    'collections.indentHint': 'نقل إلى المجموعة التي في الأعلى',
+    'collections.outdent': 'إزاحة للخارج',
+    'collections.outdentHint': 'إخراج من المجموعة الأم',
+    'collections.showInLibrary': 'عرض في المكتبة',
+    'collections.descriptionPlaceholder': 'وصف (اختياري)',
+    'collections.exportHint': 'تصدير مجلد يحتوي على ملفات PDF والملاحظات وقائمة مراجع (مع المجموعات الفرعية)',
+    'collections.export': 'تصدير الحزمة',
+    'collections.exporting': 'جارٍ التصدير...',
+    'collections.exported': 'تم تصدير {count} مقالة ({pdfs} PDF، {notes} ملاحظة) إلى {path}',
+    'collections.addPlaceholder': 'إضافة مقالة: ابحث بالمعرف أو العنوان أو المؤلف',
+    'collections.articles': 'المقالات ({count})',
+    'collections.noArticles': 'لا توجد مقالات في هذه المجموعة بعد',
+    'collections.removeArticle': 'إزالة من المجموعة',
+    'collections.deleteTitle': 'حذف المجموعة',
+    'collections.deleteConfirm': 'حذف المجموعة "{name}"؟ تبقى مقالاتها في المكتبة وتصعد مجموعاتها الفرعية مستوى واحدًا.',
+    'library.collectionFilter': 'المجموعة: {name}',
+    'library.manageCollection': 'إدارة',
+    'library.showAllArticles': 'عرض كل المقالات',
+    'library.bulkAddToCollection': 'إضافة إلى مجموعة…',
+
+    // Saved views
+    'nav.savedViews': 'العروض المحفوظة',
+    'library.saveView': 'حفظ العرض',
+    'library.saveViewTitle': 'حفظ العرض الحالي',
+    'library.viewNamePlaceholder': 'اسم العرض...',
+    'library.viewQuery': 'المرشحات والبحث والترتيب',
+    'library.viewQueryEmpty': '(كل المقالات)',
+    'library.updateView': 'حفظ التغييرات في "{name}"',
+    'library.deleteView': 'حذف العرض',
+
+    // Search query language
+    'search.syntaxHelp': 'كلمات و"عبارات دقيقة"، أو حقول: author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - علامات read / favorite، -كلمة للاستبعاد، OR، (مجموعات). Tab للإكمال.',
+
+    // Library facets
+    'library.matchAny': 'أي منها',
+    'library.matchAll': 'الكل',
+    'library.matchAnyHint': 'المقالات التي تحتوي على أي من القيم المحددة',
+    'library.matchAllHint': 'المقالات التي تحتوي على جميع القيم المحددة',
+    'library.hideEmptyFacets': 'إخفاء خيارات التصفية التي لا تطابق أي مقال',
+
+    // PDF reader
+    'reader.annotations': 'التعليقات التوضيحية',
+    'reader.noAnnotations': 'حدد نصًا لتمييزه، أو استخدم 📝 لتثبيت ملاحظة على صفحة.',
+    'reader.highlight': 'تمييز',
+    'reader.highlightWithComment': 'تمييز وتعليق',
+    'reader.noteTool': 'ملاحظة: انقر على الصفحة حيث تريد تثبيتها',
+    'reader.bookmarkPage': 'وضع إشارة مرجعية لهذه الصفحة',
+    'reader.removeBookmark': 'إزالة الإشارة المرجعية لهذه الصفحة',
+    'reader.toggleAnnotations': 'إظهار التعليقات التوضيحية أو إخفاؤها',
+    'reader.page': 'الصفحة {page}',
+    'reader.zoomIn': 'تكبير',
+    'reader.zoomOut': 'تصغير',
+    'reader.commentPlaceholder': 'أضف تعليقًا...',
+    'reader.deleteAnnotation': 'حذف التعليق التوضيحي',
+    'reader.saveFailed': 'فشل حفظ التعليق التوضيحي',
+
+    // Annotation exports
+    'reader.export': 'تصدير التعليقات التوضيحية',
+    'reader.exportPdf': 'PDF مع التعليقات',
+    'reader.exportMarkdown': 'ملخص (Markdown)',
+    'reader.exportDocx': 'ملخص (Word)',
+    'reader.exported': 'تم الحفظ في {path}',
+    'reader.exportFailed': 'فشل التصدير',
+    'settings.noteAnnotations': 'التعليقات التوضيحية في الملاحظات المُنشأة',
+    'settings.noteAnnotations.desc': 'إضافة التظليلات والملاحظات من قارئ PDF إلى ملاحظة Word، مجمعة حسب الصفحة واللون',
+
+    // PDF annotation import
+    'reader.rescan': 'إعادة فحص تعليقات PDF',
+    'reader.rescanHint': 'استيراد التظليلات والملاحظات المضافة في قارئات أخرى من جديد (تبقى التي عدّلتها أو حذفتها كما هي)',
+    'reader.rescanFailed': 'تعذرت قراءة تعليقات PDF',
+    'reader.importedHint': 'مستوردة من ملف PDF',
+
+    // Markdown note fields
+    'markdown.write': 'كتابة',
+    'markdown.preview': 'معاينة',
+    'markdown.empty': 'لا شيء للمعاينة',
+    'markdown.hint': '# عنوان، **غامق**، *مائل*، - قائمة، `كود`، ```كتلة كود```، $صيغة$، [[0042]] رابط إلى مقال',
+    'markdown.missingArticle': 'لا يوجد مقال بهذا المعرف',
+
+    // Relations & citation graph
+    'nav.graph': 'مخطط الاستشهادات',
+    'relations.title': 'مقالات ذات صلة',
+    'relations.none': 'لا توجد مقالات ذات صلة بعد',
+    'relations.outgoing.cites': 'يستشهد بـ',
+    'relations.outgoing.extends': 'يوسّع',
+    'relations.outgoing.contradicts': 'يناقض',
+    'relations.outgoing.replicates': 'يكرّر',
+    'relations.incoming.cites': 'مستشهد به في',
+    'relations.incoming.extends': 'موسَّع في',
+    'relations.incoming.contradicts': 'مناقَض في',
+    'relations.incoming.replicates': 'مكرَّر في',
+    'relations.same-dataset': 'نفس البيانات',
+    'relations.searchArticle': 'ابحث عن مقال بالمعرف أو العنوان أو المؤلف...',
+    'relations.note': 'ملاحظة (اختياري)',
+    'relations.add': 'إضافة',
+    'relations.addFailed': 'تعذرت إضافة العلاقة',
+    'relations.deleteFailed': 'تعذر حذف العلاقة',
+    'relations.detect': 'البحث عن الاستشهادات في ملف PDF',
+    'relations.detecting': 'جارٍ البحث...',
+    'relations.detected': 'تم العثور على {count} استشهاد(ات) جديدة',
+    'relations.noReferenceList': 'لم يتم العثور على قائمة مراجع في نص ملف PDF',
+    'relations.detectFailed': 'فشل اكتشاف الاستشهادات',
+    'relations.autoHint': 'موجود في قائمة مراجع ملف PDF',
+    'relations.openGraph': 'فتح مخطط الاستشهادات',
+    'graph.title': 'مخطط الاستشهادات',
+    'graph.description': 'العلاقات بين مقالات المكتبة. انقر على مقال لفتحه، واسحبه لتحريكه، واستخدم عجلة الفأرة للتكبير.',
+    'graph.detectAll': 'البحث عن الاستشهادات في جميع ملفات PDF',
+    'graph.detected': 'تمت قراءة {articles} قائمة مراجع، {count} استشهاد(ات) جديدة',
+    'graph.loadFailed': 'تعذر تحميل المخطط',
+    'graph.wholeLibrary': 'المكتبة بأكملها',
+    'graph.counts': '{articles} مقالات، {relations} علاقات',
+    'graph.empty': 'لا توجد علاقات بعد. أضفها من صفحة مقال، أو ابحث عن الاستشهادات في ملفات PDF.',
+    'graph.emptyCollection': 'لا تحتوي هذه المجموعة على مقالات',
+    'graph.legend': 'ممتلئ: مقروء · حلقة برتقالية: مفضل · متقطع: موجود في قائمة مراجع ملف PDF',
+    'settings.detectRelations': 'البحث عن الاستشهادات في ملفات PDF المرفوعة',
+    'settings.detectRelations.desc': 'مطابقة قائمة مراجع كل ملف PDF مرفوع مع معرفات DOI وعناوين المكتبة',
+
+    // Reference list of the PDF
+    'references.title': 'مراجع ملف PDF',
+    'references.summary': '{count} مدخلات، {matched} في المكتبة',
+    'references.reading': 'جارٍ قراءة قائمة المراجع...',
+    'references.loadFailed': 'تعذرت قراءة قائمة المراجع',
+    'references.noPdfText': 'لا يوجد نص PDF للقراءة: أضف ملف PDF إلى هذا المقال أولاً',
+    'references.reload': 'إعادة القراءة',
+    'references.filter.all': 'الكل',
+    'references.filter.matched': 'في المكتبة',
+    'references.filter.missing': 'خارج المكتبة',
+    'references.inLibrary': 'في المكتبة',
+    'references.notInLibrary': 'ليس في المكتبة بعد',
+    'references.matchBy.doi': 'نفس DOI',
+    'references.matchBy.title': 'نفس العنوان',
+    'references.addArticle': 'إضافة كمقال جديد',
+    'addArticle.fromReference': 'تمت التعبئة من قائمة مراجع المقال {id}',
+    'addArticle.fromReferenceHint': 'تم تخمين الحقول من المدخل أدناه: تحقق منها قبل الحفظ.',
+    'addArticle.fromReferenceDoiHint': 'تم تخمين الحقول من المدخل أدناه: استخدم "ملء من DOI" للحصول على البيانات الوصفية المسجلة.',
+
+    // History and Trash
+    'nav.trash': 'سلة المحذوفات',
+    'history.title': 'السجل',
+    'history.none': 'لا توجد نسخ مسجلة بعد.',
+    'history.empty': '(فارغ)',
+    'history.current': 'الحالية',
+    'history.noChanges': 'لم يتغير أي حقل.',
+    'history.firstRevision': 'أول نسخة مسجلة من المقال.',
+    'history.restore': 'استعادة هذه النسخة',
+    'history.restoreConfirm': 'استعادة حقول المقال وقوائمه كما كانت في {date}؟ تبقى النسخة الحالية في السجل.',
+    'history.restoreFailed': 'فشل في استعادة النسخة',
+    'history.action.create': 'أُنشئ',
+    'history.action.update': 'عُدّل',
+    'history.action.restore': 'استُعيد',
+    'history.action.delete': 'حُذف',
+    'history.action.undelete': 'أُلغي حذفه',
+    'history.action.merge': 'دُمج',
+    'trash.title': 'سلة المحذوفات',
+    'trash.description': 'المقالات المحذوفة مع ملفات PDF والملاحظات. يمكن استعادتها كما كانت، مع مجموعاتها وتعليقاتها وعلاقاتها، حتى انتهاء مدة الاحتفاظ المحددة في الإعدادات.',
+    'trash.empty': 'سلة المحذوفات فارغة.',
+    'trash.open': 'فتح',
+    'trash.restore': 'استعادة',
+    'trash.restored': 'تمت استعادة المقال {id}.',
+    'trash.restoreFailed': 'فشل في استعادة المقال',
+    'trash.loadFailed': 'فشل في تحميل سلة المحذوفات',
+    'trash.deletedAt': 'حُذف في {date}',
+    'trash.pdfKept': 'تم الاحتفاظ بملف PDF',
+    'trash.noPdf': 'لا يوجد PDF',
+    'trash.noteKept': 'تم الاحتفاظ بالملاحظة',
+    'trash.noNote': 'لا توجد ملاحظة',
+
+    // Trash: permanent delete and retention
+    'trash.purge': 'حذف نهائي',
+    'trash.purgeConfirm': 'حذف المقال {id} "{title}" نهائيًا مع ملف PDF والملاحظة والسجل؟ لا يمكن التراجع عن ذلك.',
+    'trash.purged': 'تم حذف المقال {id} نهائيًا.',
+    'trash.purgeFailed': 'فشل الحذف النهائي',
+    'trash.empty.button': 'إفراغ سلة المحذوفات',
+    'trash.emptying': 'جارٍ الإفراغ...',
+    'trash.emptyConfirm': 'حذف {count} مقالة في سلة المحذوفات نهائيًا مع ملفات PDF والملاحظات والسجل؟ لا يمكن التراجع عن ذلك.',
+    'trash.emptied': 'تم حذف {count} مقالة نهائيًا.',
+    'trash.purgeAt': 'يُحذف نهائيًا بعد {date}',
+    'settings.trashRetention': 'الاحتفاظ بالمقالات المحذوفة في سلة المحذوفات',
+    'settings.trashRetention.days': '{days} يومًا',
+    'settings.trashRetention.never': 'حتى إفراغ سلة المحذوفات',
+    'settings.trashRetention.desc': 'تُحذف المقالات الأقدم من ذلك نهائيًا عند بدء تشغيل التطبيق.',
+
+    // Backups
+    'backup.title': 'النسخ الاحتياطية',
+    'backup.description': 'تُحفظ نسخ من قاعدة البيانات (ومن ملفات PDF والملاحظات اختياريًا) في مجلد backups داخل التخزين. يتم التحقق من كل نسخة عند إنشائها؛ واستعادة نسخة تعيد تشغيل التطبيق.',
+    'backup.schedule': 'النسخ الاحتياطي التلقائي',
+    'backup.schedule.daily': 'مرة يوميًا',
+    'backup.schedule.startup': 'عند كل تشغيل',
+    'backup.schedule.off': 'أبدًا',
+    'backup.keep': 'النسخ المحفوظة',
+    'backup.keep.count': 'آخر {count}',
+    'backup.keep.all': 'الكل',
+    'backup.includeFiles': 'تضمين ملفات PDF والملاحظات',
+    'backup.includeFiles.desc': 'نسخ أكبر حجمًا، لكن الاستعادة تعيد الملفات أيضًا',
+    'backup.create': 'نسخ احتياطي الآن',
+    'backup.creating': 'جارٍ النسخ الاحتياطي...',
+    'backup.created': 'تم إنشاء النسخة ({size})',
+    'backup.createFailed': 'فشل النسخ الاحتياطي',
+    'backup.list': 'النسخ الاحتياطية ({count})',
+    'backup.none': 'لا توجد نسخ بعد',
+    'backup.trigger.manual': 'يدوي',
+    'backup.trigger.startup': 'عند التشغيل',
+    'backup.trigger.daily': 'يومي',
+    'backup.trigger.pre-migration': 'قبل التحديث',
+    'backup.trigger.pre-restore': 'قبل الاستعادة',
+    'backup.details': '{articles} مقالة · {size}',
+    'backup.withFiles': '{count} ملف',
+    'backup.verify': 'تحقق',
+    'backup.verified': 'النسخة سليمة',
+    'backup.verifyFailed': 'النسخة تالفة',
+    'backup.restore': 'استعادة',
+    'backup.restoreConfirm': 'استبدال المكتبة بنسخة {date}؟ يتم أولًا نسخ المكتبة الحالية احتياطيًا، ثم يُعاد تشغيل التطبيق.',
+    'backup.restoreConfirmFiles': 'استبدال المكتبة وملفات PDF والملاحظات بنسخة {date}؟ يتم أولًا نسخ المكتبة الحالية احتياطيًا، ثم يُعاد تشغيل التطبيق.',
+    'backup.restarting': 'النسخة جاهزة، جارٍ إعادة التشغيل...',
+    'backup.restoreFailed': 'فشلت الاستعادة',
+    'backup.delete': 'حذف النسخة',
+    'backup.deleteConfirm': 'حذف نسخة {date}؟',
+    'backup.deleteFailed': 'فشل الحذف',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': 'تعذر فتح المكتبة',
+    'startup.migrationFailed': 'فشل تحديث قاعدة البيانات لهذا الإصدار من التطبيق. تم التراجع عن التحديث، فقاعدة البيانات كما كانت من قبل.',
+    'startup.openFailed': 'تعذر فتح قاعدة البيانات أو تحديثها، لذلك لم يبدأ التطبيق تجنبًا لإتلاف مكتبتك.',
+    'startup.backupAdvice': 'نُسخت قاعدة البيانات احتياطيًا قبل التحديث مباشرة. أعد المحاولة بأحدث إصدار من التطبيق، أو ضع {file} من مجلد النسخة الاحتياطية مكان ملف قاعدة البيانات.',
+    'startup.noBackupAdvice': 'أعد المحاولة بأحدث إصدار من التطبيق. النسخ الاحتياطية التلقائية موجودة في مجلد النسخ الاحتياطية.',
+    'startup.migration': 'الترحيل',
+    'startup.error': 'الخطأ',
+    'startup.database': 'قاعدة البيانات',
+    'startup.backup': 'النسخة الاحتياطية',
+    'startup.openBackups': 'فتح مجلد النسخ الاحتياطية',
+    'startup.quit': 'خروج',
   },
 
   ru: {
@@ -1762,7 +3757,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': 'Копирование файлов во внешнее хранилище...',
     'storage.copyFailed': 'Ошибка копирования',
     'storage.copyConfirm': 'Это скопирует все существующие PDF и заметки в:\n{path}\n\nПродолжить?',
-    'importExport.selectCsvFile': 'Выберите CSV-файл',
 
     // File Migration
     'migration.title': 'Миграция файлов',
@@ -1782,10 +3776,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': 'Экспорт...',
     'importExport.import': 'Импорт данных',
     'importExport.importing': 'Импорт...',
-    'importExport.selectFile': 'Нажмите для выбора CSV-файла',
     'importExport.csvFormat': 'Формат CSV: Первая строка должна содержать заголовки. Используйте точку с запятой (;) для разделения значений.',
     'importExport.viewColumns': 'Показать названия столбцов для импорта',
-    'importExport.analysis': 'Анализ CSV',
+    'importExport.analysis': 'Анализ импорта',
     'importExport.total': 'Всего найдено статей:',
     'importExport.toImport': 'К импорту:',
     'importExport.duplicates': 'Дубликаты:',
@@ -1871,9 +3864,410 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': 'Не в избранном',
     'preview.delete': 'Удалить',
     'preview.deleteTitle': 'Удалить статью',
-    'preview.deleteWarning': 'Вы уверены, что хотите удалить эту статью? Это действие необратимо.',
+    'preview.deleteWarning': 'Вы уверены, что хотите удалить эту статью? Она будет перемещена в корзину вместе с PDF и заметкой, откуда её можно восстановить.',
     'preview.typeIdToConfirm': 'Для подтверждения введите ID статьи:',
     'preview.typeIdPlaceholder': 'Введите ID статьи',
+
+    // Full library JSON export/import
+    'libraryJson.title': 'Вся библиотека (JSON)',
+    'libraryJson.description': 'Полная копия библиотеки: каждая статья со своим ID, авторы, ключевые слова, темы, теги, университеты, компании, коллекции, сохранённые представления, аннотации, связи, история, извлечённый текст PDF, настройки и счётчик ID. PDF и заметки не включаются.',
+    'libraryJson.exportBtn': 'Экспортировать библиотеку в JSON',
+    'libraryJson.importBtn': 'Импортировать JSON библиотеки...',
+    'libraryJson.modeMerge': 'Объединить',
+    'libraryJson.modeReplace': 'Заменить',
+    'libraryJson.modeMergeHelp': 'Объединить: сохраняет текущую библиотеку и добавляет статьи, ID которых ещё не заняты.',
+    'libraryJson.modeReplaceHelp': 'Заменить: удаляет текущую библиотеку и восстанавливает файл полностью, включая настройки.',
+    'libraryJson.report': 'Отчёт об импорте (пробный запуск)',
+    'libraryJson.mode': 'Режим:',
+    'libraryJson.exportedAt': 'Дата экспорта:',
+    'libraryJson.skippedIds': 'Занятые ID (пропущены):',
+    'libraryJson.entityCounts': '{created} новых, {matched} существующих',
+    'libraryJson.relations': 'Восстановлено связей:',
+    'libraryJson.nextId': 'Следующий ID статьи:',
+    'libraryJson.replaceWarning': 'Все текущие статьи и их связи будут удалены перед импортом.',
+    'libraryJson.exportSuccess': 'Экспортировано статей в JSON: {count}!',
+    'libraryJson.exportError': 'Ошибка экспорта JSON',
+    'libraryJson.importSuccess': 'Импорт библиотеки завершён! Импортировано статей: {count}',
+    'libraryJson.importError': 'Ошибка импорта JSON',
+
+    // Full-text search
+    'library.pdfText': 'Полный текст PDF',
+    'library.pdfPage': 'PDF с. {page}',
+
+    // Bibliographic formats
+    'importExport.exportFormat': 'Экспорт {format}',
+    'importExport.selectAnyFile': 'Нажмите для выбора файла ({formats})',
+    'importExport.unsupportedFile': 'Неподдерживаемый тип файла. Поддерживаются: {formats}',
+    'importExport.unreadable': 'Не удалось прочитать записей: {count}',
+    'library.exportSelection': 'Экспорт {format} ({count})',
+    'library.exportSelectionHint': 'Экспортировать отмеченные статьи или все отфильтрованные, если ничего не отмечено',
+    'article.exportFormat': 'Экспорт {format}',
+
+    // Citations & bibliography
+    'article.citation': 'Цитирование',
+    'article.copyCitation': 'Копировать ссылку',
+    'article.citationCopied': 'Скопировано',
+    'article.copyCitationFailed': 'Не удалось скопировать ссылку',
+    'library.bibliography': 'Библиография ({count})',
+    'library.bibliographyTitle': 'Создать библиографию',
+    'library.bibliographyDescription': 'Список литературы для {count} показанных статей (с учётом фильтров).',
+    'library.citationStyle': 'Стиль цитирования',
+    'library.bibliographyFormat': 'Формат файла',
+    'library.bibliographyFormat.text': 'Обычный текст',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': 'Создать',
+    'library.generating': 'Создание...',
+    'library.bibliographyFailed': 'Не удалось создать библиографию',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': 'Чтение метаданных PDF...',
+    'addArticle.suggestions': 'Предлагаемые значения',
+    'addArticle.suggestionsHint': 'Найдено в PDF или по DOI. Проверьте каждое значение перед принятием.',
+    'addArticle.acceptAll': 'Принять все',
+    'addArticle.rejectAll': 'Отклонить все',
+    'addArticle.accept': 'Принять',
+    'addArticle.reject': 'Отклонить',
+    'addArticle.replaces': 'Заменит: {value}',
+    'addArticle.confidenceHigh': 'Высокая',
+    'addArticle.confidenceMedium': 'Средняя',
+    'addArticle.confidenceLow': 'Низкая',
+    'addArticle.source.xmp': 'Метаданные издателя (XMP)',
+    'addArticle.source.info': 'Свойства документа',
+    'addArticle.source.text': 'Текст первой страницы',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': 'Заполнить по DOI',
+    'addArticle.fillFromDoiHint': 'Найти DOI или arXiv ID в Crossref и DataCite',
+    'addArticle.fillingFromDoi': 'Поиск...',
+    'addArticle.doiLookupFailed': 'Не удалось найти DOI',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': 'Обновить метаданные ({count})',
+    'library.refreshMetadataHint': 'Найти DOI каждой показанной статьи и просмотреть различия',
+    'library.refreshMetadataTitle': 'Обновить метаданные',
+    'library.refreshMetadataProgress': 'Поиск: {done} из {total} статей...',
+    'library.refreshMetadataDone': 'Проверено статей: {count}, с различиями или ошибками: {changed}. Снимите отметки с ненужных изменений.',
+    'library.refreshMetadataFailed': 'Не удалось применить изменения метаданных',
+    'library.applyChanges': 'Применить изменения ({count})',
+    'library.applying': 'Применение...',
+    'metadataLookup.title': 'Поиск метаданных',
+    'metadataLookup.description': 'DOI и arXiv ID ищутся сначала в Crossref, затем в DataCite. Измените URL, чтобы использовать зеркало или локальный сервер.',
+    'metadataLookup.crossrefUrl': 'URL API Crossref',
+    'metadataLookup.dataciteUrl': 'URL API DataCite',
+    'metadataLookup.localServerHint': 'Без сети: запустите "npm run metadata-server" и укажите http://localhost:4500 для обоих.',
+    'metadataLookup.save': 'Сохранить настройки поиска',
+    'metadataLookup.reset': 'По умолчанию',
+    'metadataLookup.saved': 'Настройки поиска сохранены!',
+
+    // Duplicates
+    'nav.duplicates': 'Дубликаты',
+    'duplicates.title': 'Дубликаты',
+    'duplicates.description': 'Статьи с одинаковым DOI или похожим названием и общими авторами (например, препринт и его опубликованная версия).',
+    'duplicates.scan': 'Проверить снова',
+    'duplicates.scanning': 'Проверка...',
+    'duplicates.scanFailed': 'Не удалось найти дубликаты',
+    'duplicates.none': 'Дубликаты не найдены',
+    'duplicates.review': 'Проверить и объединить',
+    'duplicates.reason.doi': 'Тот же DOI',
+    'duplicates.reason.title': 'Похожее название',
+    'duplicates.reason.authors': 'Общие авторы',
+    'duplicates.mergeTitle': 'Объединить дубликаты',
+    'duplicates.mergeDescription': 'Выберите значение для каждого различающегося поля. #{retire} будет удалена, а её ID будет открывать #{keep}.',
+    'duplicates.keep': 'Оставить #{id}',
+    'duplicates.noPdf': 'Нет PDF',
+    'duplicates.identicalFields': 'Одинаковых полей не показано: {count}',
+    'duplicates.unionHint': 'Связи обеих статей сохраняются:',
+    'duplicates.merge': 'Объединить #{retire} с #{keep}',
+    'duplicates.merging': 'Объединение...',
+    'duplicates.mergeFailed': 'Не удалось объединить',
+    'duplicates.pdfAnnotationsHint': 'Аннотации следуют за сохранённым PDF: сделанные в другом PDF удаляются.',
+
+    // Manage taxonomy
+    'nav.taxonomy': 'Таксономия',
+    'taxonomy.title': 'Управление таксономией',
+    'taxonomy.description': 'Устраните варианты написания: переименуйте, объедините записи, удалите неиспользуемые. Псевдонимы — другие написания, которые привязываются к записи при добавлении или импорте статей.',
+    'taxonomy.filter': 'Фильтр по имени или псевдониму...',
+    'taxonomy.unusedOnly': 'Только неиспользуемые',
+    'taxonomy.mergeSelected': 'Объединить выбранные ({count})',
+    'taxonomy.deleteUnused': 'Удалить неиспользуемые ({count})',
+    'taxonomy.usage': 'Статьи',
+    'taxonomy.aliases': 'Псевдонимы',
+    'taxonomy.addAlias': '+ псевдоним',
+    'taxonomy.rename': 'Переименовать',
+    'taxonomy.empty': 'Нет записей',
+    'taxonomy.renamed': 'Переименовано',
+    'taxonomy.merged': 'Объединено записей: {count}',
+    'taxonomy.deleted': 'Удалено неиспользуемых записей: {count}',
+    'taxonomy.mergeTitle': 'Объединить записи',
+    'taxonomy.mergeDescription': 'Эта запись сохраняется. Остальные удаляются, их статьи привязываются к ней, а их имена становятся псевдонимами.',
+    'taxonomy.merge': 'Объединить',
+    'taxonomy.deleteUnusedTitle': 'Удалить неиспользуемые записи',
+    'taxonomy.deleteUnusedConfirm': 'Удалить записи, не используемые ни одной статьёй ({count})? Их псевдонимы тоже будут удалены.',
+
+    // Library bulk actions
+    'library.bulkSelected': 'Выбрано: {count}',
+    'library.bulkSelectAll': 'Выбрать все показанные статьи',
+    'library.bulkEditRelations': 'Теги / ключевые слова / темы',
+    'library.bulkMode.add': 'Добавить',
+    'library.bulkMode.remove': 'Удалить',
+    'library.bulkRelationPlaceholder': 'Названия через запятую',
+    'library.bulkMarkRead': 'Отметить прочитанными',
+    'library.bulkMarkUnread': 'Отметить непрочитанными',
+    'library.bulkFavorite': 'В избранное',
+    'library.bulkUnfavorite': 'Убрать из избранного',
+    'library.bulkSetRating': 'Задать оценку…',
+    'library.bulkRegenerateNotes': 'Пересоздать заметки',
+    'library.bulkWorking': 'Выполняется...',
+    'library.bulkClear': 'Снять выделение',
+    'library.bulkFailed': 'Ошибка массового изменения',
+    'library.bulkNotesFailed': 'Не удалось создать заметок: {count}',
+    'library.bulkDeleteTitle': 'Удалить статьи',
+    'library.bulkDeleteConfirm': 'Удалить статьи ({count})? Они будут перемещены в корзину вместе с PDF и заметками.',
+    'library.bulkDeleteButton': 'Удалить статьи ({count})',
+
+    // Collections
+    'nav.collections': 'Коллекции',
+    'collections.title': 'Коллекции',
+    'collections.description': 'Именованные упорядоченные списки чтения (глава диссертации, обзорная статья...). Коллекции можно вкладывать друг в друга, они показываются на боковой панели.',
+    'collections.newPlaceholder': 'Название новой коллекции',
+    'collections.createInside': '➕ Создать внутри «{name}»',
+    'collections.empty': 'Коллекций пока нет',
+    'collections.selectHint': 'Выберите или создайте коллекцию',
+    'collections.moveUp': 'Вверх',
+    'collections.moveDown': 'Вниз',
+    'collections.indent': 'Вложить',
+    'collections.indentHint': 'Переместить в коллекцию выше',
+    'collections.outdent': 'Вынести',
+    'collections.outdentHint': 'Вынести из родительской коллекции',
+    'collections.showInLibrary': 'Показать в библиотеке',
+    'collections.descriptionPlaceholder': 'Описание (необязательно)',
+    'collections.exportHint': 'Экспортировать папку с PDF, заметками и списком литературы (включая вложенные коллекции)',
+    'collections.export': 'Экспортировать пакет',
+    'collections.exporting': 'Экспорт...',
+    'collections.exported': 'Экспортировано статей: {count} ({pdfs} PDF, {notes} заметок) в {path}',
+    'collections.addPlaceholder': 'Добавить статью: поиск по ID, названию или автору',
+    'collections.articles': 'Статьи ({count})',
+    'collections.noArticles': 'В этой коллекции пока нет статей',
+    'collections.removeArticle': 'Убрать из коллекции',
+    'collections.deleteTitle': 'Удалить коллекцию',
+    'collections.deleteConfirm': 'Удалить коллекцию «{name}»? Её статьи останутся в библиотеке, а вложенные коллекции поднимутся на уровень выше.',
+    'library.collectionFilter': 'Коллекция: {name}',
+    'library.manageCollection': 'Управлять',
+    'library.showAllArticles': 'Показать все статьи',
+    'library.bulkAddToCollection': 'Добавить в коллекцию…',
+
+    // Saved views
+    'nav.savedViews': 'Сохранённые виды',
+    'library.saveView': 'Сохранить вид',
+    'library.saveViewTitle': 'Сохранить текущий вид',
+    'library.viewNamePlaceholder': 'Название вида...',
+    'library.viewQuery': 'Фильтры, поиск и сортировка',
+    'library.viewQueryEmpty': '(все статьи)',
+    'library.updateView': 'Сохранить изменения в «{name}»',
+    'library.deleteView': 'Удалить вид',
+
+    // Search query language
+    'search.syntaxHelp': 'Слова и "точные фразы" или поля: author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - флаги read / favorite, -слово исключает, OR, (группы). Tab дополняет.',
+
+    // Library facets
+    'library.matchAny': 'Любое',
+    'library.matchAll': 'Все',
+    'library.matchAnyHint': 'Статьи с любым из выбранных значений',
+    'library.matchAllHint': 'Статьи со всеми выбранными значениями',
+    'library.hideEmptyFacets': 'Скрывать варианты фильтра без статей',
+
+    // PDF reader
+    'reader.annotations': 'Аннотации',
+    'reader.noAnnotations': 'Выделите текст, чтобы отметить его, или используйте 📝, чтобы прикрепить заметку к странице.',
+    'reader.highlight': 'Выделить',
+    'reader.highlightWithComment': 'Выделить и прокомментировать',
+    'reader.noteTool': 'Заметка: нажмите на странице там, где её прикрепить',
+    'reader.bookmarkPage': 'Добавить закладку на эту страницу',
+    'reader.removeBookmark': 'Убрать закладку с этой страницы',
+    'reader.toggleAnnotations': 'Показать или скрыть аннотации',
+    'reader.page': 'Страница {page}',
+    'reader.zoomIn': 'Увеличить',
+    'reader.zoomOut': 'Уменьшить',
+    'reader.commentPlaceholder': 'Добавить комментарий...',
+    'reader.deleteAnnotation': 'Удалить аннотацию',
+    'reader.saveFailed': 'Не удалось сохранить аннотацию',
+
+    // Annotation exports
+    'reader.export': 'Экспорт аннотаций',
+    'reader.exportPdf': 'PDF с аннотациями',
+    'reader.exportMarkdown': 'Сводка (Markdown)',
+    'reader.exportDocx': 'Сводка (Word)',
+    'reader.exported': 'Сохранено в {path}',
+    'reader.exportFailed': 'Ошибка экспорта',
+    'settings.noteAnnotations': 'Аннотации в создаваемых заметках',
+    'settings.noteAnnotations.desc': 'Добавлять выделения и заметки из PDF-ридера в заметку Word, по страницам и цветам',
+
+    // PDF annotation import
+    'reader.rescan': 'Пересканировать аннотации PDF',
+    'reader.rescanHint': 'Заново импортировать выделения и заметки из других программ (изменённые или удалённые вами остаются как есть)',
+    'reader.rescanFailed': 'Не удалось прочитать аннотации PDF',
+    'reader.importedHint': 'Импортировано из PDF-файла',
+
+    // Markdown note fields
+    'markdown.write': 'Редактор',
+    'markdown.preview': 'Просмотр',
+    'markdown.empty': 'Нечего показать',
+    'markdown.hint': '# Заголовок, **жирный**, *курсив*, - список, `код`, ```блок кода```, $формула$, [[0042]] ссылка на статью',
+    'markdown.missingArticle': 'Нет статьи с таким ID',
+
+    // Relations & citation graph
+    'nav.graph': 'Граф цитирований',
+    'relations.title': 'Связанные статьи',
+    'relations.none': 'Связанных статей пока нет',
+    'relations.outgoing.cites': 'Цитирует',
+    'relations.outgoing.extends': 'Развивает',
+    'relations.outgoing.contradicts': 'Опровергает',
+    'relations.outgoing.replicates': 'Воспроизводит',
+    'relations.incoming.cites': 'Цитируется в',
+    'relations.incoming.extends': 'Развивается в',
+    'relations.incoming.contradicts': 'Опровергается в',
+    'relations.incoming.replicates': 'Воспроизводится в',
+    'relations.same-dataset': 'Те же данные',
+    'relations.searchArticle': 'Поиск статьи по ID, названию или автору...',
+    'relations.note': 'Примечание (необязательно)',
+    'relations.add': 'Добавить',
+    'relations.addFailed': 'Не удалось добавить связь',
+    'relations.deleteFailed': 'Не удалось удалить связь',
+    'relations.detect': 'Найти цитирования в PDF',
+    'relations.detecting': 'Поиск...',
+    'relations.detected': 'Найдено новых цитирований: {count}',
+    'relations.noReferenceList': 'Список литературы в тексте PDF не найден',
+    'relations.detectFailed': 'Ошибка поиска цитирований',
+    'relations.autoHint': 'Найдено в списке литературы PDF',
+    'relations.openGraph': 'Открыть граф цитирований',
+    'graph.title': 'Граф цитирований',
+    'graph.description': 'Связи между статьями библиотеки. Нажмите на статью, чтобы открыть её, перетащите, чтобы переместить, прокрутите колесо для масштабирования.',
+    'graph.detectAll': 'Найти цитирования во всех PDF',
+    'graph.detected': 'Прочитано списков литературы: {articles}, новых цитирований: {count}',
+    'graph.loadFailed': 'Не удалось загрузить граф',
+    'graph.wholeLibrary': 'Вся библиотека',
+    'graph.counts': 'Статей: {articles}, связей: {relations}',
+    'graph.empty': 'Связей пока нет. Добавьте их на странице статьи или найдите цитирования в PDF.',
+    'graph.emptyCollection': 'В этой коллекции нет статей',
+    'graph.legend': 'Заполнено: прочитано · Оранжевое кольцо: избранное · Пунктир: найдено в списке литературы PDF',
+    'settings.detectRelations': 'Искать цитирования в загруженных PDF',
+    'settings.detectRelations.desc': 'Сопоставлять список литературы каждого загруженного PDF с DOI и названиями статей библиотеки',
+
+    // Reference list of the PDF
+    'references.title': 'Список литературы PDF',
+    'references.summary': 'Записей: {count}, в библиотеке: {matched}',
+    'references.reading': 'Чтение списка литературы...',
+    'references.loadFailed': 'Не удалось прочитать список литературы',
+    'references.noPdfText': 'Нет текста PDF: сначала добавьте PDF к этой статье',
+    'references.reload': 'Прочитать снова',
+    'references.filter.all': 'Все',
+    'references.filter.matched': 'В библиотеке',
+    'references.filter.missing': 'Вне библиотеки',
+    'references.inLibrary': 'В библиотеке',
+    'references.notInLibrary': 'Ещё нет в библиотеке',
+    'references.matchBy.doi': 'тот же DOI',
+    'references.matchBy.title': 'то же название',
+    'references.addArticle': 'Добавить как новую статью',
+    'addArticle.fromReference': 'Заполнено из списка литературы статьи {id}',
+    'addArticle.fromReferenceHint': 'Поля определены по записи ниже: проверьте их перед сохранением.',
+    'addArticle.fromReferenceDoiHint': 'Поля определены по записи ниже: используйте «Заполнить по DOI», чтобы получить зарегистрированные метаданные.',
+
+    // History and Trash
+    'nav.trash': 'Корзина',
+    'history.title': 'История',
+    'history.none': 'Версии пока не записаны.',
+    'history.empty': '(пусто)',
+    'history.current': 'текущая',
+    'history.noChanges': 'Поля не изменены.',
+    'history.firstRevision': 'Первая записанная версия статьи.',
+    'history.restore': 'Восстановить эту версию',
+    'history.restoreConfirm': 'Восстановить поля и списки статьи на {date}? Текущая версия останется в истории.',
+    'history.restoreFailed': 'Не удалось восстановить версию',
+    'history.action.create': 'Создана',
+    'history.action.update': 'Изменена',
+    'history.action.restore': 'Восстановлена',
+    'history.action.delete': 'Удалена',
+    'history.action.undelete': 'Возвращена',
+    'history.action.merge': 'Объединена',
+    'trash.title': 'Корзина',
+    'trash.description': 'Удалённые статьи с их PDF и заметками. Их можно восстановить в прежнем виде, с коллекциями, аннотациями и связями, пока не истечёт срок хранения, заданный в настройках.',
+    'trash.empty': 'Корзина пуста.',
+    'trash.open': 'Открыть',
+    'trash.restore': 'Восстановить',
+    'trash.restored': 'Статья {id} восстановлена.',
+    'trash.restoreFailed': 'Не удалось восстановить статью',
+    'trash.loadFailed': 'Не удалось загрузить корзину',
+    'trash.deletedAt': 'удалена {date}',
+    'trash.pdfKept': 'PDF сохранён',
+    'trash.noPdf': 'Нет PDF',
+    'trash.noteKept': 'Заметка сохранена',
+    'trash.noNote': 'Нет заметки',
+
+    // Trash: permanent delete and retention
+    'trash.purge': 'Удалить навсегда',
+    'trash.purgeConfirm': 'Удалить статью {id} «{title}» навсегда вместе с PDF, заметкой и историей? Это действие нельзя отменить.',
+    'trash.purged': 'Статья {id} удалена навсегда.',
+    'trash.purgeFailed': 'Не удалось удалить навсегда',
+    'trash.empty.button': 'Очистить корзину',
+    'trash.emptying': 'Очистка...',
+    'trash.emptyConfirm': 'Удалить навсегда статьи из корзины ({count}) вместе с PDF, заметками и историей? Это действие нельзя отменить.',
+    'trash.emptied': 'Статей удалено навсегда: {count}.',
+    'trash.purgeAt': 'будет удалена навсегда после {date}',
+    'settings.trashRetention': 'Хранить удалённые статьи в корзине',
+    'settings.trashRetention.days': '{days} дн.',
+    'settings.trashRetention.never': 'Пока корзина не будет очищена',
+    'settings.trashRetention.desc': 'Более старые статьи удаляются навсегда при запуске приложения.',
+
+    // Backups
+    'backup.title': 'Резервные копии',
+    'backup.description': 'Копии базы данных (и, при желании, PDF и заметок) хранятся в папке backups хранилища. Каждая копия проверяется при создании; восстановление копии перезапускает приложение.',
+    'backup.schedule': 'Автоматическое копирование',
+    'backup.schedule.daily': 'Раз в день',
+    'backup.schedule.startup': 'При каждом запуске',
+    'backup.schedule.off': 'Никогда',
+    'backup.keep': 'Хранить копий',
+    'backup.keep.count': 'Последние {count}',
+    'backup.keep.all': 'Все',
+    'backup.includeFiles': 'Включать PDF и заметки',
+    'backup.includeFiles.desc': 'Копии больше, но при восстановлении возвращаются и файлы',
+    'backup.create': 'Создать копию сейчас',
+    'backup.creating': 'Создание копии...',
+    'backup.created': 'Копия создана ({size})',
+    'backup.createFailed': 'Не удалось создать копию',
+    'backup.list': 'Резервные копии ({count})',
+    'backup.none': 'Копий пока нет',
+    'backup.trigger.manual': 'Вручную',
+    'backup.trigger.startup': 'Запуск',
+    'backup.trigger.daily': 'Ежедневно',
+    'backup.trigger.pre-migration': 'Перед обновлением',
+    'backup.trigger.pre-restore': 'Перед восстановлением',
+    'backup.details': 'Статей: {articles} · {size}',
+    'backup.withFiles': 'Файлов: {count}',
+    'backup.verify': 'Проверить',
+    'backup.verified': 'Копия не повреждена',
+    'backup.verifyFailed': 'Копия повреждена',
+    'backup.restore': 'Восстановить',
+    'backup.restoreConfirm': 'Заменить библиотеку копией от {date}? Сначала будет создана копия текущей библиотеки, затем приложение перезапустится.',
+    'backup.restoreConfirmFiles': 'Заменить библиотеку, PDF и заметки копией от {date}? Сначала будет создана копия текущей библиотеки, затем приложение перезапустится.',
+    'backup.restarting': 'Копия готова, перезапуск...',
+    'backup.restoreFailed': 'Не удалось восстановить',
+    'backup.delete': 'Удалить копию',
+    'backup.deleteConfirm': 'Удалить копию от {date}?',
+    'backup.deleteFailed': 'Не удалось удалить',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': 'Не удалось открыть библиотеку',
+    'startup.migrationFailed': 'Не удалось обновить базу данных для этой версии приложения. Обновление отменено, база данных осталась прежней.',
+    'startup.openFailed': 'Не удалось открыть или обновить базу данных, поэтому приложение не запущено, чтобы не повредить библиотеку.',
+    'startup.backupAdvice': 'Перед обновлением была сделана резервная копия базы данных. Попробуйте снова с последней версией приложения или замените файл базы данных файлом {file} из папки резервной копии.',
+    'startup.noBackupAdvice': 'Попробуйте снова с последней версией приложения. Автоматические резервные копии находятся в папке резервных копий.',
+    'startup.migration': 'Миграция',
+    'startup.error': 'Ошибка',
+    'startup.database': 'База данных',
+    'startup.backup': 'Резервная копия',
+    'startup.openBackups': 'Открыть папку резервных копий',
+    'startup.quit': 'Выйти',
   },
 
   he: {
@@ -2074,7 +4468,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': 'מעתיק קבצים לאחסון החיצוני...',
     'storage.copyFailed': 'ההעתקה נכשלה',
     'storage.copyConfirm': 'פעולה זו תעתיק את כל קבצי ה-PDF וההערות הקיימים אל:\n{path}\n\nלהמשיך?',
-    'importExport.selectCsvFile': 'אנא בחר קובץ CSV',
 
     // File Migration
     'migration.title': 'העברת קבצים',
@@ -2094,10 +4487,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': 'מייצא...',
     'importExport.import': 'ייבוא נתונים',
     'importExport.importing': 'מייבא...',
-    'importExport.selectFile': 'לחץ לבחירת קובץ CSV',
     'importExport.csvFormat': 'פורמט CSV: השורה הראשונה חייבת להכיל כותרות. השתמש בנקודה-פסיק (;) להפרדת ערכים מרובים.',
     'importExport.viewColumns': 'הצג שמות עמודות לייבוא',
-    'importExport.analysis': 'ניתוח CSV',
+    'importExport.analysis': 'ניתוח ייבוא',
     'importExport.total': 'סה"כ מאמרים שנמצאו:',
     'importExport.toImport': 'לייבוא:',
     'importExport.duplicates': 'כפילויות:',
@@ -2183,9 +4575,410 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': 'לא מועדף',
     'preview.delete': 'מחק',
     'preview.deleteTitle': 'מחק מאמר',
-    'preview.deleteWarning': 'האם אתה בטוח שברצונך למחוק מאמר זה? פעולה זו בלתי הפיכה.',
+    'preview.deleteWarning': 'האם אתה בטוח שברצונך למחוק מאמר זה? הוא יועבר לסל המחזור יחד עם ה-PDF וההערה, וניתן יהיה לשחזר אותו משם.',
     'preview.typeIdToConfirm': 'לאישור, הקלד את מזהה המאמר למטה:',
     'preview.typeIdPlaceholder': 'הקלד מזהה מאמר כאן',
+
+    // Full library JSON export/import
+    'libraryJson.title': 'ספרייה מלאה (JSON)',
+    'libraryJson.description': 'עותק מלא של הספרייה: כל מאמר עם המזהה שלו, מחברים, מילות מפתח, נושאים, תגיות, אוניברסיטאות, חברות, אוספים, תצוגות שמורות, הערות שוליים, קשרים, היסטוריה, טקסט PDF שחולץ, הגדרות ומונה המזהים. קובצי PDF והערות אינם כלולים.',
+    'libraryJson.exportBtn': 'ייצוא הספרייה כ-JSON',
+    'libraryJson.importBtn': 'ייבוא JSON של ספרייה...',
+    'libraryJson.modeMerge': 'מיזוג',
+    'libraryJson.modeReplace': 'החלפה',
+    'libraryJson.modeMergeHelp': 'מיזוג: שומר את הספרייה הנוכחית ומוסיף מאמרים שהמזהה שלהם עדיין לא בשימוש.',
+    'libraryJson.modeReplaceHelp': 'החלפה: מוחק את הספרייה הנוכחית ומשחזר את הקובץ כפי שהוא, כולל ההגדרות.',
+    'libraryJson.report': 'דוח ייבוא (הרצת ניסיון)',
+    'libraryJson.mode': 'מצב:',
+    'libraryJson.exportedAt': 'יוצא בתאריך:',
+    'libraryJson.skippedIds': 'מזהים בשימוש (דולגו):',
+    'libraryJson.entityCounts': '{created} חדשים, {matched} קיימים',
+    'libraryJson.relations': 'קישורים ששוחזרו:',
+    'libraryJson.nextId': 'מזהה המאמר הבא:',
+    'libraryJson.replaceWarning': 'כל המאמרים הנוכחיים והקישורים שלהם יימחקו לפני הייבוא.',
+    'libraryJson.exportSuccess': '{count} מאמרים יוצאו ל-JSON!',
+    'libraryJson.exportError': 'ייצוא JSON נכשל',
+    'libraryJson.importSuccess': 'ייבוא הספרייה הושלם! {count} מאמרים יובאו',
+    'libraryJson.importError': 'ייבוא JSON נכשל',
+
+    // Full-text search
+    'library.pdfText': 'טקסט מלא של PDF',
+    'library.pdfPage': 'PDF עמ\' {page}',
+
+    // Bibliographic formats
+    'importExport.exportFormat': 'ייצוא {format}',
+    'importExport.selectAnyFile': 'לחץ לבחירת קובץ ({formats})',
+    'importExport.unsupportedFile': 'סוג קובץ לא נתמך. נתמכים: {formats}',
+    'importExport.unreadable': 'לא ניתן היה לקרוא {count} רשומות',
+    'library.exportSelection': 'ייצוא {format} ({count})',
+    'library.exportSelectionHint': 'ייצוא המאמרים המסומנים, או כל המאמרים המסוננים אם לא סומן דבר',
+    'article.exportFormat': 'ייצוא {format}',
+
+    // Citations & bibliography
+    'article.citation': 'ציטוט',
+    'article.copyCitation': 'העתק ציטוט',
+    'article.citationCopied': 'הועתק',
+    'article.copyCitationFailed': 'העתקת הציטוט נכשלה',
+    'library.bibliography': 'ביבליוגרפיה ({count})',
+    'library.bibliographyTitle': 'יצירת ביבליוגרפיה',
+    'library.bibliographyDescription': 'רשימת מקורות של {count} המאמרים המוצגים כעת (לאחר סינון).',
+    'library.citationStyle': 'סגנון ציטוט',
+    'library.bibliographyFormat': 'פורמט קובץ',
+    'library.bibliographyFormat.text': 'טקסט פשוט',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': 'צור',
+    'library.generating': 'יוצר...',
+    'library.bibliographyFailed': 'יצירת הביבליוגרפיה נכשלה',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': 'קורא את המטא-נתונים של ה-PDF...',
+    'addArticle.suggestions': 'ערכים מוצעים',
+    'addArticle.suggestionsHint': 'נמצאו ב-PDF או בחיפוש ה-DOI. בדקו כל ערך לפני שתקבלו אותו.',
+    'addArticle.acceptAll': 'קבל הכל',
+    'addArticle.rejectAll': 'דחה הכל',
+    'addArticle.accept': 'קבל',
+    'addArticle.reject': 'דחה',
+    'addArticle.replaces': 'מחליף: {value}',
+    'addArticle.confidenceHigh': 'גבוהה',
+    'addArticle.confidenceMedium': 'בינונית',
+    'addArticle.confidenceLow': 'נמוכה',
+    'addArticle.source.xmp': 'מטא-נתוני המוציא לאור (XMP)',
+    'addArticle.source.info': 'מאפייני המסמך',
+    'addArticle.source.text': 'טקסט העמוד הראשון',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': 'מילוי לפי DOI',
+    'addArticle.fillFromDoiHint': 'חיפוש ה-DOI או מזהה arXiv ב-Crossref וב-DataCite',
+    'addArticle.fillingFromDoi': 'מחפש...',
+    'addArticle.doiLookupFailed': 'חיפוש ה-DOI נכשל',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': 'רענון מטא-נתונים ({count})',
+    'library.refreshMetadataHint': 'חיפוש ה-DOI של כל מאמר מוצג ובדיקת ההבדלים',
+    'library.refreshMetadataTitle': 'רענון מטא-נתונים',
+    'library.refreshMetadataProgress': 'מחפש {done} מתוך {total} מאמרים...',
+    'library.refreshMetadataDone': 'נבדקו {count} מאמרים, ב-{changed} נמצאו הבדלים או שגיאות. בטלו את הסימון של שינויים שאינכם רוצים.',
+    'library.refreshMetadataFailed': 'החלת שינויי המטא-נתונים נכשלה',
+    'library.applyChanges': 'החלת {count} שינויים',
+    'library.applying': 'מחיל...',
+    'metadataLookup.title': 'חיפוש מטא-נתונים',
+    'metadataLookup.description': 'מזהי DOI ו-arXiv נבדקים תחילה ב-Crossref ולאחר מכן ב-DataCite. שנו את הכתובות כדי להשתמש במראה או בשרת מקומי.',
+    'metadataLookup.crossrefUrl': 'כתובת ה-API של Crossref',
+    'metadataLookup.dataciteUrl': 'כתובת ה-API של DataCite',
+    'metadataLookup.localServerHint': 'ללא חיבור: הריצו "npm run metadata-server" והשתמשו ב-http://localhost:4500 לשתיהן.',
+    'metadataLookup.save': 'שמירת הגדרות החיפוש',
+    'metadataLookup.reset': 'איפוס לברירת המחדל',
+    'metadataLookup.saved': 'הגדרות החיפוש נשמרו!',
+
+    // Duplicates
+    'nav.duplicates': 'כפילויות',
+    'duplicates.title': 'כפילויות',
+    'duplicates.description': 'מאמרים עם אותו DOI, או כותרת דומה ומחברים משותפים (למשל טיוטה מוקדמת והגרסה שפורסמה).',
+    'duplicates.scan': 'סריקה מחדש',
+    'duplicates.scanning': 'סורק...',
+    'duplicates.scanFailed': 'חיפוש הכפילויות נכשל',
+    'duplicates.none': 'לא נמצאו כפילויות',
+    'duplicates.review': 'בדיקה ומיזוג',
+    'duplicates.reason.doi': 'אותו DOI',
+    'duplicates.reason.title': 'כותרת דומה',
+    'duplicates.reason.authors': 'מחברים משותפים',
+    'duplicates.mergeTitle': 'מיזוג כפילויות',
+    'duplicates.mergeDescription': 'בחרו את הערך שיישמר בכל שדה שונה. #{retire} יימחק והמזהה שלו יפתח את #{keep}.',
+    'duplicates.keep': 'שמירת #{id}',
+    'duplicates.noPdf': 'אין PDF',
+    'duplicates.identicalFields': '{count} שדות זהים אינם מוצגים',
+    'duplicates.unionHint': 'הקשרים של שני המאמרים נשמרים:',
+    'duplicates.merge': 'מיזוג #{retire} לתוך #{keep}',
+    'duplicates.merging': 'ממזג...',
+    'duplicates.mergeFailed': 'המיזוג נכשל',
+    'duplicates.pdfAnnotationsHint': 'ההערות עוברות עם קובץ ה-PDF שנשמר: אלה שנוצרו על ה-PDF האחר נמחקות.',
+
+    // Manage taxonomy
+    'nav.taxonomy': 'טקסונומיה',
+    'taxonomy.title': 'ניהול טקסונומיה',
+    'taxonomy.description': 'ניקוי וריאציות כתיב: שינוי שם, מיזוג רשומות ומחיקת רשומות שאינן בשימוש. כינויים הם כתיבים אחרים שמקושרים לרשומה בעת הוספה או ייבוא של מאמרים.',
+    'taxonomy.filter': 'סינון לפי שם או כינוי...',
+    'taxonomy.unusedOnly': 'רק שאינן בשימוש',
+    'taxonomy.mergeSelected': 'מיזוג הנבחרות ({count})',
+    'taxonomy.deleteUnused': 'מחיקת שאינן בשימוש ({count})',
+    'taxonomy.usage': 'מאמרים',
+    'taxonomy.aliases': 'כינויים',
+    'taxonomy.addAlias': '+ כינוי',
+    'taxonomy.rename': 'שינוי שם',
+    'taxonomy.empty': 'אין רשומות',
+    'taxonomy.renamed': 'השם שונה',
+    'taxonomy.merged': '{count} רשומות מוזגו',
+    'taxonomy.deleted': '{count} רשומות שאינן בשימוש נמחקו',
+    'taxonomy.mergeTitle': 'מיזוג רשומות',
+    'taxonomy.mergeDescription': 'רשומה זו נשמרת. האחרות נמחקות, המאמרים שלהן מקושרים אליה והשמות שלהן הופכים לכינויים.',
+    'taxonomy.merge': 'מיזוג',
+    'taxonomy.deleteUnusedTitle': 'מחיקת רשומות שאינן בשימוש',
+    'taxonomy.deleteUnusedConfirm': 'למחוק {count} רשומות שאף מאמר אינו משתמש בהן? גם הכינויים שלהן יימחקו.',
+
+    // Library bulk actions
+    'library.bulkSelected': '{count} נבחרו',
+    'library.bulkSelectAll': 'בחר את כל המאמרים המוצגים',
+    'library.bulkEditRelations': 'תגיות / מילות מפתח / נושאים',
+    'library.bulkMode.add': 'הוסף',
+    'library.bulkMode.remove': 'הסר',
+    'library.bulkRelationPlaceholder': 'שמות, מופרדים בפסיקים',
+    'library.bulkMarkRead': 'סמן כנקרא',
+    'library.bulkMarkUnread': 'סמן כלא נקרא',
+    'library.bulkFavorite': 'מועדף',
+    'library.bulkUnfavorite': 'הסר ממועדפים',
+    'library.bulkSetRating': 'קבע דירוג…',
+    'library.bulkRegenerateNotes': 'צור הערות מחדש',
+    'library.bulkWorking': 'מעבד...',
+    'library.bulkClear': 'נקה בחירה',
+    'library.bulkFailed': 'העריכה הקבוצתית נכשלה',
+    'library.bulkNotesFailed': 'לא ניתן היה ליצור {count} הערות',
+    'library.bulkDeleteTitle': 'מחק מאמרים',
+    'library.bulkDeleteConfirm': 'למחוק {count} מאמרים? הם יועברו לסל המחזור יחד עם קובצי ה-PDF וההערות.',
+    'library.bulkDeleteButton': 'מחק {count} מאמרים',
+
+    // Collections
+    'nav.collections': 'אוספים',
+    'collections.title': 'אוספים',
+    'collections.description': 'רשימות קריאה עם שם וסדר (פרק בתזה, מאמר סקירה...). ניתן לקנן אוספים והם מוצגים בסרגל הצד.',
+    'collections.newPlaceholder': 'שם האוסף החדש',
+    'collections.createInside': '➕ צור בתוך "{name}"',
+    'collections.empty': 'אין עדיין אוספים',
+    'collections.selectHint': 'בחר או צור אוסף',
+    'collections.moveUp': 'הזז למעלה',
+    'collections.moveDown': 'הזז למטה',
+    'collections.indent': 'הזחה פנימה',
+    'collections.indentHint': 'העבר לתוך האוסף שמעל',
+    'collections.outdent': 'הזחה החוצה',
+    'collections.outdentHint': 'הוצא מאוסף האב',
+    'collections.showInLibrary': 'הצג בספרייה',
+    'collections.descriptionPlaceholder': 'תיאור (אופציונלי)',
+    'collections.exportHint': 'ייצוא תיקייה עם קובצי ה-PDF, ההערות ורשימה ביבליוגרפית (כולל תת-אוספים)',
+    'collections.export': 'ייצוא חבילה',
+    'collections.exporting': 'מייצא...',
+    'collections.exported': '{count} מאמרים יוצאו ({pdfs} PDF, {notes} הערות) אל {path}',
+    'collections.addPlaceholder': 'הוסף מאמר: חפש לפי מזהה, כותרת או מחבר',
+    'collections.articles': 'מאמרים ({count})',
+    'collections.noArticles': 'אין עדיין מאמרים באוסף זה',
+    'collections.removeArticle': 'הסר מהאוסף',
+    'collections.deleteTitle': 'מחק אוסף',
+    'collections.deleteConfirm': 'למחוק את האוסף "{name}"? המאמרים שלו נשארים בספרייה ותת-האוספים שלו עולים רמה אחת.',
+    'library.collectionFilter': 'אוסף: {name}',
+    'library.manageCollection': 'ניהול',
+    'library.showAllArticles': 'הצג את כל המאמרים',
+    'library.bulkAddToCollection': 'הוסף לאוסף…',
+
+    // Saved views
+    'nav.savedViews': 'תצוגות שמורות',
+    'library.saveView': 'שמור תצוגה',
+    'library.saveViewTitle': 'שמור את התצוגה הנוכחית',
+    'library.viewNamePlaceholder': 'שם התצוגה...',
+    'library.viewQuery': 'מסננים, חיפוש ומיון',
+    'library.viewQueryEmpty': '(כל המאמרים)',
+    'library.updateView': 'שמור שינויים ב-"{name}"',
+    'library.deleteView': 'מחק תצוגה',
+
+    // Search query language
+    'search.syntaxHelp': 'מילים ו"ביטויים מדויקים", או שדות: author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - דגלים read / favorite, -מילה מחריגה, OR, (קבוצות). Tab להשלמה.',
+
+    // Library facets
+    'library.matchAny': 'כלשהו',
+    'library.matchAll': 'הכול',
+    'library.matchAnyHint': 'מאמרים עם אחד מהערכים שנבחרו',
+    'library.matchAllHint': 'מאמרים עם כל הערכים שנבחרו',
+    'library.hideEmptyFacets': 'הסתר אפשרויות סינון ללא מאמרים',
+
+    // PDF reader
+    'reader.annotations': 'הערות',
+    'reader.noAnnotations': 'בחרו טקסט כדי להדגיש אותו, או השתמשו ב-📝 כדי להצמיד פתק לעמוד.',
+    'reader.highlight': 'הדגשה',
+    'reader.highlightWithComment': 'הדגשה והערה',
+    'reader.noteTool': 'פתק: לחצו על העמוד במקום שבו להצמיד אותו',
+    'reader.bookmarkPage': 'הוספת סימנייה לעמוד זה',
+    'reader.removeBookmark': 'הסרת הסימנייה מעמוד זה',
+    'reader.toggleAnnotations': 'הצגה או הסתרה של ההערות',
+    'reader.page': 'עמוד {page}',
+    'reader.zoomIn': 'הגדלה',
+    'reader.zoomOut': 'הקטנה',
+    'reader.commentPlaceholder': 'הוספת הערה...',
+    'reader.deleteAnnotation': 'מחיקת ההערה',
+    'reader.saveFailed': 'שמירת ההערה נכשלה',
+
+    // Annotation exports
+    'reader.export': 'ייצוא הערות',
+    'reader.exportPdf': 'PDF עם הערות',
+    'reader.exportMarkdown': 'תקציר (Markdown)',
+    'reader.exportDocx': 'תקציר (Word)',
+    'reader.exported': 'נשמר ב-{path}',
+    'reader.exportFailed': 'הייצוא נכשל',
+    'settings.noteAnnotations': 'הערות בפתקים שנוצרים',
+    'settings.noteAnnotations.desc': 'הוספת ההדגשות וההערות מקורא ה-PDF לפתק ה-Word, מקובצות לפי עמוד וצבע',
+
+    // PDF annotation import
+    'reader.rescan': 'סריקה מחדש של הערות ה-PDF',
+    'reader.rescanHint': 'ייבוא מחדש של הדגשות והערות שנוספו בקוראים אחרים (אלה שערכת או מחקת נשארים כפי שהם)',
+    'reader.rescanFailed': 'קריאת הערות ה-PDF נכשלה',
+    'reader.importedHint': 'יובא מקובץ ה-PDF',
+
+    // Markdown note fields
+    'markdown.write': 'כתיבה',
+    'markdown.preview': 'תצוגה מקדימה',
+    'markdown.empty': 'אין מה להציג',
+    'markdown.hint': '# כותרת, **מודגש**, *נטוי*, - רשימה, `קוד`, ```בלוק קוד```, $נוסחה$, [[0042]] קישור למאמר',
+    'markdown.missingArticle': 'אין מאמר עם מזהה זה',
+
+    // Relations & citation graph
+    'nav.graph': 'גרף ציטוטים',
+    'relations.title': 'מאמרים קשורים',
+    'relations.none': 'אין עדיין מאמרים קשורים',
+    'relations.outgoing.cites': 'מצטט את',
+    'relations.outgoing.extends': 'מרחיב את',
+    'relations.outgoing.contradicts': 'סותר את',
+    'relations.outgoing.replicates': 'משחזר את',
+    'relations.incoming.cites': 'מצוטט על ידי',
+    'relations.incoming.extends': 'מורחב על ידי',
+    'relations.incoming.contradicts': 'נסתר על ידי',
+    'relations.incoming.replicates': 'משוחזר על ידי',
+    'relations.same-dataset': 'אותם נתונים',
+    'relations.searchArticle': 'חיפוש מאמר לפי מזהה, כותרת או מחבר...',
+    'relations.note': 'הערה (אופציונלי)',
+    'relations.add': 'הוספה',
+    'relations.addFailed': 'לא ניתן להוסיף את הקשר',
+    'relations.deleteFailed': 'לא ניתן למחוק את הקשר',
+    'relations.detect': 'חיפוש ציטוטים ב-PDF',
+    'relations.detecting': 'מחפש...',
+    'relations.detected': 'נמצאו {count} ציטוטים חדשים',
+    'relations.noReferenceList': 'לא נמצאה רשימת מקורות בטקסט של ה-PDF',
+    'relations.detectFailed': 'זיהוי הציטוטים נכשל',
+    'relations.autoHint': 'נמצא ברשימת המקורות של ה-PDF',
+    'relations.openGraph': 'פתיחת גרף הציטוטים',
+    'graph.title': 'גרף ציטוטים',
+    'graph.description': 'קשרים בין מאמרי הספרייה. לחצו על מאמר כדי לפתוח אותו, גררו כדי להזיז, גללו כדי להגדיל.',
+    'graph.detectAll': 'חיפוש ציטוטים בכל קובצי ה-PDF',
+    'graph.detected': 'נקראו {articles} רשימות מקורות, {count} ציטוטים חדשים',
+    'graph.loadFailed': 'לא ניתן לטעון את הגרף',
+    'graph.wholeLibrary': 'כל הספרייה',
+    'graph.counts': '{articles} מאמרים, {relations} קשרים',
+    'graph.empty': 'אין עדיין קשרים. הוסיפו אותם מדף מאמר, או חפשו ציטוטים בקובצי ה-PDF.',
+    'graph.emptyCollection': 'אין מאמרים באוסף זה',
+    'graph.legend': 'מלא: נקרא · טבעת כתומה: מועדף · מקווקו: נמצא ברשימת המקורות של PDF',
+    'settings.detectRelations': 'חיפוש ציטוטים בקובצי PDF שהועלו',
+    'settings.detectRelations.desc': 'התאמת רשימת המקורות של כל PDF שהועלה ל-DOI ולכותרות שבספרייה',
+
+    // Reference list of the PDF
+    'references.title': 'מקורות ב-PDF',
+    'references.summary': '{count} רשומות, {matched} בספרייה',
+    'references.reading': 'קורא את רשימת המקורות...',
+    'references.loadFailed': 'לא ניתן לקרוא את רשימת המקורות',
+    'references.noPdfText': 'אין טקסט PDF לקריאה: הוסיפו תחילה PDF למאמר זה',
+    'references.reload': 'קריאה מחדש',
+    'references.filter.all': 'הכל',
+    'references.filter.matched': 'בספרייה',
+    'references.filter.missing': 'מחוץ לספרייה',
+    'references.inLibrary': 'בספרייה',
+    'references.notInLibrary': 'עדיין לא בספרייה',
+    'references.matchBy.doi': 'אותו DOI',
+    'references.matchBy.title': 'אותה כותרת',
+    'references.addArticle': 'הוספה כמאמר חדש',
+    'addArticle.fromReference': 'מולא מרשימת המקורות של מאמר {id}',
+    'addArticle.fromReferenceHint': 'השדות נוחשו מהרשומה שלהלן: בדקו אותם לפני השמירה.',
+    'addArticle.fromReferenceDoiHint': 'השדות נוחשו מהרשומה שלהלן: השתמשו ב"מילוי לפי DOI" כדי לקבל את המטא-נתונים הרשומים.',
+
+    // History and Trash
+    'nav.trash': 'סל מחזור',
+    'history.title': 'היסטוריה',
+    'history.none': 'עדיין לא נרשמו גרסאות.',
+    'history.empty': '(ריק)',
+    'history.current': 'נוכחית',
+    'history.noChanges': 'אף שדה לא השתנה.',
+    'history.firstRevision': 'הגרסה הרשומה הראשונה של המאמר.',
+    'history.restore': 'שחזר גרסה זו',
+    'history.restoreConfirm': 'לשחזר את השדות והרשימות של המאמר כפי שהיו ב-{date}? הגרסה הנוכחית תישאר בהיסטוריה.',
+    'history.restoreFailed': 'שחזור הגרסה נכשל',
+    'history.action.create': 'נוצר',
+    'history.action.update': 'נערך',
+    'history.action.restore': 'שוחזר',
+    'history.action.delete': 'נמחק',
+    'history.action.undelete': 'הוחזר',
+    'history.action.merge': 'מוזג',
+    'trash.title': 'סל מחזור',
+    'trash.description': 'מאמרים שנמחקו, עם קובצי ה-PDF וההערות שלהם. ניתן לשחזר אותם כפי שהיו, עם האוספים, ההערות והקשרים שלהם, עד תום תקופת השמירה שהוגדרה בהגדרות.',
+    'trash.empty': 'סל המחזור ריק.',
+    'trash.open': 'פתח',
+    'trash.restore': 'שחזר',
+    'trash.restored': 'המאמר {id} שוחזר.',
+    'trash.restoreFailed': 'שחזור המאמר נכשל',
+    'trash.loadFailed': 'טעינת סל המחזור נכשלה',
+    'trash.deletedAt': 'נמחק ב-{date}',
+    'trash.pdfKept': 'ה-PDF נשמר',
+    'trash.noPdf': 'אין PDF',
+    'trash.noteKept': 'ההערה נשמרה',
+    'trash.noNote': 'אין הערה',
+
+    // Trash: permanent delete and retention
+    'trash.purge': 'מחק לצמיתות',
+    'trash.purgeConfirm': 'למחוק לצמיתות את המאמר {id} "{title}", עם ה-PDF, ההערה וההיסטוריה שלו? לא ניתן לבטל פעולה זו.',
+    'trash.purged': 'המאמר {id} נמחק לצמיתות.',
+    'trash.purgeFailed': 'המחיקה לצמיתות נכשלה',
+    'trash.empty.button': 'רוקן סל מחזור',
+    'trash.emptying': 'מרוקן...',
+    'trash.emptyConfirm': 'למחוק לצמיתות את {count} המאמרים שבסל המחזור, עם קובצי ה-PDF, ההערות וההיסטוריה שלהם? לא ניתן לבטל פעולה זו.',
+    'trash.emptied': '{count} מאמרים נמחקו לצמיתות.',
+    'trash.purgeAt': 'יימחק לצמיתות אחרי {date}',
+    'settings.trashRetention': 'שמירת מאמרים שנמחקו בסל המחזור',
+    'settings.trashRetention.days': '{days} ימים',
+    'settings.trashRetention.never': 'עד שסל המחזור ירוקן',
+    'settings.trashRetention.desc': 'מאמרים ישנים יותר נמחקים לצמיתות בעת הפעלת היישום.',
+
+    // Backups
+    'backup.title': 'גיבויים',
+    'backup.description': 'עותקים של מסד הנתונים (ובאופן אופציונלי של קובצי ה-PDF וההערות) נשמרים בתיקיית backups שבאחסון. כל גיבוי נבדק בעת יצירתו; שחזור גיבוי מפעיל מחדש את היישום.',
+    'backup.schedule': 'גיבוי אוטומטי',
+    'backup.schedule.daily': 'פעם ביום',
+    'backup.schedule.startup': 'בכל הפעלה',
+    'backup.schedule.off': 'אף פעם',
+    'backup.keep': 'גיבויים שנשמרים',
+    'backup.keep.count': '{count} האחרונים',
+    'backup.keep.all': 'הכול',
+    'backup.includeFiles': 'כלול קובצי PDF והערות',
+    'backup.includeFiles.desc': 'גיבויים גדולים יותר, אבל שחזור מחזיר גם את הקבצים',
+    'backup.create': 'גבה עכשיו',
+    'backup.creating': 'מגבה...',
+    'backup.created': 'הגיבוי נוצר ({size})',
+    'backup.createFailed': 'הגיבוי נכשל',
+    'backup.list': 'גיבויים ({count})',
+    'backup.none': 'אין עדיין גיבויים',
+    'backup.trigger.manual': 'ידני',
+    'backup.trigger.startup': 'הפעלה',
+    'backup.trigger.daily': 'יומי',
+    'backup.trigger.pre-migration': 'לפני עדכון',
+    'backup.trigger.pre-restore': 'לפני שחזור',
+    'backup.details': '{articles} מאמרים · {size}',
+    'backup.withFiles': '{count} קבצים',
+    'backup.verify': 'בדוק',
+    'backup.verified': 'הגיבוי תקין',
+    'backup.verifyFailed': 'הגיבוי פגום',
+    'backup.restore': 'שחזר',
+    'backup.restoreConfirm': 'להחליף את הספרייה בגיבוי מתאריך {date}? הספרייה הנוכחית תגובה תחילה, והיישום יופעל מחדש.',
+    'backup.restoreConfirmFiles': 'להחליף את הספרייה, קובצי ה-PDF וההערות בגיבוי מתאריך {date}? הספרייה הנוכחית תגובה תחילה, והיישום יופעל מחדש.',
+    'backup.restarting': 'הגיבוי מוכן, מפעיל מחדש...',
+    'backup.restoreFailed': 'השחזור נכשל',
+    'backup.delete': 'מחק גיבוי',
+    'backup.deleteConfirm': 'למחוק את הגיבוי מתאריך {date}?',
+    'backup.deleteFailed': 'המחיקה נכשלה',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': 'לא ניתן היה לפתוח את הספרייה',
+    'startup.migrationFailed': 'עדכון מסד הנתונים לגרסה זו של האפליקציה נכשל. העדכון בוטל, ולכן מסד הנתונים נשאר כפי שהיה.',
+    'startup.openFailed': 'לא ניתן היה לפתוח או לעדכן את מסד הנתונים, ולכן האפליקציה לא הופעלה כדי לא לפגוע בספרייה שלך.',
+    'startup.backupAdvice': 'מסד הנתונים גובה ממש לפני העדכון. נסה שוב עם הגרסה העדכנית של האפליקציה, או שים את {file} מתיקיית הגיבוי במקום קובץ מסד הנתונים.',
+    'startup.noBackupAdvice': 'נסה שוב עם הגרסה העדכנית של האפליקציה. הגיבויים האוטומטיים נמצאים בתיקיית הגיבויים.',
+    'startup.migration': 'הגירה',
+    'startup.error': 'שגיאה',
+    'startup.database': 'מסד נתונים',
+    'startup.backup': 'גיבוי',
+    'startup.openBackups': 'פתח את תיקיית הגיבויים',
+    'startup.quit': 'יציאה',
   },
 
   it: {
@@ -2386,7 +5179,6 @@ export const translations: Record<Language, Record<string, string>> = {
     'storage.copyingFiles': 'Copia dei file nell\'archivio esterno...',
     'storage.copyFailed': 'Copia fallita',
     'storage.copyConfirm': 'Questo copierà tutti i PDF e le note esistenti in:\n{path}\n\nContinuare?',
-    'importExport.selectCsvFile': 'Seleziona un file CSV',
 
     // File Migration
     'migration.title': 'Migrazione file',
@@ -2406,10 +5198,9 @@ export const translations: Record<Language, Record<string, string>> = {
     'importExport.exporting': 'Esportazione...',
     'importExport.import': 'Importa dati',
     'importExport.importing': 'Importazione...',
-    'importExport.selectFile': 'Clicca per selezionare file CSV',
     'importExport.csvFormat': 'Formato CSV: La prima riga deve contenere le intestazioni. Usa il punto e virgola (;) per separare valori multipli.',
     'importExport.viewColumns': 'Visualizza nomi colonne per importazione',
-    'importExport.analysis': 'Analisi CSV',
+    'importExport.analysis': 'Analisi importazione',
     'importExport.total': 'Articoli trovati totali:',
     'importExport.toImport': 'Da importare:',
     'importExport.duplicates': 'Duplicati:',
@@ -2495,8 +5286,409 @@ export const translations: Record<Language, Record<string, string>> = {
     'preview.markNotFavorite': 'Non preferito',
     'preview.delete': 'Elimina',
     'preview.deleteTitle': 'Elimina articolo',
-    'preview.deleteWarning': 'Sei sicuro di voler eliminare questo articolo? Questa azione è permanente e non può essere annullata.',
+    'preview.deleteWarning': 'Sei sicuro di voler eliminare questo articolo? Verrà spostato nel cestino con il suo PDF e la nota, da cui potrà essere ripristinato.',
     'preview.typeIdToConfirm': 'Per confermare, digita l\'ID dell\'articolo qui sotto:',
     'preview.typeIdPlaceholder': 'Digita ID articolo qui',
+
+    // Full library JSON export/import
+    'libraryJson.title': 'Libreria completa (JSON)',
+    'libraryJson.description': 'Copia completa della libreria: ogni articolo con il suo ID, autori, parole chiave, argomenti, tag, università, aziende, collezioni, viste salvate, annotazioni, relazioni, cronologia, testo estratto dai PDF, impostazioni e contatore ID. PDF e note non sono inclusi.',
+    'libraryJson.exportBtn': 'Esporta libreria in JSON',
+    'libraryJson.importBtn': 'Importa JSON della libreria...',
+    'libraryJson.modeMerge': 'Unisci',
+    'libraryJson.modeReplace': 'Sostituisci',
+    'libraryJson.modeMergeHelp': 'Unisci: mantiene la libreria attuale e aggiunge gli articoli il cui ID non è ancora usato.',
+    'libraryJson.modeReplaceHelp': 'Sostituisci: elimina la libreria attuale e ripristina il file così com\'è, impostazioni incluse.',
+    'libraryJson.report': 'Rapporto di importazione (simulazione)',
+    'libraryJson.mode': 'Modalità:',
+    'libraryJson.exportedAt': 'Esportato il:',
+    'libraryJson.skippedIds': 'ID già in uso (saltati):',
+    'libraryJson.entityCounts': '{created} nuovi, {matched} esistenti',
+    'libraryJson.relations': 'Collegamenti ripristinati:',
+    'libraryJson.nextId': 'Prossimo ID articolo:',
+    'libraryJson.replaceWarning': 'Tutti gli articoli attuali e i loro collegamenti verranno eliminati prima dell\'importazione.',
+    'libraryJson.exportSuccess': '{count} articoli esportati in JSON!',
+    'libraryJson.exportError': 'Esportazione JSON non riuscita',
+    'libraryJson.importSuccess': 'Importazione della libreria completata! {count} articoli importati',
+    'libraryJson.importError': 'Importazione JSON non riuscita',
+
+    // Full-text search
+    'library.pdfText': 'Testo completo del PDF',
+    'library.pdfPage': 'PDF p. {page}',
+
+    // Bibliographic formats
+    'importExport.exportFormat': 'Esporta {format}',
+    'importExport.selectAnyFile': 'Clicca per selezionare un file ({formats})',
+    'importExport.unsupportedFile': 'Tipo di file non supportato. Supportati: {formats}',
+    'importExport.unreadable': '{count} voci non leggibili',
+    'library.exportSelection': 'Esporta {format} ({count})',
+    'library.exportSelectionHint': 'Esporta gli articoli selezionati, o tutti quelli filtrati se nessuno è selezionato',
+    'article.exportFormat': 'Esporta {format}',
+
+    // Citations & bibliography
+    'article.citation': 'Citazione',
+    'article.copyCitation': 'Copia citazione',
+    'article.citationCopied': 'Copiata',
+    'article.copyCitationFailed': 'Impossibile copiare la citazione',
+    'library.bibliography': 'Bibliografia ({count})',
+    'library.bibliographyTitle': 'Genera bibliografia',
+    'library.bibliographyDescription': 'Elenco dei riferimenti dei {count} articoli mostrati (filtri applicati).',
+    'library.citationStyle': 'Stile di citazione',
+    'library.bibliographyFormat': 'Formato del file',
+    'library.bibliographyFormat.text': 'Testo semplice',
+    'library.bibliographyFormat.html': 'HTML',
+    'library.bibliographyFormat.docx': 'Word (.docx)',
+    'library.generateBibliography': 'Genera',
+    'library.generating': 'Generazione...',
+    'library.bibliographyFailed': 'Generazione della bibliografia non riuscita',
+
+    // PDF metadata suggestions
+    'addArticle.analyzingPdf': 'Lettura dei metadati del PDF...',
+    'addArticle.suggestions': 'Valori suggeriti',
+    'addArticle.suggestionsHint': 'Trovati nel PDF o tramite la ricerca del DOI. Controlla ogni valore prima di accettarlo.',
+    'addArticle.acceptAll': 'Accetta tutto',
+    'addArticle.rejectAll': 'Rifiuta tutto',
+    'addArticle.accept': 'Accetta',
+    'addArticle.reject': 'Rifiuta',
+    'addArticle.replaces': 'Sostituisce: {value}',
+    'addArticle.confidenceHigh': 'Alta',
+    'addArticle.confidenceMedium': 'Media',
+    'addArticle.confidenceLow': 'Bassa',
+    'addArticle.source.xmp': 'Metadati dell\'editore (XMP)',
+    'addArticle.source.info': 'Proprietà del documento',
+    'addArticle.source.text': 'Testo della prima pagina',
+
+    // DOI metadata lookup
+    'addArticle.fillFromDoi': 'Compila dal DOI',
+    'addArticle.fillFromDoiHint': 'Cerca il DOI o l\'ID arXiv su Crossref e DataCite',
+    'addArticle.fillingFromDoi': 'Ricerca...',
+    'addArticle.doiLookupFailed': 'Ricerca del DOI non riuscita',
+    'addArticle.source.crossref': 'Crossref',
+    'addArticle.source.datacite': 'DataCite',
+    'library.refreshMetadata': 'Aggiorna metadati ({count})',
+    'library.refreshMetadataHint': 'Cerca il DOI di ogni articolo mostrato e controlla le differenze',
+    'library.refreshMetadataTitle': 'Aggiorna metadati',
+    'library.refreshMetadataProgress': 'Ricerca di {done} su {total} articoli...',
+    'library.refreshMetadataDone': '{count} articoli cercati, {changed} con differenze o errori. Deseleziona le modifiche che non vuoi.',
+    'library.refreshMetadataFailed': 'Impossibile applicare le modifiche ai metadati',
+    'library.applyChanges': 'Applica {count} modifica/e',
+    'library.applying': 'Applicazione...',
+    'metadataLookup.title': 'Ricerca metadati',
+    'metadataLookup.description': 'DOI e ID arXiv vengono cercati prima su Crossref, poi su DataCite. Cambia gli URL per usare un mirror o un server locale.',
+    'metadataLookup.crossrefUrl': 'URL API Crossref',
+    'metadataLookup.dataciteUrl': 'URL API DataCite',
+    'metadataLookup.localServerHint': 'Offline: esegui "npm run metadata-server" e usa http://localhost:4500 per entrambi.',
+    'metadataLookup.save': 'Salva impostazioni di ricerca',
+    'metadataLookup.reset': 'Ripristina predefiniti',
+    'metadataLookup.saved': 'Impostazioni di ricerca salvate!',
+
+    // Duplicates
+    'nav.duplicates': 'Duplicati',
+    'duplicates.title': 'Duplicati',
+    'duplicates.description': 'Articoli con lo stesso DOI, o un titolo simile e autori in comune (ad es. un preprint e la sua versione pubblicata).',
+    'duplicates.scan': 'Analizza di nuovo',
+    'duplicates.scanning': 'Analisi...',
+    'duplicates.scanFailed': 'Ricerca dei duplicati non riuscita',
+    'duplicates.none': 'Nessun duplicato trovato',
+    'duplicates.review': 'Esamina e unisci',
+    'duplicates.reason.doi': 'Stesso DOI',
+    'duplicates.reason.title': 'Titolo simile',
+    'duplicates.reason.authors': 'Autori in comune',
+    'duplicates.mergeTitle': 'Unisci duplicati',
+    'duplicates.mergeDescription': 'Scegli il valore da mantenere per ogni campo diverso. #{retire} verrà rimosso e il suo ID aprirà #{keep}.',
+    'duplicates.keep': 'Mantieni #{id}',
+    'duplicates.noPdf': 'Nessun PDF',
+    'duplicates.identicalFields': '{count} campi identici non mostrati',
+    'duplicates.unionHint': 'Le relazioni di entrambi gli articoli vengono mantenute:',
+    'duplicates.merge': 'Unisci #{retire} in #{keep}',
+    'duplicates.merging': 'Unione...',
+    'duplicates.mergeFailed': 'Unione non riuscita',
+    'duplicates.pdfAnnotationsHint': 'Le annotazioni seguono il PDF conservato: quelle fatte sull\'altro PDF vengono eliminate.',
+
+    // Manage taxonomy
+    'nav.taxonomy': 'Tassonomia',
+    'taxonomy.title': 'Gestisci tassonomia',
+    'taxonomy.description': 'Ripulisci le varianti di scrittura: rinomina, unisci voci, elimina quelle inutilizzate. Gli alias sono altre grafie collegate a una voce quando si aggiungono o importano articoli.',
+    'taxonomy.filter': 'Filtra per nome o alias...',
+    'taxonomy.unusedOnly': 'Solo inutilizzate',
+    'taxonomy.mergeSelected': 'Unisci selezionate ({count})',
+    'taxonomy.deleteUnused': 'Elimina inutilizzate ({count})',
+    'taxonomy.usage': 'Articoli',
+    'taxonomy.aliases': 'Alias',
+    'taxonomy.addAlias': '+ alias',
+    'taxonomy.rename': 'Rinomina',
+    'taxonomy.empty': 'Nessuna voce',
+    'taxonomy.renamed': 'Rinominato',
+    'taxonomy.merged': '{count} voci unite',
+    'taxonomy.deleted': '{count} voci inutilizzate eliminate',
+    'taxonomy.mergeTitle': 'Unisci voci',
+    'taxonomy.mergeDescription': 'Questa voce viene mantenuta. Le altre vengono rimosse, i loro articoli collegati a essa e i loro nomi diventano alias.',
+    'taxonomy.merge': 'Unisci',
+    'taxonomy.deleteUnusedTitle': 'Elimina voci inutilizzate',
+    'taxonomy.deleteUnusedConfirm': 'Eliminare {count} voci non usate da alcun articolo? Anche i loro alias vengono eliminati.',
+
+    // Library bulk actions
+    'library.bulkSelected': '{count} selezionato/i',
+    'library.bulkSelectAll': 'Seleziona tutti gli articoli mostrati',
+    'library.bulkEditRelations': 'Tag / parole chiave / argomenti',
+    'library.bulkMode.add': 'Aggiungi',
+    'library.bulkMode.remove': 'Rimuovi',
+    'library.bulkRelationPlaceholder': 'Nomi, separati da virgole',
+    'library.bulkMarkRead': 'Segna come letto',
+    'library.bulkMarkUnread': 'Segna come non letto',
+    'library.bulkFavorite': 'Preferito',
+    'library.bulkUnfavorite': 'Rimuovi dai preferiti',
+    'library.bulkSetRating': 'Imposta valutazione…',
+    'library.bulkRegenerateNotes': 'Rigenera note',
+    'library.bulkWorking': 'In corso...',
+    'library.bulkClear': 'Cancella selezione',
+    'library.bulkFailed': 'Modifica multipla non riuscita',
+    'library.bulkNotesFailed': 'Impossibile generare {count} nota/e',
+    'library.bulkDeleteTitle': 'Elimina articoli',
+    'library.bulkDeleteConfirm': 'Eliminare {count} articolo/i? Verranno spostati nel cestino con i loro PDF e note.',
+    'library.bulkDeleteButton': 'Elimina {count} articolo/i',
+
+    // Collections
+    'nav.collections': 'Raccolte',
+    'collections.title': 'Raccolte',
+    'collections.description': 'Liste di lettura con nome e ordine (un capitolo di tesi, una rassegna...). Le raccolte possono essere annidate e compaiono nella barra laterale.',
+    'collections.newPlaceholder': 'Nome della nuova raccolta',
+    'collections.createInside': '➕ Crea dentro "{name}"',
+    'collections.empty': 'Ancora nessuna raccolta',
+    'collections.selectHint': 'Seleziona o crea una raccolta',
+    'collections.moveUp': 'Sposta su',
+    'collections.moveDown': 'Sposta giù',
+    'collections.indent': 'Annida',
+    'collections.indentHint': 'Sposta nella raccolta sopra',
+    'collections.outdent': 'Estrai',
+    'collections.outdentHint': 'Sposta fuori dalla raccolta padre',
+    'collections.showInLibrary': 'Mostra nella libreria',
+    'collections.descriptionPlaceholder': 'Descrizione (facoltativa)',
+    'collections.exportHint': 'Esporta una cartella con i PDF, le note e una bibliografia (sottoraccolte incluse)',
+    'collections.export': 'Esporta pacchetto',
+    'collections.exporting': 'Esportazione...',
+    'collections.exported': '{count} articolo/i esportato/i ({pdfs} PDF, {notes} note) in {path}',
+    'collections.addPlaceholder': 'Aggiungi un articolo: cerca per ID, titolo o autore',
+    'collections.articles': 'Articoli ({count})',
+    'collections.noArticles': 'Ancora nessun articolo in questa raccolta',
+    'collections.removeArticle': 'Rimuovi dalla raccolta',
+    'collections.deleteTitle': 'Elimina raccolta',
+    'collections.deleteConfirm': 'Eliminare la raccolta "{name}"? I suoi articoli restano nella libreria e le sue sottoraccolte salgono di un livello.',
+    'library.collectionFilter': 'Raccolta: {name}',
+    'library.manageCollection': 'Gestisci',
+    'library.showAllArticles': 'Mostra tutti gli articoli',
+    'library.bulkAddToCollection': 'Aggiungi a raccolta…',
+
+    // Saved views
+    'nav.savedViews': 'Viste salvate',
+    'library.saveView': 'Salva vista',
+    'library.saveViewTitle': 'Salva la vista corrente',
+    'library.viewNamePlaceholder': 'Nome della vista...',
+    'library.viewQuery': 'Filtri, ricerca e ordinamento',
+    'library.viewQueryEmpty': '(tutti gli articoli)',
+    'library.updateView': 'Salva le modifiche in "{name}"',
+    'library.deleteView': 'Elimina vista',
+
+    // Search query language
+    'search.syntaxHelp': 'Parole e "frasi esatte", o campi: author:"Smith" tag:ml year:2018..2022 rating>=4 added>=2024-01 journal: keyword: collection: - indicatori read / favorite, -termine esclude, OR, (gruppi). Tab completa.',
+
+    // Library facets
+    'library.matchAny': 'Almeno uno',
+    'library.matchAll': 'Tutti',
+    'library.matchAnyHint': 'Articoli con almeno uno dei valori selezionati',
+    'library.matchAllHint': 'Articoli con tutti i valori selezionati',
+    'library.hideEmptyFacets': 'Nascondi le opzioni di filtro senza articoli',
+
+    // PDF reader
+    'reader.annotations': 'Annotazioni',
+    'reader.noAnnotations': 'Seleziona del testo per evidenziarlo, oppure usa 📝 per fissare una nota su una pagina.',
+    'reader.highlight': 'Evidenzia',
+    'reader.highlightWithComment': 'Evidenzia e commenta',
+    'reader.noteTool': 'Nota: fai clic sulla pagina dove fissarla',
+    'reader.bookmarkPage': 'Aggiungi un segnalibro a questa pagina',
+    'reader.removeBookmark': 'Rimuovi il segnalibro da questa pagina',
+    'reader.toggleAnnotations': 'Mostra o nascondi le annotazioni',
+    'reader.page': 'Pagina {page}',
+    'reader.zoomIn': 'Ingrandisci',
+    'reader.zoomOut': 'Riduci',
+    'reader.commentPlaceholder': 'Aggiungi un commento...',
+    'reader.deleteAnnotation': 'Elimina l\'annotazione',
+    'reader.saveFailed': 'Impossibile salvare l\'annotazione',
+
+    // Annotation exports
+    'reader.export': 'Esporta annotazioni',
+    'reader.exportPdf': 'PDF annotato',
+    'reader.exportMarkdown': 'Riepilogo (Markdown)',
+    'reader.exportDocx': 'Riepilogo (Word)',
+    'reader.exported': 'Salvato in {path}',
+    'reader.exportFailed': 'Esportazione non riuscita',
+    'settings.noteAnnotations': 'Annotazioni nelle note generate',
+    'settings.noteAnnotations.desc': 'Aggiungere evidenziazioni e note del lettore PDF alla nota Word, raggruppate per pagina e colore',
+
+    // PDF annotation import
+    'reader.rescan': 'Rileggi le annotazioni del PDF',
+    'reader.rescanHint': 'Importa di nuovo evidenziazioni e note fatte in altri lettori (quelle che hai modificato o eliminato restano come sono)',
+    'reader.rescanFailed': 'Impossibile leggere le annotazioni del PDF',
+    'reader.importedHint': 'Importata dal file PDF',
+
+    // Markdown note fields
+    'markdown.write': 'Scrivi',
+    'markdown.preview': 'Anteprima',
+    'markdown.empty': 'Niente da mostrare',
+    'markdown.hint': '# Titolo, **grassetto**, *corsivo*, - elenco, `codice`, ```blocco di codice```, $formula$, [[0042]] link a un articolo',
+    'markdown.missingArticle': 'Nessun articolo con questo ID',
+
+    // Relations & citation graph
+    'nav.graph': 'Grafo delle citazioni',
+    'relations.title': 'Articoli correlati',
+    'relations.none': 'Ancora nessun articolo correlato',
+    'relations.outgoing.cites': 'Cita',
+    'relations.outgoing.extends': 'Estende',
+    'relations.outgoing.contradicts': 'Contraddice',
+    'relations.outgoing.replicates': 'Replica',
+    'relations.incoming.cites': 'Citato da',
+    'relations.incoming.extends': 'Esteso da',
+    'relations.incoming.contradicts': 'Contraddetto da',
+    'relations.incoming.replicates': 'Replicato da',
+    'relations.same-dataset': 'Stessi dati',
+    'relations.searchArticle': 'Cerca un articolo per ID, titolo o autore...',
+    'relations.note': 'Nota (facoltativa)',
+    'relations.add': 'Aggiungi',
+    'relations.addFailed': 'Impossibile aggiungere la relazione',
+    'relations.deleteFailed': 'Impossibile eliminare la relazione',
+    'relations.detect': 'Trova le citazioni nel PDF',
+    'relations.detecting': 'Ricerca...',
+    'relations.detected': '{count} nuova/e citazione/i trovata/e',
+    'relations.noReferenceList': 'Nessuna bibliografia trovata nel testo del PDF',
+    'relations.detectFailed': 'Rilevamento delle citazioni non riuscito',
+    'relations.autoHint': 'Trovato nella bibliografia del PDF',
+    'relations.openGraph': 'Apri il grafo delle citazioni',
+    'graph.title': 'Grafo delle citazioni',
+    'graph.description': 'Relazioni tra gli articoli della libreria. Fai clic su un articolo per aprirlo, trascinalo per spostarlo, usa la rotellina per lo zoom.',
+    'graph.detectAll': 'Trova le citazioni in tutti i PDF',
+    'graph.detected': '{articles} bibliografia/e lette, {count} nuova/e citazione/i',
+    'graph.loadFailed': 'Impossibile caricare il grafo',
+    'graph.wholeLibrary': 'Tutta la libreria',
+    'graph.counts': '{articles} articoli, {relations} relazioni',
+    'graph.empty': 'Ancora nessuna relazione. Aggiungile dalla pagina di un articolo o cerca le citazioni nei PDF.',
+    'graph.emptyCollection': 'Questa raccolta non contiene articoli',
+    'graph.legend': 'Pieno: letto · Anello arancione: preferito · Tratteggiato: trovato nella bibliografia di un PDF',
+    'settings.detectRelations': 'Trova le citazioni nei PDF caricati',
+    'settings.detectRelations.desc': 'Confronta la bibliografia di ogni PDF caricato con i DOI e i titoli della libreria',
+
+    // Reference list of the PDF
+    'references.title': 'Riferimenti del PDF',
+    'references.summary': '{count} voci, {matched} nella libreria',
+    'references.reading': 'Lettura della bibliografia...',
+    'references.loadFailed': 'Impossibile leggere la bibliografia',
+    'references.noPdfText': 'Nessun testo PDF da leggere: aggiungi prima un PDF a questo articolo',
+    'references.reload': 'Rileggi',
+    'references.filter.all': 'Tutte',
+    'references.filter.matched': 'Nella libreria',
+    'references.filter.missing': 'Fuori dalla libreria',
+    'references.inLibrary': 'Nella libreria',
+    'references.notInLibrary': 'Non ancora nella libreria',
+    'references.matchBy.doi': 'stesso DOI',
+    'references.matchBy.title': 'stesso titolo',
+    'references.addArticle': 'Aggiungi come nuovo articolo',
+    'addArticle.fromReference': 'Compilato dalla bibliografia dell\'articolo {id}',
+    'addArticle.fromReferenceHint': 'I campi sono stati dedotti dalla voce qui sotto: controllali prima di salvare.',
+    'addArticle.fromReferenceDoiHint': 'I campi sono stati dedotti dalla voce qui sotto: usa "Compila dal DOI" per ottenere i metadati registrati.',
+
+    // History and Trash
+    'nav.trash': 'Cestino',
+    'history.title': 'Cronologia',
+    'history.none': 'Nessuna versione registrata finora.',
+    'history.empty': '(vuoto)',
+    'history.current': 'attuale',
+    'history.noChanges': 'Nessun campo modificato.',
+    'history.firstRevision': 'Prima versione registrata dell\'articolo.',
+    'history.restore': 'Ripristina questa versione',
+    'history.restoreConfirm': 'Ripristinare i campi e gli elenchi dell\'articolo com\'erano il {date}? La versione attuale resta nella cronologia.',
+    'history.restoreFailed': 'Impossibile ripristinare la versione',
+    'history.action.create': 'Creato',
+    'history.action.update': 'Modificato',
+    'history.action.restore': 'Ripristinato',
+    'history.action.delete': 'Eliminato',
+    'history.action.undelete': 'Recuperato',
+    'history.action.merge': 'Unito',
+    'trash.title': 'Cestino',
+    'trash.description': 'Articoli eliminati, con i loro PDF e note. Possono essere ripristinati così com\'erano, con raccolte, annotazioni e relazioni, fino alla fine del periodo di conservazione impostato nelle Impostazioni.',
+    'trash.empty': 'Il cestino è vuoto.',
+    'trash.open': 'Apri',
+    'trash.restore': 'Ripristina',
+    'trash.restored': 'Articolo {id} ripristinato.',
+    'trash.restoreFailed': 'Impossibile ripristinare l\'articolo',
+    'trash.loadFailed': 'Impossibile caricare il cestino',
+    'trash.deletedAt': 'eliminato il {date}',
+    'trash.pdfKept': 'PDF conservato',
+    'trash.noPdf': 'Nessun PDF',
+    'trash.noteKept': 'Nota conservata',
+    'trash.noNote': 'Nessuna nota',
+
+    // Trash: permanent delete and retention
+    'trash.purge': 'Elimina definitivamente',
+    'trash.purgeConfirm': 'Eliminare definitivamente l\'articolo {id} "{title}", con il suo PDF, la nota e la cronologia? Questa azione non può essere annullata.',
+    'trash.purged': 'Articolo {id} eliminato definitivamente.',
+    'trash.purgeFailed': 'Impossibile eliminare definitivamente',
+    'trash.empty.button': 'Svuota cestino',
+    'trash.emptying': 'Svuotamento...',
+    'trash.emptyConfirm': 'Eliminare definitivamente {count} articolo/i nel cestino, con i loro PDF, note e cronologia? Questa azione non può essere annullata.',
+    'trash.emptied': '{count} articolo/i eliminato/i definitivamente.',
+    'trash.purgeAt': 'eliminato definitivamente dopo il {date}',
+    'settings.trashRetention': 'Conserva gli articoli eliminati nel cestino',
+    'settings.trashRetention.days': '{days} giorni',
+    'settings.trashRetention.never': 'Fino allo svuotamento del cestino',
+    'settings.trashRetention.desc': 'Gli articoli più vecchi vengono eliminati definitivamente all\'avvio dell\'app.',
+
+    // Backups
+    'backup.title': 'Backup',
+    'backup.description': 'Le copie del database (e facoltativamente dei PDF e delle note) sono conservate nella cartella backups dell\'archivio. Ogni backup viene verificato alla creazione; ripristinarne uno riavvia l\'applicazione.',
+    'backup.schedule': 'Backup automatico',
+    'backup.schedule.daily': 'Una volta al giorno',
+    'backup.schedule.startup': 'A ogni avvio',
+    'backup.schedule.off': 'Mai',
+    'backup.keep': 'Backup conservati',
+    'backup.keep.count': 'Gli ultimi {count}',
+    'backup.keep.all': 'Tutti',
+    'backup.includeFiles': 'Includi PDF e note',
+    'backup.includeFiles.desc': 'Backup più grandi, ma il ripristino recupera anche i file',
+    'backup.create': 'Esegui backup ora',
+    'backup.creating': 'Backup in corso...',
+    'backup.created': 'Backup creato ({size})',
+    'backup.createFailed': 'Backup non riuscito',
+    'backup.list': 'Backup ({count})',
+    'backup.none': 'Ancora nessun backup',
+    'backup.trigger.manual': 'Manuale',
+    'backup.trigger.startup': 'Avvio',
+    'backup.trigger.daily': 'Giornaliero',
+    'backup.trigger.pre-migration': 'Prima dell\'aggiornamento',
+    'backup.trigger.pre-restore': 'Prima del ripristino',
+    'backup.details': '{articles} articoli · {size}',
+    'backup.withFiles': '{count} file',
+    'backup.verify': 'Verifica',
+    'backup.verified': 'Il backup è integro',
+    'backup.verifyFailed': 'Il backup è danneggiato',
+    'backup.restore': 'Ripristina',
+    'backup.restoreConfirm': 'Sostituire la libreria con il backup del {date}? Prima viene salvata la libreria attuale, poi l\'applicazione si riavvia.',
+    'backup.restoreConfirmFiles': 'Sostituire la libreria, i PDF e le note con il backup del {date}? Prima viene salvata la libreria attuale, poi l\'applicazione si riavvia.',
+    'backup.restarting': 'Backup pronto, riavvio...',
+    'backup.restoreFailed': 'Ripristino non riuscito',
+    'backup.delete': 'Elimina backup',
+    'backup.deleteConfirm': 'Eliminare il backup del {date}?',
+    'backup.deleteFailed': 'Eliminazione non riuscita',
+
+    // Startup error screen (shown by the main process when the database can't be opened)
+    'startup.title': 'Impossibile aprire la libreria',
+    'startup.migrationFailed': 'L\'aggiornamento del database a questa versione dell\'app non è riuscito. È stato annullato, quindi il database è com\'era prima.',
+    'startup.openFailed': 'Non è stato possibile aprire o aggiornare il database, quindi l\'app non è stata avviata per non danneggiare la libreria.',
+    'startup.backupAdvice': 'Il database è stato salvato subito prima dell\'aggiornamento. Riprova con l\'ultima versione dell\'app, oppure metti il {file} della cartella del backup al posto del file del database.',
+    'startup.noBackupAdvice': 'Riprova con l\'ultima versione dell\'app. I backup automatici sono nella cartella dei backup.',
+    'startup.migration': 'Migrazione',
+    'startup.error': 'Errore',
+    'startup.database': 'Database',
+    'startup.backup': 'Backup',
+    'startup.openBackups': 'Apri la cartella dei backup',
+    'startup.quit': 'Esci',
   },
 };
@@ -1,4 +1,8 @@
-import { app, BrowserWindow, Menu } from 'electron';
+import { app, BrowserWindow, Menu, shell } from 'electron';
+import { applyPendingRestore, startBackupSchedule } from './electron/backup';
+import { migrateDatabase } from './electron/migrations';
+import { showStartupError } from './electron/startupError';
+import { purgeExpiredTrash } from './electron/trash';
 // This allows TypeScript to pick up the magic constants that's auto-generated by Forge's Webpack
 // plugin that tells the Electron app where to look for the Webpack-bundled app code (depending on
 // whether you're running in development or production).
@@ -28,6 +32,14 @@ const createWindow = (): void => {
     },
   });
 
+  // Links never open a window of the app: web ones go to the system browser
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    if (/^https?:\/\//i.test(url)) {
+      shell.openExternal(url);
+    }
+    return { action: 'deny' };
+  });
+
   // and load the index.html of the app.
   mainWindow.loadURL(MAIN_WINDOW_WEBPACK_ENTRY);
 
@@ -40,23 +52,47 @@ const createWindow = (): void => {
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
-app.on('ready', () => {
+app.on('ready', async () => {
   // 1. Ensure storage directories exist (requires app.getPath() which is now available)
   const { ensureStorageDirectories } = require('./electron/paths');
   ensureStorageDirectories();
 
-  // 2. Initialize database AFTER storage directories are ready
+  // 2. Put back a backup chosen in Settings, BEFORE the database is opened
+  applyPendingRestore();
+
+  // 3. Initialize database AFTER storage directories are ready, then bring its schema up to date
+  // (the app stops at an error screen if that fails)
   const { initializeDatabase } = require('./electron/database');
-  initializeDatabase();
+  try {
+    initializeDatabase();
+    await migrateDatabase();
+  } catch (error) {
+    showStartupError(error);
+    return;
+  }
 
-  // 3. Register IPC handlers AFTER database is initialized
+  // 4. Register IPC handlers AFTER database is initialized
   require('./electron/handlers/articles');
   require('./electron/handlers/files');
   require('./electron/handlers/settings');
   require('./electron/handlers/database');
   require('./electron/handlers/storage');
+  require('./electron/handlers/interchange');
+  require('./electron/handlers/citations');
+  require('./electron/handlers/metadata');
+  require('./electron/handlers/taxonomy');
+  require('./electron/handlers/collections');
+  require('./electron/handlers/savedViews');
+  require('./electron/handlers/annotations');
+  require('./electron/handlers/relations');
+  require('./electron/handlers/revisions');
+  require('./electron/handlers/backups');
+
+  // 5. Trash past its retention period, then automatic backups (in the background)
+  purgeExpiredTrash();
+  startBackupSchedule();
 
-  // 4. Create the main window
+  // 6. Create the main window
   createWindow();
 });
 
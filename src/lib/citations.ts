@@ -0,0 +1,50 @@
+/**
+ * Citation styles and bibliography formats offered in the UI
+ * Formatting happens in the main process (citations:* channels)
+ */
+
+import { Article } from '../types/article';
+import { BibliographyFormat, CitationStyle } from '../types/citation';
+import { citationsApi } from '../services/api';
+import { downloadFile } from './utils';
+
+export const CITATION_STYLES: Record<CitationStyle, string> = {
+  apa: 'APA (7th)',
+  mla: 'MLA (9th)',
+  chicago: 'Chicago (author-date)',
+  ieee: 'IEEE',
+  harvard: 'Harvard',
+};
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { extension: string; mime: string }> = {
+  text: { extension: 'txt', mime: 'text/plain;charset=utf-8' },
+  html: { extension: 'html', mime: 'text/html;charset=utf-8' },
+  docx: { extension: 'docx', mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+};
+
+// Copy a formatted citation - as HTML too, so italics survive a paste into Word
+export async function copyCitation(article: Article, style: CitationStyle): Promise<string> {
+  const citation = await citationsApi.format(article, style);
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      'text/plain': new Blob([citation.text], { type: 'text/plain' }),
+      'text/html': new Blob([citation.html], { type: 'text/html' }),
+    }),
+  ]);
+  return citation.text;
+}
+
+/**
+ * Generate a bibliography and save it as a download
+ * @param baseName File name without extension
+ */
+export async function downloadBibliography(
+  articles: Article[],
+  style: CitationStyle,
+  format: BibliographyFormat,
+  baseName: string
+): Promise<void> {
+  const { extension, mime } = BIBLIOGRAPHY_FORMATS[format];
+  const content = await citationsApi.bibliography(articles, style, format);
+  downloadFile(content, `${baseName}.${extension}`, mime);
+}
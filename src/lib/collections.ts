@@ -0,0 +1,46 @@
+/**
+ * Collection tree helpers
+ * Collections come from the main process as a flat list (nesting through parentId)
+ */
+
+import { Collection } from '../types/collection';
+
+export interface CollectionTreeItem {
+  collection: Collection;
+  depth: number; // 0 for top-level collections
+}
+
+// Depth-first order, children right after their parent - what the Sidebar and Collections page show
+export function flattenCollectionTree(collections: Collection[]): CollectionTreeItem[] {
+  const items: CollectionTreeItem[] = [];
+  const visit = (parentId: number | null, depth: number) => {
+    collections
+      .filter((collection) => collection.parentId === parentId)
+      .sort((a, b) => a.position - b.position)
+      .forEach((collection) => {
+        items.push({ collection, depth });
+        visit(collection.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return items;
+}
+
+// The collection and all its subcollections, parent first
+export function collectionWithDescendants(collections: Collection[], id: number): Collection[] {
+  const root = collections.find((collection) => collection.id === id);
+  if (!root) return [];
+  return [
+    root,
+    ...collections
+      .filter((collection) => collection.parentId === id)
+      .sort((a, b) => a.position - b.position)
+      .flatMap((child) => collectionWithDescendants(collections, child.id)),
+  ];
+}
+
+// Article IDs of a collection then of its subcollections, in order and without repeats
+export function collectionArticleIds(collections: Collection[], id: number): string[] {
+  const ids = collectionWithDescendants(collections, id).flatMap((collection) => collection.articleIds);
+  return Array.from(new Set(ids));
+}
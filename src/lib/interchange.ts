@@ -0,0 +1,32 @@
+/**
+ * Bibliographic formats available for import/export
+ * Conversion happens in the main process (import:* / export:* channels)
+ */
+
+import { Article } from '../types/article';
+import { InterchangeFormat } from '../types/interchange';
+import { interchangeApi } from '../services/api';
+import { downloadFile } from './utils';
+
+export const INTERCHANGE_FORMATS: Record<InterchangeFormat, { label: string; extension: string; mime: string }> = {
+  bibtex: { label: 'BibTeX', extension: 'bib', mime: 'application/x-bibtex;charset=utf-8' },
+  ris: { label: 'RIS', extension: 'ris', mime: 'application/x-research-info-systems;charset=utf-8' },
+  csl: { label: 'CSL-JSON', extension: 'json', mime: 'application/vnd.citationstyles.csl+json;charset=utf-8' },
+};
+
+// Format matching a file name, by extension
+export function formatForFile(fileName: string): InterchangeFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const entry = Object.entries(INTERCHANGE_FORMATS).find(([, format]) => format.extension === extension);
+  return entry ? (entry[0] as InterchangeFormat) : null;
+}
+
+/**
+ * Export articles and save the result as a download
+ * @param baseName File name without extension
+ */
+export async function downloadArticles(format: InterchangeFormat, articles: Article[], baseName: string): Promise<void> {
+  const { extension, mime } = INTERCHANGE_FORMATS[format];
+  const content = await interchangeApi.exportArticles(format, articles);
+  downloadFile(content, `${baseName}.${extension}`, mime);
+}
@@ -0,0 +1,152 @@
+/**
+ * Library query model: filters and sort of the Library page
+ * Evaluated by the main process (articles:query), and serialized as a query string
+ * ("q=deep+learning&year=2018..2022&tag=ml&sort=year:desc") for saved views and links.
+ */
+
+import { LibraryFacetKey, LibraryQuery, LibrarySortColumn } from '../types/query';
+
+export const EMPTY_LIBRARY_QUERY: LibraryQuery = {
+  text: '',
+  searchFields: ['all'],
+  read: 'all',
+  favorite: 'all',
+  collectionId: null,
+  yearMin: '',
+  yearMax: '',
+  dateAddedMin: '',
+  dateAddedMax: '',
+  ratingMin: '',
+  ratingMax: '',
+  pagesMin: '',
+  pagesMax: '',
+  authors: [],
+  keywords: [],
+  tags: [],
+  subjects: [],
+  universities: [],
+  companies: [],
+  journals: [],
+  matchAll: [],
+  sortColumn: null,
+  sortDirection: 'asc',
+};
+
+// Query string key of each list filter (singular, repeated once per value)
+const LIST_PARAMS: Array<[LibraryFacetKey, string]> = [
+  ['authors', 'author'],
+  ['keywords', 'keyword'],
+  ['tags', 'tag'],
+  ['subjects', 'subject'],
+  ['universities', 'university'],
+  ['companies', 'company'],
+  ['journals', 'journal'],
+];
+
+// Query string key of each numeric range ("min..max", either side may be empty)
+const RANGE_PARAMS: Array<[keyof LibraryQuery, keyof LibraryQuery, string]> = [
+  ['yearMin', 'yearMax', 'year'],
+  ['ratingMin', 'ratingMax', 'rating'],
+  ['pagesMin', 'pagesMax', 'pages'],
+];
+
+const SORT_COLUMNS: LibrarySortColumn[] = ['id', 'title', 'year', 'createdAt', 'updatedAt'];
+
+// Local calendar day of a timestamp, as YYYY-MM-DD
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Start (or end) of a YYYY-MM-DD local day, '' if not a date
+function parseDay(value: string, endOfDay: boolean): number | '' {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return '';
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  return endOfDay ? new Date(year, month, day, 23, 59, 59, 999).getTime() : new Date(year, month, day).getTime();
+}
+
+function parseBound(value: string): number | '' {
+  if (value.trim() === '') return '';
+  const number = Number(value);
+  return Number.isFinite(number) ? number : '';
+}
+
+function formatRange(min: number | '', max: number | '', format: (value: number) => string = String): string | null {
+  if (min === '' && max === '') return null;
+  return `${min === '' ? '' : format(min)}..${max === '' ? '' : format(max)}`;
+}
+
+/**
+ * Serialize a query, leaving out everything at its default value
+ * The same query always gives the same string, so strings can be compared.
+ */
+export function serializeQuery(query: LibraryQuery): string {
+  const params = new URLSearchParams();
+
+  if (query.text.trim()) params.append('q', query.text.trim());
+  if (query.searchFields.length > 0 && !query.searchFields.includes('all')) {
+    params.append('in', query.searchFields.join(','));
+  }
+  if (query.read !== 'all') params.append('read', query.read);
+  if (query.favorite !== 'all') params.append('favorite', query.favorite);
+  if (query.collectionId !== null) params.append('collection', String(query.collectionId));
+
+  RANGE_PARAMS.forEach(([minKey, maxKey, param]) => {
+    const range = formatRange(query[minKey] as number | '', query[maxKey] as number | '');
+    if (range) params.append(param, range);
+  });
+  const added = formatRange(query.dateAddedMin, query.dateAddedMax, formatDay);
+  if (added) params.append('added', added);
+
+  LIST_PARAMS.forEach(([key, param]) => {
+    query[key].forEach((value) => params.append(param, value));
+  });
+  // "every=author,tag": lists matched with AND
+  const matchAll = LIST_PARAMS.filter(([key]) => query.matchAll.includes(key)).map(([, param]) => param);
+  if (matchAll.length > 0) params.append('every', matchAll.join(','));
+
+  if (query.sortColumn) params.append('sort', `${query.sortColumn}:${query.sortDirection}`);
+
+  return params.toString();
+}
+
+// Read a query string; unknown keys and malformed values are ignored
+export function parseQuery(queryString: string): LibraryQuery {
+  const params = new URLSearchParams(queryString.replace(/^\?/, ''));
+  const query: LibraryQuery = { ...EMPTY_LIBRARY_QUERY };
+
+  query.text = params.get('q') || '';
+  const fields = (params.get('in') || '').split(',').map((field) => field.trim()).filter(Boolean);
+  query.searchFields = fields.length > 0 ? fields : ['all'];
+
+  const read = params.get('read');
+  if (read === 'read' || read === 'unread') query.read = read;
+  const favorite = params.get('favorite');
+  if (favorite === 'favorites' || favorite === 'non-favorites') query.favorite = favorite;
+  const collection = parseBound(params.get('collection') || '');
+  if (collection !== '') query.collectionId = collection;
+
+  RANGE_PARAMS.forEach(([minKey, maxKey, param]) => {
+    const [min = '', max = ''] = (params.get(param) || '').split('..');
+    Object.assign(query, { [minKey]: parseBound(min), [maxKey]: parseBound(max) });
+  });
+  const [addedMin = '', addedMax = ''] = (params.get('added') || '').split('..');
+  query.dateAddedMin = parseDay(addedMin, false);
+  query.dateAddedMax = parseDay(addedMax, true);
+
+  LIST_PARAMS.forEach(([key, param]) => {
+    query[key] = params.getAll(param).filter(Boolean);
+  });
+  const every = (params.get('every') || '').split(',');
+  query.matchAll = LIST_PARAMS.filter(([, param]) => every.includes(param)).map(([key]) => key);
+
+  const [column, direction] = (params.get('sort') || '').split(':');
+  if (SORT_COLUMNS.includes(column as LibrarySortColumn)) {
+    query.sortColumn = column as LibrarySortColumn;
+    query.sortDirection = direction === 'desc' ? 'desc' : 'asc';
+  }
+
+  return query;
+}
@@ -0,0 +1,315 @@
+/**
+ * Parser for the Markdown of the research note fields (pure: used by the preview and the Word notes)
+ * Blocks: headings, lists (nested by indentation), fenced code, quotes, $$ formulas, rules, paragraphs.
+ * Inline: **bold**, *italic*, ~~strike~~, `code`, [links](url), $formulas$ and [[0042]] article links.
+ * A single line break is kept as a break, as the fields were written as plain text before.
+ */
+
+import { MarkdownBlock, MarkdownInline } from '../types/markdown';
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const MATH_FENCE = /^\s*\$\$/;
+
+// Links open in the browser or the mail app: other schemes (file:, javascript:...) stay plain text
+const LINK_URL = /^(https?:\/\/|mailto:)/i;
+
+// Width of the leading whitespace (a tab counts as 4)
+function indentOf(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width++;
+    else if (char === '\t') width += 4;
+    else break;
+  }
+  return width;
+}
+
+// Line without its first `width` columns of indentation
+function dedent(line: string, width: number): string {
+  let index = 0;
+  let removed = 0;
+  while (index < line.length && removed < width && (line[index] === ' ' || line[index] === '\t')) {
+    removed += line[index] === '\t' ? 4 : 1;
+    index++;
+  }
+  return line.slice(index);
+}
+
+function isBlockStart(line: string): boolean {
+  return HEADING.test(line) || FENCE.test(line) || QUOTE.test(line) || MATH_FENCE.test(line) || LIST_ITEM.test(line) || RULE.test(line);
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (or end of the field)
+      blocks.push({ type: 'code', language: fence[2], text: code.join('\n') });
+      continue;
+    }
+
+    if (MATH_FENCE.test(line)) {
+      // $$ formula $$ on one line, or $$ ... $$ over several
+      const source: string[] = [line.trim().slice(2)];
+      let closed = /\$\$\s*$/.test(source[0]);
+      if (closed) source[0] = source[0].replace(/\$\$\s*$/, '');
+      i++;
+      while (!closed && i < lines.length) {
+        const end = lines[i].indexOf('$$');
+        source.push(end === -1 ? lines[i] : lines[i].slice(0, end));
+        closed = end !== -1;
+        i++;
+      }
+      blocks.push({ type: 'math', tex: source.join('\n').trim() });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    // Before lists: "- - -" and "* * *" are rules
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !isBlockStart(lines[i]))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+// List starting at lines[start]; returns the index of the first line after it
+function parseList(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+  const first = LIST_ITEM.exec(lines[start]) as RegExpExecArray;
+  const indent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownBlock[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const item = LIST_ITEM.exec(lines[i]);
+    if (!item || indentOf(item[1]) !== indent || /\d/.test(item[2]) !== ordered) break;
+
+    // Content of the item: the rest of its line, then the lines indented under it
+    // (or continuing its text), then blank lines only if indented content follows
+    const contentIndent = indent + 1;
+    const content = [item[3]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        let next = i + 1;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next < lines.length && indentOf(lines[next]) >= contentIndent) {
+          content.push(...lines.slice(i, next).map(() => ''));
+          i = next;
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) >= contentIndent) {
+        content.push(dedent(line, indentOf(item[1]) + item[2].length + 1));
+      } else if (!isBlockStart(line)) {
+        content.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push(parseBlocks(content));
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items });
+  return i;
+}
+
+// Index of the closing delimiter, or -1 (the content must not start or end with a space)
+function findClosing(text: string, delimiter: string, from: number): number {
+  if (/\s/.test(text[from] ?? ' ')) return -1;
+  let index = text.indexOf(delimiter, from + 1);
+  while (index !== -1) {
+    if (!/\s/.test(text[index - 1]) && text[index - 1] !== '\\') return index;
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline, next: number) => {
+    flush();
+    nodes.push(node);
+    i = next;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && /[\\`*_~[\]()#+\-.!$|>]/.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' }, i + 1);
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = (/^`+/.exec(rest) as RegExpExecArray)[0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        push({ type: 'code', text: text.slice(i + ticks.length, end).trim() }, end + ticks.length);
+        continue;
+      }
+      buffer += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    // $$x$$ within a line, in display style
+    if (rest.startsWith('$$')) {
+      const end = text.indexOf('$$', i + 2);
+      if (end !== -1 && text.slice(i + 2, end).trim()) {
+        push({ type: 'math', tex: text.slice(i + 2, end).trim(), display: true }, end + 2);
+      } else {
+        buffer += '$$';
+        i += 2;
+      }
+      continue;
+    }
+
+    // $x$, but not prices ("$5 and $10") - the closing $ can't be followed by a digit or be part of $$
+    if (char === '$') {
+      const end = findClosing(text, '$', i + 1);
+      if (end !== -1 && !/[\d$]/.test(text[end + 1] ?? '') && text[end - 1] !== '$') {
+        push({ type: 'math', tex: text.slice(i + 1, end), display: false }, end + 1);
+        continue;
+      }
+    }
+
+    const articleLink = /^\[\[\s*([\w-]+)\s*\]\]/.exec(rest);
+    if (articleLink) {
+      const id = /^\d+$/.test(articleLink[1]) ? articleLink[1].padStart(4, '0') : articleLink[1];
+      push({ type: 'articleLink', id, title: null }, i + articleLink[0].length);
+      continue;
+    }
+
+    const link = /^\[([^\]]*)\]\(\s*<?([^)\s>]+)>?\s*\)/.exec(rest);
+    if (link && LINK_URL.test(link[2])) {
+      push({ type: 'link', url: link[2], children: parseInline(link[1] || link[2]) }, i + link[0].length);
+      continue;
+    }
+
+    const autolink = /^<?(https?:\/\/[^\s<>]*[^\s<>.,;:!?)'"])>?/.exec(rest);
+    if (autolink && !/\w/.test(text[i - 1] ?? '')) {
+      push({ type: 'link', url: autolink[1], children: [{ type: 'text', text: autolink[1] }] }, i + autolink[0].length);
+      continue;
+    }
+
+    const strong = rest.startsWith('**') ? '**' : rest.startsWith('__') ? '__' : rest.startsWith('~~') ? '~~' : null;
+    if (strong) {
+      const end = findClosing(text, strong, i + 2);
+      if (end !== -1) {
+        const type = strong === '~~' ? 'strike' : 'bold';
+        push({ type, children: parseInline(text.slice(i + 2, end)) }, end + 2);
+        continue;
+      }
+    }
+
+    // _ only around words (snake_case stays as written)
+    if ((char === '*' || char === '_') && !(char === '_' && /\w/.test(text[i - 1] ?? ''))) {
+      let end = findClosing(text, char, i + 1);
+      while (end !== -1 && char === '_' && /\w/.test(text[end + 1] ?? '')) end = findClosing(text, char, end + 1);
+      if (end !== -1) {
+        push({ type: 'italic', children: parseInline(text.slice(i + 1, end)) }, end + 1);
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// Blocks of a note field (an empty list for empty text)
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+export type ArticleLink = Extract<MarkdownInline, { type: 'articleLink' }>;
+
+// Article links anywhere in the blocks (lists, quotes and formatting included)
+export function collectArticleLinks(blocks: MarkdownBlock[], links: ArticleLink[] = []): ArticleLink[] {
+  const visitInline = (nodes: MarkdownInline[]) => {
+    for (const node of nodes) {
+      if (node.type === 'articleLink') links.push(node);
+      else if ('children' in node) visitInline(node.children);
+    }
+  };
+  for (const block of blocks) {
+    if (block.type === 'heading' || block.type === 'paragraph') visitInline(block.children);
+    else if (block.type === 'quote') collectArticleLinks(block.children, links);
+    else if (block.type === 'list') block.items.forEach((item) => collectArticleLinks(item, links));
+  }
+  return links;
+}
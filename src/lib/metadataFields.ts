@@ -0,0 +1,82 @@
+/**
+ * Compare and apply article metadata field by field
+ * Values are handled as the text shown in the form (lists comma separated)
+ */
+
+import { Article, ArticleFormData } from '../types/article';
+import { MetadataField, MetadataFieldChange, MetadataSource, MetadataSuggestion } from '../types/metadata';
+
+// Fields a registry record can fill, in form order
+export const RESOLVED_FIELDS: MetadataField[] = ['title', 'authors', 'date', 'journal', 'doi', 'abstract', 'keywords', 'numPages'];
+
+// Registries are the reference, but typos and missing data happen
+const REGISTRY_CONFIDENCE = 0.95;
+
+// Text value of a field in form data
+export function formDataValue(data: Partial<ArticleFormData>, field: MetadataField): string {
+  switch (field) {
+    case 'authors':
+    case 'keywords':
+      return (data[field] || []).join(', ');
+    case 'year':
+    case 'numPages':
+      return data[field] ? String(data[field]) : '';
+    default:
+      return (data[field] || '').trim();
+  }
+}
+
+// Text value of a field in a stored article
+export function articleValue(article: Article, field: MetadataField): string {
+  switch (field) {
+    case 'authors':
+    case 'keywords':
+      return (article[field] || []).map((entity) => entity.name).join(', ');
+    default:
+      return formDataValue(article as unknown as Partial<ArticleFormData>, field);
+  }
+}
+
+// Form data for a field's text value (the year follows the date)
+export function fieldToFormData(field: MetadataField, value: string): Partial<ArticleFormData> {
+  switch (field) {
+    case 'authors':
+    case 'keywords':
+      return { [field]: value.split(',').map((item) => item.trim()).filter(Boolean) };
+    case 'year':
+    case 'numPages':
+      return { [field]: parseInt(value) || 0 };
+    case 'date':
+      return { date: value, year: parseInt(value.split('-')[0]) };
+    default:
+      return { [field]: value };
+  }
+}
+
+// Everything a registry returned, as suggestions
+export function toSuggestions(data: ArticleFormData, source: MetadataSource): MetadataSuggestion[] {
+  return RESOLVED_FIELDS
+    .map((field) => ({ field, value: formDataValue(data, field), confidence: REGISTRY_CONFIDENCE, source }))
+    .filter((suggestion) => suggestion.value);
+}
+
+// Same text, ignoring case and spacing
+function sameValue(a: string, b: string): boolean {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Fields where a registry record differs from the stored article
+ * Fields the registry leaves empty are not proposed (they would erase data)
+ */
+export function diffArticle(article: Article, resolved: ArticleFormData): MetadataFieldChange[] {
+  return RESOLVED_FIELDS
+    .map((field) => ({ field, current: articleValue(article, field), proposed: formDataValue(resolved, field) }))
+    .filter((change) => change.proposed && !sameValue(change.current, change.proposed));
+}
+
+// Merge accepted changes into one update
+export function changesToFormData(changes: MetadataFieldChange[]): Partial<ArticleFormData> {
+  return changes.reduce((data, change) => ({ ...data, ...fieldToFormData(change.field, change.proposed) }), {});
+}
@@ -0,0 +1,242 @@
+/**
+ * Guess article metadata from what a PDF contains (see readPdfMetadata)
+ *
+ * Every field is looked for in the XMP packet, the Info dictionary and the
+ * first page text. Each place gets a confidence: publisher XMP is usually
+ * right, Info fields are often left over from the authoring tool, and the
+ * page text is laid out for reading, not for parsing.
+ */
+
+import { MetadataField, MetadataSuggestion, PdfMetadataSource, PdfTextLine } from '../types/metadata';
+
+// Order suggestions are shown in (same as the form)
+const FIELD_ORDER: MetadataField[] = ['title', 'authors', 'year', 'doi', 'journal', 'abstract', 'keywords'];
+
+// Below this a guess is more noise than help
+const MIN_CONFIDENCE = 0.2;
+
+const DOI_REGEX = /\b(10\.\d{4,9}\/[^\s"'<>]+)/i;
+
+// Titles written by authoring tools instead of the author
+const PLACEHOLDER_TITLE = /^(untitled|microsoft word|document\d*|title|slide \d+)\b|\.(docx?|tex|dvi|pdf|indd|qxd)$/i;
+
+// Section headings that end the abstract
+const ABSTRACT_END = /^(key ?words?|index terms|(1\.?|i\.)?\s*introduction|jel|ccs concepts|categories and subject descriptors|acm reference format|©)/i;
+
+// Footnote markers and affiliation marks stuck to author names
+const NAME_MARKS = /[\d*†‡§¶∗#✉]+|\([^)]*\)|\S+@\S+/g;
+
+// ============================================
+// Helpers
+// ============================================
+
+function xmpValue(source: PdfMetadataSource, ...keys: string[]): string[] {
+  for (const key of keys) {
+    const value = source.xmp[key];
+    const values = (Array.isArray(value) ? value : [value]).filter((item): item is string => Boolean(item && item.trim()));
+    if (values.length > 0) return values.map((item) => item.trim());
+  }
+  return [];
+}
+
+// "10.1000/xyz." -> "10.1000/xyz" (sentence punctuation and closing brackets are not part of the DOI)
+function findDoi(text: string | undefined): string | null {
+  const match = DOI_REGEX.exec(text || '');
+  if (!match) return null;
+  let doi = match[1].replace(/[.,;:]+$/, '');
+  // Keep balanced parentheses: "10.1016/S0140-6736(20)30183-5" is valid
+  while (doi.endsWith(')') && (doi.match(/\(/g) || []).length < (doi.match(/\)/g) || []).length) {
+    doi = doi.slice(0, -1);
+  }
+  return doi;
+}
+
+// First plausible publication year in the text
+function findYear(text: string | undefined): string | null {
+  const currentYear = new Date().getFullYear();
+  const years = (text || '').match(/\b(19[5-9]\d|20\d\d)\b/g) || [];
+  return years.find((year) => Number(year) <= currentYear + 1) || null;
+}
+
+function isPlausibleTitle(title: string): boolean {
+  const trimmed = title.trim();
+  return trimmed.length >= 10 && trimmed.includes(' ') && !PLACEHOLDER_TITLE.test(trimmed) && !DOI_REGEX.test(trimmed);
+}
+
+// "Jane Smith1,2, John Doe* and Ann Lee" -> ["Jane Smith", "John Doe", "Ann Lee"], or null if it doesn't look like names
+function parseNameList(text: string): string[] | null {
+  const names = text
+    .replace(NAME_MARKS, ' ')
+    .split(/\s*(?:,|;|\band\b|&|·|\|)\s*/i)
+    .map((name) => name.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  if (names.length === 0) return null;
+  // Every name: 2 to 5 capitalized words or initials ("J.", "van")
+  const looksLikeName = (name: string) => {
+    const words = name.split(' ');
+    return words.length >= 2
+      && words.length <= 5
+      && words.every((word) => /^[\p{Lu}][\p{L}'’.-]*$/u.test(word) || /^(van|von|der|de|la|del|da|di|du|le)$/.test(word));
+  };
+  return names.every(looksLikeName) ? names : null;
+}
+
+// Same text, ignoring case, accents and punctuation
+function sameText(a: string, b: string): boolean {
+  const normalize = (text: string) => text.normalize('NFD').replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+// ============================================
+// Page text
+// ============================================
+
+// Title lines: the largest text in the top half of the page, ignoring short running heads
+function findTitleLines(source: PdfMetadataSource): { lines: PdfTextLine[]; end: number } | null {
+  const topHalf = source.lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => line.top < source.pageHeight / 2 && line.text.length >= 3);
+  if (topHalf.length === 0) return null;
+
+  const bodySize = median(source.lines.map((line) => line.fontSize));
+  const largest = Math.max(...topHalf.map(({ line }) => line.fontSize));
+  if (largest < bodySize * 1.2) return null;
+
+  const start = topHalf.find(({ line }) => line.fontSize >= largest - 0.5);
+  if (!start) return null;
+
+  // Following lines of the same size continue the title
+  const lines = [start.line];
+  let end = start.index + 1;
+  while (end < source.lines.length && Math.abs(source.lines[end].fontSize - start.line.fontSize) <= 0.5 && lines.length < 4) {
+    lines.push(source.lines[end]);
+    end++;
+  }
+  return { lines, end };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Text following a heading ("Abstract", "Keywords:") on the same line or the next ones,
+// until a stop heading or a change of font size
+function textAfterHeading(lines: PdfTextLine[], heading: RegExp, stop: RegExp, maxLines: number): string | null {
+  const index = lines.findIndex((line) => heading.test(line.text));
+  if (index < 0) return null;
+
+  const parts: string[] = [];
+  const rest = lines[index].text.replace(heading, '').replace(/^[\s:.—–-]+/, '');
+  if (rest) parts.push(rest);
+
+  const textSize = lines[index + 1]?.fontSize;
+  for (let i = index + 1; i < lines.length && i <= index + maxLines; i++) {
+    if (stop.test(lines[i].text) || Math.abs(lines[i].fontSize - textSize) > 1) break;
+    parts.push(lines[i].text);
+  }
+
+  // Words hyphenated at line ends are joined back
+  const text = parts.join('\n').replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2').replace(/\s*\n\s*/g, ' ').trim();
+  return text || null;
+}
+
+// ============================================
+// Suggestions
+// ============================================
+
+/**
+ * Propose form values from a PDF's metadata and first page
+ * @returns At most one suggestion per field (the most confident one)
+ */
+export function suggestMetadata(source: PdfMetadataSource): MetadataSuggestion[] {
+  const candidates: MetadataSuggestion[] = [];
+  const add = (field: MetadataField, value: string | null | undefined, confidence: number, from: MetadataSuggestion['source']) => {
+    const text = (value || '').replace(/\s+/g, ' ').trim();
+    if (text) candidates.push({ field, value: text, confidence, source: from });
+  };
+  const pageText = source.lines.map((line) => line.text).join('\n');
+
+  // Title
+  const titleLines = findTitleLines(source);
+  const pageTitle = titleLines ? titleLines.lines.map((line) => line.text).join(' ') : null;
+  const xmpTitle = xmpValue(source, 'dc:title')[0];
+  if (xmpTitle && isPlausibleTitle(xmpTitle)) add('title', xmpTitle, 0.8, 'xmp');
+  if (source.info.Title && isPlausibleTitle(source.info.Title)) add('title', source.info.Title, 0.65, 'info');
+  if (pageTitle && isPlausibleTitle(pageTitle)) add('title', pageTitle, 0.55, 'text');
+
+  // Authors
+  const xmpAuthors = xmpValue(source, 'dc:creator');
+  if (xmpAuthors.length > 0) add('authors', xmpAuthors.join(', '), 0.85, 'xmp');
+  const infoAuthors = source.info.Author ? parseNameList(source.info.Author) : null;
+  if (infoAuthors) add('authors', infoAuthors.join(', '), 0.65, 'info');
+  if (titleLines) {
+    // Author line(s) come right below the title
+    for (const line of source.lines.slice(titleLines.end, titleLines.end + 3)) {
+      const names = parseNameList(line.text);
+      if (names) {
+        add('authors', names.join(', '), 0.45, 'text');
+        break;
+      }
+    }
+  }
+
+  // DOI
+  add('doi', findDoi(xmpValue(source, 'prism:doi', 'pdfx:doi', 'dc:identifier')[0]), 0.95, 'xmp');
+  add('doi', findDoi(source.info.doi || source.info.DOI), 0.9, 'info');
+  add('doi', findDoi(source.info.Subject), 0.8, 'info');
+  const labeledDoi = /\b(?:doi|https?:\/\/(?:dx\.)?doi\.org\/)\s*:?\s*(10\.\S+)/i.exec(pageText);
+  if (labeledDoi) add('doi', findDoi(labeledDoi[1]), 0.8, 'text');
+  add('doi', findDoi(pageText), 0.6, 'text');
+
+  // Year
+  add('year', findYear(xmpValue(source, 'prism:coverdate', 'prism:publicationdate', 'prism:coverDate', 'prism:publicationDate')[0]), 0.85, 'xmp');
+  const publishedLine = /\b(published|accepted|available online|©|copyright|\(c\))[^\n]*/i.exec(pageText);
+  if (publishedLine) add('year', findYear(publishedLine[0]), 0.55, 'text');
+  // Creation date ("D:20190312...") is when the file was made, often later than the publication
+  add('year', findYear((source.info.CreationDate || '').replace(/^D:/, '').slice(0, 4)), 0.3, 'info');
+
+  // Journal
+  add('journal', xmpValue(source, 'prism:publicationname', 'prism:publicationName')[0], 0.9, 'xmp');
+  // Publisher Info subjects look like "Nature, 521 (2015) 436-444. doi:..."
+  const subjectJournal = /^([^,\d]{4,80}),\s*\d/.exec(source.info.Subject || '');
+  if (subjectJournal) {
+    add('journal', subjectJournal[1], 0.5, 'info');
+    add('year', findYear(source.info.Subject), 0.5, 'info');
+  }
+
+  // Abstract
+  // "Abstract", "ABSTRACT", "Abstract:" or Elsevier's spaced "a b s t r a c t" - not "Abstract Syntax..."
+  const pageAbstract = textAfterHeading(source.lines, /^([Aa]\s?b\s?s\s?t\s?r\s?a\s?c\s?t\s*([.:—–-]|$)|ABSTRACT\b)/, ABSTRACT_END, 40);
+  if (pageAbstract && pageAbstract.length >= 100) add('abstract', pageAbstract, 0.7, 'text');
+  const description = xmpValue(source, 'dc:description')[0];
+  if (description && description.length >= 100) add('abstract', description, 0.6, 'xmp');
+  if (source.info.Subject && source.info.Subject.length >= 150) add('abstract', source.info.Subject, 0.45, 'info');
+
+  // Keywords
+  const splitKeywords = (text: string | undefined) =>
+    (text || '').split(/[;,·•]|\s{2,}/).map((keyword) => keyword.trim().replace(/\.$/, '')).filter((keyword) => keyword && keyword.length <= 60);
+  const xmpKeywords = xmpValue(source, 'pdf:keywords', 'pdf:Keywords');
+  add('keywords', splitKeywords(xmpKeywords.join(', ')).join(', '), 0.8, 'xmp');
+  add('keywords', xmpValue(source, 'dc:subject').join(', '), 0.75, 'xmp');
+  add('keywords', splitKeywords(source.info.Keywords).join(', '), 0.7, 'info');
+  const pageKeywords = textAfterHeading(source.lines, /^(key ?words?|index terms)\b/i, /^((1\.?|i\.)?\s*introduction|jel|©|a\s?b\s?s\s?t\s?r\s?a\s?c\s?t)/i, 1);
+  if (pageKeywords) add('keywords', splitKeywords(pageKeywords).join(', '), 0.6, 'text');
+
+  // Best candidate per field - more confident when another place gives the same value
+  const suggestions: MetadataSuggestion[] = [];
+  for (const field of FIELD_ORDER) {
+    const sorted = candidates.filter((candidate) => candidate.field === field).sort((a, b) => b.confidence - a.confidence);
+    if (sorted.length === 0) continue;
+
+    const [best, ...others] = sorted;
+    const confirmed = others.some((other) => other.source !== best.source && sameText(other.value, best.value));
+    const confidence = confirmed ? Math.min(0.99, best.confidence + 0.15) : best.confidence;
+    if (confidence >= MIN_CONFIDENCE) {
+      suggestions.push({ ...best, confidence: Math.round(confidence * 100) / 100 });
+    }
+  }
+  return suggestions;
+}
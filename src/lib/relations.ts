@@ -0,0 +1,97 @@
+/**
+ * Relation types between articles as shown in the UI (article page panels and citation graph)
+ * Relations are stored in the main process (relations:* channels)
+ */
+
+import { RelationType } from '../types/relation';
+
+export const RELATION_TYPES: RelationType[] = ['cites', 'extends', 'contradicts', 'replicates', 'same-dataset'];
+
+// Edge and badge colors in the graph and on the article page
+export const RELATION_COLORS: Record<RelationType, string> = {
+  cites: '#6b7280',
+  extends: '#2563eb',
+  contradicts: '#dc2626',
+  replicates: '#16a34a',
+  'same-dataset': '#9333ea',
+};
+
+// Relations with a direction ("A cites B" is not "B cites A")
+export function isDirected(type: RelationType): boolean {
+  return type !== 'same-dataset';
+}
+
+// Translation key of the label seen from one end: "Cites" from the citing article, "Cited by" from the cited one
+export function relationLabelKey(type: RelationType, direction: 'outgoing' | 'incoming'): string {
+  return isDirected(type) ? `relations.${direction}.${type}` : `relations.${type}`;
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Force-directed positions of the graph nodes (in a width x height box)
+ * Nodes repel each other, edges pull their ends together, a weak pull keeps
+ * unconnected nodes near the center. Starts from a circle, so the result is stable.
+ */
+export function forceLayout(
+  nodeIds: string[],
+  edges: Array<{ fromId: string; toId: string }>,
+  width: number,
+  height: number,
+  iterations = 300
+): Record<string, GraphPoint> {
+  const count = nodeIds.length;
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  const radius = Math.min(width, height) / 2.5;
+  const xs = nodeIds.map((_, i) => width / 2 + radius * Math.cos((2 * Math.PI * i) / Math.max(count, 1)));
+  const ys = nodeIds.map((_, i) => height / 2 + radius * Math.sin((2 * Math.PI * i) / Math.max(count, 1)));
+  const links = edges
+    .map((edge) => [index.get(edge.fromId), index.get(edge.toId)])
+    .filter((link): link is [number, number] => link[0] !== undefined && link[1] !== undefined);
+
+  // Ideal distance between nodes for the area
+  const k = Math.sqrt((width * height) / Math.max(count, 1)) * 0.6;
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = (Math.min(width, height) / 10) * (1 - step / iterations) + 1;
+    const dx = new Array(count).fill(0);
+    const dy = new Array(count).fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const vx = xs[i] - xs[j] || 0.01;
+        const vy = ys[i] - ys[j] || 0.01;
+        const distance = Math.max(Math.hypot(vx, vy), 0.01);
+        const force = (k * k) / distance;
+        dx[i] += (vx / distance) * force;
+        dy[i] += (vy / distance) * force;
+        dx[j] -= (vx / distance) * force;
+        dy[j] -= (vy / distance) * force;
+      }
+    }
+
+    for (const [a, b] of links) {
+      const vx = xs[a] - xs[b];
+      const vy = ys[a] - ys[b];
+      const distance = Math.max(Math.hypot(vx, vy), 0.01);
+      const force = (distance * distance) / k;
+      dx[a] -= (vx / distance) * force;
+      dy[a] -= (vy / distance) * force;
+      dx[b] += (vx / distance) * force;
+      dy[b] += (vy / distance) * force;
+    }
+
+    for (let i = 0; i < count; i++) {
+      dx[i] += (width / 2 - xs[i]) * 0.05;
+      dy[i] += (height / 2 - ys[i]) * 0.05;
+      const length = Math.max(Math.hypot(dx[i], dy[i]), 0.01);
+      xs[i] = Math.min(width - 20, Math.max(20, xs[i] + (dx[i] / length) * Math.min(length, temperature)));
+      ys[i] = Math.min(height - 20, Math.max(20, ys[i] + (dy[i] / length) * Math.min(length, temperature)));
+    }
+  }
+
+  return Object.fromEntries(nodeIds.map((id, i) => [id, { x: xs[i], y: ys[i] }]));
+}
@@ -0,0 +1,108 @@
+/**
+ * Compare article revisions field by field (history panel of the article page)
+ * Long texts are compared word by word, short values as a whole.
+ */
+
+import { ArticleSnapshot, RevisionField } from '../types/revision';
+
+// Fields in form order
+export const REVISION_FIELDS: RevisionField[] = [
+  'title', 'authors', 'year', 'date', 'journal', 'doi', 'language', 'numPages', 'abstract', 'conclusion',
+  'keywords', 'subjects', 'tags', 'universities', 'companies',
+  'researchQuestion', 'methodology', 'dataUsed', 'results', 'limitations', 'firstImp', 'notes', 'comment',
+  'rating', 'read', 'favorite',
+];
+
+// Fields shown as a word diff
+const TEXT_FIELDS: RevisionField[] = [
+  'title', 'abstract', 'conclusion', 'researchQuestion', 'methodology', 'dataUsed', 'results', 'limitations',
+  'firstImp', 'notes', 'comment',
+];
+
+// Above this many word pairs, the texts are shown as removed then added
+const MAX_DIFF_CELLS = 1_000_000;
+
+export interface FieldChange {
+  field: RevisionField;
+  before: string;
+  after: string;
+}
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Text of a snapshot field (lists comma separated, booleans as ✓ / ✗)
+export function snapshotValue(snapshot: ArticleSnapshot, field: RevisionField): string {
+  const value = snapshot[field];
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  return value === undefined || value === null ? '' : String(value);
+}
+
+// Fields that differ between two snapshots (everything filled in when there's no previous one)
+export function changedFields(before: ArticleSnapshot | null, after: ArticleSnapshot): FieldChange[] {
+  return REVISION_FIELDS
+    .map((field) => ({
+      field,
+      before: before ? snapshotValue(before, field) : '',
+      after: snapshotValue(after, field),
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+export function isTextField(field: RevisionField): boolean {
+  return TEXT_FIELDS.includes(field);
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence of words)
+ * Whitespace stays attached to the words, so joining the parts gives back each text.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*|\s+/g) || [];
+  const b = after.match(/\S+\s*|\s+/g) || [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i].trim() === b[j].trim()
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
@@ -125,6 +125,52 @@ export function articleExists(
   return false;
 }
 
+/**
+ * Split imported articles into new ones and duplicates of the library
+ * Duplicate = same title and same set of authors (case-insensitive), used by every importer
+ */
+export function splitImportDuplicates<T extends { title?: string; authors?: Array<string | { name: string }> }>(
+  library: Array<{ title: string; authors?: Array<{ name: string }> }>,
+  imported: T[]
+): { toImport: T[]; duplicates: T[] } {
+  const normalizeKey = (str: string | undefined) => str?.toLowerCase().trim() || '';
+  const duplicateKey = (title: string | undefined, authors: Array<string | { name: string }> | undefined) => {
+    const authorsKey = Array.isArray(authors)
+      ? authors.map((a) => normalizeKey(typeof a === 'string' ? a : a.name)).sort().join('|')
+      : '';
+    return `${normalizeKey(title)}\n${authorsKey}`;
+  };
+
+  const existingKeys = new Set(library.map((article) => duplicateKey(article.title, article.authors)));
+  const toImport: T[] = [];
+  const duplicates: T[] = [];
+
+  for (const article of imported) {
+    if (existingKeys.has(duplicateKey(article.title, article.authors))) {
+      duplicates.push(article);
+    } else {
+      toImport.push(article);
+    }
+  }
+
+  return { toImport, duplicates };
+}
+
+/**
+ * Save text or binary content as a file download (renderer only)
+ */
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Generate star rating bar
  * Example: ⭐⭐⭐☆☆ for rating 3
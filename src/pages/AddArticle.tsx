@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { ArticleFormData } from '../types/article';
-import { articlesApi } from '../services/api';
+import { articlesApi, metadataApi, relationsApi } from '../services/api';
 import { useArticlesStore } from '../store/articles';
 import { useSettingsStore } from '../store/settings';
 import { useTranslation } from '../hooks/useTranslation';
 import { checkTitle } from '../lib/utils';
-import { getPdfPageCount } from '../utils/pdf';
+import { getPdfPageCount, readPdfMetadata } from '../utils/pdf';
+import { suggestMetadata } from '../lib/pdfMetadata';
+import { toSuggestions, formDataValue, fieldToFormData } from '../lib/metadataFields';
+import { MetadataField, MetadataSuggestion } from '../types/metadata';
+import { ParsedReference } from '../types/reference';
 import { CleanTextarea } from '../components/form/CleanTextarea';
+import { MarkdownTextarea } from '../components/form/MarkdownTextarea';
 
 export default function AddArticle() {
   const navigate = useNavigate();
@@ -15,14 +20,18 @@ export default function AddArticle() {
   const { sidebarCollapsed, theme } = useSettingsStore();
   const { t } = useTranslation();
 
+  // Opened from the reference list of an article: fields guessed from the entry, new article cited by `citedBy`
+  const { reference, citedBy } = (useLocation().state || {}) as { reference?: ParsedReference; citedBy?: string };
+  const today = new Date().toISOString().split('T')[0];
+
   const [formData, setFormData] = useState<ArticleFormData>({
-    title: '',
+    title: reference?.title || '',
     abstract: '',
     conclusion: '',
-    year: new Date().getFullYear(),
-    date: new Date().toISOString().split('T')[0],
-    journal: '',
-    doi: '',
+    year: reference?.year || new Date().getFullYear(),
+    date: reference?.year ? `${reference.year}${today.slice(4)}` : today,
+    journal: reference?.venue || '',
+    doi: reference?.doi || '',
     language: 'English',
     numPages: 0,
     researchQuestion: '',
@@ -44,7 +53,7 @@ export default function AddArticle() {
     companies: [],
   });
 
-  const [authorsInput, setAuthorsInput] = useState('');
+  const [authorsInput, setAuthorsInput] = useState(reference?.authors.join(', ') || '');
   const [keywordsInput, setKeywordsInput] = useState('');
   const [subjectsInput, setSubjectsInput] = useState('');
   const [tagsInput, setTagsInput] = useState('');
@@ -58,6 +67,11 @@ export default function AddArticle() {
   const [success, setSuccess] = useState(false);
   const [showNoPdfConfirm, setShowNoPdfConfirm] = useState(false);
 
+  // Values read from the dropped PDF, waiting to be accepted or rejected
+  const [suggestions, setSuggestions] = useState<MetadataSuggestion[]>([]);
+  const [analyzingPdf, setAnalyzingPdf] = useState(false);
+  const [resolvingDoi, setResolvingDoi] = useState(false);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -130,6 +144,15 @@ export default function AddArticle() {
         await articlesApi.uploadPdf(newArticle.id, newArticle.title, pdfFile);
       }
 
+      // Added from a reference list: the citing article now cites it
+      if (citedBy) {
+        try {
+          await relationsApi.add(citedBy, newArticle.id, 'cites');
+        } catch (err) {
+          console.error('Could not link the new article to the citing one:', err);
+        }
+      }
+
       // Generate Word note
       await articlesApi.generateNote(newArticle);
 
@@ -161,6 +184,104 @@ export default function AddArticle() {
     } catch (err) {
       console.error('Could not extract page count:', err);
     }
+
+    // Propose title, authors, DOI... from the PDF metadata and first page
+    setSuggestions([]);
+    setAnalyzingPdf(true);
+    try {
+      setSuggestions(suggestMetadata(await readPdfMetadata(file)));
+    } catch (err) {
+      console.error('Could not read PDF metadata:', err);
+    } finally {
+      setAnalyzingPdf(false);
+    }
+  };
+
+  const removePdf = () => {
+    setPdfFile(null);
+    setSuggestions([]);
+  };
+
+  // Current form value of a suggested field, to show what accepting replaces
+  const currentValue = (field: MetadataField): string => {
+    switch (field) {
+      case 'authors':
+        return authorsInput;
+      case 'keywords':
+        return keywordsInput;
+      default:
+        return formDataValue(formData, field);
+    }
+  };
+
+  const applyValue = (field: MetadataField, value: string) => {
+    if (field === 'authors') {
+      setAuthorsInput(value);
+    } else if (field === 'keywords') {
+      setKeywordsInput(value);
+    } else if (field === 'year') {
+      // Keep month and day when they were set, the year drives the date
+      const year = parseInt(value);
+      setFormData(prev => ({ ...prev, year, date: `${year}${prev.date.slice(4)}` }));
+    } else {
+      setFormData(prev => ({ ...prev, ...fieldToFormData(field, value) }));
+    }
+  };
+
+  // Put a suggested value in the form
+  const acceptSuggestion = (suggestion: MetadataSuggestion) => {
+    applyValue(suggestion.field, suggestion.value);
+    setSuggestions(prev => prev.filter((item) => item !== suggestion));
+  };
+
+  // Look the DOI (or arXiv ID) up: empty fields are filled, filled ones become suggestions
+  const handleFillFromDoi = async () => {
+    const identifier = formData.doi?.trim();
+    if (!identifier) return;
+
+    setError(null);
+    setResolvingDoi(true);
+    try {
+      const { article: resolved, source } = await metadataApi.resolve(identifier);
+      const today = new Date().toISOString().split('T')[0];
+      const proposed = toSuggestions(resolved, source);
+      const pending: MetadataSuggestion[] = [];
+
+      for (const suggestion of proposed) {
+        const current = currentValue(suggestion.field);
+        // The DOI field may hold a link or an arXiv ID: always use the registered DOI
+        const isEmpty = !current || suggestion.field === 'doi' || (suggestion.field === 'date' && current === today);
+        if (isEmpty) {
+          applyValue(suggestion.field, suggestion.value);
+        } else if (current.toLowerCase() !== suggestion.value.toLowerCase()) {
+          pending.push(suggestion);
+        }
+      }
+
+      // Registry values replace PDF guesses for the same field
+      setSuggestions(prev => [
+        ...prev.filter((item) => !proposed.some((suggestion) => suggestion.field === item.field)),
+        ...pending,
+      ]);
+    } catch (err: any) {
+      setError(t('addArticle.doiLookupFailed') + ': ' + err.message);
+    } finally {
+      setResolvingDoi(false);
+    }
+  };
+
+  const rejectSuggestion = (suggestion: MetadataSuggestion) => {
+    setSuggestions(prev => prev.filter((item) => item !== suggestion));
+  };
+
+  const confidenceBadge = (confidence: number) => {
+    if (confidence >= 0.8) {
+      return { label: t('addArticle.confidenceHigh'), className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' };
+    }
+    if (confidence >= 0.5) {
+      return { label: t('addArticle.confidenceMedium'), className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' };
+    }
+    return { label: t('addArticle.confidenceLow'), className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' };
   };
 
   const handlePdfDrop = (e: React.DragEvent) => {
@@ -176,6 +297,92 @@ export default function AddArticle() {
       <h1 className="text-3xl font-bold mb-6">➕ {t('addArticle.title')}</h1>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Suggested values (PDF metadata, DOI lookup) */}
+        {suggestions.length > 0 && (
+          <div className="border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="font-semibold">🔍 {t('addArticle.suggestions')}</h3>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => suggestions.forEach(acceptSuggestion)}
+                  className="text-sm px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700"
+                >
+                  {t('addArticle.acceptAll')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSuggestions([])}
+                  className="text-sm px-3 py-1 bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  {t('addArticle.rejectAll')}
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">{t('addArticle.suggestionsHint')}</p>
+
+            <div className="space-y-2">
+              {suggestions.map((suggestion) => {
+                const badge = confidenceBadge(suggestion.confidence);
+                const current = currentValue(suggestion.field).trim();
+                return (
+                  <div
+                    key={suggestion.field}
+                    className="flex items-start gap-3 bg-white dark:bg-gray-800 rounded p-2"
+                  >
+                    <div className="w-28 shrink-0">
+                      <p className="text-sm font-medium">{t(`field.${suggestion.field}`)}</p>
+                      <span
+                        className={`inline-block mt-1 text-xs px-1.5 py-0.5 rounded ${badge.className}`}
+                        title={t(`addArticle.source.${suggestion.source}`)}
+                      >
+                        {badge.label} · {Math.round(suggestion.confidence * 100)}%
+                      </span>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm break-words ${suggestion.field === 'abstract' ? 'line-clamp-3' : ''}`}>
+                        {suggestion.value}
+                      </p>
+                      {current && current !== suggestion.value && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {t('addArticle.replaces', { value: current })}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => acceptSuggestion(suggestion)}
+                        className="px-2 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                        title={t('addArticle.accept')}
+                      >
+                        ✓
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => rejectSuggestion(suggestion)}
+                        className="px-2 py-1 text-sm bg-gray-200 dark:bg-gray-700 rounded hover:bg-gray-300 dark:hover:bg-gray-600"
+                        title={t('addArticle.reject')}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Entry of a reference list the form was filled from */}
+        {reference && (
+          <div className="border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 rounded-lg p-4">
+            <h3 className="font-semibold mb-1">📑 {t('addArticle.fromReference', { id: citedBy || '' })}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 italic mb-2">{reference.raw}</p>
+            <p className="text-xs text-gray-500">{t(reference.doi ? 'addArticle.fromReferenceDoiHint' : 'addArticle.fromReferenceHint')}</p>
+          </div>
+        )}
+
         {/* Basic Information */}
         <section className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
           <h2 className="text-xl font-semibold mb-4">{t('addArticle.basicInfo')}</h2>
@@ -271,13 +478,24 @@ export default function AddArticle() {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium mb-1">{t('field.doi')}</label>
-                <input
-                  type="text"
-                  value={formData.doi}
-                  onChange={(e) => setFormData({ ...formData, doi: e.target.value })}
-                  placeholder="10.1000/xyz123"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={formData.doi}
+                    onChange={(e) => setFormData({ ...formData, doi: e.target.value })}
+                    placeholder="10.1000/xyz123"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleFillFromDoi}
+                    disabled={!formData.doi?.trim() || resolvingDoi}
+                    title={t('addArticle.fillFromDoiHint')}
+                    className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    {resolvingDoi ? t('addArticle.fillingFromDoi') : `🔎 ${t('addArticle.fillFromDoi')}`}
+                  </button>
+                </div>
               </div>
 
               <div>
@@ -307,7 +525,7 @@ export default function AddArticle() {
                 <p className="text-green-600 font-medium">✅ {pdfFile.name}</p>
                 <button
                   type="button"
-                  onClick={() => setPdfFile(null)}
+                  onClick={removePdf}
                   className="text-sm text-red-500 mt-2"
                 >
                   {t('common.remove')}
@@ -332,6 +550,10 @@ export default function AddArticle() {
               </div>
             )}
           </div>
+
+          {analyzingPdf && (
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">🔍 {t('addArticle.analyzingPdf')}</p>
+          )}
         </section>
 
         {/* Additional Metadata (Collapsible) */}
@@ -442,7 +664,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.researchQuestion')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.researchQuestion}
                 onChange={(value) => setFormData({ ...formData, researchQuestion: value })}
                 rows={2}
@@ -452,7 +674,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.methodology')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.methodology}
                 onChange={(value) => setFormData({ ...formData, methodology: value })}
                 rows={3}
@@ -462,7 +684,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.dataUsed')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.dataUsed}
                 onChange={(value) => setFormData({ ...formData, dataUsed: value })}
                 rows={2}
@@ -472,7 +694,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.results')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.results}
                 onChange={(value) => setFormData({ ...formData, results: value })}
                 rows={3}
@@ -482,7 +704,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.limitations')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.limitations}
                 onChange={(value) => setFormData({ ...formData, limitations: value })}
                 rows={2}
@@ -526,7 +748,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.firstImp')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.firstImp}
                 onChange={(value) => setFormData({ ...formData, firstImp: value })}
                 rows={3}
@@ -536,7 +758,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.notes')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.notes}
                 onChange={(value) => setFormData({ ...formData, notes: value })}
                 rows={3}
@@ -546,7 +768,7 @@ export default function AddArticle() {
 
             <div>
               <label className="block text-sm font-medium mb-1">{t('field.comment')}</label>
-              <CleanTextarea
+              <MarkdownTextarea
                 value={formData.comment}
                 onChange={(value) => setFormData({ ...formData, comment: value })}
                 rows={3}
@@ -1,19 +1,29 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Article, ArticleFormData } from '../types/article';
-import { articlesApi } from '../services/api';
+import { articlesApi, citationsApi } from '../services/api';
 import { useArticlesStore } from '../store/articles';
 import { useSettingsStore } from '../store/settings';
 import { useTranslation } from '../hooks/useTranslation';
 import { checkTitle, starBar } from '../lib/utils';
 import { formatDate } from '../utils/text';
 import { CleanTextarea } from '../components/form/CleanTextarea';
+import { MarkdownTextarea } from '../components/form/MarkdownTextarea';
+import { MarkdownView } from '../components/markdown/MarkdownView';
+import { PdfReader } from '../components/pdf/PdfReader';
+import { HistoryPanel } from '../components/history/HistoryPanel';
+import { ReferencesPanel } from '../components/relations/ReferencesPanel';
+import { RelationsPanel } from '../components/relations/RelationsPanel';
+import { InterchangeFormat } from '../types/interchange';
+import { INTERCHANGE_FORMATS, downloadArticles } from '../lib/interchange';
+import { CitationStyle } from '../types/citation';
+import { CITATION_STYLES, copyCitation } from '../lib/citations';
 
 export default function ArticlePage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const updateArticle = useArticlesStore((state) => state.updateArticle);
-  const { sidebarCollapsed, setUnsavedChanges, clearUnsavedChanges, theme } = useSettingsStore();
+  const { sidebarCollapsed, setUnsavedChanges, clearUnsavedChanges, theme, citationStyle, setCitationStyle } = useSettingsStore();
   const { t } = useTranslation();
 
   // Mode: 'view' or 'edit'
@@ -73,6 +83,10 @@ export default function ArticlePage() {
   const [hasChanges, setHasChanges] = useState(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
 
+  // Formatted citation in the selected style (view mode)
+  const [citation, setCitation] = useState<string | null>(null);
+  const [citationCopied, setCitationCopied] = useState(false);
+
   // PDF panel resizing
   const [pdfPanelWidth, setPdfPanelWidth] = useState(50); // percentage
   const isResizing = useRef(false);
@@ -158,6 +172,12 @@ export default function ArticlePage() {
           return;
         }
 
+        // Merged duplicate: show the article it was merged into under its own ID
+        if (loadedArticle.id !== id) {
+          navigate(`/article/${loadedArticle.id}`, { replace: true });
+          return;
+        }
+
         setArticle(loadedArticle);
         setOriginalArticle(loadedArticle);
         populateFormData(loadedArticle);
@@ -373,6 +393,19 @@ export default function ArticlePage() {
     }
   };
 
+  // An older revision was restored: show it, and write the Word note again
+  const handleRevisionRestored = async (restored: Article) => {
+    updateArticle(restored.id, restored);
+    setArticle(restored);
+    setOriginalArticle(restored);
+    populateFormData(restored);
+    try {
+      await articlesApi.generateNote(restored);
+    } catch (err) {
+      console.error('Could not regenerate the note:', err);
+    }
+  };
+
   // Handle PDF drop
   const handlePdfDrop = (e: React.DragEvent) => {
     e.preventDefault();
@@ -403,6 +436,38 @@ export default function ArticlePage() {
     }
   };
 
+  // Format the citation again when the article or the style changes
+  useEffect(() => {
+    if (!article) return;
+    let cancelled = false;
+    citationsApi.format(article, citationStyle)
+      .then((formatted) => { if (!cancelled) setCitation(formatted.text); })
+      .catch((err) => console.error('Error formatting citation:', err));
+    return () => { cancelled = true; };
+  }, [article, citationStyle]);
+
+  // Copy the citation to the clipboard
+  const handleCopyCitation = async () => {
+    if (!article) return;
+    try {
+      await copyCitation(article, citationStyle);
+      setCitationCopied(true);
+      setTimeout(() => setCitationCopied(false), 2000);
+    } catch (err: any) {
+      setError(t('article.copyCitationFailed') + ': ' + err.message);
+    }
+  };
+
+  // Export this article (BibTeX...)
+  const exportArticle = async (format: InterchangeFormat) => {
+    if (!article) return;
+    try {
+      await downloadArticles(format, [article], `${article.id}`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   // Open DOI link
   const openDoi = () => {
     if (article?.doi) {
@@ -428,11 +493,27 @@ export default function ArticlePage() {
     );
   };
 
+  // Render a research note field (written in Markdown)
+  const renderMarkdownField = (label: string, value: string | undefined) => {
+    return (
+      <div className="mb-3">
+        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-0.5">
+          {label}
+        </label>
+        {value?.trim() ? (
+          <MarkdownView text={value} />
+        ) : (
+          <p><span className="text-gray-400 italic text-sm">{t('common.notSpecified')}</span></p>
+        )}
+      </div>
+    );
+  };
+
   // Render edit field
   const renderEditField = (
     label: string,
     field: keyof ArticleFormData,
-    type: 'text' | 'textarea' | 'number' | 'date' | 'select' = 'text',
+    type: 'text' | 'textarea' | 'markdown' | 'number' | 'date' | 'select' = 'text',
     options?: { value: string; label: string }[],
     rows?: number,
     required?: boolean
@@ -450,6 +531,14 @@ export default function ArticlePage() {
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
             required={required}
           />
+        ) : type === 'markdown' ? (
+          <MarkdownTextarea
+            value={formData[field] as string}
+            onChange={(value) => setFormData({ ...formData, [field]: value })}
+            rows={rows || 3}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            required={required}
+          />
         ) : type === 'select' && options ? (
           <select
             value={formData[field] as string}
@@ -696,6 +785,31 @@ export default function ArticlePage() {
                         <span className="text-gray-400 italic text-sm">Not specified</span>
                       )}
                     </div>
+                    <div className="mb-3">
+                      <div className="flex flex-wrap items-center gap-2 mb-0.5">
+                        <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                          {t('article.citation')}
+                        </label>
+                        <select
+                          value={citationStyle}
+                          onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+                          className="text-xs px-1 py-0.5 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded"
+                        >
+                          {(Object.keys(CITATION_STYLES) as CitationStyle[]).map((style) => (
+                            <option key={style} value={style}>{CITATION_STYLES[style]}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={handleCopyCitation}
+                          className="text-xs bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 px-2 py-0.5 rounded transition-colors whitespace-nowrap"
+                        >
+                          {citationCopied ? `✓ ${t('article.citationCopied')}` : `📋 ${t('article.copyCitation')}`}
+                        </button>
+                      </div>
+                      {citation && (
+                        <p className="text-sm text-gray-700 dark:text-gray-300 select-text">{citation}</p>
+                      )}
+                    </div>
                   </>
                 ) : (
                   <>
@@ -842,20 +956,20 @@ export default function ArticlePage() {
               {mode === 'view' ? (
                 <>
                   {renderViewField(t('field.subjects'), subjectsInput)}
-                  {renderViewField(t('field.researchQuestion'), article.researchQuestion)}
-                  {renderViewField(t('field.methodology'), article.methodology)}
-                  {renderViewField(t('field.dataUsed'), article.dataUsed)}
-                  {renderViewField(t('field.results'), article.results)}
-                  {renderViewField(t('field.limitations'), article.limitations)}
+                  {renderMarkdownField(t('field.researchQuestion'), article.researchQuestion)}
+                  {renderMarkdownField(t('field.methodology'), article.methodology)}
+                  {renderMarkdownField(t('field.dataUsed'), article.dataUsed)}
+                  {renderMarkdownField(t('field.results'), article.results)}
+                  {renderMarkdownField(t('field.limitations'), article.limitations)}
                 </>
               ) : (
                 <>
                   {renderCommaInput(t('field.subjects'), subjectsInput, setSubjectsInput, 'Deep Learning, Computer Vision')}
-                  {renderEditField(t('field.researchQuestion'), 'researchQuestion', 'textarea', undefined, 2)}
-                  {renderEditField(t('field.methodology'), 'methodology', 'textarea', undefined, 3)}
-                  {renderEditField(t('field.dataUsed'), 'dataUsed', 'textarea', undefined, 2)}
-                  {renderEditField(t('field.results'), 'results', 'textarea', undefined, 3)}
-                  {renderEditField(t('field.limitations'), 'limitations', 'textarea', undefined, 2)}
+                  {renderEditField(t('field.researchQuestion'), 'researchQuestion', 'markdown', undefined, 2)}
+                  {renderEditField(t('field.methodology'), 'methodology', 'markdown', undefined, 3)}
+                  {renderEditField(t('field.dataUsed'), 'dataUsed', 'markdown', undefined, 2)}
+                  {renderEditField(t('field.results'), 'results', 'markdown', undefined, 3)}
+                  {renderEditField(t('field.limitations'), 'limitations', 'markdown', undefined, 2)}
                 </>
               )}
             </div>
@@ -867,20 +981,34 @@ export default function ArticlePage() {
             <div className="mt-4">
               {mode === 'view' ? (
                 <>
-                  {renderViewField(t('field.firstImp'), article.firstImp)}
-                  {renderViewField(t('field.notes'), article.notes)}
-                  {renderViewField(t('field.comment'), article.comment)}
+                  {renderMarkdownField(t('field.firstImp'), article.firstImp)}
+                  {renderMarkdownField(t('field.notes'), article.notes)}
+                  {renderMarkdownField(t('field.comment'), article.comment)}
                 </>
               ) : (
                 <>
-                  {renderEditField(t('field.firstImp'), 'firstImp', 'textarea', undefined, 3)}
-                  {renderEditField(t('field.notes'), 'notes', 'textarea', undefined, 3)}
-                  {renderEditField(t('field.comment'), 'comment', 'textarea', undefined, 3)}
+                  {renderEditField(t('field.firstImp'), 'firstImp', 'markdown', undefined, 3)}
+                  {renderEditField(t('field.notes'), 'notes', 'markdown', undefined, 3)}
+                  {renderEditField(t('field.comment'), 'comment', 'markdown', undefined, 3)}
                 </>
               )}
             </div>
           </details>
 
+          {/* ============= RELATIONS ============= */}
+          <RelationsPanel articleId={article.id} />
+
+          {/* ============= REFERENCES ============= */}
+          <ReferencesPanel articleId={article.id} />
+
+          {/* ============= HISTORY ============= */}
+          <HistoryPanel
+            articleId={article.id}
+            version={String(article.updatedAt)}
+            readOnly={mode === 'edit'}
+            onRestored={handleRevisionRestored}
+          />
+
           {/* ============= METADATA ============= */}
           <section className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg text-sm text-gray-600 dark:text-gray-400">
             <p>{t('field.createdAt')}: {formatDate(article.dateAdded)}</p>
@@ -925,6 +1053,15 @@ export default function ArticlePage() {
                 >
                   ← {t('article.backToLibrary')}
                 </button>
+                {(Object.keys(INTERCHANGE_FORMATS) as InterchangeFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => exportArticle(format)}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600"
+                  >
+                    📤 {t('article.exportFormat', { format: INTERCHANGE_FORMATS[format].label })}
+                  </button>
+                ))}
                 <button
                   onClick={enterEditMode}
                   className="flex-1 bg-yellow-500 text-white py-2 px-4 rounded-lg font-medium hover:bg-yellow-600"
@@ -975,16 +1112,8 @@ export default function ArticlePage() {
               <div className="flex items-center justify-center h-full">
                 <p className="text-gray-600 dark:text-gray-400">{t('article.loadingPdf')}</p>
               </div>
-            ) : pdfBase64 ? (
-              <object
-                data={`data:application/pdf;base64,${pdfBase64}`}
-                type="application/pdf"
-                className="w-full h-full"
-              >
-                <p className="text-gray-600 dark:text-gray-400 text-center p-4">
-                  {t('article.unableToDisplayPdf')} <button onClick={openPdf} className="text-blue-500 underline">{t('article.openInExternalViewer')}</button>
-                </p>
-              </object>
+            ) : pdfBase64 && id ? (
+              <PdfReader articleId={id} data={pdfBase64} onOpenExternal={openPdf} />
             ) : (
               <div className="flex items-center justify-center h-full">
                 <p className="text-gray-600 dark:text-gray-400 text-center">
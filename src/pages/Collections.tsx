@@ -0,0 +1,484 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from '../hooks/useTranslation';
+import { useCollectionsStore } from '../store/collections';
+import { useSettingsStore } from '../store/settings';
+import { articlesApi, collectionsApi } from '../services/api';
+import { collectionArticleIds, flattenCollectionTree } from '../lib/collections';
+import { EMPTY_LIBRARY_QUERY } from '../lib/libraryQuery';
+import { CITATION_STYLES } from '../lib/citations';
+import { CitationStyle } from '../types/citation';
+import { Article } from '../types/article';
+
+// Articles suggested at once when adding to a collection
+const MAX_ADD_SUGGESTIONS = 10;
+
+export default function Collections() {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { collections, setCollections, updateCollection, loadCollections } = useCollectionsStore();
+  const { citationStyle, setCitationStyle, setLibraryQuery } = useSettingsStore();
+
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const [nameValue, setNameValue] = useState('');
+  const [descriptionValue, setDescriptionValue] = useState('');
+  const [addQuery, setAddQuery] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+  const [selectedArticles, setSelectedArticles] = useState<Article[]>([]);
+  const [addSuggestions, setAddSuggestions] = useState<Article[]>([]);
+
+  useEffect(() => {
+    loadCollections();
+  }, []);
+
+  const tree = flattenCollectionTree(collections);
+  const selected = collections.find((collection) => collection.id === selectedId) || null;
+  const selectedIdsKey = selected ? selected.articleIds.join(',') : '';
+
+  // Articles of the selected collection, in its order
+  useEffect(() => {
+    if (!selected) {
+      setSelectedArticles([]);
+      return;
+    }
+    let cancelled = false;
+    articlesApi.getByIds(selected.articleIds)
+      .then((loaded) => { if (!cancelled) setSelectedArticles(loaded); })
+      .catch((error) => console.error('Failed to load collection articles:', error));
+    return () => { cancelled = true; };
+  }, [selectedId, selectedIdsKey]);
+
+  // Library articles matching the add field, not already in the collection
+  useEffect(() => {
+    const text = addQuery.trim();
+    if (!selected || !text) {
+      setAddSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      articlesApi.query({
+        query: { ...EMPTY_LIBRARY_QUERY, text },
+        limit: MAX_ADD_SUGGESTIONS + selected.articleIds.length,
+      })
+        .then((result) => {
+          if (cancelled) return;
+          setAddSuggestions(result.articles
+            .filter((article) => !selected.articleIds.includes(article.id))
+            .slice(0, MAX_ADD_SUGGESTIONS));
+        })
+        .catch((error) => console.error('Failed to search articles:', error));
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [addQuery, selectedId, selectedIdsKey]);
+
+  // Edit fields follow the selected collection
+  useEffect(() => {
+    setNameValue(selected?.name || '');
+    setDescriptionValue(selected?.description || '');
+    setAddQuery('');
+  }, [selectedId, selected?.name, selected?.description]);
+
+  const showError = (error: any) => {
+    setMessage({ type: 'error', text: `⚠️ ${error.message}` });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const showSuccess = (text: string) => {
+    setMessage({ type: 'success', text: `✅ ${text}` });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  // Run a change to the tree, then reload it
+  const runAndReload = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setCollections(await collectionsApi.list());
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const siblings = selected ? tree.filter(({ collection }) => collection.parentId === selected.parentId).map(({ collection }) => collection) : [];
+  const siblingIndex = selected ? siblings.findIndex((collection) => collection.id === selected.id) : -1;
+
+  const handleCreate = async (parentId: number | null) => {
+    if (!newName.trim()) return;
+    try {
+      const created = await collectionsApi.create(newName, parentId);
+      setCollections(await collectionsApi.list());
+      setNewName('');
+      setSelectedId(created.id);
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    if (!selected) return;
+    if (nameValue.trim() === selected.name && descriptionValue === selected.description) return;
+    try {
+      updateCollection(await collectionsApi.update(selected.id, { name: nameValue, description: descriptionValue }));
+    } catch (error: any) {
+      showError(error);
+      setNameValue(selected.name);
+    }
+  };
+
+  // Up/down among siblings
+  const handleMoveSibling = (offset: number) => {
+    if (!selected) return;
+    runAndReload(() => collectionsApi.move(selected.id, selected.parentId, siblingIndex + offset));
+  };
+
+  // Become the last child of the sibling above
+  const handleIndent = () => {
+    if (!selected || siblingIndex <= 0) return;
+    const newParent = siblings[siblingIndex - 1];
+    const childCount = collections.filter((collection) => collection.parentId === newParent.id).length;
+    runAndReload(() => collectionsApi.move(selected.id, newParent.id, childCount));
+  };
+
+  // Move next to the parent, right after it
+  const handleOutdent = () => {
+    if (!selected || selected.parentId === null) return;
+    const parent = collections.find((collection) => collection.id === selected.parentId);
+    if (!parent) return;
+    runAndReload(() => collectionsApi.move(selected.id, parent.parentId, parent.position + 1));
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    setShowDelete(false);
+    await runAndReload(() => collectionsApi.delete(selected.id));
+    setSelectedId(null);
+  };
+
+  const handleAddArticle = async (articleId: string) => {
+    if (!selected) return;
+    try {
+      updateCollection(await collectionsApi.addArticles(selected.id, [articleId]));
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const handleRemoveArticle = async (articleId: string) => {
+    if (!selected) return;
+    try {
+      updateCollection(await collectionsApi.removeArticles(selected.id, [articleId]));
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const handleMoveArticle = async (index: number, offset: number) => {
+    if (!selected) return;
+    const order = selectedArticles.map((article) => article.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    try {
+      updateCollection(await collectionsApi.reorderArticles(selected.id, order));
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  // Bundle of the collection and its subcollections, in order
+  const handleExport = async () => {
+    if (!selected) return;
+    setExporting(true);
+    try {
+      const bundleArticles = await articlesApi.getByIds(collectionArticleIds(collections, selected.id));
+      const result = await collectionsApi.exportBundle(selected.name, bundleArticles, citationStyle);
+      if (result) {
+        showSuccess(t('collections.exported', { count: result.articles, pdfs: result.pdfs, notes: result.notes, path: result.path }));
+      }
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleShowInLibrary = () => {
+    if (!selected) return;
+    setLibraryQuery({ collectionId: selected.id });
+    navigate('/library');
+  };
+
+  return (
+    <div className="p-8">
+      <h1 className="text-3xl font-bold mb-2">📂 {t('collections.title')}</h1>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{t('collections.description')}</p>
+
+      {message && (
+        <div
+          className={`mb-6 p-4 rounded-lg ${message.type === 'success'
+            ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100'
+            : 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100'
+            }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex gap-6 items-start">
+        {/* Collection tree */}
+        <div className="w-80 shrink-0 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+          <div className="flex gap-2 mb-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate(null)}
+              placeholder={t('collections.newPlaceholder')}
+              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg"
+            />
+            <button
+              onClick={() => handleCreate(null)}
+              disabled={!newName.trim()}
+              className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              ➕
+            </button>
+          </div>
+          {selected && (
+            <button
+              onClick={() => handleCreate(selected.id)}
+              disabled={!newName.trim()}
+              className="w-full mb-4 px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              {t('collections.createInside', { name: selected.name })}
+            </button>
+          )}
+
+          {tree.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">{t('collections.empty')}</p>
+          ) : (
+            <div className="space-y-1">
+              {tree.map(({ collection, depth }) => (
+                <button
+                  key={collection.id}
+                  onClick={() => setSelectedId(collection.id)}
+                  style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+                  className={`w-full flex items-center gap-2 pr-3 py-2 rounded-lg text-left text-sm ${selectedId === collection.id
+                    ? 'bg-blue-600 text-white'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                >
+                  <span>{depth === 0 ? '📁' : '📂'}</span>
+                  <span className="flex-1 truncate">{collection.name}</span>
+                  <span className="text-xs opacity-70">{collection.articleIds.length}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Selected collection */}
+        <div className="flex-1 min-w-0">
+          {!selected ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center text-gray-500 dark:text-gray-400">
+              {t('collections.selectHint')}
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+              <div className="flex gap-2 mb-4 flex-wrap">
+                <button
+                  onClick={() => handleMoveSibling(-1)}
+                  disabled={siblingIndex <= 0}
+                  title={t('collections.moveUp')}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => handleMoveSibling(1)}
+                  disabled={siblingIndex === siblings.length - 1}
+                  title={t('collections.moveDown')}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={handleIndent}
+                  disabled={siblingIndex <= 0}
+                  title={t('collections.indentHint')}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  ⇥ {t('collections.indent')}
+                </button>
+                <button
+                  onClick={handleOutdent}
+                  disabled={selected.parentId === null}
+                  title={t('collections.outdentHint')}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  ⇤ {t('collections.outdent')}
+                </button>
+                <div className="flex-1" />
+                <button
+                  onClick={handleShowInLibrary}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  📚 {t('collections.showInLibrary')}
+                </button>
+                <button
+                  onClick={() => setShowDelete(true)}
+                  className="px-3 py-1 text-sm bg-red-500 text-white rounded-lg hover:bg-red-600"
+                >
+                  🗑️ {t('common.delete')}
+                </button>
+              </div>
+
+              <input
+                type="text"
+                value={nameValue}
+                onChange={(e) => setNameValue(e.target.value)}
+                onBlur={handleSaveDetails}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveDetails()}
+                className="w-full px-3 py-2 mb-2 text-xl font-bold border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg"
+              />
+              <textarea
+                value={descriptionValue}
+                onChange={(e) => setDescriptionValue(e.target.value)}
+                onBlur={handleSaveDetails}
+                placeholder={t('collections.descriptionPlaceholder')}
+                rows={2}
+                className="w-full px-3 py-2 mb-6 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg"
+              />
+
+              {/* Export bundle */}
+              <div className="flex items-center gap-2 mb-6 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm flex-wrap">
+                <span className="flex-1 min-w-0">{t('collections.exportHint')}</span>
+                <select
+                  value={citationStyle}
+                  onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white rounded-lg"
+                >
+                  {(Object.keys(CITATION_STYLES) as CitationStyle[]).map((style) => (
+                    <option key={style} value={style}>{CITATION_STYLES[style]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleExport}
+                  disabled={exporting || collectionArticleIds(collections, selected.id).length === 0}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {exporting ? `⏳ ${t('collections.exporting')}` : `📦 ${t('collections.export')}`}
+                </button>
+              </div>
+
+              {/* Add articles */}
+              <div className="relative mb-4">
+                <input
+                  type="text"
+                  value={addQuery}
+                  onChange={(e) => setAddQuery(e.target.value)}
+                  placeholder={t('collections.addPlaceholder')}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg"
+                />
+                {addSuggestions.length > 0 && (
+                  <div className="absolute z-10 left-0 right-0 mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg">
+                    {addSuggestions.map((article) => (
+                      <button
+                        key={article.id}
+                        onClick={() => handleAddArticle(article.id)}
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 truncate"
+                      >
+                        ➕ #{article.id} {article.title} ({article.year})
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Articles in manual order */}
+              <h3 className="font-semibold mb-2">
+                {t('collections.articles', { count: selectedArticles.length })}
+              </h3>
+              {selectedArticles.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('collections.noArticles')}</p>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {selectedArticles.map((article, index) => (
+                    <div key={article.id} className="flex items-center gap-3 py-2 text-sm">
+                      <span className="w-8 text-right text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                      <button
+                        onClick={() => navigate(`/article/${article.id}`)}
+                        className="flex-1 min-w-0 text-left truncate hover:underline"
+                      >
+                        #{article.id} {article.title}
+                        <span className="text-gray-500 dark:text-gray-400"> ({article.year})</span>
+                      </button>
+                      <button
+                        onClick={() => handleMoveArticle(index, -1)}
+                        disabled={index === 0}
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => handleMoveArticle(index, 1)}
+                        disabled={index === selectedArticles.length - 1}
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => handleRemoveArticle(article.id)}
+                        title={t('collections.removeArticle')}
+                        className="px-2 py-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900 rounded"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Delete Modal */}
+      {showDelete && selected && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => setShowDelete(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-4">🗑️ {t('collections.deleteTitle')}</h3>
+            <p className="text-gray-700 dark:text-gray-300 mb-6">
+              {t('collections.deleteConfirm', { name: selected.name })}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowDelete(false)}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleDelete}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                {t('common.delete')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
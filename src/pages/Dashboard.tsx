@@ -1,41 +1,36 @@
 import React from 'react';
-import { useArticlesStore } from '../store/articles';
+import { useArticleQuery } from '../hooks/useArticleQuery';
 import { useTranslation } from '../hooks/useTranslation';
+import { EMPTY_LIBRARY_QUERY } from '../lib/libraryQuery';
+import { LibraryFacetKey } from '../types/query';
 
 export default function Dashboard() {
-  const articles = useArticlesStore((state) => state.articles);
+  // Counts over the whole library, computed by the main process
+  const { facets } = useArticleQuery(EMPTY_LIBRARY_QUERY, { pageSize: 0, facets: true });
   const { t } = useTranslation();
 
   // Basic stats
-  const totalArticles = articles.length;
-  const readArticles = articles.filter((a) => a.read).length;
-  const favoriteArticles = articles.filter((a) => a.favorite).length;
-  const ratedArticles = articles.filter((a) => a.rating > 0);
+  const totalArticles = facets ? facets.read + facets.unread : 0;
+  const readArticles = facets?.read || 0;
+  const favoriteArticles = facets?.favorites || 0;
+  const ratedArticles = (facets?.ratings || []).filter((rating) => Number(rating.value) > 0);
+  const ratedCount = ratedArticles.reduce((sum, rating) => sum + rating.count, 0);
   const averageRating =
-    ratedArticles.length > 0
-      ? (ratedArticles.reduce((sum, a) => sum + a.rating, 0) / ratedArticles.length).toFixed(1)
+    ratedCount > 0
+      ? (ratedArticles.reduce((sum, rating) => sum + Number(rating.value) * rating.count, 0) / ratedCount).toFixed(1)
       : '0';
 
-  // Additional stats
-  const uniqueAuthors = new Set(articles.flatMap(a => a.authors?.map(au => au.name) || [])).size;
-  const uniqueUniversities = new Set(articles.flatMap(a => a.universities?.map(u => u.name) || [])).size;
-  const uniqueCompanies = new Set(articles.flatMap(a => a.companies?.map(c => c.name) || [])).size;
-  const uniqueKeywords = new Set(articles.flatMap(a => a.keywords?.map(k => k.name) || [])).size;
-  const uniqueSubjects = new Set(articles.flatMap(a => a.subjects?.map(s => s.name) || [])).size;
+  // Additional stats: names used by at least one article
+  const countUsed = (key: LibraryFacetKey) => (facets?.lists[key] || []).filter((facet) => facet.count > 0).length;
+  const uniqueAuthors = countUsed('authors');
+  const uniqueUniversities = countUsed('universities');
+  const uniqueCompanies = countUsed('companies');
+  const uniqueKeywords = countUsed('keywords');
+  const uniqueSubjects = countUsed('subjects');
 
   // Articles added/updated last month
-  const oneMonthAgo = new Date();
-  oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-
-  const addedLastMonth = articles.filter(a => {
-    if (!a.createdAt) return false;
-    return new Date(a.createdAt) >= oneMonthAgo;
-  }).length;
-
-  const updatedLastMonth = articles.filter(a => {
-    if (!a.updatedAt) return false;
-    return new Date(a.updatedAt) >= oneMonthAgo;
-  }).length;
+  const addedLastMonth = facets?.addedLast30Days || 0;
+  const updatedLastMonth = facets?.updatedLast30Days || 0;
 
   return (
     <div className="p-8">
@@ -0,0 +1,371 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from '../hooks/useTranslation';
+import { articlesApi } from '../services/api';
+import { starBar } from '../lib/utils';
+import { Article } from '../types/article';
+import { DuplicateCandidate, MergeField } from '../types/duplicates';
+
+// Fields compared side by side, in form order
+const MERGE_FIELDS: MergeField[] = [
+  'title', 'abstract', 'conclusion', 'year', 'date', 'journal', 'doi', 'language', 'numPages',
+  'researchQuestion', 'methodology', 'dataUsed', 'results', 'limitations', 'firstImp', 'notes', 'comment',
+  'rating', 'read', 'favorite',
+];
+
+// Relations merged as a union (shown for information)
+const RELATION_FIELDS = ['authors', 'keywords', 'subjects', 'tags', 'universities', 'companies'] as const;
+
+// Raw value of a field, for comparison and defaults
+function fieldValue(article: Article, field: MergeField): string | number | boolean {
+  const value = article[field];
+  return value === undefined || value === null ? '' : value;
+}
+
+function isEmptyValue(value: string | number | boolean): boolean {
+  return value === '' || value === 0 || value === false;
+}
+
+// Default pick: the kept article's value, unless it's empty and the other one isn't
+function defaultPicks(kept: Article, other: Article): Partial<Record<MergeField, string>> {
+  const picks: Partial<Record<MergeField, string>> = {};
+  MERGE_FIELDS.forEach((field) => {
+    const keptValue = fieldValue(kept, field);
+    picks[field] = isEmptyValue(keptValue) && !isEmptyValue(fieldValue(other, field)) ? other.id : kept.id;
+  });
+  return picks;
+}
+
+export default function Duplicates() {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [scanning, setScanning] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Pair being reviewed
+  const [reviewed, setReviewed] = useState<DuplicateCandidate | null>(null);
+  const [keepId, setKeepId] = useState('');
+  const [picks, setPicks] = useState<Partial<Record<MergeField, string>>>({});
+  const [pdfFrom, setPdfFrom] = useState('');
+  const [hasPdf, setHasPdf] = useState<Record<string, boolean>>({});
+  const [merging, setMerging] = useState(false);
+  // Articles of the candidate pairs
+  const [articles, setArticles] = useState<Map<string, Article>>(new Map());
+
+  const findArticle = (id: string) => articles.get(id);
+
+  const scan = async () => {
+    setScanning(true);
+    try {
+      const found = await articlesApi.findDuplicates();
+      const ids = [...new Set(found.flatMap((candidate) => candidate.articleIds))];
+      const loaded = await articlesApi.getByIds(ids);
+      setArticles(new Map(loaded.map((article) => [article.id, article])));
+      setCandidates(found);
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + t('duplicates.scanFailed') + ': ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  useEffect(() => {
+    scan();
+  }, []);
+
+  // Open the merge view, keeping the older article by default
+  const startReview = async (candidate: DuplicateCandidate) => {
+    const [first, second] = candidate.articleIds;
+    const kept = findArticle(first);
+    const other = findArticle(second);
+    if (!kept || !other) return;
+
+    setReviewed(candidate);
+    setKeepId(first);
+    setPicks(defaultPicks(kept, other));
+
+    const paths = await Promise.all(candidate.articleIds.map((id) => window.electronAPI.files.getPdfPath(id)));
+    setHasPdf({ [first]: Boolean(paths[0]), [second]: Boolean(paths[1]) });
+    setPdfFrom(paths[0] || !paths[1] ? first : second);
+  };
+
+  const changeKept = (id: string) => {
+    if (!reviewed) return;
+    const otherId = reviewed.articleIds.find((articleId) => articleId !== id) as string;
+    const kept = findArticle(id);
+    const other = findArticle(otherId);
+    if (!kept || !other) return;
+
+    setKeepId(id);
+    setPicks(defaultPicks(kept, other));
+  };
+
+  const handleMerge = async () => {
+    if (!reviewed) return;
+    const retireId = reviewed.articleIds.find((id) => id !== keepId) as string;
+
+    setMerging(true);
+    try {
+      const fields: Partial<Record<MergeField, 'keep' | 'retire'>> = {};
+      MERGE_FIELDS.forEach((field) => {
+        fields[field] = picks[field] === retireId ? 'retire' : 'keep';
+      });
+
+      const merged = await articlesApi.merge({
+        keepId,
+        retireId,
+        fields,
+        pdf: pdfFrom === retireId ? 'retire' : 'keep',
+      });
+
+      // The note is written from the merged data
+      await articlesApi.generateNote(merged);
+
+      setReviewed(null);
+      await scan();
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + t('duplicates.mergeFailed') + ': ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  // Displayed value of a field
+  const renderValue = (article: Article, field: MergeField) => {
+    const value = fieldValue(article, field);
+    if (field === 'rating') return starBar(value as number);
+    if (typeof value === 'boolean') return value ? t('common.yes') : t('common.no');
+    if (isEmptyValue(value)) return <span className="italic text-gray-400">{t('common.notSpecified')}</span>;
+    return String(value);
+  };
+
+  const articleSummary = (article: Article) => (
+    <div className="flex-1 min-w-0">
+      <p className="font-medium">
+        <span className="text-gray-500 dark:text-gray-400 mr-2">#{article.id}</span>
+        {article.title}
+      </p>
+      <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+        {(article.authors || []).map((author) => author.name).join(', ')} · {article.year}
+        {article.doi && ` · ${article.doi}`}
+      </p>
+    </div>
+  );
+
+  const reviewedArticles = reviewed
+    ? (reviewed.articleIds.map((id) => findArticle(id)).filter(Boolean) as Article[])
+    : [];
+  const differingFields = reviewedArticles.length === 2
+    ? MERGE_FIELDS.filter((field) => String(fieldValue(reviewedArticles[0], field)) !== String(fieldValue(reviewedArticles[1], field)))
+    : [];
+  const retireId = reviewed ? reviewed.articleIds.find((id) => id !== keepId) : '';
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-3xl font-bold">🧬 {t('duplicates.title')}</h1>
+        <button
+          onClick={scan}
+          disabled={scanning}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          🔍 {scanning ? t('duplicates.scanning') : t('duplicates.scan')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{t('duplicates.description')}</p>
+
+      {/* Error Message */}
+      {errorMessage && (
+        <div className="mb-6 p-4 bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-600 rounded-lg flex items-center gap-3">
+          <span className="text-red-800 dark:text-red-100 flex-1">{errorMessage}</span>
+          <button
+            onClick={() => setErrorMessage(null)}
+            className="text-red-600 dark:text-red-200 hover:text-red-800 dark:hover:text-red-100 text-xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {!scanning && candidates.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow text-center text-gray-500 dark:text-gray-400">
+          ✅ {t('duplicates.none')}
+        </div>
+      )}
+
+      {/* Candidate pairs */}
+      <div className="space-y-4">
+        {candidates.map((candidate) => {
+          const pair = candidate.articleIds.map((id) => findArticle(id));
+          if (!pair[0] || !pair[1]) return null;
+
+          return (
+            <div key={candidate.articleIds.join('-')} className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="px-2 py-0.5 text-xs rounded bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">
+                  {Math.round(candidate.score * 100)}%
+                </span>
+                {candidate.reasons.map((reason) => (
+                  <span
+                    key={reason}
+                    className="px-2 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  >
+                    {t(`duplicates.reason.${reason}`)}
+                  </span>
+                ))}
+                <div className="flex-1" />
+                <button
+                  onClick={() => startReview(candidate)}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+                >
+                  {t('duplicates.review')}
+                </button>
+              </div>
+              <div className="space-y-2">
+                {pair.map((article) => (
+                  <div
+                    key={article!.id}
+                    onClick={() => navigate(`/article/${article!.id}`)}
+                    className="flex cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 rounded p-1"
+                  >
+                    {articleSummary(article!)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Merge Modal */}
+      {reviewed && reviewedArticles.length === 2 && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => !merging && setReviewed(null)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full p-6 max-h-[90vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-2">🧬 {t('duplicates.mergeTitle')}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {t('duplicates.mergeDescription', { keep: keepId, retire: retireId || '' })}
+            </p>
+
+            <div className="flex-1 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left p-2 w-40"></th>
+                    {reviewedArticles.map((article) => (
+                      <th key={article.id} className="text-left p-2">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="keepArticle"
+                            checked={keepId === article.id}
+                            onChange={() => changeKept(article.id)}
+                          />
+                          {t('duplicates.keep', { id: article.id })}
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {differingFields.map((field) => (
+                    <tr key={field} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                      <td className="p-2 font-medium">{t(`field.${field}`)}</td>
+                      {reviewedArticles.map((article) => (
+                        <td key={article.id} className="p-2">
+                          <label className="flex items-start gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`pick-${field}`}
+                              checked={picks[field] === article.id}
+                              onChange={() => setPicks((prev) => ({ ...prev, [field]: article.id }))}
+                              className="mt-1"
+                            />
+                            <span className={`break-words ${field === 'abstract' || field === 'notes' ? 'line-clamp-4' : ''}`}>
+                              {renderValue(article, field)}
+                            </span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+
+                  {/* Keep one PDF */}
+                  <tr className="border-b border-gray-100 dark:border-gray-700">
+                    <td className="p-2 font-medium">{t('field.pdf')}</td>
+                    {reviewedArticles.map((article) => (
+                      <td key={article.id} className="p-2">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="pickPdf"
+                            checked={pdfFrom === article.id}
+                            disabled={!hasPdf[article.id]}
+                            onChange={() => setPdfFrom(article.id)}
+                          />
+                          {hasPdf[article.id] ? '📄 PDF' : <span className="italic text-gray-400">{t('duplicates.noPdf')}</span>}
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+
+              {reviewedArticles.every((article) => hasPdf[article.id]) && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{t('duplicates.pdfAnnotationsHint')}</p>
+              )}
+
+              {differingFields.length < MERGE_FIELDS.length && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  {t('duplicates.identicalFields', { count: MERGE_FIELDS.length - differingFields.length })}
+                </p>
+              )}
+
+              {/* Relations are unioned */}
+              <div className="mt-4">
+                <p className="text-sm font-medium mb-2">{t('duplicates.unionHint')}</p>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  {RELATION_FIELDS.map((field) => {
+                    const names = Array.from(new Set(reviewedArticles.flatMap((article) => (article[field] || []).map((entity) => entity.name))));
+                    if (names.length === 0) return null;
+                    return (
+                      <div key={field}>
+                        <span className="text-gray-500 dark:text-gray-400">{t(`field.${field}`)}: </span>
+                        {names.join(', ')}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setReviewed(null)}
+                disabled={merging}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleMerge}
+                disabled={merging}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {merging ? t('duplicates.merging') : t('duplicates.merge', { retire: retireId || '', keep: keepId })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { checkTitle } from '../lib/utils';
 import { getPdfPageCount } from '../utils/pdf';
 import { cleanText } from '../utils/text';
 import { CleanTextarea } from '../components/form/CleanTextarea';
+import { MarkdownTextarea } from '../components/form/MarkdownTextarea';
 
 export default function EditArticle() {
   const { id } = useParams<{ id: string }>();
@@ -84,6 +85,12 @@ export default function EditArticle() {
           return;
         }
 
+        // Merged duplicate: edit the article it was merged into
+        if (loadedArticle.id !== id) {
+          navigate(`/edit/${loadedArticle.id}`, { replace: true });
+          return;
+        }
+
         setArticle(loadedArticle);
 
         // Populate form with existing data
@@ -272,14 +279,14 @@ export default function EditArticle() {
   const renderEditField = (
     label: string,
     field: keyof ArticleFormData,
-    type: 'text' | 'textarea' | 'number' | 'date' | 'select' = 'text',
+    type: 'text' | 'textarea' | 'markdown' | 'number' | 'date' | 'select' = 'text',
     options?: { value: string; label: string }[],
     rows?: number,
     required?: boolean
   ) => {
     return (
       <div className="mb-3">
-        {type === 'textarea' ? (
+        {type === 'textarea' || type === 'markdown' ? (
           <>
             <div className="flex items-center justify-between mb-1">
               <label className="block text-sm font-medium">
@@ -294,13 +301,23 @@ export default function EditArticle() {
                 🧹 Clean
               </button>
             </div>
-            <CleanTextarea
-              value={formData[field] as string}
-              onChange={(value) => setFormData({ ...formData, [field]: value })}
-              rows={rows || 3}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-              required={required}
-            />
+            {type === 'markdown' ? (
+              <MarkdownTextarea
+                value={formData[field] as string}
+                onChange={(value) => setFormData({ ...formData, [field]: value })}
+                rows={rows || 3}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                required={required}
+              />
+            ) : (
+              <CleanTextarea
+                value={formData[field] as string}
+                onChange={(value) => setFormData({ ...formData, [field]: value })}
+                rows={rows || 3}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                required={required}
+              />
+            )}
           </>
         ) : (
           <>
@@ -602,11 +619,11 @@ export default function EditArticle() {
               <summary className="text-lg font-semibold cursor-pointer">🔬 Research Content</summary>
               <div className="mt-4">
                 {renderCommaInput('Topics Covered', subjectsInput, setSubjectsInput, 'Deep Learning, Computer Vision')}
-                {renderEditField('Research Question', 'researchQuestion', 'textarea', undefined, 2)}
-                {renderEditField('Methodology', 'methodology', 'textarea', undefined, 3)}
-                {renderEditField('Data Used', 'dataUsed', 'textarea', undefined, 2)}
-                {renderEditField('Results', 'results', 'textarea', undefined, 3)}
-                {renderEditField('Limitations', 'limitations', 'textarea', undefined, 2)}
+                {renderEditField('Research Question', 'researchQuestion', 'markdown', undefined, 2)}
+                {renderEditField('Methodology', 'methodology', 'markdown', undefined, 3)}
+                {renderEditField('Data Used', 'dataUsed', 'markdown', undefined, 2)}
+                {renderEditField('Results', 'results', 'markdown', undefined, 3)}
+                {renderEditField('Limitations', 'limitations', 'markdown', undefined, 2)}
               </div>
             </details>
 
@@ -614,9 +631,9 @@ export default function EditArticle() {
             <details className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6" open>
               <summary className="text-lg font-semibold cursor-pointer">📌 Notes & Comments</summary>
               <div className="mt-4">
-                {renderEditField('First Impressions', 'firstImp', 'textarea', undefined, 3)}
-                {renderEditField('Personal Notes', 'notes', 'textarea', undefined, 3)}
-                {renderEditField('Comments', 'comment', 'textarea', undefined, 3)}
+                {renderEditField('First Impressions', 'firstImp', 'markdown', undefined, 3)}
+                {renderEditField('Personal Notes', 'notes', 'markdown', undefined, 3)}
+                {renderEditField('Comments', 'comment', 'markdown', undefined, 3)}
               </div>
             </details>
 
@@ -1,27 +1,56 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useArticlesStore } from '../store/articles';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { useSettingsStore } from '../store/settings';
+import { useCollectionsStore } from '../store/collections';
+import { useSavedViewsStore } from '../store/savedViews';
+import { flattenCollectionTree } from '../lib/collections';
+import { EMPTY_LIBRARY_QUERY, parseQuery, serializeQuery } from '../lib/libraryQuery';
 import { useTranslation } from '../hooks/useTranslation';
-import { articlesApi } from '../services/api';
+import { useArticleQuery } from '../hooks/useArticleQuery';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { QueryInput } from '../components/search/QueryInput';
+import { articlesApi, metadataApi, collectionsApi, savedViewsApi } from '../services/api';
 import { starBar } from '../lib/utils';
 import { formatDate, formatDateTime } from '../utils/text';
+import { ArticleSearchResult, SearchTextSegment } from '../types/search';
+import { InterchangeFormat } from '../types/interchange';
+import { INTERCHANGE_FORMATS, downloadArticles } from '../lib/interchange';
+import { BibliographyFormat, CitationStyle } from '../types/citation';
+import { CITATION_STYLES, BIBLIOGRAPHY_FORMATS, downloadBibliography } from '../lib/citations';
+import { Article, BulkArticleUpdate, BulkRelation } from '../types/article';
+import { LibraryFacetKey, LibrarySortColumn } from '../types/query';
+import { MetadataFieldChange } from '../types/metadata';
+import { diffArticle, changesToFormData } from '../lib/metadataFields';
+
+// Registry lookup for one article: the fields that differ, or why it failed
+interface MetadataRefreshResult {
+  article: Article;
+  changes: MetadataFieldChange[];
+  error?: string;
+}
 
 export default function Library() {
   const navigate = useNavigate();
-  const { articles, setArticles } = useArticlesStore();
+  const location = useLocation();
   const { t } = useTranslation();
   const {
-    globalSearchText,
-    setGlobalSearchText,
-    activeQuickFilter,
-    setActiveQuickFilter,
-    libraryFilterRead,
-    libraryFilterFavorite,
-    setLibraryFilterRead,
-    setLibraryFilterFavorite,
+    libraryQuery: query,
+    setLibraryQuery,
+    replaceLibraryQuery,
+    citationStyle,
+    setCitationStyle,
+    hideEmptyFacets,
+    setHideEmptyFacets,
   } = useSettingsStore();
-  const [searchText, setSearchText] = useState('');
+  const { collections, updateCollection } = useCollectionsStore();
+  const { views, setViews } = useSavedViewsStore();
+
+  // Articles matching the query, loaded a page at a time (filtered, sorted and counted by the main process)
+  const { articles, articleIds, total, facets, structured, hasMore, loadMore, reload, patchArticle } =
+    useArticleQuery(query, { facets: true, ids: true });
+  // Counts over the whole library, for the stats
+  const { facets: libraryFacets, reload: reloadLibraryCounts } =
+    useArticleQuery(EMPTY_LIBRARY_QUERY, { pageSize: 0, facets: true });
 
   // Refs for filter dropdowns to auto-close them
   const searchFieldsRef = useRef<HTMLDetailsElement>(null);
@@ -32,27 +61,8 @@ export default function Library() {
   const companiesRef = useRef<HTMLDetailsElement>(null);
   const journalsRef = useRef<HTMLDetailsElement>(null);
 
-  // Search field selection - which fields to search in (for local search)
-  const [searchFields, setSearchFields] = useState<string[]>(['all']);
-
-  // Range filters
-  const [filterYearMin, setFilterYearMin] = useState<number | ''>('');
-  const [filterYearMax, setFilterYearMax] = useState<number | ''>('');
-  const [filterDateAddedMin, setFilterDateAddedMin] = useState<number | ''>('');
-  const [filterDateAddedMax, setFilterDateAddedMax] = useState<number | ''>('');
-  const [filterRatingMin, setFilterRatingMin] = useState<number | ''>('');
-  const [filterRatingMax, setFilterRatingMax] = useState<number | ''>('');
-  const [filterPagesMin, setFilterPagesMin] = useState<number | ''>('');
-  const [filterPagesMax, setFilterPagesMax] = useState<number | ''>('');
-
-  // Multi-select filters
-  const [filterAuthors, setFilterAuthors] = useState<string[]>([]);
-  const [filterKeywords, setFilterKeywords] = useState<string[]>([]);
-  const [filterTags, setFilterTags] = useState<string[]>([]);
-  const [filterSubjects, setFilterSubjects] = useState<string[]>([]);
-  const [filterUniversities, setFilterUniversities] = useState<string[]>([]);
-  const [filterCompanies, setFilterCompanies] = useState<string[]>([]);
-  const [filterJournals, setFilterJournals] = useState<string[]>([]);
+  // Full-text search results (ranked, with snippets) - null when not searching the index
+  const [searchResults, setSearchResults] = useState<Map<string, ArticleSearchResult> | null>(null);
 
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
   const [selectedArticle, setSelectedArticle] = useState<string | null>(null);
@@ -61,37 +71,69 @@ export default function Library() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteArticleId, setDeleteArticleId] = useState<string>('');
   const [deleteConfirmInput, setDeleteConfirmInput] = useState('');
-  const [sortColumn, setSortColumn] = useState<'id' | 'title' | 'year' | 'createdAt' | 'updatedAt' | null>(null);
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
-  // Load articles on mount
+  // Saved views
+  const [showSaveView, setShowSaveView] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [lastViewId, setLastViewId] = useState<number | null>(null);
+
+  // Bibliography of the articles shown
+  const [showBibliography, setShowBibliography] = useState(false);
+  const [bibliographyFormat, setBibliographyFormat] = useState<BibliographyFormat>('text');
+  const [generatingBibliography, setGeneratingBibliography] = useState(false);
+
+  // Metadata refresh (DOI lookup) of the articles shown
+  const [showMetadataRefresh, setShowMetadataRefresh] = useState(false);
+  const [refreshProgress, setRefreshProgress] = useState<{ done: number; total: number } | null>(null);
+  const [refreshResults, setRefreshResults] = useState<MetadataRefreshResult[]>([]);
+  const [acceptedChanges, setAcceptedChanges] = useState<Set<string>>(new Set());
+  const [applyingChanges, setApplyingChanges] = useState(false);
+
+  // Checked rows and bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkWorking, setBulkWorking] = useState(false);
+  const [showBulkRelations, setShowBulkRelations] = useState(false);
+  const [bulkRelation, setBulkRelation] = useState<BulkRelation>('tags');
+  const [bulkRelationMode, setBulkRelationMode] = useState<'add' | 'remove'>('add');
+  const [bulkRelationInput, setBulkRelationInput] = useState('');
+  const [showBulkDelete, setShowBulkDelete] = useState(false);
+
+  // A query in the URL (saved view, link) replaces the current one
   useEffect(() => {
-    const loadArticles = async () => {
-      const data = await articlesApi.getAll();
-      setArticles(data);
-    };
-    loadArticles();
-  }, [setArticles]);
+    if (!location.search) return;
+    replaceLibraryQuery(parseQuery(location.search));
+    navigate('/library', { replace: true });
+  }, [location.search, location.key]);
 
-  // Transfer global search text to local search field and clear global
+  // Passages matching a plain text search in the full-text index (fields + PDF text), shown under the titles
+  // Structured queries (fields, ranges, flags, OR...) have none
   useEffect(() => {
-    if (globalSearchText) {
-      setSearchText(globalSearchText);
-      setGlobalSearchText(''); // Clear global search after transferring
+    const useIndex = query.searchFields.includes('all') || query.searchFields.includes('pdfText');
+    if (!query.text.trim() || structured || !useIndex) {
+      setSearchResults(null);
+      return;
     }
-  }, [globalSearchText, setGlobalSearchText]);
 
-  // Sync "Recent" quick filter with "Last Update" column sorting
-  useEffect(() => {
-    if (activeQuickFilter === 'recent') {
-      // When Recent is active, set sort to updatedAt descending
-      setSortColumn('updatedAt');
-      setSortDirection('desc');
-    } else if (sortColumn === 'updatedAt' && activeQuickFilter === 'none') {
-      // When Recent is deactivated and we were sorting by updatedAt, clear the sort
-      setSortColumn(null);
-    }
-  }, [activeQuickFilter]);
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await articlesApi.search(query.text, {
+          fields: query.searchFields.includes('all') ? undefined : ['pdfText'],
+        });
+        if (!cancelled) {
+          setSearchResults(new Map(results.map((result) => [result.articleId, result])));
+        }
+      } catch (error) {
+        console.error('Full-text search failed:', error);
+        if (!cancelled) setSearchResults(null);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query.text, query.searchFields, structured]);
 
   // Close all dropdowns when clicking outside
   useEffect(() => {
@@ -108,14 +150,13 @@ export default function Library() {
     return () => document.removeEventListener('click', handleClickOutside);
   }, []);
 
-  // Get unique values for filters
-  const uniqueAuthors = Array.from(new Set(articles.flatMap(a => a.authors?.map(au => au.name) || []))).sort();
-  const uniqueKeywords = Array.from(new Set(articles.flatMap(a => a.keywords?.map(k => k.name) || []))).sort();
-  const uniqueTags = Array.from(new Set(articles.flatMap(a => a.tags?.map(t => t.name) || []))).sort();
-  const uniqueSubjects = Array.from(new Set(articles.flatMap(a => a.subjects?.map(s => s.name) || []))).sort();
-  const uniqueUniversities = Array.from(new Set(articles.flatMap(a => a.universities?.map(u => u.name) || []))).sort();
-  const uniqueCompanies = Array.from(new Set(articles.flatMap(a => a.companies?.map(c => c.name) || []))).sort();
-  const uniqueJournals = Array.from(new Set(articles.map(a => a.journal).filter(Boolean))).sort();
+  // Bounds of the range sliders, over the whole library
+  const ranges = facets?.ranges;
+  const yearLow = ranges?.yearMin || 1900;
+  const yearHigh = ranges?.yearMax || new Date().getFullYear();
+  const dateAddedLow = ranges?.dateAddedMin ? new Date(ranges.dateAddedMin).getTime() : new Date().getTime();
+  const dateAddedHigh = ranges?.dateAddedMax ? new Date(ranges.dateAddedMax).getTime() : new Date().getTime();
+  const pagesHigh = ranges?.pagesMax || 1000;
 
   // Available search fields for local search selector
   const availableSearchFields = [
@@ -139,258 +180,137 @@ export default function Library() {
     { value: 'comment', label: t('field.comment') },
     { value: 'universities', label: t('field.universities') },
     { value: 'companies', label: t('field.companies') },
+    { value: 'pdfText', label: t('library.pdfText') },
   ];
 
-  // Helper function to search all fields of an article (for global search)
-  const searchAllFields = (article: any, query: string): boolean => {
-    if (!query) return true;
-    const lowerQuery = query.toLowerCase();
-
-    // Search in string fields
-    const stringFields = [
-      article.id,
-      article.title,
-      article.abstract,
-      article.conclusion,
-      article.journal,
-      article.doi,
-      article.language,
-      article.researchQuestion,
-      article.methodology,
-      article.dataUsed,
-      article.results,
-      article.limitations,
-      article.firstImp,
-      article.notes,
-      article.comment,
-      article.fileName,
-    ];
-
-    for (const field of stringFields) {
-      if (field && String(field).toLowerCase().includes(lowerQuery)) return true;
-    }
+  // Collection filter (Sidebar) - null if none or if it no longer exists
+  const activeCollection = collections.find((collection) => collection.id === query.collectionId) || null;
 
-    // Search in number fields (year, rating, numPages)
-    if (article.year && String(article.year).includes(query)) return true;
-    if (article.rating && String(article.rating).includes(query)) return true;
-    if (article.numPages && String(article.numPages).includes(query)) return true;
+  // Saved view matching the current query, and the last one shown (to save changes into it)
+  const serializedQuery = serializeQuery(query);
+  const activeView = views.find((view) => view.query === serializedQuery) || null;
+  const lastView = views.find((view) => view.id === lastViewId) || null;
 
-    // Search in array fields
-    if (article.authors?.some((a: any) => a.name?.toLowerCase().includes(lowerQuery))) return true;
-    if (article.keywords?.some((k: any) => k.name?.toLowerCase().includes(lowerQuery))) return true;
-    if (article.tags?.some((t: any) => t.name?.toLowerCase().includes(lowerQuery))) return true;
-    if (article.subjects?.some((s: any) => s.name?.toLowerCase().includes(lowerQuery))) return true;
-    if (article.universities?.some((u: any) => u.name?.toLowerCase().includes(lowerQuery))) return true;
-    if (article.companies?.some((c: any) => c.name?.toLowerCase().includes(lowerQuery))) return true;
-
-    return false;
-  };
-
-  // Helper function to search specific fields (for local search with field selector)
-  const searchSpecificFields = (article: any, query: string, fields: string[]): boolean => {
-    if (!query) return true;
-    if (fields.includes('all')) return searchAllFields(article, query);
-
-    const lowerQuery = query.toLowerCase();
-
-    for (const field of fields) {
-      switch (field) {
-        case 'title':
-          if (article.title?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'abstract':
-          if (article.abstract?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'conclusion':
-          if (article.conclusion?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'authors':
-          if (article.authors?.some((a: any) => a.name?.toLowerCase().includes(lowerQuery))) return true;
-          break;
-        case 'keywords':
-          if (article.keywords?.some((k: any) => k.name?.toLowerCase().includes(lowerQuery))) return true;
-          break;
-        case 'tags':
-          if (article.tags?.some((t: any) => t.name?.toLowerCase().includes(lowerQuery))) return true;
-          break;
-        case 'subjects':
-          if (article.subjects?.some((s: any) => s.name?.toLowerCase().includes(lowerQuery))) return true;
-          break;
-        case 'journal':
-          if (article.journal?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'doi':
-          if (article.doi?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'researchQuestion':
-          if (article.researchQuestion?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'methodology':
-          if (article.methodology?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'dataUsed':
-          if (article.dataUsed?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'results':
-          if (article.results?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'limitations':
-          if (article.limitations?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'firstImp':
-          if (article.firstImp?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'notes':
-          if (article.notes?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'comment':
-          if (article.comment?.toLowerCase().includes(lowerQuery)) return true;
-          break;
-        case 'universities':
-          if (article.universities?.some((u: any) => u.name?.toLowerCase().includes(lowerQuery))) return true;
-          break;
-        case 'companies':
-          if (article.companies?.some((c: any) => c.name?.toLowerCase().includes(lowerQuery))) return true;
-          break;
-      }
-    }
-    return false;
-  };
-
-  // Filter and sort articles
-  const filteredArticles = articles
-    .filter((article) => {
-      // Search filter logic:
-      // - Global search (TopBar) is transferred to local search field
-      // - Local search (Library page) uses selected fields from "Search In"
-      const matchesSearch = searchText ? searchSpecificFields(article, searchText, searchFields) : true;
-
-      // Quick filter - only 'recent' remains (favorites/read are now handled by libraryFilterRead/Favorite)
-      // 'recent' is handled in sorting, so it always passes filtering
-      const matchesQuickFilter = true;
-
-      // Read filter (local dropdown)
-      const matchesRead =
-        libraryFilterRead === 'all' ||
-        (libraryFilterRead === 'read' && article.read === true) ||
-        (libraryFilterRead === 'unread' && article.read === false);
-
-      // Favorite filter (local dropdown)
-      const matchesFavorite =
-        libraryFilterFavorite === 'all' ||
-        (libraryFilterFavorite === 'favorites' && article.favorite === true) ||
-        (libraryFilterFavorite === 'non-favorites' && article.favorite === false);
-
-      // Range filters
-      const matchesYearRange =
-        (filterYearMin === '' || article.year >= filterYearMin) &&
-        (filterYearMax === '' || article.year <= filterYearMax);
-
-      const matchesDateAddedRange =
-        (filterDateAddedMin === '' || !article.dateAdded || new Date(article.dateAdded).getTime() >= filterDateAddedMin) &&
-        (filterDateAddedMax === '' || !article.dateAdded || new Date(article.dateAdded).getTime() <= filterDateAddedMax);
-
-      const matchesRatingRange =
-        (filterRatingMin === '' || (article.rating || 0) >= filterRatingMin) &&
-        (filterRatingMax === '' || (article.rating || 0) <= filterRatingMax);
-
-      const matchesPagesRange =
-        (filterPagesMin === '' || !article.numPages || article.numPages >= filterPagesMin) &&
-        (filterPagesMax === '' || !article.numPages || article.numPages <= filterPagesMax);
-
-      // Multi-select filters
-      const matchesAuthors = filterAuthors.length === 0 ||
-        article.authors?.some(a => filterAuthors.includes(a.name));
-
-      const matchesKeywords = filterKeywords.length === 0 ||
-        article.keywords?.some(k => filterKeywords.includes(k.name));
-
-      const matchesTags = filterTags.length === 0 ||
-        article.tags?.some(t => filterTags.includes(t.name));
-
-      const matchesSubjects = filterSubjects.length === 0 ||
-        article.subjects?.some(s => filterSubjects.includes(s.name));
-
-      const matchesUniversities = filterUniversities.length === 0 ||
-        article.universities?.some(u => filterUniversities.includes(u.name));
-
-      const matchesCompanies = filterCompanies.length === 0 ||
-        article.companies?.some(c => filterCompanies.includes(c.name));
-
-      const matchesJournals = filterJournals.length === 0 ||
-        filterJournals.includes(article.journal || '');
-
-      const result = matchesSearch && matchesQuickFilter && matchesRead && matchesFavorite &&
-             matchesYearRange && matchesDateAddedRange && matchesRatingRange && matchesPagesRange &&
-             matchesAuthors && matchesKeywords && matchesTags && matchesSubjects &&
-             matchesUniversities && matchesCompanies && matchesJournals;
-
-      return result;
-    })
-    .sort((a, b) => {
-      // If "Recent" quick filter is active, sort by updatedAt descending (last modified first)
-      if (activeQuickFilter === 'recent') {
-        const dateA = a.updatedAt ? new Date(a.updatedAt).getTime() : (a.createdAt ? new Date(a.createdAt).getTime() : 0);
-        const dateB = b.updatedAt ? new Date(b.updatedAt).getTime() : (b.createdAt ? new Date(b.createdAt).getTime() : 0);
-        return dateB - dateA; // Most recently updated first
-      }
+  useEffect(() => {
+    if (activeView) setLastViewId(activeView.id);
+  }, [activeView?.id]);
 
-      // Manual sorting if column is selected
-      if (sortColumn) {
-        let compareResult = 0;
-
-        switch (sortColumn) {
-          case 'id':
-            compareResult = a.id.localeCompare(b.id, undefined, { numeric: true });
-            break;
-          case 'title':
-            compareResult = a.title.localeCompare(b.title);
-            break;
-          case 'year':
-            compareResult = a.year - b.year;
-            break;
-          case 'createdAt':
-            if (a.createdAt && b.createdAt) {
-              compareResult = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-            }
-            break;
-          case 'updatedAt':
-            if (a.updatedAt && b.updatedAt) {
-              compareResult = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
-            }
-            break;
-        }
+  // Rows of the table actually rendered, the next page is loaded when they reach the end of the loaded ones
+  const { containerRef, bodyRef, start, end, rowHeight, paddingTop, paddingBottom, scrollToTop } = useVirtualRows(total);
 
-        return sortDirection === 'asc' ? compareResult : -compareResult;
-      }
+  useEffect(() => {
+    if (hasMore && end > articles.length) loadMore(end);
+  }, [hasMore, end, articles.length, loadMore]);
 
-      // Default sorting: by createdAt date (most recent first), or by ID if dates are equal
-      if (a.createdAt && b.createdAt) {
-        const dateCompare = new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        if (dateCompare !== 0) return dateCompare;
-      }
-      // Fallback: sort by ID (ascending: 1, 2, 3...)
-      return a.id.localeCompare(b.id, undefined, { numeric: true });
-    });
+  useEffect(() => {
+    scrollToTop();
+  }, [serializedQuery]);
+
+  // Render search text with matched terms highlighted
+  const renderSegments = (segments: SearchTextSegment[]) =>
+    segments.map((segment, i) =>
+      segment.highlight ? (
+        <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">{segment.text}</mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    );
+
+  // Passage that matched the search, under the title (PDF hits show their page)
+  const renderSearchMatch = (articleId: string) => {
+    const result = searchResults?.get(articleId);
+    if (!result) return null;
+
+    // The best passage may itself come from the PDF: don't show it twice
+    const plain = (segments: SearchTextSegment[]) => segments.map((segment) => segment.text).join('');
+    const showSnippet = result.snippet.some((segment) => segment.highlight) &&
+      (!result.pdfMatch || plain(result.snippet) !== plain(result.pdfMatch.snippet));
+
+    return (
+      <div className="mt-1 text-xs font-normal text-gray-500 dark:text-gray-400 space-y-0.5">
+        {showSnippet && <div>{renderSegments(result.snippet)}</div>}
+        {result.pdfMatch && (
+          <div>
+            <span className="font-medium">
+              📄 {result.pdfMatch.page ? t('library.pdfPage', { page: result.pdfMatch.page }) : t('library.pdfText')}
+            </span>{' '}
+            {renderSegments(result.pdfMatch.snippet)}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   const handleMultiSelectChange = (
-    currentValues: string[],
-    setValue: React.Dispatch<React.SetStateAction<string[]>>,
+    filter: 'authors' | 'keywords' | 'tags' | 'subjects' | 'universities' | 'companies' | 'journals',
     option: string,
     detailsRef?: React.RefObject<HTMLDetailsElement>
   ) => {
+    const currentValues = query[filter];
     if (currentValues.includes(option)) {
       const newValues = currentValues.filter(v => v !== option);
-      setValue(newValues);
+      setLibraryQuery({ [filter]: newValues });
       // Auto-close dropdown if no items selected
       if (newValues.length === 0 && detailsRef?.current) {
         detailsRef.current.open = false;
       }
     } else {
-      setValue([...currentValues, option]);
+      setLibraryQuery({ [filter]: [...currentValues, option] });
     }
   };
 
+  // Options of a list filter with the number of articles each one gives under the other filters,
+  // and the choice between any and all of the selected values
+  const renderFacetOptions = (key: LibraryFacetKey, detailsRef: React.RefObject<HTMLDetailsElement>) => {
+    const matchAll = query.matchAll.includes(key);
+    const options = (facets?.lists[key] || []).filter(
+      (facet) => facet.count > 0 || !hideEmptyFacets || query[key].includes(facet.value)
+    );
+
+    return (
+      <>
+        {key !== 'journals' && (
+          <div className="sticky top-0 flex gap-1 p-1 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+            {([false, true] as const).map((all) => (
+              <button
+                key={String(all)}
+                onClick={() => setLibraryQuery({
+                  matchAll: all ? [...query.matchAll, key] : query.matchAll.filter((facet) => facet !== key),
+                })}
+                title={all ? t('library.matchAllHint') : t('library.matchAnyHint')}
+                className={`flex-1 px-2 py-1 text-xs rounded ${
+                  matchAll === all
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                {all ? t('library.matchAll') : t('library.matchAny')}
+              </button>
+            ))}
+          </div>
+        )}
+        {options.map((facet) => (
+          <label
+            key={facet.value}
+            className={`flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer dark:text-white ${
+              facet.count === 0 ? 'opacity-50' : ''
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={query[key].includes(facet.value)}
+              onChange={() => handleMultiSelectChange(key, facet.value, detailsRef)}
+              className="rounded accent-blue-600"
+              style={{ colorScheme: 'dark' }}
+            />
+            <span className="text-sm flex-1">{facet.value}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{facet.count}</span>
+          </label>
+        ))}
+      </>
+    );
+  };
+
   const handleDeleteClick = (id: string) => {
     setDeleteArticleId(id);
     setDeleteConfirmInput('');
@@ -408,7 +328,8 @@ export default function Library() {
 
     try {
       await articlesApi.delete(deleteArticleId);
-      setArticles(articles.filter((a) => a.id !== deleteArticleId));
+      reload();
+      reloadLibraryCounts();
       setSelectedArticle(null);
       setShowDeleteConfirm(false);
       setDeleteConfirmInput('');
@@ -421,38 +342,308 @@ export default function Library() {
   };
 
 
-  const handleSort = (column: 'id' | 'title' | 'year' | 'createdAt' | 'updatedAt') => {
-    // Special handling for 'updatedAt' column - toggle Recent quick filter
-    if (column === 'updatedAt') {
-      if (activeQuickFilter === 'recent') {
-        // If Recent is active, clicking updatedAt deactivates it
-        setActiveQuickFilter('none');
+  // Same column again flips the direction; 'updatedAt' starts with the last modified (the "Recent" quick filter)
+  const handleSort = (column: LibrarySortColumn) => {
+    if (query.sortColumn === column) {
+      setLibraryQuery({ sortDirection: query.sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      setLibraryQuery({ sortColumn: column, sortDirection: column === 'updatedAt' ? 'desc' : 'asc' });
+    }
+  };
+  const isRecentSort = query.sortColumn === 'updatedAt' && query.sortDirection === 'desc';
+
+  // Save the current filters, search and sort as a named view (listed in the Sidebar)
+  const handleSaveView = async () => {
+    if (!viewName.trim()) return;
+    try {
+      const view = await savedViewsApi.create(viewName, serializedQuery);
+      setViews([...views, view]);
+      setLastViewId(view.id);
+      setShowSaveView(false);
+      setViewName('');
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+      setShowSaveView(false);
+    }
+  };
+
+  // Store the current query in the last view shown
+  const handleUpdateView = async () => {
+    if (!lastView) return;
+    try {
+      const view = await savedViewsApi.update(lastView.id, { query: serializedQuery });
+      setViews(views.map((v) => (v.id === view.id ? view : v)));
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    }
+  };
+
+  const handleDeleteView = async () => {
+    if (!activeView) return;
+    try {
+      await savedViewsApi.delete(activeView.id);
+      setViews(views.filter((v) => v.id !== activeView.id));
+      setLastViewId(null);
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    }
+  };
+
+  // Checked rows among the articles shown - header actions use them, or everything shown when none are checked
+  // Only a page of the articles is loaded: actions fetch the ones they need
+  const selectedIdList = articleIds.filter((id) => selectedIds.has(id));
+  const targetIds = selectedIdList.length > 0 ? selectedIdList : articleIds;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
       } else {
-        // If Recent is not active, clicking updatedAt activates it
-        setActiveQuickFilter('recent');
+        next.add(id);
       }
-      return; // Let the useEffect handle the sort state
+      return next;
+    });
+  };
+
+  const allShownSelected = articleIds.length > 0 && selectedIdList.length === articleIds.length;
+  const toggleAllShown = () => {
+    setSelectedIds(allShownSelected ? new Set() : new Set(articleIds));
+  };
+
+  // Refresh the list and the stats after articles changed
+  const reloadArticles = () => {
+    reload();
+    reloadLibraryCounts();
+  };
+
+  // Regenerate the Word notes of some articles, reporting the ones that failed
+  const regenerateNotes = async (notes: Article[]) => {
+    const result = await articlesApi.generateNotes(notes);
+    if (result.errors.length > 0) {
+      setErrorMessage('⚠️ ' + t('library.bulkNotesFailed', { count: result.errors.length }) + ': ' + result.errors.join('; '));
+      setTimeout(() => setErrorMessage(null), 5000);
     }
+  };
 
-    // Normal sorting for other columns
-    if (sortColumn === column) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortColumn(column);
-      setSortDirection('asc');
+  // Apply a change to every checked article, then refresh their notes (they show tags, rating, status...)
+  const applyBulkUpdate = async (changes: BulkArticleUpdate) => {
+    setBulkWorking(true);
+    try {
+      const updated = await articlesApi.bulkUpdate(selectedIdList, changes);
+      reloadArticles();
+      await regenerateNotes(updated);
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + t('library.bulkFailed') + ': ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const handleBulkRelations = async () => {
+    const names = bulkRelationInput.split(',').map((name) => name.trim()).filter(Boolean);
+    if (names.length === 0) return;
+    setShowBulkRelations(false);
+    setBulkRelationInput('');
+    await applyBulkUpdate({ [bulkRelationMode]: { [bulkRelation]: names } });
+  };
+
+  const handleBulkRegenerateNotes = async () => {
+    setBulkWorking(true);
+    try {
+      await regenerateNotes(await articlesApi.getByIds(selectedIdList));
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const handleBulkAddToCollection = async (collectionId: number) => {
+    setBulkWorking(true);
+    try {
+      updateCollection(await collectionsApi.addArticles(collectionId, selectedIdList));
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + t('library.bulkFailed') + ': ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = selectedIdList;
+    setShowBulkDelete(false);
+    setBulkWorking(true);
+    try {
+      await articlesApi.deleteMany(ids);
+    } catch (error: any) {
+      setErrorMessage('⚠️ Failed to delete articles: ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    } finally {
+      // Some articles may have been deleted before a failure
+      reloadArticles();
+      setSelectedIds(new Set());
+      setBulkWorking(false);
+    }
+  };
+
+  // Names already used for a relation, suggested in the bulk edit input
+  const bulkRelationSuggestions = (facets?.lists[bulkRelation] || []).map((facet) => facet.value);
+
+  // Export the articles checked, or shown (filters applied)
+  const handleExportFiltered = async (format: InterchangeFormat) => {
+    try {
+      await downloadArticles(format, await articlesApi.getByIds(targetIds), `library_selection_${new Date().toISOString().split('T')[0]}`);
+    } catch (error: any) {
+      setErrorMessage('⚠️ Export failed: ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    }
+  };
+
+  // Write the bibliography of the articles shown (filters applied)
+  const handleGenerateBibliography = async () => {
+    setGeneratingBibliography(true);
+    try {
+      await downloadBibliography(
+        await articlesApi.getByIds(targetIds),
+        citationStyle,
+        bibliographyFormat,
+        `bibliography_${citationStyle}_${new Date().toISOString().split('T')[0]}`
+      );
+      setShowBibliography(false);
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + t('library.bibliographyFailed') + ': ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    } finally {
+      setGeneratingBibliography(false);
     }
-    // Deactivate "Recent" quick filter when sorting by a column other than 'updatedAt'
-    if (activeQuickFilter === 'recent') {
-      setActiveQuickFilter('none');
+  };
+
+  // Look up every shown article that has a DOI, one at a time to stay polite with the registries
+  const handleRefreshMetadata = async () => {
+    const targets = (await articlesApi.getByIds(targetIds)).filter((article) => article.doi);
+    const results: MetadataRefreshResult[] = [];
+
+    setShowMetadataRefresh(true);
+    setRefreshResults([]);
+    setAcceptedChanges(new Set());
+    setRefreshProgress({ done: 0, total: targets.length });
+
+    for (const article of targets) {
+      try {
+        const resolved = await metadataApi.resolve(article.doi as string);
+        results.push({ article, changes: diffArticle(article, resolved.article) });
+      } catch (error: any) {
+        results.push({ article, changes: [], error: error.message });
+      }
+      setRefreshProgress({ done: results.length, total: targets.length });
+      setRefreshResults([...results]);
     }
+
+    // Everything is proposed ticked, the user unticks what they want to keep
+    setAcceptedChanges(new Set(results.flatMap((result) =>
+      result.changes.map((change) => `${result.article.id}:${change.field}`)
+    )));
+    setRefreshProgress(null);
   };
 
+  const toggleChange = (key: string) => {
+    setAcceptedChanges((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleApplyMetadataChanges = async () => {
+    setApplyingChanges(true);
+    try {
+      for (const result of refreshResults) {
+        const accepted = result.changes.filter((change) => acceptedChanges.has(`${result.article.id}:${change.field}`));
+        if (accepted.length > 0) {
+          await articlesApi.update(result.article.id, changesToFormData(accepted));
+        }
+      }
+      reloadArticles();
+      setShowMetadataRefresh(false);
+    } catch (error: any) {
+      setErrorMessage('⚠️ ' + t('library.refreshMetadataFailed') + ': ' + error.message);
+      setTimeout(() => setErrorMessage(null), 5000);
+    } finally {
+      setApplyingChanges(false);
+    }
+  };
+
+  const changedResults = refreshResults.filter((result) => result.changes.length > 0 || result.error);
+
   const selectedArticleData = articles.find((a) => a.id === selectedArticle);
 
   return (
     <div className="p-8">
-      <h1 className="text-3xl font-bold mb-6">📚 {t('library.title')}</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">📚 {t('library.title')}</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={handleRefreshMetadata}
+            disabled={targetIds.length === 0}
+            title={t('library.refreshMetadataHint')}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            🔄 {t('library.refreshMetadata', { count: targetIds.length })}
+          </button>
+          <button
+            onClick={() => setShowBibliography(true)}
+            disabled={targetIds.length === 0}
+            title={t('library.exportSelectionHint')}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            📑 {t('library.bibliography', { count: targetIds.length })}
+          </button>
+          {(Object.keys(INTERCHANGE_FORMATS) as InterchangeFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExportFiltered(format)}
+              disabled={targetIds.length === 0}
+              title={t('library.exportSelectionHint')}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              📤 {t('library.exportSelection', { format: INTERCHANGE_FORMATS[format].label, count: targetIds.length })}
+            </button>
+          ))}
+        </div>
+      </div>
 
+      {/* Collection filter (from the Sidebar) */}
+      {activeCollection && (
+        <div className="mb-6 p-3 bg-purple-50 dark:bg-purple-900 border border-purple-200 dark:border-purple-700 rounded-lg flex items-center gap-3 text-sm">
+          <span className="text-xl">📂</span>
+          <div className="flex-1 min-w-0">
+            <div className="font-medium">{t('library.collectionFilter', { name: activeCollection.name })}</div>
+            {activeCollection.description && (
+              <div className="text-gray-600 dark:text-gray-300 truncate">{activeCollection.description}</div>
+            )}
+          </div>
+          <button
+            onClick={() => navigate('/collections')}
+            className="px-3 py-1 text-purple-700 dark:text-purple-200 hover:underline"
+          >
+            {t('library.manageCollection')}
+          </button>
+          <button
+            onClick={() => setLibraryQuery({ collectionId: null })}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            ✕ {t('library.showAllArticles')}
+          </button>
+        </div>
+      )}
       {/* Error Message */}
       {errorMessage && (
         <div className="mb-6 p-4 bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-600 rounded-lg flex items-center gap-3">
@@ -473,7 +664,7 @@ export default function Library() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">{t('library.totalArticles')}</p>
-              <p className="text-2xl font-bold mt-1">{articles.length}</p>
+              <p className="text-2xl font-bold mt-1">{libraryFacets ? libraryFacets.read + libraryFacets.unread : 0}</p>
             </div>
             <div className="text-4xl bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded-full w-16 h-16 flex items-center justify-center">
               📚
@@ -484,7 +675,7 @@ export default function Library() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">{t('library.read')}</p>
-              <p className="text-2xl font-bold mt-1">{articles.filter((a) => a.read).length}</p>
+              <p className="text-2xl font-bold mt-1">{libraryFacets?.read || 0}</p>
             </div>
             <div className="text-4xl bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded-full w-16 h-16 flex items-center justify-center">
               👁️
@@ -495,7 +686,7 @@ export default function Library() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">{t('library.favorites')}</p>
-              <p className="text-2xl font-bold mt-1">{articles.filter((a) => a.favorite).length}</p>
+              <p className="text-2xl font-bold mt-1">{libraryFacets?.favorites || 0}</p>
             </div>
             <div className="text-4xl bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 rounded-full w-16 h-16 flex items-center justify-center">
               ⭐
@@ -506,7 +697,7 @@ export default function Library() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">{t('library.filtered')}</p>
-              <p className="text-2xl font-bold mt-1">{filteredArticles.length}</p>
+              <p className="text-2xl font-bold mt-1">{total}</p>
             </div>
             <div className="text-4xl bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200 rounded-full w-16 h-16 flex items-center justify-center">
               🔍
@@ -522,10 +713,9 @@ export default function Library() {
           {/* Column 1: Search */}
           <div>
             <label className="block text-sm font-medium mb-2">🔍 {t('library.search')}</label>
-            <input
-              type="text"
-              value={searchText}
-              onChange={(e) => setSearchText(e.target.value)}
+            <QueryInput
+              value={query.text}
+              onChange={(text) => setLibraryQuery({ text })}
               placeholder={t('library.searchPlaceholder')}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
             />
@@ -537,9 +727,9 @@ export default function Library() {
             <details ref={searchFieldsRef} className="relative">
               <summary className="px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg cursor-pointer flex justify-between items-center list-none">
                 <span>
-                  {searchFields.includes('all')
+                  {query.searchFields.includes('all')
                     ? t('library.allFields')
-                    : t('library.fieldsSelected', { count: searchFields.length })}
+                    : t('library.fieldsSelected', { count: query.searchFields.length })}
                 </span>
                 <span className="text-gray-400">▼</span>
               </summary>
@@ -548,9 +738,9 @@ export default function Library() {
                 <label className="flex items-center px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer border-b border-gray-200 dark:border-gray-600">
                   <input
                     type="checkbox"
-                    checked={searchFields.includes('all')}
+                    checked={query.searchFields.includes('all')}
                     onChange={() => {
-                      setSearchFields(['all']);
+                      setLibraryQuery({ searchFields: ['all'] });
                       // Close dropdown when selecting "All Fields"
                       if (searchFieldsRef.current) {
                         searchFieldsRef.current.open = false;
@@ -568,26 +758,26 @@ export default function Library() {
                   >
                     <input
                       type="checkbox"
-                      checked={searchFields.includes(field.value)}
+                      checked={query.searchFields.includes(field.value)}
                       onChange={() => {
-                        if (searchFields.includes('all')) {
+                        if (query.searchFields.includes('all')) {
                           // Switching from "all" to specific field
-                          setSearchFields([field.value]);
-                        } else if (searchFields.includes(field.value)) {
+                          setLibraryQuery({ searchFields: [field.value] });
+                        } else if (query.searchFields.includes(field.value)) {
                           // Removing a field
-                          const newFields = searchFields.filter(f => f !== field.value);
+                          const newFields = query.searchFields.filter(f => f !== field.value);
                           if (newFields.length === 0) {
-                            setSearchFields(['all']);
+                            setLibraryQuery({ searchFields: ['all'] });
                             // Close dropdown when reverting to "All Fields"
                             if (searchFieldsRef.current) {
                               searchFieldsRef.current.open = false;
                             }
                           } else {
-                            setSearchFields(newFields);
+                            setLibraryQuery({ searchFields: newFields });
                           }
                         } else {
                           // Adding a field
-                          setSearchFields([...searchFields, field.value]);
+                          setLibraryQuery({ searchFields: [...query.searchFields, field.value] });
                         }
                       }}
                       className="mr-2 rounded"
@@ -604,8 +794,8 @@ export default function Library() {
             <div>
               <label className="block text-sm font-medium mb-2">📖 {t('library.readStatus')}</label>
               <select
-                value={libraryFilterRead}
-                onChange={(e) => setLibraryFilterRead(e.target.value as any)}
+                value={query.read}
+                onChange={(e) => setLibraryQuery({ read: e.target.value as any })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
               >
                 <option value="all">{t('library.all')}</option>
@@ -616,8 +806,8 @@ export default function Library() {
             <div>
               <label className="block text-sm font-medium mb-2">⭐ {t('library.favorite')}</label>
               <select
-                value={libraryFilterFavorite}
-                onChange={(e) => setLibraryFilterFavorite(e.target.value as any)}
+                value={query.favorite}
+                onChange={(e) => setLibraryQuery({ favorite: e.target.value as any })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
               >
                 <option value="all">{t('library.all')}</option>
@@ -628,6 +818,40 @@ export default function Library() {
           </div>
         </div>
 
+        {/* Saved View */}
+        <div className="mt-4 flex items-center gap-2 text-sm">
+          {activeView ? (
+            <>
+              <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-100 rounded-full">
+                🔖 {activeView.name}
+              </span>
+              <button
+                onClick={handleDeleteView}
+                className="px-3 py-1 text-red-600 dark:text-red-400 hover:underline"
+              >
+                {t('library.deleteView')}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => setShowSaveView(true)}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                💾 {t('library.saveView')}
+              </button>
+              {lastView && (
+                <button
+                  onClick={handleUpdateView}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  🔖 {t('library.updateView', { name: lastView.name })}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
         {/* Advanced Filters Toggle */}
         <button
           onClick={() => setShowAdvancedFilters(!showAdvancedFilters)}
@@ -649,49 +873,49 @@ export default function Library() {
               </label>
               <div className="px-2">
                 <div className="flex justify-between mb-0.5">
-                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{filterYearMin || Math.min(...articles.map(a => a.year)) || 1900}</span>
-                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{filterYearMax || Math.max(...articles.map(a => a.year)) || new Date().getFullYear()}</span>
+                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{query.yearMin || yearLow}</span>
+                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{query.yearMax || yearHigh}</span>
                 </div>
                 <div className="flex-1 relative py-1">
                   <div className="relative h-1 bg-gray-200 dark:bg-gray-700 rounded-full">
                     <div
                       className="absolute h-1 bg-red-500 rounded-full"
                       style={{
-                        left: `${((filterYearMin || Math.min(...articles.map(a => a.year)) || 1900) - (Math.min(...articles.map(a => a.year)) || 1900)) / ((Math.max(...articles.map(a => a.year)) || new Date().getFullYear()) - (Math.min(...articles.map(a => a.year)) || 1900)) * 100}%`,
-                        right: `${100 - ((filterYearMax || Math.max(...articles.map(a => a.year)) || new Date().getFullYear()) - (Math.min(...articles.map(a => a.year)) || 1900)) / ((Math.max(...articles.map(a => a.year)) || new Date().getFullYear()) - (Math.min(...articles.map(a => a.year)) || 1900)) * 100}%`
+                        left: `${((query.yearMin || yearLow) - yearLow) / (yearHigh - yearLow) * 100}%`,
+                        right: `${100 - ((query.yearMax || yearHigh) - yearLow) / (yearHigh - yearLow) * 100}%`
                       }}
                     ></div>
                   </div>
                   <input
                     type="range"
-                    min={Math.min(...articles.map(a => a.year)) || 1900}
-                    max={Math.max(...articles.map(a => a.year)) || new Date().getFullYear()}
-                    value={filterYearMin || Math.min(...articles.map(a => a.year)) || 1900}
+                    min={yearLow}
+                    max={yearHigh}
+                    value={query.yearMin || yearLow}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      if (val <= (filterYearMax || Math.max(...articles.map(a => a.year)) || new Date().getFullYear())) {
-                        setFilterYearMin(val);
+                      if (val <= (query.yearMax || yearHigh)) {
+                        setLibraryQuery({ yearMin: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
                   />
                   <input
                     type="range"
-                    min={Math.min(...articles.map(a => a.year)) || 1900}
-                    max={Math.max(...articles.map(a => a.year)) || new Date().getFullYear()}
-                    value={filterYearMax || Math.max(...articles.map(a => a.year)) || new Date().getFullYear()}
+                    min={yearLow}
+                    max={yearHigh}
+                    value={query.yearMax || yearHigh}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      if (val >= (filterYearMin || Math.min(...articles.map(a => a.year)) || 1900)) {
-                        setFilterYearMax(val);
+                      if (val >= (query.yearMin || yearLow)) {
+                        setLibraryQuery({ yearMax: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
                   />
                 </div>
                 <div className="flex justify-between mt-0.5">
-                  <span className="text-xs text-gray-500 dark:text-gray-400">{Math.min(...articles.map(a => a.year)) || 1900}</span>
-                  <span className="text-xs text-gray-500 dark:text-gray-400">{Math.max(...articles.map(a => a.year)) || new Date().getFullYear()}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{yearLow}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{yearHigh}</span>
                 </div>
               </div>
             </div>
@@ -704,10 +928,10 @@ export default function Library() {
               <div className="px-2">
                 <div className="flex justify-between mb-0.5">
                   <span className="text-xs font-medium text-red-600 dark:text-red-400">
-                    {new Date(filterDateAddedMin || (articles.length > 0 ? Math.min(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : Infinity).filter(t => t !== Infinity)) : new Date().getTime())).toLocaleDateString('fr-FR')}
+                    {new Date(query.dateAddedMin || dateAddedLow).toLocaleDateString('fr-FR')}
                   </span>
                   <span className="text-xs font-medium text-red-600 dark:text-red-400">
-                    {new Date(filterDateAddedMax || (articles.length > 0 ? Math.max(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0)) : new Date().getTime())).toLocaleDateString('fr-FR')}
+                    {new Date(query.dateAddedMax || dateAddedHigh).toLocaleDateString('fr-FR')}
                   </span>
                 </div>
                 <div className="flex-1 relative py-1">
@@ -718,19 +942,17 @@ export default function Library() {
                       className="absolute h-1 bg-red-500 rounded-full"
                       style={{
                         left: `${(() => {
-                          const allDates = articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0).filter(t => t > 0);
-                          if (allDates.length === 0) return 0;
-                          const minTimestamp = Math.min(...allDates);
-                          const maxTimestamp = Math.max(...allDates);
-                          const currentMin = filterDateAddedMin || minTimestamp;
+                          if (!ranges?.dateAddedMin) return 0;
+                          const minTimestamp = dateAddedLow;
+                          const maxTimestamp = dateAddedHigh;
+                          const currentMin = query.dateAddedMin || minTimestamp;
                           return ((currentMin - minTimestamp) / (maxTimestamp - minTimestamp)) * 100;
                         })()}%`,
                         right: `${(() => {
-                          const allDates = articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0).filter(t => t > 0);
-                          if (allDates.length === 0) return 0;
-                          const minTimestamp = Math.min(...allDates);
-                          const maxTimestamp = Math.max(...allDates);
-                          const currentMax = filterDateAddedMax || maxTimestamp;
+                          if (!ranges?.dateAddedMin) return 0;
+                          const minTimestamp = dateAddedLow;
+                          const maxTimestamp = dateAddedHigh;
+                          const currentMax = query.dateAddedMax || maxTimestamp;
                           return 100 - ((currentMax - minTimestamp) / (maxTimestamp - minTimestamp)) * 100;
                         })()}%`
                       }}
@@ -739,14 +961,14 @@ export default function Library() {
                   {/* Min handle */}
                   <input
                     type="range"
-                    min={articles.length > 0 ? Math.min(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : Infinity).filter(t => t !== Infinity)) : new Date().getTime()}
-                    max={articles.length > 0 ? Math.max(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0)) : new Date().getTime()}
-                    value={filterDateAddedMin || (articles.length > 0 ? Math.min(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : Infinity).filter(t => t !== Infinity)) : new Date().getTime())}
+                    min={dateAddedLow}
+                    max={dateAddedHigh}
+                    value={query.dateAddedMin || dateAddedLow}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      const maxVal = filterDateAddedMax || (articles.length > 0 ? Math.max(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0)) : new Date().getTime());
+                      const maxVal = query.dateAddedMax || dateAddedHigh;
                       if (val <= maxVal) {
-                        setFilterDateAddedMin(val);
+                        setLibraryQuery({ dateAddedMin: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
@@ -754,14 +976,14 @@ export default function Library() {
                   {/* Max handle */}
                   <input
                     type="range"
-                    min={articles.length > 0 ? Math.min(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : Infinity).filter(t => t !== Infinity)) : new Date().getTime()}
-                    max={articles.length > 0 ? Math.max(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0)) : new Date().getTime()}
-                    value={filterDateAddedMax || (articles.length > 0 ? Math.max(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0)) : new Date().getTime())}
+                    min={dateAddedLow}
+                    max={dateAddedHigh}
+                    value={query.dateAddedMax || dateAddedHigh}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      const minVal = filterDateAddedMin || (articles.length > 0 ? Math.min(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : Infinity).filter(t => t !== Infinity)) : new Date().getTime());
+                      const minVal = query.dateAddedMin || dateAddedLow;
                       if (val >= minVal) {
-                        setFilterDateAddedMax(val);
+                        setLibraryQuery({ dateAddedMax: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
@@ -769,10 +991,10 @@ export default function Library() {
                 </div>
                 <div className="flex justify-between mt-0.5">
                   <span className="text-xs text-gray-500 dark:text-gray-400">
-                    {new Date(articles.length > 0 ? Math.min(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : Infinity).filter(t => t !== Infinity)) : new Date().getTime()).toLocaleDateString('fr-FR')}
+                    {new Date(dateAddedLow).toLocaleDateString('fr-FR')}
                   </span>
                   <span className="text-xs text-gray-500 dark:text-gray-400">
-                    {new Date(articles.length > 0 ? Math.max(...articles.map(a => a.dateAdded ? new Date(a.dateAdded).getTime() : 0)) : new Date().getTime()).toLocaleDateString('fr-FR')}
+                    {new Date(dateAddedHigh).toLocaleDateString('fr-FR')}
                   </span>
                 </div>
               </div>
@@ -788,16 +1010,16 @@ export default function Library() {
               </label>
               <div className="px-2">
                 <div className="flex justify-between mb-0.5">
-                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{filterRatingMin || 0} ⭐</span>
-                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{filterRatingMax || 5} ⭐</span>
+                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{query.ratingMin || 0} ⭐</span>
+                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{query.ratingMax || 5} ⭐</span>
                 </div>
                 <div className="flex-1 relative py-1">
                   <div className="relative h-1 bg-gray-200 dark:bg-gray-700 rounded-full">
                     <div
                       className="absolute h-1 bg-red-500 rounded-full"
                       style={{
-                        left: `${((filterRatingMin || 0) / 5) * 100}%`,
-                        right: `${100 - ((filterRatingMax || 5) / 5) * 100}%`
+                        left: `${((query.ratingMin || 0) / 5) * 100}%`,
+                        right: `${100 - ((query.ratingMax || 5) / 5) * 100}%`
                       }}
                     ></div>
                   </div>
@@ -806,11 +1028,11 @@ export default function Library() {
                     min="0"
                     max="5"
                     step="1"
-                    value={filterRatingMin || 0}
+                    value={query.ratingMin || 0}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      if (val <= (filterRatingMax || 5)) {
-                        setFilterRatingMin(val);
+                      if (val <= (query.ratingMax || 5)) {
+                        setLibraryQuery({ ratingMin: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
@@ -820,11 +1042,11 @@ export default function Library() {
                     min="0"
                     max="5"
                     step="1"
-                    value={filterRatingMax || 5}
+                    value={query.ratingMax || 5}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      if (val >= (filterRatingMin || 0)) {
-                        setFilterRatingMax(val);
+                      if (val >= (query.ratingMin || 0)) {
+                        setLibraryQuery({ ratingMax: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
@@ -844,28 +1066,28 @@ export default function Library() {
               </label>
               <div className="px-2">
                 <div className="flex justify-between mb-0.5">
-                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{filterPagesMin || 0}</span>
-                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{filterPagesMax || Math.max(...articles.map(a => a.numPages || 0)) || 1000}</span>
+                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{query.pagesMin || 0}</span>
+                  <span className="text-xs font-medium text-red-600 dark:text-red-400">{query.pagesMax || pagesHigh}</span>
                 </div>
                 <div className="flex-1 relative py-1">
                   <div className="relative h-1 bg-gray-200 dark:bg-gray-700 rounded-full">
                     <div
                       className="absolute h-1 bg-red-500 rounded-full"
                       style={{
-                        left: `${((filterPagesMin || 0) / (Math.max(...articles.map(a => a.numPages || 0)) || 1000)) * 100}%`,
-                        right: `${100 - ((filterPagesMax || Math.max(...articles.map(a => a.numPages || 0)) || 1000) / (Math.max(...articles.map(a => a.numPages || 0)) || 1000)) * 100}%`
+                        left: `${((query.pagesMin || 0) / pagesHigh) * 100}%`,
+                        right: `${100 - ((query.pagesMax || pagesHigh) / pagesHigh) * 100}%`
                       }}
                     ></div>
                   </div>
                   <input
                     type="range"
                     min="0"
-                    max={Math.max(...articles.map(a => a.numPages || 0)) || 1000}
-                    value={filterPagesMin || 0}
+                    max={pagesHigh}
+                    value={query.pagesMin || 0}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      if (val <= (filterPagesMax || Math.max(...articles.map(a => a.numPages || 0)) || 1000)) {
-                        setFilterPagesMin(val);
+                      if (val <= (query.pagesMax || pagesHigh)) {
+                        setLibraryQuery({ pagesMin: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
@@ -873,12 +1095,12 @@ export default function Library() {
                   <input
                     type="range"
                     min="0"
-                    max={Math.max(...articles.map(a => a.numPages || 0)) || 1000}
-                    value={filterPagesMax || Math.max(...articles.map(a => a.numPages || 0)) || 1000}
+                    max={pagesHigh}
+                    value={query.pagesMax || pagesHigh}
                     onChange={(e) => {
                       const val = parseInt(e.target.value);
-                      if (val >= (filterPagesMin || 0)) {
-                        setFilterPagesMax(val);
+                      if (val >= (query.pagesMin || 0)) {
+                        setLibraryQuery({ pagesMax: val });
                       }
                     }}
                     className="absolute w-full top-0 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-500 [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-grab [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:hover:shadow-xl [&::-webkit-slider-thumb]:transition-shadow [&::-webkit-slider-thumb]:mt-[-1.5px] [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-red-500 [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:cursor-grab [&::-moz-range-thumb]:shadow-lg [&::-moz-range-thumb]:hover:shadow-xl [&::-moz-range-thumb]:transition-shadow"
@@ -886,7 +1108,7 @@ export default function Library() {
                 </div>
                 <div className="flex justify-between mt-0.5">
                   <span className="text-xs text-gray-500 dark:text-gray-400">0</span>
-                  <span className="text-xs text-gray-500 dark:text-gray-400">{Math.max(...articles.map(a => a.numPages || 0)) || 1000}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{pagesHigh}</span>
                 </div>
               </div>
             </div>
@@ -895,73 +1117,40 @@ export default function Library() {
             {/* Row 3: Author, Keyword, Tag - Multi-Select */}
             <div className="grid grid-cols-3 gap-4">
               <div>
-                <label className="block text-sm font-medium mb-2">👤 {t('field.authors')} ({filterAuthors.length})</label>
+                <label className="block text-sm font-medium mb-2">👤 {t('field.authors')} ({query.authors.length})</label>
                 <details ref={authorsRef} className="relative">
                   <summary className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors list-none flex justify-between items-center">
-                    <span className="text-sm">{filterAuthors.length > 0 ? t('library.selected', { count: filterAuthors.length }) : t('library.allAuthors')}</span>
+                    <span className="text-sm">{query.authors.length > 0 ? t('library.selected', { count: query.authors.length }) : t('library.allAuthors')}</span>
                     <span className="text-xs">▼</span>
                   </summary>
                   <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                    {uniqueAuthors.map(author => (
-                      <label key={author} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer dark:text-white">
-                        <input
-                          type="checkbox"
-                          checked={filterAuthors.includes(author)}
-                          onChange={() => handleMultiSelectChange(filterAuthors, setFilterAuthors, author, authorsRef)}
-                          className="rounded accent-blue-600"
-                          style={{ colorScheme: 'dark' }}
-                        />
-                        <span className="text-sm">{author}</span>
-                      </label>
-                    ))}
+                    {renderFacetOptions('authors', authorsRef)}
                   </div>
                 </details>
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-2">🔑 {t('field.keywords')} ({filterKeywords.length})</label>
+                <label className="block text-sm font-medium mb-2">🔑 {t('field.keywords')} ({query.keywords.length})</label>
                 <details ref={keywordsRef} className="relative">
                   <summary className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors list-none flex justify-between items-center">
-                    <span className="text-sm">{filterKeywords.length > 0 ? t('library.selected', { count: filterKeywords.length }) : t('library.allKeywords')}</span>
+                    <span className="text-sm">{query.keywords.length > 0 ? t('library.selected', { count: query.keywords.length }) : t('library.allKeywords')}</span>
                     <span className="text-xs">▼</span>
                   </summary>
                   <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                    {uniqueKeywords.map(keyword => (
-                      <label key={keyword} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer dark:text-white">
-                        <input
-                          type="checkbox"
-                          checked={filterKeywords.includes(keyword)}
-                          onChange={() => handleMultiSelectChange(filterKeywords, setFilterKeywords, keyword, keywordsRef)}
-                          className="rounded accent-blue-600"
-                          style={{ colorScheme: 'dark' }}
-                        />
-                        <span className="text-sm">{keyword}</span>
-                      </label>
-                    ))}
+                    {renderFacetOptions('keywords', keywordsRef)}
                   </div>
                 </details>
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-2">🏷️ {t('field.tags')} ({filterTags.length})</label>
+                <label className="block text-sm font-medium mb-2">🏷️ {t('field.tags')} ({query.tags.length})</label>
                 <details ref={tagsRef} className="relative">
                   <summary className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors list-none flex justify-between items-center">
-                    <span className="text-sm">{filterTags.length > 0 ? t('library.selected', { count: filterTags.length }) : t('library.allTags')}</span>
+                    <span className="text-sm">{query.tags.length > 0 ? t('library.selected', { count: query.tags.length }) : t('library.allTags')}</span>
                     <span className="text-xs">▼</span>
                   </summary>
                   <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                    {uniqueTags.map(tag => (
-                      <label key={tag} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer dark:text-white">
-                        <input
-                          type="checkbox"
-                          checked={filterTags.includes(tag)}
-                          onChange={() => handleMultiSelectChange(filterTags, setFilterTags, tag, tagsRef)}
-                          className="rounded accent-blue-600"
-                          style={{ colorScheme: 'dark' }}
-                        />
-                        <span className="text-sm">{tag}</span>
-                      </label>
-                    ))}
+                    {renderFacetOptions('tags', tagsRef)}
                   </div>
                 </details>
               </div>
@@ -970,97 +1159,77 @@ export default function Library() {
             {/* Row 4: Universities, Companies, Journals - Multi-Select */}
             <div className="grid grid-cols-3 gap-4">
               <div>
-                <label className="block text-sm font-medium mb-2">🎓 {t('field.universities')} ({filterUniversities.length})</label>
+                <label className="block text-sm font-medium mb-2">🎓 {t('field.universities')} ({query.universities.length})</label>
                 <details ref={universitiesRef} className="relative">
                   <summary className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors list-none flex justify-between items-center">
-                    <span className="text-sm">{filterUniversities.length > 0 ? t('library.selected', { count: filterUniversities.length }) : t('library.allUniversities')}</span>
+                    <span className="text-sm">{query.universities.length > 0 ? t('library.selected', { count: query.universities.length }) : t('library.allUniversities')}</span>
                     <span className="text-xs">▼</span>
                   </summary>
                   <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                    {uniqueUniversities.map(university => (
-                      <label key={university} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer dark:text-white">
-                        <input
-                          type="checkbox"
-                          checked={filterUniversities.includes(university)}
-                          onChange={() => handleMultiSelectChange(filterUniversities, setFilterUniversities, university, universitiesRef)}
-                          className="rounded accent-blue-600"
-                          style={{ colorScheme: 'dark' }}
-                        />
-                        <span className="text-sm">{university}</span>
-                      </label>
-                    ))}
+                    {renderFacetOptions('universities', universitiesRef)}
                   </div>
                 </details>
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-2">🏢 {t('field.companies')} ({filterCompanies.length})</label>
+                <label className="block text-sm font-medium mb-2">🏢 {t('field.companies')} ({query.companies.length})</label>
                 <details ref={companiesRef} className="relative">
                   <summary className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors list-none flex justify-between items-center">
-                    <span className="text-sm">{filterCompanies.length > 0 ? t('library.selected', { count: filterCompanies.length }) : t('library.allCompanies')}</span>
+                    <span className="text-sm">{query.companies.length > 0 ? t('library.selected', { count: query.companies.length }) : t('library.allCompanies')}</span>
                     <span className="text-xs">▼</span>
                   </summary>
                   <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                    {uniqueCompanies.map(company => (
-                      <label key={company} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer dark:text-white">
-                        <input
-                          type="checkbox"
-                          checked={filterCompanies.includes(company)}
-                          onChange={() => handleMultiSelectChange(filterCompanies, setFilterCompanies, company, companiesRef)}
-                          className="rounded accent-blue-600"
-                          style={{ colorScheme: 'dark' }}
-                        />
-                        <span className="text-sm">{company}</span>
-                      </label>
-                    ))}
+                    {renderFacetOptions('companies', companiesRef)}
                   </div>
                 </details>
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-2">📰 {t('field.journal')} ({filterJournals.length})</label>
+                <label className="block text-sm font-medium mb-2">📰 {t('field.journal')} ({query.journals.length})</label>
                 <details ref={journalsRef} className="relative">
                   <summary className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors list-none flex justify-between items-center">
-                    <span className="text-sm">{filterJournals.length > 0 ? t('library.selected', { count: filterJournals.length }) : t('library.allJournals')}</span>
+                    <span className="text-sm">{query.journals.length > 0 ? t('library.selected', { count: query.journals.length }) : t('library.allJournals')}</span>
                     <span className="text-xs">▼</span>
                   </summary>
                   <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                    {uniqueJournals.map(journal => (
-                      <label key={journal} className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 cursor-pointer dark:text-white">
-                        <input
-                          type="checkbox"
-                          checked={filterJournals.includes(journal)}
-                          onChange={() => handleMultiSelectChange(filterJournals, setFilterJournals, journal, journalsRef)}
-                          className="rounded accent-blue-600"
-                          style={{ colorScheme: 'dark' }}
-                        />
-                        <span className="text-sm">{journal}</span>
-                      </label>
-                    ))}
+                    {renderFacetOptions('journals', journalsRef)}
                   </div>
                 </details>
               </div>
             </div>
 
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hideEmptyFacets}
+                onChange={(e) => setHideEmptyFacets(e.target.checked)}
+                className="rounded"
+              />
+              {t('library.hideEmptyFacets')}
+            </label>
+
             {/* Clear Advanced Filters */}
             <button
-              onClick={() => {
-                setFilterYearMin('');
-                setFilterYearMax('');
-                setFilterDateAddedMin('');
-                setFilterDateAddedMax('');
-                setFilterRatingMin('');
-                setFilterRatingMax('');
-                setFilterPagesMin('');
-                setFilterPagesMax('');
-                setFilterAuthors([]);
-                setFilterKeywords([]);
-                setFilterTags([]);
-                setFilterSubjects([]);
-                setFilterUniversities([]);
-                setFilterCompanies([]);
-                setFilterJournals([]);
-              }}
+              onClick={() =>
+                setLibraryQuery({
+                  yearMin: '',
+                  yearMax: '',
+                  dateAddedMin: '',
+                  dateAddedMax: '',
+                  ratingMin: '',
+                  ratingMax: '',
+                  pagesMin: '',
+                  pagesMax: '',
+                  authors: [],
+                  keywords: [],
+                  tags: [],
+                  subjects: [],
+                  universities: [],
+                  companies: [],
+                  journals: [],
+                  matchAll: [],
+                })
+              }
               className="w-full px-4 py-2 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100 rounded-lg hover:bg-red-200 dark:hover:bg-red-800 text-sm font-medium"
             >
               {t('library.clearAdvanced')}
@@ -1069,29 +1238,128 @@ export default function Library() {
         )}
       </div>
 
+      {/* Bulk Actions (checked rows) */}
+      {selectedIdList.length > 0 && (
+        <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900 border border-blue-200 dark:border-blue-700 rounded-lg flex items-center gap-2 flex-wrap text-sm">
+          <span className="font-medium mr-2">{t('library.bulkSelected', { count: selectedIdList.length })}</span>
+          <button
+            onClick={() => setShowBulkRelations(true)}
+            disabled={bulkWorking}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            🏷️ {t('library.bulkEditRelations')}
+          </button>
+          <button
+            onClick={() => applyBulkUpdate({ read: true })}
+            disabled={bulkWorking}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            👁️ {t('library.bulkMarkRead')}
+          </button>
+          <button
+            onClick={() => applyBulkUpdate({ read: false })}
+            disabled={bulkWorking}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            📌 {t('library.bulkMarkUnread')}
+          </button>
+          <button
+            onClick={() => applyBulkUpdate({ favorite: true })}
+            disabled={bulkWorking}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            ⭐ {t('library.bulkFavorite')}
+          </button>
+          <button
+            onClick={() => applyBulkUpdate({ favorite: false })}
+            disabled={bulkWorking}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            ☆ {t('library.bulkUnfavorite')}
+          </button>
+          <select
+            value=""
+            disabled={bulkWorking}
+            onChange={(e) => e.target.value !== '' && applyBulkUpdate({ rating: Number(e.target.value) })}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"
+          >
+            <option value="">{t('library.bulkSetRating')}</option>
+            {[0, 1, 2, 3, 4, 5].map((rating) => (
+              <option key={rating} value={rating}>{starBar(rating)}</option>
+            ))}
+          </select>
+          {collections.length > 0 && (
+            <select
+              value=""
+              disabled={bulkWorking}
+              onChange={(e) => e.target.value !== '' && handleBulkAddToCollection(Number(e.target.value))}
+              className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"
+            >
+              <option value="">📂 {t('library.bulkAddToCollection')}</option>
+              {flattenCollectionTree(collections).map(({ collection, depth }) => (
+                <option key={collection.id} value={collection.id}>
+                  {'\u00a0\u00a0'.repeat(depth)}{collection.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleBulkRegenerateNotes}
+            disabled={bulkWorking}
+            className="px-3 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            📝 {t('library.bulkRegenerateNotes')}
+          </button>
+          <button
+            onClick={() => setShowBulkDelete(true)}
+            disabled={bulkWorking}
+            className="px-3 py-1 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50"
+          >
+            🗑️ {t('common.delete')}
+          </button>
+          <div className="flex-1" />
+          {bulkWorking && <span className="text-gray-600 dark:text-gray-300">⏳ {t('library.bulkWorking')}</span>}
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            disabled={bulkWorking}
+            className="px-3 py-1 text-gray-600 dark:text-gray-300 hover:underline disabled:opacity-50"
+          >
+            {t('library.bulkClear')}
+          </button>
+        </div>
+      )}
+
       {/* Articles Table */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+      <div ref={containerRef} className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-y-auto max-h-[75vh]">
         <table className="w-full">
-          <thead className="bg-gray-50 dark:bg-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0 z-10">
             <tr>
+              <th className="px-4 py-3 w-10">
+                <input
+                  type="checkbox"
+                  checked={allShownSelected}
+                  onChange={toggleAllShown}
+                  title={t('library.bulkSelectAll')}
+                />
+              </th>
               <th
                 className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600"
                 onClick={() => handleSort('id')}
               >
-                ID {sortColumn === 'id' && (sortDirection === 'asc' ? '↑' : '↓')}
+                ID {query.sortColumn === 'id' && (query.sortDirection === 'asc' ? '↑' : '↓')}
               </th>
               <th
                 className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600"
                 onClick={() => handleSort('title')}
               >
-                {t('field.title')} {sortColumn === 'title' && (sortDirection === 'asc' ? '↑' : '↓')}
+                {t('field.title')} {query.sortColumn === 'title' && (query.sortDirection === 'asc' ? '↑' : '↓')}
               </th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">{t('field.authors')}</th>
               <th
                 className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600"
                 onClick={() => handleSort('year')}
               >
-                {t('field.year')} {sortColumn === 'year' && (sortDirection === 'asc' ? '↑' : '↓')}
+                {t('field.year')} {query.sortColumn === 'year' && (query.sortDirection === 'asc' ? '↑' : '↓')}
               </th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">{t('field.journal')}</th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">{t('library.status')}</th>
@@ -1099,56 +1367,79 @@ export default function Library() {
                 className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600"
                 onClick={() => handleSort('createdAt')}
               >
-                {t('library.dateAdded')} {sortColumn === 'createdAt' && (sortDirection === 'asc' ? '↑' : '↓')}
+                {t('library.dateAdded')} {query.sortColumn === 'createdAt' && (query.sortDirection === 'asc' ? '↑' : '↓')}
               </th>
               <th
                 className={`px-4 py-3 text-left text-xs font-medium uppercase cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 ${
-                  activeQuickFilter === 'recent'
+                  isRecentSort
                     ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
                     : 'text-gray-500 dark:text-gray-400'
                 }`}
                 onClick={() => handleSort('updatedAt')}
               >
-                {t('library.lastUpdate')} {sortColumn === 'updatedAt' && (sortDirection === 'asc' ? '↑' : '↓')}
-                {activeQuickFilter === 'recent' && ' 🕐'}
+                {t('library.lastUpdate')} {query.sortColumn === 'updatedAt' && (query.sortDirection === 'asc' ? '↑' : '↓')}
+                {isRecentSort && ' 🕐'}
               </th>
             </tr>
           </thead>
-          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-            {filteredArticles.length === 0 ? (
+          <tbody ref={bodyRef} className="divide-y divide-gray-200 dark:divide-gray-700">
+            {total === 0 ? (
               <tr>
-                <td colSpan={8} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                <td colSpan={9} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
                   {t('library.noArticles')}
                 </td>
               </tr>
             ) : (
-              filteredArticles.map((article) => (
-                <tr
-                  key={article.id}
-                  className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
-                  onClick={() => setSelectedArticle(article.id)}
-                >
-                  <td className="px-4 py-3 text-sm">{article.id}</td>
-                  <td className="px-4 py-3 text-sm font-medium">
-                    {article.favorite && '⭐ '}
-                    {article.title}
-                  </td>
-                  <td className="px-4 py-3 text-sm">
-                    {article.authors?.map((a) => a.name).join(', ') || 'N/A'}
-                  </td>
-                  <td className="px-4 py-3 text-sm">{article.year}</td>
-                  <td className="px-4 py-3 text-sm">{article.journal || '-'}</td>
-                  <td className="px-4 py-3 text-sm">
-                    {article.read ? `👁️ ${t('library.read')}` : `📌 ${t('library.unread')}`}
-                  </td>
-                  <td className="px-4 py-3 text-sm">
-                    {formatDate(article.dateAdded)}
-                  </td>
-                  <td className="px-4 py-3 text-sm">
-                    {formatDate(article.updatedAt)}
-                  </td>
-                </tr>
-              ))
+              <>
+                {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+                {articles.slice(start, end).map((article) => (
+                  <tr
+                    key={article.id}
+                    data-row
+                    className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                    onClick={() => setSelectedArticle(article.id)}
+                  >
+                    <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(article.id)}
+                        onChange={() => toggleSelected(article.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm">{article.id}</td>
+                    <td className="px-4 py-3 text-sm font-medium">
+                      {article.favorite && '⭐ '}
+                      {searchResults?.has(article.id)
+                        ? renderSegments(searchResults.get(article.id)!.title)
+                        : article.title}
+                      {renderSearchMatch(article.id)}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {article.authors?.map((a) => a.name).join(', ') || 'N/A'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">{article.year}</td>
+                    <td className="px-4 py-3 text-sm">{article.journal || '-'}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {article.read ? `👁️ ${t('library.read')}` : `📌 ${t('library.unread')}`}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatDate(article.dateAdded)}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatDate(article.updatedAt)}
+                    </td>
+                  </tr>
+                ))}
+                {/* Rows of the next page while it loads */}
+                {end > articles.length && (
+                  <tr style={{ height: (end - Math.max(start, articles.length)) * rowHeight }}>
+                    <td colSpan={9} className="px-4 py-3 text-center text-sm text-gray-500 dark:text-gray-400 align-top">
+                      ⏳ {t('common.loading')}
+                    </td>
+                  </tr>
+                )}
+                {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
+              </>
             )}
           </tbody>
         </table>
@@ -1437,11 +1728,8 @@ export default function Library() {
                               await articlesApi.update(selectedArticleData.id, {
                                 read: newReadStatus,
                               });
-                              setArticles(
-                                articles.map((a) =>
-                                  a.id === selectedArticleData.id ? { ...a, read: newReadStatus } : a
-                                )
-                              );
+                              patchArticle(selectedArticleData.id, { read: newReadStatus });
+                              reloadLibraryCounts();
                             } catch (error: any) {
                               setModalError(t('error.failedToUpdateRead') + ': ' + error.message);
                               setTimeout(() => setModalError(null), 5000);
@@ -1463,11 +1751,8 @@ export default function Library() {
                               await articlesApi.update(selectedArticleData.id, {
                                 favorite: newFavoriteStatus,
                               });
-                              setArticles(
-                                articles.map((a) =>
-                                  a.id === selectedArticleData.id ? { ...a, favorite: newFavoriteStatus } : a
-                                )
-                              );
+                              patchArticle(selectedArticleData.id, { favorite: newFavoriteStatus });
+                              reloadLibraryCounts();
                             } catch (error: any) {
                               setModalError(t('error.failedToUpdateFavorite') + ': ' + error.message);
                               setTimeout(() => setModalError(null), 5000);
@@ -1557,6 +1842,303 @@ export default function Library() {
           </div>
         </div>
       )}
+
+      {/* Save View Modal */}
+      {showSaveView && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => setShowSaveView(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-4">💾 {t('library.saveViewTitle')}</h3>
+            <input
+              type="text"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveView()}
+              placeholder={t('library.viewNamePlaceholder')}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary mb-4"
+              autoFocus
+            />
+            <label className="block text-sm font-medium mb-1">{t('library.viewQuery')}</label>
+            <code className="block mb-4 p-2 bg-gray-100 dark:bg-gray-700 rounded text-xs break-all">
+              {serializedQuery || t('library.viewQueryEmpty')}
+            </code>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowSaveView(false)}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleSaveView}
+                disabled={!viewName.trim()}
+                className="flex-1 px-4 py-2 bg-primary text-white rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('common.save')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bibliography Modal */}
+      {showBibliography && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => setShowBibliography(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-2">📑 {t('library.bibliographyTitle')}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {t('library.bibliographyDescription', { count: targetIds.length })}
+            </p>
+
+            <label className="block text-sm font-medium mb-1">{t('library.citationStyle')}</label>
+            <select
+              value={citationStyle}
+              onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+              className="w-full px-3 py-2 mb-4 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg"
+            >
+              {(Object.keys(CITATION_STYLES) as CitationStyle[]).map((style) => (
+                <option key={style} value={style}>{CITATION_STYLES[style]}</option>
+              ))}
+            </select>
+
+            <label className="block text-sm font-medium mb-1">{t('library.bibliographyFormat')}</label>
+            <div className="flex gap-4 mb-6">
+              {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map((format) => (
+                <label key={format} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="bibliographyFormat"
+                    checked={bibliographyFormat === format}
+                    onChange={() => setBibliographyFormat(format)}
+                  />
+                  {t(`library.bibliographyFormat.${format}`)}
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowBibliography(false)}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleGenerateBibliography}
+                disabled={generatingBibliography}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {generatingBibliography ? t('library.generating') : t('library.generateBibliography')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Metadata Refresh Modal */}
+      {showMetadataRefresh && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => !refreshProgress && !applyingChanges && setShowMetadataRefresh(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full p-6 max-h-[85vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-2">🔄 {t('library.refreshMetadataTitle')}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {refreshProgress
+                ? t('library.refreshMetadataProgress', { done: refreshProgress.done, total: refreshProgress.total })
+                : t('library.refreshMetadataDone', { count: refreshResults.length, changed: changedResults.length })}
+            </p>
+
+            <div className="flex-1 overflow-y-auto space-y-4 mb-6">
+              {changedResults.map((result) => (
+                <div key={result.article.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                  <p className="font-medium mb-2">
+                    <span className="text-gray-500 dark:text-gray-400 mr-2">#{result.article.id}</span>
+                    {result.article.title}
+                  </p>
+                  {result.error ? (
+                    <p className="text-sm text-red-600 dark:text-red-400">⚠️ {result.error}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {result.changes.map((change) => {
+                        const key = `${result.article.id}:${change.field}`;
+                        return (
+                          <label key={key} className="flex items-start gap-3 text-sm cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={acceptedChanges.has(key)}
+                              onChange={() => toggleChange(key)}
+                              className="mt-1"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium">{t(`field.${change.field}`)}</p>
+                              {change.current && (
+                                <p className={`text-red-600 dark:text-red-400 line-through break-words ${change.field === 'abstract' ? 'line-clamp-2' : ''}`}>
+                                  {change.current}
+                                </p>
+                              )}
+                              <p className={`text-green-700 dark:text-green-400 break-words ${change.field === 'abstract' ? 'line-clamp-3' : ''}`}>
+                                {change.proposed}
+                              </p>
+                            </div>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowMetadataRefresh(false)}
+                disabled={!!refreshProgress || applyingChanges}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleApplyMetadataChanges}
+                disabled={!!refreshProgress || applyingChanges || acceptedChanges.size === 0}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {applyingChanges ? t('library.applying') : t('library.applyChanges', { count: acceptedChanges.size })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Tags/Keywords/Subjects Modal */}
+      {showBulkRelations && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => setShowBulkRelations(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-2">🏷️ {t('library.bulkEditRelations')}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {t('library.bulkSelected', { count: selectedIdList.length })}
+            </p>
+
+            <div className="flex gap-4 mb-4">
+              {(['tags', 'keywords', 'subjects'] as BulkRelation[]).map((relation) => (
+                <label key={relation} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="bulkRelation"
+                    checked={bulkRelation === relation}
+                    onChange={() => setBulkRelation(relation)}
+                  />
+                  {t(`field.${relation}`)}
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-4 mb-4">
+              {(['add', 'remove'] as const).map((mode) => (
+                <label key={mode} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="bulkRelationMode"
+                    checked={bulkRelationMode === mode}
+                    onChange={() => setBulkRelationMode(mode)}
+                  />
+                  {t(`library.bulkMode.${mode}`)}
+                </label>
+              ))}
+            </div>
+
+            <input
+              type="text"
+              list="bulk-relation-suggestions"
+              value={bulkRelationInput}
+              onChange={(e) => setBulkRelationInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleBulkRelations()}
+              placeholder={t('library.bulkRelationPlaceholder')}
+              autoFocus
+              className="w-full px-3 py-2 mb-6 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg"
+            />
+            <datalist id="bulk-relation-suggestions">
+              {bulkRelationSuggestions.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowBulkRelations(false)}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleBulkRelations}
+                disabled={!bulkRelationInput.trim()}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {t(`library.bulkMode.${bulkRelationMode}`)}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Delete Modal */}
+      {showBulkDelete && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => setShowBulkDelete(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-4 text-red-600 dark:text-red-400">⚠️ {t('library.bulkDeleteTitle')}</h3>
+            <p className="text-gray-700 dark:text-gray-300 mb-2">
+              {t('library.bulkDeleteConfirm', { count: selectedIdList.length })}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-6 max-h-32 overflow-y-auto">
+              {selectedIdList.map((id) => {
+                const article = articles.find((loaded) => loaded.id === id);
+                return article ? `#${id} ${article.title}` : `#${id}`;
+              }).join(' · ')}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowBulkDelete(false)}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleBulkDelete}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                {t('library.bulkDeleteButton', { count: selectedIdList.length })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from '../hooks/useTranslation';
+import { collectionsApi, relationsApi } from '../services/api';
+import { RELATION_COLORS, RELATION_TYPES, GraphPoint, forceLayout, isDirected, relationLabelKey } from '../lib/relations';
+import { Collection } from '../types/collection';
+import { RelationGraph as Graph, RelationType } from '../types/relation';
+
+// Size of the drawing area (SVG units); the view is zoomed and panned inside it
+const WIDTH = 1200;
+const HEIGHT = 800;
+const NODE_RADIUS = 8;
+
+// Collections in tree order, with their depth (for the scope menu)
+function flattenCollections(collections: Collection[], parentId: number | null = null, depth = 0): Array<{ collection: Collection; depth: number }> {
+  return collections
+    .filter((collection) => collection.parentId === parentId)
+    .sort((a, b) => a.position - b.position)
+    .flatMap((collection) => [{ collection, depth }, ...flattenCollections(collections, collection.id, depth + 1)]);
+}
+
+export default function RelationGraph() {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionId, setCollectionId] = useState<number | null>(null);
+  const [types, setTypes] = useState<RelationType[]>(RELATION_TYPES);
+  const [graph, setGraph] = useState<Graph>({ nodes: [], edges: [] });
+  const [positions, setPositions] = useState<Record<string, GraphPoint>>({});
+  const [loading, setLoading] = useState(true);
+  const [detecting, setDetecting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // View: zoom and pan, hovered node, node or background being dragged
+  const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+  const [hovered, setHovered] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ nodeId: string | null; startX: number; startY: number; moved: boolean } | null>(null);
+
+  const loadGraph = async () => {
+    setLoading(true);
+    try {
+      const loaded = await relationsApi.graph(collectionId);
+      setGraph(loaded);
+      setPositions(forceLayout(loaded.nodes.map((node) => node.id), loaded.edges, WIDTH, HEIGHT));
+      setView({ scale: 1, x: 0, y: 0 });
+    } catch (error) {
+      showMessage('error', t('graph.loadFailed') + ': ' + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    collectionsApi.list().then(setCollections).catch((error) => console.error('Error loading collections:', error));
+  }, []);
+
+  useEffect(() => {
+    loadGraph();
+  }, [collectionId]);
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const handleDetectAll = async () => {
+    setDetecting(true);
+    try {
+      const report = await relationsApi.detectAll();
+      showMessage('success', t('graph.detected', { articles: report.articles, count: report.added }));
+      await loadGraph();
+    } catch (error) {
+      showMessage('error', t('relations.detectFailed') + ': ' + (error as Error).message);
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const toggleType = (type: RelationType) => {
+    setTypes((current) => current.includes(type) ? current.filter((other) => other !== type) : [...current, type]);
+  };
+
+  const edges = useMemo(() => graph.edges.filter((edge) => types.includes(edge.type)), [graph, types]);
+
+  // Hovered node and its neighbours stay bright, the rest fades
+  const highlighted = useMemo(() => {
+    if (!hovered) return null;
+    const ids = new Set([hovered]);
+    edges.forEach((edge) => {
+      if (edge.fromId === hovered) ids.add(edge.toId);
+      if (edge.toId === hovered) ids.add(edge.fromId);
+    });
+    return ids;
+  }, [hovered, edges]);
+
+  // Mouse position in drawing coordinates
+  const toGraphPoint = (event: React.MouseEvent | React.WheelEvent): GraphPoint => {
+    const rect = (svgRef.current as SVGSVGElement).getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const y = ((event.clientY - rect.top) / rect.height) * HEIGHT;
+    return { x: (x - view.x) / view.scale, y: (y - view.y) / view.scale };
+  };
+
+  const handleWheel = (event: React.WheelEvent) => {
+    const point = toGraphPoint(event);
+    const scale = Math.min(5, Math.max(0.2, view.scale * (event.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    // Zoom around the mouse position
+    setView({ scale, x: view.x + point.x * (view.scale - scale), y: view.y + point.y * (view.scale - scale) });
+  };
+
+  const handleMouseDown = (event: React.MouseEvent, nodeId: string | null) => {
+    event.stopPropagation();
+    drag.current = { nodeId, startX: event.clientX, startY: event.clientY, moved: false };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const current = drag.current;
+    if (!current) return;
+    if (Math.abs(event.clientX - current.startX) + Math.abs(event.clientY - current.startY) > 3) current.moved = true;
+    if (!current.moved) return;
+
+    if (current.nodeId) {
+      const point = toGraphPoint(event);
+      setPositions((previous) => ({ ...previous, [current.nodeId as string]: point }));
+    } else {
+      const rect = (svgRef.current as SVGSVGElement).getBoundingClientRect();
+      setView((previous) => ({
+        ...previous,
+        x: previous.x + (event.movementX / rect.width) * WIDTH,
+        y: previous.y + (event.movementY / rect.height) * HEIGHT,
+      }));
+    }
+  };
+
+  const handleMouseUp = () => {
+    const current = drag.current;
+    drag.current = null;
+    // A click (no drag) on a node opens the article
+    if (current?.nodeId && !current.moved) navigate(`/article/${current.nodeId}`);
+  };
+
+  // Edge shortened so that the arrowhead stops at the border of the target node
+  const edgeLine = (from: GraphPoint, to: GraphPoint) => {
+    const distance = Math.max(Math.hypot(to.x - from.x, to.y - from.y), 0.01);
+    const ratio = (distance - NODE_RADIUS - 2) / distance;
+    return { x1: from.x, y1: from.y, x2: from.x + (to.x - from.x) * ratio, y2: from.y + (to.y - from.y) * ratio };
+  };
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-3xl font-bold">🕸️ {t('graph.title')}</h1>
+        <button
+          onClick={handleDetectAll}
+          disabled={detecting}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          🔍 {detecting ? t('relations.detecting') : t('graph.detectAll')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{t('graph.description')}</p>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${message.type === 'success'
+          ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100'
+          : 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100'}`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Scope and relation types */}
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <select
+          value={collectionId ?? ''}
+          onChange={(e) => setCollectionId(e.target.value ? Number(e.target.value) : null)}
+          className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-lg"
+        >
+          <option value="">{t('graph.wholeLibrary')}</option>
+          {flattenCollections(collections).map(({ collection, depth }) => (
+            <option key={collection.id} value={collection.id}>
+              {'\u00a0\u00a0'.repeat(depth)}📂 {collection.name}
+            </option>
+          ))}
+        </select>
+
+        {RELATION_TYPES.map((type) => (
+          <label key={type} className="flex items-center gap-1.5 text-sm cursor-pointer">
+            <input type="checkbox" checked={types.includes(type)} onChange={() => toggleType(type)} />
+            <span className="inline-block w-4 h-0.5" style={{ backgroundColor: RELATION_COLORS[type] }} />
+            {t(relationLabelKey(type, 'outgoing'))}
+          </label>
+        ))}
+
+        <span className="text-xs text-gray-500">
+          {t('graph.counts', { articles: graph.nodes.length, relations: edges.length })}
+        </span>
+      </div>
+
+      {/* Graph */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <p className="p-8 text-center text-gray-500">{t('common.loading')}</p>
+        ) : graph.nodes.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">{t(collectionId === null ? 'graph.empty' : 'graph.emptyCollection')}</p>
+        ) : (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-[70vh] select-none cursor-grab"
+            onWheel={handleWheel}
+            onMouseDown={(e) => handleMouseDown(e, null)}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => { drag.current = null; }}
+          >
+            <defs>
+              {RELATION_TYPES.filter(isDirected).map((type) => (
+                <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATION_COLORS[type]} />
+                </marker>
+              ))}
+            </defs>
+
+            <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+              {edges.map((edge) => {
+                const from = positions[edge.fromId];
+                const to = positions[edge.toId];
+                if (!from || !to) return null;
+                const faded = highlighted && !(edge.fromId === hovered || edge.toId === hovered);
+                return (
+                  <line
+                    key={edge.id}
+                    {...edgeLine(from, to)}
+                    stroke={RELATION_COLORS[edge.type]}
+                    strokeWidth={1.5}
+                    strokeDasharray={edge.source === 'auto' ? '4 3' : undefined}
+                    markerEnd={isDirected(edge.type) ? `url(#arrow-${edge.type})` : undefined}
+                    opacity={faded ? 0.1 : 0.8}
+                  />
+                );
+              })}
+
+              {graph.nodes.map((node) => {
+                const point = positions[node.id];
+                if (!point) return null;
+                const faded = highlighted && !highlighted.has(node.id);
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${point.x} ${point.y})`}
+                    opacity={faded ? 0.15 : 1}
+                    className="cursor-pointer"
+                    onMouseDown={(e) => handleMouseDown(e, node.id)}
+                    onMouseEnter={() => setHovered(node.id)}
+                    onMouseLeave={() => setHovered(null)}
+                  >
+                    <title>{`${node.id} – ${node.title} (${node.year})`}</title>
+                    <circle
+                      r={NODE_RADIUS}
+                      className={node.read ? 'fill-primary' : 'fill-gray-400'}
+                      stroke={node.favorite ? '#f59e0b' : 'white'}
+                      strokeWidth={2}
+                    />
+                    <text
+                      x={NODE_RADIUS + 4}
+                      y={4}
+                      fontSize={11}
+                      className="fill-gray-700 dark:fill-gray-300"
+                    >
+                      {hovered === node.id || node.title.length <= 30 ? node.title : node.title.slice(0, 28) + '…'}
+                    </text>
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+        )}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">{t('graph.legend')}</p>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { settingsApi, articlesApi } from '../services/api';
+import { settingsApi, articlesApi, databaseApi, interchangeApi, metadataApi, backupsApi } from '../services/api';
 import { useSettingsStore } from '../store/settings';
 import { useArticlesStore } from '../store/articles';
 import { useTranslation } from '../hooks/useTranslation';
 import { Article } from '../types/article';
+import { LibraryImportMode, LibraryImportReport } from '../types/database';
+import { InterchangeFormat } from '../types/interchange';
+import { MetadataResolverSettings } from '../types/metadata';
+import { BackupInfo, BackupSettings } from '../types/backup';
+import { splitImportDuplicates, downloadFile } from '../lib/utils';
+import { EMPTY_LIBRARY_QUERY } from '../lib/libraryQuery';
+import { INTERCHANGE_FORMATS, formatForFile, downloadArticles } from '../lib/interchange';
+import { formatDateTime, formatFileSize } from '../utils/text';
 
 declare global {
   interface Window {
@@ -22,7 +30,7 @@ const CSV_COLUMNS = [
 
 export default function Settings() {
   const { theme, setTheme, language: storeLanguage, setLanguage } = useSettingsStore();
-  const { articles, setArticles, addArticle } = useArticlesStore();
+  const addArticle = useArticlesStore((state) => state.addArticle);
   const { t } = useTranslation();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -33,6 +41,7 @@ export default function Settings() {
 
   const [loading, setLoading] = useState(true);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [articleCount, setArticleCount] = useState(0);
 
   // External storage state
   const [externalStorage, setExternalStorage] = useState({
@@ -41,6 +50,21 @@ export default function Settings() {
   });
   const [copyingToExternal, setCopyingToExternal] = useState(false);
 
+  // Generated notes: append the annotation digest
+  const [noteAnnotations, setNoteAnnotations] = useState(false);
+  const [detectRelations, setDetectRelations] = useState(false);
+
+  // Days deleted articles stay in the trash (0 = until emptied)
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+
+  // Backups state (busy: 'create' or the ID of the backup being verified, restored or deleted)
+  const [backupSettings, setBackupSettings] = useState<BackupSettings>({ schedule: 'daily', includeFiles: false, keep: 10 });
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [backupBusy, setBackupBusy] = useState<string | null>(null);
+
+  // Metadata lookup (DOI) state
+  const [resolverSettings, setResolverSettings] = useState<MetadataResolverSettings>({ crossrefUrl: '', dataciteUrl: '' });
+
   // Import/Export state
   const [exporting, setExporting] = useState(false);
   const [importing, setImporting] = useState(false);
@@ -49,16 +73,35 @@ export default function Settings() {
     total: number;
     toImport: number;
     duplicates: number;
+    errors: string[];
     data: any[];
   } | null>(null);
 
+  // Full library (JSON) export/import state
+  const [jsonExporting, setJsonExporting] = useState(false);
+  const [jsonImportMode, setJsonImportMode] = useState<LibraryImportMode>('merge');
+  const [jsonImport, setJsonImport] = useState<{ path: string; report: LibraryImportReport } | null>(null);
+  const [jsonImporting, setJsonImporting] = useState(false);
+
   // Sync local state with store when storeLanguage changes
   useEffect(() => {
     setSettings({ language: storeLanguage });
   }, [storeLanguage]);
 
+  // Number of articles in the library (shown next to the exports)
+  const loadArticleCount = async () => {
+    try {
+      const { total } = await articlesApi.query({ query: EMPTY_LIBRARY_QUERY, limit: 0 });
+      setArticleCount(total);
+    } catch (error) {
+      console.error('Error counting articles:', error);
+    }
+  };
+
   // Load settings on mount
   useEffect(() => {
+    loadArticleCount();
+
     const loadData = async () => {
       try {
         setLoading(true);
@@ -72,6 +115,19 @@ export default function Settings() {
           enabled: externalSettings.useExternalStorage,
           path: externalSettings.externalStoragePath,
         });
+
+        // Load metadata lookup settings
+        setResolverSettings(await metadataApi.getSettings());
+
+        // Load backup settings and the list of backups
+        setBackupSettings(await backupsApi.getSettings());
+        setBackups(await backupsApi.list());
+
+        // Load note generation settings
+        const userSettings = await settingsApi.get();
+        setNoteAnnotations(Boolean(userSettings?.noteAnnotations));
+        setDetectRelations(Boolean(userSettings?.detectRelations));
+        setTrashRetentionDays(userSettings?.trashRetentionDays ?? 30);
       } catch (error: any) {
         console.error('Error loading settings:', error);
         setMessage({ type: 'error', text: t('error.failedToLoadSettings') });
@@ -111,6 +167,113 @@ export default function Settings() {
     }
   };
 
+  // Handle note annotations toggle - auto-save
+  const handleToggleNoteAnnotations = async (enabled: boolean) => {
+    setNoteAnnotations(enabled);
+    try {
+      await settingsApi.update({ noteAnnotations: enabled });
+    } catch (error: any) {
+      console.error('Failed to save note annotations setting:', error);
+      setNoteAnnotations(!enabled);
+    }
+  };
+
+  // Handle relation detection toggle - auto-save
+  const handleToggleDetectRelations = async (enabled: boolean) => {
+    setDetectRelations(enabled);
+    try {
+      await settingsApi.update({ detectRelations: enabled });
+    } catch (error: any) {
+      console.error('Failed to save relation detection setting:', error);
+      setDetectRelations(!enabled);
+    }
+  };
+
+  // Handle trash retention change - auto-save
+  const handleTrashRetentionChange = async (days: number) => {
+    const previous = trashRetentionDays;
+    setTrashRetentionDays(days);
+    try {
+      await settingsApi.update({ trashRetentionDays: days });
+    } catch (error) {
+      console.error('Failed to save trash retention setting:', error);
+      setTrashRetentionDays(previous);
+    }
+  };
+
+  // Handle backup settings change - auto-save
+  const handleBackupSettingsChange = async (changes: Partial<BackupSettings>) => {
+    const previous = backupSettings;
+    setBackupSettings({ ...previous, ...changes });
+    try {
+      setBackupSettings(await backupsApi.updateSettings(changes));
+    } catch (error) {
+      console.error('Failed to save backup settings:', error);
+      setBackupSettings(previous);
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    setBackupBusy('create');
+    setMessage(null);
+    try {
+      const backup = await backupsApi.create();
+      setBackups(await backupsApi.list());
+      setMessage({ type: 'success', text: `✅ ${t('backup.created', { size: formatFileSize(backup.size) })}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: `❌ ${t('backup.createFailed')}: ${(error as Error).message}` });
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const handleVerifyBackup = async (backup: BackupInfo) => {
+    setBackupBusy(backup.id);
+    setMessage(null);
+    try {
+      const result = await backupsApi.verify(backup.id);
+      setMessage(result.ok
+        ? { type: 'success', text: `✅ ${t('backup.verified')}` }
+        : { type: 'error', text: `❌ ${t('backup.verifyFailed')}: ${result.errors.join('; ')}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: `❌ ${t('backup.verifyFailed')}: ${(error as Error).message}` });
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const handleDeleteBackup = async (backup: BackupInfo) => {
+    if (!window.confirm(t('backup.deleteConfirm', { date: formatDateTime(backup.createdAt) }))) return;
+
+    setBackupBusy(backup.id);
+    setMessage(null);
+    try {
+      await backupsApi.delete(backup.id);
+      setBackups((prev) => prev.filter((item) => item.id !== backup.id));
+    } catch (error) {
+      setMessage({ type: 'error', text: `❌ ${t('backup.deleteFailed')}: ${(error as Error).message}` });
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  // The backup is checked and the current library backed up, then the app restarts to swap the files
+  const handleRestoreBackup = async (backup: BackupInfo) => {
+    const confirmKey = backup.includesFiles ? 'backup.restoreConfirmFiles' : 'backup.restoreConfirm';
+    if (!window.confirm(t(confirmKey, { date: formatDateTime(backup.createdAt) }))) return;
+
+    setBackupBusy(backup.id);
+    setMessage(null);
+    try {
+      await backupsApi.restore(backup.id);
+      setMessage({ type: 'success', text: `✅ ${t('backup.restarting')}` });
+      await window.electronAPI.storage.restartApp();
+    } catch (error) {
+      setMessage({ type: 'error', text: `❌ ${t('backup.restoreFailed')}: ${(error as Error).message}` });
+      setBackupBusy(null);
+    }
+  };
+
   // External Storage Handlers
   const handleChooseExternalPath = async () => {
     try {
@@ -155,6 +318,18 @@ export default function Settings() {
     }
   };
 
+  // Metadata lookup handlers (empty URLs go back to the public APIs)
+  const handleSaveResolverSettings = async (settings: MetadataResolverSettings) => {
+    try {
+      setMessage(null);
+      setResolverSettings(await metadataApi.updateSettings(settings));
+      setMessage({ type: 'success', text: '✅ ' + t('metadataLookup.saved') });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: `Failed to save: ${error.message}` });
+    }
+  };
+
   const handleCopyExistingToExternal = async () => {
     try {
       if (!externalStorage.path) {
@@ -252,15 +427,7 @@ export default function Settings() {
 
       const csvContent = [header, ...rows].join('\n');
 
-      const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8' }); // BOM for Excel
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `articles_export_${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile('\ufeff' + csvContent, `articles_export_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8'); // BOM for Excel
 
       setMessage({ type: 'success', text: `✅ Exported ${allArticles.length} articles to CSV!` });
       setTimeout(() => setMessage(null), 3000);
@@ -271,6 +438,24 @@ export default function Settings() {
     }
   };
 
+  // Export the whole library to a bibliographic format (BibTeX...)
+  const handleExportFormat = async (format: InterchangeFormat) => {
+    try {
+      setExporting(true);
+      setMessage(null);
+
+      const allArticles = await articlesApi.getAll();
+      await downloadArticles(format, allArticles, `articles_export_${new Date().toISOString().split('T')[0]}`);
+
+      setMessage({ type: 'success', text: `✅ Exported ${allArticles.length} articles to ${INTERCHANGE_FORMATS[format].label}!` });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: `Export failed: ${error.message}` });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // Parse CSV line respecting quotes
   const parseCSVLine = (line: string): string[] => {
     const result: string[] = [];
@@ -299,7 +484,48 @@ export default function Settings() {
     return result;
   };
 
-  // Handle CSV file import
+  // File extensions accepted by the import (CSV + bibliographic formats)
+  const importExtensions = ['.csv', ...Object.values(INTERCHANGE_FORMATS).map((format) => `.${format.extension}`)].join(', ');
+
+  // Parse CSV content into article data
+  const parseCSV = (text: string): any[] => {
+    const importedArticles: any[] = [];
+
+    const lines = text.split('\n').filter(l => l.trim());
+    if (lines.length < 2) {
+      throw new Error('CSV file must have a header row and at least one data row');
+    }
+
+    const headers = parseCSVLine(lines[0]);
+
+    for (let i = 1; i < lines.length; i++) {
+      const values = parseCSVLine(lines[i]);
+      const article: any = {};
+
+      headers.forEach((header, index) => {
+        const value = values[index] || '';
+        const cleanHeader = header.trim();
+
+        // Convert types
+        if (cleanHeader === 'year' || cleanHeader === 'numPages' || cleanHeader === 'rating') {
+          article[cleanHeader] = parseInt(value) || 0;
+        } else if (cleanHeader === 'read' || cleanHeader === 'favorite') {
+          article[cleanHeader] = value.toLowerCase() === 'true' || value === '1';
+        } else if (['authors', 'keywords', 'subjects', 'tags', 'universities', 'companies'].includes(cleanHeader)) {
+          // Convert semicolon-separated to array
+          article[cleanHeader] = value.split(';').map((s: string) => s.trim()).filter(Boolean);
+        } else {
+          article[cleanHeader] = value;
+        }
+      });
+
+      importedArticles.push(article);
+    }
+
+    return importedArticles;
+  };
+
+  // Handle file import (CSV or a bibliographic format)
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -308,76 +534,26 @@ export default function Settings() {
       setImporting(true);
       setMessage(null);
 
-      if (!file.name.endsWith('.csv')) {
-        throw new Error(t('importExport.selectCsvFile'));
+      const format = formatForFile(file.name);
+      if (!file.name.endsWith('.csv') && !format) {
+        throw new Error(t('importExport.unsupportedFile', { formats: importExtensions }));
       }
 
       const text = await file.text();
-      const importedArticles: any[] = [];
+      let importedArticles: any[];
+      let errors: string[] = [];
 
-      const lines = text.split('\n').filter(l => l.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must have a header row and at least one data row');
-      }
-
-      const headers = parseCSVLine(lines[0]);
-
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
-        const article: any = {};
-
-        headers.forEach((header, index) => {
-          const value = values[index] || '';
-          const cleanHeader = header.trim();
-
-          // Convert types
-          if (cleanHeader === 'year' || cleanHeader === 'numPages' || cleanHeader === 'rating') {
-            article[cleanHeader] = parseInt(value) || 0;
-          } else if (cleanHeader === 'read' || cleanHeader === 'favorite') {
-            article[cleanHeader] = value.toLowerCase() === 'true' || value === '1';
-          } else if (['authors', 'keywords', 'subjects', 'tags', 'universities', 'companies'].includes(cleanHeader)) {
-            // Convert semicolon-separated to array
-            article[cleanHeader] = value.split(';').map((s: string) => s.trim()).filter(Boolean);
-          } else {
-            article[cleanHeader] = value;
-          }
-        });
-
-        importedArticles.push(article);
+      if (format) {
+        const result = await interchangeApi.parseImport(format, text);
+        importedArticles = result.articles;
+        errors = result.errors;
+      } else {
+        importedArticles = parseCSV(text);
       }
 
-      // Helper function to normalize string for comparison
-      const normalize = (str: string) => str?.toLowerCase().trim() || '';
-
-      // Helper function to get authors string for comparison
-      const getAuthorsKey = (authorsData: any) => {
-        if (Array.isArray(authorsData)) {
-          return authorsData.map((a: any) => normalize(typeof a === 'string' ? a : a.name)).sort().join('|');
-        }
-        return '';
-      };
-
       // Check for duplicates based on title + authors
-      const toImport: any[] = [];
-      const duplicates: any[] = [];
-
-      for (const articleData of importedArticles) {
-        const title = normalize(articleData.title);
-        const authorsKey = getAuthorsKey(articleData.authors);
-
-        // Check if article with same title AND authors already exists in library
-        const isDuplicate = articles.some(existing => {
-          const existingTitle = normalize(existing.title);
-          const existingAuthorsKey = existing.authors?.map(a => normalize(a.name)).sort().join('|') || '';
-          return existingTitle === title && existingAuthorsKey === authorsKey;
-        });
-
-        if (isDuplicate) {
-          duplicates.push(articleData);
-        } else {
-          toImport.push(articleData);
-        }
-      }
+      const sameTitles = await articlesApi.findByTitles(importedArticles.map((article) => String(article.title || '')));
+      const { toImport, duplicates } = splitImportDuplicates(sameTitles, importedArticles);
 
       // Show confirmation modal
       setImportModal({
@@ -385,6 +561,7 @@ export default function Settings() {
         total: importedArticles.length,
         toImport: toImport.length,
         duplicates: duplicates.length,
+        errors,
         data: toImport
       });
       setImporting(false);
@@ -459,11 +636,66 @@ export default function Settings() {
 
     setMessage({ type: 'success', text: resultText });
     setTimeout(() => setMessage(null), 7000);
+    loadArticleCount();
 
     setImportModal(null);
     setImporting(false);
   };
 
+  // Export the whole library (all tables, IDs kept) to JSON
+  const handleExportJSON = async () => {
+    setJsonExporting(true);
+    setMessage(null);
+
+    try {
+      const result = await databaseApi.exportLibrary();
+      if (result) {
+        setMessage({ type: 'success', text: `✅ ${t('libraryJson.exportSuccess', { count: result.articles })}` });
+        setTimeout(() => setMessage(null), 5000);
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: `❌ ${t('libraryJson.exportError')}: ${error.message}` });
+    } finally {
+      setJsonExporting(false);
+    }
+  };
+
+  // Pick a JSON file and show what importing it would do (dry run)
+  const handleChooseJSON = async () => {
+    setMessage(null);
+
+    try {
+      const path = await databaseApi.chooseImportFile();
+      if (!path) return;
+
+      setJsonImporting(true);
+      const report = await databaseApi.importLibrary(path, { mode: jsonImportMode, dryRun: true });
+      setJsonImport({ path, report });
+    } catch (error: any) {
+      setMessage({ type: 'error', text: `❌ ${t('libraryJson.importError')}: ${error.message}` });
+    } finally {
+      setJsonImporting(false);
+    }
+  };
+
+  // Run the import for real once the report has been reviewed
+  const confirmImportJSON = async () => {
+    if (!jsonImport) return;
+
+    setJsonImporting(true);
+    try {
+      const report = await databaseApi.importLibrary(jsonImport.path, { mode: jsonImport.report.mode });
+      await loadArticleCount();
+      setMessage({ type: 'success', text: `✅ ${t('libraryJson.importSuccess', { count: report.articles.imported })}` });
+      setTimeout(() => setMessage(null), 7000);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: `❌ ${t('libraryJson.importError')}: ${error.message}` });
+    } finally {
+      setJsonImport(null);
+      setJsonImporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="p-8">
@@ -526,6 +758,55 @@ export default function Settings() {
               {t('settings.language.note')}
             </p>
           </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium">{t('settings.noteAnnotations')}</label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.noteAnnotations.desc')}</p>
+            </div>
+            <button
+              onClick={() => handleToggleNoteAnnotations(!noteAnnotations)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${noteAnnotations ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${noteAnnotations ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+              />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium">{t('settings.detectRelations')}</label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.detectRelations.desc')}</p>
+            </div>
+            <button
+              onClick={() => handleToggleDetectRelations(!detectRelations)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${detectRelations ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${detectRelations ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+              />
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">{t('settings.trashRetention')}</label>
+            <select
+              value={trashRetentionDays}
+              onChange={(e) => handleTrashRetentionChange(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {[7, 30, 90, 365].map((days) => (
+                <option key={days} value={days}>{t('settings.trashRetention.days', { days })}</option>
+              ))}
+              <option value={0}>{t('settings.trashRetention.never')}</option>
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('settings.trashRetention.desc')}</p>
+          </div>
         </div>
       </section>
 
@@ -609,6 +890,173 @@ export default function Settings() {
         </div>
       </section>
 
+      {/* Metadata Lookup (DOI) */}
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6">
+        <h2 className="text-xl font-semibold mb-4">🌐 {t('metadataLookup.title')}</h2>
+
+        <div className="space-y-4">
+          <div className="bg-blue-50 dark:bg-blue-900 border border-blue-200 dark:border-blue-700 rounded-lg p-4">
+            <p className="text-sm text-blue-800 dark:text-blue-200">
+              {t('metadataLookup.description')}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">{t('metadataLookup.crossrefUrl')}</label>
+            <input
+              type="text"
+              value={resolverSettings.crossrefUrl}
+              onChange={(e) => setResolverSettings((prev) => ({ ...prev, crossrefUrl: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm font-mono"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">{t('metadataLookup.dataciteUrl')}</label>
+            <input
+              type="text"
+              value={resolverSettings.dataciteUrl}
+              onChange={(e) => setResolverSettings((prev) => ({ ...prev, dataciteUrl: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm font-mono"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('metadataLookup.localServerHint')}</p>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSaveResolverSettings(resolverSettings)}
+              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg hover:opacity-90"
+            >
+              💾 {t('metadataLookup.save')}
+            </button>
+            <button
+              onClick={() => handleSaveResolverSettings({ crossrefUrl: '', dataciteUrl: '' })}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg hover:opacity-80"
+            >
+              {t('metadataLookup.reset')}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {/* Backups */}
+      <section className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6">
+        <h2 className="text-xl font-semibold mb-4">🛟 {t('backup.title')}</h2>
+
+        <div className="space-y-4">
+          <div className="bg-blue-50 dark:bg-blue-900 border border-blue-200 dark:border-blue-700 rounded-lg p-4">
+            <p className="text-sm text-blue-800 dark:text-blue-200">
+              {t('backup.description')}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">{t('backup.schedule')}</label>
+              <select
+                value={backupSettings.schedule}
+                onChange={(e) => handleBackupSettingsChange({ schedule: e.target.value as BackupSettings['schedule'] })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="daily">{t('backup.schedule.daily')}</option>
+                <option value="startup">{t('backup.schedule.startup')}</option>
+                <option value="off">{t('backup.schedule.off')}</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">{t('backup.keep')}</label>
+              <select
+                value={backupSettings.keep}
+                onChange={(e) => handleBackupSettingsChange({ keep: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {[3, 5, 10, 20, 50].map((count) => (
+                  <option key={count} value={count}>{t('backup.keep.count', { count })}</option>
+                ))}
+                <option value={0}>{t('backup.keep.all')}</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium">{t('backup.includeFiles')}</label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t('backup.includeFiles.desc')}</p>
+            </div>
+            <button
+              onClick={() => handleBackupSettingsChange({ includeFiles: !backupSettings.includeFiles })}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${backupSettings.includeFiles ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${backupSettings.includeFiles ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+              />
+            </button>
+          </div>
+
+          <button
+            onClick={handleCreateBackup}
+            disabled={backupBusy !== null}
+            className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50"
+          >
+            {backupBusy === 'create' ? `⏳ ${t('backup.creating')}` : `🛟 ${t('backup.create')}`}
+          </button>
+
+          {/* Existing backups */}
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+            <label className="block text-sm font-medium mb-2">{t('backup.list', { count: backups.length })}</label>
+            {backups.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('backup.none')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {backups.map((backup) => (
+                  <li key={backup.id} className="py-2 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium">
+                        {formatDateTime(backup.createdAt)}
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                          {t(`backup.trigger.${backup.trigger}`)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {t('backup.details', { articles: backup.articles, size: formatFileSize(backup.size) })}
+                        {backup.includesFiles && ` · ${t('backup.withFiles', { count: backup.fileCount - 1 })}`}
+                        {` · v${backup.appVersion}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => handleVerifyBackup(backup)}
+                        disabled={backupBusy !== null}
+                        className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg hover:opacity-80 disabled:opacity-50"
+                      >
+                        {backupBusy === backup.id ? '⏳' : t('backup.verify')}
+                      </button>
+                      <button
+                        onClick={() => handleRestoreBackup(backup)}
+                        disabled={backupBusy !== null}
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+                      >
+                        {t('backup.restore')}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteBackup(backup)}
+                        disabled={backupBusy !== null}
+                        className="px-3 py-1 text-sm bg-red-500 text-white rounded-lg hover:opacity-80 disabled:opacity-50"
+                        title={t('backup.delete')}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </section>
+
       {/* Import/Export Data */}
       <section className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow mb-6">
         <h2 className="text-xl font-semibold mb-4">📦 {t('importExport.title')}</h2>
@@ -624,15 +1072,27 @@ export default function Settings() {
           {/* Export Section */}
           <div>
             <label className="block text-sm font-medium mb-2">{t('importExport.export')}</label>
-            <button
-              onClick={handleExportCSV}
-              disabled={exporting}
-              className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50"
-            >
-              {exporting ? `⏳ ${t('importExport.exporting')}` : `📊 ${t('importExport.exportBtn')}`}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExportCSV}
+                disabled={exporting}
+                className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50"
+              >
+                {exporting ? `⏳ ${t('importExport.exporting')}` : `📊 ${t('importExport.exportBtn')}`}
+              </button>
+              {(Object.keys(INTERCHANGE_FORMATS) as InterchangeFormat[]).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExportFormat(format)}
+                  disabled={exporting}
+                  className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50"
+                >
+                  📚 {t('importExport.exportFormat', { format: INTERCHANGE_FORMATS[format].label })}
+                </button>
+              ))}
+            </div>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              {t('common.currentLibrary')} {articles.length} {t('common.articles')}
+              {t('common.currentLibrary')} {articleCount} {t('common.articles')}
             </p>
           </div>
 
@@ -642,7 +1102,7 @@ export default function Settings() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept={importExtensions}
               onChange={handleImport}
               disabled={importing}
               className="hidden"
@@ -659,7 +1119,7 @@ export default function Settings() {
                 <span className="text-gray-500 dark:text-gray-400">⏳ {t('importExport.importing')}</span>
               ) : (
                 <span className="text-blue-600 dark:text-blue-400">
-                  📂 {t('importExport.selectFile')}
+                  📂 {t('importExport.selectAnyFile', { formats: importExtensions })}
                 </span>
               )}
             </label>
@@ -677,6 +1137,51 @@ export default function Settings() {
               {CSV_COLUMNS.join(', ')}
             </div>
           </details>
+
+          {/* Full library (JSON) */}
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+            <label className="block text-sm font-medium mb-2">{t('libraryJson.title')}</label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              {t('libraryJson.description')}
+            </p>
+            <button
+              onClick={handleExportJSON}
+              disabled={jsonExporting}
+              className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50 mb-3"
+            >
+              {jsonExporting ? `⏳ ${t('importExport.exporting')}` : `💾 ${t('libraryJson.exportBtn')}`}
+            </button>
+            <div className="flex gap-4 mb-2 text-sm">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="json-import-mode"
+                  checked={jsonImportMode === 'merge'}
+                  onChange={() => setJsonImportMode('merge')}
+                />
+                {t('libraryJson.modeMerge')}
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="json-import-mode"
+                  checked={jsonImportMode === 'replace'}
+                  onChange={() => setJsonImportMode('replace')}
+                />
+                {t('libraryJson.modeReplace')}
+              </label>
+            </div>
+            <button
+              onClick={handleChooseJSON}
+              disabled={jsonImporting}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50"
+            >
+              {jsonImporting ? `⏳ ${t('importExport.importing')}` : `📂 ${t('libraryJson.importBtn')}`}
+            </button>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {jsonImportMode === 'merge' ? t('libraryJson.modeMergeHelp') : t('libraryJson.modeReplaceHelp')}
+            </p>
+          </div>
         </div>
       </section>
 
@@ -699,6 +1204,16 @@ export default function Settings() {
                 <span className="text-red-600 dark:text-red-400">❌ {t('importExport.duplicates')}</span>
                 <span className="font-semibold text-red-600 dark:text-red-400">{importModal.duplicates}</span>
               </div>
+              {importModal.errors.length > 0 && (
+                <details className="py-2">
+                  <summary className="cursor-pointer text-yellow-700 dark:text-yellow-300">
+                    ⚠️ {t('importExport.unreadable', { count: importModal.errors.length })}
+                  </summary>
+                  <ul className="mt-2 text-xs text-gray-600 dark:text-gray-400 list-disc list-inside max-h-32 overflow-y-auto">
+                    {importModal.errors.map((error, i) => <li key={i}>{error}</li>)}
+                  </ul>
+                </details>
+              )}
             </div>
 
             <p className="text-sm text-gray-500 dark:text-gray-400 mb-6 bg-gray-100 dark:bg-gray-700 p-3 rounded">
@@ -726,6 +1241,100 @@ export default function Settings() {
           </div>
         </div>
       )}
+
+      {/* JSON Import Report Modal (dry run) */}
+      {jsonImport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[100]">
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4 text-blue-600 dark:text-blue-400">📊 {t('libraryJson.report')}</h3>
+
+            <div className="space-y-2 mb-4 text-sm">
+              <div className="flex justify-between items-center py-2 border-b border-gray-200 dark:border-gray-700">
+                <span className="text-gray-600 dark:text-gray-400">{t('libraryJson.mode')}</span>
+                <span className="font-semibold">
+                  {jsonImport.report.mode === 'merge' ? t('libraryJson.modeMerge') : t('libraryJson.modeReplace')}
+                </span>
+              </div>
+              {jsonImport.report.exportedAt && (
+                <div className="flex justify-between items-center py-1">
+                  <span className="text-gray-600 dark:text-gray-400">{t('libraryJson.exportedAt')}</span>
+                  <span>{new Date(jsonImport.report.exportedAt).toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-center py-1">
+                <span className="text-gray-600 dark:text-gray-400">{t('importExport.total')}</span>
+                <span className="font-semibold">{jsonImport.report.articles.total}</span>
+              </div>
+              <div className="flex justify-between items-center py-1">
+                <span className="text-green-600 dark:text-green-400">✅ {t('importExport.toImport')}</span>
+                <span className="font-semibold text-green-600 dark:text-green-400">{jsonImport.report.articles.imported}</span>
+              </div>
+              {jsonImport.report.articles.skippedIds.length > 0 && (
+                <div className="py-1">
+                  <div className="flex justify-between items-center">
+                    <span className="text-red-600 dark:text-red-400">❌ {t('libraryJson.skippedIds')}</span>
+                    <span className="font-semibold text-red-600 dark:text-red-400">{jsonImport.report.articles.skippedIds.length}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 font-mono break-words mt-1">
+                    {jsonImport.report.articles.skippedIds.join(', ')}
+                  </p>
+                </div>
+              )}
+              {Object.entries(jsonImport.report.entities).map(([entity, counts]) => (
+                <div key={entity} className="flex justify-between items-center py-1">
+                  <span className="text-gray-600 dark:text-gray-400">{entity}</span>
+                  <span>{t('libraryJson.entityCounts', { created: counts.created, matched: counts.matched })}</span>
+                </div>
+              ))}
+              <div className="flex justify-between items-center py-1">
+                <span className="text-gray-600 dark:text-gray-400">{t('libraryJson.relations')}</span>
+                <span>{jsonImport.report.relations}</span>
+              </div>
+              {Object.entries(jsonImport.report.records).filter(([, count]) => count > 0).map(([table, count]) => (
+                <div key={table} className="flex justify-between items-center py-1">
+                  <span className="text-gray-600 dark:text-gray-400">{table}</span>
+                  <span>{count}</span>
+                </div>
+              ))}
+              <div className="flex justify-between items-center py-1">
+                <span className="text-gray-600 dark:text-gray-400">{t('libraryJson.nextId')}</span>
+                <span className="font-mono">{String(jsonImport.report.nextArticleId).padStart(4, '0')}</span>
+              </div>
+            </div>
+
+            {jsonImport.report.mode === 'replace' && (
+              <p className="text-sm text-red-700 dark:text-red-300 mb-4 bg-red-50 dark:bg-red-900 p-3 rounded">
+                ⚠️ {t('libraryJson.replaceWarning')}
+              </p>
+            )}
+
+            {jsonImport.report.warnings.length > 0 && (
+              <ul className="text-xs text-yellow-800 dark:text-yellow-200 mb-4 bg-yellow-50 dark:bg-yellow-900 p-3 rounded list-disc list-inside">
+                {jsonImport.report.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+              </ul>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <button
+                type="button"
+                onClick={() => setJsonImport(null)}
+                disabled={jsonImporting}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-white rounded-lg hover:opacity-80 disabled:opacity-50"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={confirmImportJSON}
+                disabled={jsonImporting || (jsonImport.report.mode === 'merge' && jsonImport.report.articles.imported === 0)}
+                className={`px-4 py-2 text-white rounded-lg hover:opacity-90 disabled:opacity-50 ${jsonImport.report.mode === 'replace' ? 'bg-red-600' : 'bg-blue-600'}`}
+              >
+                {jsonImporting ? `⏳ ${t('importExport.importing')}` : t('importExport.importBtn', { count: jsonImport.report.articles.imported })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
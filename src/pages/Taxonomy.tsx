@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { taxonomyApi } from '../services/api';
+import { EntityType, TaxonomyEntity } from '../types/taxonomy';
+
+// Tabs, with the article field each entity table fills (for labels)
+const ENTITY_TABS: Array<{ type: EntityType; field: string }> = [
+  { type: 'Author', field: 'authors' },
+  { type: 'Keyword', field: 'keywords' },
+  { type: 'Subject', field: 'subjects' },
+  { type: 'Tag', field: 'tags' },
+  { type: 'University', field: 'universities' },
+  { type: 'Company', field: 'companies' },
+];
+
+export default function Taxonomy() {
+  const { t } = useTranslation();
+
+  const [entityType, setEntityType] = useState<EntityType>('Author');
+  const [entities, setEntities] = useState<TaxonomyEntity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [filterText, setFilterText] = useState('');
+  const [unusedOnly, setUnusedOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  // Inline editing
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [aliasInputs, setAliasInputs] = useState<Record<number, string>>({});
+
+  // Modals
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+  const [showDeleteUnused, setShowDeleteUnused] = useState(false);
+
+  const loadEntities = async (type: EntityType) => {
+    setLoading(true);
+    try {
+      setEntities(await taxonomyApi.list(type));
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setRenamingId(null);
+    loadEntities(entityType);
+  }, [entityType]);
+
+  const showError = (error: any) => {
+    setMessage({ type: 'error', text: `⚠️ ${error.message}` });
+    setTimeout(() => setMessage(null), 5000);
+  };
+
+  const showSuccess = (text: string) => {
+    setMessage({ type: 'success', text: `✅ ${text}` });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  // Run a change, then reload the list
+  const runAndReload = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      await loadEntities(entityType);
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const filteredEntities = entities.filter((entity) => {
+    if (unusedOnly && entity.usageCount > 0) return false;
+    const query = filterText.trim().toLowerCase();
+    if (!query) return true;
+    return entity.name.toLowerCase().includes(query) || entity.aliases.some((alias) => alias.toLowerCase().includes(query));
+  });
+
+  const selectedEntities = entities.filter((entity) => selectedIds.has(entity.id));
+  const unusedCount = (selectedIds.size > 0 ? selectedEntities : entities).filter((entity) => entity.usageCount === 0).length;
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    const allSelected = filteredEntities.length > 0 && filteredEntities.every((entity) => selectedIds.has(entity.id));
+    setSelectedIds(allSelected ? new Set() : new Set(filteredEntities.map((entity) => entity.id)));
+  };
+
+  const handleRename = (entity: TaxonomyEntity) =>
+    runAndReload(async () => {
+      await taxonomyApi.rename(entityType, entity.id, renameValue);
+      setRenamingId(null);
+      showSuccess(t('taxonomy.renamed'));
+    });
+
+  const handleAddAlias = (entity: TaxonomyEntity) =>
+    runAndReload(async () => {
+      const alias = (aliasInputs[entity.id] || '').trim();
+      if (!alias) return;
+      await taxonomyApi.addAlias(entityType, entity.id, alias);
+      setAliasInputs((prev) => ({ ...prev, [entity.id]: '' }));
+    });
+
+  const handleRemoveAlias = (alias: string) => runAndReload(() => taxonomyApi.removeAlias(entityType, alias));
+
+  // Most used entry is the default target
+  const openMerge = () => {
+    const target = [...selectedEntities].sort((a, b) => b.usageCount - a.usageCount)[0];
+    setMergeTargetId(target ? target.id : null);
+    setShowMerge(true);
+  };
+
+  const handleMerge = () =>
+    runAndReload(async () => {
+      if (mergeTargetId === null) return;
+      await taxonomyApi.merge(entityType, Array.from(selectedIds), mergeTargetId);
+      setShowMerge(false);
+      setSelectedIds(new Set());
+      showSuccess(t('taxonomy.merged', { count: selectedIds.size }));
+    });
+
+  const handleDeleteUnused = () =>
+    runAndReload(async () => {
+      const deleted = await taxonomyApi.deleteUnused(entityType, selectedIds.size > 0 ? Array.from(selectedIds) : undefined);
+      setShowDeleteUnused(false);
+      setSelectedIds(new Set());
+      showSuccess(t('taxonomy.deleted', { count: deleted }));
+    });
+
+  const currentTab = ENTITY_TABS.find((tab) => tab.type === entityType) as { type: EntityType; field: string };
+
+  return (
+    <div className="p-8">
+      <h1 className="text-3xl font-bold mb-2">🏷️ {t('taxonomy.title')}</h1>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{t('taxonomy.description')}</p>
+
+      {message && (
+        <div
+          className={`mb-6 p-4 rounded-lg ${message.type === 'success'
+            ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100'
+            : 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100'
+            }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Entity tabs */}
+      <div className="flex gap-2 mb-4 flex-wrap">
+        {ENTITY_TABS.map((tab) => (
+          <button
+            key={tab.type}
+            onClick={() => setEntityType(tab.type)}
+            className={`px-4 py-2 rounded-lg text-sm ${entityType === tab.type
+              ? 'bg-blue-600 text-white'
+              : 'bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+          >
+            {t(`field.${tab.field}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* Toolbar */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow mb-4 flex items-center gap-4 flex-wrap">
+        <input
+          type="text"
+          value={filterText}
+          onChange={(e) => setFilterText(e.target.value)}
+          placeholder={t('taxonomy.filter')}
+          className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+        />
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input type="checkbox" checked={unusedOnly} onChange={(e) => setUnusedOnly(e.target.checked)} />
+          {t('taxonomy.unusedOnly')}
+        </label>
+        <button
+          onClick={openMerge}
+          disabled={selectedIds.size < 2}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          🔗 {t('taxonomy.mergeSelected', { count: selectedIds.size })}
+        </button>
+        <button
+          onClick={() => setShowDeleteUnused(true)}
+          disabled={unusedCount === 0}
+          className="px-4 py-2 bg-red-500 text-white rounded-lg text-sm hover:bg-red-600 disabled:opacity-50"
+        >
+          🗑️ {t('taxonomy.deleteUnused', { count: unusedCount })}
+        </button>
+      </div>
+
+      {/* Entity list */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="p-3 w-10">
+                <input
+                  type="checkbox"
+                  checked={filteredEntities.length > 0 && filteredEntities.every((entity) => selectedIds.has(entity.id))}
+                  onChange={toggleAll}
+                />
+              </th>
+              <th className="p-3 text-left">{t(`field.${currentTab.field}`)}</th>
+              <th className="p-3 text-right w-24">{t('taxonomy.usage')}</th>
+              <th className="p-3 text-left">{t('taxonomy.aliases')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading && (
+              <tr>
+                <td colSpan={4} className="p-6 text-center text-gray-500 dark:text-gray-400">{t('common.loading')}</td>
+              </tr>
+            )}
+            {!loading && filteredEntities.length === 0 && (
+              <tr>
+                <td colSpan={4} className="p-6 text-center text-gray-500 dark:text-gray-400">{t('taxonomy.empty')}</td>
+              </tr>
+            )}
+            {!loading && filteredEntities.map((entity) => (
+              <tr key={entity.id} className="border-t border-gray-100 dark:border-gray-700 align-top">
+                <td className="p-3 text-center">
+                  <input type="checkbox" checked={selectedIds.has(entity.id)} onChange={() => toggleSelected(entity.id)} />
+                </td>
+                <td className="p-3">
+                  {renamingId === entity.id ? (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={renameValue}
+                        autoFocus
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(entity);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded"
+                      />
+                      <button onClick={() => handleRename(entity)} className="px-2 py-1 bg-green-600 text-white rounded">
+                        {t('common.save')}
+                      </button>
+                      <button onClick={() => setRenamingId(null)} className="px-2 py-1 bg-gray-200 dark:bg-gray-600 rounded">
+                        {t('common.cancel')}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 group">
+                      <span className={entity.usageCount === 0 ? 'text-gray-400 italic' : ''}>{entity.name}</span>
+                      <button
+                        onClick={() => {
+                          setRenamingId(entity.id);
+                          setRenameValue(entity.name);
+                        }}
+                        title={t('taxonomy.rename')}
+                        className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-blue-600"
+                      >
+                        ✏️
+                      </button>
+                    </div>
+                  )}
+                </td>
+                <td className="p-3 text-right">{entity.usageCount}</td>
+                <td className="p-3">
+                  <div className="flex flex-wrap items-center gap-1">
+                    {entity.aliases.map((alias) => (
+                      <span
+                        key={alias}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-xs"
+                      >
+                        {alias}
+                        <button
+                          onClick={() => handleRemoveAlias(alias)}
+                          title={t('common.remove')}
+                          className="text-gray-500 hover:text-red-600"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    <input
+                      type="text"
+                      value={aliasInputs[entity.id] || ''}
+                      onChange={(e) => setAliasInputs((prev) => ({ ...prev, [entity.id]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleAddAlias(entity);
+                      }}
+                      placeholder={t('taxonomy.addAlias')}
+                      className="w-32 px-2 py-0.5 text-xs border border-transparent hover:border-gray-300 focus:border-gray-300 dark:hover:border-gray-600 dark:focus:border-gray-600 bg-transparent rounded"
+                    />
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Merge Modal */}
+      {showMerge && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => setShowMerge(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-2">🔗 {t('taxonomy.mergeTitle')}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t('taxonomy.mergeDescription')}</p>
+
+            <div className="space-y-2 mb-6 max-h-64 overflow-y-auto">
+              {selectedEntities.map((entity) => (
+                <label key={entity.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="mergeTarget"
+                    checked={mergeTargetId === entity.id}
+                    onChange={() => setMergeTargetId(entity.id)}
+                  />
+                  <span className="flex-1">{entity.name}</span>
+                  <span className="text-gray-500 dark:text-gray-400">{entity.usageCount}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowMerge(false)}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleMerge}
+                disabled={mergeTargetId === null}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {t('taxonomy.merge')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Unused Modal */}
+      {showDeleteUnused && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={() => setShowDeleteUnused(false)}
+        >
+          <div
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-xl font-bold mb-2">🗑️ {t('taxonomy.deleteUnusedTitle')}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+              {t('taxonomy.deleteUnusedConfirm', { count: unusedCount })}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowDeleteUnused(false)}
+                className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleDeleteUnused}
+                className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600"
+              >
+                {t('common.delete')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useArticlesStore } from '../store/articles';
+import { useTranslation } from '../hooks/useTranslation';
+import { articlesApi } from '../services/api';
+import { formatDateTime } from '../utils/text';
+import { TrashedArticle } from '../types/revision';
+
+export default function Trash() {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const addArticle = useArticlesStore((state) => state.addArticle);
+
+  const [trashed, setTrashed] = useState<TrashedArticle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null); // ID being restored or purged, 'all' while emptying
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string; articleId?: string } | null>(null);
+
+  const loadTrash = async () => {
+    setLoading(true);
+    try {
+      setTrashed(await articlesApi.trash());
+    } catch (error) {
+      setMessage({ type: 'error', text: t('trash.loadFailed') + ': ' + (error as Error).message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  // SQLite datetime('now') is UTC without a zone
+  const formatTrashDate = (date: string) => formatDateTime(date.replace(' ', 'T') + 'Z');
+
+  const handleRestore = async (item: TrashedArticle) => {
+    setBusy(item.id);
+    setMessage(null);
+    try {
+      const article = await articlesApi.undelete(item.id);
+      addArticle(article);
+      setTrashed((previous) => previous.filter((other) => other.id !== item.id));
+      setMessage({ type: 'success', text: t('trash.restored', { id: item.id }), articleId: item.id });
+    } catch (error) {
+      setMessage({ type: 'error', text: t('trash.restoreFailed') + ': ' + (error as Error).message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashedArticle) => {
+    if (!window.confirm(t('trash.purgeConfirm', { id: item.id, title: item.title }))) return;
+
+    setBusy(item.id);
+    setMessage(null);
+    try {
+      await articlesApi.purge([item.id]);
+      setTrashed((previous) => previous.filter((other) => other.id !== item.id));
+      setMessage({ type: 'success', text: t('trash.purged', { id: item.id }) });
+    } catch (error) {
+      setMessage({ type: 'error', text: t('trash.purgeFailed') + ': ' + (error as Error).message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!window.confirm(t('trash.emptyConfirm', { count: trashed.length }))) return;
+
+    setBusy('all');
+    setMessage(null);
+    try {
+      const count = await articlesApi.emptyTrash();
+      setTrashed([]);
+      setMessage({ type: 'success', text: t('trash.emptied', { count }) });
+    } catch (error) {
+      setMessage({ type: 'error', text: t('trash.purgeFailed') + ': ' + (error as Error).message });
+      await loadTrash();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-3xl font-bold">🗑️ {t('trash.title')}</h1>
+        {trashed.length > 0 && (
+          <button
+            onClick={handleEmpty}
+            disabled={busy !== null}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50"
+          >
+            {busy === 'all' ? t('trash.emptying') : t('trash.empty.button')}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{t('trash.description')}</p>
+
+      {message && (
+        <div className={`mb-6 p-4 rounded-lg flex items-center gap-3 ${message.type === 'success'
+          ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100'
+          : 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100'}`}
+        >
+          <span className="flex-1">{message.text}</span>
+          {message.articleId && (
+            <button
+              onClick={() => navigate(`/article/${message.articleId}`)}
+              className="px-3 py-1 text-sm bg-white/60 dark:bg-black/20 rounded hover:bg-white dark:hover:bg-black/40"
+            >
+              {t('trash.open')}
+            </button>
+          )}
+          <button onClick={() => setMessage(null)} className="text-xl font-bold">×</button>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-gray-500">{t('common.loading')}</p>
+      ) : trashed.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow text-center text-gray-500">
+          {t('trash.empty')}
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700">
+          {trashed.map((item) => (
+            <div key={item.id} className="flex items-center gap-4 p-4">
+              <span className="font-mono text-sm text-gray-500">{item.id}</span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{item.title}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {item.authors.join(', ')} ({item.year}) · {t('trash.deletedAt', { date: formatTrashDate(item.deletedAt) })}
+                  {item.purgeAt && <> · {t('trash.purgeAt', { date: formatTrashDate(item.purgeAt) })}</>}
+                </p>
+              </div>
+              <span className={`text-sm ${item.hasPdf ? '' : 'opacity-30'}`} title={t(item.hasPdf ? 'trash.pdfKept' : 'trash.noPdf')}>📄</span>
+              <span className={`text-sm ${item.hasNote ? '' : 'opacity-30'}`} title={t(item.hasNote ? 'trash.noteKept' : 'trash.noNote')}>📝</span>
+              <button
+                onClick={() => handleRestore(item)}
+                disabled={busy !== null}
+                className="px-3 py-1 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                ↩️ {busy === item.id ? t('common.loading') : t('trash.restore')}
+              </button>
+              <button
+                onClick={() => handlePurge(item)}
+                disabled={busy !== null}
+                className="px-3 py-1 border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg text-sm hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+              >
+                {t('trash.purge')}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
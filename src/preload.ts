@@ -5,7 +5,21 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
-import { Article, ArticleFormData } from './types/article';
+import { Article, ArticleFormData, BulkArticleUpdate, NoteGenerationResult } from './types/article';
+import { ArticleSearchOptions, ArticleSearchResult, QueryAnalysis, StructuredSearchResult } from './types/search';
+import { ArticleMergeRequest, DuplicateCandidate } from './types/duplicates';
+import { ImportParseResult } from './types/interchange';
+import { BibliographyFormat, CitationStyle, FormattedCitation } from './types/citation';
+import { MetadataResolverSettings, ResolvedMetadata } from './types/metadata';
+import { EntityType, TaxonomyEntity } from './types/taxonomy';
+import { BundleExportResult, Collection, CollectionUpdate } from './types/collection';
+import { ArticleQueryRequest, ArticleQueryResult, SavedView } from './types/query';
+import { LibraryExportResult, LibraryImportOptions, LibraryImportReport } from './types/database';
+import { Annotation, AnnotationDigestFormat, AnnotationInput, AnnotationUpdate } from './types/annotation';
+import { ArticleRelation, ArticleRelations, RelationDetectionReport, RelationGraph, RelationType } from './types/relation';
+import { ArticleReferences } from './types/reference';
+import { ArticleRevision, TrashedArticle } from './types/revision';
+import { BackupInfo, BackupSettings, BackupVerification } from './types/backup';
 
 // Define the API that will be exposed to the renderer
 const electronAPI = {
@@ -13,9 +27,23 @@ const electronAPI = {
   articles: {
     getAll: (): Promise<Article[]> => ipcRenderer.invoke('articles:getAll'),
     getById: (id: string): Promise<Article | null> => ipcRenderer.invoke('articles:getById', id),
+    getByIds: (ids: string[]): Promise<Article[]> => ipcRenderer.invoke('articles:getByIds', ids),
+    findByTitles: (titles: string[]): Promise<Article[]> => ipcRenderer.invoke('articles:findByTitles', titles),
+    query: (request: ArticleQueryRequest): Promise<ArticleQueryResult> => ipcRenderer.invoke('articles:query', request),
     create: (formData: ArticleFormData): Promise<Article> => ipcRenderer.invoke('articles:create', formData),
     update: (id: string, formData: Partial<ArticleFormData>): Promise<Article> => ipcRenderer.invoke('articles:update', id, formData),
     delete: (id: string): Promise<void> => ipcRenderer.invoke('articles:delete', id),
+    bulkUpdate: (ids: string[], changes: BulkArticleUpdate): Promise<Article[]> => ipcRenderer.invoke('articles:bulkUpdate', ids, changes),
+    deleteMany: (ids: string[]): Promise<void> => ipcRenderer.invoke('articles:deleteMany', ids),
+    trash: (): Promise<TrashedArticle[]> => ipcRenderer.invoke('articles:trash'),
+    undelete: (id: string): Promise<Article> => ipcRenderer.invoke('articles:undelete', id),
+    purge: (ids: string[]): Promise<void> => ipcRenderer.invoke('articles:purge', ids),
+    emptyTrash: (): Promise<number> => ipcRenderer.invoke('articles:emptyTrash'),
+    search: (query: string, options?: ArticleSearchOptions): Promise<ArticleSearchResult[]> => ipcRenderer.invoke('articles:search', query, options),
+    structuredSearch: (query: string): Promise<StructuredSearchResult> => ipcRenderer.invoke('articles:structuredSearch', query),
+    analyzeQuery: (query: string, cursor: number): Promise<QueryAnalysis> => ipcRenderer.invoke('articles:analyzeQuery', query, cursor),
+    findDuplicates: (): Promise<DuplicateCandidate[]> => ipcRenderer.invoke('articles:findDuplicates'),
+    merge: (request: ArticleMergeRequest): Promise<Article> => ipcRenderer.invoke('articles:merge', request),
   },
 
   // File operations
@@ -27,6 +55,14 @@ const electronAPI = {
     getPdfBase64: (articleId: string): Promise<string | null> => ipcRenderer.invoke('files:getPdfBase64', articleId),
     openNote: (articleId: string): Promise<void> => ipcRenderer.invoke('files:openNote', articleId),
     generateNote: (article: Article): Promise<void> => ipcRenderer.invoke('files:generateNote', article),
+    generateNotes: (articles: Article[]): Promise<NoteGenerationResult> => ipcRenderer.invoke('files:generateNotes', articles),
+    exportBundle: (name: string, articles: Article[], style: CitationStyle): Promise<BundleExportResult | null> =>
+      ipcRenderer.invoke('files:exportBundle', name, articles, style),
+    importPdfAnnotations: (articleId: string): Promise<number> => ipcRenderer.invoke('files:importPdfAnnotations', articleId),
+    exportAnnotatedPdf: (articleId: string): Promise<string | null> => ipcRenderer.invoke('files:exportAnnotatedPdf', articleId),
+    extractReferences: (articleId: string): Promise<ArticleReferences> => ipcRenderer.invoke('files:extractReferences', articleId),
+    exportAnnotationDigest: (articleId: string, format: AnnotationDigestFormat): Promise<string | null> =>
+      ipcRenderer.invoke('files:exportAnnotationDigest', articleId, format),
     openUrl: (url: string): Promise<void> => ipcRenderer.invoke('files:openUrl', url),
     migrateFileNames: (): Promise<{success: boolean; migratedPdfs: number; migratedNotes: number; totalArticles: number; errors?: string[]}> =>
       ipcRenderer.invoke('files:migrateFileNames'),
@@ -42,8 +78,114 @@ const electronAPI = {
   database: {
     getStats: (): Promise<any> => ipcRenderer.invoke('database:getStats'),
     optimize: (): Promise<void> => ipcRenderer.invoke('database:optimize'),
-    export: (path: string): Promise<void> => ipcRenderer.invoke('database:export', path),
-    import: (path: string): Promise<void> => ipcRenderer.invoke('database:import', path),
+    export: (path: string): Promise<LibraryExportResult> => ipcRenderer.invoke('database:export', path),
+    import: (path: string, options: LibraryImportOptions): Promise<LibraryImportReport> => ipcRenderer.invoke('database:import', path, options),
+    chooseExportFile: (): Promise<string | null> => ipcRenderer.invoke('database:chooseExportFile'),
+    chooseImportFile: (): Promise<string | null> => ipcRenderer.invoke('database:chooseImportFile'),
+  },
+
+  // Bibliographic import (parse file content into form data)
+  import: {
+    bibtex: (content: string): Promise<ImportParseResult> => ipcRenderer.invoke('import:bibtex', content),
+    ris: (content: string): Promise<ImportParseResult> => ipcRenderer.invoke('import:ris', content),
+    csl: (content: string): Promise<ImportParseResult> => ipcRenderer.invoke('import:csl', content),
+  },
+
+  // Bibliographic export (returns file content)
+  export: {
+    bibtex: (articles: Article[]): Promise<string> => ipcRenderer.invoke('export:bibtex', articles),
+    ris: (articles: Article[]): Promise<string> => ipcRenderer.invoke('export:ris', articles),
+    csl: (articles: Article[]): Promise<string> => ipcRenderer.invoke('export:csl', articles),
+  },
+
+  // Formatted citations (APA, MLA, Chicago, IEEE, Harvard)
+  citations: {
+    format: (article: Article, style: CitationStyle): Promise<FormattedCitation> =>
+      ipcRenderer.invoke('citations:format', article, style),
+    bibliography: (articles: Article[], style: CitationStyle, format: BibliographyFormat): Promise<string | Uint8Array> =>
+      ipcRenderer.invoke('citations:bibliography', articles, style, format),
+  },
+
+  // Online metadata lookup (Crossref, DataCite)
+  metadata: {
+    resolve: (identifier: string): Promise<ResolvedMetadata> => ipcRenderer.invoke('metadata:resolve', identifier),
+    getSettings: (): Promise<MetadataResolverSettings> => ipcRenderer.invoke('metadata:getSettings'),
+    updateSettings: (settings: Partial<MetadataResolverSettings>): Promise<MetadataResolverSettings> =>
+      ipcRenderer.invoke('metadata:updateSettings', settings),
+  },
+
+  // Entity tables (authors, keywords, subjects, tags, universities, companies)
+  taxonomy: {
+    list: (type: EntityType): Promise<TaxonomyEntity[]> => ipcRenderer.invoke('taxonomy:list', type),
+    rename: (type: EntityType, id: number, name: string): Promise<void> => ipcRenderer.invoke('taxonomy:rename', type, id, name),
+    merge: (type: EntityType, sourceIds: number[], targetId: number): Promise<void> =>
+      ipcRenderer.invoke('taxonomy:merge', type, sourceIds, targetId),
+    deleteUnused: (type: EntityType, ids?: number[]): Promise<number> => ipcRenderer.invoke('taxonomy:deleteUnused', type, ids),
+    addAlias: (type: EntityType, id: number, alias: string): Promise<void> => ipcRenderer.invoke('taxonomy:addAlias', type, id, alias),
+    removeAlias: (type: EntityType, alias: string): Promise<void> => ipcRenderer.invoke('taxonomy:removeAlias', type, alias),
+  },
+
+  // Collections (reading lists)
+  collections: {
+    list: (): Promise<Collection[]> => ipcRenderer.invoke('collections:list'),
+    create: (name: string, parentId: number | null): Promise<Collection> => ipcRenderer.invoke('collections:create', name, parentId),
+    update: (id: number, changes: CollectionUpdate): Promise<Collection> => ipcRenderer.invoke('collections:update', id, changes),
+    move: (id: number, parentId: number | null, position: number): Promise<void> =>
+      ipcRenderer.invoke('collections:move', id, parentId, position),
+    delete: (id: number): Promise<void> => ipcRenderer.invoke('collections:delete', id),
+    addArticles: (id: number, articleIds: string[]): Promise<Collection> => ipcRenderer.invoke('collections:addArticles', id, articleIds),
+    removeArticles: (id: number, articleIds: string[]): Promise<Collection> =>
+      ipcRenderer.invoke('collections:removeArticles', id, articleIds),
+    reorderArticles: (id: number, articleIds: string[]): Promise<Collection> =>
+      ipcRenderer.invoke('collections:reorderArticles', id, articleIds),
+  },
+
+  // Saved views (named Library queries)
+  savedViews: {
+    list: (): Promise<SavedView[]> => ipcRenderer.invoke('savedViews:list'),
+    create: (name: string, query: string): Promise<SavedView> => ipcRenderer.invoke('savedViews:create', name, query),
+    update: (id: number, changes: { name?: string; query?: string }): Promise<SavedView> =>
+      ipcRenderer.invoke('savedViews:update', id, changes),
+    delete: (id: number): Promise<void> => ipcRenderer.invoke('savedViews:delete', id),
+    reorder: (ids: number[]): Promise<void> => ipcRenderer.invoke('savedViews:reorder', ids),
+  },
+
+  // PDF annotations (integrated reader)
+  annotations: {
+    list: (articleId: string): Promise<Annotation[]> => ipcRenderer.invoke('annotations:list', articleId),
+    create: (articleId: string, input: AnnotationInput): Promise<Annotation> =>
+      ipcRenderer.invoke('annotations:create', articleId, input),
+    update: (id: number, changes: AnnotationUpdate): Promise<Annotation> => ipcRenderer.invoke('annotations:update', id, changes),
+    delete: (id: number): Promise<void> => ipcRenderer.invoke('annotations:delete', id),
+  },
+
+  // Typed relations between articles and the citation graph
+  relations: {
+    list: (articleId: string): Promise<ArticleRelations> => ipcRenderer.invoke('relations:list', articleId),
+    add: (fromId: string, toId: string, type: RelationType, note?: string): Promise<ArticleRelation> =>
+      ipcRenderer.invoke('relations:add', fromId, toId, type, note),
+    delete: (id: number): Promise<void> => ipcRenderer.invoke('relations:delete', id),
+    graph: (collectionId: number | null): Promise<RelationGraph> => ipcRenderer.invoke('relations:graph', collectionId),
+    detect: (articleId: string): Promise<RelationDetectionReport> => ipcRenderer.invoke('relations:detect', articleId),
+    detectAll: (): Promise<RelationDetectionReport> => ipcRenderer.invoke('relations:detectAll'),
+  },
+
+  // Edit history of articles
+  revisions: {
+    list: (articleId: string): Promise<ArticleRevision[]> => ipcRenderer.invoke('revisions:list', articleId),
+    restore: (revisionId: number): Promise<Article> => ipcRenderer.invoke('revisions:restore', revisionId),
+  },
+
+  // Backups of the library
+  backups: {
+    list: (): Promise<BackupInfo[]> => ipcRenderer.invoke('backups:list'),
+    create: (): Promise<BackupInfo> => ipcRenderer.invoke('backups:create'),
+    verify: (id: string): Promise<BackupVerification> => ipcRenderer.invoke('backups:verify', id),
+    delete: (id: string): Promise<{success: boolean}> => ipcRenderer.invoke('backups:delete', id),
+    restore: (id: string): Promise<{success: boolean}> => ipcRenderer.invoke('backups:restore', id),
+    getSettings: (): Promise<BackupSettings> => ipcRenderer.invoke('backups:getSettings'),
+    updateSettings: (settings: Partial<BackupSettings>): Promise<BackupSettings> =>
+      ipcRenderer.invoke('backups:updateSettings', settings),
   },
 
   // Storage operations
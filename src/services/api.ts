@@ -3,7 +3,21 @@
  * This file communicates with the main process via IPC bridge
  */
 
-import { Article, ArticleFormData } from '../types/article';
+import { Article, ArticleFormData, BulkArticleUpdate, NoteGenerationResult } from '../types/article';
+import { ArticleSearchOptions, ArticleSearchResult, QueryAnalysis, StructuredSearchResult } from '../types/search';
+import { ArticleMergeRequest, DuplicateCandidate } from '../types/duplicates';
+import { ImportParseResult, InterchangeFormat } from '../types/interchange';
+import { BibliographyFormat, CitationStyle, FormattedCitation } from '../types/citation';
+import { MetadataResolverSettings, ResolvedMetadata } from '../types/metadata';
+import { EntityType, TaxonomyEntity } from '../types/taxonomy';
+import { BundleExportResult, Collection, CollectionUpdate } from '../types/collection';
+import { ArticleQueryRequest, ArticleQueryResult, SavedView } from '../types/query';
+import { LibraryExportResult, LibraryImportOptions, LibraryImportReport } from '../types/database';
+import { Annotation, AnnotationDigestFormat, AnnotationInput, AnnotationUpdate } from '../types/annotation';
+import { ArticleRelation, ArticleRelations, RelationDetectionReport, RelationGraph, RelationType } from '../types/relation';
+import { ArticleReferences } from '../types/reference';
+import { ArticleRevision, TrashedArticle } from '../types/revision';
+import { BackupInfo, BackupSettings, BackupVerification } from '../types/backup';
 
 // Access the electronAPI exposed by preload script
 const { electronAPI } = window;
@@ -19,6 +33,21 @@ export const articlesApi = {
     return electronAPI.articles.getById(id);
   },
 
+  // Several articles, in the order of the IDs
+  async getByIds(ids: string[]): Promise<Article[]> {
+    return electronAPI.articles.getByIds(ids);
+  },
+
+  // Articles with one of these titles (case ignored), for the duplicate check of imports
+  async findByTitles(titles: string[]): Promise<Article[]> {
+    return electronAPI.articles.findByTitles(titles);
+  },
+
+  // One page of the Library (filters, sort, cursor), with the total and facet counts
+  async query(request: ArticleQueryRequest): Promise<ArticleQueryResult> {
+    return electronAPI.articles.query(request);
+  },
+
   // Create new article
   async create(formData: ArticleFormData): Promise<Article> {
     return electronAPI.articles.create(formData);
@@ -29,11 +58,66 @@ export const articlesApi = {
     return electronAPI.articles.update(id, formData);
   },
 
-  // Delete article
+  // Move an article to the trash
   async delete(id: string): Promise<void> {
     return electronAPI.articles.delete(id);
   },
 
+  // Same change on many articles, in one transaction (returns the updated articles)
+  async bulkUpdate(ids: string[], changes: BulkArticleUpdate): Promise<Article[]> {
+    return electronAPI.articles.bulkUpdate(ids, changes);
+  },
+
+  // Move several articles to the trash
+  async deleteMany(ids: string[]): Promise<void> {
+    return electronAPI.articles.deleteMany(ids);
+  },
+
+  // Articles in the trash, most recently deleted first
+  async trash(): Promise<TrashedArticle[]> {
+    return electronAPI.articles.trash();
+  },
+
+  // Bring an article back from the trash, with its PDF and Note
+  async undelete(id: string): Promise<Article> {
+    return electronAPI.articles.undelete(id);
+  },
+
+  // Delete trashed articles for good
+  async purge(ids: string[]): Promise<void> {
+    return electronAPI.articles.purge(ids);
+  },
+
+  // Delete every article in the trash for good (returns how many)
+  async emptyTrash(): Promise<number> {
+    return electronAPI.articles.emptyTrash();
+  },
+
+  // Full-text search (article fields + PDF text), best matches first
+  async search(query: string, options?: ArticleSearchOptions): Promise<ArticleSearchResult[]> {
+    return electronAPI.articles.search(query, options);
+  },
+
+  // Search bar query language (fields, ranges, flags, OR, negation), evaluated in the main process
+  async structuredSearch(query: string): Promise<StructuredSearchResult> {
+    return electronAPI.articles.structuredSearch(query);
+  },
+
+  // Syntax errors and autocomplete suggestions at the cursor
+  async analyzeQuery(query: string, cursor: number): Promise<QueryAnalysis> {
+    return electronAPI.articles.analyzeQuery(query, cursor);
+  },
+
+  // Likely duplicate pairs, most certain first
+  async findDuplicates(): Promise<DuplicateCandidate[]> {
+    return electronAPI.articles.findDuplicates();
+  },
+
+  // Merge a duplicate into another article (returns the kept article)
+  async merge(request: ArticleMergeRequest): Promise<Article> {
+    return electronAPI.articles.merge(request);
+  },
+
   // Upload PDF
   // Now requires articleTitle for file naming: "{id} - {title}.pdf"
   async uploadPdf(articleId: string, articleTitle: string, file: File): Promise<string> {
@@ -47,6 +131,11 @@ export const articlesApi = {
     return electronAPI.files.generateNote(article);
   },
 
+  // Generate the notes of several articles in one call
+  async generateNotes(articles: Article[]): Promise<NoteGenerationResult> {
+    return electronAPI.files.generateNotes(articles);
+  },
+
   // Open PDF with system default application
   async openPdf(articleId: string): Promise<void> {
     return electronAPI.files.openPdf(articleId);
@@ -90,4 +179,275 @@ export const databaseApi = {
   async optimize(): Promise<void> {
     return electronAPI.database.optimize();
   },
+
+  // Export the whole library to a JSON file (asks where to save)
+  async exportLibrary(): Promise<LibraryExportResult | null> {
+    const path = await electronAPI.database.chooseExportFile();
+    if (!path) return null;
+    return electronAPI.database.export(path);
+  },
+
+  // Pick a JSON library file to import
+  async chooseImportFile(): Promise<string | null> {
+    return electronAPI.database.chooseImportFile();
+  },
+
+  // Import a JSON library file (dryRun only returns the report)
+  async importLibrary(path: string, options: LibraryImportOptions): Promise<LibraryImportReport> {
+    return electronAPI.database.import(path, options);
+  },
+};
+
+export const interchangeApi = {
+  // Convert articles to a bibliographic format (returns the file content)
+  async exportArticles(format: InterchangeFormat, articles: Article[]): Promise<string> {
+    return electronAPI.export[format](articles);
+  },
+
+  // Parse a bibliographic file into article form data
+  async parseImport(format: InterchangeFormat, content: string): Promise<ImportParseResult> {
+    return electronAPI.import[format](content);
+  },
+};
+
+export const citationsApi = {
+  // Format one article in a citation style (plain text and HTML)
+  async format(article: Article, style: CitationStyle): Promise<FormattedCitation> {
+    return electronAPI.citations.format(article, style);
+  },
+
+  // Build a bibliography file (string for text/HTML, bytes for .docx)
+  async bibliography(articles: Article[], style: CitationStyle, format: BibliographyFormat): Promise<string | Uint8Array> {
+    return electronAPI.citations.bibliography(articles, style, format);
+  },
+};
+
+export const metadataApi = {
+  // Look up a DOI or arXiv ID (Crossref, then DataCite)
+  async resolve(identifier: string): Promise<ResolvedMetadata> {
+    return electronAPI.metadata.resolve(identifier);
+  },
+
+  // Resolver base URLs
+  async getSettings(): Promise<MetadataResolverSettings> {
+    return electronAPI.metadata.getSettings();
+  },
+
+  async updateSettings(settings: Partial<MetadataResolverSettings>): Promise<MetadataResolverSettings> {
+    return electronAPI.metadata.updateSettings(settings);
+  },
+};
+
+export const taxonomyApi = {
+  // Entities of a table with usage counts and aliases
+  async list(type: EntityType): Promise<TaxonomyEntity[]> {
+    return electronAPI.taxonomy.list(type);
+  },
+
+  // Rename (the old name is kept as an alias)
+  async rename(type: EntityType, id: number, name: string): Promise<void> {
+    return electronAPI.taxonomy.rename(type, id, name);
+  },
+
+  // Relink the articles of sourceIds to targetId and delete the sources
+  async merge(type: EntityType, sourceIds: number[], targetId: number): Promise<void> {
+    return electronAPI.taxonomy.merge(type, sourceIds, targetId);
+  },
+
+  // Delete entities without articles (only among ids if given), returns how many were deleted
+  async deleteUnused(type: EntityType, ids?: number[]): Promise<number> {
+    return electronAPI.taxonomy.deleteUnused(type, ids);
+  },
+
+  async addAlias(type: EntityType, id: number, alias: string): Promise<void> {
+    return electronAPI.taxonomy.addAlias(type, id, alias);
+  },
+
+  async removeAlias(type: EntityType, alias: string): Promise<void> {
+    return electronAPI.taxonomy.removeAlias(type, alias);
+  },
+};
+
+export const collectionsApi = {
+  // All collections, siblings in order (nesting through parentId)
+  async list(): Promise<Collection[]> {
+    return electronAPI.collections.list();
+  },
+
+  async create(name: string, parentId: number | null = null): Promise<Collection> {
+    return electronAPI.collections.create(name, parentId);
+  },
+
+  async update(id: number, changes: CollectionUpdate): Promise<Collection> {
+    return electronAPI.collections.update(id, changes);
+  },
+
+  // Move under another parent (null = top level) at a position among the new siblings
+  async move(id: number, parentId: number | null, position: number): Promise<void> {
+    return electronAPI.collections.move(id, parentId, position);
+  },
+
+  // Delete a collection (subcollections move up, articles stay in the library)
+  async delete(id: number): Promise<void> {
+    return electronAPI.collections.delete(id);
+  },
+
+  async addArticles(id: number, articleIds: string[]): Promise<Collection> {
+    return electronAPI.collections.addArticles(id, articleIds);
+  },
+
+  async removeArticles(id: number, articleIds: string[]): Promise<Collection> {
+    return electronAPI.collections.removeArticles(id, articleIds);
+  },
+
+  async reorderArticles(id: number, articleIds: string[]): Promise<Collection> {
+    return electronAPI.collections.reorderArticles(id, articleIds);
+  },
+
+  // Choose a folder and copy the articles' PDFs and notes there with a bibliography (null if cancelled)
+  async exportBundle(name: string, articles: Article[], style: CitationStyle): Promise<BundleExportResult | null> {
+    return electronAPI.files.exportBundle(name, articles, style);
+  },
+};
+
+export const savedViewsApi = {
+  // Saved views in order (query = serializeQuery() string)
+  async list(): Promise<SavedView[]> {
+    return electronAPI.savedViews.list();
+  },
+
+  async create(name: string, query: string): Promise<SavedView> {
+    return electronAPI.savedViews.create(name, query);
+  },
+
+  async update(id: number, changes: { name?: string; query?: string }): Promise<SavedView> {
+    return electronAPI.savedViews.update(id, changes);
+  },
+
+  async delete(id: number): Promise<void> {
+    return electronAPI.savedViews.delete(id);
+  },
+
+  async reorder(ids: number[]): Promise<void> {
+    return electronAPI.savedViews.reorder(ids);
+  },
+};
+
+export const annotationsApi = {
+  // Annotations of an article, by page then top to bottom
+  async list(articleId: string): Promise<Annotation[]> {
+    return electronAPI.annotations.list(articleId);
+  },
+
+  async create(articleId: string, input: AnnotationInput): Promise<Annotation> {
+    return electronAPI.annotations.create(articleId, input);
+  },
+
+  async update(id: number, changes: AnnotationUpdate): Promise<Annotation> {
+    return electronAPI.annotations.update(id, changes);
+  },
+
+  async delete(id: number): Promise<void> {
+    return electronAPI.annotations.delete(id);
+  },
+
+  // Import the annotations already in the PDF again (made in another reader), returns how many
+  async rescan(articleId: string): Promise<number> {
+    return electronAPI.files.importPdfAnnotations(articleId);
+  },
+
+  // Save a copy of the PDF with the annotations in it (null if cancelled)
+  async exportPdf(articleId: string): Promise<string | null> {
+    return electronAPI.files.exportAnnotatedPdf(articleId);
+  },
+
+  // Save the annotations grouped by page and color, as Markdown or Word (null if cancelled)
+  async exportDigest(articleId: string, format: AnnotationDigestFormat): Promise<string | null> {
+    return electronAPI.files.exportAnnotationDigest(articleId, format);
+  },
+};
+
+export const relationsApi = {
+  // Relations from and to an article, with the other article's title
+  async list(articleId: string): Promise<ArticleRelations> {
+    return electronAPI.relations.list(articleId);
+  },
+
+  // "fromId cites toId", "fromId extends toId"...
+  async add(fromId: string, toId: string, type: RelationType, note?: string): Promise<ArticleRelation> {
+    return electronAPI.relations.add(fromId, toId, type, note);
+  },
+
+  async delete(id: number): Promise<void> {
+    return electronAPI.relations.delete(id);
+  },
+
+  // Articles and relations of the library (null) or of a collection and its subcollections
+  async graph(collectionId: number | null): Promise<RelationGraph> {
+    return electronAPI.relations.graph(collectionId);
+  },
+
+  // Find citations in the reference list of an article's PDF (and of the PDFs citing it)
+  async detect(articleId: string): Promise<RelationDetectionReport> {
+    return electronAPI.relations.detect(articleId);
+  },
+
+  // Find citations in the reference lists of every PDF
+  async detectAll(): Promise<RelationDetectionReport> {
+    return electronAPI.relations.detectAll();
+  },
+
+  // Entries of the reference list in the article's PDF, parsed and matched against the library
+  async references(articleId: string): Promise<ArticleReferences> {
+    return electronAPI.files.extractReferences(articleId);
+  },
+};
+
+export const revisionsApi = {
+  // Snapshots of an article after each change, newest first
+  async list(articleId: string): Promise<ArticleRevision[]> {
+    return electronAPI.revisions.list(articleId);
+  },
+
+  // Put the article back in the state of a revision (returns the updated article)
+  async restore(revisionId: number): Promise<Article> {
+    return electronAPI.revisions.restore(revisionId);
+  },
+};
+
+export const backupsApi = {
+  // Backups, newest first
+  async list(): Promise<BackupInfo[]> {
+    return electronAPI.backups.list();
+  },
+
+  // Back up the library now
+  async create(): Promise<BackupInfo> {
+    return electronAPI.backups.create();
+  },
+
+  // Check a backup's files against their checksums and its database's integrity
+  async verify(id: string): Promise<BackupVerification> {
+    return electronAPI.backups.verify(id);
+  },
+
+  // Delete a backup folder
+  async delete(id: string): Promise<{success: boolean}> {
+    return electronAPI.backups.delete(id);
+  },
+
+  // Restore a backup at the next startup (the current library is backed up first)
+  async restore(id: string): Promise<{success: boolean}> {
+    return electronAPI.backups.restore(id);
+  },
+
+  // Schedule, files included, number of backups kept
+  async getSettings(): Promise<BackupSettings> {
+    return electronAPI.backups.getSettings();
+  },
+
+  // Update the backup settings (returns them as saved)
+  async updateSettings(settings: Partial<BackupSettings>): Promise<BackupSettings> {
+    return electronAPI.backups.updateSettings(settings);
+  },
 };
@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import { Collection } from '../types/collection';
+import { collectionsApi } from '../services/api';
+
+interface CollectionsStore {
+  collections: Collection[];
+
+  // Actions
+  setCollections: (collections: Collection[]) => void;
+  updateCollection: (collection: Collection) => void;
+  loadCollections: () => Promise<void>;
+}
+
+// Shared by the Sidebar, the Library filter and the Collections page
+export const useCollectionsStore = create<CollectionsStore>((set) => ({
+  collections: [],
+
+  setCollections: (collections) => set({ collections }),
+
+  updateCollection: (updated) =>
+    set((state) => ({
+      collections: state.collections.map((collection) =>
+        collection.id === updated.id ? updated : collection
+      ),
+    })),
+
+  loadCollections: async () => {
+    try {
+      const collections = await collectionsApi.list();
+      set({ collections });
+    } catch (error) {
+      console.error('Error loading collections:', error);
+    }
+  },
+}));
@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import { SavedView } from '../types/query';
+import { savedViewsApi } from '../services/api';
+
+interface SavedViewsStore {
+  views: SavedView[];
+
+  // Actions
+  setViews: (views: SavedView[]) => void;
+  loadViews: () => Promise<void>;
+}
+
+// Shared by the Sidebar (list) and the Library page (save, update, delete)
+export const useSavedViewsStore = create<SavedViewsStore>((set) => ({
+  views: [],
+
+  setViews: (views) => set({ views }),
+
+  loadViews: async () => {
+    try {
+      const views = await savedViewsApi.list();
+      set({ views });
+    } catch (error) {
+      console.error('Error loading saved views:', error);
+    }
+  },
+}));
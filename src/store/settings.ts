@@ -1,10 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-
-// Quick filter types
-type QuickFilter = 'none' | 'recent';
-type LibraryReadFilter = 'all' | 'read' | 'unread';
-type LibraryFavoriteFilter = 'all' | 'favorites' | 'non-favorites';
+import { CitationStyle } from '../types/citation';
+import { LibraryQuery } from '../types/query';
+import { EMPTY_LIBRARY_QUERY } from '../lib/libraryQuery';
 
 interface SettingsStore {
   theme: 'light' | 'dark';
@@ -12,18 +10,15 @@ interface SettingsStore {
   language: string;
   pdfViewer: 'system' | 'integrated';
   fontSize: number;
+  citationStyle: CitationStyle; // Last style used to copy a citation or build a bibliography
+  hideEmptyFacets: boolean; // Library filter options matching no article: hidden instead of dimmed
 
   // Navigation guard for unsaved changes
   hasUnsavedChanges: boolean;
   unsavedChangesCallback: (() => void) | null;
 
-  // Global search & quick filters
-  globalSearchText: string;
-  activeQuickFilter: QuickFilter;
-
-  // Library filters (shared between Sidebar quick filters and Library page)
-  libraryFilterRead: LibraryReadFilter;
-  libraryFilterFavorite: LibraryFavoriteFilter;
+  // Library filters and sort (shared between TopBar search, Sidebar quick filters/views and Library page)
+  libraryQuery: LibraryQuery;
 
   // Actions
   toggleTheme: () => void;
@@ -32,12 +27,12 @@ interface SettingsStore {
   setLanguage: (language: string) => void;
   setPdfViewer: (viewer: 'system' | 'integrated') => void;
   setFontSize: (size: number) => void;
+  setCitationStyle: (style: CitationStyle) => void;
+  setHideEmptyFacets: (hide: boolean) => void;
   setUnsavedChanges: (hasChanges: boolean, callback?: () => void) => void;
   clearUnsavedChanges: () => void;
-  setGlobalSearchText: (text: string) => void;
-  setActiveQuickFilter: (filter: QuickFilter) => void;
-  setLibraryFilterRead: (filter: LibraryReadFilter) => void;
-  setLibraryFilterFavorite: (filter: LibraryFavoriteFilter) => void;
+  setLibraryQuery: (changes: Partial<LibraryQuery>) => void;
+  replaceLibraryQuery: (query: LibraryQuery) => void;
   clearFilters: () => void;
 }
 
@@ -49,12 +44,11 @@ export const useSettingsStore = create<SettingsStore>()(
       language: 'en',
       pdfViewer: 'system',
       fontSize: 14,
+      citationStyle: 'apa',
+      hideEmptyFacets: false,
       hasUnsavedChanges: false,
       unsavedChangesCallback: null,
-      globalSearchText: '',
-      activeQuickFilter: 'none',
-      libraryFilterRead: 'all',
-      libraryFilterFavorite: 'all',
+      libraryQuery: EMPTY_LIBRARY_QUERY,
 
       toggleTheme: () =>
         set((state) => ({
@@ -72,26 +66,22 @@ export const useSettingsStore = create<SettingsStore>()(
 
       setFontSize: (fontSize) => set({ fontSize }),
 
+      setCitationStyle: (citationStyle) => set({ citationStyle }),
+
+      setHideEmptyFacets: (hideEmptyFacets) => set({ hideEmptyFacets }),
+
       setUnsavedChanges: (hasChanges, callback) =>
         set({ hasUnsavedChanges: hasChanges, unsavedChangesCallback: callback || null }),
 
       clearUnsavedChanges: () =>
         set({ hasUnsavedChanges: false, unsavedChangesCallback: null }),
 
-      setGlobalSearchText: (text) => set({ globalSearchText: text }),
+      setLibraryQuery: (changes) =>
+        set((state) => ({ libraryQuery: { ...state.libraryQuery, ...changes } })),
 
-      setActiveQuickFilter: (filter) => set({ activeQuickFilter: filter }),
+      replaceLibraryQuery: (libraryQuery) => set({ libraryQuery }),
 
-      setLibraryFilterRead: (filter) => set({ libraryFilterRead: filter }),
-
-      setLibraryFilterFavorite: (filter) => set({ libraryFilterFavorite: filter }),
-
-      clearFilters: () => set({
-        globalSearchText: '',
-        activeQuickFilter: 'none',
-        libraryFilterRead: 'all',
-        libraryFilterFavorite: 'all',
-      }),
+      clearFilters: () => set({ libraryQuery: EMPTY_LIBRARY_QUERY }),
     }),
     {
       name: 'research-manager-settings',
@@ -101,6 +91,8 @@ export const useSettingsStore = create<SettingsStore>()(
         language: state.language,
         pdfViewer: state.pdfViewer,
         fontSize: state.fontSize,
+        citationStyle: state.citationStyle,
+        hideEmptyFacets: state.hideEmptyFacets,
         // Don't persist search/filters - they reset on app restart
       }),
     }
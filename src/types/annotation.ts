@@ -0,0 +1,46 @@
+// Types for PDF annotations made in the integrated reader (highlights, sticky notes, page bookmarks)
+
+export type AnnotationType = 'highlight' | 'note' | 'bookmark';
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+export type AnnotationSource = 'reader' | 'pdf'; // Made in the reader, or imported from the PDF file
+
+// Area of a page, as fractions (0-1) of the page width and height from its top-left corner - independent of the zoom
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Annotation {
+  id: number;
+  articleId: string;
+  type: AnnotationType;
+  page: number; // 1-based
+  rects: AnnotationRect[]; // Highlight: one per line of text; note: where it is pinned (empty size); bookmark: none
+  color: AnnotationColor;
+  text: string | null; // Highlighted text
+  comment: string | null; // Note content, or comment on a highlight / bookmark
+  source: AnnotationSource;
+  pdfAnnotationId?: string | null; // Source 'pdf': id of the annotation in the PDF file
+  editedAt?: string | null; // Source 'pdf': set once the user changed it, a rescan of the PDF leaves it as it is
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface AnnotationInput {
+  type: AnnotationType;
+  page: number;
+  rects: AnnotationRect[];
+  color: AnnotationColor;
+  text?: string | null;
+  comment?: string | null;
+}
+
+export interface AnnotationUpdate {
+  color?: AnnotationColor;
+  comment?: string | null;
+}
+
+// File format of the annotation digest export
+export type AnnotationDigestFormat = 'markdown' | 'docx';
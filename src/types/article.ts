@@ -1,4 +1,4 @@
-// Article types based on Prisma schema
+// Article types (rows of the Article table, see src/electron/migrations)
 
 export interface Article {
   id: string; // PAPER001, PAPER002, etc.
@@ -111,3 +111,21 @@ export interface ArticleFormData {
   // File upload
   pdfFile?: File;
 }
+
+// Relations a bulk edit can add to or remove from many articles at once
+export type BulkRelation = 'tags' | 'keywords' | 'subjects';
+
+// Changes applied to every selected article by articles:bulkUpdate (omitted = unchanged)
+export interface BulkArticleUpdate {
+  add?: Partial<Record<BulkRelation, string[]>>;
+  remove?: Partial<Record<BulkRelation, string[]>>;
+  read?: boolean;
+  favorite?: boolean;
+  rating?: number;
+}
+
+// Result of generating several Word notes (files:generateNotes)
+export interface NoteGenerationResult {
+  generated: number;
+  errors: string[]; // "<article ID>: <reason>"
+}
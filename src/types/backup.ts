@@ -0,0 +1,49 @@
+// Types for backups of the library (database, optionally PDFs and notes)
+
+// What made a backup
+export type BackupTrigger = 'manual' | 'startup' | 'daily' | 'pre-migration' | 'pre-restore';
+
+// When backups are made without asking
+export type BackupSchedule = 'off' | 'startup' | 'daily';
+
+export interface BackupSettings {
+  schedule: BackupSchedule;
+  includeFiles: boolean; // PDFs and notes too, not only the database
+  keep: number; // Most recent backups kept (0: all)
+}
+
+// A file of a backup (path relative to the backup folder)
+export interface BackupFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+// manifest.json of a backup folder
+export interface BackupManifest {
+  version: number;
+  createdAt: string; // ISO date
+  trigger: BackupTrigger;
+  appVersion: string;
+  articles: number;
+  includesFiles: boolean;
+  files: BackupFile[];
+}
+
+// A backup as listed in Settings
+export interface BackupInfo {
+  id: string; // Folder name
+  createdAt: string;
+  trigger: BackupTrigger;
+  appVersion: string;
+  articles: number;
+  includesFiles: boolean;
+  fileCount: number;
+  size: number; // Bytes
+}
+
+// Result of checking a backup: every file against its checksum, and the database itself
+export interface BackupVerification {
+  ok: boolean;
+  errors: string[];
+}
@@ -0,0 +1,11 @@
+// Types for formatted citations and bibliographies (citations:* channels)
+
+export type CitationStyle = 'apa' | 'mla' | 'chicago' | 'ieee' | 'harvard';
+
+export type BibliographyFormat = 'text' | 'html' | 'docx';
+
+// One article formatted in a style, ready to copy
+export interface FormattedCitation {
+  text: string;
+  html: string;
+}
@@ -0,0 +1,24 @@
+// Types for collections (named, ordered reading lists that can be nested)
+
+export interface Collection {
+  id: number;
+  name: string;
+  description: string;
+  parentId: number | null; // null for top-level collections
+  position: number; // Order among the collections with the same parent
+  articleIds: string[]; // In the collection's manual order
+  createdAt?: string;
+}
+
+export interface CollectionUpdate {
+  name?: string;
+  description?: string;
+}
+
+// Result of files:exportBundle (folder with PDFs, notes and a bibliography)
+export interface BundleExportResult {
+  path: string;
+  articles: number;
+  pdfs: number;
+  notes: number;
+}
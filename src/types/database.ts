@@ -0,0 +1,39 @@
+// Types for full library JSON export/import (database:export / database:import)
+
+export type LibraryImportMode = 'merge' | 'replace';
+
+export interface LibraryImportOptions {
+  // merge: keep the current library and add what's missing
+  // replace: wipe the current library and restore the file as-is
+  mode: LibraryImportMode;
+  // Run the import inside a transaction that is rolled back, only returning the report
+  dryRun?: boolean;
+}
+
+export interface LibraryEntityReport {
+  total: number;
+  created: number;
+  matched: number; // Existing entity with the same name was reused (merge mode)
+}
+
+export interface LibraryImportReport {
+  mode: LibraryImportMode;
+  dryRun: boolean;
+  exportedAt: string | null;
+  articles: {
+    total: number;
+    imported: number;
+    skippedIds: string[]; // IDs already present in the library (merge mode)
+  };
+  entities: Record<string, LibraryEntityReport>;
+  relations: number;
+  records: Record<string, number>; // Rows added to the other tables (Annotation, Collection...)
+  settingsRestored: boolean;
+  nextArticleId: number;
+  warnings: string[];
+}
+
+export interface LibraryExportResult {
+  path: string;
+  articles: number;
+}
@@ -0,0 +1,44 @@
+// Types for duplicate detection and merging (articles:findDuplicates / articles:merge)
+
+// Why two articles are considered the same work
+export type DuplicateReason = 'doi' | 'title' | 'authors';
+
+export interface DuplicateCandidate {
+  articleIds: [string, string]; // Lowest ID first
+  score: number; // 0-1, 1 = same DOI
+  titleSimilarity: number; // 0-1
+  authorOverlap: number; // Share of the shorter author list found in the other one, 0-1
+  reasons: DuplicateReason[];
+}
+
+// Article columns whose value is picked from one side when merging
+export type MergeField =
+  | 'title'
+  | 'abstract'
+  | 'conclusion'
+  | 'year'
+  | 'date'
+  | 'journal'
+  | 'doi'
+  | 'language'
+  | 'numPages'
+  | 'researchQuestion'
+  | 'methodology'
+  | 'dataUsed'
+  | 'results'
+  | 'limitations'
+  | 'firstImp'
+  | 'notes'
+  | 'comment'
+  | 'rating'
+  | 'read'
+  | 'favorite';
+
+export type MergeSide = 'keep' | 'retire';
+
+export interface ArticleMergeRequest {
+  keepId: string; // Article that stays
+  retireId: string; // Article removed after the merge, its ID then points to keepId
+  fields: Partial<Record<MergeField, MergeSide>>; // Missing fields keep the value of keepId
+  pdf: MergeSide; // Whose PDF to keep (falls back to the other one if that side has none)
+}
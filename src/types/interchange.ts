@@ -0,0 +1,11 @@
+// Types for bibliographic import/export (import:* / export:* channels)
+
+import { ArticleFormData } from './article';
+
+export type InterchangeFormat = 'bibtex' | 'ris' | 'csl';
+
+// Result of parsing an import file - duplicates are detected afterwards against the library
+export interface ImportParseResult {
+  articles: ArticleFormData[];
+  errors: string[]; // Entries that could not be converted, with the reason
+}
@@ -0,0 +1,20 @@
+// Types for Markdown in the research note fields (src/lib/markdown.ts), rendered in the app and in Word notes
+// Formulas keep their TeX source: KaTeX renders them
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; children: MarkdownInline[] }
+  | { type: 'articleLink'; id: string; title: string | null } // [[0042]], title null if no such article
+  | { type: 'math'; tex: string; display: boolean } // $x$, or $$x$$ within a line (display style)
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'math'; tex: string } // $$...$$ on its own lines
+  | { type: 'rule' };
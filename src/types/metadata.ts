@@ -0,0 +1,66 @@
+// Types for article metadata suggestions (read from the PDF or looked up online)
+
+import { ArticleFormData } from './article';
+
+// Form fields a suggestion can fill
+export type MetadataField =
+  | 'title'
+  | 'authors'
+  | 'doi'
+  | 'year'
+  | 'date'
+  | 'journal'
+  | 'abstract'
+  | 'keywords'
+  | 'numPages';
+
+// Where a suggested value was found
+export type MetadataSource = 'xmp' | 'info' | 'text' | 'crossref' | 'datacite';
+
+export interface MetadataSuggestion {
+  field: MetadataField;
+  value: string; // Authors and keywords are comma separated, like the form inputs
+  confidence: number; // 0 to 1
+  source: MetadataSource;
+}
+
+// One line of the first page, as laid out in the PDF
+export interface PdfTextLine {
+  text: string;
+  fontSize: number;
+  top: number; // Distance from the top of the page, in PDF units
+}
+
+// Raw metadata read from a PDF file, before any guessing
+export interface PdfMetadataSource {
+  info: Record<string, string>; // Document information dictionary (Title, Author, Subject...)
+  xmp: Record<string, string | string[]>; // XMP properties (dc:title, prism:doi...)
+  lines: PdfTextLine[]; // First page text, in reading order
+  pageHeight: number;
+}
+
+// Identifier a resolver can look up
+export interface MetadataIdentifier {
+  type: 'doi' | 'arxiv';
+  value: string; // "10.1038/nature14539", "2101.00001" (arXiv IDs without version)
+}
+
+// Article metadata found by a resolver (metadata:resolve)
+export interface ResolvedMetadata {
+  source: 'crossref' | 'datacite';
+  identifier: MetadataIdentifier;
+  article: ArticleFormData;
+}
+
+// API locations - point them to a stand-in server to work offline
+export interface MetadataResolverSettings {
+  crossrefUrl: string;
+  dataciteUrl: string;
+}
+
+// A field whose stored value differs from the registry (Library "refresh metadata")
+export interface MetadataFieldChange {
+  field: MetadataField;
+  current: string;
+  proposed: string;
+}
@@ -0,0 +1,8 @@
+/**
+ * pdfjs-dist ships no typings for its worker entry points.
+ * They are only loaded to run pdfjs without a real worker thread
+ * (legacy build in the main process, modern build in the PDF reader).
+ */
+
+declare module 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+declare module 'pdfjs-dist/build/pdf.worker.mjs';
@@ -0,0 +1,93 @@
+// Types for the Library query model (filters + sort), shared by the TopBar search, the Library page and saved views
+
+import { Article } from './article';
+import { QuerySyntaxError } from './search';
+
+export type LibrarySortColumn = 'id' | 'title' | 'year' | 'createdAt' | 'updatedAt';
+export type LibraryReadFilter = 'all' | 'read' | 'unread';
+export type LibraryFavoriteFilter = 'all' | 'favorites' | 'non-favorites';
+
+// '' = no bound (what the Library inputs hold when empty)
+type Bound = number | '';
+
+export interface LibraryQuery {
+  text: string;
+  searchFields: string[]; // ['all'] or article field names, 'pdfText' included
+  read: LibraryReadFilter;
+  favorite: LibraryFavoriteFilter;
+  collectionId: number | null; // Its subcollections included
+  yearMin: Bound;
+  yearMax: Bound;
+  dateAddedMin: Bound; // Timestamps (ms)
+  dateAddedMax: Bound;
+  ratingMin: Bound;
+  ratingMax: Bound;
+  pagesMin: Bound;
+  pagesMax: Bound;
+  authors: string[];
+  keywords: string[];
+  tags: string[];
+  subjects: string[];
+  universities: string[];
+  companies: string[];
+  journals: string[];
+  matchAll: LibraryFacetKey[]; // List filters requiring every selected value (the others: any of them)
+  sortColumn: LibrarySortColumn | null; // null = relevance, collection order or newest first
+  sortDirection: 'asc' | 'desc';
+}
+
+// A named query stored in the database (smart view), re-evaluated each time it is shown
+export interface SavedView {
+  id: number;
+  name: string;
+  query: string; // serializeQuery() output
+  position: number;
+  createdAt?: string;
+}
+
+// articles:query - one page of the Library, evaluated in SQL by the main process
+export interface ArticleQueryRequest {
+  query: LibraryQuery;
+  cursor?: string | null; // nextCursor of the previous page, none for the first page
+  limit?: number; // Page size, 0 = only count
+  facets?: boolean; // Also count the values of each filter
+  ids?: boolean; // Also list the IDs of every match
+}
+
+// List filters with facet counts (LibraryQuery keys)
+export type LibraryFacetKey = 'authors' | 'keywords' | 'tags' | 'subjects' | 'universities' | 'companies' | 'journals';
+
+export interface FacetCount {
+  value: string;
+  count: number; // Matching articles if this value were selected too
+}
+
+// Each facet is counted with every filter applied except its own, values with no match included
+export interface LibraryFacets {
+  lists: Record<LibraryFacetKey, FacetCount[]>;
+  read: number;
+  unread: number;
+  favorites: number;
+  nonFavorites: number;
+  ratings: FacetCount[]; // '0' to '5'
+  addedLast30Days: number; // Among the matches
+  updatedLast30Days: number;
+  // Bounds of the range filters over the whole library (null when empty)
+  ranges: {
+    yearMin: number | null;
+    yearMax: number | null;
+    dateAddedMin: string | null; // YYYY-MM-DD
+    dateAddedMax: string | null;
+    pagesMax: number | null;
+  };
+}
+
+export interface ArticleQueryResult {
+  articles: Article[]; // The page, with relations
+  total: number;
+  nextCursor: string | null; // null on the last page
+  articleIds: string[] | null; // Every match in order when asked (ids), for selection and actions on everything shown
+  facets: LibraryFacets | null;
+  structured: boolean; // query.text uses the query language (fields, flags, OR...)
+  errors: QuerySyntaxError[]; // Problems in a structured query.text (nothing matches then)
+}
@@ -0,0 +1,29 @@
+// Types for the reference list of an article, read from the text of its PDF
+
+// One entry of the list, with the fields guessed from its text
+export interface ParsedReference {
+  raw: string; // Entry as written, on one line
+  authors: string[]; // "Given Family" form, like stored authors
+  title: string;
+  year: number | null;
+  venue: string; // Journal, conference or book
+  doi: string; // Lowercased, '' when none
+}
+
+// Library article the entry refers to
+export interface ReferenceMatch {
+  articleId: string;
+  title: string;
+  by: 'doi' | 'title';
+}
+
+export interface ReferenceEntry extends ParsedReference {
+  index: number; // Position in the list, from 1
+  match: ReferenceMatch | null;
+}
+
+// Reference list of a stored PDF (files:extractReferences)
+export interface ArticleReferences {
+  hasPdfText: boolean; // False when the article has no PDF, or its text could not be read
+  entries: ReferenceEntry[]; // Empty when no reference list was found
+}
@@ -0,0 +1,41 @@
+// Types for typed links between articles of the library (ArticleRelation) and the citation graph
+
+// "from cites to", "from extends to"... - same-dataset reads the same both ways
+export type RelationType = 'cites' | 'extends' | 'contradicts' | 'replicates' | 'same-dataset';
+export type RelationSource = 'manual' | 'auto'; // Added by hand, or found in the reference list of the PDF
+
+export interface ArticleRelation {
+  id: number;
+  fromId: string;
+  toId: string;
+  type: RelationType;
+  source: RelationSource;
+  note: string | null;
+  createdAt?: string;
+}
+
+// Article at the other end of a relation
+export interface RelatedArticle {
+  relation: ArticleRelation;
+  id: string;
+  title: string;
+  year: number;
+}
+
+// Relations of one article (relations:list)
+export interface ArticleRelations {
+  outgoing: RelatedArticle[]; // This article is `fromId`
+  incoming: RelatedArticle[]; // This article is `toId`
+}
+
+// Articles and relations of the library or of one collection (relations:graph)
+export interface RelationGraph {
+  nodes: Array<{ id: string; title: string; year: number; read: boolean; favorite: boolean }>;
+  edges: Array<{ id: number; fromId: string; toId: string; type: RelationType; source: RelationSource }>;
+}
+
+// Result of detecting citations in the reference lists of the PDFs
+export interface RelationDetectionReport {
+  articles: number; // Articles whose reference list was found
+  added: number; // New "cites" relations
+}
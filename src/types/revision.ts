@@ -0,0 +1,32 @@
+// Types for the edit history of articles (ArticleRevision) and the trash of deleted articles
+
+import { ArticleFormData } from './article';
+
+// What produced a revision ("merge": the article was merged into another one)
+export type RevisionAction = 'create' | 'update' | 'restore' | 'delete' | 'undelete' | 'merge';
+
+// Field values and relation names of an article at one point in time
+export type ArticleSnapshot = Omit<ArticleFormData, 'pdfFile'> & { dateAdded: string };
+
+// Fields compared between revisions
+export type RevisionField = Exclude<keyof ArticleSnapshot, 'dateAdded'>;
+
+export interface ArticleRevision {
+  id: number;
+  articleId: string;
+  action: RevisionAction;
+  snapshot: ArticleSnapshot; // State after the action (before it, for delete and merge)
+  createdAt: string;
+}
+
+// Article in the trash (articles:trash): hidden from the library until restored or purged
+export interface TrashedArticle {
+  id: string;
+  title: string;
+  authors: string[];
+  year: number;
+  deletedAt: string;
+  purgeAt: string | null; // End of the retention period (null: kept until the trash is emptied)
+  hasPdf: boolean; // Kept in the trash folder
+  hasNote: boolean;
+}
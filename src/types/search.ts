@@ -0,0 +1,64 @@
+// Types for full-text search (articles:search)
+
+// Columns of the ArticleSearch FTS5 index
+export type SearchField =
+  | 'title'
+  | 'authors'
+  | 'abstract'
+  | 'keywords'
+  | 'tags'
+  | 'subjects'
+  | 'content' // journal, DOI, research note fields, universities, companies, PDF annotations
+  | 'pdfText';
+
+export interface ArticleSearchOptions {
+  fields?: SearchField[]; // Restrict matching to these columns (default: all)
+  limit?: number;
+}
+
+// Piece of text returned by the search, `highlight` marks matched terms
+export interface SearchTextSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface ArticleSearchResult {
+  articleId: string;
+  score: number; // Higher is more relevant
+  title: SearchTextSegment[];
+  snippet: SearchTextSegment[]; // Best matching passage across all fields
+  pdfMatch: {
+    page: number | null;
+    snippet: SearchTextSegment[];
+  } | null;
+}
+
+// Query language of the search bar (articles:structuredSearch / articles:analyzeQuery)
+
+// Problem in a query, start/end are character offsets in the query text
+export interface QuerySyntaxError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface StructuredSearchResult {
+  structured: boolean; // false for plain words and phrases (the Library's usual search applies)
+  articleIds: string[];
+  errors: QuerySyntaxError[];
+}
+
+// Autocomplete entry: replace text[from..to) with `insert`
+export interface QuerySuggestion {
+  label: string;
+  detail: string; // Field description, or number of articles for a value
+  insert: string;
+  from: number;
+  to: number;
+}
+
+export interface QueryAnalysis {
+  structured: boolean;
+  errors: QuerySyntaxError[];
+  suggestions: QuerySuggestion[];
+}
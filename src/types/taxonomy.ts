@@ -0,0 +1,11 @@
+// Types for managing the entity tables (taxonomy:* channels)
+
+// Entity tables linked to articles through an Article<Type> junction table
+export type EntityType = 'Author' | 'Keyword' | 'Subject' | 'Tag' | 'University' | 'Company';
+
+export interface TaxonomyEntity {
+  id: number;
+  name: string;
+  usageCount: number; // Number of articles linked to it
+  aliases: string[]; // Other spellings mapped to this entity on future inserts
+}
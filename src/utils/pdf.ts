@@ -1,4 +1,5 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { PdfMetadataSource, PdfTextLine } from '../types/metadata';
 
 // Disable worker for simplicity - runs in main thread
 // This is fine for just counting pages (lightweight operation)
@@ -20,3 +21,78 @@ export async function getPdfPageCount(file: File): Promise<number> {
   }).promise;
   return pdf.numPages;
 }
+
+// Info dictionary values are strings, dates, numbers or nested custom entries - keep the strings
+function stringEntries(values: object | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values || {})) {
+    if (typeof value === 'string' && value.trim()) result[key] = value.trim();
+    // Non-standard keys (e.g. "doi") are grouped under Custom
+    else if (key === 'Custom' && value && typeof value === 'object') Object.assign(result, stringEntries(value));
+  }
+  return result;
+}
+
+/**
+ * Read the embedded metadata (Info dictionary, XMP) and the first page text of a PDF
+ * Lines keep their font size so the title can be told apart from the body text
+ * @param file - The PDF file to analyze
+ */
+export async function readPdfMetadata(file: File): Promise<PdfMetadataSource> {
+  const arrayBuffer = await file.arrayBuffer();
+  const pdf = await pdfjsLib.getDocument({
+    data: arrayBuffer,
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    const { info, metadata } = await pdf.getMetadata();
+
+    const xmp: Record<string, string | string[]> = {};
+    if (metadata) {
+      for (const [key, value] of metadata as Iterable<[string, unknown]>) {
+        if (typeof value === 'string' && value.trim()) xmp[key] = value.trim();
+        else if (Array.isArray(value)) xmp[key] = value.filter((item) => typeof item === 'string' && item.trim());
+      }
+    }
+
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    // Consecutive items on the same baseline make one line - content stream order is
+    // kept, it follows the reading order (one column after the other)
+    const lines: PdfTextLine[] = [];
+    let lineEnd = 0;
+    for (const item of content.items) {
+      if (!('str' in item) || !item.str.trim()) continue;
+      const fontSize = Math.round(Math.hypot(item.transform[2], item.transform[3]) * 10) / 10;
+      const top = Math.round(viewport.height - item.transform[5]);
+      const left = item.transform[4];
+      const line = lines[lines.length - 1];
+
+      const sameLine = line
+        && Math.abs(line.top - top) <= Math.max(line.fontSize, fontSize) * 0.5 // Superscripts are slightly raised
+        && left - lineEnd < fontSize * 3;
+      if (line && sameLine) {
+        line.text += (line.text.endsWith(' ') || item.str.startsWith(' ') ? '' : ' ') + item.str;
+        line.fontSize = Math.max(line.fontSize, fontSize);
+      } else {
+        lines.push({ text: item.str, fontSize, top });
+      }
+      lineEnd = left + item.width;
+    }
+    page.cleanup();
+
+    return {
+      info: stringEntries(info),
+      xmp,
+      lines: lines.map((line) => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() })),
+      pageHeight: viewport.height,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -69,3 +69,19 @@ export function cleanText(text: string): string {
 
   return cleaned.trim();
 }
+
+/**
+ * Format a size in bytes for display (B, KB, MB, GB)
+ * @param bytes - Size in bytes
+ * @returns Formatted size, e.g. "1.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
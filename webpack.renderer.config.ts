@@ -12,6 +12,12 @@ rules.push({
   ],
 });
 
+// Fonts of the KaTeX stylesheet
+rules.push({
+  test: /\.(woff2?|ttf)$/,
+  type: 'asset/resource',
+});
+
 export const rendererConfig: Configuration = {
   module: {
     rules,